@@ -0,0 +1,167 @@
+/// <reference types="jest" />
+
+jest.mock('../src/config/env', () => ({ env: { jobQueuePollIntervalMs: 10 } }));
+jest.mock('../src/utils/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+// Redis "enabled" without a client: every Redis write fails
+let mockRedisEnabled = false;
+jest.mock('../src/config/redisClient', () => ({ isRedisEnabled: () => mockRedisEnabled, getRedisClient: () => null }));
+
+import { backgroundTaskQueue } from '../src/utils/backgroundTaskQueue';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function waitFor(check: () => boolean | Promise<boolean>, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await check())) {
+    if (Date.now() > deadline) throw new Error('condition not met in time');
+    await sleep(10);
+  }
+}
+
+async function statusOf(queue: string) {
+  const status = (await backgroundTaskQueue.getStatus()).find((s) => s.queue === queue);
+  if (!status) throw new Error(`no status for ${queue}`);
+  return status;
+}
+
+describe('backgroundTaskQueue retries and timeouts (in-process store)', () => {
+  beforeAll(() => backgroundTaskQueue.start());
+  afterAll(() => backgroundTaskQueue.stop(1000));
+
+  it('retries a failing job with backoff until it succeeds', async () => {
+    const runs: number[] = [];
+    backgroundTaskQueue.registerQueue<{ n: number }>(
+      'test-retry',
+      async (_payload, job) => {
+        runs.push(job.attempts);
+        if (runs.length < 3) throw new Error('transient');
+      },
+      { attempts: 5, backoffMs: 20, timeoutMs: 1000 }
+    );
+
+    await backgroundTaskQueue.enqueue('test-retry', { n: 1 });
+    await waitFor(async () => (await statusOf('test-retry')).completed === 1);
+
+    const status = await statusOf('test-retry');
+    expect(runs).toEqual([1, 2, 3]);
+    expect(status.retried).toBe(2);
+    expect(status.dead).toBe(0);
+  });
+
+  it('moves a job to the dead-letter list once its attempts are exhausted', async () => {
+    let runs = 0;
+    backgroundTaskQueue.registerQueue(
+      'test-exhaust',
+      async () => {
+        runs += 1;
+        throw new Error('permanent');
+      },
+      { attempts: 2, backoffMs: 10, timeoutMs: 1000 }
+    );
+
+    await backgroundTaskQueue.enqueue('test-exhaust', {}, { jobId: 'exhaust-1' });
+    await waitFor(async () => (await statusOf('test-exhaust')).dead === 1);
+
+    const [dead] = await backgroundTaskQueue.listJobs('test-exhaust', 'dead');
+    expect(runs).toBe(2);
+    expect(dead).toMatchObject({ id: 'exhaust-1', attempts: 2, lastError: 'permanent' });
+  });
+
+  it('aborts a timed-out handler and retries only after it has stopped', async () => {
+    let running = 0;
+    let maxParallel = 0;
+    let runs = 0;
+    const aborts: string[] = [];
+    backgroundTaskQueue.registerQueue(
+      'test-timeout-abort',
+      async (_payload, _job, signal) => {
+        runs += 1;
+        running += 1;
+        maxParallel = Math.max(maxParallel, running);
+        try {
+          if (runs > 1) return;
+          // First run hangs until aborted, then takes a moment to clean up
+          await new Promise<void>((resolve) => signal.addEventListener('abort', () => resolve()));
+          aborts.push(String((signal.reason as Error)?.message));
+          await sleep(30);
+        } finally {
+          running -= 1;
+        }
+      },
+      { attempts: 3, backoffMs: 10, timeoutMs: 50, concurrency: 2 }
+    );
+
+    await backgroundTaskQueue.enqueue('test-timeout-abort', {});
+    await waitFor(async () => (await statusOf('test-timeout-abort')).completed === 1);
+
+    expect(aborts).toEqual(['Job timed out after 50ms']);
+    expect(runs).toBe(2);
+    expect(maxParallel).toBe(1);
+  });
+
+  it('does not retry a timed-out handler that ignores the abort', async () => {
+    let runs = 0;
+    let release: () => void = () => undefined;
+    backgroundTaskQueue.registerQueue(
+      'test-timeout-stuck',
+      async () => {
+        runs += 1;
+        await new Promise<void>((resolve) => {
+          release = resolve;
+        });
+      },
+      { attempts: 3, backoffMs: 10, timeoutMs: 30, concurrency: 1 }
+    );
+
+    await backgroundTaskQueue.enqueue('test-timeout-stuck', {}, { jobId: 'stuck-1' });
+    await waitFor(async () => (await statusOf('test-timeout-stuck')).dead === 1);
+
+    const [dead] = await backgroundTaskQueue.listJobs('test-timeout-stuck', 'dead');
+    expect(dead.lastError).toMatch(/did not stop after abort/);
+    // The handler still holds its slot, so the next job waits for it
+    await backgroundTaskQueue.enqueue('test-timeout-stuck', {}, { jobId: 'stuck-2' });
+    await sleep(100);
+    expect(runs).toBe(1);
+    expect((await statusOf('test-timeout-stuck')).running).toBe(1);
+
+    release();
+    await waitFor(() => runs === 2);
+    release();
+    await waitFor(async () => (await statusOf('test-timeout-stuck')).completed === 1);
+  });
+});
+
+describe('backgroundTaskQueue when a Redis write fails', () => {
+  beforeAll(() => {
+    mockRedisEnabled = true;
+    // Like the API process when Redis jobs are left to the worker
+    backgroundTaskQueue.start({ redis: false });
+  });
+  afterAll(async () => {
+    await backgroundTaskQueue.stop(1000);
+    mockRedisEnabled = false;
+  });
+
+  it('throws for durable jobs instead of keeping them in process', async () => {
+    await expect(backgroundTaskQueue.enqueue('test-durable', {}, { durable: true })).rejects.toThrow(
+      'Redis client unavailable'
+    );
+  });
+
+  it('keeps other jobs in process and drains them without consuming Redis', async () => {
+    const runs: string[] = [];
+    backgroundTaskQueue.registerQueue<{ id: string }>(
+      'test-fallback',
+      async ({ id }) => {
+        runs.push(id);
+      },
+      { attempts: 1, timeoutMs: 1000 }
+    );
+
+    await expect(backgroundTaskQueue.enqueue('test-fallback', { id: 'a' }, { jobId: 'fallback-1' })).resolves.toBe(
+      'fallback-1'
+    );
+    await waitFor(() => runs.length === 1);
+    expect(runs).toEqual(['a']);
+  });
+});
@@ -0,0 +1,118 @@
+/// <reference types="jest" />
+import { EventEmitter } from 'events';
+import type { Request, Response } from 'express';
+
+jest.mock('../src/config/firebaseAdmin', () => ({ adminDb: {}, admin: {} }));
+jest.mock('../src/services/creditsService', () => ({
+  creditsService: {
+    ensureUserInit: jest.fn(async () => undefined),
+    ensureLaunchDailyReset: jest.fn(async () => ({ creditBalance: 100, planCode: 'FREE' })),
+    validateBeforeGeneration: jest.fn(async () => ({ valid: true })),
+    getCachedPlanCode: jest.fn(async () => 'FREE'),
+  },
+}));
+jest.mock('../src/repository/creditsRepository', () => ({ creditsRepository: {} }));
+jest.mock('../src/repository/canvas/projectRepository', () => ({ projectRepository: {} }));
+jest.mock('../src/repository/creditHoldsRepository', () => ({
+  creditHoldsRepository: {
+    placeHold: jest.fn(),
+    expireStaleHoldsForUser: jest.fn(async () => 0),
+    settleHold: jest.fn(async () => 'RELEASED'),
+  },
+}));
+jest.mock('../src/repository/generationHistoryRepository', () => ({
+  generationHistoryRepository: { get: jest.fn(async () => null) },
+}));
+jest.mock('../src/services/generationSlotService', () => ({
+  generationSlotService: {
+    acquireSlot: jest.fn(async () => ({ acquired: true, inFlight: 1 })),
+    releaseSlot: jest.fn(async () => undefined),
+  },
+}));
+
+import { makeCreditCost } from '../src/middlewares/creditCostFactory';
+import { creditHoldsRepository } from '../src/repository/creditHoldsRepository';
+import { generationSlotService } from '../src/services/generationSlotService';
+import { getActiveCreditHold } from '../src/utils/creditHoldContext';
+import { ApiError } from '../src/utils/errorHandler';
+
+const placeHold = creditHoldsRepository.placeHold as jest.Mock;
+const settleHold = creditHoldsRepository.settleHold as jest.Mock;
+
+function mockRes() {
+  const res: any = new EventEmitter();
+  res.statusCode = 200;
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = jest.fn(() => res);
+  return res as Response & EventEmitter & { status: jest.Mock; json: jest.Mock };
+}
+
+function run(res: Response) {
+  const req = { uid: 'user-1', body: { model: 'test-model' } } as unknown as Request;
+  const middleware = makeCreditCost('fal', 'generate', async () => ({ cost: 10, pricingVersion: 'v1', meta: {} }));
+  return new Promise<{ req: Request; err?: unknown; holdKey?: string }>((resolve) => {
+    // Responses written by the middleware itself never call next
+    (res.json as jest.Mock).mockImplementation(() => {
+      resolve({ req });
+      return res;
+    });
+    middleware(req, res, (err?: unknown) => resolve({ req, err, holdKey: getActiveCreditHold()?.key }));
+  });
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('makeCreditCost credit holds', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('places a hold and runs the handler inside it', async () => {
+    placeHold.mockResolvedValue({ placed: true, available: 90 });
+    const { req, err, holdKey } = await run(mockRes());
+
+    expect(err).toBeUndefined();
+    expect(placeHold).toHaveBeenCalledWith('user-1', expect.any(String), 10, 100, expect.any(Object));
+    expect((req as any).context).toMatchObject({ creditCost: 10, billingUid: 'user-1', holdKey });
+  });
+
+  it('releases the hold when the response fails', async () => {
+    placeHold.mockResolvedValue({ placed: true, available: 90 });
+    const res = mockRes();
+    const { holdKey } = await run(res);
+
+    res.statusCode = 500;
+    res.emit('finish');
+    await flush();
+
+    expect(settleHold).toHaveBeenCalledWith('user-1', holdKey, 'RELEASED');
+  });
+
+  it('answers 402 when existing holds leave too little balance', async () => {
+    placeHold.mockResolvedValue({ placed: false, available: 4 });
+    const res = mockRes();
+    await run(res);
+
+    expect(res.status).toHaveBeenCalledWith(402);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ code: 'INSUFFICIENT_CREDITS', availableCredits: 4 }) })
+    );
+  });
+
+  it('blocks the request with 503 when the hold cannot be written', async () => {
+    placeHold.mockRejectedValue(new Error('Firestore unavailable'));
+    const res = mockRes();
+    const { req, err } = await run(res);
+
+    expect(err).toBeInstanceOf(ApiError);
+    expect((err as ApiError).statusCode).toBe(503);
+    expect((req as any).context).toBeUndefined();
+
+    // The error response frees the generation slot taken before the reservation
+    res.statusCode = 503;
+    res.emit('finish');
+    await flush();
+    expect(generationSlotService.releaseSlot).toHaveBeenCalledWith('user-1', expect.any(String));
+  });
+});
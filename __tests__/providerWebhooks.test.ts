@@ -0,0 +1,184 @@
+/// <reference types="jest" />
+import crypto from 'crypto';
+
+jest.mock('../src/config/env', () => ({
+  env: {
+    providerWebhookSecret: 'test-webhook-secret',
+    apiGatewayUrl: 'https://api.example.com/',
+    replicateWebhookSecret: `whsec_${Buffer.from('replicate-secret').toString('base64')}`,
+    minimaxApiKey: 'minimax-key',
+  },
+}));
+jest.mock('../src/utils/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+jest.mock('../src/config/firebaseAdmin', () => ({ adminDb: {}, admin: {} }));
+jest.mock('../src/utils/backgroundTaskQueue', () => ({
+  backgroundTaskQueue: { enqueue: jest.fn(async (_queue: string, _payload: unknown, options: any) => options?.jobId) },
+}));
+jest.mock('../src/repository/generationHistoryRepository', () => ({
+  generationHistoryRepository: { findByProviderTaskId: jest.fn(), get: jest.fn() },
+}));
+jest.mock('../src/repository/providerWebhookCallbacksRepository', () => ({
+  providerWebhookCallbacksRepository: { getBinding: jest.fn() },
+}));
+jest.mock('../src/services/generationHistoryService', () => ({
+  markGenerationFailed: jest.fn(async () => undefined),
+  reportProviderProgress: jest.fn(async () => undefined),
+}));
+jest.mock('../src/services/falService', () => ({ falQueueService: { queueResult: jest.fn(async () => undefined) } }));
+jest.mock('../src/services/replicateService', () => ({ replicateQueueResult: jest.fn(async () => undefined) }));
+jest.mock('../src/services/minimaxService', () => ({ minimaxService: { getVideoStatus: jest.fn(async () => undefined) } }));
+
+import {
+  buildProviderWebhookCallback,
+  verifyProviderWebhookToken,
+  verifyReplicateSignature,
+} from '../src/utils/providerWebhooks';
+import { providerWebhookService } from '../src/services/providerWebhookService';
+import { backgroundTaskQueue } from '../src/utils/backgroundTaskQueue';
+import { generationHistoryRepository } from '../src/repository/generationHistoryRepository';
+import { providerWebhookCallbacksRepository } from '../src/repository/providerWebhookCallbacksRepository';
+import { markGenerationFailed } from '../src/services/generationHistoryService';
+import { falQueueService } from '../src/services/falService';
+import { ApiError } from '../src/utils/errorHandler';
+
+const enqueue = backgroundTaskQueue.enqueue as jest.Mock;
+const findByProviderTaskId = generationHistoryRepository.findByProviderTaskId as jest.Mock;
+const getHistory = generationHistoryRepository.get as jest.Mock;
+const getBinding = providerWebhookCallbacksRepository.getBinding as jest.Mock;
+
+const callback = { uid: 'user-1', nonce: 'nonce-1' };
+
+async function rejection(promise: Promise<unknown>): Promise<ApiError> {
+  try {
+    await promise;
+  } catch (err) {
+    return err as ApiError;
+  }
+  throw new Error('expected a rejection');
+}
+
+describe('provider webhook callback tokens', () => {
+  it('signs a fresh callback per submit that only verifies for its own provider, uid and nonce', () => {
+    const first = buildProviderWebhookCallback('fal', 'user-1')!;
+    const second = buildProviderWebhookCallback('fal', 'user-1')!;
+    expect(first.nonce).not.toBe(second.nonce);
+
+    const url = new URL(first.url);
+    expect(url.origin + url.pathname).toBe('https://api.example.com/api/webhooks/fal');
+    expect(url.searchParams.get('cb')).toBe(first.nonce);
+    const token = url.searchParams.get('token')!;
+
+    expect(verifyProviderWebhookToken('fal', 'user-1', first.nonce, token)).toBe(true);
+    expect(verifyProviderWebhookToken('fal', 'user-1', second.nonce, token)).toBe(false);
+    expect(verifyProviderWebhookToken('fal', 'user-2', first.nonce, token)).toBe(false);
+    expect(verifyProviderWebhookToken('replicate', 'user-1', first.nonce, token)).toBe(false);
+    expect(verifyProviderWebhookToken('fal', 'user-1', '', token)).toBe(false);
+  });
+
+  it('checks Replicate delivery signatures against the raw body', () => {
+    const rawBody = Buffer.from(JSON.stringify({ id: 'pred-1', status: 'succeeded' }));
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const signature = crypto
+      .createHmac('sha256', Buffer.from('replicate-secret'))
+      .update(`msg-1.${timestamp}.${rawBody.toString('utf8')}`)
+      .digest('base64');
+    const headers = { 'webhook-id': 'msg-1', 'webhook-timestamp': timestamp, 'webhook-signature': `v1,${signature}` };
+
+    expect(verifyReplicateSignature(headers, rawBody)).toBe(true);
+    expect(verifyReplicateSignature(headers, Buffer.from('{"id":"pred-2"}'))).toBe(false);
+    expect(verifyReplicateSignature({ ...headers, 'webhook-timestamp': '1000' }, rawBody)).toBe(false);
+  });
+});
+
+describe('provider webhook deliveries', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getBinding.mockResolvedValue({ provider: 'fal', uid: 'user-1', taskId: 'req-1' });
+    findByProviderTaskId.mockResolvedValue({ id: 'hist-1', item: { status: 'generating' } });
+  });
+
+  it('queues finalization before acknowledging a terminal delivery', async () => {
+    const receipt = await providerWebhookService.handleFalWebhook(callback, { request_id: 'req-1', status: 'OK' });
+
+    expect(receipt).toEqual({ provider: 'fal', taskId: 'req-1', historyId: 'hist-1', accepted: true });
+    expect(enqueue).toHaveBeenCalledWith(
+      'provider-webhooks',
+      { provider: 'fal', uid: 'user-1', taskId: 'req-1', historyId: 'hist-1' },
+      { jobId: 'fal:req-1', durable: true }
+    );
+  });
+
+  it('carries the provider-reported failure into the job', async () => {
+    await providerWebhookService.handleFalWebhook(callback, { request_id: 'req-1', status: 'ERROR', error: 'NSFW' });
+
+    expect(enqueue.mock.calls[0][1]).toMatchObject({ failure: 'NSFW' });
+  });
+
+  it('rejects a callback issued for another task of the same user', async () => {
+    const err = await rejection(providerWebhookService.handleFalWebhook(callback, { request_id: 'req-2', status: 'OK' }));
+
+    expect(err).toBeInstanceOf(ApiError);
+    expect(err.statusCode).toBe(403);
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+
+  it('asks the provider to retry while the callback is not bound yet', async () => {
+    getBinding.mockResolvedValue(null);
+    const err = await rejection(providerWebhookService.handleFalWebhook(callback, { request_id: 'req-1', status: 'OK' }));
+
+    expect(err.statusCode).toBe(404);
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+
+  it('ignores deliveries for generations that are already final', async () => {
+    findByProviderTaskId.mockResolvedValue({ id: 'hist-1', item: { status: 'completed' } });
+    const receipt = await providerWebhookService.handleFalWebhook(callback, { request_id: 'req-1', status: 'OK' });
+
+    expect(receipt.accepted).toBe(false);
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+
+  it('does not acknowledge when the job cannot be queued', async () => {
+    enqueue.mockRejectedValueOnce(new Error('queue down'));
+
+    await expect(
+      providerWebhookService.handleFalWebhook(callback, { request_id: 'req-1', status: 'OK' })
+    ).rejects.toThrow('queue down');
+  });
+});
+
+describe('provider webhook finalization job', () => {
+  const payload = { provider: 'fal' as const, uid: 'user-1', taskId: 'req-1', historyId: 'hist-1' };
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('fetches the result from the provider for a pending generation', async () => {
+    getHistory.mockResolvedValue({ id: 'hist-1', status: 'generating' });
+    await providerWebhookService.runProviderWebhookJob(payload);
+
+    expect(falQueueService.queueResult).toHaveBeenCalledWith('user-1', undefined, 'req-1');
+  });
+
+  it('marks the generation failed with the provider error', async () => {
+    getHistory.mockResolvedValue({ id: 'hist-1', status: 'generating' });
+    await providerWebhookService.runProviderWebhookJob({ ...payload, failure: 'NSFW' });
+
+    expect(markGenerationFailed).toHaveBeenCalledWith('user-1', 'hist-1', { status: 'failed', error: 'NSFW' });
+    expect(falQueueService.queueResult).not.toHaveBeenCalled();
+  });
+
+  it('is a no-op once polling or an earlier delivery finished the generation', async () => {
+    getHistory.mockResolvedValue({ id: 'hist-1', status: 'completed' });
+    await providerWebhookService.runProviderWebhookJob(payload);
+
+    expect(falQueueService.queueResult).not.toHaveBeenCalled();
+    expect(markGenerationFailed).not.toHaveBeenCalled();
+  });
+
+  it('lets provider errors reach the queue so the job is retried', async () => {
+    getHistory.mockResolvedValue({ id: 'hist-1', status: 'generating' });
+    (falQueueService.queueResult as jest.Mock).mockRejectedValueOnce(new Error('FAL 503'));
+
+    await expect(providerWebhookService.runProviderWebhookJob(payload)).rejects.toThrow('FAL 503');
+  });
+});
@@ -0,0 +1,86 @@
+/// <reference types="jest" />
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+
+jest.mock('../src/config/redisClient', () => ({ isRedisEnabled: () => false, getRedisClient: () => null }));
+jest.mock('../src/config/planLimits', () => ({
+  // Small polling quotas so the tests can exhaust them
+  getPlanLimits: (planCode: string) => ({
+    generationsPerMinute: 5,
+    apiRequestsPerMinute: 5,
+    pollingRequestsPerMinute: planCode === 'PLAN_D' ? 4 : 3,
+    concurrentGenerations: 1,
+  }),
+  ANONYMOUS_LIMITS: { generationsPerMinute: 5, apiRequestsPerMinute: 5, pollingRequestsPerMinute: 2 },
+}));
+jest.mock('../src/services/auth/apiKeyService', () => ({
+  looksLikeApiKey: () => false,
+  apiKeyService: { peekApiKeyUid: jest.fn(async () => null) },
+}));
+jest.mock('../src/utils/sessionStore', () => ({
+  // The test's session tokens are `session-<uid>`; anything else is unknown
+  peekCachedSessionUid: jest.fn(async (token: string) => (token.startsWith('session-') ? token.slice(8) : null)),
+}));
+jest.mock('../src/services/creditsService', () => ({
+  creditsService: { getCachedPlanCode: jest.fn(async (uid: string) => (uid.startsWith('pro-') ? 'PLAN_D' : 'FREE')) },
+}));
+
+import { resolveRateLimitSubject, pollingLimiter } from '../src/middlewares/rateLimiter';
+
+let server: http.Server;
+let baseUrl: string;
+
+function poll(token?: string) {
+  return fetch(`${baseUrl}/api/fal/queue/status?requestId=r1`, {
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  });
+}
+
+describe('per-user polling limits on GET', () => {
+  beforeAll(async () => {
+    const app = express();
+    app.use('/api', resolveRateLimitSubject);
+    app.use('/api/fal/queue/status', pollingLimiter);
+    app.get('/api/fal/queue/status', (req, res) => res.json({ subject: req.rateLimitSubject }));
+    server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('counts a signed-in GET against the user and their plan', async () => {
+    const res = await poll('session-pro-1');
+    expect(res.status).toBe(200);
+    expect((await res.json()).subject).toEqual({ key: 'uid:pro-1', uid: 'pro-1', planCode: 'PLAN_D' });
+    expect(res.headers.get('ratelimit-limit')).toBe('4');
+  });
+
+  it('answers 429 once the user spent their plan quota, without limiting others on the same IP', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect((await poll('session-free-1')).status).toBe(200);
+    }
+    const limited = await poll('session-free-1');
+    expect(limited.status).toBe(429);
+    expect((await limited.json()).data).toMatchObject({
+      code: 'RATE_LIMITED',
+      limit: 'polling',
+      scope: 'user',
+      planCode: 'FREE',
+      limitPerMinute: 3,
+    });
+
+    expect((await poll('session-free-2')).status).toBe(200);
+    expect((await poll()).status).toBe(200);
+  });
+
+  it('falls back to the IP for unknown tokens', async () => {
+    const res = await poll('not-a-cached-session');
+    expect(res.status).toBe(200);
+    expect((await res.json()).subject.key).toMatch(/^ip:/);
+    expect(res.headers.get('ratelimit-limit')).toBe('2');
+  });
+});
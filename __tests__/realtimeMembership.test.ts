@@ -0,0 +1,136 @@
+/// <reference types="jest" />
+import http from 'http';
+import { AddressInfo } from 'net';
+import type { RawData, WebSocket } from 'ws';
+
+jest.mock('../src/config/env', () => ({
+  env: { devFrontendUrl: 'http://localhost', frontendOrigins: ['https://app.example.com'], allowedOrigins: [] },
+}));
+jest.mock('../src/utils/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+jest.mock('../src/utils/metrics', () => ({ websocketConnections: { inc: jest.fn(), dec: jest.fn() } }));
+jest.mock('../src/middlewares/authMiddleware', () => ({
+  // The test passes the uid as the token
+  authenticateUpgradeRequest: jest.fn(async (_req: unknown, token: string | null) => token),
+}));
+jest.mock('../src/repository/canvas/projectRepository', () => ({ projectRepository: { getProject: jest.fn() } }));
+jest.mock('../src/repository/canvas/opRepository', () => ({ opRepository: { appendOp: jest.fn(async () => undefined) } }));
+jest.mock('../src/repository/canvas/elementRepository', () => ({
+  elementRepository: { upsertElement: jest.fn(async () => undefined), listAllElements: jest.fn(async () => []) },
+}));
+jest.mock('../src/services/canvas/sharedCanvasState', () => ({
+  sharedCanvasKey: (projectId: string, name: string) => `${projectId}:${name}`,
+  incrementSharedCounter: jest.fn(async (_key: string, _ttl: number, local: number) => local + 1),
+  readSharedCounter: jest.fn(async () => null),
+  readSharedState: jest.fn(async (_key: string, init: () => unknown) => init()),
+  mutateSharedState: jest.fn(async (_key: string, _ttl: number, init: () => unknown, mutate: (state: any) => unknown) =>
+    mutate(init())
+  ),
+}));
+jest.mock('../src/websocket/realtimeBackplane', () => ({
+  startRealtimeBackplane: jest.fn(),
+  publishRealtime: jest.fn(),
+}));
+
+import { startRealtimeServer } from '../src/websocket/realtimeServer';
+import { notifyProjectMembershipChanged } from '../src/services/canvas/canvasSessionNotifier';
+import { projectRepository } from '../src/repository/canvas/projectRepository';
+import { authenticateUpgradeRequest } from '../src/middlewares/authMiddleware';
+
+const getProject = projectRepository.getProject as jest.Mock;
+// src/types/ws.d.ts only declares the server side; the client is the module's WebSocket class
+const WsClient: new (url: string, options?: { origin?: string }) => WebSocket = require('ws').WebSocket;
+const OPEN = 1;
+
+type Connection = { ws: WebSocket; messages: any[]; closed: Promise<number> };
+
+let server: http.Server;
+let port: number;
+let project: { id: string; ownerUid: string; collaborators: Array<{ uid: string; role: string }> };
+
+function connect(uid: string, origin?: string): Promise<Connection> {
+  const ws = new WsClient(`ws://127.0.0.1:${port}/realtime?projectId=p1&token=${uid}`, { origin });
+  const messages: any[] = [];
+  ws.on('message', (raw: RawData) => messages.push(JSON.parse(raw.toString())));
+  const closed = new Promise<number>((resolve) => ws.on('close', (code: number) => resolve(code)));
+  return new Promise((resolve, reject) => {
+    ws.once('open', () => resolve({ ws, messages, closed }));
+    ws.once('error', reject);
+  });
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('condition not met in time');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+const membershipNotice = (messages: any[]) => messages.some((m) => m.type === 'project_membership_changed');
+
+describe('realtime membership revocation', () => {
+  beforeAll(async () => {
+    server = http.createServer();
+    startRealtimeServer(server);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    project = {
+      id: 'p1',
+      ownerUid: 'owner-1',
+      collaborators: [
+        { uid: 'owner-1', role: 'owner' },
+        { uid: 'editor-1', role: 'editor' },
+      ],
+    };
+    getProject.mockImplementation(async () => project);
+  });
+
+  it('closes the sockets of a removed collaborator and keeps the others', async () => {
+    const owner = await connect('owner-1');
+    const editor = await connect('editor-1');
+
+    project.collaborators = project.collaborators.filter((c) => c.uid !== 'editor-1');
+    notifyProjectMembershipChanged('p1', 'removed', 'editor-1', 'owner-1');
+
+    expect(await editor.closed).toBe(4403);
+    expect(editor.messages).toContainEqual(expect.objectContaining({ kind: 'error', code: 'ACCESS_REVOKED' }));
+    await waitFor(() => membershipNotice(owner.messages));
+    expect(owner.ws.readyState).toBe(OPEN);
+    owner.ws.close();
+  });
+
+  it('applies a lowered role to the next message on an open socket', async () => {
+    const editor = await connect('editor-1');
+    const op = { id: 'el-1', type: 'create', data: { id: 'el-1' } };
+
+    editor.ws.send(JSON.stringify({ kind: 'history.push', op }));
+    await waitFor(() => editor.messages.some((m) => m.kind === 'op'));
+
+    project.collaborators = project.collaborators.map((c) => (c.uid === 'editor-1' ? { ...c, role: 'viewer' } : c));
+    notifyProjectMembershipChanged('p1', 'role_changed', 'editor-1', 'owner-1');
+    await waitFor(() => membershipNotice(editor.messages));
+
+    editor.ws.send(JSON.stringify({ kind: 'history.push', op: { ...op, id: 'el-2', data: { id: 'el-2' } } }));
+    await waitFor(() => editor.messages.some((m) => m.code === 'FORBIDDEN'));
+    expect(editor.messages.filter((m) => m.kind === 'op')).toHaveLength(1);
+    expect(editor.ws.readyState).toBe(OPEN);
+    editor.ws.close();
+  });
+
+  it('rejects upgrades from origins outside the CORS allow-list before authenticating', async () => {
+    (authenticateUpgradeRequest as jest.Mock).mockClear();
+    await expect(connect('owner-1', 'https://evil.example.com')).rejects.toThrow(/403/);
+    expect(authenticateUpgradeRequest).not.toHaveBeenCalled();
+
+    const owner = await connect('owner-1', 'https://app.example.com');
+    expect(owner.ws.readyState).toBe(OPEN);
+    owner.ws.close();
+  });
+});
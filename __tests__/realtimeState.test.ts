@@ -0,0 +1,161 @@
+/// <reference types="jest" />
+import http from 'http';
+import { AddressInfo } from 'net';
+import type { RawData, WebSocket } from 'ws';
+
+// Shared canvas documents, as another gateway instance would have left them in Redis
+const mockShared = new Map<string, any>();
+
+jest.mock('../src/config/env', () => ({
+  env: { devFrontendUrl: 'http://localhost', frontendOrigins: ['https://app.example.com'], allowedOrigins: [] },
+}));
+jest.mock('../src/utils/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+jest.mock('../src/utils/metrics', () => ({ websocketConnections: { inc: jest.fn(), dec: jest.fn() } }));
+jest.mock('../src/middlewares/authMiddleware', () => ({
+  // The test passes the uid as the token
+  authenticateUpgradeRequest: jest.fn(async (_req: unknown, token: string | null) => token),
+}));
+jest.mock('../src/repository/canvas/projectRepository', () => ({
+  projectRepository: { getProject: jest.fn(async () => ({ id: 'p1', ownerUid: 'owner-1', collaborators: [] })) },
+}));
+jest.mock('../src/repository/canvas/opRepository', () => ({ opRepository: { appendOp: jest.fn(async () => undefined) } }));
+jest.mock('../src/repository/canvas/elementRepository', () => ({
+  elementRepository: {
+    upsertElement: jest.fn(async () => undefined),
+    deleteElement: jest.fn(async () => undefined),
+    listAllElements: jest.fn(async () => [
+      { id: 'img-1', type: 'image', x: 0, y: 0 },
+      { id: 'gen-1', type: 'image-generator', x: 10, y: 10 },
+      { id: 'gen-2', type: 'image-generator', x: 20, y: 20 },
+    ]),
+  },
+}));
+jest.mock('../src/services/canvas/sharedCanvasState', () => ({
+  sharedCanvasKey: (projectId: string, name: string) => `${projectId}:${name}`,
+  incrementSharedCounter: jest.fn(async (_key: string, _ttl: number, local: number) => local + 1),
+  readSharedCounter: jest.fn(async () => 7),
+  readSharedState: jest.fn(async (key: string, init: () => unknown) => mockShared.get(key) ?? init()),
+  mutateSharedState: jest.fn(async (key: string, _ttl: number, init: () => unknown, mutate: (state: any) => unknown) => {
+    if (!mockShared.has(key)) mockShared.set(key, init());
+    return mutate(mockShared.get(key));
+  }),
+}));
+jest.mock('../src/websocket/realtimeBackplane', () => ({
+  startRealtimeBackplane: jest.fn(),
+  publishRealtime: jest.fn(),
+}));
+
+import { startRealtimeServer } from '../src/websocket/realtimeServer';
+import { startRealtimeBackplane, publishRealtime } from '../src/websocket/realtimeBackplane';
+import { opRepository } from '../src/repository/canvas/opRepository';
+import { publishPersistedCanvasOp } from '../src/services/canvas/canvasSessionNotifier';
+
+const WsClient: new (url: string) => WebSocket = require('ws').WebSocket;
+
+type Connection = { ws: WebSocket; messages: any[] };
+
+let server: http.Server;
+let port: number;
+
+function connect(uid: string): Promise<Connection> {
+  const ws = new WsClient(`ws://127.0.0.1:${port}/realtime?projectId=p1&token=${uid}`);
+  const messages: any[] = [];
+  ws.on('message', (raw: RawData) => messages.push(JSON.parse(raw.toString())));
+  return new Promise((resolve, reject) => {
+    ws.once('open', () => resolve({ ws, messages }));
+    ws.once('error', reject);
+  });
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('condition not met in time');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+const initOf = (messages: any[]) => messages.find((m) => m.type === 'init');
+const ids = (items: Array<{ id: string }>) => items.map((item) => item.id).sort();
+
+describe('realtime state on an instance joining a project late', () => {
+  beforeAll(async () => {
+    server = http.createServer();
+    startRealtimeServer(server);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('sends the persisted elements and the shared version on first join', async () => {
+    const owner = await connect('owner-1');
+    await waitFor(() => Boolean(initOf(owner.messages)));
+
+    const init = initOf(owner.messages);
+    expect(ids(init.media)).toEqual(['img-1']);
+    expect(ids(init.overlays)).toEqual(['gen-1', 'gen-2']);
+    expect(init.version).toBe(7);
+    owner.ws.close();
+  });
+
+  it('undoes an op pushed on another instance from the shared history', async () => {
+    mockShared.set('p1:history', {
+      undoStack: [{ id: 'op-a', type: 'create', data: { id: 'gen-2' }, inverse: { type: 'delete', elementId: 'gen-2' }, authorId: 'owner-1' }],
+      redoStack: [],
+    });
+    const owner = await connect('owner-1');
+    await waitFor(() => Boolean(initOf(owner.messages)));
+
+    owner.ws.send(JSON.stringify({ kind: 'history.undo' }));
+    await waitFor(() => owner.messages.some((m) => m.kind === 'op'));
+
+    const undo = owner.messages.find((m) => m.kind === 'op');
+    expect(undo).toMatchObject({ op: { type: 'delete', elementId: 'gen-2' }, canUndo: false, canRedo: true });
+    expect(mockShared.get('p1:history')).toMatchObject({ undoStack: [], redoStack: [{ id: 'op-a' }] });
+    // Relayed only once persisted, so a later joiner reads it from Firestore
+    await waitFor(() => (publishRealtime as jest.Mock).mock.calls.length === 1);
+    expect(opRepository.appendOp).toHaveBeenCalledWith('p1', expect.objectContaining({ type: 'delete' }));
+    expect((publishRealtime as jest.Mock).mock.calls[0][0]).toMatchObject({ kind: 'op', projectId: 'p1', canRedo: true });
+    owner.ws.close();
+  });
+
+  it('applies ops relayed from other instances to the state it sends new joiners', async () => {
+    const relay = (startRealtimeBackplane as jest.Mock).mock.calls[0][0];
+    const owner = await connect('owner-1');
+    await waitFor(() => Boolean(initOf(owner.messages)));
+
+    relay({
+      kind: 'op',
+      projectId: 'p1',
+      op: { id: 'gen-3', type: 'create', data: { id: 'gen-3', type: 'image-generator' }, authorId: 'editor-1' },
+      version: 20,
+      canUndo: true,
+      canRedo: false,
+    });
+    await waitFor(() => owner.messages.some((m) => m.kind === 'op' && m.op.id === 'gen-3'));
+    expect(owner.messages.find((m) => m.kind === 'op')).toMatchObject({ version: 20, canUndo: true, canRedo: false });
+
+    const joiner = await connect('owner-1');
+    await waitFor(() => Boolean(initOf(joiner.messages)));
+    expect(ids(initOf(joiner.messages).overlays)).toEqual(['gen-1', 'gen-3']);
+    expect(initOf(joiner.messages).version).toBe(20);
+    owner.ws.close();
+    joiner.ws.close();
+  });
+
+  it('delivers and relays ops persisted outside the socket', async () => {
+    const owner = await connect('owner-1');
+    await waitFor(() => Boolean(initOf(owner.messages)));
+    (publishRealtime as jest.Mock).mockClear();
+
+    const op = { id: 'agent-1', type: 'media.create', elementId: 'agent-1', data: { media: { id: 'agent-1', type: 'image' } }, authorId: 'owner-1' };
+    publishPersistedCanvasOp('p1', op);
+    await waitFor(() => owner.messages.some((m) => m.kind === 'op' && m.op.id === 'agent-1'));
+    expect(owner.messages.find((m) => m.op?.id === 'agent-1')).toMatchObject({ version: 21 });
+    expect((publishRealtime as jest.Mock).mock.calls[0][0]).toMatchObject({ kind: 'op', projectId: 'p1', op, version: 21 });
+    owner.ws.close();
+  });
+});
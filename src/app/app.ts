@@ -17,6 +17,7 @@ import {
   generationLimiter,
   apiLimiter,
   pollingLimiter,
+  resolveRateLimitSubject,
 } from "../middlewares/rateLimiter";
 import { ipFirewall } from "../middlewares/ipFirewall";
 import { moderationGuard } from "../middlewares/moderationGuard";
@@ -27,8 +28,11 @@ import {
   detectInjectionAttacks,
 } from "../middlewares/validation";
 import { httpLogger } from "../middlewares/logger";
+import { requestTelemetry, bindRequestContext } from "../middlewares/observability";
+import { renderMetrics } from "../utils/metrics";
 import { adminDb, admin } from "../config/firebaseAdmin";
 import { env } from "../config/env";
+import { allowedOrigins, hardcodedAllowedOrigins, isAllowedOrigin } from "../config/corsOrigins";
 import { creditsService } from "../services/creditsService";
 import { getRedisClient, isRedisEnabled } from "../config/redisClient";
 // Note: dotenv is loaded in index.ts, no need to load here
@@ -41,6 +45,7 @@ app.set("trust proxy", isProd ? 1 : false);
 
 // Security and common middlewares (SOC2 oriented)
 app.use(requestId);
+app.use(requestTelemetry);
 app.use(securityHeaders);
 // CORS for frontend with credentials (dev + prod)
 const isProdEnv = env.nodeEnv === "production";
@@ -52,27 +57,6 @@ try {
 } catch {
   wildmindImageOrigin = undefined;
 }
-// Always include production origins (even if NODE_ENV isn't set, Render.com is production)
-const allowedOrigins = [
-  // Production hosts (always include these for live site)
-  env.productionWwwDomain,
-  env.productionDomain,
-  env.productionStudioDomain, // Canvas subdomain
-
-  // ALWAYS allow localhost for local development (regardless of NODE_ENV)
-  "http://localhost:3000",
-  "http://localhost:3001",
-  "http://127.0.0.1:3000",
-  "http://127.0.0.1:3001",
-
-  // Development origins (only in dev, if specified)
-  ...(!isProdEnv
-    ? [env.devFrontendUrl, env.devCanvasUrl, wildmindImageOrigin]
-    : []),
-  ...env.frontendOrigins,
-  ...env.allowedOrigins,
-].filter(Boolean);
-
 console.log("[CORS] Allowed origins:", allowedOrigins);
 
 const corsOptions: any = {
@@ -84,53 +68,7 @@ const corsOptions: any = {
 
     if (!origin) return callback(null, true);
 
-    // Explicitly allow known production domains (Hardcoded safeguard)
-    const hardcodedAllowed = [
-      "https://www.wildmindai.com",
-      "https://wildmindai.com",
-      "https://onstaging.wildmindai.com",
-      "https://onstaging-studios.wildmindai.com",
-    ];
-    if (hardcodedAllowed.includes(origin)) return callback(null, true);
-
-    try {
-      if (allowedOrigins.includes(origin)) return callback(null, true);
-
-      // Allow subdomains of production domain
-      const originUrl = new URL(origin);
-      const prodDomain = env.productionDomain
-        ? new URL(env.productionDomain).hostname
-        : env.productionWwwDomain
-          ? new URL(env.productionWwwDomain).hostname.replace(/^www\./, "")
-          : undefined;
-      const prodWwwDomain = env.productionWwwDomain
-        ? new URL(env.productionWwwDomain).hostname
-        : prodDomain
-          ? `www.${prodDomain}`
-          : undefined;
-      if (
-        prodDomain &&
-        (originUrl.hostname === prodWwwDomain ||
-          originUrl.hostname === prodDomain ||
-          originUrl.hostname.endsWith(`.${prodDomain}`))
-      ) {
-        return callback(null, true);
-      }
-      // Allow subdomains of the configured frontend origins
-      for (const frontendOrigin of env.frontendOrigins) {
-        try {
-          const allowHost = new URL(frontendOrigin).hostname;
-          const reqHost = originUrl.hostname;
-          if (reqHost === allowHost || reqHost.endsWith(`.${allowHost}`)) {
-            return callback(null, true);
-          }
-        } catch {
-          // Skip invalid URLs
-        }
-      }
-    } catch (e) {
-      console.warn("[CORS] Error checking origin:", origin, e);
-    }
+    if (isAllowedOrigin(origin)) return callback(null, true);
     // Log blocked origin for debugging
     console.warn(
       "[CORS] Blocked origin:",
@@ -138,7 +76,7 @@ const corsOptions: any = {
       "Allowed:",
       allowedOrigins,
       "Hardcoded:",
-      hardcodedAllowed,
+      hardcodedAllowedOrigins,
     );
     return callback(new Error(`CORS blocked: origin ${origin} not allowed`));
   },
@@ -228,7 +166,15 @@ app.use(detectInjectionAttacks);
 app.use(sanitizeInput);
 
 // Body parsers (after security checks)
-app.use(express.json({ limit: "50mb" }));
+app.use(
+  express.json({
+    limit: "50mb",
+    // Provider webhook signatures are computed over the exact bytes received
+    verify: (req: any, _res, buf) => {
+      if (req.originalUrl?.startsWith("/api/webhooks/")) req.rawBody = buf;
+    },
+  }),
+);
 app.use(express.urlencoded({ extended: true, limit: "50mb" }));
 app.use(cookieParser());
 
@@ -244,6 +190,9 @@ if (isProd) {
 // ROUTE-SPECIFIC RATE LIMITING
 // ============================================================================
 
+// Generation, polling and API limits below count per signed-in user (quotas by plan), else per IP
+app.use("/api", resolveRateLimitSubject);
+
 // Polling/Status endpoints - Very high limit (500 req/min)
 // Applied FIRST so they don't hit the general API limit
 app.use("/api/runway/status", pollingLimiter);
@@ -259,13 +208,13 @@ app.use("/api/auth/login", authLimiter);
 app.use("/api/auth/signup", authLimiter);
 app.use("/api/auth/google", authLimiter);
 
-// Generation endpoints - Moderate rate limiting (30 per min)
+// Generation endpoints - Moderate rate limiting (per plan, 30 per min per IP when signed out)
 app.use("/api/replicate/generate", generationLimiter);
 app.use("/api/fal/submit", generationLimiter);
 app.use("/api/local/upscale-generation", generationLimiter);
 app.use("/api/gemini/enhance", generationLimiter);
 
-// Standard API endpoints - Standard rate limiting (100 per min)
+// Standard API endpoints - Standard rate limiting (per plan)
 app.use("/api", apiLimiter);
 
 console.log("[Security] ✅ All security middlewares applied");
@@ -387,6 +336,27 @@ app.get("/health", (_req, res) => {
   res.json(formatApiResponse("success", "OK", { uptime: process.uptime() }));
 });
 
+// Prometheus metrics: off unless METRICS_ENABLED. METRICS_TOKEN, when set, is required as a
+// bearer token; production never serves the endpoint without one.
+if (env.metricsEnabled && isProdEnv && !env.metricsToken) {
+  console.warn("[Metrics] METRICS_ENABLED is set without METRICS_TOKEN; /metrics is not mounted in production");
+} else if (env.metricsEnabled) {
+  app.get("/metrics", async (req, res) => {
+    if (env.metricsToken && req.headers.authorization !== `Bearer ${env.metricsToken}`) {
+      return res.status(401).json(formatApiResponse("error", "Unauthorized", null));
+    }
+    try {
+      const { contentType, body } = await renderMetrics();
+      res.set("Content-Type", contentType);
+      res.set("Cache-Control", "no-store");
+      return res.send(body);
+    } catch (e: any) {
+      console.error("[Metrics] Failed to render metrics:", e?.message || e);
+      return res.status(500).json(formatApiResponse("error", "Failed to render metrics", null));
+    }
+  });
+}
+
 // Auth config health (does not leak secrets)
 app.get("/health/auth", (_req, res) => {
   try {
@@ -472,6 +442,7 @@ app.get("/health/redis", async (_req, res) => {
 app.get("/api/auth/me", optionalAuth, authController.getCurrentUser);
 
 // API routes
+app.use(bindRequestContext);
 app.use("/api", routes);
 
 // Global error handler (should be after all routes)
@@ -1,5 +1,6 @@
 
 import axios, { AxiosInstance } from 'axios';
+import { instrumentAxios } from '../utils/outboundTelemetry';
 
 export interface CreditBalanceResponse {
     id?: string;
@@ -18,10 +19,10 @@ export class CreditServiceClient {
     constructor() {
         // Defaults to localhost:3001 if not set
         this.baseUrl = process.env.CREDIT_SERVICE_URL || 'http://localhost:3001';
-        this.client = axios.create({
+        this.client = instrumentAxios(axios.create({
             baseURL: this.baseUrl,
             timeout: 5000, // 5s timeout
-        });
+        }));
     }
 
     /**
@@ -0,0 +1,113 @@
+import type { ApiKeyScope } from "../types/authTypes";
+
+/**
+ * Personal API key scopes and the routes they open.
+ *
+ * A key only reaches routes listed in API_KEY_ROUTE_RULES; everything else (account
+ * management, billing, admin, the api-keys endpoints themselves) stays session-only.
+ * Rules are matched in order against the mounted path (e.g. /api/fal/veo3/...).
+ *
+ * Destructive routes need their own scopes instead of `:write`: `:delete` for deletions and
+ * `:admin` for permanent purges and sharing/ownership changes (collaborators, invites, transfer).
+ */
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+  "generate:image",
+  "generate:video",
+  "generate:audio",
+  "library:read",
+  "library:write",
+  "library:delete",
+  "library:admin",
+  "canvas:read",
+  "canvas:write",
+  "canvas:delete",
+  "canvas:admin",
+];
+
+export const API_KEY_PREFIX = "wm_";
+export const MAX_API_KEYS_PER_USER = 10;
+export const DEFAULT_API_KEY_RATE_LIMIT = 60; // requests per minute
+export const MAX_API_KEY_RATE_LIMIT = 600;
+
+const ANY_GENERATE: ApiKeyScope[] = ["generate:image", "generate:video", "generate:audio"];
+
+// Provider routes mix media types; classify submissions by path
+const VIDEO_PATH = /video|t2v|i2v|lipsync|animate|remix|character-performance/i;
+const AUDIO_PATH = /eleven|tts|sfx|audio|voice|chatterbox|music/i;
+
+interface ApiKeyRouteRule {
+  prefix: string;
+  // Scopes accepted for the request; the key needs at least one of them
+  scopes: (method: string, path: string) => ApiKeyScope[];
+}
+
+const isRead = (method: string) => method === "GET" || method === "HEAD";
+
+function generationScopes(method: string, path: string): ApiKeyScope[] {
+  // Status/result polling is open to any generation scope
+  if (isRead(method)) return ANY_GENERATE;
+  if (AUDIO_PATH.test(path)) return ["generate:audio"];
+  if (VIDEO_PATH.test(path)) return ["generate:video"];
+  return ["generate:image"];
+}
+
+// Paths are relative to the rule prefix
+function generationsLibraryScopes(method: string, path: string): ApiKeyScope[] {
+  if (isRead(method)) return ["library:read"];
+  if (method === "DELETE" && path === "/trash") return ["library:admin"]; // permanent purge
+  if (method === "DELETE") return ["library:delete"];
+  return ["library:write"];
+}
+
+function collectionsLibraryScopes(method: string, path: string): ApiKeyScope[] {
+  if (isRead(method)) return ["library:read"];
+  if (method === "DELETE" && /^\/collections\/[^/]+$/.test(path)) return ["library:delete"];
+  return ["library:write"];
+}
+
+const CANVAS_ADMIN_PATHS = [
+  /^\/projects\/[^/]+\/transfer$/,
+  /^\/projects\/[^/]+\/collaborators(\/[^/]+)?$/,
+  /^\/projects\/[^/]+\/invitations$/,
+  /^\/projects\/[^/]+\/invite-links(\/[^/]+)?$/,
+  /^\/invitations\/[^/]+\/(cancel|role)$/,
+];
+
+function canvasScopes(method: string, path: string): ApiKeyScope[] {
+  if (isRead(method)) return ["canvas:read"];
+  if (CANVAS_ADMIN_PATHS.some((pattern) => pattern.test(path))) return ["canvas:admin"];
+  if (method === "DELETE" && /^\/projects\/[^/]+$/.test(path)) return ["canvas:delete"];
+  return ["canvas:write"];
+}
+
+export const API_KEY_ROUTE_RULES: ApiKeyRouteRule[] = [
+  { prefix: "/api/fal", scopes: generationScopes },
+  { prefix: "/api/replicate", scopes: generationScopes },
+  { prefix: "/api/bfl", scopes: () => ["generate:image"] },
+  { prefix: "/api/minimax", scopes: generationScopes },
+  { prefix: "/api/runway", scopes: generationScopes },
+  { prefix: "/api/generations", scopes: generationsLibraryScopes },
+  { prefix: "/api/library", scopes: collectionsLibraryScopes },
+  { prefix: "/api/canvas", scopes: canvasScopes },
+  // Catalog and quotes are harmless for any key
+  { prefix: "/api/models", scopes: () => API_KEY_SCOPES },
+  { prefix: "/api/pricing", scopes: () => API_KEY_SCOPES },
+];
+
+/**
+ * Scopes that authorize `method path` for an API key, or null when keys cannot
+ * reach the route at all.
+ */
+export function requiredApiKeyScopes(method: string, originalUrl: string): ApiKeyScope[] | null {
+  const path = originalUrl.split("?")[0];
+  const rule = API_KEY_ROUTE_RULES.find(
+    (r) => path === r.prefix || path.startsWith(`${r.prefix}/`),
+  );
+  if (!rule) return null;
+  return rule.scopes(method.toUpperCase(), path.slice(rule.prefix.length));
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === "string" && (API_KEY_SCOPES as string[]).includes(value);
+}
@@ -0,0 +1,91 @@
+import { env } from "./env";
+
+/**
+ * Browser origins allowed to call the API with credentials. Used by the CORS middleware and by the
+ * realtime WebSocket upgrade, which browsers do not subject to CORS.
+ */
+
+const isProdEnv = env.nodeEnv === "production";
+
+let wildmindImageOrigin: string | undefined;
+try {
+  wildmindImageOrigin = env.wildmindImageServiceUrl
+    ? new URL(env.wildmindImageServiceUrl).origin
+    : undefined;
+} catch {
+  wildmindImageOrigin = undefined;
+}
+
+// Always include production origins (even if NODE_ENV isn't set, Render.com is production)
+export const allowedOrigins = [
+  // Production hosts (always include these for live site)
+  env.productionWwwDomain,
+  env.productionDomain,
+  env.productionStudioDomain, // Canvas subdomain
+
+  // ALWAYS allow localhost for local development (regardless of NODE_ENV)
+  "http://localhost:3000",
+  "http://localhost:3001",
+  "http://127.0.0.1:3000",
+  "http://127.0.0.1:3001",
+
+  // Development origins (only in dev, if specified)
+  ...(!isProdEnv
+    ? [env.devFrontendUrl, env.devCanvasUrl, wildmindImageOrigin]
+    : []),
+  ...env.frontendOrigins,
+  ...env.allowedOrigins,
+].filter(Boolean) as string[];
+
+// Explicitly allow known production domains (Hardcoded safeguard)
+export const hardcodedAllowedOrigins = [
+  "https://www.wildmindai.com",
+  "https://wildmindai.com",
+  "https://onstaging.wildmindai.com",
+  "https://onstaging-studios.wildmindai.com",
+];
+
+/** Whether `origin` (an Origin header value) may make credentialed requests. */
+export function isAllowedOrigin(origin: string): boolean {
+  if (hardcodedAllowedOrigins.includes(origin)) return true;
+
+  try {
+    if (allowedOrigins.includes(origin)) return true;
+
+    // Allow subdomains of production domain
+    const originUrl = new URL(origin);
+    const prodDomain = env.productionDomain
+      ? new URL(env.productionDomain).hostname
+      : env.productionWwwDomain
+        ? new URL(env.productionWwwDomain).hostname.replace(/^www\./, "")
+        : undefined;
+    const prodWwwDomain = env.productionWwwDomain
+      ? new URL(env.productionWwwDomain).hostname
+      : prodDomain
+        ? `www.${prodDomain}`
+        : undefined;
+    if (
+      prodDomain &&
+      (originUrl.hostname === prodWwwDomain ||
+        originUrl.hostname === prodDomain ||
+        originUrl.hostname.endsWith(`.${prodDomain}`))
+    ) {
+      return true;
+    }
+    // Allow subdomains of the configured frontend origins
+    for (const frontendOrigin of env.frontendOrigins) {
+      try {
+        const allowHost = new URL(frontendOrigin).hostname;
+        const reqHost = originUrl.hostname;
+        if (reqHost === allowHost || reqHost.endsWith(`.${allowHost}`)) {
+          return true;
+        }
+      } catch {
+        // Skip invalid URLs
+      }
+    }
+  } catch (e) {
+    console.warn("[CORS] Error checking origin:", origin, e);
+  }
+  return false;
+}
@@ -43,7 +43,6 @@ export interface EnvConfig {
   // BFL polling
   bflPollIntervalMs?: number;
   bflPollMaxLoops?: number;
-  reedemCodeAdminKey?: string;
   // Redis
   redisUrl?: string;
   redisPrefix?: string;
@@ -87,6 +86,43 @@ export interface EnvConfig {
   mirrorQueuePollIntervalMs?: number; // Mirror queue polling interval in ms
   mirrorQueueConcurrency?: number; // Mirror queue concurrent workers
   mirrorQueueBatchLimit?: number; // Mirror queue batch size limit
+  creditHoldTtlMinutes: number; // Credit holds older than this are released by the sweeper
+  creditHoldSweepIntervalMs: number; // Credit hold sweeper polling interval in ms
+  jobQueueInlineWorkers: boolean; // Run background job handlers inside the API process (always on without Redis)
+  jobQueuePollIntervalMs: number; // Background job queue polling interval in ms
+  jobQueueConcurrency?: string; // Per-queue concurrency overrides, e.g. "aesthetic-score=4,video-thumbnail=1"
+  // Notifications
+  lowCreditThreshold: number; // Credit balance below which a low-credit notification is sent (once per day)
+  videoNotifyMinDurationMs: number; // Video generations that take at least this long notify on completion
+  // Trash
+  trashRetentionDays: number; // Deleted generations/images stay restorable for this many days
+  trashSweepIntervalMs: number; // Trash sweeper polling interval in ms
+  // Bulk export
+  generationExportMaxItems: number; // Max history items in one ZIP export
+  generationExportMaxBytes: number; // Max total media size of one ZIP export (the archive is streamed to storage)
+  generationExportRetentionDays: number; // Finished export archives are deleted from storage after this many days
+  generationExportSweepIntervalMs: number; // Export sweeper polling interval in ms
+  // Account deletion
+  accountDeletionGraceDays: number; // DELETE /api/auth/me can be cancelled for this many days before the wipe
+  accountDeletionSweepIntervalMs: number; // Account deletion sweeper polling interval in ms
+  // Canvas versions and rendering
+  canvasAutoCheckpointOps: number; // Changes to a canvas project between automatic version checkpoints (0 = off)
+  canvasMaxAutoVersions: number; // Automatic checkpoints kept per project; older ones are pruned (0 = keep all)
+  canvasServerThumbnails: boolean; // Render project thumbnails/previewImages server-side (headless Chromium) after snapshot saves (off by default)
+  canvasRenderMediaOrigins: string[]; // Extra origins (CDN) board media may load from when rendered server-side; storage is always allowed
+  // Assistant agent tools
+  assistantAgentConfirmCredits: number; // Agent tool calls costing more than this many credits wait for user confirmation
+  assistantAgentThreadCreditCap: number; // Max credits agent tool calls may spend in one thread (0 = no cap)
+  generationSlotTtlMinutes: number; // In-flight generation slots not released by then stop counting against the concurrency cap
+  metricsEnabled: boolean; // Expose Prometheus metrics at GET /metrics (off by default)
+  metricsToken?: string; // When set, /metrics requires Authorization: Bearer <token>
+  otelTracingEnabled: boolean; // Export OpenTelemetry spans over OTLP/HTTP (OTEL_EXPORTER_OTLP_ENDPOINT)
+  otelServiceName: string; // service.name on exported spans
+  // Provider Webhooks
+  providerWebhookSecret?: string; // HMAC secret for the callback URLs handed to providers (unset = webhooks disabled)
+  replicateWebhookSecret?: string; // Replicate signing secret (whsec_...) from GET /v1/webhooks/default/secret
+  // Share links
+  shareMediaSecret?: string; // Key for the sealed media URLs of share links (unset = derived from the storage secret)
   // Media Processing
   ffmpegMaxConcurrency?: number; // FFmpeg max concurrent operations
   // Microservices
@@ -163,7 +199,6 @@ export const env: EnvConfig = {
   bflPollMaxLoops: process.env.BFL_POLL_MAX_LOOPS
     ? parseInt(process.env.BFL_POLL_MAX_LOOPS, 10)
     : undefined,
-  reedemCodeAdminKey: process.env.REDEEM_CODE_ADMIN_KEY,
   // Redis
   redisUrl: process.env.REDIS_URL,
   redisPrefix: process.env.REDIS_PREFIX || "sess:app:",
@@ -243,6 +278,81 @@ export const env: EnvConfig = {
   mirrorQueueBatchLimit: process.env.MIRROR_QUEUE_BATCH_LIMIT
     ? parseInt(process.env.MIRROR_QUEUE_BATCH_LIMIT, 10)
     : undefined,
+  creditHoldTtlMinutes: process.env.CREDIT_HOLD_TTL_MINUTES
+    ? parseInt(process.env.CREDIT_HOLD_TTL_MINUTES, 10)
+    : 60,
+  creditHoldSweepIntervalMs: process.env.CREDIT_HOLD_SWEEP_INTERVAL_MS
+    ? parseInt(process.env.CREDIT_HOLD_SWEEP_INTERVAL_MS, 10)
+    : 5 * 60 * 1000,
+  jobQueueInlineWorkers: normalizeBoolean(process.env.JOB_QUEUE_INLINE_WORKERS, true),
+  jobQueuePollIntervalMs: process.env.JOB_QUEUE_POLL_INTERVAL_MS
+    ? parseInt(process.env.JOB_QUEUE_POLL_INTERVAL_MS, 10)
+    : 1000,
+  jobQueueConcurrency: process.env.JOB_QUEUE_CONCURRENCY,
+  // Notifications
+  lowCreditThreshold: process.env.LOW_CREDIT_THRESHOLD
+    ? parseInt(process.env.LOW_CREDIT_THRESHOLD, 10)
+    : 100,
+  videoNotifyMinDurationMs: process.env.VIDEO_NOTIFY_MIN_DURATION_MS
+    ? parseInt(process.env.VIDEO_NOTIFY_MIN_DURATION_MS, 10)
+    : 60 * 1000,
+  // Trash
+  trashRetentionDays: process.env.TRASH_RETENTION_DAYS
+    ? parseInt(process.env.TRASH_RETENTION_DAYS, 10)
+    : 30,
+  trashSweepIntervalMs: process.env.TRASH_SWEEP_INTERVAL_MS
+    ? parseInt(process.env.TRASH_SWEEP_INTERVAL_MS, 10)
+    : 10 * 60 * 1000,
+  // Bulk export
+  generationExportMaxItems: process.env.GENERATION_EXPORT_MAX_ITEMS
+    ? parseInt(process.env.GENERATION_EXPORT_MAX_ITEMS, 10)
+    : 500,
+  generationExportMaxBytes: process.env.GENERATION_EXPORT_MAX_BYTES
+    ? parseInt(process.env.GENERATION_EXPORT_MAX_BYTES, 10)
+    : 1024 * 1024 * 1024,
+  generationExportRetentionDays: process.env.GENERATION_EXPORT_RETENTION_DAYS
+    ? parseInt(process.env.GENERATION_EXPORT_RETENTION_DAYS, 10)
+    : 7,
+  generationExportSweepIntervalMs: process.env.GENERATION_EXPORT_SWEEP_INTERVAL_MS
+    ? parseInt(process.env.GENERATION_EXPORT_SWEEP_INTERVAL_MS, 10)
+    : 30 * 60 * 1000,
+  // Account deletion
+  accountDeletionGraceDays: process.env.ACCOUNT_DELETION_GRACE_DAYS
+    ? parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS, 10)
+    : 14,
+  accountDeletionSweepIntervalMs: process.env.ACCOUNT_DELETION_SWEEP_INTERVAL_MS
+    ? parseInt(process.env.ACCOUNT_DELETION_SWEEP_INTERVAL_MS, 10)
+    : 15 * 60 * 1000,
+  // Canvas versions and rendering
+  canvasAutoCheckpointOps: process.env.CANVAS_AUTO_CHECKPOINT_OPS
+    ? parseInt(process.env.CANVAS_AUTO_CHECKPOINT_OPS, 10)
+    : 50,
+  canvasMaxAutoVersions: process.env.CANVAS_MAX_AUTO_VERSIONS
+    ? parseInt(process.env.CANVAS_MAX_AUTO_VERSIONS, 10)
+    : 50,
+  canvasServerThumbnails: normalizeBoolean(process.env.CANVAS_SERVER_THUMBNAILS, false),
+  canvasRenderMediaOrigins: (process.env.CANVAS_RENDER_MEDIA_ORIGINS || "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean),
+  // Assistant agent tools
+  assistantAgentConfirmCredits: process.env.ASSISTANT_AGENT_CONFIRM_CREDITS
+    ? parseInt(process.env.ASSISTANT_AGENT_CONFIRM_CREDITS, 10)
+    : 100,
+  assistantAgentThreadCreditCap: process.env.ASSISTANT_AGENT_THREAD_CREDIT_CAP
+    ? parseInt(process.env.ASSISTANT_AGENT_THREAD_CREDIT_CAP, 10)
+    : 2000,
+  generationSlotTtlMinutes: process.env.GENERATION_SLOT_TTL_MINUTES
+    ? parseInt(process.env.GENERATION_SLOT_TTL_MINUTES, 10)
+    : 30,
+  metricsEnabled: normalizeBoolean(process.env.METRICS_ENABLED, false),
+  metricsToken: process.env.METRICS_TOKEN,
+  otelTracingEnabled: normalizeBoolean(process.env.OTEL_TRACING_ENABLED, false),
+  otelServiceName: process.env.OTEL_SERVICE_NAME || "api-gateway-services",
+  // Provider Webhooks
+  providerWebhookSecret: process.env.PROVIDER_WEBHOOK_SECRET,
+  replicateWebhookSecret: process.env.REPLICATE_WEBHOOK_SECRET,
+  shareMediaSecret: process.env.SHARE_MEDIA_SECRET,
   // Media Processing
   ffmpegMaxConcurrency: process.env.FFMPEG_MAX_CONCURRENCY
     ? parseInt(process.env.FFMPEG_MAX_CONCURRENCY, 10)
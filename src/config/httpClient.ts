@@ -1,4 +1,5 @@
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import { instrumentAxios } from '../utils/outboundTelemetry';
 
 /**
  * Global HTTP client with timeout and retry configuration
@@ -13,12 +14,12 @@ const RETRY_DELAY_MS = 1000;
 /**
  * Create axios instance with global timeout
  */
-export const httpClient: AxiosInstance = axios.create({
+export const httpClient: AxiosInstance = instrumentAxios(axios.create({
   timeout: DEFAULT_TIMEOUT,
   headers: {
     'User-Agent': 'WildMind-AI/1.0',
   },
-});
+}));
 
 /**
  * Add request interceptor for logging (debug mode only)
@@ -51,10 +52,10 @@ httpClient.interceptors.response.use(
  * Create axios instance with custom timeout
  */
 export function createHttpClient(config: AxiosRequestConfig): AxiosInstance {
-  return axios.create({
+  return instrumentAxios(axios.create({
     timeout: DEFAULT_TIMEOUT,
     ...config,
-  });
+  }));
 }
 
 /**
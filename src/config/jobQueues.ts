@@ -0,0 +1,139 @@
+import type { QueueOptions } from "../utils/backgroundTaskQueue";
+
+/**
+ * Named background job queues and their defaults.
+ *
+ * Concurrency can be overridden per process with JOB_QUEUE_CONCURRENCY.
+ * Handlers are registered in services/backgroundJobsService.ts.
+ */
+
+export const JOB_QUEUES = {
+  aestheticScore: "aesthetic-score",
+  imageOptimization: "image-optimization",
+  videoThumbnail: "video-thumbnail",
+  notifications: "notifications",
+  generationExport: "generation-export",
+  accountExport: "account-export",
+  canvasExport: "canvas-export",
+  canvasThumbnails: "canvas-thumbnails",
+  providerWebhooks: "provider-webhooks",
+  runwayTaskWatch: "runway-task-watch",
+  assistantSearchBackfill: "assistant-search-backfill",
+} as const;
+
+export type JobQueueName = (typeof JOB_QUEUES)[keyof typeof JOB_QUEUES];
+
+export const JOB_QUEUE_OPTIONS: Record<JobQueueName, QueueOptions> = {
+  // Scoring calls an external service that can be slow (video frame sampling)
+  "aesthetic-score": { concurrency: 4, attempts: 5, backoffMs: 30 * 1000, timeoutMs: 5 * 60 * 1000 },
+  // sharp + uploads are CPU and memory heavy
+  "image-optimization": { concurrency: 2, attempts: 4, backoffMs: 15 * 1000, timeoutMs: 5 * 60 * 1000 },
+  // ffmpeg frame extraction
+  "video-thumbnail": { concurrency: 1, attempts: 4, backoffMs: 15 * 1000, timeoutMs: 3 * 60 * 1000 },
+  // Firestore write + FCM multicast
+  notifications: { concurrency: 4, attempts: 5, backoffMs: 10 * 1000, timeoutMs: 60 * 1000 },
+  // Streams every file of the export through the ZIP writer into storage
+  "generation-export": { concurrency: 1, attempts: 2, backoffMs: 60 * 1000, timeoutMs: 30 * 60 * 1000 },
+  // Firestore reads + credit-service calls; the archive is JSON only
+  "account-export": { concurrency: 1, attempts: 3, backoffMs: 60 * 1000, timeoutMs: 15 * 60 * 1000 },
+  // Headless Chromium per job; memory heavy, so one at a time
+  "canvas-export": { concurrency: 1, attempts: 2, backoffMs: 30 * 1000, timeoutMs: 5 * 60 * 1000 },
+  // Also headless Chromium, kept apart so background refreshes never queue ahead of requested exports
+  "canvas-thumbnails": { concurrency: 1, attempts: 2, backoffMs: 60 * 1000, timeoutMs: 3 * 60 * 1000 },
+  // Provider result fetch + storage upload + debit; videos can take a while to copy
+  "provider-webhooks": { concurrency: 4, attempts: 5, backoffMs: 30 * 1000, timeoutMs: 10 * 60 * 1000 },
+  // One Runway status call per check; the check that sees the task finish also copies its outputs
+  "runway-task-watch": { concurrency: 4, attempts: 3, backoffMs: 15 * 1000, timeoutMs: 10 * 60 * 1000 },
+  // Rewrites every older assistant message of one user; a rerun skips what is already indexed
+  "assistant-search-backfill": { concurrency: 1, attempts: 5, backoffMs: 60 * 1000, timeoutMs: 10 * 60 * 1000 },
+};
+
+export interface HistoryJobPayload {
+  uid: string;
+  historyId: string;
+}
+
+export interface VideoThumbnailJobPayload extends HistoryJobPayload {
+  keyPrefix?: string; // storage prefix for the thumbnail; derived from the video's storagePath when absent
+}
+
+/** One pending job per history item and queue: repeated completion writes collapse into one run. */
+export function historyJobId(payload: HistoryJobPayload): string {
+  return `${payload.uid}:${payload.historyId}`;
+}
+
+/** Notifications whose trigger needs a lookup (history item, credit balance) before sending. */
+export type NotificationJobPayload =
+  | { kind: "video-completed"; uid: string; historyId: string }
+  | { kind: "low-credit"; uid: string };
+
+/** A burst of debits collapses into one balance check; each history item is checked once. */
+export function notificationJobId(payload: NotificationJobPayload): string {
+  return payload.kind === "video-completed"
+    ? `${payload.kind}:${payload.uid}:${payload.historyId}`
+    : `${payload.kind}:${payload.uid}`;
+}
+
+export interface GenerationExportJobPayload {
+  uid: string;
+  exportId: string;
+}
+
+export interface AccountExportJobPayload {
+  uid: string;
+  exportId: string;
+}
+
+/** A requested board export. */
+export interface CanvasExportJobPayload {
+  projectId: string;
+  exportId: string;
+}
+
+/** A (debounced) refresh of the project's thumbnail/previewImages after snapshot saves. */
+export interface CanvasThumbnailJobPayload {
+  projectId: string;
+}
+
+/** Thumbnail refreshes collapse into one pending job per project. */
+export function canvasThumbnailJobId(payload: CanvasThumbnailJobPayload): string {
+  return `thumbnail:${payload.projectId}`;
+}
+
+/** A terminal provider webhook delivery, finalized off the request path. */
+export interface ProviderWebhookJobPayload {
+  provider: "fal" | "replicate" | "minimax";
+  uid: string;
+  taskId: string;
+  historyId: string;
+  /** Provider-reported failure; absent when the result should be fetched from the provider. */
+  failure?: string;
+}
+
+/** Redelivered webhooks for the same task collapse into one pending job. */
+export function providerWebhookJobId(payload: ProviderWebhookJobPayload): string {
+  return `${payload.provider}:${payload.taskId}`;
+}
+
+/** A scheduled status check of a Runway task; Runway has no completion callbacks. */
+export interface RunwayTaskWatchJobPayload {
+  uid: string;
+  taskId: string;
+  startedAt: number;
+  /** Checks scheduled so far; part of the job id so the next check is not deduped against the running one. */
+  check: number;
+}
+
+export function runwayTaskWatchJobId(payload: RunwayTaskWatchJobPayload): string {
+  return `runway:${payload.taskId}:${payload.check}`;
+}
+
+/** Indexing of a user's assistant messages written before message search existed. */
+export interface AssistantSearchBackfillJobPayload {
+  uid: string;
+}
+
+/** Searches made while the backfill is pending or running share one job per user. */
+export function assistantSearchBackfillJobId(payload: AssistantSearchBackfillJobPayload): string {
+  return `assistant-search:${payload.uid}`;
+}
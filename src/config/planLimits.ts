@@ -0,0 +1,53 @@
+/**
+ * Per-plan request quotas and in-flight generation caps.
+ *
+ * Rate limits are counted per signed-in user (see resolveRateLimitSubject); requests that
+ * cannot be tied to a user are counted per IP with ANONYMOUS_LIMITS. Plan codes come from the
+ * credit service (creditsRepository.readUserInfo); unknown codes get the FREE quotas.
+ */
+
+export interface PlanLimits {
+  /** Generation submissions per minute (generationLimiter routes). */
+  generationsPerMinute: number;
+  /** Mutating API requests per minute (apiLimiter). */
+  apiRequestsPerMinute: number;
+  /** Status polling requests per minute (pollingLimiter routes). */
+  pollingRequestsPerMinute: number;
+  /** Priced generations running at the same time (makeCreditCost). */
+  concurrentGenerations: number;
+}
+
+export const FREE_PLAN_LIMITS: PlanLimits = {
+  generationsPerMinute: 20,
+  apiRequestsPerMinute: 300,
+  pollingRequestsPerMinute: 2000,
+  concurrentGenerations: 2,
+};
+
+export const PLAN_LIMITS: Record<string, PlanLimits> = {
+  FREE: FREE_PLAN_LIMITS,
+  PLAN_A: { generationsPerMinute: 30, apiRequestsPerMinute: 600, pollingRequestsPerMinute: 5000, concurrentGenerations: 4 },
+  PLAN_B: { generationsPerMinute: 40, apiRequestsPerMinute: 800, pollingRequestsPerMinute: 5000, concurrentGenerations: 6 },
+  PLAN_C: { generationsPerMinute: 60, apiRequestsPerMinute: 1000, pollingRequestsPerMinute: 5000, concurrentGenerations: 8 },
+  PLAN_D: { generationsPerMinute: 120, apiRequestsPerMinute: 2000, pollingRequestsPerMinute: 10000, concurrentGenerations: 12 },
+};
+
+// Studio and agency plans (STUDIO_*, AGENCY_*) share the top tiers' limits
+const PLAN_PREFIX_LIMITS: Array<[prefix: string, planCode: string]> = [
+  ['STUDIO_', 'PLAN_C'],
+  ['AGENCY_', 'PLAN_D'],
+];
+
+/** Per-IP quotas for callers that are not signed in; the same ceilings the IP limiters always had. */
+export const ANONYMOUS_LIMITS: Omit<PlanLimits, 'concurrentGenerations'> = {
+  generationsPerMinute: 30,
+  apiRequestsPerMinute: 1000,
+  pollingRequestsPerMinute: 5000,
+};
+
+export function getPlanLimits(planCode: string | null | undefined): PlanLimits {
+  const code = String(planCode || 'FREE').toUpperCase();
+  if (PLAN_LIMITS[code]) return PLAN_LIMITS[code];
+  const alias = PLAN_PREFIX_LIMITS.find(([prefix]) => code.startsWith(prefix));
+  return alias ? PLAN_LIMITS[alias[1]] : FREE_PLAN_LIMITS;
+}
@@ -121,3 +121,38 @@ export async function redisDelSafe(key: string): Promise<void> {
     // swallow
   }
 }
+
+export async function redisPublishSafe(
+  channel: string,
+  message: string,
+): Promise<boolean> {
+  if (!env.redisUrl) return false; // disabled
+  try {
+    const c = getRedisClient();
+    if (!c) return false;
+    await c.publish(channel, message);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Dedicated connection for SUBSCRIBE: a client in subscriber mode cannot run other commands,
+ * so each pub/sub consumer gets its own duplicate of the shared client.
+ */
+export async function createRedisSubscriber(): Promise<RedisClientType | null> {
+  const base = getRedisClient();
+  if (!base) return null;
+  const subscriber = base.duplicate();
+  subscriber.on("error", (err: unknown) => {
+    const now = Date.now();
+    if (now - lastErrorLog > ERROR_THROTTLE_MS) {
+      lastErrorLog = now;
+      // eslint-disable-next-line no-console
+      console.error("[Redis] Subscriber error:", (err as any)?.message || err);
+    }
+  });
+  await subscriber.connect();
+  return subscriber as RedisClientType;
+}
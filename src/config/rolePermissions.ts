@@ -0,0 +1,58 @@
+import type { UserRole } from "../types/authTypes";
+
+/**
+ * Role-based access control for privileged gateway routes.
+ *
+ * Roles live on the user record (users/{uid}.metadata.roles) and are carried in the
+ * cached session. Routes declare the permission they need via requirePermission().
+ */
+
+export type Permission =
+  | "templates:write"
+  | "redeem-codes:create"
+  | "subscriptions:manage"
+  | "canvas:workers"
+  | "audit:read"
+  | "users:roles"
+  | "jobs:read";
+
+export const USER_ROLES: UserRole[] = [
+  "admin",
+  "support",
+  "template-editor",
+  "user",
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    "templates:write",
+    "redeem-codes:create",
+    "subscriptions:manage",
+    "canvas:workers",
+    "audit:read",
+    "users:roles",
+    "jobs:read",
+  ],
+  support: ["subscriptions:manage", "audit:read", "jobs:read"],
+  "template-editor": ["templates:write"],
+  user: [],
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === "string" && (USER_ROLES as string[]).includes(value);
+}
+
+/** Drop unknown values and always keep the baseline "user" role. */
+export function normalizeRoles(value: unknown): UserRole[] {
+  const roles = Array.isArray(value) ? value.filter(isUserRole) : [];
+  return Array.from(new Set<UserRole>(["user", ...roles]));
+}
+
+export function hasPermission(
+  roles: UserRole[] | undefined,
+  permission: Permission,
+): boolean {
+  return (roles || []).some((role) =>
+    (ROLE_PERMISSIONS[role] || []).includes(permission),
+  );
+}
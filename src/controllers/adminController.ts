@@ -0,0 +1,96 @@
+import { Request, Response, NextFunction } from 'express';
+import { formatApiResponse } from '../utils/formatApiResponse';
+import { ApiError } from '../utils/errorHandler';
+import { authRepository } from '../repository/auth/authRepository';
+import { adminAuditRepository } from '../repository/adminAuditRepository';
+import { invalidateCachedSessionRoles } from '../utils/sessionStore';
+import { USER_ROLES, isUserRole } from '../config/rolePermissions';
+import { backgroundTaskQueue, JOB_STATES, JobState } from '../utils/backgroundTaskQueue';
+
+// List audit trail of privileged calls (newest first)
+async function listAuditLogs(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { uid, permission, limit, cursor } = req.query as Record<string, string | undefined>;
+    const result = await adminAuditRepository.listAuditEntries({
+      uid,
+      permission,
+      limit: limit ? Number(limit) : undefined,
+      cursor,
+    });
+    return res.json(formatApiResponse('success', 'Audit logs fetched', result));
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Background job queue counts; with ?queue= also lists that queue's jobs in one state (default dead)
+async function listJobs(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { queue, state = 'dead', limit } = req.query as Record<string, string | undefined>;
+    if (!JOB_STATES.includes(state as JobState)) {
+      throw new ApiError(`state must be one of: ${JOB_STATES.join(', ')}`, 400);
+    }
+    const queues = await backgroundTaskQueue.getStatus();
+    if (!queue) {
+      return res.json(formatApiResponse('success', 'Job queues fetched', { queues }));
+    }
+    const status = queues.find((q) => q.queue === queue);
+    if (!status) {
+      throw new ApiError('Queue not found', 404);
+    }
+    const jobs = await backgroundTaskQueue.listJobs(queue, state as JobState, Math.min(Math.max(Number(limit) || 50, 1), 200));
+    return res.json(formatApiResponse('success', 'Jobs fetched', { queue: status, state, jobs }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Get roles for a user
+async function getUserRoles(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { uid } = req.params;
+    const user = await authRepository.getUserById(uid);
+    if (!user) {
+      throw new ApiError('User not found', 404);
+    }
+    const roles = await authRepository.getUserRoles(uid);
+    return res.json(formatApiResponse('success', 'Roles fetched', { uid, roles }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Replace roles for a user
+async function setUserRoles(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { uid } = req.params;
+    const { roles } = req.body || {};
+
+    if (!Array.isArray(roles) || !roles.every(isUserRole)) {
+      throw new ApiError(`roles must be an array of: ${USER_ROLES.join(', ')}`, 400);
+    }
+    // Prevent an admin from locking everyone out by removing their own admin role
+    if (uid === req.uid && !roles.includes('admin')) {
+      throw new ApiError('You cannot remove your own admin role', 400);
+    }
+
+    const user = await authRepository.getUserById(uid);
+    if (!user) {
+      throw new ApiError('User not found', 404);
+    }
+
+    const updated = await authRepository.setUserRoles(uid, roles);
+    await invalidateCachedSessionRoles(uid);
+
+    return res.json(formatApiResponse('success', 'Roles updated', { uid, roles: updated }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export const adminController = {
+  listAuditLogs,
+  listJobs,
+  getUserRoles,
+  setUserRoles,
+};
@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction } from 'express';
+import { accountExportService } from '../../services/auth/accountExportService';
+import { accountDeletionService } from '../../services/auth/accountDeletionService';
+import { formatApiResponse } from '../../utils/formatApiResponse';
+import { ApiError } from '../../utils/errorHandler';
+
+// Exporting or deleting the account needs a browser session, never an API key
+function requireSessionAuth(req: Request): string {
+  if (!req.uid) {
+    throw new ApiError('Unauthorized', 401);
+  }
+  if (req.authMethod === 'apiKey') {
+    throw new ApiError('API keys cannot export or delete the account', 403);
+  }
+  return req.uid;
+}
+
+/** POST /api/auth/me/export — poll GET /api/auth/me/export/:exportId for the download URL */
+async function requestDataExport(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = requireSessionAuth(req);
+    const dataExport = await accountExportService.requestDataExport(uid);
+    return res.status(202).json(formatApiResponse('success', 'Data export queued', { export: dataExport }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+async function listDataExports(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = requireSessionAuth(req);
+    const exports = await accountExportService.listDataExports(uid);
+    return res.json(formatApiResponse('success', 'Data exports', { exports }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+async function getDataExport(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = requireSessionAuth(req);
+    const dataExport = await accountExportService.getDataExport(uid, req.params.exportId);
+    return res.json(formatApiResponse('success', 'Data export', { export: dataExport }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/** DELETE /api/auth/me — schedules the deletion after the grace period; body { confirm: "DELETE" } */
+async function requestAccountDeletion(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = requireSessionAuth(req);
+    const deletion = await accountDeletionService.requestAccountDeletion(uid);
+    return res.status(202).json(formatApiResponse('success', 'Account deletion scheduled', { deletion }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+async function getAccountDeletion(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = requireSessionAuth(req);
+    const deletion = await accountDeletionService.getAccountDeletion(uid);
+    return res.json(formatApiResponse('success', 'Account deletion', { deletion }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+async function cancelAccountDeletion(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = requireSessionAuth(req);
+    const deletion = await accountDeletionService.cancelAccountDeletion(uid);
+    return res.json(formatApiResponse('success', 'Account deletion cancelled', { deletion }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export const accountController = {
+  requestDataExport,
+  listDataExports,
+  getDataExport,
+  requestAccountDeletion,
+  getAccountDeletion,
+  cancelAccountDeletion,
+};
@@ -0,0 +1,76 @@
+import { Request, Response, NextFunction } from 'express';
+import { apiKeyService } from '../../services/auth/apiKeyService';
+import { formatApiResponse } from '../../utils/formatApiResponse';
+import { ApiError } from '../../utils/errorHandler';
+
+// Keys can only be managed from a browser session, never with another key
+function requireSessionAuth(req: Request): string {
+  if (!req.uid) {
+    throw new ApiError('Unauthorized', 401);
+  }
+  if (req.authMethod === 'apiKey') {
+    throw new ApiError('API keys cannot manage API keys', 403);
+  }
+  return req.uid;
+}
+
+async function listApiKeys(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = requireSessionAuth(req);
+    const keys = await apiKeyService.listApiKeys(uid);
+    return res.json(formatApiResponse('success', 'API keys', { keys }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/** POST /api/auth/api-keys — the plaintext key is only returned here and on rotate */
+async function createApiKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = requireSessionAuth(req);
+    const { name, scopes, rateLimitPerMinute } = req.body;
+    const created = await apiKeyService.createApiKey(uid, { name, scopes, rateLimitPerMinute });
+    return res.status(201).json(formatApiResponse('success', 'API key created', created));
+  } catch (error) {
+    next(error);
+  }
+}
+
+async function updateApiKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = requireSessionAuth(req);
+    const { name, scopes, rateLimitPerMinute } = req.body;
+    const apiKey = await apiKeyService.updateApiKey(uid, req.params.id, { name, scopes, rateLimitPerMinute });
+    return res.json(formatApiResponse('success', 'API key updated', { apiKey }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+async function rotateApiKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = requireSessionAuth(req);
+    const rotated = await apiKeyService.rotateApiKey(uid, req.params.id);
+    return res.json(formatApiResponse('success', 'API key rotated', rotated));
+  } catch (error) {
+    next(error);
+  }
+}
+
+async function revokeApiKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = requireSessionAuth(req);
+    const apiKey = await apiKeyService.revokeApiKey(uid, req.params.id);
+    return res.json(formatApiResponse('success', 'API key revoked', { apiKey }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export const apiKeyController = {
+  listApiKeys,
+  createApiKey,
+  updateApiKey,
+  rotateApiKey,
+  revokeApiKey,
+};
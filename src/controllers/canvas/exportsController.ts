@@ -0,0 +1,39 @@
+import { Request, Response } from 'express';
+import { canvasExportService } from '../../services/canvas/canvasExportService';
+import { formatApiResponse } from '../../utils/formatApiResponse';
+import { ApiError } from '../../utils/errorHandler';
+
+/** POST /projects/:id/export — body { format: 'png'|'pdf'|'svg', scope?, dpi? } */
+export async function createExport(req: Request, res: Response) {
+  try {
+    const userId = (req as any).uid;
+    if (!userId) {
+      throw new ApiError('Unauthorized', 401);
+    }
+
+    const { format, scope, dpi } = req.body || {};
+    const exportRecord = await canvasExportService.requestCanvasExport(req.params.id, userId, { format, scope, dpi });
+    res.status(202).json(formatApiResponse('success', 'Export queued', { export: exportRecord }));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json(
+      formatApiResponse('error', error.message || 'Failed to queue export', null)
+    );
+  }
+}
+
+/** GET /projects/:id/exports/:exportId — status, plus a signed download URL once completed */
+export async function getExport(req: Request, res: Response) {
+  try {
+    const userId = (req as any).uid;
+    if (!userId) {
+      throw new ApiError('Unauthorized', 401);
+    }
+
+    const exportRecord = await canvasExportService.getCanvasExport(req.params.id, userId, req.params.exportId);
+    res.json(formatApiResponse('success', 'Export retrieved', { export: exportRecord }));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json(
+      formatApiResponse('error', error.message || 'Failed to get export', null)
+    );
+  }
+}
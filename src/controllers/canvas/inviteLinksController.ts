@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import {
+  inviteLinkService,
+  MAX_INVITE_LINK_EXPIRY_HOURS,
+  MAX_INVITE_LINK_USES,
+} from '../../services/canvas/inviteLinkService';
+import { formatApiResponse } from '../../utils/formatApiResponse';
+import { ApiError } from '../../utils/errorHandler';
+
+const DOMAIN_PATTERN = /^(?=.{3,253}$)[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/i;
+
+function isOptionalInt(value: unknown, min: number, max: number): boolean {
+  return value === undefined || (Number.isInteger(value) && (value as number) >= min && (value as number) <= max);
+}
+
+/** POST /projects/:id/invite-links — body { role, maxUses?, expiresInHours?, allowedDomain? } */
+export async function createInviteLink(req: Request, res: Response) {
+  try {
+    const userId = (req as any).uid;
+    if (!userId) {
+      throw new ApiError('Unauthorized', 401);
+    }
+
+    const { role, maxUses, expiresInHours, allowedDomain } = req.body || {};
+    if (role !== 'editor' && role !== 'viewer') {
+      throw new ApiError("role must be 'editor' or 'viewer'", 400);
+    }
+    if (!isOptionalInt(maxUses, 1, MAX_INVITE_LINK_USES)) {
+      throw new ApiError(`maxUses must be an integer between 1 and ${MAX_INVITE_LINK_USES}`, 400);
+    }
+    if (!isOptionalInt(expiresInHours, 1, MAX_INVITE_LINK_EXPIRY_HOURS)) {
+      throw new ApiError(`expiresInHours must be an integer between 1 and ${MAX_INVITE_LINK_EXPIRY_HOURS}`, 400);
+    }
+    if (allowedDomain !== undefined && (typeof allowedDomain !== 'string' || !DOMAIN_PATTERN.test(allowedDomain))) {
+      throw new ApiError('allowedDomain must be a domain such as example.com', 400);
+    }
+
+    const link = await inviteLinkService.createInviteLink(req.params.id, userId, {
+      role,
+      maxUses,
+      expiresInHours,
+      allowedDomain,
+    });
+    res.status(201).json(formatApiResponse('success', 'Invite link created', { link }));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json(
+      formatApiResponse('error', error.message || 'Failed to create invite link', null)
+    );
+  }
+}
+
+export async function listInviteLinks(req: Request, res: Response) {
+  try {
+    const userId = (req as any).uid;
+    if (!userId) {
+      throw new ApiError('Unauthorized', 401);
+    }
+
+    const links = await inviteLinkService.listInviteLinks(req.params.id, userId);
+    res.json(formatApiResponse('success', 'Invite links retrieved', { links }));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json(
+      formatApiResponse('error', error.message || 'Failed to list invite links', null)
+    );
+  }
+}
+
+export async function revokeInviteLink(req: Request, res: Response) {
+  try {
+    const userId = (req as any).uid;
+    if (!userId) {
+      throw new ApiError('Unauthorized', 401);
+    }
+
+    const link = await inviteLinkService.revokeInviteLink(req.params.id, userId, req.params.token);
+    res.json(formatApiResponse('success', 'Invite link revoked', { link }));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json(
+      formatApiResponse('error', error.message || 'Failed to revoke invite link', null)
+    );
+  }
+}
+
+/** GET /join/:token — project name and role for the join page */
+export async function previewInviteLink(req: Request, res: Response) {
+  try {
+    const userId = (req as any).uid;
+    if (!userId) {
+      throw new ApiError('Unauthorized', 401);
+    }
+
+    const invite = await inviteLinkService.previewInviteLink(req.params.token);
+    res.json(formatApiResponse('success', 'Invite link retrieved', { invite }));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json(
+      formatApiResponse('error', error.message || 'Failed to get invite link', null)
+    );
+  }
+}
+
+/** POST /join/:token */
+export async function joinWithInviteLink(req: Request, res: Response) {
+  try {
+    const userId = (req as any).uid;
+    if (!userId) {
+      throw new ApiError('Unauthorized', 401);
+    }
+
+    const result = await inviteLinkService.joinWithInviteLink(req.params.token, userId);
+    res.json(formatApiResponse('success', result.alreadyMember ? 'Already a collaborator' : 'Joined project', result));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json(
+      formatApiResponse('error', error.message || 'Failed to join project', null)
+    );
+  }
+}
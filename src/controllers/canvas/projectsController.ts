@@ -236,3 +236,132 @@ export async function listProjects(req: Request, res: Response) {
     );
   }
 }
+
+/** POST /projects/:id/duplicate — body { name? } */
+export async function duplicateProject(req: Request, res: Response) {
+  try {
+    const userId = (req as any).uid;
+    if (!userId) {
+      throw new ApiError('Unauthorized', 401);
+    }
+
+    const { id } = req.params;
+    const { name } = req.body || {};
+    if (name !== undefined && typeof name !== 'string') {
+      throw new ApiError('name must be a string', 400);
+    }
+    const project = await projectService.duplicateProject(id, userId, name);
+
+    res.status(201).json(formatApiResponse('success', 'Project duplicated', { project }));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json(
+      formatApiResponse('error', error.message || 'Failed to duplicate project', null)
+    );
+  }
+}
+
+/** POST /projects/:id/template — body { categoryId, themeId, name?, tags?, isPublic? } */
+export async function publishAsTemplate(req: Request, res: Response) {
+  try {
+    const userId = (req as any).uid;
+    if (!userId) {
+      throw new ApiError('Unauthorized', 401);
+    }
+
+    const { id } = req.params;
+    const { name, categoryId, themeId, tags, isPublic } = req.body || {};
+    const template = await projectService.publishProjectAsTemplate(id, userId, {
+      name,
+      categoryId,
+      themeId,
+      tags,
+      isPublic,
+    });
+
+    res.status(201).json(formatApiResponse('success', 'Template published', { template }));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json(
+      formatApiResponse('error', error.message || 'Failed to publish template', null)
+    );
+  }
+}
+
+/** POST /projects/from-template/:templateId — body { name? } */
+export async function createProjectFromTemplate(req: Request, res: Response) {
+  try {
+    const userId = (req as any).uid;
+    if (!userId) {
+      throw new ApiError('Unauthorized', 401);
+    }
+
+    const { templateId } = req.params;
+    const { name } = req.body || {};
+    const project = await projectService.createProjectFromTemplate(templateId, userId, name);
+
+    res.status(201).json(formatApiResponse('success', 'Project created from template', { project }));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json(
+      formatApiResponse('error', error.message || 'Failed to create project from template', null)
+    );
+  }
+}
+
+/** POST /projects/:id/transfer — the recipient accepts via /invitations/:invitationId/accept */
+export async function transferProject(req: Request, res: Response) {
+  try {
+    const userId = (req as any).uid;
+    if (!userId) {
+      throw new ApiError('Unauthorized', 401);
+    }
+
+    const { id } = req.params;
+    const { recipientUid, senderEmail, senderUsername } = req.body || {};
+    const invitation = await projectService.requestProjectTransfer(id, userId, {
+      recipientUid,
+      senderEmail,
+      senderUsername,
+    });
+
+    res.json(formatApiResponse('success', 'Transfer requested', { invitation }));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json(
+      formatApiResponse('error', error.message || 'Failed to request transfer', null)
+    );
+  }
+}
+
+export async function removeCollaborator(req: Request, res: Response) {
+  try {
+    const userId = (req as any).uid;
+    if (!userId) {
+      throw new ApiError('Unauthorized', 401);
+    }
+
+    const { id, uid } = req.params;
+    await projectService.removeCollaboratorFromProject(id, userId, uid);
+
+    res.json(formatApiResponse('success', 'Collaborator removed', null));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json(
+      formatApiResponse('error', error.message || 'Failed to remove collaborator', null)
+    );
+  }
+}
+
+export async function leaveProject(req: Request, res: Response) {
+  try {
+    const userId = (req as any).uid;
+    if (!userId) {
+      throw new ApiError('Unauthorized', 401);
+    }
+
+    const { id } = req.params;
+    await projectService.leaveProject(id, userId);
+
+    res.json(formatApiResponse('success', 'Left project', null));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json(
+      formatApiResponse('error', error.message || 'Failed to leave project', null)
+    );
+  }
+}
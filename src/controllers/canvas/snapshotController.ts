@@ -7,6 +7,9 @@ import { ApiError } from '../../utils/errorHandler';
 import { CanvasProject, CanvasSnapshot } from '../../types/canvas';
 import { admin } from '../../config/firebaseAdmin';
 import { Timestamp } from 'firebase-admin/firestore';
+import { versionService } from '../../services/canvas/versionService';
+import { canvasExportService } from '../../services/canvas/canvasExportService';
+import { env } from '../../config/env';
 import { canSessionEdit, collabStatus, heartbeatCollabSession, joinCollabSession, leaveCollabSession } from '../../services/canvas/collabEditorStore';
 
 /** Comma-separated project IDs in PUBLIC_CANVAS_SNAPSHOT_PROJECT_IDS (homepage showcase, etc.). */
@@ -177,8 +180,8 @@ export async function setCurrentSnapshot(req: Request, res: Response) {
     if (!sessionId) {
       throw new ApiError('Session id is required', 400);
     }
-    const joined = joinCollabSession(projectId, sessionId, userId, 'editor');
-    if (!joined.canEdit || !canSessionEdit(projectId, sessionId)) {
+    const joined = await joinCollabSession(projectId, sessionId, userId, 'editor');
+    if (!joined.canEdit || !(await canSessionEdit(projectId, sessionId))) {
       throw new ApiError(`Maximum ${joined.maxEditors} editors can edit simultaneously`, 403);
     }
 
@@ -237,51 +240,60 @@ export async function setCurrentSnapshot(req: Request, res: Response) {
 
     await projectRepository.saveCurrentSnapshot(projectId, snapshot);
 
-    // Extract images for project preview
-    try {
-      const imageUrls: string[] = [];
-      const seenUrls = new Set<string>();
-
-      // 1. Check metadata for stitched image or others
-      if (mergedMetadata['stitched-image']) {
-        const url = typeof mergedMetadata['stitched-image'] === 'string'
-          ? mergedMetadata['stitched-image']
-          : mergedMetadata['stitched-image'].url;
-        if (url && !seenUrls.has(url)) {
-          imageUrls.push(url);
-          seenUrls.add(url);
-        }
-      }
+    // Each save counts towards the next automatic version checkpoint
+    versionService.recordChange(projectId, userId);
 
-      // 2. Extract from elements
-      for (const elId in elements) {
-        const el = elements[elId];
-        const urlsToCheck = [
-          el.meta?.url,
-          el.generatedImageUrl,
-          el.generatedVideoUrl,
-          ...(Array.isArray(el.generatedImageUrls) ? el.generatedImageUrls : [])
-        ];
-
-        for (const url of urlsToCheck) {
-          if (url && typeof url === 'string' && !seenUrls.has(url)) {
+    // Project preview: rendered server-side (debounced) when enabled, otherwise picked from board media
+    if (env.canvasServerThumbnails) {
+      canvasExportService.scheduleThumbnailRefresh(projectId).catch((err) => {
+        console.error('[setCurrentSnapshot] Failed to schedule thumbnail refresh:', err);
+      });
+    } else {
+      try {
+        const imageUrls: string[] = [];
+        const seenUrls = new Set<string>();
+
+        // 1. Check metadata for stitched image or others
+        if (mergedMetadata['stitched-image']) {
+          const url = typeof mergedMetadata['stitched-image'] === 'string'
+            ? mergedMetadata['stitched-image']
+            : mergedMetadata['stitched-image'].url;
+          if (url && !seenUrls.has(url)) {
             imageUrls.push(url);
             seenUrls.add(url);
           }
         }
-      }
 
-      if (imageUrls.length > 0) {
-        // Randomize order for the previewImages array
-        const shuffled = [...imageUrls].sort(() => Math.random() - 0.5).slice(0, 10);
-        await projectRepository.updateProject(projectId, {
-          thumbnail: shuffled[0], // Set one as primary thumbnail
-          previewImages: shuffled,
-        });
+        // 2. Extract from elements
+        for (const elId in elements) {
+          const el = elements[elId];
+          const urlsToCheck = [
+            el.meta?.url,
+            el.generatedImageUrl,
+            el.generatedVideoUrl,
+            ...(Array.isArray(el.generatedImageUrls) ? el.generatedImageUrls : [])
+          ];
+
+          for (const url of urlsToCheck) {
+            if (url && typeof url === 'string' && !seenUrls.has(url)) {
+              imageUrls.push(url);
+              seenUrls.add(url);
+            }
+          }
+        }
+
+        if (imageUrls.length > 0) {
+          // Randomize order for the previewImages array
+          const shuffled = [...imageUrls].sort(() => Math.random() - 0.5).slice(0, 10);
+          await projectRepository.updateProject(projectId, {
+            thumbnail: shuffled[0], // Set one as primary thumbnail
+            previewImages: shuffled,
+          });
+        }
+      } catch (prevErr) {
+        console.error('[setCurrentSnapshot] Failed to update project preview images:', prevErr);
+        // Non-blocking error
       }
-    } catch (prevErr) {
-      console.error('[setCurrentSnapshot] Failed to update project preview images:', prevErr);
-      // Non-blocking error
     }
 
     // Verify it was saved
@@ -351,7 +363,7 @@ export async function getCurrentSnapshot(req: Request, res: Response) {
     // Touch collaboration presence on snapshot read for authenticated collaborators.
     const canvasSessionId = req.get('x-canvas-session-id');
     if (isCollaborator && typeof canvasSessionId === 'string' && canvasSessionId.trim()) {
-      heartbeatCollabSession(projectId, canvasSessionId.trim());
+      await heartbeatCollabSession(projectId, canvasSessionId.trim());
     }
 
     return res.json(formatApiResponse('success', 'Current snapshot retrieved', { snapshot }));
@@ -388,8 +400,8 @@ export async function joinCollab(req: Request, res: Response) {
     }
     const userRole = project.ownerUid === userId ? 'owner' : project.collaborators.find(c => c.uid === userId)?.role;
     const requestedMode = userRole === 'owner' || userRole === 'editor' ? 'editor' : 'viewer';
-    const joined = joinCollabSession(projectId, sessionId, userId, requestedMode);
-    const status = collabStatus(projectId);
+    const joined = await joinCollabSession(projectId, sessionId, userId, requestedMode);
+    const status = await collabStatus(projectId);
 
     return res.json(formatApiResponse('success', 'Collaboration joined', {
       ...joined,
@@ -427,8 +439,8 @@ export async function heartbeatCollab(req: Request, res: Response) {
     if (!hasAccess) {
       throw new ApiError('Access denied', 403);
     }
-    const hb = heartbeatCollabSession(projectId, sessionId);
-    const status = collabStatus(projectId);
+    const hb = await heartbeatCollabSession(projectId, sessionId);
+    const status = await collabStatus(projectId);
     return res.json(formatApiResponse('success', 'Collaboration heartbeat', {
       ...hb,
       activeEditors: status.activeEditors,
@@ -454,8 +466,8 @@ export async function leaveCollab(req: Request, res: Response) {
     if (!sessionId) {
       throw new ApiError('Session id is required', 400);
     }
-    leaveCollabSession(projectId, sessionId);
-    const status = collabStatus(projectId);
+    await leaveCollabSession(projectId, sessionId);
+    const status = await collabStatus(projectId);
     return res.json(formatApiResponse('success', 'Collaboration left', status));
   } catch (error: any) {
     res.status(error.statusCode || 500).json(
@@ -472,7 +484,7 @@ export async function collabStatusController(req: Request, res: Response) {
       throw new ApiError('Unauthorized', 401);
     }
     const { id: projectId } = req.params;
-    return res.json(formatApiResponse('success', 'Collaboration status', collabStatus(projectId)));
+    return res.json(formatApiResponse('success', 'Collaboration status', await collabStatus(projectId)));
   } catch (error: any) {
     res.status(error.statusCode || 500).json(
       formatApiResponse('error', error.message || 'Failed to get collaboration status', null)
@@ -0,0 +1,93 @@
+import { Request, Response } from 'express';
+import { versionService, CURRENT_VERSION } from '../../services/canvas/versionService';
+import { formatApiResponse } from '../../utils/formatApiResponse';
+import { ApiError } from '../../utils/errorHandler';
+
+function requireUserId(req: Request): string {
+  const userId = (req as any).uid;
+  if (!userId) {
+    throw new ApiError('Unauthorized', 401);
+  }
+  return userId;
+}
+
+/** GET /projects/:id/versions?limit=&before= — newest first, without element payloads */
+export async function listVersions(req: Request, res: Response) {
+  try {
+    const userId = requireUserId(req);
+    const limit = parseInt(req.query.limit as string) || undefined;
+    const before = req.query.before !== undefined ? parseInt(req.query.before as string) : undefined;
+    if (before !== undefined && !Number.isFinite(before)) {
+      throw new ApiError('before must be a version number', 400);
+    }
+
+    const result = await versionService.listVersions(req.params.id, userId, { limit, before });
+    res.json(formatApiResponse('success', 'Versions retrieved', result));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json(
+      formatApiResponse('error', error.message || 'Failed to list versions', null)
+    );
+  }
+}
+
+/** POST /projects/:id/versions — body { name? } checkpoints the current board */
+export async function createVersion(req: Request, res: Response) {
+  try {
+    const userId = requireUserId(req);
+    const { name } = req.body || {};
+    if (name !== undefined && typeof name !== 'string') {
+      throw new ApiError('name must be a string', 400);
+    }
+
+    const version = await versionService.createCheckpoint(req.params.id, userId, name);
+    res.status(201).json(formatApiResponse('success', 'Version created', { version }));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json(
+      formatApiResponse('error', error.message || 'Failed to create version', null)
+    );
+  }
+}
+
+/** GET /projects/:id/versions/diff?from=<versionId>&to=<versionId|current> */
+export async function diffVersions(req: Request, res: Response) {
+  try {
+    const userId = requireUserId(req);
+    const from = req.query.from as string | undefined;
+    const to = (req.query.to as string | undefined) || CURRENT_VERSION;
+    if (!from) {
+      throw new ApiError('from is required', 400);
+    }
+
+    const diff = await versionService.diffVersions(req.params.id, userId, from, to);
+    res.json(formatApiResponse('success', 'Version diff', { diff }));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json(
+      formatApiResponse('error', error.message || 'Failed to diff versions', null)
+    );
+  }
+}
+
+export async function getVersion(req: Request, res: Response) {
+  try {
+    const userId = requireUserId(req);
+    const version = await versionService.getVersion(req.params.id, userId, req.params.versionId);
+    res.json(formatApiResponse('success', 'Version retrieved', { version }));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json(
+      formatApiResponse('error', error.message || 'Failed to get version', null)
+    );
+  }
+}
+
+/** POST /projects/:id/versions/:versionId/restore — restores as a new version */
+export async function restoreVersion(req: Request, res: Response) {
+  try {
+    const userId = requireUserId(req);
+    const version = await versionService.restoreVersion(req.params.id, userId, req.params.versionId);
+    res.json(formatApiResponse('success', 'Version restored', { version }));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json(
+      formatApiResponse('error', error.message || 'Failed to restore version', null)
+    );
+  }
+}
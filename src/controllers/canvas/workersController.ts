@@ -44,8 +44,7 @@ export async function triggerMediaGC(req: Request, res: Response) {
       throw new ApiError('Unauthorized', 401);
     }
 
-    // Only allow admins or specific users to trigger GC
-    // For now, we'll allow any authenticated user, but you can add role checks here
+    // Route is gated by requirePermission('canvas:workers')
     const { mediaId } = req.query;
     const config = {
       ttlDays: req.body.ttlDays,
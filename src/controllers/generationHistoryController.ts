@@ -1,7 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
 import { generationHistoryService } from '../services/generationHistoryService';
+import { generationTrashService } from '../services/generationTrashService';
+import { generationExportService } from '../services/generationExportService';
 import { formatApiResponse } from '../utils/formatApiResponse';
 import { normalizeMode } from '../utils/modeTypeMap';
+import { subscribeGenerationEvents } from '../utils/generationEvents';
+import { openEventStream } from '../utils/eventStream';
 
 async function create(req: Request, res: Response, next: NextFunction) {
 	try {
@@ -51,6 +55,18 @@ async function get(req: Request, res: Response, next: NextFunction) {
 	}
 }
 
+// Server-sent lifecycle events for the caller's history items (see utils/generationEvents)
+async function events(req: Request, res: Response, next: NextFunction) {
+	try {
+		const uid = (req as any).uid;
+		const stream = openEventStream(req, res, { retryMs: 5000 });
+		const unsubscribe = subscribeGenerationEvents(uid, (event) => stream.send(event.type, event));
+		stream.signal.addEventListener('abort', unsubscribe);
+	} catch (err) {
+		return next(err);
+	}
+}
+
 async function listMine(req: Request, res: Response, next: NextFunction) {
 	try {
 		// Ensure per-user freshness; do not allow browser/proxy caching for list reads
@@ -202,11 +218,85 @@ async function update(req: Request, res: Response, next: NextFunction) {
   }
 }
 
+async function listTrash(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = (req as any).uid;
+    const limit = Math.min(parseInt(String(req.query.limit || '20'), 10) || 20, 100);
+    const cursor = typeof req.query.cursor === 'string' ? req.query.cursor : undefined;
+    const result = await generationTrashService.listTrash(uid, { limit, cursor });
+    return res.json(formatApiResponse('success', 'OK', result));
+  } catch (err) {
+    return next(err);
+  }
+}
+
+async function restoreFromTrash(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = (req as any).uid;
+    const { historyId } = req.params as any;
+    const imageId = typeof req.query.imageId === 'string' ? req.query.imageId : undefined;
+    const result = await generationTrashService.restore(uid, historyId, imageId);
+    return res.json(formatApiResponse('success', imageId ? 'Image restored' : 'Generation restored', result));
+  } catch (err) {
+    return next(err);
+  }
+}
+
+async function emptyTrash(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = (req as any).uid;
+    const result = await generationTrashService.emptyTrash(uid);
+    return res.json(formatApiResponse('success', 'Trash emptied', result));
+  } catch (err) {
+    return next(err);
+  }
+}
+
+async function requestExport(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = (req as any).uid;
+    const { historyIds, filter } = req.body || {};
+    const record = await generationExportService.requestExport(uid, { historyIds, filter });
+    return res.status(202).json(formatApiResponse('success', 'Export queued', { export: record }));
+  } catch (err) {
+    return next(err);
+  }
+}
+
+async function listExports(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = (req as any).uid;
+    const exports = await generationExportService.listExports(uid);
+    return res.json(formatApiResponse('success', 'OK', { exports }));
+  } catch (err) {
+    return next(err);
+  }
+}
+
+async function getExport(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = (req as any).uid;
+    const record = await generationExportService.getExport(uid, req.params.exportId);
+    // The signed URL is short-lived; never cache it
+    res.setHeader('Cache-Control', 'private, no-store');
+    return res.json(formatApiResponse('success', 'OK', { export: record }));
+  } catch (err) {
+    return next(err);
+  }
+}
+
 export const generationHistoryController = {
 	create,
 	updateStatus,
 	get,
+	events,
   listMine,
   softDelete,
   update,
+  listTrash,
+  restoreFromTrash,
+  emptyTrash,
+  requestExport,
+  listExports,
+  getExport,
 };
@@ -24,6 +24,9 @@ export * from './canvas/opsController';
 export * from './canvas/projectsController';
 export * from './canvas/queryController';
 export * from './canvas/snapshotController';
+export * from './canvas/versionsController';
+export * from './canvas/inviteLinksController';
+export * from './canvas/exportsController';
 export * from './canvas/workersController';
 
 // Credit & User Controllers
@@ -37,6 +40,13 @@ export * from './replaceController';
 
 // Utility Controllers
 export * from './engagementController';
+export * from './notificationsController';
+export * from './shareController';
+export * from './libraryCollectionsController';
 export * from './libraryController';
 export * from './stickerExportController';
 export * from './adminImageOptimizationController';
+export * from './adminController';
+export * from './pricingController';
+export * from './providerWebhooksController';
+export * from './modelsController';
@@ -0,0 +1,211 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  libraryCollectionService,
+  MAX_COLLECTION_ITEMS_PER_REQUEST,
+} from '../services/libraryCollectionService';
+import { shareLinkService, MAX_SHARE_EXPIRY_HOURS } from '../services/shareLinkService';
+import { formatApiResponse } from '../utils/formatApiResponse';
+import { COLLECTION_ITEM_KINDS, CollectionItemRef } from '../types/collections';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+function getUid(req: Request): string {
+  return (req as any).uid as string;
+}
+
+function isValidName(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.trim().length <= MAX_NAME_LENGTH;
+}
+
+function isValidDescription(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.length <= MAX_DESCRIPTION_LENGTH);
+}
+
+function isValidCoverUrl(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && /^https?:\/\//.test(value));
+}
+
+/** Parse `items: [{ kind, refId }]` from the body, or null when malformed. */
+function parseItemRefs(items: unknown): CollectionItemRef[] | null {
+  if (!Array.isArray(items) || items.length === 0 || items.length > MAX_COLLECTION_ITEMS_PER_REQUEST) return null;
+  const refs: CollectionItemRef[] = [];
+  for (const item of items) {
+    if (!item || !COLLECTION_ITEM_KINDS.includes(item.kind) || typeof item.refId !== 'string' || !item.refId || item.refId.includes('/')) {
+      return null;
+    }
+    refs.push({ kind: item.kind, refId: item.refId });
+  }
+  return refs;
+}
+
+export async function listCollections(req: Request, res: Response, next: NextFunction) {
+  try {
+    const collections = await libraryCollectionService.listCollections(getUid(req));
+    return res.json(formatApiResponse('success', 'OK', { collections }));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function createCollection(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { name, description, coverUrl } = req.body || {};
+    if (!isValidName(name)) {
+      return res.status(400).json(formatApiResponse('error', `name is required (max ${MAX_NAME_LENGTH} characters)`, null));
+    }
+    if (!isValidDescription(description) || description === null) {
+      return res.status(400).json(formatApiResponse('error', `description must be a string (max ${MAX_DESCRIPTION_LENGTH} characters)`, null));
+    }
+    if (!isValidCoverUrl(coverUrl) || coverUrl === null) {
+      return res.status(400).json(formatApiResponse('error', 'coverUrl must be an http(s) URL', null));
+    }
+
+    const collection = await libraryCollectionService.createCollection(getUid(req), { name, description, coverUrl });
+    return res.status(201).json(formatApiResponse('success', 'Collection created', { collection }));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getCollection(req: Request, res: Response, next: NextFunction) {
+  try {
+    const collection = await libraryCollectionService.getCollection(getUid(req), req.params.collectionId);
+    return res.json(formatApiResponse('success', 'OK', { collection }));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+/** Body: any of { name, description, coverUrl }; null clears description/coverUrl. */
+export async function updateCollection(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { name, description, coverUrl } = req.body || {};
+    if (name === undefined && description === undefined && coverUrl === undefined) {
+      return res.status(400).json(formatApiResponse('error', 'Nothing to update', null));
+    }
+    if (name !== undefined && !isValidName(name)) {
+      return res.status(400).json(formatApiResponse('error', `name must be 1-${MAX_NAME_LENGTH} characters`, null));
+    }
+    if (!isValidDescription(description)) {
+      return res.status(400).json(formatApiResponse('error', `description must be a string (max ${MAX_DESCRIPTION_LENGTH} characters)`, null));
+    }
+    if (!isValidCoverUrl(coverUrl)) {
+      return res.status(400).json(formatApiResponse('error', 'coverUrl must be an http(s) URL', null));
+    }
+
+    const collection = await libraryCollectionService.updateCollection(getUid(req), req.params.collectionId, {
+      name,
+      description,
+      coverUrl,
+    });
+    return res.json(formatApiResponse('success', 'Collection updated', { collection }));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function deleteCollection(req: Request, res: Response, next: NextFunction) {
+  try {
+    await libraryCollectionService.deleteCollection(getUid(req), req.params.collectionId);
+    return res.json(formatApiResponse('success', 'Collection deleted', null));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+/** Body: { ids: string[] } — every collection id, in the desired order. */
+export async function reorderCollections(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { ids } = req.body || {};
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === 'string' && id)) {
+      return res.status(400).json(formatApiResponse('error', 'ids must be a non-empty array of collection ids', null));
+    }
+    const collections = await libraryCollectionService.reorderCollections(getUid(req), ids);
+    return res.json(formatApiResponse('success', 'Collections reordered', { collections }));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+/** Body: { items: [{ kind: 'generation' | 'upload' | 'bookmark', refId }] } */
+export async function addItems(req: Request, res: Response, next: NextFunction) {
+  try {
+    const refs = parseItemRefs((req.body || {}).items);
+    if (!refs) {
+      return res
+        .status(400)
+        .json(formatApiResponse('error', `items must be 1-${MAX_COLLECTION_ITEMS_PER_REQUEST} entries of { kind, refId }`, null));
+    }
+    const result = await libraryCollectionService.addItems(getUid(req), req.params.collectionId, refs);
+    return res.json(formatApiResponse('success', 'Items added', result));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function removeItems(req: Request, res: Response, next: NextFunction) {
+  try {
+    const refs = parseItemRefs((req.body || {}).items);
+    if (!refs) {
+      return res
+        .status(400)
+        .json(formatApiResponse('error', `items must be 1-${MAX_COLLECTION_ITEMS_PER_REQUEST} entries of { kind, refId }`, null));
+    }
+    const result = await libraryCollectionService.removeItems(getUid(req), req.params.collectionId, refs);
+    return res.json(formatApiResponse('success', 'Items removed', result));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+/** Body: { expiresInHours?, includePrompt? } — mints an unlisted link for the whole collection. */
+export async function shareCollection(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { expiresInHours, includePrompt } = req.body || {};
+    if (
+      expiresInHours !== undefined &&
+      (!Number.isInteger(expiresInHours) || expiresInHours < 1 || expiresInHours > MAX_SHARE_EXPIRY_HOURS)
+    ) {
+      return res
+        .status(400)
+        .json(formatApiResponse('error', `expiresInHours must be an integer between 1 and ${MAX_SHARE_EXPIRY_HOURS}`, null));
+    }
+    if (includePrompt !== undefined && typeof includePrompt !== 'boolean') {
+      return res.status(400).json(formatApiResponse('error', 'includePrompt must be a boolean', null));
+    }
+
+    const link = await shareLinkService.createShareLink(getUid(req), {
+      collectionId: req.params.collectionId,
+      expiresInHours,
+      includePrompt,
+    });
+    return res.status(201).json(formatApiResponse('success', 'Share link created', { link }));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function exportCollection(req: Request, res: Response, next: NextFunction) {
+  try {
+    const manifest = await libraryCollectionService.exportCollection(getUid(req), req.params.collectionId);
+    const filename = `collection-${req.params.collectionId}.json`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    return res.json(formatApiResponse('success', 'OK', manifest));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export const libraryCollectionsController = {
+  listCollections,
+  createCollection,
+  getCollection,
+  updateCollection,
+  deleteCollection,
+  reorderCollections,
+  addItems,
+  removeItems,
+  shareCollection,
+  exportCollection,
+};
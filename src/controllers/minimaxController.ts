@@ -52,7 +52,7 @@ async function videoStart(req: Request, res: Response, next: NextFunction) {
     const apiKey = env.minimaxApiKey as string;
     const groupId = env.minimaxGroupId as string;
     const ctx = (req as any).context || {};
-    const result = await minimaxService.generateVideo(apiKey, groupId, req.body);
+    const result = await minimaxService.generateVideo(apiKey, groupId, req.body, req.uid);
     // Create history now so we have a consistent idempotency/debit key and store model params for pricing
     const uid = req.uid;
     const body = req.body || {};
@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from 'express';
+import { formatApiResponse } from '../utils/formatApiResponse';
+import { ApiError } from '../utils/errorHandler';
+import { modelCatalogService } from '../services/modelCatalogService';
+
+// Catalog is static per deploy; let browsers/CDNs cache it briefly
+const CATALOG_CACHE_CONTROL = 'public, max-age=300';
+
+// List models (optional ?modality=&provider=&availability= filters)
+async function listModels(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { modality, provider, availability } = req.query as Record<string, string | undefined>;
+    const result = modelCatalogService.listModels({ modality, provider, availability });
+    res.setHeader('Cache-Control', CATALOG_CACHE_CONTROL);
+    return res.json(formatApiResponse('success', 'Models fetched', result));
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Single model by id or alias (ids may contain "/")
+async function getModel(req: Request, res: Response, next: NextFunction) {
+  try {
+    const model = modelCatalogService.getModelEntry(req.params.id);
+    if (!model) {
+      throw new ApiError('Model not found', 404);
+    }
+    res.setHeader('Cache-Control', CATALOG_CACHE_CONTROL);
+    return res.json(formatApiResponse('success', 'Model fetched', model));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export const modelsController = {
+  listModels,
+  getModel,
+};
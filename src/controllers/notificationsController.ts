@@ -0,0 +1,178 @@
+import { Request, Response, NextFunction } from 'express';
+import { notificationsRepository } from '../repository/notificationsRepository';
+import { formatApiResponse } from '../utils/formatApiResponse';
+import { NOTIFICATION_TYPES, DevicePlatform, NotificationType } from '../types/notifications';
+
+const DEVICE_PLATFORMS: DevicePlatform[] = ['web', 'ios', 'android'];
+const MAX_IDS_PER_REQUEST = 500;
+
+function getUid(req: Request): string {
+  return (req as any).uid as string;
+}
+
+function isNotificationType(value: unknown): value is NotificationType {
+  return typeof value === 'string' && (NOTIFICATION_TYPES as string[]).includes(value);
+}
+
+export async function listNotifications(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = getUid(req);
+    const limit = Math.min(parseInt(String(req.query.limit || '20'), 10) || 20, 100);
+    const cursor = typeof req.query.cursor === 'string' ? req.query.cursor : undefined;
+    const unreadOnly = String(req.query.unread || '') === 'true';
+    const type = req.query.type;
+
+    if (type !== undefined && !isNotificationType(type)) {
+      return res.status(400).json(formatApiResponse('error', 'Invalid notification type', null));
+    }
+
+    const [result, unreadCount] = await Promise.all([
+      notificationsRepository.listNotifications(uid, { limit, cursor, unreadOnly, type }),
+      notificationsRepository.countUnread(uid),
+    ]);
+
+    return res.json(
+      formatApiResponse('success', 'OK', {
+        items: result.items,
+        nextCursor: result.nextCursor,
+        unreadCount,
+      })
+    );
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getUnreadCount(req: Request, res: Response, next: NextFunction) {
+  try {
+    const unreadCount = await notificationsRepository.countUnread(getUid(req));
+    return res.json(formatApiResponse('success', 'OK', { unreadCount }));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+/** Body: { all: true } or { ids: string[], read?: boolean } (read defaults to true). */
+export async function markRead(req: Request, res: Response, next: NextFunction) {
+  try {
+    const uid = getUid(req);
+    const { ids, all, read } = req.body || {};
+
+    if (all === true) {
+      const updated = await notificationsRepository.markAllRead(uid);
+      return res.json(formatApiResponse('success', 'OK', { updated }));
+    }
+
+    if (!Array.isArray(ids) || ids.length === 0 || ids.some((id) => typeof id !== 'string' || !id)) {
+      return res.status(400).json(formatApiResponse('error', 'ids must be a non-empty array of strings', null));
+    }
+    if (ids.length > MAX_IDS_PER_REQUEST) {
+      return res.status(400).json(formatApiResponse('error', `At most ${MAX_IDS_PER_REQUEST} ids per request`, null));
+    }
+    if (read !== undefined && typeof read !== 'boolean') {
+      return res.status(400).json(formatApiResponse('error', 'read must be a boolean', null));
+    }
+
+    const updated = await notificationsRepository.setReadState(uid, Array.from(new Set<string>(ids)), read !== false);
+    return res.json(formatApiResponse('success', 'OK', { updated }));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function updateNotification(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { read } = req.body || {};
+    if (typeof read !== 'boolean') {
+      return res.status(400).json(formatApiResponse('error', 'read must be a boolean', null));
+    }
+    const updated = await notificationsRepository.setReadState(getUid(req), [req.params.id], read);
+    return res.json(formatApiResponse('success', 'OK', { id: req.params.id, read, updated }));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getPreferences(req: Request, res: Response, next: NextFunction) {
+  try {
+    const preferences = await notificationsRepository.getPreferences(getUid(req));
+    return res.json(formatApiResponse('success', 'OK', { preferences, types: NOTIFICATION_TYPES }));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function updatePreferences(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { muted } = req.body || {};
+    if (!Array.isArray(muted) || !muted.every(isNotificationType)) {
+      return res
+        .status(400)
+        .json(formatApiResponse('error', `muted must be an array of: ${NOTIFICATION_TYPES.join(', ')}`, null));
+    }
+    const preferences = await notificationsRepository.setMutedTypes(
+      getUid(req),
+      Array.from(new Set<NotificationType>(muted))
+    );
+    return res.json(formatApiResponse('success', 'OK', { preferences }));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function listDevices(req: Request, res: Response, next: NextFunction) {
+  try {
+    const devices = await notificationsRepository.listDeviceTokens(getUid(req));
+    return res.json(formatApiResponse('success', 'OK', { devices }));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function registerDevice(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { token, platform } = req.body || {};
+    if (typeof token !== 'string' || !token.trim() || token.length > 4096) {
+      return res.status(400).json(formatApiResponse('error', 'token is required', null));
+    }
+    if (platform !== undefined && !DEVICE_PLATFORMS.includes(platform)) {
+      return res
+        .status(400)
+        .json(formatApiResponse('error', `platform must be one of: ${DEVICE_PLATFORMS.join(', ')}`, null));
+    }
+
+    await notificationsRepository.upsertDeviceToken(getUid(req), {
+      token: token.trim(),
+      platform,
+      userAgent: req.get('user-agent')?.slice(0, 256),
+    });
+    return res.status(201).json(formatApiResponse('success', 'Device registered', null));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function removeDevice(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { token } = req.body || {};
+    if (typeof token !== 'string' || !token.trim()) {
+      return res.status(400).json(formatApiResponse('error', 'token is required', null));
+    }
+    const removed = await notificationsRepository.removeDeviceTokens(getUid(req), [token.trim()]);
+    return res.json(formatApiResponse('success', 'OK', { removed }));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export const notificationsController = {
+  listNotifications,
+  getUnreadCount,
+  markRead,
+  updateNotification,
+  getPreferences,
+  updatePreferences,
+  listDevices,
+  registerDevice,
+  removeDevice,
+};
@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express';
+import { formatApiResponse } from '../utils/formatApiResponse';
+import { ApiError } from '../utils/errorHandler';
+import { pricingQuoteService, PricingQuoteItem } from '../services/pricingQuoteService';
+
+const MAX_BATCH_ITEMS = 50;
+
+// Split { route, query?, ...generationBody } into a quote item
+function toQuoteItem(raw: any): PricingQuoteItem {
+  if (!raw || typeof raw !== 'object' || typeof raw.route !== 'string' || !raw.route.trim()) {
+    throw new ApiError('route is required (e.g. "fal/generate")', 400);
+  }
+  const { route, query, ...body } = raw;
+  return { route, body, query: query && typeof query === 'object' ? query : undefined };
+}
+
+// Quote one generation request without running it
+async function quote(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await pricingQuoteService.quote(req, toQuoteItem(req.body));
+    return res.json(formatApiResponse('success', 'Quote computed', result));
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Quote many configurations at once (pricing comparison UI)
+async function quoteBatch(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { items } = req.body || {};
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new ApiError('items must be a non-empty array', 400);
+    }
+    if (items.length > MAX_BATCH_ITEMS) {
+      throw new ApiError(`At most ${MAX_BATCH_ITEMS} items can be quoted at once`, 400);
+    }
+    const results = await pricingQuoteService.quoteBatch(req, items.map(toQuoteItem));
+    return res.json(formatApiResponse('success', 'Quotes computed', { items: results }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export const pricingController = {
+  quote,
+  quoteBatch,
+};
@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction } from 'express';
+import { formatApiResponse } from '../utils/formatApiResponse';
+import { ApiError } from '../utils/errorHandler';
+import {
+  WebhookProvider,
+  verifyProviderWebhookToken,
+  verifyFalSignature,
+  verifyReplicateSignature,
+} from '../utils/providerWebhooks';
+import { providerWebhookService, WebhookCallbackRef, WebhookReceipt } from '../services/providerWebhookService';
+
+// uid/cb/token come from the callback URL built at submit time
+function authorize(provider: WebhookProvider, req: Request): WebhookCallbackRef {
+  const uid = String(req.query.uid || '');
+  const nonce = String(req.query.cb || '');
+  const token = String(req.query.token || '');
+  if (!verifyProviderWebhookToken(provider, uid, nonce, token)) {
+    throw new ApiError('Invalid webhook token', 401);
+  }
+  return { uid, nonce };
+}
+
+function acknowledge(res: Response, receipt: WebhookReceipt) {
+  res.status(receipt.accepted ? 202 : 200).json(formatApiResponse('success', receipt.accepted ? 'Webhook accepted' : 'Webhook ignored', receipt));
+}
+
+async function fal(req: Request, res: Response, next: NextFunction) {
+  try {
+    const callback = authorize('fal', req);
+    if (!(await verifyFalSignature(req.headers, req.rawBody))) {
+      throw new ApiError('Invalid FAL webhook signature', 401);
+    }
+    acknowledge(res, await providerWebhookService.handleFalWebhook(callback, req.body));
+  } catch (err) {
+    next(err);
+  }
+}
+
+async function replicate(req: Request, res: Response, next: NextFunction) {
+  try {
+    const callback = authorize('replicate', req);
+    if (!verifyReplicateSignature(req.headers, req.rawBody)) {
+      throw new ApiError('Invalid Replicate webhook signature', 401);
+    }
+    acknowledge(res, await providerWebhookService.handleReplicateWebhook(callback, req.body));
+  } catch (err) {
+    next(err);
+  }
+}
+
+async function minimax(req: Request, res: Response, next: NextFunction) {
+  try {
+    const callback = authorize('minimax', req);
+    // MiniMax verifies a new callback_url by posting { challenge } and expects it echoed within 3s
+    if (typeof req.body?.challenge === 'string') {
+      return res.json({ challenge: req.body.challenge });
+    }
+    acknowledge(res, await providerWebhookService.handleMinimaxWebhook(callback, req.body));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export const providerWebhooksController = {
+  fal,
+  replicate,
+  minimax,
+};
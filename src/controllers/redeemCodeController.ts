@@ -3,7 +3,6 @@ import { redeemCodeService } from '../services/redeemCodeService';
 import { formatApiResponse } from '../utils/formatApiResponse';
 import { ApiError } from '../utils/errorHandler';
 import { authRepository } from '../repository/auth/authRepository';
-import { env } from '../config/env';
 import { RedeemCodeValidationResult } from '../types/redeemCode';
 
 // Apply redeem code during signup
@@ -76,13 +75,8 @@ async function validateRedeemCode(req: Request, res: Response, next: NextFunctio
 // Create redeem codes (admin function)
 async function createRedeemCodes(req: Request, res: Response, next: NextFunction) {
   try {
-    const { type, count, expiresIn, maxUsesPerCode, adminKey } = req.body;
-
-    // Basic admin validation (hardcoded for now)
-    const ADMIN_KEY = env.reedemCodeAdminKey;
-    if (!adminKey || adminKey !== ADMIN_KEY) {
-      throw new ApiError('Unauthorized. Invalid admin key.', 401);
-    }
+    // Caller is authorized by requirePermission('redeem-codes:create') on the route
+    const { type, count, expiresIn, maxUsesPerCode } = req.body;
 
     // Validate required fields
     if (!type || !['STUDENT', 'BUSINESS'].includes(type)) {
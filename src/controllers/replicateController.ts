@@ -185,7 +185,7 @@ export async function seedanceT2vSubmit(req: Request, res: Response, next: NextF
             console.log('[seedanceT2vSubmit][background] finalization completed for requestId:', requestId);
           } catch (err: any) {
             console.error('[seedanceT2vSubmit][background] finalization failed:', err);
-            try { await issueRefund(uid, requestId, ctx.creditCost, 'replicate.seedance-t2v.failed', { error: err?.message }); } catch (_) { }
+            try { await issueRefund(uid, requestId, ctx.creditCost, 'replicate.seedance-t2v.failed', { error: err?.message, historyId: result.historyId }); } catch (_) { }
           }
         })().catch((e) => console.error('[seedanceT2vSubmit][background] unexpected error', e));
       });
@@ -223,7 +223,7 @@ export async function seedanceI2vSubmit(req: Request, res: Response, next: NextF
             console.log('[seedanceI2vSubmit][background] finalization completed for requestId:', requestId);
           } catch (err: any) {
             console.error('[seedanceI2vSubmit][background] finalization failed:', err);
-            try { await issueRefund(uid, requestId, ctx.creditCost, 'replicate.seedance-i2v.failed', { error: err?.message }); } catch (_) { }
+            try { await issueRefund(uid, requestId, ctx.creditCost, 'replicate.seedance-i2v.failed', { error: err?.message, historyId: result.historyId }); } catch (_) { }
           }
         })().catch((e) => console.error('[seedanceI2vSubmit][background] unexpected error', e));
       });
@@ -263,7 +263,7 @@ export async function seedanceProFastT2vSubmit(req: Request, res: Response, next
             console.log('[seedanceProFastT2vSubmit][background] finalization completed for requestId:', requestId);
           } catch (err: any) {
             console.error('[seedanceProFastT2vSubmit][background] finalization failed:', err);
-            try { await issueRefund(uid, requestId, ctx.creditCost, 'replicate.seedance-pro-fast-t2v.failed', { error: err?.message }); } catch (_) { }
+            try { await issueRefund(uid, requestId, ctx.creditCost, 'replicate.seedance-pro-fast-t2v.failed', { error: err?.message, historyId: result.historyId }); } catch (_) { }
           }
         })().catch((e) => console.error('[seedanceProFastT2vSubmit][background] unexpected error', e));
       });
@@ -300,7 +300,7 @@ export async function seedanceProFastI2vSubmit(req: Request, res: Response, next
             console.log('[seedanceProFastI2vSubmit][background] finalization completed for requestId:', requestId);
           } catch (err: any) {
             console.error('[seedanceProFastI2vSubmit][background] finalization failed:', err);
-            try { await issueRefund(uid, requestId, ctx.creditCost, 'replicate.seedance-pro-fast-i2v.failed', { error: err?.message }); } catch (_) { }
+            try { await issueRefund(uid, requestId, ctx.creditCost, 'replicate.seedance-pro-fast-i2v.failed', { error: err?.message, historyId: result.historyId }); } catch (_) { }
           }
         })().catch((e) => console.error('[seedanceProFastI2vSubmit][background] unexpected error', e));
       });
@@ -390,7 +390,7 @@ export async function ltx23FastT2vSubmit(req: Request, res: Response, next: Next
             console.log('[ltx23FastT2vSubmit][background] finalization completed for requestId:', requestId);
           } catch (err: any) {
             console.error('[ltx23FastT2vSubmit][background] finalization failed:', err);
-            try { await issueRefund(uid, requestId, ctx.creditCost, 'replicate.ltx-2.3-fast-t2v.failed', { error: err?.message }); } catch (_) { }
+            try { await issueRefund(uid, requestId, ctx.creditCost, 'replicate.ltx-2.3-fast-t2v.failed', { error: err?.message, historyId: result.historyId }); } catch (_) { }
           }
         })().catch((e) => console.error('[ltx23FastT2vSubmit][background] unexpected error', e));
       });
@@ -426,7 +426,7 @@ export async function ltx23FastI2vSubmit(req: Request, res: Response, next: Next
             console.log('[ltx23FastI2vSubmit][background] finalization completed for requestId:', requestId);
           } catch (err: any) {
             console.error('[ltx23FastI2vSubmit][background] finalization failed:', err);
-            try { await issueRefund(uid, requestId, ctx.creditCost, 'replicate.ltx-2.3-fast-i2v.failed', { error: err?.message }); } catch (_) { }
+            try { await issueRefund(uid, requestId, ctx.creditCost, 'replicate.ltx-2.3-fast-i2v.failed', { error: err?.message, historyId: result.historyId }); } catch (_) { }
           }
         })().catch((e) => console.error('[ltx23FastI2vSubmit][background] unexpected error', e));
       });
@@ -463,7 +463,7 @@ export async function ltx23ProT2vSubmit(req: Request, res: Response, next: NextF
             console.log('[ltx23ProT2vSubmit][background] finalization completed for requestId:', requestId);
           } catch (err: any) {
             console.error('[ltx23ProT2vSubmit][background] finalization failed:', err);
-            try { await issueRefund(uid, requestId, ctx.creditCost, 'replicate.ltx-2.3-pro-t2v.failed', { error: err?.message }); } catch (_) { }
+            try { await issueRefund(uid, requestId, ctx.creditCost, 'replicate.ltx-2.3-pro-t2v.failed', { error: err?.message, historyId: result.historyId }); } catch (_) { }
           }
         })().catch((e) => console.error('[ltx23ProT2vSubmit][background] unexpected error', e));
       });
@@ -497,7 +497,7 @@ export async function ltx23ProI2vSubmit(req: Request, res: Response, next: NextF
             console.log('[ltx23ProI2vSubmit][background] finalization completed for requestId:', requestId);
           } catch (err: any) {
             console.error('[ltx23ProI2vSubmit][background] finalization failed:', err);
-            try { await issueRefund(uid, requestId, ctx.creditCost, 'replicate.ltx-2.3-pro-i2v.failed', { error: err?.message }); } catch (_) { }
+            try { await issueRefund(uid, requestId, ctx.creditCost, 'replicate.ltx-2.3-pro-i2v.failed', { error: err?.message, historyId: result.historyId }); } catch (_) { }
           }
         })().catch((e) => console.error('[ltx23ProI2vSubmit][background] unexpected error', e));
       });
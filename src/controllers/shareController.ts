@@ -0,0 +1,127 @@
+import { Request, Response, NextFunction } from 'express';
+import fetch from 'node-fetch';
+import { shareLinkService, MAX_SHARE_EXPIRY_HOURS } from '../services/shareLinkService';
+import { formatApiResponse } from '../utils/formatApiResponse';
+import { getZataSignedGetUrl } from '../utils/storage/zataUpload';
+
+function getUid(req: Request): string {
+  return (req as any).uid as string;
+}
+
+export async function createShareLink(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { historyId, collectionId, mediaId, expiresInHours, includePrompt } = req.body || {};
+
+    const hasHistoryId = typeof historyId === 'string' && historyId.length > 0;
+    const hasCollectionId = typeof collectionId === 'string' && collectionId.length > 0;
+    if (hasHistoryId === hasCollectionId) {
+      return res.status(400).json(formatApiResponse('error', 'Exactly one of historyId or collectionId is required', null));
+    }
+    if (mediaId !== undefined && (typeof mediaId !== 'string' || !mediaId || hasCollectionId)) {
+      return res.status(400).json(formatApiResponse('error', 'mediaId must be a string and requires historyId', null));
+    }
+    if (
+      expiresInHours !== undefined &&
+      (!Number.isInteger(expiresInHours) || expiresInHours < 1 || expiresInHours > MAX_SHARE_EXPIRY_HOURS)
+    ) {
+      return res
+        .status(400)
+        .json(formatApiResponse('error', `expiresInHours must be an integer between 1 and ${MAX_SHARE_EXPIRY_HOURS}`, null));
+    }
+    if (includePrompt !== undefined && typeof includePrompt !== 'boolean') {
+      return res.status(400).json(formatApiResponse('error', 'includePrompt must be a boolean', null));
+    }
+
+    const link = await shareLinkService.createShareLink(getUid(req), {
+      historyId: hasHistoryId ? historyId : undefined,
+      collectionId: hasCollectionId ? collectionId : undefined,
+      mediaId,
+      expiresInHours,
+      includePrompt,
+    });
+    return res.status(201).json(formatApiResponse('success', 'Share link created', { link }));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function listShareLinks(req: Request, res: Response, next: NextFunction) {
+  try {
+    const historyId = typeof req.query.historyId === 'string' ? req.query.historyId : undefined;
+    const collectionId = typeof req.query.collectionId === 'string' ? req.query.collectionId : undefined;
+    const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      return res.status(400).json(formatApiResponse('error', 'limit must be a positive integer', null));
+    }
+    const cursor = typeof req.query.cursor === 'string' && req.query.cursor ? req.query.cursor : undefined;
+    const page = await shareLinkService.listShareLinks(getUid(req), { historyId, collectionId }, { limit, cursor });
+    return res.json(formatApiResponse('success', 'OK', page));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function revokeShareLink(req: Request, res: Response, next: NextFunction) {
+  try {
+    const link = await shareLinkService.revokeShareLink(getUid(req), req.params.token);
+    return res.json(formatApiResponse('success', 'Share link revoked', { link }));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function viewSharedGeneration(req: Request, res: Response, next: NextFunction) {
+  try {
+    const shared = await shareLinkService.viewSharedLink(req.params.token);
+    // Revocation must take effect immediately, so shared responses are never cached
+    res.setHeader('Cache-Control', 'no-store');
+    return res.json(formatApiResponse('success', 'OK', shared));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+const FORWARDED_MEDIA_HEADERS = ['content-type', 'content-length', 'accept-ranges', 'content-range', 'etag', 'last-modified'];
+
+/** Stream one shared media item; the ref is resolved against the link on every request. */
+export async function streamSharedMedia(req: Request, res: Response, next: NextFunction) {
+  try {
+    const location = await shareLinkService.resolveSharedMedia(req.params.token, req.params.ref);
+    const target = /^https?:\/\//i.test(location) ? location : await getZataSignedGetUrl(location, 300);
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 30000);
+    const upstream = await fetch(target, {
+      headers: req.headers.range ? { range: String(req.headers.range) } : {},
+      signal: controller.signal as any,
+    }).finally(() => clearTimeout(timeout));
+    if (!upstream.ok) {
+      const status = upstream.status === 404 ? 404 : 502;
+      return res.status(status).json(formatApiResponse('error', 'Shared media is no longer available', null));
+    }
+
+    res.status(upstream.status);
+    FORWARDED_MEDIA_HEADERS.forEach((h) => {
+      const v = upstream.headers.get(h);
+      if (v) res.setHeader(h, v);
+    });
+    res.setHeader('Accept-Ranges', 'bytes');
+    // Same as the view: a revoked link must not keep serving from caches
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    upstream.body.pipe(res);
+  } catch (error: any) {
+    if (error?.name === 'AbortError') {
+      return res.status(504).json(formatApiResponse('error', 'Upstream timeout', null));
+    }
+    return next(error);
+  }
+}
+
+export const shareController = {
+  createShareLink,
+  listShareLinks,
+  revokeShareLink,
+  viewSharedGeneration,
+  streamSharedMedia,
+};
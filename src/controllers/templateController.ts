@@ -27,13 +27,14 @@ export class TemplateController {
 
     async getTemplates(req: Request, res: Response, next: NextFunction) {
         try {
-            const { category, theme, limit, startAfter, search } = req.query;
+            const { category, theme, limit, startAfter, search, source } = req.query;
             const result = await templateService.getTemplates({
                 category: category as string,
                 theme: theme as string,
                 limit: limit ? Number(limit) : 20,
                 startAfter,
                 search: search as string,
+                source: source === 'canvas' ? 'canvas' : undefined,
             });
             res.json(formatApiResponse('success', 'Templates fetched successfully', result.templates, {
                 nextCursor: result.lastDoc ? result.lastDoc.id : null // Simple cursor for now
@@ -0,0 +1,916 @@
+import { creditDistributionData, ModelCreditInfo } from "./creditDistribution";
+import { CHAT_MODEL_CONFIGS, CHAT_MODE_MODEL_IDS } from "../config/assistantModels";
+
+/**
+ * Model Registry
+ *
+ * Single typed list of the generation models the gateway exposes. It is read by:
+ *  - GET /api/models (catalog)
+ *  - canvas model mapping (services/canvas/generateService.ts)
+ *  - request validators (model allow-lists via `routeKeys`, aspect ratios / resolutions / durations)
+ *  - pricing (rows in creditDistributionData via `pricing`)
+ *
+ * To add a model, add one entry here; provider routes still need their own
+ * service call and cost computer if the model uses a new endpoint.
+ */
+
+export type ModelProvider =
+  | "fal"
+  | "replicate"
+  | "bfl"
+  | "runway"
+  | "minimax";
+
+export type ModelModality = "image" | "video" | "audio" | "text";
+
+export type ModelAvailability = "available" | "beta" | "deprecated";
+
+export type InputRequirement = "required" | "optional";
+
+export interface ModelInputs {
+  prompt: InputRequirement;
+  /** Reference / source image(s) */
+  image?: InputRequirement;
+  maxImages?: number;
+  firstFrame?: InputRequirement;
+  lastFrame?: InputRequirement;
+  audio?: InputRequirement;
+}
+
+/** How the canvas maps a frontend model name onto a provider call */
+export interface CanvasModelMapping {
+  /** Overrides `backendModel` for canvas calls */
+  backendModel?: string;
+  /** Provider service method (video models) */
+  method?: string;
+  isFast?: boolean;
+  mode?: string;
+  /** Pass a trailing "1K/2K/4K" in the frontend name through as resolution */
+  resolutionFromName?: boolean;
+}
+
+export interface ModelDefinition {
+  /** Canonical key clients send as `model` */
+  id: string;
+  label: string;
+  provider: ModelProvider;
+  modality: ModelModality;
+  /** Model identifier sent to the provider */
+  backendModel: string;
+  /** Other names clients send for the same model (canvas labels, legacy keys) */
+  aliases?: string[];
+  /**
+   * `model` values accepted for this model by routes that take it in the body, keyed by route
+   * (relative to /api). The route's allow-list is built from these.
+   */
+  routeKeys?: Record<string, string[]>;
+  aspectRatios?: string[];
+  resolutions?: string[];
+  /** Durations in seconds, as accepted by the model's route */
+  durations?: string[];
+  inputs: ModelInputs;
+  /** Rows of creditDistributionData: exact names and/or name prefixes (case-insensitive) */
+  pricing?: { names?: string[]; prefixes?: string[] };
+  canvas?: CanvasModelMapping;
+  availability: ModelAvailability;
+}
+
+const IMAGE_RATIOS = ["21:9", "16:9", "3:2", "4:3", "5:4", "1:1", "4:5", "3:4", "2:3", "9:16"];
+// "match_input_image" keeps the reference image's ratio
+const IMAGE_INPUT_RATIOS = [...IMAGE_RATIOS, "match_input_image"];
+const FAL_GENERATE = "fal/generate";
+const SEEDANCE_2_DURATIONS = ["auto", "4", "5", "6", "7", "8", "9", "10", "11", "12", "13", "14", "15"];
+const SEEDANCE_1_DURATIONS = ["2", "3", "4", "5", "6", "7", "8", "9", "10", "11", "12"];
+
+const GENERATION_MODELS: ModelDefinition[] = [
+  // ---------------------------------------------------------------- Image
+  {
+    id: "openai/gpt-image-2",
+    label: "GPT Image 2",
+    provider: "fal",
+    modality: "image",
+    backendModel: "openai/gpt-image-2",
+    aliases: ["chatgpt 2", "chat-gpt-2", "gpt image 2", "gpt-image-2"],
+    routeKeys: { [FAL_GENERATE]: ["openai/gpt-image-2"] },
+    aspectRatios: IMAGE_INPUT_RATIOS,
+    inputs: { prompt: "required", image: "optional", maxImages: 10 },
+    pricing: { prefixes: ["gpt-image-2"] },
+    canvas: {},
+    availability: "available",
+  },
+  {
+    id: "gemini-25-flash-image",
+    label: "Google Nano Banana",
+    provider: "fal",
+    modality: "image",
+    backendModel: "gemini-25-flash-image",
+    // "gemini" and "nano banana" also catch free-form canvas labels of this family
+    aliases: ["nano banana", "google nano banana", "gemini"],
+    routeKeys: { [FAL_GENERATE]: ["gemini-25-flash-image"] },
+    aspectRatios: IMAGE_RATIOS,
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { names: ["Google nano banana (T2I)", "Google nano banana (I2I)"] },
+    canvas: {},
+    availability: "available",
+  },
+  {
+    id: "google/nano-banana-pro",
+    label: "Google Nano Banana Pro",
+    provider: "fal",
+    modality: "image",
+    backendModel: "google/nano-banana-pro",
+    aliases: ["nano-banana-pro", "nano banana pro", "google nano banana pro"],
+    routeKeys: { [FAL_GENERATE]: ["google/nano-banana-pro", "nano-banana-pro"] },
+    aspectRatios: ["auto", ...IMAGE_RATIOS],
+    resolutions: ["1K", "2K", "4K"],
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { prefixes: ["Nano banana Pro"] },
+    canvas: { resolutionFromName: true },
+    availability: "available",
+  },
+  {
+    id: "google/nano-banana-2",
+    label: "Google Nano Banana 2",
+    provider: "fal",
+    modality: "image",
+    backendModel: "google/nano-banana-2",
+    aliases: ["nano-banana-2"],
+    routeKeys: { [FAL_GENERATE]: ["google/nano-banana-2"] },
+    aspectRatios: ["auto", ...IMAGE_RATIOS, "4:1", "1:4", "8:1", "1:8"],
+    resolutions: ["0.5K", "1K", "2K", "4K"],
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { prefixes: ["Google nano banana 2"] },
+    availability: "available",
+  },
+  {
+    id: "seedream-v4",
+    label: "Seedream v4",
+    provider: "fal",
+    modality: "image",
+    backendModel: "seedream-v4",
+    aliases: ["seedream v4", "seedream"],
+    routeKeys: { [FAL_GENERATE]: ["seedream-v4"] },
+    aspectRatios: IMAGE_INPUT_RATIOS,
+    resolutions: ["1K", "2K", "4K"],
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { names: ["replicate/bytedance/seedream-4"] },
+    canvas: { resolutionFromName: true },
+    availability: "available",
+  },
+  {
+    id: "seedream-4.5",
+    label: "Seedream 4.5",
+    provider: "fal",
+    modality: "image",
+    backendModel: "seedream-4.5",
+    aliases: ["seedream 4.5", "seedream v4.5", "seedream v45", "seedreamv45"],
+    routeKeys: { [FAL_GENERATE]: ["seedream-4.5"] },
+    aspectRatios: IMAGE_INPUT_RATIOS,
+    // 1K is rendered at 2K
+    resolutions: ["1K", "2K", "4K"],
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { names: ["Bytedance Seedream-4.5"] },
+    canvas: { resolutionFromName: true },
+    availability: "available",
+  },
+  {
+    id: "imagen-4-ultra",
+    label: "Imagen 4 Ultra",
+    provider: "fal",
+    modality: "image",
+    backendModel: "imagen-4-ultra",
+    aliases: ["imagen 4 ultra"],
+    routeKeys: { [FAL_GENERATE]: ["imagen-4-ultra"] },
+    aspectRatios: ["1:1", "16:9", "9:16", "3:4", "4:3"],
+    resolutions: ["1K", "2K"],
+    inputs: { prompt: "required" },
+    pricing: { names: ["Imagen 4 Ultra"] },
+    canvas: {},
+    availability: "available",
+  },
+  {
+    id: "imagen-4",
+    label: "Imagen 4",
+    provider: "fal",
+    modality: "image",
+    backendModel: "imagen-4",
+    aliases: ["imagen 4"],
+    routeKeys: { [FAL_GENERATE]: ["imagen-4"] },
+    aspectRatios: ["1:1", "16:9", "9:16", "3:4", "4:3"],
+    resolutions: ["1K", "2K"],
+    inputs: { prompt: "required" },
+    pricing: { names: ["Imagen 4"] },
+    canvas: {},
+    availability: "available",
+  },
+  {
+    id: "imagen-4-fast",
+    label: "Imagen 4 Fast",
+    provider: "fal",
+    modality: "image",
+    backendModel: "imagen-4-fast",
+    aliases: ["imagen 4 fast"],
+    routeKeys: { [FAL_GENERATE]: ["imagen-4-fast"] },
+    aspectRatios: ["1:1", "16:9", "9:16", "3:4", "4:3"],
+    resolutions: ["1K", "2K"],
+    inputs: { prompt: "required" },
+    pricing: { names: ["Imagen 4 Fast"] },
+    canvas: {},
+    availability: "available",
+  },
+  {
+    id: "flux-2-pro",
+    label: "FLUX.2 [pro]",
+    provider: "fal",
+    modality: "image",
+    backendModel: "flux-2-pro",
+    aliases: ["flux 2 pro"],
+    routeKeys: { [FAL_GENERATE]: ["flux-2-pro"] },
+    aspectRatios: IMAGE_INPUT_RATIOS,
+    resolutions: ["1K", "2K"],
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { prefixes: ["FLUX.2 [pro]"] },
+    canvas: { backendModel: "fal-ai/flux-2-pro", resolutionFromName: true },
+    availability: "available",
+  },
+  {
+    id: "flux-pro-1.1-ultra",
+    label: "FLUX 1.1 [pro] Ultra",
+    provider: "fal",
+    modality: "image",
+    backendModel: "fal-ai/flux-pro/v1.1-ultra",
+    aliases: ["flux-pro/v1.1-ultra", "pro 1.1 ultra", "flux 1.1 [pro] ultra"],
+    aspectRatios: IMAGE_RATIOS,
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { names: ["FLUX 1.1 [pro] Ultra"] },
+    canvas: { resolutionFromName: true },
+    availability: "available",
+  },
+  {
+    id: "flux-pro-1.1",
+    label: "FLUX 1.1 [pro]",
+    provider: "bfl",
+    modality: "image",
+    backendModel: "flux-pro-1.1",
+    aliases: ["pro 1.1", "flux 1.1 [pro]"],
+    aspectRatios: IMAGE_RATIOS,
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { names: ["FLUX 1.1 [pro]"] },
+    canvas: { resolutionFromName: true },
+    availability: "available",
+  },
+  {
+    id: "flux-kontext-pro",
+    label: "FLUX.1 Kontext [pro]",
+    provider: "bfl",
+    modality: "image",
+    backendModel: "flux-kontext-pro",
+    aliases: ["kontext pro"],
+    aspectRatios: IMAGE_RATIOS,
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { names: ["FLUX.1 Kontext [pro]"] },
+    canvas: {},
+    availability: "available",
+  },
+  {
+    id: "flux-kontext-max",
+    label: "FLUX.1 Kontext [max]",
+    provider: "bfl",
+    modality: "image",
+    backendModel: "flux-kontext-max",
+    aliases: ["kontext max"],
+    aspectRatios: IMAGE_RATIOS,
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { names: ["FLUX.1 Kontext [max]"] },
+    canvas: {},
+    availability: "available",
+  },
+  {
+    id: "flux-dev",
+    label: "FLUX.1 [dev]",
+    provider: "bfl",
+    modality: "image",
+    backendModel: "flux-dev",
+    aspectRatios: IMAGE_RATIOS,
+    inputs: { prompt: "required" },
+    pricing: { names: ["FLUX.1 [dev]"] },
+    canvas: {},
+    availability: "available",
+  },
+  {
+    id: "flux-pro",
+    label: "FLUX.1 [pro]",
+    provider: "bfl",
+    modality: "image",
+    backendModel: "flux-pro",
+    // Default for canvas labels that only say "flux"
+    aliases: ["flux"],
+    aspectRatios: IMAGE_RATIOS,
+    inputs: { prompt: "required" },
+    pricing: { names: ["FLUX.1 [pro]"] },
+    canvas: {},
+    availability: "available",
+  },
+  {
+    id: "gen4_image",
+    label: "Runway Gen 4 Image",
+    provider: "runway",
+    modality: "image",
+    backendModel: "gen4_image",
+    aliases: ["runway gen4 image", "gen4 image"],
+    resolutions: ["720p", "1080p"],
+    inputs: { prompt: "required", image: "optional", maxImages: 3 },
+    pricing: { prefixes: ["Runway Gen 4 Image 720p", "Runway Gen 4 Image 1080p"] },
+    canvas: {},
+    availability: "available",
+  },
+  {
+    id: "gen4_image_turbo",
+    label: "Runway Gen 4 Image Turbo",
+    provider: "runway",
+    modality: "image",
+    backendModel: "gen4_image_turbo",
+    aliases: ["runway gen4 image turbo", "gen4 image turbo"],
+    inputs: { prompt: "required", image: "required", maxImages: 3 },
+    pricing: { names: ["Runway Gen 4 Image Turbo"] },
+    canvas: {},
+    availability: "available",
+  },
+  {
+    id: "z-image-turbo",
+    label: "Z Image Turbo",
+    provider: "replicate",
+    modality: "image",
+    backendModel: "z-image-turbo",
+    aliases: ["new-turbo-model"],
+    aspectRatios: IMAGE_RATIOS,
+    inputs: { prompt: "required" },
+    pricing: { names: ["z-image-turbo"] },
+    canvas: {},
+    availability: "available",
+  },
+  {
+    id: "prunaai/p-image",
+    label: "P-Image",
+    provider: "replicate",
+    modality: "image",
+    backendModel: "prunaai/p-image",
+    aliases: ["p-image"],
+    aspectRatios: IMAGE_RATIOS,
+    inputs: { prompt: "required" },
+    pricing: { names: ["P-Image"] },
+    canvas: {},
+    availability: "available",
+  },
+  {
+    id: "qwen/qwen-image-edit-2511",
+    label: "Qwen Image Edit",
+    provider: "replicate",
+    modality: "image",
+    backendModel: "qwen/qwen-image-edit-2511",
+    aliases: ["qwen-image-edit", "qwen image edit"],
+    inputs: { prompt: "required", image: "required" },
+    pricing: { names: ["qwen-image-edit-2511"] },
+    canvas: {},
+    availability: "available",
+  },
+  {
+    id: "qwen-image-edit-2511-multiple-angles",
+    label: "Qwen Image Edit Multiple Angles",
+    provider: "fal",
+    modality: "image",
+    backendModel: "fal-ai/qwen-image-edit-2511-multiple-angles",
+    aliases: ["qwen-multiple-angles", "qwen-image-edit-multiple-angles", "qwen image edit multi angle"],
+    routeKeys: {
+      [FAL_GENERATE]: ["qwen-image-edit-2511-multiple-angles", "qwen-multiple-angles", "qwen-image-edit-multiple-angles"],
+    },
+    inputs: { prompt: "optional", image: "required" },
+    canvas: {},
+    availability: "available",
+  },
+  {
+    id: "openai/gpt-image-1.5",
+    label: "GPT Image 1.5",
+    provider: "replicate",
+    modality: "image",
+    backendModel: "openai/gpt-image-1.5",
+    aliases: ["chatgpt 1.5", "chat-gpt-1.5", "gpt-image-1.5"],
+    aspectRatios: ["1:1", "3:2", "2:3"],
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { prefixes: ["gpt-image-1.5"] },
+    canvas: {},
+    availability: "available",
+  },
+
+  // ---------------------------------------------------------------- Audio
+  {
+    id: "eleven-v3",
+    label: "ElevenLabs Eleven v3 Text to Dialogue",
+    provider: "fal",
+    modality: "audio",
+    backendModel: "fal-ai/elevenlabs/text-to-dialogue/eleven-v3",
+    routeKeys: {
+      [FAL_GENERATE]: ["eleven-v3", "elevenlabs-dialogue", "elevenlabs-text-to-dialogue", "elevenlabs-text-to-dialogue-eleven-v3"],
+    },
+    inputs: { prompt: "required" },
+    pricing: { prefixes: ["Elevenlabs Eleven v3 TTD"] },
+    availability: "available",
+  },
+  {
+    id: "elevenlabs-tts",
+    label: "ElevenLabs Eleven v3 Text to Speech",
+    provider: "fal",
+    modality: "audio",
+    backendModel: "fal-ai/elevenlabs/tts/eleven-v3",
+    routeKeys: { [FAL_GENERATE]: ["elevenlabs-tts", "elevenlabs-tts-eleven-v3"] },
+    inputs: { prompt: "required" },
+    pricing: { prefixes: ["Elevenlabs Eleven v3 TTS"] },
+    availability: "available",
+  },
+  {
+    id: "elevenlabs-sfx",
+    label: "ElevenLabs Sound Effects v2",
+    provider: "fal",
+    modality: "audio",
+    backendModel: "fal-ai/elevenlabs/sound-effects/v2",
+    routeKeys: { [FAL_GENERATE]: ["elevenlabs-sfx"] },
+    inputs: { prompt: "required" },
+    pricing: { prefixes: ["Elevenlabs Sound-Effects v2"] },
+    availability: "available",
+  },
+  {
+    id: "maya",
+    label: "Maya TTS",
+    provider: "fal",
+    modality: "audio",
+    backendModel: "fal-ai/maya",
+    routeKeys: { [FAL_GENERATE]: ["maya", "maya-tts", "maya-1-voice"] },
+    inputs: { prompt: "required" },
+    pricing: { prefixes: ["Maya TTS"] },
+    availability: "available",
+  },
+  {
+    id: "chatterbox-text-to-speech-multilingual",
+    label: "Chatterbox Multilingual TTS",
+    provider: "fal",
+    modality: "audio",
+    backendModel: "fal-ai/chatterbox/text-to-speech/multilingual",
+    routeKeys: { [FAL_GENERATE]: ["chatterbox-text-to-speech-multilingual", "chatterbox-multilingual"] },
+    inputs: { prompt: "required" },
+    availability: "available",
+  },
+  {
+    id: "resemble-ai/chatterboxhd/speech-to-speech",
+    label: "Chatterbox HD Speech to Speech",
+    provider: "fal",
+    modality: "audio",
+    backendModel: "resemble-ai/chatterboxhd/speech-to-speech",
+    routeKeys: { [FAL_GENERATE]: ["resemble-ai/chatterboxhd/speech-to-speech", "chatterbox-sts"] },
+    inputs: { prompt: "optional", audio: "required" },
+    availability: "available",
+  },
+
+  // ---------------------------------------------------------------- Video
+  {
+    id: "sora-2",
+    label: "Sora 2",
+    provider: "fal",
+    modality: "video",
+    backendModel: "fal-ai/sora-2/text-to-video",
+    aspectRatios: ["16:9", "9:16"],
+    resolutions: ["720p"],
+    durations: ["4", "8", "12"],
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { prefixes: ["Sora 2 T2V", "Sora 2 I2V"] },
+    availability: "available",
+  },
+  {
+    id: "sora-2-pro",
+    label: "Sora 2 Pro",
+    provider: "fal",
+    modality: "video",
+    backendModel: "fal-ai/sora-2/text-to-video/pro",
+    aliases: ["sora 2 pro"],
+    aspectRatios: ["16:9", "9:16"],
+    resolutions: ["720p", "1080p"],
+    durations: ["4", "8", "12"],
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { prefixes: ["Sora 2 Pro"] },
+    canvas: { method: "sora2ProT2vSubmit" },
+    availability: "available",
+  },
+  {
+    id: "veo-3.1",
+    label: "Veo 3.1",
+    provider: "fal",
+    modality: "video",
+    backendModel: "fal-ai/veo3.1",
+    aliases: ["veo 3.1", "veo3.1"],
+    aspectRatios: ["auto", "16:9", "9:16"],
+    resolutions: ["720p", "1080p", "4k"],
+    durations: ["4s", "6s", "8s"],
+    inputs: { prompt: "required", image: "optional", firstFrame: "optional", lastFrame: "optional" },
+    pricing: { prefixes: ["Veo 3.1 T2V", "Veo 3.1 I2V"] },
+    canvas: { method: "veo31TtvSubmit", isFast: false },
+    availability: "available",
+  },
+  {
+    id: "veo-3.1-fast",
+    label: "Veo 3.1 Fast",
+    provider: "fal",
+    modality: "video",
+    backendModel: "fal-ai/veo3.1/fast",
+    aliases: ["veo 3.1 fast", "veo3.1fast", "veo3.1 fast"],
+    aspectRatios: ["auto", "16:9", "9:16"],
+    resolutions: ["720p", "1080p", "4k"],
+    durations: ["4s", "6s", "8s"],
+    inputs: { prompt: "required", image: "optional", firstFrame: "optional", lastFrame: "optional" },
+    pricing: { prefixes: ["Veo 3.1 Fast"] },
+    canvas: { method: "veo31TtvSubmit", isFast: true },
+    availability: "available",
+  },
+  {
+    id: "veo-3",
+    label: "Veo 3",
+    provider: "fal",
+    modality: "video",
+    backendModel: "fal-ai/veo3",
+    aliases: ["veo 3 pro"],
+    aspectRatios: ["16:9", "9:16", "1:1"],
+    resolutions: ["720p", "1080p"],
+    durations: ["4s", "6s", "8s"],
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { prefixes: ["veo3 t2v", "veo3 i2v"] },
+    canvas: { method: "veoTtvSubmit", isFast: false },
+    availability: "available",
+  },
+  {
+    id: "veo-3-fast",
+    label: "Veo 3 Fast",
+    provider: "fal",
+    modality: "video",
+    backendModel: "fal-ai/veo3/fast",
+    aliases: ["veo 3 fast pro"],
+    aspectRatios: ["16:9", "9:16", "1:1"],
+    resolutions: ["720p", "1080p"],
+    durations: ["4s", "6s", "8s"],
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { prefixes: ["veo3 fast"] },
+    canvas: { method: "veoTtvSubmit", isFast: true },
+    availability: "available",
+  },
+  {
+    id: "ltx-v2-pro",
+    label: "LTX V2 Pro",
+    provider: "fal",
+    modality: "video",
+    backendModel: "fal-ai/ltxv-2/text-to-video",
+    aliases: ["ltx v2 pro"],
+    aspectRatios: ["16:9"],
+    resolutions: ["1080p", "1440p", "2160p"],
+    durations: ["6", "8", "10"],
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { prefixes: ["LTX V2 Pro"] },
+    canvas: { method: "ltx2ProT2vSubmit", isFast: false },
+    availability: "available",
+  },
+  {
+    id: "ltx-v2-fast",
+    label: "LTX V2 Fast",
+    provider: "fal",
+    modality: "video",
+    backendModel: "fal-ai/ltxv-2/text-to-video/fast",
+    aliases: ["ltx v2 fast"],
+    aspectRatios: ["16:9"],
+    resolutions: ["1080p", "1440p", "2160p"],
+    durations: ["6", "8", "10"],
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { prefixes: ["LTX V2 Fast"] },
+    canvas: { method: "ltx2FastT2vSubmit", isFast: true },
+    availability: "available",
+  },
+  {
+    id: "seedance-2.0",
+    label: "Seedance 2.0",
+    provider: "fal",
+    modality: "video",
+    backendModel: "bytedance/seedance-2.0/text-to-video",
+    aliases: ["seedance 2.0", "seedance 2", "seedance-2"],
+    routeKeys: {
+      [FAL_GENERATE]: [
+        "seedance-2.0",
+        "bytedance/seedance-2.0/text-to-video",
+        "bytedance/seedance-2.0/image-to-video",
+        "bytedance/seedance-2.0/reference-to-video",
+      ],
+    },
+    aspectRatios: ["auto", "21:9", "16:9", "4:3", "1:1", "3:4", "9:16"],
+    resolutions: ["480p", "720p"],
+    durations: SEEDANCE_2_DURATIONS,
+    inputs: { prompt: "required", image: "optional", firstFrame: "optional", lastFrame: "optional" },
+    canvas: { method: "seedance2T2vSubmit", isFast: false },
+    availability: "available",
+  },
+  {
+    id: "seedance-2.0-fast",
+    label: "Seedance 2.0 Fast",
+    provider: "fal",
+    modality: "video",
+    backendModel: "bytedance/seedance-2.0/fast/text-to-video",
+    aliases: ["seedance 2.0 fast", "seedance 2 fast", "seedance-2-fast"],
+    routeKeys: {
+      [FAL_GENERATE]: [
+        "bytedance/seedance-2.0/fast/text-to-video",
+        "bytedance/seedance-2.0/fast/image-to-video",
+        "bytedance/seedance-2.0/fast/reference-to-video",
+      ],
+    },
+    aspectRatios: ["auto", "21:9", "16:9", "4:3", "1:1", "3:4", "9:16"],
+    resolutions: ["480p", "720p"],
+    durations: SEEDANCE_2_DURATIONS,
+    inputs: { prompt: "required", image: "optional", firstFrame: "optional", lastFrame: "optional" },
+    canvas: { method: "seedance2FastT2vSubmit", isFast: true },
+    availability: "available",
+  },
+  {
+    id: "bytedance/seedance-1-pro",
+    label: "Seedance 1.0 Pro",
+    provider: "replicate",
+    modality: "video",
+    backendModel: "bytedance/seedance-1-pro",
+    // Default for canvas labels that only say "seedance"
+    aliases: ["seedance 1.0 pro", "seedance"],
+    aspectRatios: ["16:9", "4:3", "1:1", "3:4", "9:16", "21:9", "9:21"],
+    resolutions: ["480p", "720p", "1080p"],
+    durations: SEEDANCE_1_DURATIONS,
+    inputs: { prompt: "required", image: "optional", firstFrame: "optional", lastFrame: "optional" },
+    pricing: { prefixes: ["Seedance 1.0 Pro T2V", "Seedance 1.0 Pro I2V"] },
+    canvas: { method: "seedanceT2vSubmit" },
+    availability: "available",
+  },
+  {
+    id: "bytedance/seedance-1-lite",
+    label: "Seedance 1.0 Lite",
+    provider: "replicate",
+    modality: "video",
+    backendModel: "bytedance/seedance-1-lite",
+    aliases: ["seedance 1.0 lite"],
+    aspectRatios: ["16:9", "4:3", "1:1", "3:4", "9:16", "21:9", "9:21"],
+    resolutions: ["480p", "720p", "1080p"],
+    durations: SEEDANCE_1_DURATIONS,
+    inputs: { prompt: "required", image: "optional", firstFrame: "optional", lastFrame: "optional" },
+    pricing: { prefixes: ["Seedance 1.0 Lite"] },
+    canvas: { method: "seedanceT2vSubmit" },
+    availability: "available",
+  },
+  {
+    id: "bytedance/seedance-1.5-pro",
+    label: "Seedance 1.5 Pro",
+    provider: "replicate",
+    modality: "video",
+    backendModel: "bytedance/seedance-1.5-pro",
+    aliases: ["seedance 1.5", "seedance-1.5", "seedance-1.5-pro"],
+    aspectRatios: ["16:9", "4:3", "1:1", "3:4", "9:16", "21:9", "9:21"],
+    resolutions: ["480p", "720p", "1080p"],
+    durations: SEEDANCE_1_DURATIONS,
+    inputs: { prompt: "required", image: "optional", firstFrame: "optional", lastFrame: "optional" },
+    pricing: { prefixes: ["Seedance 1.5"] },
+    canvas: { method: "seedanceT2vSubmit" },
+    availability: "available",
+  },
+  {
+    id: "pixverse/pixverse-v5",
+    label: "PixVerse v5",
+    provider: "replicate",
+    modality: "video",
+    backendModel: "pixverse/pixverse-v5",
+    aliases: ["pixverse v5", "pixverse"],
+    aspectRatios: ["16:9", "9:16", "1:1"],
+    resolutions: ["360p", "540p", "720p", "1080p"],
+    durations: ["5", "8"],
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { prefixes: ["PixVerse 5"] },
+    canvas: { method: "pixverseT2vSubmit" },
+    availability: "available",
+  },
+  {
+    id: "wan-video/wan-2.5-t2v",
+    label: "Wan 2.5",
+    provider: "replicate",
+    modality: "video",
+    backendModel: "wan-video/wan-2.5-t2v",
+    aliases: ["wan 2.5", "wan"],
+    aspectRatios: ["16:9", "9:16"],
+    resolutions: ["480p", "720p", "1080p"],
+    durations: ["5", "10"],
+    inputs: { prompt: "required", image: "optional", audio: "optional" },
+    pricing: { prefixes: ["Wan 2.5 T2V", "Wan 2.5 I2V"] },
+    canvas: { method: "wanT2vSubmit", isFast: false },
+    availability: "available",
+  },
+  {
+    id: "wan-video/wan-2.5-t2v-fast",
+    label: "Wan 2.5 Fast",
+    provider: "replicate",
+    modality: "video",
+    backendModel: "wan-video/wan-2.5-t2v-fast",
+    aliases: ["wan 2.5 fast"],
+    aspectRatios: ["16:9", "9:16"],
+    resolutions: ["720p", "1080p"],
+    durations: ["5", "10"],
+    inputs: { prompt: "required", image: "optional", audio: "optional" },
+    pricing: { prefixes: ["Wan 2.5 Fast"] },
+    canvas: { method: "wanT2vSubmit", isFast: true },
+    availability: "available",
+  },
+  {
+    id: "kwaivgi/kling-v2.5-turbo-pro",
+    label: "Kling 2.5 Turbo Pro",
+    provider: "replicate",
+    modality: "video",
+    backendModel: "kwaivgi/kling-v2.5-turbo-pro",
+    aliases: ["kling 2.5 turbo pro", "kling"],
+    aspectRatios: ["16:9", "9:16", "1:1"],
+    durations: ["5", "10"],
+    inputs: { prompt: "required", image: "optional" },
+    pricing: { prefixes: ["Kling 2.5 Turbo Pro"] },
+    canvas: { method: "klingT2vSubmit", mode: "pro" },
+    availability: "available",
+  },
+  {
+    id: "MiniMax-Hailuo-02",
+    label: "MiniMax Hailuo 02",
+    provider: "minimax",
+    modality: "video",
+    backendModel: "MiniMax-Hailuo-02",
+    aliases: ["minimax-hailuo-02", "hailuo"],
+    resolutions: ["512P", "768P", "1080P"],
+    durations: ["6", "10"],
+    inputs: { prompt: "required", firstFrame: "optional" },
+    pricing: { prefixes: ["Minimax-Hailuo-02"] },
+    canvas: { method: "generateVideo" },
+    availability: "available",
+  },
+  {
+    id: "T2V-01-Director",
+    label: "MiniMax T2V-01 Director",
+    provider: "minimax",
+    modality: "video",
+    backendModel: "T2V-01-Director",
+    resolutions: ["720P"],
+    durations: ["6"],
+    inputs: { prompt: "required" },
+    pricing: { names: ["T2V-01-Director"] },
+    canvas: { method: "generateVideo" },
+    availability: "available",
+  },
+  {
+    id: "I2V-01-Director",
+    label: "MiniMax I2V-01 Director",
+    provider: "minimax",
+    modality: "video",
+    backendModel: "I2V-01-Director",
+    resolutions: ["720P"],
+    durations: ["6"],
+    inputs: { prompt: "optional", firstFrame: "required" },
+    pricing: { names: ["I2V-01-Director"] },
+    canvas: { method: "generateVideo" },
+    availability: "available",
+  },
+  {
+    id: "S2V-01",
+    label: "MiniMax S2V-01",
+    provider: "minimax",
+    modality: "video",
+    backendModel: "S2V-01",
+    resolutions: ["720P"],
+    durations: ["6"],
+    inputs: { prompt: "required", image: "required", maxImages: 1 },
+    pricing: { names: ["S2V-01"] },
+    canvas: { method: "generateVideo" },
+    availability: "available",
+  },
+  {
+    id: "gen4_turbo",
+    label: "Runway Gen-4 Turbo",
+    provider: "runway",
+    modality: "video",
+    backendModel: "gen4_turbo",
+    aliases: ["gen-4 turbo"],
+    aspectRatios: ["16:9", "9:16", "1:1"],
+    durations: ["5", "10"],
+    inputs: { prompt: "optional", image: "required" },
+    pricing: { prefixes: ["Gen-4  Turbo"] },
+    canvas: { method: "videoGenerate", mode: "text_to_video" },
+    availability: "available",
+  },
+  {
+    id: "gen3a_turbo",
+    label: "Runway Gen-3a Turbo",
+    provider: "runway",
+    modality: "video",
+    backendModel: "gen3a_turbo",
+    aliases: ["gen-3a turbo"],
+    aspectRatios: ["16:9", "9:16"],
+    durations: ["5", "10"],
+    inputs: { prompt: "optional", image: "required" },
+    pricing: { prefixes: ["Gen-3a  Turbo"] },
+    canvas: { method: "videoGenerate", mode: "text_to_video" },
+    availability: "available",
+  },
+];
+
+// Chat models are configured in config/assistantModels.ts; expose them with the same shape
+const CHAT_MODELS: ModelDefinition[] = CHAT_MODE_MODEL_IDS.map((id) => ({
+  id,
+  label: CHAT_MODEL_CONFIGS[id].label,
+  provider: "replicate",
+  modality: "text",
+  backendModel: id,
+  inputs: { prompt: "required", image: "optional" },
+  availability: "available",
+}));
+
+export const MODEL_REGISTRY: ModelDefinition[] = [...GENERATION_MODELS, ...CHAT_MODELS];
+
+const byName = new Map<string, ModelDefinition>();
+for (const model of MODEL_REGISTRY) {
+  for (const name of [model.id, ...(model.aliases || [])]) {
+    byName.set(name.toLowerCase().trim(), model);
+  }
+}
+
+/**
+ * Find a model by canonical id or alias (case-insensitive, exact match).
+ */
+export function findModel(name: string | undefined | null): ModelDefinition | undefined {
+  if (!name) return undefined;
+  return byName.get(String(name).toLowerCase().trim());
+}
+
+// Lowercase words only, so "Seedream-4.5 2K" and "seedream 4.5 2k" compare equal
+function normalizeName(name: string): string {
+  return String(name || "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/**
+ * Best registry match for a free-form label such as "Google nano banana pro 2K" (canvas model
+ * pickers send display names): an exact id or alias, else the model whose id or alias appears in
+ * the label as whole words, preferring the longest name. `filter` narrows the candidates.
+ */
+export function matchModel(
+  label: string | undefined | null,
+  filter: (model: ModelDefinition) => boolean = () => true
+): ModelDefinition | undefined {
+  const exact = findModel(label);
+  if (exact && filter(exact)) return exact;
+
+  const padded = ` ${normalizeName(String(label || ""))} `;
+  let best: ModelDefinition | undefined;
+  let bestLength = 0;
+  for (const [name, model] of byName) {
+    const normalized = normalizeName(name);
+    if (!normalized || normalized.length <= bestLength || !filter(model)) continue;
+    if (padded.includes(` ${normalized} `)) {
+      best = model;
+      bestLength = normalized.length;
+    }
+  }
+  return best;
+}
+
+/** `model` values `route` accepts (ModelDefinition.routeKeys), in registry order. */
+export function getRouteModelKeys(route: string): string[] {
+  return Array.from(new Set(MODEL_REGISTRY.flatMap((model) => model.routeKeys?.[route] || [])));
+}
+
+/** The model a `model` value sent to `route` stands for (case-insensitive). */
+export function findRouteModel(route: string, key: string | undefined | null): ModelDefinition | undefined {
+  const wanted = String(key || "").toLowerCase().trim();
+  if (!wanted) return undefined;
+  return MODEL_REGISTRY.find((model) =>
+    (model.routeKeys?.[route] || []).some((k) => k.toLowerCase() === wanted)
+  );
+}
+
+/**
+ * Registry entry by canonical id. Throws for unknown ids so typos in validators fail at startup.
+ */
+export function getModel(id: string): ModelDefinition {
+  const model = MODEL_REGISTRY.find((m) => m.id === id);
+  if (!model) throw new Error(`[modelRegistry] Unknown model id: ${id}`);
+  return model;
+}
+
+/**
+ * Rows of creditDistributionData priced for this model (empty when priced dynamically).
+ */
+export function getPricingRows(model: ModelDefinition): ModelCreditInfo[] {
+  const names = (model.pricing?.names || []).map((n) => n.toLowerCase());
+  const prefixes = (model.pricing?.prefixes || []).map((p) => p.toLowerCase());
+  if (names.length === 0 && prefixes.length === 0) return [];
+  return creditDistributionData.filter((row) => {
+    const name = row.modelName.toLowerCase();
+    return names.includes(name) || prefixes.some((p) => name.startsWith(p));
+  });
+}
@@ -17,9 +17,16 @@ if (env.nodeEnv !== 'production') {
   console.log(`[ENV] GENAI_API_KEY exists: ${!!env.googleGenAIApiKey}`); // Same value, env.ts handles both
 }
 
+// Tracing and outbound instrumentation must be in place before the app loads its HTTP clients
+import { startTracing, shutdownTracing } from './utils/tracing';
+import { startOutboundTelemetry } from './utils/outboundTelemetry';
+startTracing();
+startOutboundTelemetry();
+
 import app from './app/app';
 import type { Server as HttpServer } from 'http';
 import { startRealtimeServer } from './websocket/realtimeServer';
+import { startBackgroundJobs } from './services/backgroundJobsService';
 import { logger } from './utils/logger';
 
 const PORT = env.port || 5000;
@@ -47,7 +54,7 @@ const gracefulShutdown = (signal: string) => {
     }
     
     logger.info('Server closed, all connections drained');
-    process.exit(0);
+    shutdownTracing().finally(() => process.exit(0));
   });
 
   // Force exit after 30 seconds if graceful shutdown hangs
@@ -80,4 +87,10 @@ try {
   logger.warn({ err: String(e) }, 'Failed to start Realtime WS');
 }
 
-
+// Background jobs (aesthetic scoring, image optimization, video thumbnails)
+try {
+  const consuming = startBackgroundJobs();
+  logger.info({ consuming }, 'Background job queues registered');
+} catch (e) {
+  logger.warn({ err: String(e) }, 'Failed to start background job queues');
+}
@@ -1,4 +1,6 @@
 import { Request, Response, NextFunction } from "express";
+import { IncomingMessage } from "http";
+import cookieParser from "cookie-parser";
 import { admin } from "../config/firebaseAdmin";
 import { ApiError } from "../utils/errorHandler";
 import {
@@ -9,13 +11,16 @@ import {
 } from "../utils/sessionStore";
 
 import { env } from "../config/env";
+import { requiredApiKeyScopes } from "../config/apiKeyScopes";
+import { apiKeyService, looksLikeApiKey } from "../services/auth/apiKeyService";
+import { apiKeyLimiter } from "./rateLimiter";
 import "../types/http";
 
 const COOKIE_NAME = "app_session";
 
 /**
  * Middleware to require authentication for protected routes
- * Supports both session cookies and Bearer tokens
+ * Supports session cookies, Bearer tokens and personal API keys (Bearer wm_...)
  * Uses Redis caching for performance optimization
  */
 export async function requireAuth(
@@ -24,6 +29,12 @@ export async function requireAuth(
   next: NextFunction,
 ) {
   try {
+    // Personal API keys (Authorization: Bearer wm_...) take precedence over any cookie
+    const bearer = extractBearerToken(req);
+    if (looksLikeApiKey(bearer)) {
+      return await verifyApiKeyAndAttach(req, res, next, bearer as string);
+    }
+
     // Extract token from cookie (primary method)
     let token = req.cookies?.[COOKIE_NAME];
 
@@ -124,6 +135,10 @@ export async function requireAuth(
  */
 export async function optionalAuth(req: Request, res: Response, next: NextFunction) {
   try {
+    const bearer = extractBearerToken(req);
+    if (looksLikeApiKey(bearer)) {
+      return await verifyApiKeyAndAttach(req, res, next, bearer as string);
+    }
     let token = req.cookies?.[COOKIE_NAME];
     if (!token) {
       const authHeader = req.headers.authorization || (req.headers.Authorization as string | undefined);
@@ -145,6 +160,74 @@ export async function optionalAuth(req: Request, res: Response, next: NextFuncti
   }
 }
 
+function extractBearerToken(req: Request): string | undefined {
+  const authHeader =
+    req.headers.authorization ||
+    (req.headers.Authorization as string | undefined);
+  if (authHeader && /^Bearer\s+/i.test(authHeader)) {
+    return authHeader.replace(/^Bearer\s+/i, "").trim();
+  }
+  return undefined;
+}
+
+/**
+ * API key authentication: resolve the key, check that its scopes cover this route,
+ * then apply the per-key rate limit before handing over to the route.
+ */
+async function verifyApiKeyAndAttach(req: Request, res: Response, next: NextFunction, key: string): Promise<void> {
+  const record = await apiKeyService.authenticateApiKey(key, req.ip);
+
+  const accepted = requiredApiKeyScopes(req.method, req.originalUrl || req.url);
+  if (!accepted) {
+    throw new ApiError("API keys cannot access this endpoint", 403, undefined, "API_KEY_ROUTE_FORBIDDEN");
+  }
+  if (!accepted.some((scope) => record.scopes.includes(scope))) {
+    throw new ApiError("API key is missing the required scope", 403, { requiredScopes: accepted }, "API_KEY_SCOPE_MISSING");
+  }
+
+  req.uid = record.uid;
+  req.authMethod = "apiKey";
+  req.apiKey = {
+    id: record.id,
+    scopes: record.scopes,
+    rateLimitPerMinute: record.rateLimitPerMinute,
+  };
+  return apiKeyLimiter(req, res, next);
+}
+
+/**
+ * Authenticate a raw HTTP request outside the Express stack (WebSocket upgrade handshake).
+ * Runs cookie parsing and requireAuth exactly as the app does, so the session cookie, Bearer
+ * header and the session cache behave the same. Browsers cannot set headers on a WebSocket,
+ * so an ID token passed by the caller (e.g. from the query string) is used as a Bearer token
+ * when neither is present. Resolves with the uid or rejects with ApiError(401).
+ */
+export async function authenticateUpgradeRequest(
+  raw: IncomingMessage,
+  fallbackToken?: string | null,
+): Promise<string> {
+  const req = raw as unknown as Request;
+  // No-op response: cookie refresh headers cannot be set on an upgrade
+  const res = { setHeader: () => undefined } as unknown as Response;
+  // requireAuth reads headers through req.get() for logging and the session cache entry
+  if (typeof (req as any).get !== "function") {
+    (req as any).get = (name: string) => raw.headers[name.toLowerCase()];
+  }
+
+  await new Promise<void>((resolve) => cookieParser()(req, res, () => resolve()));
+  if (fallbackToken && !req.cookies?.[COOKIE_NAME] && !req.headers.authorization) {
+    req.headers.authorization = `Bearer ${fallbackToken}`;
+  }
+
+  let failure: unknown;
+  await requireAuth(req, res, (err?: unknown) => {
+    failure = err;
+  });
+  if (failure) throw failure;
+  if (!req.uid) throw new ApiError("Unauthorized - Authentication failed", 401);
+  return req.uid;
+}
+
 /** Shared token verification and req.uid attachment; used by requireAuth and optionalAuth. */
 async function verifyTokenAndAttach(req: Request, res: Response, next: NextFunction, token: string): Promise<void> {
   try {
@@ -4,8 +4,29 @@ import { ApiError } from '../utils/errorHandler';
 import { creditsService } from '../services/creditsService';
 import { creditsRepository } from '../repository/creditsRepository';
 import { projectRepository } from '../repository/canvas/projectRepository';
+import { creditHoldsRepository } from '../repository/creditHoldsRepository';
+import { generationHistoryRepository } from '../repository/generationHistoryRepository';
+import { generationSlotService } from '../services/generationSlotService';
+import { runWithCreditHold } from '../utils/creditHoldContext';
+import { ActiveGenerationSlot, runWithGenerationSlot } from '../utils/generationSlotContext';
+import { getPlanLimits } from '../config/planLimits';
+import { GenerationStatus } from '../types/generate';
+import { env } from '../config/env';
 
-type CostComputer = (req: Request) => Promise<{ cost: number; pricingVersion: string; meta: Record<string, any> }>;
+export type CostComputer = (req: Request) => Promise<{ cost: number; pricingVersion: string; meta: Record<string, any> }>;
+
+/** Pricing metadata attached to every makeCreditCost middleware (read by the dry-run quote API). */
+export interface CreditCostSpec {
+  provider: string;
+  operation: string;
+  computeCost: CostComputer;
+}
+
+const CREDIT_COST_SPEC = Symbol('creditCostSpec');
+
+export function getCreditCostSpec(handler: unknown): CreditCostSpec | undefined {
+  return handler ? (handler as any)[CREDIT_COST_SPEC] : undefined;
+}
 
 async function resolveCanvasBillingUid(req: Request, actorUid: string): Promise<string> {
   const projectId = (req.body as any)?.meta?.projectId || (req.body as any)?.projectId;
@@ -22,7 +43,7 @@ async function resolveCanvasBillingUid(req: Request, actorUid: string): Promise<
     throw new ApiError('Access denied', 403);
   }
 
-  // For shared "can edit" sessions, bill the owner/admin account.
+  // For shared "can edit" sessions (invitation or join link), bill the owner/admin account.
   if (project.ownerUid !== actorUid && collaborator?.role === 'editor') {
     return project.ownerUid;
   }
@@ -30,22 +51,133 @@ async function resolveCanvasBillingUid(req: Request, actorUid: string): Promise<
   return actorUid;
 }
 
+/**
+ * Account charged for the request: the actor, or the project owner for canvas editor collaborators.
+ */
+export async function resolveBillingUid(provider: string, req: Request, actorUid: string): Promise<string> {
+  return provider === 'canvas' ? resolveCanvasBillingUid(req, actorUid) : actorUid;
+}
+
+export interface CreditCharge {
+  billingUid: string;
+  cost: number;
+  pricingVersion: string;
+  meta: Record<string, any>;
+}
+
+/**
+ * Price a validated request for `actorUid`: the account to bill and the route's cost.
+ * Shared by makeCreditCost and the dry-run quote API so both always agree.
+ */
+export async function computeCreditCharge(spec: CreditCostSpec, req: Request, actorUid: string): Promise<CreditCharge> {
+  const billingUid = await resolveBillingUid(spec.provider, req, actorUid);
+  const { cost, pricingVersion, meta } = await spec.computeCost(req);
+  return { billingUid, cost, pricingVersion, meta };
+}
+
+/**
+ * Reserve credits for this request so concurrent submits cannot spend the same balance.
+ * Returns false when the balance minus existing holds does not cover the cost.
+ * Fails closed: when the hold cannot be written the request is refused with 503, since
+ * running it without a reservation would let concurrent submits overspend the balance.
+ */
+async function reserveCredits(
+  billingUid: string,
+  key: string,
+  cost: number,
+  balance: number,
+  reason: string,
+  meta: Record<string, any>
+): Promise<{ placed: boolean; available?: number }> {
+  const params = { reason, ttlMs: env.creditHoldTtlMinutes * 60 * 1000, meta };
+  try {
+    let result = await creditHoldsRepository.placeHold(billingUid, key, cost, balance, params);
+    if (!result.placed) {
+      // Holds abandoned by crashed requests may still be counted; expire them and retry once
+      const expired = await creditHoldsRepository.expireStaleHoldsForUser(billingUid);
+      if (expired > 0) {
+        result = await creditHoldsRepository.placeHold(billingUid, key, cost, balance, params);
+      }
+    }
+    return { placed: result.placed, available: result.available };
+  } catch (e: any) {
+    console.error('[CREDIT_HOLD] Failed to place hold, refusing request:', e?.message || e);
+    throw new ApiError('Credit reservation is temporarily unavailable. Please try again shortly.', 503, {
+      code: 'CREDIT_HOLD_UNAVAILABLE',
+    });
+  }
+}
+
+/**
+ * Free the slot once the response is out, unless the request queued a generation that is still
+ * running: generationHistoryRepository.update frees it when that item completes or fails.
+ */
+async function releaseSlotAfterResponse(slot: ActiveGenerationSlot, statusCode: number): Promise<void> {
+  try {
+    if (statusCode < 400 && slot.histories.length > 0) {
+      const items = await Promise.all(
+        slot.histories.map(({ uid, historyId }) => generationHistoryRepository.get(uid, historyId).catch(() => null))
+      );
+      const running = items.some((item) => item?.status === GenerationStatus.Generating);
+      if (running) return;
+    }
+    await generationSlotService.releaseSlot(slot.uid, slot.id);
+  } catch (e: any) {
+    console.warn('[GENERATION_SLOTS] Failed to settle slot after response:', e?.message || e);
+  }
+}
+
+/**
+ * Take one of the actor's in-flight generation slots (PlanLimits.concurrentGenerations).
+ * Answers 429 and returns null when all of them are in use.
+ */
+async function takeGenerationSlot(res: Response, actorUid: string, planCode: string): Promise<ActiveGenerationSlot | null> {
+  const maxConcurrent = getPlanLimits(planCode).concurrentGenerations;
+  const slot: ActiveGenerationSlot = { uid: actorUid, id: randomUUID(), histories: [] };
+  const { acquired, inFlight } = await generationSlotService.acquireSlot(actorUid, slot.id, maxConcurrent);
+  if (!acquired) {
+    res.status(429).json({
+      responseStatus: 'error',
+      message: 'Too many generations in progress. Wait for one to finish and try again.',
+      data: {
+        code: 'CONCURRENT_GENERATION_LIMIT',
+        limit: 'concurrentGenerations',
+        planCode,
+        maxConcurrent,
+        inFlight,
+      },
+    });
+    return null;
+  }
+
+  let settled = false;
+  const settle = () => {
+    if (settled) return;
+    settled = true;
+    void releaseSlotAfterResponse(slot, res.statusCode);
+  };
+  res.on('finish', settle);
+  res.on('close', settle);
+  return slot;
+}
+
 export function makeCreditCost(provider: string, operation: string, computeCost: CostComputer) {
-  return async (req: Request, res: Response, next: NextFunction) => {
+  const spec: CreditCostSpec = { provider, operation, computeCost };
+  const middleware = async (req: Request, res: Response, next: NextFunction) => {
     try {
       const actorUid = (req as any).uid;
       if (!actorUid) throw new ApiError('Unauthorized', 401);
-      const billingUid = provider === 'canvas'
-        ? await resolveCanvasBillingUid(req, actorUid)
-        : actorUid;
-
-      const { cost, pricingVersion, meta } = await computeCost(req);
+      const { billingUid, cost, pricingVersion, meta } = await computeCreditCharge(spec, req, actorUid);
       // Ensure user doc exists and is on launch plan (one-time migration if needed)
       await creditsService.ensureUserInit(billingUid);
-      await creditsService.ensureLaunchDailyReset(billingUid);
+      const { creditBalance, planCode } = await creditsService.ensureLaunchDailyReset(billingUid);
+      // The concurrency cap follows the actor's plan, also when a canvas owner is billed
+      const actorPlanCode = billingUid === actorUid ? planCode : await creditsService.getCachedPlanCode(actorUid);
       
       // Skip balance check if cost is 0 (free models like z-image-turbo)
       if (cost === 0) {
+        const slot = await takeGenerationSlot(res, actorUid, actorPlanCode);
+        if (!slot) return;
         const idempotencyKey = randomUUID();
         (req as any).context = {
           creditCost: 0,
@@ -56,7 +188,7 @@ export function makeCreditCost(provider: string, operation: string, computeCost:
           billingUid,
           actorUid,
         };
-        return next();
+        return runWithGenerationSlot(slot, () => next());
       }
       
       // Centralized validation (credits + special bypass logic + optional storage)
@@ -83,21 +215,54 @@ export function makeCreditCost(provider: string, operation: string, computeCost:
         });
       }
 
+      const slot = await takeGenerationSlot(res, actorUid, actorPlanCode);
+      if (!slot) return;
+
       const idempotencyKey = randomUUID();
+      const reason = `${provider}.${operation}`;
+      const hold = await reserveCredits(billingUid, idempotencyKey, cost, Number(creditBalance) || 0, reason, {
+        ...(meta || {}),
+        actorUid,
+        pricingVersion,
+      });
+      if (!hold.placed) {
+        return res.status(402).json({
+          responseStatus: 'error',
+          message: 'Insufficient credits: part of your balance is reserved by generations still in progress',
+          data: {
+            requiredCredits: cost,
+            availableCredits: Math.max(0, hold.available ?? 0),
+            code: 'INSUFFICIENT_CREDITS',
+            suggestion: 'Wait for running generations to finish or buy more credits',
+          },
+        });
+      }
+
       (req as any).context = {
         creditCost: cost,
-        reason: `${provider}.${operation}`,
+        reason,
         idempotencyKey,
+        holdKey: idempotencyKey,
         pricingVersion,
         meta,
         billingUid,
         actorUid,
       };
-      next();
+
+      // Failed responses never debit, so give the reservation back. Captured holds are left untouched.
+      res.on('finish', () => {
+        if (res.statusCode < 400) return;
+        creditHoldsRepository.settleHold(billingUid, idempotencyKey, 'RELEASED').catch((e: any) => {
+          console.warn('[CREDIT_HOLD] Failed to release hold after error response:', e?.message || e);
+        });
+      });
+
+      runWithGenerationSlot(slot, () => runWithCreditHold({ key: idempotencyKey, billingUid }, () => next()));
     } catch (e) {
       next(e);
     }
   };
+  return Object.assign(middleware, { [CREDIT_COST_SPEC]: spec });
 }
 
 
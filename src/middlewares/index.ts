@@ -11,6 +11,7 @@ export * from "./creditCostFactory";
 export * from "./ipFirewall";
 export * from "./logger";
 export * from "./moderationGuard";
+export * from "./permissionMiddleware";
 export * from "./rateLimiter";
 export * from "./security";
 
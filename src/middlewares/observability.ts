@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction } from 'express';
+import { context, propagation, trace, Span, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { httpRequestDuration } from '../utils/metrics';
+import { tracer } from '../utils/tracing';
+import { runWithRequestId } from '../utils/requestContext';
+
+/**
+ * Request telemetry: latency histogram per route template and a SERVER span per request.
+ *
+ * requestTelemetry is mounted right after requestId so the timing covers every middleware.
+ * bindRequestContext is mounted just before the routes: body parsers resume the chain from
+ * stream callbacks that drop async context, so the span and request id are re-entered there
+ * for the handlers and the outbound calls they make.
+ */
+
+const spanByRequest = new WeakMap<Request, Span>();
+
+// Express route template, e.g. /api/fal/queue/status/:requestId; never the raw URL (label cardinality)
+function routeLabel(req: Request): string {
+  const routePath = (req as any).route?.path;
+  if (typeof routePath !== 'string') return 'unmatched';
+  return `${req.baseUrl || ''}${routePath}` || '/';
+}
+
+export const requestTelemetry = (req: Request, res: Response, next: NextFunction) => {
+  const requestId = String(req.requestId || '');
+  const parentContext = propagation.extract(context.active(), req.headers);
+  const span = tracer.startSpan(
+    `${req.method} ${req.path}`,
+    {
+      kind: SpanKind.SERVER,
+      attributes: {
+        'http.request.method': req.method,
+        'url.path': req.path,
+        'request.id': requestId,
+      },
+    },
+    parentContext
+  );
+  const startedAt = process.hrtime.bigint();
+  spanByRequest.set(req, span);
+
+  let recorded = false;
+  const record = () => {
+    if (recorded) return;
+    recorded = true;
+    const route = routeLabel(req);
+    // A client that disconnects before the response is sent is recorded as 499
+    const statusCode = res.writableFinished ? res.statusCode : 499;
+    const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+    httpRequestDuration.observe({ method: req.method, route, status_code: String(statusCode) }, seconds);
+
+    span.updateName(`${req.method} ${route}`);
+    span.setAttribute('http.route', route);
+    span.setAttribute('http.response.status_code', statusCode);
+    if (statusCode >= 500) span.setStatus({ code: SpanStatusCode.ERROR });
+    span.end();
+  };
+  res.on('finish', record);
+  res.on('close', record);
+
+  context.with(trace.setSpan(parentContext, span), () => runWithRequestId(requestId, next));
+};
+
+export const bindRequestContext = (req: Request, _res: Response, next: NextFunction) => {
+  const span = spanByRequest.get(req);
+  if (!span) return next();
+  const requestId = String(req.requestId || '');
+  context.with(trace.setSpan(context.active(), span), () => runWithRequestId(requestId, next));
+};
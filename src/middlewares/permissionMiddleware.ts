@@ -0,0 +1,150 @@
+/**
+ * Permission Middleware
+ *
+ * Gates privileged routes (template admin, redeem code minting, subscription cron,
+ * canvas workers) on the caller's roles and writes an audit entry for every call.
+ *
+ * Roles are read from users/{uid}.metadata.roles and carried in the cached session.
+ * Cached roles are re-read after ROLE_CACHE_TTL_MS so role changes take effect quickly
+ * without a Firestore read on every privileged request.
+ *
+ * Usage: Place AFTER requireAuth (uid must already be set on req).
+ *   router.post('/', requireAuth, requirePermission('templates:write'), handler)
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { ApiError } from "../utils/errorHandler";
+import { getCachedSession, updateCachedSessionRoles } from "../utils/sessionStore";
+import { authRepository } from "../repository/auth/authRepository";
+import { adminAuditRepository } from "../repository/adminAuditRepository";
+import {
+  Permission,
+  hasPermission,
+  normalizeRoles,
+} from "../config/rolePermissions";
+import type { UserRole } from "../types/authTypes";
+import "../types/http";
+
+// Same window as the moderation cache: role changes apply within 5 minutes
+const ROLE_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Resolve the caller's roles: request → cached session → users/{uid}.
+ */
+export async function resolveUserRoles(req: Request): Promise<UserRole[]> {
+  if (req.roles) return req.roles;
+
+  const token = req.verifiedAuthToken;
+  if (token) {
+    try {
+      const cached = await getCachedSession(token);
+      if (
+        cached?.uid === req.uid &&
+        cached.roles &&
+        cached.rolesCheckedAt &&
+        Date.now() - cached.rolesCheckedAt < ROLE_CACHE_TTL_MS
+      ) {
+        req.roles = normalizeRoles(cached.roles);
+        return req.roles;
+      }
+    } catch {
+      // Cache miss or error — fall through to Firestore
+    }
+  }
+
+  const roles = await authRepository.getUserRoles(req.uid);
+  req.roles = roles;
+
+  if (token) {
+    try {
+      await updateCachedSessionRoles(token, roles);
+    } catch {
+      // Non-fatal
+    }
+  }
+
+  return roles;
+}
+
+function auditOnFinish(
+  req: Request,
+  res: Response,
+  permission: Permission,
+  roles: UserRole[],
+) {
+  const startedAt = Date.now();
+  res.on("finish", () => {
+    void adminAuditRepository.recordAuditEntry({
+      uid: req.uid,
+      roles,
+      permission,
+      outcome: "allowed",
+      method: req.method,
+      path: req.originalUrl,
+      params: req.params,
+      query: req.query as Record<string, any>,
+      statusCode: res.statusCode,
+      durationMs: Date.now() - startedAt,
+      requestId: req.requestId,
+      ip: req.ip,
+      userAgent: req.get("user-agent") || undefined,
+    });
+  });
+}
+
+/**
+ * requirePermission — Express middleware factory.
+ *
+ * Passes when any of the caller's roles grants the permission; otherwise 403.
+ * Both granted and denied attempts are recorded in adminAuditLogs.
+ */
+export function requirePermission(permission: Permission) {
+  return async function permissionGuard(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ) {
+    try {
+      if (!req.uid) {
+        throw new ApiError("Unauthorized", 401);
+      }
+
+      const roles = await resolveUserRoles(req);
+
+      if (!hasPermission(roles, permission)) {
+        console.warn(`[RBAC] 🚫 Permission denied: ${permission}`, {
+          uid: req.uid,
+          roles,
+          path: req.originalUrl,
+        });
+        void adminAuditRepository.recordAuditEntry({
+          uid: req.uid,
+          roles,
+          permission,
+          outcome: "denied",
+          method: req.method,
+          path: req.originalUrl,
+          statusCode: 403,
+          requestId: req.requestId,
+          ip: req.ip,
+          userAgent: req.get("user-agent") || undefined,
+        });
+        throw new ApiError(
+          "Forbidden - You do not have permission to perform this action",
+          403,
+          { permission },
+          "FORBIDDEN",
+        );
+      }
+
+      auditOnFinish(req, res, permission, roles);
+      return next();
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return next(error);
+      }
+      console.error("[RBAC] Unexpected error resolving roles:", error);
+      return next(new ApiError("Failed to verify permissions", 500));
+    }
+  };
+}
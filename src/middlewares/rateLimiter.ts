@@ -3,14 +3,94 @@
  * 
  * Different limits for different endpoint types:
  * - WebSocket traffic: Not rate limited
- * - Generation endpoints: 30 requests/min
+ * - Generation, API and polling endpoints: per user, quotas by plan (config/planLimits);
+ *   per IP for callers that are not signed in
  * - Auth endpoints: 5 attempts/15min
- * - Global: 300 requests/min
+ * - Global: 300 requests/min per IP
  */
 
-import rateLimit from 'express-rate-limit';
+import { Request, Response, NextFunction } from 'express';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
 import RedisStore from 'rate-limit-redis';
 import { getRedisClient, isRedisEnabled } from '../config/redisClient';
+import { DEFAULT_API_KEY_RATE_LIMIT } from '../config/apiKeyScopes';
+import { ANONYMOUS_LIMITS, getPlanLimits, PlanLimits } from '../config/planLimits';
+import { apiKeyService, looksLikeApiKey } from '../services/auth/apiKeyService';
+import { creditsService } from '../services/creditsService';
+import { peekCachedSessionUid } from '../utils/sessionStore';
+
+type PlanRateLimit = 'generationsPerMinute' | 'apiRequestsPerMinute' | 'pollingRequestsPerMinute';
+
+/**
+ * Identify the caller for the per-user limiters. These run before requireAuth, so the uid comes
+ * from the session cache or API key cache only: a token this server has already verified. A new
+ * or unknown token is counted against its IP until requireAuth has verified it once.
+ */
+async function resolveSubjectUid(req: Request): Promise<string | null> {
+  if (req.uid) return req.uid;
+  const authHeader = req.headers.authorization;
+  const bearer = authHeader && /^Bearer\s+/i.test(authHeader) ? authHeader.replace(/^Bearer\s+/i, '').trim() : undefined;
+  if (looksLikeApiKey(bearer)) return apiKeyService.peekApiKeyUid(bearer as string);
+  const token = req.cookies?.['app_session'] || bearer;
+  return token ? peekCachedSessionUid(token) : null;
+}
+
+/**
+ * Attach req.rateLimitSubject (uid and plan, or IP) for the limiters below. GETs are resolved too:
+ * status polling is counted per user by pollingLimiter. Every lookup is served from a cache (session,
+ * API key, plan code), so this stays cheap on read traffic. Lookup failures fall back to the IP.
+ */
+export async function resolveRateLimitSubject(req: Request, _res: Response, next: NextFunction) {
+  // CORS preflights carry no credentials and are not limited
+  if (req.method === 'OPTIONS') return next();
+  try {
+    const uid = await resolveSubjectUid(req);
+    if (uid) {
+      const planCode = await creditsService.getCachedPlanCode(uid);
+      req.rateLimitSubject = { key: `uid:${uid}`, uid, planCode };
+      return next();
+    }
+  } catch (e: any) {
+    console.warn('[Rate Limiter] Failed to resolve caller, limiting by IP:', e?.message || e);
+  }
+  req.rateLimitSubject = { key: `ip:${ipKeyGenerator(req.ip || '')}` };
+  next();
+}
+
+function subjectKey(req: Request): string {
+  return req.rateLimitSubject?.key || `ip:${ipKeyGenerator(req.ip || '')}`;
+}
+
+function subjectLimit(req: Request, quota: PlanRateLimit): number {
+  const subject = req.rateLimitSubject;
+  return subject?.uid ? getPlanLimits(subject.planCode)[quota] : ANONYMOUS_LIMITS[quota];
+}
+
+/** 429 naming the limit that tripped, who it was counted for and when to retry. */
+function planLimitExceeded(limit: string, quota: keyof PlanLimits, message: string) {
+  return (req: Request, res: Response) => {
+    const info = (req as any).rateLimit as { limit?: number; resetTime?: Date } | undefined;
+    const retryAfterSeconds = info?.resetTime
+      ? Math.max(1, Math.ceil((new Date(info.resetTime).getTime() - Date.now()) / 1000))
+      : 60;
+    const subject = req.rateLimitSubject;
+
+    res.setHeader('Retry-After', String(retryAfterSeconds));
+    res.status(429).json({
+      status: 'error',
+      message,
+      data: {
+        code: 'RATE_LIMITED',
+        limit,
+        quota,
+        scope: subject?.uid ? 'user' : 'ip',
+        planCode: subject?.planCode ?? null,
+        limitPerMinute: info?.limit,
+        retryAfterSeconds,
+      },
+    });
+  };
+}
 
 // Global rate limiter - fallback for all routes
 export const globalLimiter = rateLimit({
@@ -35,10 +115,12 @@ export const globalLimiter = rateLimit({
     // Skip specific high-frequency POST endpoints:
     // 1. Bulk status checks (feed scrolling)
     // 2. Like/Bookmark toggles (keyboard navigation can trigger these rapidly)
+    // 3. Provider webhooks (bursts from a handful of provider IPs; authenticated by signature)
     if (req.originalUrl) {
       if (req.originalUrl.includes('/bulk-status')) return true;
       if (req.originalUrl.includes('/engagement/like')) return true;
       if (req.originalUrl.includes('/engagement/bookmark')) return true;
+      if (req.originalUrl.startsWith('/api/webhooks/')) return true;
     }
     
     // Skip WebSocket upgrade requests
@@ -76,14 +158,12 @@ export const authLimiter = rateLimit({
   })
 });
 
-// Generation endpoints - moderate limit
+// Generation endpoints - per user, PlanLimits.generationsPerMinute
 export const generationLimiter = rateLimit({
   windowMs: 60 * 1000, // 1 minute
-  max: 30, // 30 generations per minute
-  message: {
-    status: 'error',
-    message: 'Generation rate limit exceeded, please slow down'
-  },
+  limit: (req) => subjectLimit(req, 'generationsPerMinute'),
+  keyGenerator: subjectKey,
+  handler: planLimitExceeded('generation', 'generationsPerMinute', 'Generation rate limit exceeded, please slow down'),
   standardHeaders: true,
   legacyHeaders: false,
   skip: (req) => {
@@ -91,7 +171,6 @@ export const generationLimiter = rateLimit({
     if (req.method === 'GET') return true;
     return false;
   },
-  // Note: Using default keyGenerator which properly handles IPv6
   ...(isRedisEnabled() && {
     store: new RedisStore({
       sendCommand: (...args: string[]) => getRedisClient()!.sendCommand(args),
@@ -100,14 +179,12 @@ export const generationLimiter = rateLimit({
   })
 });
 
-// API endpoints - standard limit
+// API endpoints - per user, PlanLimits.apiRequestsPerMinute
 export const apiLimiter = rateLimit({
   windowMs: 60 * 1000, // 1 minute
-  max: 1000, // INCREASED: 1000 requests per minute
-  message: {
-    status: 'error',
-    message: 'API rate limit exceeded'
-  },
+  limit: (req) => subjectLimit(req, 'apiRequestsPerMinute'),
+  keyGenerator: subjectKey,
+  handler: planLimitExceeded('api', 'apiRequestsPerMinute', 'API rate limit exceeded'),
   standardHeaders: true,
   legacyHeaders: false,
   skip: (req) => {
@@ -125,7 +202,6 @@ export const apiLimiter = rateLimit({
 
     return false;
   },
-  // Note: Using default keyGenerator which properly handles IPv6
   ...(isRedisEnabled() && {
     store: new RedisStore({
       sendCommand: (...args: string[]) => getRedisClient()!.sendCommand(args),
@@ -134,30 +210,57 @@ export const apiLimiter = rateLimit({
   })
 });
 
-// Polling endpoints - Very high limit (5000 req/min) for status checks
-// effectively disabled for polling
+// Polling endpoints - per user, PlanLimits.pollingRequestsPerMinute (thousands per minute)
 export const pollingLimiter = rateLimit({
   windowMs: 60 * 1000, // 1 minute
-  max: 5000, // INCREASED: 5000 requests per minute
-  message: {
-    status: 'error',
-    message: 'Polling rate limit exceeded'
-  },
+  limit: (req) => subjectLimit(req, 'pollingRequestsPerMinute'),
+  keyGenerator: subjectKey,
+  handler: planLimitExceeded('polling', 'pollingRequestsPerMinute', 'Polling rate limit exceeded'),
   standardHeaders: true,
   legacyHeaders: false,
-  // Note: Using default keyGenerator which properly handles IPv6
   ...(isRedisEnabled() && {
     store: new RedisStore({
       sendCommand: (...args: string[]) => getRedisClient()!.sendCommand(args),
       prefix: 'rl:poll:'
     })
   }),
-  skip: (req) => {
-    // Skip all GET requests (polling is usually GET)
-    if (req.method === 'GET') return true;
-    // Skip WebSocket upgrade requests
-    return req.headers.upgrade === 'websocket';
-  }
+  // Polling is usually GET, so GETs count here (unlike the other limiters)
+  skip: (req) => req.headers.upgrade === 'websocket'
+});
+
+// Personal API keys - per-key budget (ApiKeyRecord.rateLimitPerMinute), counted per key
+// rather than per IP so CI runners behind shared egress do not starve each other.
+// Invoked by requireAuth once the key is verified; no-op for session/ID-token callers.
+export const apiKeyLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  limit: (req) => req.apiKey?.rateLimitPerMinute || DEFAULT_API_KEY_RATE_LIMIT,
+  keyGenerator: (req) => `key:${req.apiKey?.id}`,
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: (req) => !req.apiKey,
+  handler: (req, res) => {
+    const resetTime = (req as any).rateLimit?.resetTime as Date | undefined
+    const retryAfterSeconds = resetTime
+      ? Math.max(1, Math.ceil((new Date(resetTime).getTime() - Date.now()) / 1000))
+      : 60
+
+    res.setHeader('Retry-After', String(retryAfterSeconds))
+    res.status(429).json({
+      status: 'error',
+      message: 'API key rate limit exceeded',
+      data: {
+        keyId: req.apiKey?.id,
+        limitPerMinute: req.apiKey?.rateLimitPerMinute,
+        retryAfterSeconds,
+      },
+    })
+  },
+  ...(isRedisEnabled() && {
+    store: new RedisStore({
+      sendCommand: (...args: string[]) => getRedisClient()!.sendCommand(args),
+      prefix: 'rl:apikey:'
+    })
+  })
 });
 
 
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { validationResult, body, query } from 'express-validator';
 import { ApiError } from '../utils/errorHandler';
 import { validateEmail } from '../utils/emailValidator';
+import { API_KEY_SCOPES, MAX_API_KEY_RATE_LIMIT, isApiKeyScope } from '../config/apiKeyScopes';
 
 function normalizeForPasswordComparison(value?: string): string {
   return String(value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
@@ -272,3 +273,53 @@ export const validateCheckUsername = [
     next();
   }
 ];
+
+const apiKeyScopeList = API_KEY_SCOPES.join(', ');
+
+export const validateCreateApiKey = [
+  body('name').isString().trim().isLength({ min: 1, max: 64 }).withMessage('name must be 1-64 characters'),
+  body('scopes').isArray({ min: 1 }).withMessage(`scopes must be a non-empty array of: ${apiKeyScopeList}`),
+  body('scopes.*').custom(isApiKeyScope).withMessage(`Unknown scope; allowed: ${apiKeyScopeList}`),
+  body('rateLimitPerMinute')
+    .optional()
+    .isInt({ min: 1, max: MAX_API_KEY_RATE_LIMIT })
+    .withMessage(`rateLimitPerMinute must be between 1 and ${MAX_API_KEY_RATE_LIMIT}`)
+    .toInt(),
+  (req: Request, _res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new ApiError('Validation failed', 400, errors.array()));
+    }
+    next();
+  }
+];
+
+export const validateUpdateApiKey = [
+  body('name').optional().isString().trim().isLength({ min: 1, max: 64 }).withMessage('name must be 1-64 characters'),
+  body('scopes').optional().isArray({ min: 1 }).withMessage(`scopes must be a non-empty array of: ${apiKeyScopeList}`),
+  body('scopes.*').custom(isApiKeyScope).withMessage(`Unknown scope; allowed: ${apiKeyScopeList}`),
+  body('rateLimitPerMinute')
+    .optional()
+    .isInt({ min: 1, max: MAX_API_KEY_RATE_LIMIT })
+    .withMessage(`rateLimitPerMinute must be between 1 and ${MAX_API_KEY_RATE_LIMIT}`)
+    .toInt(),
+  (req: Request, _res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new ApiError('Validation failed', 400, errors.array()));
+    }
+    next();
+  }
+];
+
+// DELETE /api/auth/me must be confirmed explicitly so a stray request cannot schedule it
+export const validateDeleteAccount = [
+  body('confirm').equals('DELETE').withMessage('confirm must be "DELETE"'),
+  (req: Request, _res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new ApiError('Validation failed', 400, errors.array()));
+    }
+    next();
+  }
+];
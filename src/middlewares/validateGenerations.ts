@@ -60,6 +60,20 @@ export const validateListGenerations = [
   query('mode').optional().isIn(['video','image','music','branding','all']),
 ];
 
+// Bulk ZIP export: explicit historyIds or a listUserGenerations-style filter
+export const validateExportGenerations = [
+  body('historyIds').optional().isArray({ min: 1, max: 1000 }),
+  body('historyIds.*').optional().isString().isLength({ min: 1, max: 200 }),
+  body('filter').optional().isObject(),
+  body('filter.status').optional().isIn(['generating','completed','failed']),
+  body('filter.generationType').optional().custom((v) => typeof v === 'string' || (Array.isArray(v) && v.every((t) => typeof t === 'string'))),
+  body('filter.mode').optional().isIn(['video','image','music','branding','all']),
+  body('filter.search').optional().isString().trim().isLength({ max: 200 }),
+  body('filter.dateStart').optional().isISO8601(),
+  body('filter.dateEnd').optional().isISO8601(),
+  body().custom((b) => !(b?.historyIds && b?.filter)).withMessage('Provide either historyIds or filter, not both'),
+];
+
 export function handleValidationErrors(req: Request, res: Response, next: NextFunction) {
   const result = validationResult(req);
   if (!result.isEmpty()) {
@@ -4,55 +4,22 @@ import { ApiError } from "../../../utils/errorHandler";
 import { probeVideoMeta } from "../../../utils/media/probe";
 import { probeImageMeta } from "../../../utils/media/imageProbe";
 import { uploadDataUriToZata } from "../../../utils/storage/zataUpload";
+import { findRouteModel, getModel, getRouteModelKeys } from "../../../data/modelRegistry";
 
-export const ALLOWED_FAL_MODELS = [
-  "openai/gpt-image-2",
-  "gemini-25-flash-image",
-  "seedream-v4",
-  "seedream-4.5",
-  "seedance-2.0",
-  "bytedance/seedance-2.0/text-to-video",
-  "bytedance/seedance-2.0/image-to-video",
-  "bytedance/seedance-2.0/reference-to-video",
-  "bytedance/seedance-2.0/fast/text-to-video",
-  "bytedance/seedance-2.0/fast/image-to-video",
-  "bytedance/seedance-2.0/fast/reference-to-video",
-  // Imagen 4 image generation variants (frontend model keys)
-  "imagen-4-ultra",
-  "imagen-4",
-  "imagen-4-fast",
-  // Flux 2 Pro
-  "flux-2-pro",
-  // Google Nano Banana Pro
-  "google/nano-banana-pro",
-  "nano-banana-pro",
-  // ElevenLabs / text-to-dialogue variants // all will call same model
-  "eleven-v3",
-  "elevenlabs-dialogue",
-  "elevenlabs-text-to-dialogue",
-  "elevenlabs-text-to-dialogue-eleven-v3",
-  // Google Nano Banana 2
-  "google/nano-banana-2",
-  // ElevenLabs TTS variants // all will call same model but this is text to speech
-  "elevenlabs-tts",
-  "elevenlabs-tts-eleven-v3",
-  "elevenlabs-sfx",
-  // Maya TTS variants
-  "maya",
-  "maya-tts",
-  "maya-1-voice",
-  // Chatterbox multilingual TTS
-  "chatterbox-text-to-speech-multilingual",
-  "chatterbox-multilingual",
-  // Chatterbox speech-to-speech (resemble-ai)
-  "resemble-ai/chatterboxhd/speech-to-speech",
-  "chatterbox-sts",
-  // Qwen Image Edit Multiple Angles
-  "qwen-image-edit-2511-multiple-angles",
-  "qwen-multiple-angles",
-  "qwen-image-edit-multiple-angles",
-  "openai/gpt-image-2",
-];
+// Option lists shared with the model catalog (GET /api/models)
+const VEO_3 = getModel("veo-3");
+const VEO_31 = getModel("veo-3.1");
+const SORA_2 = getModel("sora-2");
+const SORA_2_PRO = getModel("sora-2-pro");
+const LTX_V2 = getModel("ltx-v2-pro");
+const SEEDANCE_2 = getModel("seedance-2.0");
+const SEEDANCE_2_FAST = getModel("seedance-2.0-fast");
+const NANO_BANANA_PRO = getModel("google/nano-banana-pro");
+
+const FAL_GENERATE = "fal/generate";
+
+// `model` keys /fal/generate accepts (ModelDefinition.routeKeys)
+export const ALLOWED_FAL_MODELS = getRouteModelKeys(FAL_GENERATE);
 
 export const validateFalGenerate = [
   // Make prompt optional at the base validator level; enforce conditionally below
@@ -75,80 +42,16 @@ export const validateFalGenerate = [
     ])
     .withMessage("invalid generationType"),
   body("model").isString().isIn(ALLOWED_FAL_MODELS),
-  // google/nano-banana-2: auto + extreme ratios; gemini-25-flash-image: fixed enum (no auto); nano-banana-pro: auto + fixed enum; others: legacy + match_input_image.
+  // Each model accepts the aspect ratios / resolutions listed in its registry entry
   body("aspect_ratio")
     .optional()
     .custom((value, { req }) => {
       const v = String(value ?? "").trim();
       if (!v) return true;
-      const model = String(req.body?.model || "").toLowerCase();
-      const isNanoBanana2 =
-        model.includes("google/nano-banana-2") ||
-        (model.includes("nano-banana-2") && !model.includes("nano-banana-pro"));
-      const isGemini25Flash = model.includes("gemini-25-flash-image");
-      const isNanoBananaPro =
-        model.includes("google/nano-banana-pro") ||
-        model.includes("nano-banana-pro");
-      const nanoBanana2Ratios = new Set([
-        "auto",
-        "21:9",
-        "16:9",
-        "3:2",
-        "4:3",
-        "5:4",
-        "1:1",
-        "4:5",
-        "3:4",
-        "2:3",
-        "9:16",
-        "4:1",
-        "1:4",
-        "8:1",
-        "1:8",
-      ]);
-      const geminiFlashRatios = new Set([
-        "21:9",
-        "16:9",
-        "3:2",
-        "4:3",
-        "5:4",
-        "1:1",
-        "4:5",
-        "3:4",
-        "2:3",
-        "9:16",
-      ]);
-      const nanoBananaProRatios = new Set([
-        "auto",
-        "21:9",
-        "16:9",
-        "3:2",
-        "4:3",
-        "5:4",
-        "1:1",
-        "4:5",
-        "3:4",
-        "2:3",
-        "9:16",
-      ]);
-      const generalRatios = new Set([
-        "21:9",
-        "16:9",
-        "3:2",
-        "4:3",
-        "5:4",
-        "1:1",
-        "4:5",
-        "3:4",
-        "2:3",
-        "9:16",
-        "match_input_image",
-      ]);
-      if (isNanoBanana2) return nanoBanana2Ratios.has(v);
-      if (isGemini25Flash) return geminiFlashRatios.has(v);
-      if (isNanoBananaPro) return nanoBananaProRatios.has(v);
-      return generalRatios.has(v);
-    }),
+      const model = findRouteModel(FAL_GENERATE, req.body?.model);
+      return (model?.aspectRatios || []).includes(v);
+    })
+    .withMessage("invalid aspect_ratio for this model"),
   body("image_size")
     .optional()
     .custom((value) => {
@@ -199,19 +102,11 @@ export const validateFalGenerate = [
     .custom((value, { req }) => {
       const v = String(value ?? "").trim();
       if (!v) return true;
-      const model = String(req.body?.model || "").toLowerCase();
-      const isNanoBanana2 =
-        model.includes("google/nano-banana-2") ||
-        (model.includes("nano-banana-2") && !model.includes("nano-banana-pro"));
-      const isGemini25Flash = model.includes("gemini-25-flash-image");
-      // Gemini 25 Flash image API does not take resolution; reject if client sends it.
-      if (isGemini25Flash) return false;
-      if (isNanoBanana2) return ["0.5K", "1K", "2K", "4K"].includes(v);
-      return ["1K", "2K", "4K"].includes(v);
+      const model = findRouteModel(FAL_GENERATE, req.body?.model);
+      // Models without resolutions (e.g. gemini-25-flash-image) do not take one
+      return (model?.resolutions || []).includes(v);
     })
-    .withMessage(
-      "invalid resolution for this model (omit for gemini-25-flash-image; Nano Banana 2: 0.5K–4K; others: 1K–4K)",
-    ),
+    .withMessage("invalid resolution for this model"),
   body("seed").optional().isInt(),
   body("negative_prompt").optional().isString(),
   body("thinking_level").optional().isIn(["minimal", "high"]),
@@ -424,13 +319,13 @@ export const validateFalChatterboxSts = [
 // Veo3 Text-to-Video (standard and fast)
 export const validateFalVeoTextToVideo = [
   body("prompt").isString().notEmpty(),
-  body("aspect_ratio").optional().isIn(["16:9", "9:16", "1:1"]),
-  body("duration").optional().isIn(["4s", "6s", "8s"]),
+  body("aspect_ratio").optional().isIn(VEO_3.aspectRatios || []),
+  body("duration").optional().isIn(VEO_3.durations || []),
   body("negative_prompt").optional().isString(),
   body("enhance_prompt").optional().isBoolean(),
   body("seed").optional().isInt(),
   body("auto_fix").optional().isBoolean(),
-  body("resolution").optional().isIn(["720p", "1080p"]),
+  body("resolution").optional().isIn(VEO_3.resolutions || []),
   body("generate_audio").optional().isBoolean(),
   (req: Request, _res: Response, next: NextFunction) => {
     const errors = validationResult(req);
@@ -446,13 +341,13 @@ export const validateFalVeoTextToVideoFast = validateFalVeoTextToVideo;
 // Note: Veo 3.1 queue submit currently rejects "1:1" and only accepts auto, 16:9, 9:16.
 export const validateFalVeo31TextToVideo = [
   body("prompt").isString().notEmpty(),
-  body("aspect_ratio").optional().isIn(["auto", "16:9", "9:16"]),
-  body("duration").optional().isIn(["4s", "6s", "8s"]),
+  body("aspect_ratio").optional().isIn(VEO_31.aspectRatios || []),
+  body("duration").optional().isIn(VEO_31.durations || []),
   body("negative_prompt").optional().isString(),
   body("enhance_prompt").optional().isBoolean(),
   body("seed").optional().isInt(),
   body("auto_fix").optional().isBoolean(),
-  body("resolution").optional().isIn(["720p", "1080p", "4k"]),
+  body("resolution").optional().isIn(VEO_31.resolutions || []),
   body("generate_audio").optional().isBoolean(),
   (req: Request, _res: Response, next: NextFunction) => {
     const errors = validationResult(req);
@@ -1214,12 +1109,12 @@ export const validateFalSora2I2v = [
   body("image_url").isString().notEmpty().withMessage("image_url is required"),
   body("resolution")
     .optional({ nullable: true, checkFalsy: false })
-    .isIn(["auto", "720p"])
-    .withMessage("resolution must be auto or 720p"),
+    .isIn(["auto", ...(SORA_2.resolutions || [])])
+    .withMessage(`resolution must be auto, ${(SORA_2.resolutions || []).join(", ")}`),
   body("aspect_ratio")
     .optional({ nullable: true, checkFalsy: false })
-    .isIn(["auto", "16:9", "9:16"])
-    .withMessage("aspect_ratio must be auto, 16:9, or 9:16"),
+    .isIn(["auto", ...(SORA_2.aspectRatios || [])])
+    .withMessage(`aspect_ratio must be auto, ${(SORA_2.aspectRatios || []).join(", ")}`),
   body("duration")
     .optional({ nullable: true, checkFalsy: false })
     .custom((value) => {
@@ -1227,9 +1122,9 @@ export const validateFalSora2I2v = [
       const numValue =
         typeof value === "number" ? value : parseInt(String(value), 10);
       if (isNaN(numValue)) return false;
-      return [4, 8, 12].includes(numValue);
+      return (SORA_2.durations || []).map(Number).includes(numValue);
     })
-    .withMessage("duration must be 4, 8, or 12"),
+    .withMessage(`duration must be ${(SORA_2.durations || []).join(", ")}`),
   body("api_key").optional({ nullable: true, checkFalsy: false }).isString(),
   body("originalPrompt")
     .optional({ nullable: true, checkFalsy: false })
@@ -1251,12 +1146,12 @@ export const validateFalSora2ProI2v = [
   body("image_url").isString().notEmpty().withMessage("image_url is required"),
   body("resolution")
     .optional({ nullable: true, checkFalsy: false })
-    .isIn(["auto", "720p", "1080p"])
-    .withMessage("resolution must be auto, 720p, or 1080p"),
+    .isIn(["auto", ...(SORA_2_PRO.resolutions || [])])
+    .withMessage(`resolution must be auto, ${(SORA_2_PRO.resolutions || []).join(", ")}`),
   body("aspect_ratio")
     .optional({ nullable: true, checkFalsy: false })
-    .isIn(["auto", "16:9", "9:16"])
-    .withMessage("aspect_ratio must be auto, 16:9, or 9:16"),
+    .isIn(["auto", ...(SORA_2_PRO.aspectRatios || [])])
+    .withMessage(`aspect_ratio must be auto, ${(SORA_2_PRO.aspectRatios || []).join(", ")}`),
   body("duration")
     .optional({ nullable: true, checkFalsy: false })
     .custom((value) => {
@@ -1264,9 +1159,9 @@ export const validateFalSora2ProI2v = [
       const numValue =
         typeof value === "number" ? value : parseInt(String(value), 10);
       if (isNaN(numValue)) return false;
-      return [4, 8, 12].includes(numValue);
+      return (SORA_2_PRO.durations || []).map(Number).includes(numValue);
     })
-    .withMessage("duration must be 4, 8, or 12"),
+    .withMessage(`duration must be ${(SORA_2_PRO.durations || []).join(", ")}`),
   body("api_key").optional({ nullable: true, checkFalsy: false }).isString(),
   body("originalPrompt")
     .optional({ nullable: true, checkFalsy: false })
@@ -1321,12 +1216,12 @@ export const validateFalVeo31FirstLast = [
 const validateFalLtx2I2vBase = [
   body("prompt").isString().notEmpty(),
   body("image_url").isString().notEmpty(),
-  body("resolution").optional().isIn(["1080p", "1440p", "2160p"]),
+  body("resolution").optional().isIn(LTX_V2.resolutions || []),
   body("aspect_ratio").optional().isIn(["auto", "16:9", "9:16"]),
   body("duration")
     .optional()
-    .isIn([6, 8, 10])
-    .withMessage("duration must be 6, 8, or 10"),
+    .isIn(LTX_V2.durations || [])
+    .withMessage(`duration must be ${(LTX_V2.durations || []).join(", ")}`),
   body("fps").optional().isIn([25, 50]),
   body("generate_audio").optional().isBoolean(),
   (req: Request, _res: Response, next: NextFunction) => {
@@ -1346,12 +1241,12 @@ export const validateFalSora2T2v = [
   body("prompt").isString().notEmpty().withMessage("prompt is required"),
   body("resolution")
     .optional({ nullable: true, checkFalsy: false })
-    .isIn(["720p"])
-    .withMessage("resolution must be 720p"),
+    .isIn(SORA_2.resolutions || [])
+    .withMessage(`resolution must be ${(SORA_2.resolutions || []).join(" or ")}`),
   body("aspect_ratio")
     .optional({ nullable: true, checkFalsy: false })
-    .isIn(["16:9", "9:16"])
-    .withMessage("aspect_ratio must be 16:9 or 9:16"),
+    .isIn(SORA_2.aspectRatios || [])
+    .withMessage(`aspect_ratio must be ${(SORA_2.aspectRatios || []).join(" or ")}`),
   body("duration")
     .optional({ nullable: true, checkFalsy: false })
     .custom((value) => {
@@ -1359,9 +1254,9 @@ export const validateFalSora2T2v = [
       const numValue =
         typeof value === "number" ? value : parseInt(String(value), 10);
       if (isNaN(numValue)) return false;
-      return [4, 8, 12].includes(numValue);
+      return (SORA_2.durations || []).map(Number).includes(numValue);
     })
-    .withMessage("duration must be 4, 8, or 12"),
+    .withMessage(`duration must be ${(SORA_2.durations || []).join(", ")}`),
   body("api_key").optional({ nullable: true, checkFalsy: false }).isString(),
   body("originalPrompt")
     .optional({ nullable: true, checkFalsy: false })
@@ -1382,12 +1277,12 @@ export const validateFalSora2ProT2v = [
   body("prompt").isString().notEmpty().withMessage("prompt is required"),
   body("resolution")
     .optional({ nullable: true, checkFalsy: false })
-    .isIn(["720p", "1080p"])
-    .withMessage("resolution must be 720p or 1080p"),
+    .isIn(SORA_2_PRO.resolutions || [])
+    .withMessage(`resolution must be ${(SORA_2_PRO.resolutions || []).join(" or ")}`),
   body("aspect_ratio")
     .optional({ nullable: true, checkFalsy: false })
-    .isIn(["16:9", "9:16"])
-    .withMessage("aspect_ratio must be 16:9 or 9:16"),
+    .isIn(SORA_2_PRO.aspectRatios || [])
+    .withMessage(`aspect_ratio must be ${(SORA_2_PRO.aspectRatios || []).join(" or ")}`),
   body("duration")
     .optional({ nullable: true, checkFalsy: false })
     .custom((value) => {
@@ -1395,9 +1290,9 @@ export const validateFalSora2ProT2v = [
       const numValue =
         typeof value === "number" ? value : parseInt(String(value), 10);
       if (isNaN(numValue)) return false;
-      return [4, 8, 12].includes(numValue);
+      return (SORA_2_PRO.durations || []).map(Number).includes(numValue);
     })
-    .withMessage("duration must be 4, 8, or 12"),
+    .withMessage(`duration must be ${(SORA_2_PRO.durations || []).join(", ")}`),
   body("api_key").optional({ nullable: true, checkFalsy: false }).isString(),
   body("originalPrompt")
     .optional({ nullable: true, checkFalsy: false })
@@ -1421,8 +1316,8 @@ export const validateFalSeedance2T2v = [
   body("prompt").isString().notEmpty().withMessage("prompt is required"),
   body("resolution")
     .optional({ nullable: true, checkFalsy: false })
-    .isIn(["480p", "720p"])
-    .withMessage("resolution must be 480p or 720p"),
+    .isIn(SEEDANCE_2.resolutions || [])
+    .withMessage(`resolution must be ${(SEEDANCE_2.resolutions || []).join(" or ")}`),
   body("duration")
     .optional({ nullable: true, checkFalsy: false })
     .custom((value) => {
@@ -1437,9 +1332,9 @@ export const validateFalSeedance2T2v = [
     .withMessage("duration must be auto or between 4 and 15 seconds"),
   body("aspect_ratio")
     .optional({ nullable: true, checkFalsy: false })
-    .isIn(["auto", "21:9", "16:9", "4:3", "1:1", "3:4", "9:16"])
+    .isIn(SEEDANCE_2.aspectRatios || [])
     .withMessage(
-      "aspect_ratio must be auto, 21:9, 16:9, 4:3, 1:1, 3:4, or 9:16",
+      `aspect_ratio must be one of ${(SEEDANCE_2.aspectRatios || []).join(", ")}`,
     ),
   body("generate_audio")
     .optional({ nullable: true, checkFalsy: false })
@@ -1506,8 +1401,8 @@ export const validateFalSeedance2I2v = [
     .withMessage("end_image_url must be a string"),
   body("resolution")
     .optional({ nullable: true, checkFalsy: false })
-    .isIn(["480p", "720p"])
-    .withMessage("resolution must be 480p or 720p"),
+    .isIn(SEEDANCE_2.resolutions || [])
+    .withMessage(`resolution must be ${(SEEDANCE_2.resolutions || []).join(" or ")}`),
   body("duration")
     .optional({ nullable: true, checkFalsy: false })
     .custom((value) => {
@@ -1522,9 +1417,9 @@ export const validateFalSeedance2I2v = [
     .withMessage("duration must be auto or between 4 and 15 seconds"),
   body("aspect_ratio")
     .optional({ nullable: true, checkFalsy: false })
-    .isIn(["auto", "21:9", "16:9", "4:3", "1:1", "3:4", "9:16"])
+    .isIn(SEEDANCE_2.aspectRatios || [])
     .withMessage(
-      "aspect_ratio must be auto, 21:9, 16:9, 4:3, 1:1, 3:4, or 9:16",
+      `aspect_ratio must be one of ${(SEEDANCE_2.aspectRatios || []).join(", ")}`,
     ),
   body("generate_audio")
     .optional({ nullable: true, checkFalsy: false })
@@ -1612,8 +1507,8 @@ export const validateFalSeedance2FastReferenceT2v = [
     .withMessage("each audio_urls entry must be a non-empty string"),
   body("resolution")
     .optional({ nullable: true, checkFalsy: false })
-    .isIn(["480p", "720p"])
-    .withMessage("resolution must be 480p or 720p"),
+    .isIn(SEEDANCE_2_FAST.resolutions || [])
+    .withMessage(`resolution must be ${(SEEDANCE_2_FAST.resolutions || []).join(" or ")}`),
   body("duration")
     .optional({ nullable: true, checkFalsy: false })
     .custom((value) => {
@@ -1628,9 +1523,9 @@ export const validateFalSeedance2FastReferenceT2v = [
     .withMessage("duration must be auto or between 4 and 15 seconds"),
   body("aspect_ratio")
     .optional({ nullable: true, checkFalsy: false })
-    .isIn(["auto", "21:9", "16:9", "4:3", "1:1", "3:4", "9:16"])
+    .isIn(SEEDANCE_2_FAST.aspectRatios || [])
     .withMessage(
-      "aspect_ratio must be auto, 21:9, 16:9, 4:3, 1:1, 3:4, or 9:16",
+      `aspect_ratio must be one of ${(SEEDANCE_2_FAST.aspectRatios || []).join(", ")}`,
     ),
   body("generate_audio")
     .optional({ nullable: true, checkFalsy: false })
@@ -1786,15 +1681,15 @@ export const validateFalSora2RemixByHistory = [
 // LTX V2 T2V (shared)
 const validateFalLtx2T2vBase = [
   body("prompt").isString().notEmpty(),
-  body("resolution").optional().isIn(["1080p", "1440p", "2160p"]),
+  body("resolution").optional().isIn(LTX_V2.resolutions || []),
   body("aspect_ratio")
     .optional()
-    .isIn(["16:9"])
-    .withMessage("Only 16:9 is supported"),
+    .isIn(LTX_V2.aspectRatios || [])
+    .withMessage(`aspect_ratio must be ${(LTX_V2.aspectRatios || []).join(", ")}`),
   body("duration")
     .optional()
-    .isIn([6, 8, 10])
-    .withMessage("duration must be 6, 8, or 10"),
+    .isIn(LTX_V2.durations || [])
+    .withMessage(`duration must be ${(LTX_V2.durations || []).join(", ")}`),
   body("fps").optional().isIn([25, 50]),
   body("generate_audio").optional().isBoolean(),
   (req: Request, _res: Response, next: NextFunction) => {
@@ -2179,19 +2074,7 @@ export const validateFalNanoBananaPro = [
     .withMessage("num_images must be an integer >= 1"),
   body("aspect_ratio")
     .optional()
-    .isIn([
-      "auto",
-      "21:9",
-      "16:9",
-      "3:2",
-      "4:3",
-      "5:4",
-      "1:1",
-      "4:5",
-      "3:4",
-      "2:3",
-      "9:16",
-    ])
+    .isIn(NANO_BANANA_PRO.aspectRatios || [])
     .withMessage("aspect_ratio must be one of the allowed values"),
   body("output_format")
     .optional()
@@ -2211,8 +2094,8 @@ export const validateFalNanoBananaPro = [
     .withMessage("image_urls must contain strings"),
   body("resolution")
     .optional()
-    .isIn(["1K", "2K", "4K"])
-    .withMessage("resolution must be 1K, 2K, or 4K"),
+    .isIn(NANO_BANANA_PRO.resolutions || [])
+    .withMessage(`resolution must be ${(NANO_BANANA_PRO.resolutions || []).join(", ")}`),
   body("limit_generations")
     .optional()
     .isBoolean()
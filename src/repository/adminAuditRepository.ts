@@ -0,0 +1,78 @@
+import { adminDb, admin } from '../config/firebaseAdmin';
+import { logger } from '../utils/logger';
+import type { UserRole } from '../types/authTypes';
+
+export type AdminAuditOutcome = 'allowed' | 'denied';
+
+export interface AdminAuditEntry {
+  uid: string;
+  roles: UserRole[];
+  permission: string;
+  outcome: AdminAuditOutcome;
+  method: string;
+  path: string;
+  params?: Record<string, any>;
+  query?: Record<string, any>;
+  statusCode?: number;
+  durationMs?: number;
+  requestId?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+const COLLECTION = 'adminAuditLogs';
+
+export async function recordAuditEntry(entry: AdminAuditEntry): Promise<void> {
+  try {
+    const payload = Object.entries(entry).reduce((acc, [k, v]) => {
+      if (v !== undefined) (acc as any)[k] = v;
+      return acc;
+    }, {} as Record<string, any>);
+    await adminDb.collection(COLLECTION).add({
+      ...payload,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  } catch (err: any) {
+    // Audit writes must never break the privileged call itself
+    logger.error({ err, uid: entry.uid, path: entry.path }, '[Audit] Failed to record audit entry');
+  }
+}
+
+export async function listAuditEntries(params: {
+  uid?: string;
+  permission?: string;
+  limit?: number;
+  cursor?: string;
+}): Promise<{ items: Array<AdminAuditEntry & { id: string; createdAt?: string }>; nextCursor: string | null }> {
+  const limit = Math.max(1, Math.min(Number(params.limit) || 50, 200));
+  let q: FirebaseFirestore.Query = adminDb.collection(COLLECTION);
+  if (params.uid) q = q.where('uid', '==', params.uid);
+  if (params.permission) q = q.where('permission', '==', params.permission);
+  q = q.orderBy('createdAt', 'desc');
+
+  if (params.cursor) {
+    const cursorSnap = await adminDb.collection(COLLECTION).doc(params.cursor).get();
+    if (cursorSnap.exists) q = q.startAfter(cursorSnap);
+  }
+
+  const snap = await q.limit(limit + 1).get();
+  const docs = snap.docs.slice(0, limit);
+  const items = docs.map((d) => {
+    const data = d.data() as any;
+    return {
+      id: d.id,
+      ...data,
+      createdAt: data.createdAt?.toDate ? data.createdAt.toDate().toISOString() : data.createdAt,
+    };
+  });
+
+  return {
+    items,
+    nextCursor: snap.docs.length > limit ? docs[docs.length - 1].id : null,
+  };
+}
+
+export const adminAuditRepository = {
+  recordAuditEntry,
+  listAuditEntries,
+};
@@ -1,5 +1,7 @@
 import { admin, adminDb } from '../config/firebaseAdmin';
 import { generateGpt5NanoResponse } from '../services/genai/gpt5NanoService';
+import { backgroundTaskQueue } from '../utils/backgroundTaskQueue';
+import { JOB_QUEUES, assistantSearchBackfillJobId } from '../config/jobQueues';
 
 export type AssistantThreadMode = 'agent' | 'chat';
 export type AssistantThreadRole = 'user' | 'assistant';
@@ -14,6 +16,26 @@ export interface AssistantAttachment {
   sizeBytes?: number | null;
 }
 
+export type AssistantToolCallStatus = 'pending_confirmation' | 'running' | 'completed' | 'failed' | 'declined';
+
+/** A tool the agent asked to run; `credits` is the quoted cost for priced tools. */
+export interface AssistantToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+  status: AssistantToolCallStatus;
+  credits?: number | null;
+  error?: string | null;
+}
+
+export interface AssistantToolResult {
+  toolCallId: string;
+  name: string;
+  ok: boolean;
+  output: Record<string, any> | null;
+  error?: string | null;
+}
+
 export interface AssistantThreadMessage {
   id: string;
   role: AssistantThreadRole;
@@ -21,6 +43,14 @@ export interface AssistantThreadMessage {
   attachments: AssistantAttachment[];
   modelInput?: Record<string, any> | null;
   metadata?: Record<string, any> | null;
+  toolCall?: AssistantToolCall | null;
+  toolResult?: AssistantToolResult | null;
+  /**
+   * Previous message on this message's branch (null for a first message). Threads are message
+   * trees: editing a message or regenerating a reply adds a sibling. Messages written before
+   * branching existed have no parentId and simply follow the one created before them.
+   */
+  parentId?: string | null;
   createdAt?: string | null;
   updatedAt?: string | null;
 }
@@ -34,6 +64,9 @@ export interface AssistantThread {
   lastMessagePreview?: string | null;
   messageCount: number;
   attachmentCount: number;
+  agentCreditsSpent?: number;
+  /** Last message of the branch being shown and continued; unset on threads that never branched. */
+  activeLeafId?: string | null;
   isDeleted?: boolean;
   createdAt?: string | null;
   updatedAt?: string | null;
@@ -57,6 +90,27 @@ function toIso(value: any): string | null {
   }
 }
 
+export interface AssistantMessagePage {
+  /** Oldest first. */
+  messages: AssistantThreadMessage[];
+  /** Pass as `cursor` to get the messages before this page on the same branch. */
+  nextCursor: string | null;
+}
+
+export interface AssistantMessageSearchHit {
+  threadId: string;
+  threadTitle: string;
+  threadMode: AssistantThreadMode;
+  message: AssistantThreadMessage;
+}
+
+const MAX_SEARCH_TOKENS = 200;
+const BRANCH_SCAN_BATCH = 100;
+const BRANCH_SCAN_MAX_DOCS = 5000;
+/** Bump to re-run backfillSearchIndex for every user after changing what gets indexed. */
+const SEARCH_INDEX_VERSION = 1;
+const SEARCH_BACKFILL_BATCH = 400;
+
 function sanitizePreview(text: string): string {
   return String(text || '').replace(/\s+/g, ' ').trim().slice(0, 160);
 }
@@ -142,6 +196,12 @@ async function generateConversationTitle(messages: AssistantThreadMessage[]): Pr
   }
 }
 
+/** Lowercased words of a message, stored as `searchTokens` for array-contains search. */
+function tokenizeForSearch(text: string): string[] {
+  const words = String(text || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return Array.from(new Set(words.filter((word) => word.length >= 2))).slice(0, MAX_SEARCH_TOKENS);
+}
+
 function normalizeAttachments(value: any): AssistantAttachment[] {
   if (!Array.isArray(value)) return [];
   return value
@@ -168,6 +228,8 @@ function normalizeThread(id: string, data: any): AssistantThread {
     lastMessagePreview: data?.lastMessagePreview ?? null,
     messageCount: Number(data?.messageCount || 0),
     attachmentCount: Number(data?.attachmentCount || 0),
+    agentCreditsSpent: Number(data?.agentCreditsSpent || 0),
+    activeLeafId: data?.activeLeafId ?? null,
     isDeleted: data?.isDeleted === true,
     createdAt: toIso(data?.createdAt),
     updatedAt: toIso(data?.updatedAt),
@@ -183,6 +245,9 @@ function normalizeMessage(id: string, data: any): AssistantThreadMessage {
     attachments: normalizeAttachments(data?.attachments),
     modelInput: data?.modelInput ?? null,
     metadata: data?.metadata ?? null,
+    toolCall: data?.toolCall ?? null,
+    toolResult: data?.toolResult ?? null,
+    parentId: data?.parentId,
     createdAt: toIso(data?.createdAt),
     updatedAt: toIso(data?.updatedAt),
   };
@@ -289,15 +354,299 @@ async function listRecentMessages(uid: string, threadId: string, limit: number =
     .reverse();
 }
 
+async function latestMessageId(uid: string, threadId: string): Promise<string | null> {
+  const snap = await messageCollection(uid, threadId).orderBy('createdAt', 'desc').limit(1).get();
+  return snap.empty ? null : snap.docs[0].id;
+}
+
+export async function getMessage(uid: string, threadId: string, messageId: string): Promise<AssistantThreadMessage | null> {
+  const snap = await messageCollection(uid, threadId).doc(messageId).get();
+  if (!snap.exists) return null;
+  return normalizeMessage(snap.id, snap.data());
+}
+
+/** Parent of a message, falling back to the message created before it for pre-branching messages. */
+export async function resolveParentId(uid: string, threadId: string, messageId: string): Promise<string | null> {
+  const snap = await messageCollection(uid, threadId).doc(messageId).get();
+  if (!snap.exists) return null;
+  const data = snap.data() || {};
+  if (data.parentId !== undefined) return data.parentId;
+  const previous = await messageCollection(uid, threadId)
+    .orderBy('createdAt', 'desc')
+    .startAfter(snap)
+    .limit(1)
+    .get();
+  return previous.empty ? null : previous.docs[0].id;
+}
+
+/**
+ * One page of a branch, newest messages first in the scan and returned oldest first. The branch
+ * ends at `leafId` (default: the active leaf), or just before `cursor` when paging back.
+ *
+ * Parents are always created before their children, so walking the thread newest-to-oldest and
+ * following parentId visits the branch in order; messages of other branches are skipped. A message
+ * without parentId (written before branching) is followed by whichever message precedes it.
+ */
+export async function listBranchMessages(uid: string, threadId: string, params: {
+  leafId?: string | null;
+  cursor?: string | null;
+  limit?: number;
+} = {}): Promise<AssistantMessagePage> {
+  const limit = Math.min(Math.max(Number(params.limit || 50), 1), 100);
+  const ANY = Symbol('any');
+  let expected: string | null | typeof ANY;
+  let startAfter: FirebaseFirestore.DocumentSnapshot | null = null;
+
+  if (params.cursor) {
+    const cursorSnap = await messageCollection(uid, threadId).doc(params.cursor).get();
+    if (!cursorSnap.exists) return { messages: [], nextCursor: null };
+    const parentId = cursorSnap.data()?.parentId;
+    expected = parentId === undefined ? ANY : parentId;
+    startAfter = cursorSnap;
+  } else if (params.leafId !== undefined) {
+    expected = params.leafId;
+  } else {
+    const thread = await getThread(uid, threadId);
+    expected = thread?.activeLeafId ?? ANY;
+  }
+
+  const collected: AssistantThreadMessage[] = [];
+  let scanned = 0;
+  let exhausted = false;
+  while (expected !== null && collected.length < limit && scanned < BRANCH_SCAN_MAX_DOCS) {
+    let query = messageCollection(uid, threadId).orderBy('createdAt', 'desc').limit(BRANCH_SCAN_BATCH);
+    if (startAfter) query = query.startAfter(startAfter);
+    const snap = await query.get();
+
+    let index = 0;
+    for (; index < snap.docs.length && expected !== null && collected.length < limit; index++) {
+      const doc = snap.docs[index];
+      if (expected !== ANY && doc.id !== expected) continue;
+      const data = doc.data();
+      collected.push(normalizeMessage(doc.id, data));
+      expected = data.parentId === undefined ? ANY : data.parentId;
+    }
+    scanned += index;
+    if (snap.docs.length < BRANCH_SCAN_BATCH && index === snap.docs.length) {
+      exhausted = true;
+      break;
+    }
+    startAfter = snap.docs[index - 1];
+  }
+
+  const oldest = collected[collected.length - 1];
+  return {
+    messages: collected.reverse(),
+    nextCursor: oldest && expected !== null && !exhausted ? oldest.id : null,
+  };
+}
+
+/** Messages sharing a parent with `messageId` (its alternative versions), oldest first. */
+export async function listSiblings(uid: string, threadId: string, messageId: string): Promise<AssistantThreadMessage[]> {
+  const message = await getMessage(uid, threadId, messageId);
+  if (!message) return [];
+  if (message.parentId === undefined) return [message];
+
+  const snap = await messageCollection(uid, threadId).where('parentId', '==', message.parentId).get();
+  return snap.docs
+    .map((doc) => normalizeMessage(doc.id, doc.data()))
+    .sort((a, b) => String(a.createdAt || '').localeCompare(String(b.createdAt || '')));
+}
+
+/**
+ * Show the branch through `messageId`: the active leaf becomes its most recent descendant
+ * (the newest descendant never has children of its own, so it is a leaf).
+ */
+export async function setActiveLeaf(uid: string, threadId: string, messageId: string): Promise<string | null> {
+  const start = await messageCollection(uid, threadId).doc(messageId).get();
+  if (!start.exists) return null;
+
+  const descendants = new Set<string>([messageId]);
+  let leafId = messageId;
+  let previousId = messageId;
+  let startAfter: FirebaseFirestore.DocumentSnapshot = start;
+  for (let scanned = 0; scanned < BRANCH_SCAN_MAX_DOCS; ) {
+    const snap = await messageCollection(uid, threadId)
+      .orderBy('createdAt', 'asc')
+      .startAfter(startAfter)
+      .limit(BRANCH_SCAN_BATCH)
+      .get();
+    for (const doc of snap.docs) {
+      const parentId = doc.data().parentId === undefined ? previousId : doc.data().parentId;
+      if (parentId && descendants.has(parentId)) {
+        descendants.add(doc.id);
+        leafId = doc.id;
+      }
+      previousId = doc.id;
+    }
+    scanned += snap.docs.length;
+    if (snap.docs.length < BRANCH_SCAN_BATCH) break;
+    startAfter = snap.docs[snap.docs.length - 1];
+  }
+
+  await threadRef(uid, threadId).set(
+    { activeLeafId: leafId, updatedAt: admin.firestore.FieldValue.serverTimestamp() },
+    { merge: true }
+  );
+  return leafId;
+}
+
+/** Whether the user's messages from before message search existed have been indexed. */
+async function isSearchIndexed(uid: string): Promise<boolean> {
+  const snap = await adminDb.collection('assistantThreads').doc(uid).get();
+  return Number(snap.data()?.searchIndexVersion || 0) >= SEARCH_INDEX_VERSION;
+}
+
+/**
+ * Add `uid` and `searchTokens` to the user's messages written before message search existed,
+ * then mark the user indexed. Messages that already have both are left alone, so a retried or
+ * repeated run only writes what is still missing. Returns the number of messages updated.
+ */
+export async function backfillSearchIndex(uid: string, signal?: AbortSignal): Promise<number> {
+  const userRef = adminDb.collection('assistantThreads').doc(uid);
+  const threads = await userRef.collection('threads').select().get();
+  let updated = 0;
+
+  for (const thread of threads.docs) {
+    let startAfter: FirebaseFirestore.QueryDocumentSnapshot | null = null;
+    for (;;) {
+      signal?.throwIfAborted();
+      let q = thread.ref.collection('messages')
+        .orderBy(admin.firestore.FieldPath.documentId())
+        .limit(SEARCH_BACKFILL_BATCH);
+      if (startAfter) q = q.startAfter(startAfter);
+      const snap = await q.get();
+
+      const batch = adminDb.batch();
+      let writes = 0;
+      for (const doc of snap.docs) {
+        const data = doc.data();
+        if (data.uid === uid && Array.isArray(data.searchTokens)) continue;
+        batch.update(doc.ref, { uid, searchTokens: tokenizeForSearch(data.content) });
+        writes += 1;
+      }
+      if (writes > 0) await batch.commit();
+      updated += writes;
+
+      if (snap.docs.length < SEARCH_BACKFILL_BATCH) break;
+      startAfter = snap.docs[snap.docs.length - 1];
+    }
+  }
+
+  await userRef.set(
+    { searchIndexVersion: SEARCH_INDEX_VERSION, searchIndexedAt: admin.firestore.FieldValue.serverTimestamp() },
+    { merge: true }
+  );
+  console.log('[AssistantThreadsRepository] Search index backfilled', { uid, threads: threads.size, updated });
+  return updated;
+}
+
+/**
+ * Word search over all of a user's thread messages, newest first. Every word of `query` must
+ * appear in the message; the most selective one is matched by the index, the rest in memory.
+ * `cursor` is the `nextCursor` of the previous page.
+ *
+ * Messages written before search existed are only found once backfillSearchIndex has run for the
+ * user. The first search queues it; until it has finished, results are marked `indexing` so the
+ * client can say older conversations are not searchable yet.
+ */
+export async function searchMessages(uid: string, query: string, params: {
+  limit?: number;
+  cursor?: string | null;
+  mode?: AssistantThreadMode;
+} = {}): Promise<{ hits: AssistantMessageSearchHit[]; nextCursor: string | null; indexing: boolean }> {
+  const indexing = !(await isSearchIndexed(uid));
+  if (indexing) {
+    const payload = { uid };
+    void backgroundTaskQueue.enqueue(JOB_QUEUES.assistantSearchBackfill, payload, {
+      jobId: assistantSearchBackfillJobId(payload),
+    });
+  }
+
+  const tokens = tokenizeForSearch(query);
+  if (tokens.length === 0) return { hits: [], nextCursor: null, indexing };
+  const limit = Math.min(Math.max(Number(params.limit || 20), 1), 50);
+  const [indexed, ...rest] = [...tokens].sort((a, b) => b.length - a.length);
+
+  let startAfter: FirebaseFirestore.DocumentSnapshot | null = null;
+  if (params.cursor) {
+    const cursorPath = Buffer.from(params.cursor, 'base64url').toString('utf8');
+    if (!cursorPath.startsWith(`assistantThreads/${uid}/`)) return { hits: [], nextCursor: null, indexing };
+    const cursorSnap = await adminDb.doc(cursorPath).get();
+    if (!cursorSnap.exists) return { hits: [], nextCursor: null, indexing };
+    startAfter = cursorSnap;
+  }
+
+  const threads = new Map<string, AssistantThread | null>();
+  const hits: AssistantMessageSearchHit[] = [];
+  let lastDoc: FirebaseFirestore.QueryDocumentSnapshot | null = null;
+  let exhausted = false;
+  let scanned = 0;
+
+  while (hits.length < limit && !exhausted && scanned < BRANCH_SCAN_MAX_DOCS) {
+    let q = adminDb
+      .collectionGroup('messages')
+      .where('uid', '==', uid)
+      .where('searchTokens', 'array-contains', indexed)
+      .orderBy('createdAt', 'desc')
+      .limit(BRANCH_SCAN_BATCH);
+    if (startAfter) q = q.startAfter(startAfter);
+    const snap = await q.get();
+    exhausted = snap.docs.length < BRANCH_SCAN_BATCH;
+    scanned += snap.docs.length;
+
+    for (const doc of snap.docs) {
+      lastDoc = doc;
+      startAfter = doc;
+      const data = doc.data();
+      const threadDoc = doc.ref.parent.parent;
+      if (!threadDoc || !doc.ref.path.startsWith(`assistantThreads/${uid}/threads/`)) continue;
+      const words: string[] = Array.isArray(data.searchTokens) ? data.searchTokens : [];
+      if (!rest.every((token) => words.includes(token))) continue;
+
+      if (!threads.has(threadDoc.id)) {
+        threads.set(threadDoc.id, await getThread(uid, threadDoc.id));
+      }
+      const thread = threads.get(threadDoc.id);
+      if (!thread || (params.mode && thread.mode !== params.mode)) continue;
+
+      hits.push({
+        threadId: thread.id,
+        threadTitle: thread.title,
+        threadMode: thread.mode,
+        message: normalizeMessage(doc.id, data),
+      });
+      if (hits.length >= limit) {
+        // Stopped mid-batch: resume right after this hit
+        exhausted = false;
+        break;
+      }
+    }
+  }
+
+  return {
+    hits,
+    nextCursor: !exhausted && lastDoc ? Buffer.from(lastDoc.ref.path, 'utf8').toString('base64url') : null,
+    indexing,
+  };
+}
+
+/**
+ * Append messages as a chain under `params.parentId` (default: the thread's active leaf, or its
+ * latest message on threads that never branched) and make the last one the active leaf.
+ */
 export async function appendMessages(uid: string, threadId: string, params: {
   threadMode: AssistantThreadMode;
   modelId: string;
+  parentId?: string | null;
   messages: Array<{
     role: AssistantThreadRole;
     content: string;
     attachments?: AssistantAttachment[];
     modelInput?: Record<string, any> | null;
     metadata?: Record<string, any> | null;
+    toolCall?: AssistantToolCall | null;
+    toolResult?: AssistantToolResult | null;
   }>;
 }): Promise<AssistantThreadMessage[]> {
   const batch = adminDb.batch();
@@ -308,20 +657,32 @@ export async function appendMessages(uid: string, threadId: string, params: {
     attachments: normalizeAttachments(message.attachments),
     modelInput: message.modelInput ?? null,
     metadata: message.metadata ?? null,
+    toolCall: message.toolCall ?? null,
+    toolResult: message.toolResult ?? null,
   }));
 
+  const thread = await getThread(uid, threadId);
+  const rootParentId = params.parentId !== undefined
+    ? params.parentId
+    : thread?.activeLeafId ?? (await latestMessageId(uid, threadId));
+
   const createdRefs = normalizedMessages.map(() => messageCollection(uid, threadId).doc());
+  // One millisecond apart: messages are listed by createdAt, and a turn with tool calls writes
+  // several messages in one batch whose order must survive
+  const baseMs = Date.now();
   normalizedMessages.forEach((message, index) => {
     batch.set(createdRefs[index], {
       ...message,
-      createdAt: now,
+      uid,
+      parentId: index === 0 ? rootParentId : createdRefs[index - 1].id,
+      searchTokens: tokenizeForSearch(message.content),
+      createdAt: admin.firestore.Timestamp.fromMillis(baseMs + index),
       updatedAt: now,
     });
   });
 
   const userFacingMessages = normalizedMessages.filter((message) => message.role === 'user');
   const firstUserMessage = userFacingMessages[0]?.content || normalizedMessages[0]?.content || '';
-  const thread = await getThread(uid, threadId);
   const existingMessages = thread ? await listRecentMessages(uid, threadId, 16) : [];
   const titleContextMessages = [
     ...existingMessages,
@@ -351,6 +712,7 @@ export async function appendMessages(uid: string, threadId: string, params: {
         Number(thread?.attachmentCount || 0) +
         normalizedMessages.reduce((sum, message) => sum + message.attachments.length, 0),
       isDeleted: false,
+      activeLeafId: createdRefs[createdRefs.length - 1]?.id ?? rootParentId,
       updatedAt: now,
       lastMessageAt: now,
       ...(thread ? {} : { createdAt: now }),
@@ -364,12 +726,87 @@ export async function appendMessages(uid: string, threadId: string, params: {
   return persisted.map((doc) => normalizeMessage(doc.id, doc.data()));
 }
 
+export async function getToolCallMessage(uid: string, threadId: string, toolCallId: string): Promise<AssistantThreadMessage | null> {
+  const snap = await messageCollection(uid, threadId)
+    .where('toolCall.id', '==', toolCallId)
+    .limit(1)
+    .get();
+  if (snap.empty) return null;
+  return normalizeMessage(snap.docs[0].id, snap.docs[0].data());
+}
+
+/**
+ * Merge `updates` into a tool call message. With `expectStatus` the update only applies while the
+ * call is still in that status (so a confirmation cannot run the same call twice); returns false otherwise.
+ */
+export async function updateToolCall(
+  uid: string,
+  threadId: string,
+  messageId: string,
+  updates: Partial<Omit<AssistantToolCall, 'id'>>,
+  expectStatus?: AssistantToolCallStatus
+): Promise<boolean> {
+  const ref = messageCollection(uid, threadId).doc(messageId);
+  return adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const toolCall = snap.data()?.toolCall as AssistantToolCall | undefined;
+    if (!toolCall) return false;
+    if (expectStatus && toolCall.status !== expectStatus) return false;
+    tx.update(ref, {
+      toolCall: { ...toolCall, ...updates },
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
+
+/**
+ * Count `credits` against the thread's agent spending before a priced tool runs. Refused (nothing
+ * recorded) when it would take the thread past `cap`; a cap of 0 means unlimited.
+ */
+export async function reserveAgentSpend(
+  uid: string,
+  threadId: string,
+  credits: number,
+  cap: number
+): Promise<{ reserved: boolean; spent: number }> {
+  const ref = threadRef(uid, threadId);
+  return adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const spent = Number(snap.data()?.agentCreditsSpent || 0);
+    if (cap > 0 && spent + credits > cap) {
+      return { reserved: false, spent };
+    }
+    tx.set(ref, { agentCreditsSpent: spent + credits }, { merge: true });
+    return { reserved: true, spent: spent + credits };
+  });
+}
+
+/** Give back a reservation from reserveAgentSpend when the tool call did not go through. */
+export async function releaseAgentSpend(uid: string, threadId: string, credits: number): Promise<void> {
+  await threadRef(uid, threadId).set(
+    { agentCreditsSpent: admin.firestore.FieldValue.increment(-credits) },
+    { merge: true }
+  );
+}
+
 export const assistantThreadsRepository = {
   appendMessages,
+  backfillSearchIndex,
   createThread,
+  getMessage,
   getThread,
+  getToolCallMessage,
+  listBranchMessages,
   listMessages,
+  listSiblings,
   listThreads,
+  releaseAgentSpend,
+  reserveAgentSpend,
+  resolveParentId,
+  searchMessages,
+  setActiveLeaf,
   softDeleteThread,
   updateThread,
+  updateToolCall,
 };
@@ -0,0 +1,249 @@
+import { admin, adminDb } from "../../config/firebaseAdmin";
+import type { AccountDataExportRecord, AccountDeletionRecord } from "../../types/authTypes";
+
+/**
+ * Self-service account data exports and deletion requests.
+ *
+ * Layout:
+ *   accountExports/{uid}/exports/{exportId}  -> AccountDataExportRecord
+ *   accountDeletions/{uid}                   -> AccountDeletionRecord
+ *
+ * Both live outside users/{uid} so they survive the account wipe (the deletion record is
+ * what the sweeper works from; the export docs are removed as part of the wipe).
+ */
+
+const EXPORTS_COLLECTION = "accountExports";
+const DELETIONS_COLLECTION = "accountDeletions";
+
+function exportsCol(uid: string) {
+  return adminDb.collection(EXPORTS_COLLECTION).doc(uid).collection("exports");
+}
+
+function deletionRef(uid: string) {
+  return adminDb.collection(DELETIONS_COLLECTION).doc(uid);
+}
+
+async function createDataExport(
+  uid: string,
+  data: Omit<AccountDataExportRecord, "id" | "uid">
+): Promise<AccountDataExportRecord> {
+  const ref = exportsCol(uid).doc();
+  const record: AccountDataExportRecord = { ...data, id: ref.id, uid };
+  await ref.set(record);
+  return record;
+}
+
+async function getDataExport(uid: string, exportId: string): Promise<AccountDataExportRecord | null> {
+  const snap = await exportsCol(uid).doc(exportId).get();
+  return snap.exists ? (snap.data() as AccountDataExportRecord) : null;
+}
+
+async function updateDataExport(
+  uid: string,
+  exportId: string,
+  updates: Partial<Omit<AccountDataExportRecord, "id" | "uid">>
+): Promise<void> {
+  await exportsCol(uid).doc(exportId).update(updates);
+}
+
+async function listDataExports(uid: string, limit = 10): Promise<AccountDataExportRecord[]> {
+  const snap = await exportsCol(uid).orderBy("createdAt", "desc").limit(limit).get();
+  return snap.docs.map((d) => d.data() as AccountDataExportRecord);
+}
+
+async function getDeletion(uid: string): Promise<AccountDeletionRecord | null> {
+  const snap = await deletionRef(uid).get();
+  return snap.exists ? (snap.data() as AccountDeletionRecord) : null;
+}
+
+async function setDeletion(record: AccountDeletionRecord): Promise<void> {
+  await deletionRef(record.uid).set(record);
+}
+
+async function updateDeletion(
+  uid: string,
+  updates: Partial<Omit<AccountDeletionRecord, "uid">>
+): Promise<void> {
+  await deletionRef(uid).update(updates);
+}
+
+/**
+ * Deletions the sweeper should pick up, oldest first: scheduled ones whose grace period (or
+ * retry backoff) has passed, and processing ones whose lease ran out because the worker
+ * running them died.
+ */
+async function pollDueDeletions(limit: number): Promise<AccountDeletionRecord[]> {
+  const now = Date.now();
+  const [due, stale] = await Promise.all([
+    adminDb
+      .collection(DELETIONS_COLLECTION)
+      .where("status", "==", "scheduled")
+      .where("scheduledFor", "<=", now)
+      .orderBy("scheduledFor", "asc")
+      .limit(limit)
+      .get(),
+    adminDb
+      .collection(DELETIONS_COLLECTION)
+      .where("status", "==", "processing")
+      .where("leaseExpiresAt", "<=", now)
+      .orderBy("leaseExpiresAt", "asc")
+      .limit(limit)
+      .get(),
+  ]);
+  return [...stale.docs, ...due.docs].slice(0, limit).map((d) => d.data() as AccountDeletionRecord);
+}
+
+/**
+ * Take a due (or stale) deletion for one run: flips it to processing under a lease and counts
+ * the attempt. Returns null when another worker got there first or the user cancelled.
+ */
+async function claimDeletion(uid: string, leaseMs: number): Promise<AccountDeletionRecord | null> {
+  const ref = deletionRef(uid);
+  return adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) return null;
+    const record = snap.data() as AccountDeletionRecord;
+    const now = Date.now();
+    const due = record.status === "scheduled" && record.scheduledFor <= now;
+    const stale = record.status === "processing" && (record.leaseExpiresAt || 0) <= now;
+    if (!due && !stale) return null;
+    const claim = { status: "processing" as const, attempts: (record.attempts || 0) + 1, leaseExpiresAt: now + leaseMs };
+    tx.update(ref, claim);
+    return { ...record, ...claim };
+  });
+}
+
+/**
+ * Cancel a deletion that has not started. Returns the record as it was, and whether it was
+ * cancelled; a deletion with a claimed attempt behind it can no longer be cancelled.
+ */
+async function cancelDeletion(
+  uid: string,
+  cancelledAt: string
+): Promise<{ record: AccountDeletionRecord | null; cancelled: boolean }> {
+  const ref = deletionRef(uid);
+  return adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const record = snap.exists ? (snap.data() as AccountDeletionRecord) : null;
+    if (!record || record.status !== "scheduled" || (record.attempts || 0) > 0) {
+      return { record, cancelled: false };
+    }
+    tx.update(ref, { status: "cancelled", cancelledAt });
+    return { record, cancelled: true };
+  });
+}
+
+const PAGE_SIZE = 500;
+
+/** Read every doc of a query, paging by document id. */
+async function readAll(query: FirebaseFirestore.Query): Promise<FirebaseFirestore.QueryDocumentSnapshot[]> {
+  const docs: FirebaseFirestore.QueryDocumentSnapshot[] = [];
+  let q = query.orderBy(admin.firestore.FieldPath.documentId()).limit(PAGE_SIZE);
+  for (;;) {
+    const snap = await q.get();
+    docs.push(...snap.docs);
+    if (snap.size < PAGE_SIZE) break;
+    q = query.orderBy(admin.firestore.FieldPath.documentId()).startAfter(snap.docs[snap.size - 1].id).limit(PAGE_SIZE);
+  }
+  return docs;
+}
+
+function withId(doc: FirebaseFirestore.QueryDocumentSnapshot): Record<string, any> {
+  return { id: doc.id, ...doc.data() };
+}
+
+/** Raw Firestore data kept per user, for the data export. */
+async function gatherUserDocuments(uid: string): Promise<{
+  generations: Record<string, any>[];
+  assistantThreads: Record<string, any>[];
+  audioFiles: Record<string, any>[];
+  characters: Record<string, any>[];
+  likes: Record<string, any>[];
+  bookmarks: Record<string, any>[];
+}> {
+  const userDoc = adminDb.collection("users").doc(uid);
+  const engagementDoc = adminDb.collection("userEngagement").doc(uid);
+
+  const threadDocs = await readAll(adminDb.collection("assistantThreads").doc(uid).collection("threads"));
+  const assistantThreads: Record<string, any>[] = [];
+  for (const thread of threadDocs) {
+    const messages = await readAll(thread.ref.collection("messages"));
+    assistantThreads.push({ ...withId(thread), messages: messages.map(withId) });
+  }
+
+  const [generations, audioFiles, characters, likes, bookmarks] = await Promise.all([
+    readAll(adminDb.collection("generationHistory").doc(uid).collection("items")),
+    readAll(userDoc.collection("audioFiles")),
+    readAll(userDoc.collection("characters")),
+    readAll(engagementDoc.collection("likes")),
+    readAll(engagementDoc.collection("bookmarks")),
+  ]);
+
+  return {
+    generations: generations.map(withId),
+    assistantThreads,
+    audioFiles: audioFiles.map(withId),
+    characters: characters.map(withId),
+    likes: likes.map(withId),
+    bookmarks: bookmarks.map(withId),
+  };
+}
+
+// Per-user document roots; each is removed together with all of its subcollections
+const USER_ROOT_COLLECTIONS = [
+  "generationHistory",
+  "assistantThreads",
+  "userEngagement",
+  "notifications",
+  "userDevices",
+  "generationTrash",
+  "libraryCollections",
+  "generationExports",
+  EXPORTS_COLLECTION,
+  "generationStats",
+  "creditHolds",
+];
+
+// Top-level collections whose docs reference the user by a uid field
+const USER_OWNED_DOCS: Array<[collection: string, field: string]> = [
+  ["generations", "uid"],
+  ["shareLinks", "uid"],
+  ["apiKeys", "uid"],
+  ["canvasInvitations", "senderUid"],
+  ["canvasInvitations", "recipientUid"],
+];
+
+/**
+ * Delete the user's Firestore data: per-user roots, uid-keyed top-level docs and finally
+ * users/{uid}. Canvas projects and engagement counters are handled by their own
+ * repositories beforehand. Safe to re-run after a partial failure.
+ */
+async function wipeUserDocuments(uid: string): Promise<void> {
+  for (const collection of USER_ROOT_COLLECTIONS) {
+    await adminDb.recursiveDelete(adminDb.collection(collection).doc(uid));
+  }
+  for (const [collection, field] of USER_OWNED_DOCS) {
+    const docs = await readAll(adminDb.collection(collection).where(field, "==", uid));
+    for (let i = 0; i < docs.length; i += PAGE_SIZE) {
+      const batch = adminDb.batch();
+      docs.slice(i, i + PAGE_SIZE).forEach((doc) => batch.delete(doc.ref));
+      await batch.commit();
+    }
+  }
+  await adminDb.recursiveDelete(adminDb.collection("users").doc(uid));
+}
+
+export const accountRepository = {
+  createDataExport,
+  getDataExport,
+  updateDataExport,
+  listDataExports,
+  getDeletion,
+  setDeletion,
+  updateDeletion,
+  pollDueDeletions,
+  claimDeletion,
+  cancelDeletion,
+  gatherUserDocuments,
+  wipeUserDocuments,
+};
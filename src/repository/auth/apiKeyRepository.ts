@@ -0,0 +1,62 @@
+import { adminDb } from "../../config/firebaseAdmin";
+import type { ApiKeyRecord } from "../../types/authTypes";
+
+/**
+ * Personal API keys live in a top-level collection so a key can be resolved from its
+ * hash without knowing the owner. Only sha256 hashes are stored.
+ */
+
+const COLLECTION = "apiKeys";
+
+function collection() {
+  return adminDb.collection(COLLECTION);
+}
+
+async function createKey(record: Omit<ApiKeyRecord, "id">): Promise<ApiKeyRecord> {
+  const ref = collection().doc();
+  const full: ApiKeyRecord = { ...record, id: ref.id };
+  await ref.set(full);
+  return full;
+}
+
+async function getKey(id: string): Promise<ApiKeyRecord | null> {
+  const snap = await collection().doc(id).get();
+  return snap.exists ? (snap.data() as ApiKeyRecord) : null;
+}
+
+async function findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+  const snap = await collection().where("keyHash", "==", keyHash).limit(1).get();
+  if (snap.empty) return null;
+  return snap.docs[0].data() as ApiKeyRecord;
+}
+
+async function listByUser(uid: string): Promise<ApiKeyRecord[]> {
+  const snap = await collection().where("uid", "==", uid).get();
+  return snap.docs
+    .map((d) => d.data() as ApiKeyRecord)
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+}
+
+async function updateKey(id: string, updates: Partial<Omit<ApiKeyRecord, "id" | "uid">>): Promise<void> {
+  const payload = Object.entries(updates).reduce((acc, [k, v]) => {
+    if (v !== undefined) (acc as any)[k] = v;
+    return acc;
+  }, {} as Record<string, any>);
+  await collection().doc(id).update(payload);
+}
+
+async function recordUsage(id: string, at: string, ip?: string): Promise<void> {
+  await collection().doc(id).update({
+    lastUsedAt: at,
+    ...(ip ? { lastUsedIp: ip } : {}),
+  });
+}
+
+export const apiKeyRepository = {
+  createKey,
+  getKey,
+  findByHash,
+  listByUser,
+  updateKey,
+  recordUsage,
+};
@@ -1,5 +1,6 @@
 import { adminDb, admin } from "../../config/firebaseAdmin";
-import { AppUser } from "../../types/authTypes";
+import { AppUser, UserRole } from "../../types/authTypes";
+import { normalizeRoles } from "../../config/rolePermissions";
 
 async function upsertUser(
   uid: string,
@@ -255,6 +256,28 @@ async function updateUserByEmail(
   return updatedSnap.data() as AppUser;
 }
 
+async function getUserRoles(uid: string): Promise<UserRole[]> {
+  const snap = await adminDb.collection("users").doc(uid).get();
+  const data = (snap.data() || {}) as AppUser;
+  return normalizeRoles(data.metadata?.roles);
+}
+
+async function setUserRoles(uid: string, roles: UserRole[]): Promise<UserRole[]> {
+  const ref = adminDb.collection("users").doc(uid);
+  const snap = await ref.get();
+  if (!snap.exists) {
+    throw new Error("User not found");
+  }
+  const normalized = normalizeRoles(roles);
+  // Dotted path keeps the rest of metadata (accountStatus, lastPasswordChange) intact
+  await ref.update({
+    "metadata.roles": normalized,
+    updatedAt: new Date().toISOString(),
+  });
+  console.log(`[REPO] Updated roles for users/${uid}:`, normalized);
+  return normalized;
+}
+
 // In-memory OTP store to avoid persisting in Firestore
 const otpStore: Map<string, { code: string; expiresAt: number }> = new Map();
 
@@ -316,6 +339,8 @@ export const authRepository = {
   getUserByEmail,
   getEmailByUsername,
   searchUsersByQuery,
+  getUserRoles,
+  setUserRoles,
   saveOtp,
   verifyAndConsumeOtp,
 };
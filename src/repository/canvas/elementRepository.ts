@@ -76,15 +76,21 @@ export async function queryElementsInRegion(
   const elements = snap.docs.map(doc => ({ id: doc.id, ...doc.data() } as CanvasElement));
 
   // Filter elements that intersect with region
-  return elements.filter(el => {
-    if (!el.width || !el.height) return false;
-    return !(
-      el.x + el.width < region.x ||
-      el.x > region.x + region.width ||
-      el.y + el.height < region.y ||
-      el.y > region.y + region.height
-    );
-  });
+  return elements.filter(el => elementIntersectsRegion(el, region));
+}
+
+/** Axis-aligned overlap test shared by region queries and server-side export. */
+export function elementIntersectsRegion(
+  el: Pick<CanvasElement, 'x' | 'y' | 'width' | 'height'>,
+  region: { x: number; y: number; width: number; height: number }
+): boolean {
+  if (!el.width || !el.height) return false;
+  return !(
+    el.x + el.width < region.x ||
+    el.x > region.x + region.width ||
+    el.y + el.height < region.y ||
+    el.y > region.y + region.height
+  );
 }
 
 export async function queryElementsByAnchors(
@@ -169,6 +175,7 @@ export const elementRepository = {
   getElement,
   deleteElement,
   queryElementsInRegion,
+  elementIntersectsRegion,
   queryElementsByAnchors,
   batchUpsertElements,
   listAllElements,
@@ -0,0 +1,42 @@
+import { adminDb } from '../../config/firebaseAdmin';
+import { CanvasExportRecord } from '../../types/canvas';
+
+function exportsRef(projectId: string) {
+  return adminDb.collection('canvasProjects').doc(projectId).collection('exports');
+}
+
+export async function createCanvasExport(
+  projectId: string,
+  data: Omit<CanvasExportRecord, 'id' | 'projectId'>
+): Promise<CanvasExportRecord> {
+  const ref = exportsRef(projectId).doc();
+  const record: CanvasExportRecord = { ...data, id: ref.id, projectId };
+  await ref.set(record);
+  return record;
+}
+
+export async function getCanvasExport(projectId: string, exportId: string): Promise<CanvasExportRecord | null> {
+  const snap = await exportsRef(projectId).doc(exportId).get();
+  if (!snap.exists) return null;
+  return snap.data() as CanvasExportRecord;
+}
+
+export async function updateCanvasExport(
+  projectId: string,
+  exportId: string,
+  updates: Partial<Omit<CanvasExportRecord, 'id' | 'projectId'>>
+): Promise<void> {
+  await exportsRef(projectId).doc(exportId).update(updates);
+}
+
+export async function listCanvasExports(projectId: string, limit: number = 20): Promise<CanvasExportRecord[]> {
+  const snap = await exportsRef(projectId).orderBy('createdAt', 'desc').limit(limit).get();
+  return snap.docs.map(doc => doc.data() as CanvasExportRecord);
+}
+
+export const exportRepository = {
+  createCanvasExport,
+  getCanvasExport,
+  updateCanvasExport,
+  listCanvasExports,
+};
@@ -0,0 +1,82 @@
+import { adminDb } from '../../config/firebaseAdmin';
+import { CanvasInviteLink } from '../../types/canvas';
+
+// Top-level, keyed by token, so a join resolves its link with a single read.
+// Each redemption is recorded under canvasInviteLinks/{token}/uses/{uid}, so opening the
+// same link twice does not spend a second use. Removing a member clears their records, so
+// joining again is a new redemption.
+function linksRef() {
+  return adminDb.collection('canvasInviteLinks');
+}
+
+export async function createInviteLink(link: CanvasInviteLink): Promise<CanvasInviteLink> {
+  await linksRef().doc(link.token).create(link);
+  return link;
+}
+
+export async function getInviteLink(token: string): Promise<CanvasInviteLink | null> {
+  const snap = await linksRef().doc(token).get();
+  if (!snap.exists) return null;
+  return snap.data() as CanvasInviteLink;
+}
+
+export async function listInviteLinks(projectId: string): Promise<CanvasInviteLink[]> {
+  const snap = await linksRef().where('projectId', '==', projectId).get();
+  return snap.docs
+    .map(doc => doc.data() as CanvasInviteLink)
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+}
+
+export async function revokeInviteLink(token: string, revokedAt: string): Promise<void> {
+  await linksRef().doc(token).update({ revokedAt });
+}
+
+/**
+ * Spend one use of the link for `uid`. Returns false when the link has run out of uses
+ * (a uid that already redeemed it never counts twice).
+ */
+export async function consumeInviteLinkUse(token: string, uid: string): Promise<boolean> {
+  const linkRef = linksRef().doc(token);
+  const useRef = linkRef.collection('uses').doc(uid);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const [linkSnap, useSnap] = await Promise.all([transaction.get(linkRef), transaction.get(useRef)]);
+    if (!linkSnap.exists) return false;
+    if (useSnap.exists) return true;
+
+    const link = linkSnap.data() as CanvasInviteLink;
+    if (link.maxUses !== undefined && (link.useCount || 0) >= link.maxUses) return false;
+
+    const now = new Date().toISOString();
+    transaction.update(linkRef, { useCount: (link.useCount || 0) + 1, lastUsedAt: now });
+    transaction.set(useRef, { uid, usedAt: now });
+    return true;
+  });
+}
+
+/** Forget `uid`'s redemptions of the project's links, e.g. when they are removed from it. */
+export async function clearInviteLinkUses(projectId: string, uid: string): Promise<void> {
+  const snap = await linksRef().where('projectId', '==', projectId).get();
+  if (snap.empty) return;
+  const batch = adminDb.batch();
+  snap.docs.forEach((doc) => batch.delete(doc.ref.collection('uses').doc(uid)));
+  await batch.commit();
+}
+
+/** Remove every link of a project (with its uses), e.g. when the project is deleted. */
+export async function deleteInviteLinksForProject(projectId: string): Promise<void> {
+  const snap = await linksRef().where('projectId', '==', projectId).get();
+  for (const doc of snap.docs) {
+    await adminDb.recursiveDelete(doc.ref);
+  }
+}
+
+export const inviteLinkRepository = {
+  createInviteLink,
+  getInviteLink,
+  listInviteLinks,
+  revokeInviteLink,
+  consumeInviteLinkUse,
+  clearInviteLinkUses,
+  deleteInviteLinksForProject,
+};
@@ -1,5 +1,6 @@
 import { adminDb, admin } from '../../config/firebaseAdmin';
 import { CanvasProject, CanvasSnapshot, CanvasInvitation } from '../../types/canvas';
+import { clearInviteLinkUses, deleteInviteLinksForProject } from './inviteLinkRepository';
 
 export async function createProject(
   ownerUid: string,
@@ -105,6 +106,7 @@ export async function deleteProject(projectId: string): Promise<void> {
   batch.delete(projectRef);
 
   await batch.commit();
+  await deleteInviteLinksForProject(projectId);
 }
 
 export async function addCollaborator(
@@ -159,6 +161,47 @@ export async function removeCollaborator(
     collaboratorUids,
     updatedAt: admin.firestore.FieldValue.serverTimestamp(),
   });
+  // Otherwise an invite link they once redeemed would let them straight back in
+  await clearInviteLinkUses(projectId, uid);
+}
+
+/**
+ * Make `newOwnerUid` the owner. The previous owner stays on the project as an editor.
+ * Fails if ownership changed since the transfer was offered.
+ */
+export async function transferOwnership(
+  projectId: string,
+  previousOwnerUid: string,
+  newOwnerUid: string
+): Promise<CanvasProject> {
+  const projectRef = adminDb.collection('canvasProjects').doc(projectId);
+
+  await adminDb.runTransaction(async (transaction) => {
+    const snap = await transaction.get(projectRef);
+    if (!snap.exists) throw new Error('Project not found');
+    const project = snap.data() as CanvasProject;
+    if (project.ownerUid !== previousOwnerUid) {
+      throw new Error('Project ownership has changed');
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const collaborators = (project.collaborators || [])
+      .filter((collaborator) => collaborator.uid !== newOwnerUid)
+      .map((collaborator) =>
+        collaborator.uid === previousOwnerUid ? { ...collaborator, role: 'editor' as const } : collaborator
+      );
+    collaborators.unshift({ uid: newOwnerUid, role: 'owner', addedAt: now });
+
+    transaction.update(projectRef, {
+      ownerUid: newOwnerUid,
+      collaborators,
+      collaboratorUids: collaborators.map((collaborator) => collaborator.uid),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+
+  const updated = await projectRef.get();
+  return { id: updated.id, ...updated.data() } as CanvasProject;
 }
 
 export async function createInvitation(
@@ -200,6 +243,38 @@ export async function findPendingInvitation(projectId: string, recipientUid: str
   return { id: doc.id, ...doc.data() } as CanvasInvitation;
 }
 
+export async function findPendingTransfer(projectId: string): Promise<CanvasInvitation | null> {
+  const snap = await adminDb
+    .collection('canvasInvitations')
+    .where('projectId', '==', projectId)
+    .where('kind', '==', 'transfer')
+    .where('status', '==', 'pending')
+    .limit(1)
+    .get();
+
+  if (snap.empty) return null;
+  const doc = snap.docs[0];
+  return { id: doc.id, ...doc.data() } as CanvasInvitation;
+}
+
+/** Dismiss a user's pending/accepted invitations so none of them can re-grant access. */
+export async function dismissInvitationsForRecipient(projectId: string, recipientUid: string): Promise<void> {
+  const snap = await adminDb
+    .collection('canvasInvitations')
+    .where('projectId', '==', projectId)
+    .where('recipientUid', '==', recipientUid)
+    .get();
+
+  const active = snap.docs.filter((doc) => doc.data()?.status !== 'dismissed');
+  if (active.length === 0) return;
+  const batch = adminDb.batch();
+  active.forEach((doc) => batch.update(doc.ref, {
+    status: 'dismissed',
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  }));
+  await batch.commit();
+}
+
 export async function updateInvitation(
   invitationId: string,
   updates: Partial<CanvasInvitation>
@@ -472,15 +547,48 @@ export async function listUserProjects(uid: string, limit: number = 20): Promise
   }
 }
 
+/** Every project the user owns or collaborates on (no limit, no thumbnail backfill). */
+export async function listAllProjectsForUser(uid: string): Promise<CanvasProject[]> {
+  const projectsRef = adminDb.collection('canvasProjects');
+  const [ownerSnap, collaboratorSnap] = await Promise.all([
+    projectsRef.where('ownerUid', '==', uid).get(),
+    projectsRef.where('collaboratorUids', 'array-contains', uid).get(),
+  ]);
+  const projects = new Map<string, CanvasProject>();
+  [...ownerSnap.docs, ...collaboratorSnap.docs].forEach((doc) => {
+    projects.set(doc.id, { id: doc.id, ...doc.data() } as CanvasProject);
+  });
+  return Array.from(projects.values());
+}
+
+/**
+ * Delete a project with all of its subcollections (snapshots, elements, ops) and its
+ * invitations and invite links. Unlike deleteProject this does not leave element/op docs behind.
+ */
+export async function purgeProject(projectId: string): Promise<void> {
+  const projectRef = adminDb.collection('canvasProjects').doc(projectId);
+  const invitations = await adminDb.collection('canvasInvitations').where('projectId', '==', projectId).get();
+  if (!invitations.empty) {
+    const batch = adminDb.batch();
+    invitations.docs.forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+  }
+  await deleteInviteLinksForProject(projectId);
+  await adminDb.recursiveDelete(projectRef);
+}
+
 export const projectRepository = {
   createProject,
   getProject,
   updateProject,
   addCollaborator,
   removeCollaborator,
+  transferOwnership,
   createInvitation,
   getInvitation,
   findPendingInvitation,
+  findPendingTransfer,
+  dismissInvitationsForRecipient,
   updateInvitation,
   listInvitationsForRecipient,
   listInvitationsForSender,
@@ -491,4 +599,6 @@ export const projectRepository = {
   getCurrentSnapshot,
   listUserProjects,
   deleteProject,
+  listAllProjectsForUser,
+  purgeProject,
 };
@@ -0,0 +1,118 @@
+import { adminDb, admin } from '../../config/firebaseAdmin';
+import { CanvasVersion, CanvasVersionSummary } from '../../types/canvas';
+
+// Versions live under canvasProjects/{projectId}/versions; the per-project version number
+// and the change count since the last checkpoint are kept in counters/versions.
+function versionsRef(projectId: string) {
+  return adminDb.collection('canvasProjects').doc(projectId).collection('versions');
+}
+
+function versionCounterRef(projectId: string) {
+  return adminDb.collection('canvasProjects').doc(projectId).collection('counters').doc('versions');
+}
+
+const SUMMARY_FIELDS = [
+  'id',
+  'projectId',
+  'number',
+  'name',
+  'kind',
+  'elementCount',
+  'mediaIds',
+  'retainedMediaIds',
+  'restoredFromVersionId',
+  'createdBy',
+  'createdAt',
+];
+
+export async function createVersion(
+  projectId: string,
+  version: Omit<CanvasVersion, 'id' | 'projectId' | 'number' | 'createdAt'>
+): Promise<CanvasVersion> {
+  const versionRef = versionsRef(projectId).doc();
+  const counterRef = versionCounterRef(projectId);
+
+  const number = await adminDb.runTransaction(async (transaction) => {
+    const counterSnap = await transaction.get(counterRef);
+    const next = (counterSnap.data()?.lastNumber || 0) + 1;
+
+    // A checkpoint of any kind resets the automatic checkpoint count
+    transaction.set(counterRef, { lastNumber: next, changesSinceCheckpoint: 0 }, { merge: true });
+    transaction.set(versionRef, {
+      ...version,
+      id: versionRef.id,
+      projectId,
+      number: next,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return next;
+  });
+
+  const snap = await versionRef.get();
+  return { ...(snap.data() as CanvasVersion), number };
+}
+
+export async function getVersion(projectId: string, versionId: string): Promise<CanvasVersion | null> {
+  const snap = await versionsRef(projectId).doc(versionId).get();
+  if (!snap.exists) return null;
+  return snap.data() as CanvasVersion;
+}
+
+/** Newest first; `beforeNumber` pages past an earlier response. */
+export async function listVersions(
+  projectId: string,
+  limit: number = 50,
+  beforeNumber?: number
+): Promise<CanvasVersionSummary[]> {
+  let query = versionsRef(projectId).orderBy('number', 'desc');
+  if (beforeNumber !== undefined) {
+    query = query.where('number', '<', beforeNumber);
+  }
+  const snap = await query.select(...SUMMARY_FIELDS).limit(limit).get();
+  return snap.docs.map(doc => doc.data() as CanvasVersionSummary);
+}
+
+/**
+ * Count `changes` towards the next automatic checkpoint and return whether one is due. The
+ * count is only reset when a version is created, so a checkpoint that fails is retried on
+ * the next call.
+ */
+export async function recordVersionChanges(projectId: string, changes: number, threshold: number): Promise<boolean> {
+  const counterRef = versionCounterRef(projectId);
+  return adminDb.runTransaction(async (transaction) => {
+    const counterSnap = await transaction.get(counterRef);
+    const total = (counterSnap.data()?.changesSinceCheckpoint || 0) + changes;
+    transaction.set(counterRef, { changesSinceCheckpoint: total }, { merge: true });
+    return total >= threshold;
+  });
+}
+
+/** Summaries of `kind` versions after the newest `keep`, oldest last. */
+export async function listVersionsBeyond(
+  projectId: string,
+  kind: CanvasVersion['kind'],
+  keep: number,
+  limit: number = 100
+): Promise<CanvasVersionSummary[]> {
+  const snap = await versionsRef(projectId)
+    .where('kind', '==', kind)
+    .orderBy('number', 'desc')
+    .offset(keep)
+    .select(...SUMMARY_FIELDS)
+    .limit(limit)
+    .get();
+  return snap.docs.map(doc => doc.data() as CanvasVersionSummary);
+}
+
+export async function deleteVersion(projectId: string, versionId: string): Promise<void> {
+  await versionsRef(projectId).doc(versionId).delete();
+}
+
+export const versionRepository = {
+  createVersion,
+  getVersion,
+  listVersions,
+  recordVersionChanges,
+  listVersionsBeyond,
+  deleteVersion,
+};
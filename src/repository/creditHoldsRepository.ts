@@ -0,0 +1,173 @@
+import { adminDb, admin } from '../config/firebaseAdmin';
+import { logger } from '../utils/logger';
+import { CreditHold, CreditHoldStatus } from '../types/credits';
+
+/**
+ * Credit reservations (HOLD) placed before a generation is sent to a provider.
+ *
+ * Layout:
+ *   creditHolds/{uid}              -> { uid, heldTotal }   (per-user aggregate, serializes concurrent holds)
+ *   creditHolds/{uid}/holds/{key}  -> CreditHold           (key = idempotencyKey from makeCreditCost)
+ *
+ * The balance itself lives in credit-service; the gateway only tracks how much of it
+ * is already promised to in-flight generations so concurrent submits cannot overspend.
+ */
+
+const COLLECTION = 'creditHolds';
+
+function userRef(uid: string) {
+  return adminDb.collection(COLLECTION).doc(uid);
+}
+
+function holdRef(uid: string, key: string) {
+  return userRef(uid).collection('holds').doc(key);
+}
+
+/**
+ * Reserve `amount` credits for `key` if `balance - heldTotal` covers it.
+ * Idempotent per key: placing the same key twice returns the existing hold.
+ */
+export async function placeHold(
+  uid: string,
+  key: string,
+  amount: number,
+  balance: number,
+  params: { reason: string; ttlMs: number; meta?: Record<string, any> }
+): Promise<{ placed: boolean; heldTotal: number; available: number }> {
+  return adminDb.runTransaction(async (t) => {
+    const uRef = userRef(uid);
+    const hRef = holdRef(uid, key);
+    const [userSnap, holdSnap] = await Promise.all([t.get(uRef), t.get(hRef)]);
+    const heldTotal = Math.max(0, Number(userSnap.data()?.heldTotal || 0));
+
+    if (holdSnap.exists) {
+      return { placed: true, heldTotal, available: balance - heldTotal };
+    }
+
+    const available = balance - heldTotal;
+    if (available < amount) {
+      return { placed: false, heldTotal, available };
+    }
+
+    const hold: CreditHold = {
+      key,
+      uid,
+      amount,
+      reason: params.reason,
+      status: 'HELD',
+      meta: params.meta || {},
+      expiresAt: Date.now() + params.ttlMs,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+    t.set(hRef, hold);
+    t.set(uRef, {
+      uid,
+      heldTotal: heldTotal + amount,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true });
+
+    return { placed: true, heldTotal: heldTotal + amount, available: available - amount };
+  });
+}
+
+/**
+ * Record which history item a hold belongs to so debits/failures keyed by historyId can settle it.
+ */
+export async function linkHistory(uid: string, key: string, historyId: string, historyUid: string): Promise<void> {
+  try {
+    await holdRef(uid, key).update({ historyId, historyUid });
+  } catch (err: any) {
+    logger.warn({ uid, key, historyId, err: err?.message }, '[CREDIT_HOLDS] Failed to link history');
+  }
+}
+
+async function findHeldRef(uid: string, requestId: string): Promise<FirebaseFirestore.DocumentReference | null> {
+  const direct = holdRef(uid, requestId);
+  const snap = await direct.get();
+  if (snap.exists) return direct;
+
+  const byHistory = await userRef(uid)
+    .collection('holds')
+    .where('historyId', '==', requestId)
+    .where('status', '==', 'HELD')
+    .limit(1)
+    .get();
+  return byHistory.empty ? null : byHistory.docs[0].ref;
+}
+
+/**
+ * Move a HELD reservation to a terminal status and give the amount back to the available pool.
+ * `requestId` may be the idempotencyKey or the linked historyId. No-op if already settled.
+ */
+export async function settleHold(
+  uid: string,
+  requestId: string,
+  status: Exclude<CreditHoldStatus, 'HELD'>
+): Promise<'SETTLED' | 'NOT_FOUND' | 'ALREADY_SETTLED'> {
+  const ref = await findHeldRef(uid, requestId);
+  if (!ref) return 'NOT_FOUND';
+
+  return adminDb.runTransaction(async (t) => {
+    const uRef = userRef(uid);
+    const [holdSnap, userSnap] = await Promise.all([t.get(ref), t.get(uRef)]);
+    const hold = holdSnap.data() as CreditHold | undefined;
+    if (!hold) return 'NOT_FOUND';
+    if (hold.status !== 'HELD') return 'ALREADY_SETTLED';
+
+    const heldTotal = Math.max(0, Number(userSnap.data()?.heldTotal || 0) - Number(hold.amount || 0));
+    t.update(ref, {
+      status,
+      settledAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    t.set(uRef, {
+      uid,
+      heldTotal,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true });
+    return 'SETTLED';
+  });
+}
+
+/**
+ * Expire stale holds for one user (called lazily when a new hold does not fit).
+ */
+export async function expireStaleHoldsForUser(uid: string): Promise<number> {
+  const snap = await userRef(uid).collection('holds').where('status', '==', 'HELD').get();
+  const now = Date.now();
+  let expired = 0;
+  for (const doc of snap.docs) {
+    const hold = doc.data() as CreditHold;
+    if (Number(hold.expiresAt || 0) > now) continue;
+    const outcome = await settleHold(uid, doc.id, 'EXPIRED');
+    if (outcome === 'SETTLED') expired += 1;
+  }
+  return expired;
+}
+
+/**
+ * Poll expired HELD reservations across all users (sweeper worker).
+ */
+export async function pollExpiredHolds(limit = 100): Promise<CreditHold[]> {
+  const snap = await adminDb
+    .collectionGroup('holds')
+    .where('status', '==', 'HELD')
+    .where('expiresAt', '<=', Date.now())
+    .orderBy('expiresAt', 'asc')
+    .limit(limit)
+    .get();
+  return snap.docs.map((d) => d.data() as CreditHold);
+}
+
+export async function getHeldTotal(uid: string): Promise<number> {
+  const snap = await userRef(uid).get();
+  return Math.max(0, Number(snap.data()?.heldTotal || 0));
+}
+
+export const creditHoldsRepository = {
+  placeHold,
+  linkHistory,
+  settleHold,
+  expireStaleHoldsForUser,
+  pollExpiredHolds,
+  getHeldTotal,
+};
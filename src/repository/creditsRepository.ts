@@ -1,6 +1,10 @@
 import axios from 'axios';
 import { env } from '../config/env';
 import { logger } from '../utils/logger';
+import { creditOperations } from '../utils/metrics';
+import { backgroundTaskQueue } from '../utils/backgroundTaskQueue';
+import { JOB_QUEUES, notificationJobId, NotificationJobPayload } from '../config/jobQueues';
+import { creditHoldsRepository } from './creditHoldsRepository';
 
 // Re-export types for compatibility
 export type LedgerStatus = 'PENDING' | 'CONFIRMED' | 'REVERSED';
@@ -157,6 +161,18 @@ export async function clearAllLedgersForUser(uid: string): Promise<number> {
   return 0;
 }
 
+async function captureHold(uid: string, requestId: string): Promise<void> {
+  try {
+    const outcome = await creditHoldsRepository.settleHold(uid, requestId, 'CAPTURED');
+    if (outcome === 'SETTLED') {
+      logger.info({ uid, requestId }, '[CREDITS_REPO] Hold captured');
+    }
+  } catch (e: any) {
+    // Non-fatal: an uncaptured hold is released by the sweeper when it expires
+    logger.warn({ uid, requestId, err: e?.message }, '[CREDITS_REPO] Failed to capture hold');
+  }
+}
+
 export async function writeDebitIfAbsent(
   uid: string,
   requestId: string,
@@ -195,8 +211,11 @@ export async function writeDebitIfAbsent(
     });
 
     if (res.data.success) {
+      // The debit is on the ledger (now or earlier): the reservation for it is no longer needed
+      await captureHold(uid, requestId);
       if (res.data.data?.alreadyProcessed) {
         logger.info({ uid, requestId }, '[CREDITS_REPO] Debit skipped (idempotent)');
+        creditOperations.inc({ operation: 'debit', outcome: 'skipped' });
         return 'SKIPPED';
       }
       logger.info(
@@ -208,15 +227,24 @@ export async function writeDebitIfAbsent(
         },
         '[CREDITS_REPO] Debit confirmed'
       );
+      // Debits arrive in bursts (multi-output generations): check the settled balance once
+      const notification: NotificationJobPayload = { kind: 'low-credit', uid };
+      void backgroundTaskQueue.enqueue(JOB_QUEUES.notifications, notification, {
+        jobId: notificationJobId(notification),
+        delayMs: 5 * 1000,
+      });
+      creditOperations.inc({ operation: 'debit', outcome: 'written' });
       return 'WRITTEN';
     }
     throw new Error('Debit failed');
   } catch (e: any) {
     if (env.nodeEnv === 'development' && (e.code === 'ECONNREFUSED' || e.code === 'ENOTFOUND' || e.code === 'ETIMEDOUT')) {
       logger.warn({ uid, err: e.message }, '[CREDITS_REPO] Dev mode: Credit service unreachable, debit not written');
+      creditOperations.inc({ operation: 'debit', outcome: 'skipped' });
       return 'SKIPPED';
     }
 
+    creditOperations.inc({ operation: 'debit', outcome: 'failed' });
     handleAxiosError(e, 'writeDebitIfAbsent');
     return 'SKIPPED';
   }
@@ -329,7 +357,14 @@ export async function writeRefund(
   // The service doesn't have explicit REFUND type exposed in Controller, but 'grant' adds credits.
   // We'll use grant but maybe add 'REFUND' to reason or meta.
   // Ideally we update service to support REFUND type, but 'grant' (ADD) is functionally correct.
-  return writeGrantIncrement(uid, `refund-${requestId}`, amount, `REFUND: ${reason}`, meta);
+  try {
+    const outcome = await writeGrantIncrement(uid, `refund-${requestId}`, amount, `REFUND: ${reason}`, meta);
+    creditOperations.inc({ operation: 'refund', outcome: outcome === 'WRITTEN' ? 'written' : 'skipped' });
+    return outcome;
+  } catch (e) {
+    creditOperations.inc({ operation: 'refund', outcome: 'failed' });
+    throw e;
+  }
 }
 
 // NEW METHOD: Initialize User
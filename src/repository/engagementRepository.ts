@@ -1,4 +1,5 @@
 import { admin, adminDb } from '../config/firebaseAdmin';
+import { notify } from '../services/notificationService';
 
 type EngagementType = 'like' | 'bookmark';
 
@@ -13,8 +14,6 @@ interface BulkStatusItem {
 const COLLECTION_LIKES = 'generationLikes';
 const COLLECTION_BOOKMARKS = 'generationBookmarks';
 const COLLECTION_USER_ENGAGEMENT = 'userEngagement';
-const COLLECTION_NOTIFICATIONS = 'notifications';
-const COLLECTION_USER_DEVICES = 'userDevices';
 
 function getEngagementCollections(type: EngagementType) {
   const colName = type === 'like' ? COLLECTION_LIKES : COLLECTION_BOOKMARKS;
@@ -130,94 +129,24 @@ async function createEngagementNotification(
   // Skip if we can't determine an owner or the actor is the owner
   if (!ownerUid || ownerUid === actorUid) return;
 
-  const notifRef = adminDb
-    .collection(COLLECTION_NOTIFICATIONS)
-    .doc(ownerUid)
-    .collection('items')
-    .doc();
-  const payload: any = {
+  const actorLabel = actorDisplayName || actorUsername || 'Someone';
+
+  // Stored and pushed unless the owner muted this type
+  await notify(ownerUid, {
     type,
     generationId,
     actorUid,
-    createdAt: admin.firestore.FieldValue.serverTimestamp(),
-    read: false,
-  };
-  if (actorDisplayName) {
-    payload.actorDisplayName = actorDisplayName;
-  }
-  if (actorUsername) {
-    payload.actorUsername = actorUsername;
-  }
-
-  await notifRef.set(payload);
-
-  // Also attempt to send an FCM push notification to the owner's devices (web/mobile)
-  // This is best-effort and non-blocking for the main engagement flow.
-  try {
-    const devicesSnap = await adminDb
-      .collection(COLLECTION_USER_DEVICES)
-      .doc(ownerUid)
-      .collection('tokens')
-      .get();
-
-    if (devicesSnap.empty) {
-      return;
-    }
-
-    const tokens: string[] = [];
-    devicesSnap.forEach((doc) => {
-      const d = doc.data() as any;
-      const token = d?.token;
-      if (typeof token === 'string' && token.trim().length > 0) {
-        tokens.push(token.trim());
-      }
-    });
-
-    if (!tokens.length) return;
-
-    const actorLabel = actorDisplayName || actorUsername || 'Someone';
-
-    const title =
+    actorDisplayName,
+    actorUsername,
+    title:
       type === 'like'
         ? `${actorLabel} liked your generation`
-        : `${actorLabel} bookmarked your generation`;
-
-    const body =
+        : `${actorLabel} bookmarked your generation`,
+    body:
       type === 'like'
         ? 'Your public generation just received a new like.'
-        : 'Your public generation was saved by a user.';
-
-    const response = await admin.messaging().sendEachForMulticast({
-      tokens,
-      notification: {
-        title,
-        body,
-      },
-      data: {
-        type,
-        generationId,
-        actorUid,
-        actorDisplayName: actorDisplayName || '',
-        actorUsername: actorUsername || '',
-      },
-    });
-
-    console.log('[engagementRepository] Sent FCM push notification', {
-      ownerUid,
-      type,
-      generationId,
-      tokensCount: tokens.length,
-      successCount: response.successCount,
-      failureCount: response.failureCount,
-    });
-  } catch (err) {
-    console.warn('[engagementRepository] Failed to send FCM push for engagement notification', {
-      type,
-      actorUid,
-      generationId,
-      error: (err as any)?.message || err,
-    });
-  }
+        : 'Your public generation was saved by a user.',
+  });
 }
 
 export async function getBulkStatus(
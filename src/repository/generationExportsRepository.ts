@@ -0,0 +1,79 @@
+import { admin, adminDb } from '../config/firebaseAdmin';
+import type { GenerationExportRecord } from '../types/generationExport';
+
+/**
+ * Export jobs.
+ *
+ * Layout:
+ *   generationExports/{uid}/exports/{exportId}  -> GenerationExportRecord
+ */
+
+const COLLECTION = 'generationExports';
+const EXPORTS = 'exports';
+
+function exportsCol(uid: string) {
+  return adminDb.collection(COLLECTION).doc(uid).collection(EXPORTS);
+}
+
+export async function createExport(
+  uid: string,
+  data: Omit<GenerationExportRecord, 'id' | 'uid'>
+): Promise<GenerationExportRecord> {
+  const ref = exportsCol(uid).doc();
+  const record: GenerationExportRecord = { ...data, id: ref.id, uid };
+  await ref.set(record);
+  return record;
+}
+
+export async function getExport(uid: string, exportId: string): Promise<GenerationExportRecord | null> {
+  const snap = await exportsCol(uid).doc(exportId).get();
+  return snap.exists ? (snap.data() as GenerationExportRecord) : null;
+}
+
+export async function updateExport(
+  uid: string,
+  exportId: string,
+  updates: Partial<Omit<GenerationExportRecord, 'id' | 'uid'>>
+): Promise<void> {
+  await exportsCol(uid).doc(exportId).update(updates);
+}
+
+export async function listExports(uid: string, limit = 20): Promise<GenerationExportRecord[]> {
+  const snap = await exportsCol(uid).orderBy('createdAt', 'desc').limit(limit).get();
+  return snap.docs.map((d) => d.data() as GenerationExportRecord);
+}
+
+/**
+ * Completed exports whose archive is past its retention, oldest first. Account exports share
+ * the `exports` subcollection name but never carry purgeAfter.
+ */
+export async function pollExpiredExports(limit = 100): Promise<GenerationExportRecord[]> {
+  const snap = await adminDb
+    .collectionGroup(EXPORTS)
+    .where('purgeAfter', '<=', Date.now())
+    .orderBy('purgeAfter', 'asc')
+    .limit(limit)
+    .get();
+  return snap.docs
+    .filter((d) => d.ref.parent.parent?.parent.id === COLLECTION)
+    .map((d) => d.data() as GenerationExportRecord);
+}
+
+/** The archive is gone: keep the record (and its counts) but drop the storage pointers. */
+export async function markExpired(uid: string, exportId: string, expiredAt: string): Promise<void> {
+  await exportsCol(uid).doc(exportId).update({
+    status: 'expired',
+    expiredAt,
+    storagePath: admin.firestore.FieldValue.delete(),
+    purgeAfter: admin.firestore.FieldValue.delete(),
+  });
+}
+
+export const generationExportsRepository = {
+  createExport,
+  getExport,
+  updateExport,
+  listExports,
+  pollExpiredExports,
+  markExpired,
+};
@@ -3,7 +3,15 @@ import { GenerationHistoryItem, GenerationStatus, Visibility, GenerationType } f
 import { logger } from '../utils/logger';
 import { invalidateUserLists, invalidateItem } from '../utils/generationCache';
 import { mirrorQueueRepository } from './mirrorQueueRepository';
+import { creditHoldsRepository } from './creditHoldsRepository';
+import { getActiveCreditHold } from '../utils/creditHoldContext';
+import { getActiveGenerationSlot } from '../utils/generationSlotContext';
+import { generationSlotService } from '../services/generationSlotService';
 import { getModeTypeSet, normalizeMode } from '../utils/modeTypeMap';
+import { publishGenerationEvent } from '../utils/generationEvents';
+import { mapGenerationError } from '../utils/errors/generationErrors';
+import { backgroundTaskQueue } from '../utils/backgroundTaskQueue';
+import { JOB_QUEUES, historyJobId, notificationJobId, NotificationJobPayload } from '../config/jobQueues';
 
 function toIso(value: any): any {
   try {
@@ -90,6 +98,10 @@ export async function create(uid: string, data: {
     // never block creation due to logging issues
   }
 
+  // Credit hold and in-flight slot taken by makeCreditCost for this request (if any)
+  const activeHold = getActiveCreditHold();
+  const activeSlot = getActiveGenerationSlot();
+
   const col = adminDb.collection('generationHistory').doc(uid).collection('items');
   const docRef = await col.add({
     uid,
@@ -126,9 +138,24 @@ export async function create(uid: string, data: {
     isDeleted: false,
     images: [],
     videos: [],
+    ...(activeHold ? { creditHold: { key: activeHold.key, billingUid: activeHold.billingUid } } : {}),
+    ...(activeSlot ? { generationSlot: { uid: activeSlot.uid, id: activeSlot.id } } : {}),
     createdAt: admin.firestore.FieldValue.serverTimestamp(),
     updatedAt: admin.firestore.FieldValue.serverTimestamp(),
   });
+  // Link the hold so the debit (keyed by historyId) captures it, even from a later queue/result request
+  if (activeHold) {
+    await creditHoldsRepository.linkHistory(activeHold.billingUid, activeHold.key, docRef.id, uid);
+  }
+  // Keeps the slot taken after the response while this generation is still running
+  activeSlot?.histories.push({ uid, historyId: docRef.id });
+  publishGenerationEvent(uid, {
+    type: 'created',
+    historyId: docRef.id,
+    status: GenerationStatus.Generating,
+    model: data.model,
+    generationType: data.generationType,
+  });
   // Invalidate list caches for this user so list endpoints return fresh data
   try {
     await invalidateUserLists(uid);
@@ -161,6 +188,18 @@ function removeUndefinedValues(obj: any): any {
   return cleaned;
 }
 
+async function releaseCreditHold(uid: string, historyId: string, hold: GenerationHistoryItem['creditHold']): Promise<void> {
+  try {
+    if (!hold?.key || !hold?.billingUid) return;
+    const outcome = await creditHoldsRepository.settleHold(hold.billingUid, hold.key, 'RELEASED');
+    if (outcome === 'SETTLED') {
+      logger.info({ uid, historyId, holdKey: hold.key }, '[generationHistoryRepository] Released credit hold for failed generation');
+    }
+  } catch (e) {
+    try { logger.warn({ uid, historyId, err: e }, '[generationHistoryRepository] Failed to release credit hold'); } catch { }
+  }
+}
+
 export async function update(uid: string, historyId: string, updates: Partial<GenerationHistoryItem>): Promise<void> {
   const ref = adminDb.collection('generationHistory').doc(uid).collection('items').doc(historyId);
 
@@ -246,6 +285,47 @@ export async function update(uid: string, historyId: string, updates: Partial<Ge
     });
     throw error;
   }
+  if (updates.providerTaskId) {
+    publishGenerationEvent(uid, {
+      type: 'provider-queued',
+      historyId,
+      status: GenerationStatus.Generating,
+      provider: updates.provider,
+      providerTaskId: updates.providerTaskId,
+    });
+  }
+  const finished = updates.status === GenerationStatus.Failed || updates.status === GenerationStatus.Completed;
+  const item = finished ? ((await ref.get().catch(() => null))?.data() as any) : null;
+  if (item?.generationSlot?.uid && item.generationSlot.id) {
+    await generationSlotService.releaseSlot(item.generationSlot.uid, item.generationSlot.id);
+  }
+  if (updates.status === GenerationStatus.Failed) {
+    // A failed generation is never debited: release its credit hold
+    await releaseCreditHold(uid, historyId, item?.creditHold);
+    publishGenerationEvent(uid, {
+      type: 'failed',
+      historyId,
+      status: GenerationStatus.Failed,
+      model: item?.model,
+      generationType: item?.generationType,
+      provider: item?.provider,
+      error: mapGenerationError(item?.provider, updates.error ?? item?.error),
+    });
+  }
+  if (updates.status === GenerationStatus.Completed) {
+    // Aesthetic scoring runs off the request path; the short delay lets the completion
+    // writes (optimization, mirror sync) settle so repeated updates collapse into one job
+    void backgroundTaskQueue.enqueue(JOB_QUEUES.aestheticScore, { uid, historyId }, {
+      jobId: historyJobId({ uid, historyId }),
+      delayMs: 10 * 1000,
+    });
+    // The job skips anything that is not a long-running video
+    const notification: NotificationJobPayload = { kind: 'video-completed', uid, historyId };
+    void backgroundTaskQueue.enqueue(JOB_QUEUES.notifications, notification, {
+      jobId: notificationJobId(notification),
+    });
+  }
+
   // Invalidate cache for the single item and user lists
   try {
     await invalidateItem(uid, historyId);
@@ -277,6 +357,90 @@ export async function update(uid: string, historyId: string, updates: Partial<Ge
   }
 }
 
+/**
+ * Switch a private item between Private and Unlisted (has live share links). Written
+ * directly so the mirror queue is not involved: neither state is in the public mirror.
+ */
+export async function setVisibility(uid: string, historyId: string, visibility: Visibility.Private | Visibility.Unlisted): Promise<void> {
+  const ref = adminDb.collection('generationHistory').doc(uid).collection('items').doc(historyId);
+  await ref.update({ visibility, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+  try {
+    await invalidateItem(uid, historyId);
+    await invalidateUserLists(uid);
+  } catch (e) {
+    try { logger.warn({ uid, historyId, err: e }, '[generationHistoryRepository.setVisibility] Failed to invalidate cache'); } catch { }
+  }
+}
+
+export interface MediaPatch {
+  url: string; // media are matched by url: ids are not preserved by update()
+  fields: Record<string, any>;
+}
+
+/**
+ * Merge per-media fields (scores, optimized variants, thumbnails) into the current images/videos
+ * inside a transaction, so background jobs never overwrite media written since they read the item.
+ * Returns the patched item, or null when it no longer exists.
+ */
+export async function patchMedia(uid: string, historyId: string, patch: {
+  images?: MediaPatch[];
+  videos?: MediaPatch[];
+  fields?: Partial<GenerationHistoryItem>;
+}): Promise<GenerationHistoryItem | null> {
+  const ref = adminDb.collection('generationHistory').doc(uid).collection('items').doc(historyId);
+  const merge = (current: any[] | undefined, patches: MediaPatch[] | undefined) => {
+    if (!Array.isArray(current) || !patches?.length) return current;
+    return current.map((media: any) => {
+      const url = typeof media === 'string' ? media : media?.url;
+      const match = patches.find((p) => p.url === url);
+      if (!match) return media;
+      return removeUndefinedValues({ ...(typeof media === 'string' ? { url } : media), ...match.fields });
+    });
+  };
+
+  const merged = await adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) return null;
+    const data = snap.data() as any;
+    const updates: Record<string, any> = removeUndefinedValues({ ...(patch.fields || {}) });
+    const images = merge(data?.images, patch.images);
+    const videos = merge(data?.videos, patch.videos);
+    if (images !== data?.images) updates.images = images;
+    if (videos !== data?.videos) updates.videos = videos;
+    if (Object.keys(updates).length === 0) return { item: normalizeItem(snap.id, data), updates };
+    tx.update(ref, { ...updates, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+    return { item: normalizeItem(snap.id, { ...data, ...updates }), updates };
+  });
+  if (!merged) return null;
+  if (Object.keys(merged.updates).length === 0) return merged.item;
+
+  try {
+    await invalidateItem(uid, historyId);
+  } catch (e) {
+    try { logger.warn({ uid, historyId, err: e }, '[generationHistoryRepository.patchMedia] Failed to invalidate cache'); } catch { }
+  }
+  if ((merged.item as any)?.isDeleted !== true) {
+    mirrorQueueRepository.enqueueUpdate({ uid, historyId, updates: merged.updates }).catch((e) => {
+      try { logger.warn({ uid, historyId, err: e }, '[generationHistoryRepository.patchMedia] Failed to enqueue mirror update'); } catch { }
+    });
+  }
+  return merged.item;
+}
+
+/**
+ * Claim the one-time completion side effects (stats, storage usage, completed event) for an item.
+ * Returns false when another finalization already claimed them.
+ */
+export async function claimCompletion(uid: string, historyId: string): Promise<boolean> {
+  const ref = adminDb.collection('generationHistory').doc(uid).collection('items').doc(historyId);
+  return adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists || (snap.data() as any)?.completionRecordedAt) return false;
+    tx.update(ref, { completionRecordedAt: Date.now() });
+    return true;
+  });
+}
+
 export async function get(uid: string, historyId: string): Promise<GenerationHistoryItem | null> {
   const ref = adminDb.collection('generationHistory').doc(uid).collection('items').doc(historyId);
   const snap = await ref.get();
@@ -839,10 +1003,13 @@ export async function findBySoraVideoId(uid: string, soraVideoId: string): Promi
 export const generationHistoryRepository = {
   create,
   update,
+  setVisibility,
+  patchMedia,
   get,
   list,
   findByProviderTaskId,
   findBySoraVideoId,
+  claimCompletion,
 };
 
 
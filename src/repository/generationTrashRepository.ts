@@ -0,0 +1,80 @@
+import { adminDb } from '../config/firebaseAdmin';
+import { TrashEntry } from '../types/generate';
+
+/**
+ * Trash bin index for deleted generations and single images.
+ *
+ * Layout:
+ *   generationTrash/{uid}/trashEntries/{entryId}  -> TrashEntry
+ *
+ * The history item itself stays in generationHistory (isDeleted=true); entries only
+ * track what is restorable and when the trash sweeper may purge its media.
+ */
+
+const COLLECTION = 'generationTrash';
+const ENTRIES = 'trashEntries';
+
+function entriesCol(uid: string) {
+  return adminDb.collection(COLLECTION).doc(uid).collection(ENTRIES);
+}
+
+/** Entry ids are derived so deleting the same generation/image twice is idempotent. */
+export function trashEntryId(historyId: string, imageId?: string): string {
+  return imageId ? `${historyId}_${imageId.replace(/\//g, '_')}` : historyId;
+}
+
+export async function addEntry(uid: string, entry: Omit<TrashEntry, 'id' | 'uid'>): Promise<TrashEntry> {
+  const id = trashEntryId(entry.historyId, entry.imageId);
+  const record: TrashEntry = { ...entry, id, uid };
+  await entriesCol(uid).doc(id).set(record);
+  return record;
+}
+
+export async function getEntry(uid: string, id: string): Promise<TrashEntry | null> {
+  const snap = await entriesCol(uid).doc(id).get();
+  return snap.exists ? (snap.data() as TrashEntry) : null;
+}
+
+export async function listEntries(
+  uid: string,
+  params: { limit?: number; cursor?: string } = {}
+): Promise<{ entries: TrashEntry[]; nextCursor: string | null }> {
+  const limit = Math.max(1, Math.min(Number(params.limit) || 20, 100));
+  let q: FirebaseFirestore.Query = entriesCol(uid).orderBy('deletedAt', 'desc');
+  if (params.cursor) {
+    const cursorSnap = await entriesCol(uid).doc(params.cursor).get();
+    if (cursorSnap.exists) q = q.startAfter(cursorSnap);
+  }
+  const snap = await q.limit(limit + 1).get();
+  const docs = snap.docs.slice(0, limit);
+  return {
+    entries: docs.map((d) => d.data() as TrashEntry),
+    nextCursor: snap.docs.length > limit ? docs[docs.length - 1].id : null,
+  };
+}
+
+export async function removeEntry(uid: string, id: string): Promise<void> {
+  await entriesCol(uid).doc(id).delete();
+}
+
+/**
+ * Poll entries whose restore window has passed, across all users (trash sweeper).
+ */
+export async function pollExpiredEntries(limit = 100): Promise<TrashEntry[]> {
+  const snap = await adminDb
+    .collectionGroup(ENTRIES)
+    .where('purgeAfter', '<=', Date.now())
+    .orderBy('purgeAfter', 'asc')
+    .limit(limit)
+    .get();
+  return snap.docs.map((d) => d.data() as TrashEntry);
+}
+
+export const generationTrashRepository = {
+  trashEntryId,
+  addEntry,
+  getEntry,
+  listEntries,
+  removeEntry,
+  pollExpiredEntries,
+};
@@ -177,9 +177,22 @@ export async function remove(historyId: string): Promise<void> {
   }
 }
 
+/**
+ * Hide a trashed item from the public feed without deleting its mirror doc; the trash
+ * sweeper removes the doc once the restore window has passed.
+ */
+export async function hide(historyId: string): Promise<void> {
+  const ref = adminDb.collection('generations').doc(historyId);
+  const doc = await ref.get();
+  if (!doc.exists) return;
+  await ref.update({ isDeleted: true, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+  console.log('[Mirror][Hide] ✅ Hidden from public mirror (in trash):', historyId);
+}
+
 export const generationsMirrorRepository = {
   upsertFromHistory,
   updateFromHistory,
   remove,
+  hide,
 };
 
@@ -5,6 +5,8 @@
 
 // Auth Repository
 export * from './auth/authRepository';
+export * from './auth/apiKeyRepository';
+export * from './auth/accountRepository';
 
 // Generation Repositories
 export * from './replicateRepository';
@@ -14,6 +16,8 @@ export * from './minimaxRepository';
 export * from './runwayRepository';
 export * from './generationHistoryRepository';
 export * from './generationsMirrorRepository';
+export * from './generationTrashRepository';
+export * from './generationExportsRepository';
 export * from './publicGenerationsRepository';
 export * from './generationStatsRepository';
 
@@ -22,15 +26,24 @@ export * from './canvas/elementRepository';
 export * from './canvas/mediaRepository';
 export * from './canvas/opRepository';
 export * from './canvas/projectRepository';
+export * from './canvas/versionRepository';
+export * from './canvas/inviteLinkRepository';
+export * from './canvas/exportRepository';
 
 // Credit & User Repositories
 export * from './creditsRepository';
+export * from './creditHoldsRepository';
 export * from './redeemCodeRepository';
 
 // Utility Repositories
+export * from './adminAuditRepository';
 export * from './engagementRepository';
+export * from './notificationsRepository';
+export * from './shareLinkRepository';
+export * from './libraryCollectionsRepository';
 export * from './characterRepository';
 export * from './mirrorQueueRepository';
 export * from './signupImageCache';
 export * from './stickerExportRepository';
 export * from './userAudioRepository';
+export * from './providerWebhookCallbacksRepository';
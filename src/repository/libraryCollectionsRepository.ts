@@ -0,0 +1,179 @@
+import { admin, adminDb } from '../config/firebaseAdmin';
+import type { CollectionItem, CollectionItemRef, LibraryCollection } from '../types/collections';
+
+/**
+ * Layout:
+ *   libraryCollections/{uid}/collections/{collectionId}          -> LibraryCollection
+ *   libraryCollections/{uid}/collections/{collectionId}/items/{id} -> CollectionItem
+ *
+ * Item ids are derived from kind + refId so adding the same item twice is a no-op.
+ */
+
+const COLLECTION = 'libraryCollections';
+const BATCH_SIZE = 400;
+
+function collectionsCol(uid: string) {
+  return adminDb.collection(COLLECTION).doc(uid).collection('collections');
+}
+
+function itemsCol(uid: string, collectionId: string) {
+  return collectionsCol(uid).doc(collectionId).collection('items');
+}
+
+export function collectionItemId(ref: CollectionItemRef): string {
+  return `${ref.kind}_${ref.refId}`;
+}
+
+export async function createCollection(
+  uid: string,
+  input: { name: string; description?: string; coverUrl?: string; position: number }
+): Promise<LibraryCollection> {
+  const ref = collectionsCol(uid).doc();
+  const now = new Date().toISOString();
+  const collection: LibraryCollection = {
+    id: ref.id,
+    uid,
+    name: input.name,
+    ...(input.description ? { description: input.description } : {}),
+    ...(input.coverUrl ? { coverUrl: input.coverUrl } : {}),
+    position: input.position,
+    itemCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await ref.set(collection);
+  return collection;
+}
+
+export async function getCollection(uid: string, collectionId: string): Promise<LibraryCollection | null> {
+  const snap = await collectionsCol(uid).doc(collectionId).get();
+  return snap.exists ? (snap.data() as LibraryCollection) : null;
+}
+
+export async function listCollections(uid: string): Promise<LibraryCollection[]> {
+  const snap = await collectionsCol(uid).orderBy('position', 'asc').get();
+  return snap.docs.map((d) => d.data() as LibraryCollection);
+}
+
+/** `null` clears an optional field. */
+export async function updateCollection(
+  uid: string,
+  collectionId: string,
+  updates: { name?: string; description?: string | null; coverUrl?: string | null }
+): Promise<void> {
+  const payload: Record<string, any> = { updatedAt: new Date().toISOString() };
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === undefined) continue;
+    payload[key] = value === null ? admin.firestore.FieldValue.delete() : value;
+  }
+  await collectionsCol(uid).doc(collectionId).update(payload);
+}
+
+export async function setPositions(uid: string, orderedIds: string[]): Promise<void> {
+  const updatedAt = new Date().toISOString();
+  for (let i = 0; i < orderedIds.length; i += BATCH_SIZE) {
+    const batch = adminDb.batch();
+    orderedIds.slice(i, i + BATCH_SIZE).forEach((id, j) => {
+      batch.update(collectionsCol(uid).doc(id), { position: i + j, updatedAt });
+    });
+    await batch.commit();
+  }
+}
+
+export async function deleteCollection(uid: string, collectionId: string): Promise<void> {
+  for (;;) {
+    const snap = await itemsCol(uid, collectionId).limit(BATCH_SIZE).get();
+    if (snap.empty) break;
+    const batch = adminDb.batch();
+    snap.docs.forEach((d) => batch.delete(d.ref));
+    await batch.commit();
+    if (snap.size < BATCH_SIZE) break;
+  }
+  await collectionsCol(uid).doc(collectionId).delete();
+}
+
+/** Returns the number of refs that were not already in the collection. */
+export async function addItems(uid: string, collectionId: string, refs: CollectionItemRef[]): Promise<number> {
+  let added = 0;
+  for (let i = 0; i < refs.length; i += BATCH_SIZE) {
+    const chunk = refs.slice(i, i + BATCH_SIZE);
+    const docRefs = chunk.map((ref) => itemsCol(uid, collectionId).doc(collectionItemId(ref)));
+    const snaps = await adminDb.getAll(...docRefs);
+    const batch = adminDb.batch();
+    const addedAt = Date.now();
+    let writes = 0;
+    snaps.forEach((snap, j) => {
+      if (snap.exists) return;
+      const item: CollectionItem = {
+        id: snap.id,
+        kind: chunk[j].kind,
+        refId: chunk[j].refId,
+        // Keep the request order when listing newest first
+        addedAt: new Date(addedAt + (chunk.length - j)).toISOString(),
+      };
+      batch.set(snap.ref, item);
+      writes++;
+    });
+    if (writes > 0) {
+      batch.update(collectionsCol(uid).doc(collectionId), {
+        itemCount: admin.firestore.FieldValue.increment(writes),
+        updatedAt: new Date().toISOString(),
+      });
+      await batch.commit();
+    }
+    added += writes;
+  }
+  return added;
+}
+
+/** Returns the number of refs that were in the collection. */
+export async function removeItems(uid: string, collectionId: string, refs: CollectionItemRef[]): Promise<number> {
+  let removed = 0;
+  for (let i = 0; i < refs.length; i += BATCH_SIZE) {
+    const docRefs = refs.slice(i, i + BATCH_SIZE).map((ref) => itemsCol(uid, collectionId).doc(collectionItemId(ref)));
+    const snaps = await adminDb.getAll(...docRefs);
+    const existing = snaps.filter((s) => s.exists);
+    if (existing.length === 0) continue;
+    const batch = adminDb.batch();
+    existing.forEach((s) => batch.delete(s.ref));
+    batch.update(collectionsCol(uid).doc(collectionId), {
+      itemCount: admin.firestore.FieldValue.increment(-existing.length),
+      updatedAt: new Date().toISOString(),
+    });
+    await batch.commit();
+    removed += existing.length;
+  }
+  return removed;
+}
+
+export async function listItems(
+  uid: string,
+  collectionId: string,
+  params: { limit?: number; cursor?: string } = {}
+): Promise<{ items: CollectionItem[]; nextCursor: string | null }> {
+  const limit = Math.max(1, Math.min(Number(params.limit) || 50, 500));
+  let q: FirebaseFirestore.Query = itemsCol(uid, collectionId).orderBy('addedAt', 'desc');
+  if (params.cursor) {
+    const cursorSnap = await itemsCol(uid, collectionId).doc(params.cursor).get();
+    if (cursorSnap.exists) q = q.startAfter(cursorSnap);
+  }
+  const snap = await q.limit(limit + 1).get();
+  const docs = snap.docs.slice(0, limit);
+  return {
+    items: docs.map((d) => d.data() as CollectionItem),
+    nextCursor: snap.docs.length > limit ? docs[docs.length - 1].id : null,
+  };
+}
+
+export const libraryCollectionsRepository = {
+  collectionItemId,
+  createCollection,
+  getCollection,
+  listCollections,
+  updateCollection,
+  setPositions,
+  deleteCollection,
+  addItems,
+  removeItems,
+  listItems,
+};
@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import { admin, adminDb } from '../config/firebaseAdmin';
+import type {
+  DeviceToken,
+  NewNotification,
+  NotificationItem,
+  NotificationPreferences,
+  NotificationType,
+} from '../types/notifications';
+
+/**
+ * notifications/{uid}            preferences (muted types)
+ * notifications/{uid}/items/{id} notification items (written since engagement v1)
+ * userDevices/{uid}/tokens/{id}  FCM registration tokens
+ */
+
+const COLLECTION_NOTIFICATIONS = 'notifications';
+const COLLECTION_USER_DEVICES = 'userDevices';
+const BATCH_SIZE = 400;
+
+function itemsCol(uid: string) {
+  return adminDb.collection(COLLECTION_NOTIFICATIONS).doc(uid).collection('items');
+}
+
+function tokensCol(uid: string) {
+  return adminDb.collection(COLLECTION_USER_DEVICES).doc(uid).collection('tokens');
+}
+
+function toIso(value: any): string | undefined {
+  if (!value) return undefined;
+  if (typeof value.toDate === 'function') return value.toDate().toISOString();
+  return String(value);
+}
+
+function normalizeItem(id: string, data: any): NotificationItem {
+  return {
+    ...data,
+    id,
+    read: data?.read === true,
+    createdAt: toIso(data?.createdAt) || new Date(0).toISOString(),
+    ...(data?.readAt ? { readAt: toIso(data.readAt) } : {}),
+  } as NotificationItem;
+}
+
+// Token doc ids are derived from the token so re-registering the same device is idempotent
+function tokenDocId(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex').slice(0, 40);
+}
+
+/**
+ * Write a notification. With `dedupeKey` the item id is fixed and a second write with the
+ * same key is ignored (returns null), so retried producers do not notify twice.
+ */
+export async function createNotification(
+  uid: string,
+  input: NewNotification,
+  dedupeKey?: string
+): Promise<string | null> {
+  const ref = dedupeKey ? itemsCol(uid).doc(dedupeKey) : itemsCol(uid).doc();
+  const payload = Object.entries(input).reduce((acc, [k, v]) => {
+    if (v !== undefined) (acc as any)[k] = v;
+    return acc;
+  }, {} as Record<string, any>);
+  try {
+    await ref.create({
+      ...payload,
+      read: false,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  } catch (err: any) {
+    // ALREADY_EXISTS
+    if (dedupeKey && (err?.code === 6 || /already exists/i.test(String(err?.message)))) return null;
+    throw err;
+  }
+  return ref.id;
+}
+
+export async function listNotifications(
+  uid: string,
+  params: { limit?: number; cursor?: string; unreadOnly?: boolean; type?: NotificationType }
+): Promise<{ items: NotificationItem[]; nextCursor: string | null }> {
+  const limit = Math.max(1, Math.min(Number(params.limit) || 20, 100));
+  let q: FirebaseFirestore.Query = itemsCol(uid);
+  if (params.unreadOnly) q = q.where('read', '==', false);
+  if (params.type) q = q.where('type', '==', params.type);
+  q = q.orderBy('createdAt', 'desc');
+
+  if (params.cursor) {
+    const cursorSnap = await itemsCol(uid).doc(params.cursor).get();
+    if (cursorSnap.exists) q = q.startAfter(cursorSnap);
+  }
+
+  const snap = await q.limit(limit + 1).get();
+  const docs = snap.docs.slice(0, limit);
+  return {
+    items: docs.map((d) => normalizeItem(d.id, d.data())),
+    nextCursor: snap.docs.length > limit ? docs[docs.length - 1].id : null,
+  };
+}
+
+export async function countUnread(uid: string): Promise<number> {
+  const snap = await itemsCol(uid).where('read', '==', false).count().get();
+  return snap.data().count;
+}
+
+/** Returns the number of items whose state changed. Unknown ids are ignored. */
+export async function setReadState(uid: string, ids: string[], read: boolean): Promise<number> {
+  let changed = 0;
+  for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+    const refs = ids.slice(i, i + BATCH_SIZE).map((id) => itemsCol(uid).doc(id));
+    const snaps = await adminDb.getAll(...refs);
+    const batch = adminDb.batch();
+    let writes = 0;
+    for (const snap of snaps) {
+      if (!snap.exists || (snap.data()?.read === true) === read) continue;
+      batch.update(snap.ref, {
+        read,
+        readAt: read ? admin.firestore.FieldValue.serverTimestamp() : admin.firestore.FieldValue.delete(),
+      });
+      writes++;
+    }
+    if (writes > 0) await batch.commit();
+    changed += writes;
+  }
+  return changed;
+}
+
+export async function markAllRead(uid: string): Promise<number> {
+  let changed = 0;
+  // Page through unread items; each committed batch drops out of the next query
+  for (;;) {
+    const snap = await itemsCol(uid).where('read', '==', false).limit(BATCH_SIZE).get();
+    if (snap.empty) break;
+    const batch = adminDb.batch();
+    snap.docs.forEach((d) =>
+      batch.update(d.ref, { read: true, readAt: admin.firestore.FieldValue.serverTimestamp() })
+    );
+    await batch.commit();
+    changed += snap.size;
+    if (snap.size < BATCH_SIZE) break;
+  }
+  return changed;
+}
+
+export async function getPreferences(uid: string): Promise<NotificationPreferences> {
+  const snap = await adminDb.collection(COLLECTION_NOTIFICATIONS).doc(uid).get();
+  const data = snap.exists ? (snap.data() as any) : {};
+  return {
+    muted: Array.isArray(data?.preferences?.muted) ? data.preferences.muted : [],
+    ...(data?.preferences?.updatedAt ? { updatedAt: toIso(data.preferences.updatedAt) } : {}),
+  };
+}
+
+export async function setMutedTypes(uid: string, muted: NotificationType[]): Promise<NotificationPreferences> {
+  const updatedAt = new Date().toISOString();
+  await adminDb
+    .collection(COLLECTION_NOTIFICATIONS)
+    .doc(uid)
+    .set({ preferences: { muted, updatedAt } }, { merge: true });
+  return { muted, updatedAt };
+}
+
+export async function listDeviceTokens(uid: string): Promise<DeviceToken[]> {
+  const snap = await tokensCol(uid).get();
+  return snap.docs
+    .map((d) => {
+      const data = d.data() as any;
+      return {
+        token: data?.token,
+        platform: data?.platform,
+        userAgent: data?.userAgent,
+        createdAt: toIso(data?.createdAt),
+        lastSeenAt: toIso(data?.lastSeenAt),
+      } as DeviceToken;
+    })
+    .filter((d) => typeof d.token === 'string' && d.token.trim().length > 0);
+}
+
+export async function upsertDeviceToken(uid: string, device: DeviceToken): Promise<void> {
+  const ref = tokensCol(uid).doc(tokenDocId(device.token));
+  const now = new Date().toISOString();
+  const existing = await ref.get();
+  await ref.set(
+    {
+      token: device.token,
+      ...(device.platform ? { platform: device.platform } : {}),
+      ...(device.userAgent ? { userAgent: device.userAgent } : {}),
+      ...(existing.exists ? {} : { createdAt: now }),
+      lastSeenAt: now,
+    },
+    { merge: true }
+  );
+}
+
+/** Removes every doc holding the token (older clients wrote tokens under random ids). */
+export async function removeDeviceTokens(uid: string, tokens: string[]): Promise<number> {
+  let removed = 0;
+  for (const token of tokens) {
+    const snap = await tokensCol(uid).where('token', '==', token).get();
+    const refs = snap.docs.map((d) => d.ref);
+    const derived = tokensCol(uid).doc(tokenDocId(token));
+    if (!refs.some((r) => r.id === derived.id)) refs.push(derived);
+    const batch = adminDb.batch();
+    refs.forEach((r) => batch.delete(r));
+    await batch.commit();
+    removed += snap.size;
+  }
+  return removed;
+}
+
+export const notificationsRepository = {
+  createNotification,
+  listNotifications,
+  countUnread,
+  setReadState,
+  markAllRead,
+  getPreferences,
+  setMutedTypes,
+  listDeviceTokens,
+  upsertDeviceToken,
+  removeDeviceTokens,
+};
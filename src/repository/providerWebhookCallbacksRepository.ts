@@ -0,0 +1,55 @@
+import { adminDb, admin } from '../config/firebaseAdmin';
+import { logger } from '../utils/logger';
+import type { ProviderWebhookCallback, WebhookProvider } from '../utils/providerWebhooks';
+
+/**
+ * Provider webhook callbacks issued at submit time.
+ *
+ * Layout:
+ *   providerWebhookCallbacks/{nonce} -> { provider, uid, taskId, createdAt }
+ *
+ * The nonce is part of the signed callback URL; this doc ties it to the single provider task it
+ * was issued for, so a callback token cannot be replayed against another task of the same user.
+ */
+
+const COLLECTION = 'providerWebhookCallbacks';
+
+export interface ProviderWebhookBinding {
+  provider: WebhookProvider;
+  uid: string;
+  taskId: string;
+}
+
+/**
+ * Record the task id returned by the provider for a callback. Failures are logged, not thrown:
+ * the task is already submitted and still completes through client polling.
+ */
+export async function bindCallback(callback: ProviderWebhookCallback, taskId: string): Promise<void> {
+  if (!taskId) return;
+  try {
+    await adminDb.collection(COLLECTION).doc(callback.nonce).set({
+      provider: callback.provider,
+      uid: callback.uid,
+      taskId: String(taskId),
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  } catch (err: any) {
+    logger.warn(
+      { provider: callback.provider, uid: callback.uid, taskId, err: err?.message },
+      '[PROVIDER_WEBHOOK] Failed to bind callback to task; completion falls back to polling'
+    );
+  }
+}
+
+export async function getBinding(nonce: string): Promise<ProviderWebhookBinding | null> {
+  if (!nonce) return null;
+  const snap = await adminDb.collection(COLLECTION).doc(nonce).get();
+  if (!snap.exists) return null;
+  const data = snap.data() as any;
+  return { provider: data.provider, uid: String(data.uid || ''), taskId: String(data.taskId || '') };
+}
+
+export const providerWebhookCallbacksRepository = {
+  bindCallback,
+  getBinding,
+};
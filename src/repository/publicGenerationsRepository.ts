@@ -614,6 +614,7 @@ export async function getPublicById(generationId: string): Promise<GenerationHis
 
   const data = snap.data() as any;
   if (data.isPublic !== true) return null; // Only return if public
+  if (data.isDeleted === true) return null; // In the owner's trash
 
   return normalizePublicItem(snap.id, data);
 }
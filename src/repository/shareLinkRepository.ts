@@ -0,0 +1,79 @@
+import { admin, adminDb } from '../config/firebaseAdmin';
+import type { ShareLinkRecord } from '../types/share';
+
+/**
+ * Share links live in a top-level collection keyed by token, so an anonymous request
+ * resolves its link with a single read.
+ */
+
+const COLLECTION = 'shareLinks';
+
+function collection() {
+  return adminDb.collection(COLLECTION);
+}
+
+async function createLink(record: ShareLinkRecord): Promise<ShareLinkRecord> {
+  await collection().doc(record.token).create(record);
+  return record;
+}
+
+async function getLink(token: string): Promise<ShareLinkRecord | null> {
+  const snap = await collection().doc(token).get();
+  return snap.exists ? (snap.data() as ShareLinkRecord) : null;
+}
+
+async function listByUser(
+  uid: string,
+  filter: { historyId?: string; collectionId?: string } = {}
+): Promise<ShareLinkRecord[]> {
+  let q: FirebaseFirestore.Query = collection().where('uid', '==', uid);
+  if (filter.historyId) q = q.where('historyId', '==', filter.historyId);
+  if (filter.collectionId) q = q.where('collectionId', '==', filter.collectionId);
+  const snap = await q.get();
+  return snap.docs
+    .map((d) => d.data() as ShareLinkRecord)
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+}
+
+/** One page of the owner's links, newest first; the cursor is the token of the last link. */
+async function listPageByUser(
+  uid: string,
+  filter: { historyId?: string; collectionId?: string },
+  page: { limit: number; cursor?: string }
+): Promise<{ links: ShareLinkRecord[]; nextCursor: string | null }> {
+  let q: FirebaseFirestore.Query = collection().where('uid', '==', uid);
+  if (filter.historyId) q = q.where('historyId', '==', filter.historyId);
+  if (filter.collectionId) q = q.where('collectionId', '==', filter.collectionId);
+  q = q.orderBy('createdAt', 'desc');
+  if (page.cursor) {
+    const cursorSnap = await collection().doc(page.cursor).get();
+    if (!cursorSnap.exists || (cursorSnap.data() as ShareLinkRecord).uid !== uid) return { links: [], nextCursor: null };
+    q = q.startAfter(cursorSnap);
+  }
+  const snap = await q.limit(page.limit + 1).get();
+  const links = snap.docs.slice(0, page.limit).map((d) => d.data() as ShareLinkRecord);
+  return {
+    links,
+    nextCursor: snap.docs.length > page.limit ? links[links.length - 1].token : null,
+  };
+}
+
+async function revokeLink(token: string, revokedAt: string): Promise<void> {
+  await collection().doc(token).update({ revokedAt });
+}
+
+async function recordView(token: string, at: string): Promise<void> {
+  await collection().doc(token).update({
+    viewCount: admin.firestore.FieldValue.increment(1),
+    lastViewedAt: at,
+  });
+}
+
+export const shareLinkRepository = {
+  createLink,
+  getLink,
+  listByUser,
+  listPageByUser,
+  revokeLink,
+  recordView,
+};
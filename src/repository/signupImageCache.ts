@@ -157,6 +157,21 @@ export async function refreshSignupImageCache(): Promise<number> {
   }
 }
 
+/**
+ * Drop the cached images of a generation, e.g. when its owner moves it to the trash.
+ * The cache is otherwise only rebuilt by the daily refresh.
+ */
+export async function removeGeneration(generationId: string): Promise<number> {
+  const snapshot = await adminDb.collection(COLLECTION_NAME).where('generationId', '==', generationId).get();
+  if (snapshot.empty) return 0;
+
+  const batch = adminDb.batch();
+  snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+  await batch.commit();
+  console.log(`[signupImageCache] Removed ${snapshot.size} cached images of generation ${generationId}`);
+  return snapshot.size;
+}
+
 /**
  * Get cache statistics
  */
@@ -187,6 +202,7 @@ export async function getCacheStats(): Promise<{ count: number; oldestCache?: Da
 export const signupImageCache = {
   getRandomSignupImage,
   refreshSignupImageCache,
+  removeGeneration,
   getCacheStats,
 };
 
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { adminController } from '../controllers/adminController';
+import { requireAuth } from '../middlewares/authMiddleware';
+import { requirePermission } from '../middlewares/permissionMiddleware';
+
+const router = Router();
+
+// All admin routes require authentication; each route declares its own permission
+router.use(requireAuth);
+
+// Audit trail of privileged calls
+router.get('/audit-logs', requirePermission('audit:read'), adminController.listAuditLogs);
+
+// Background job queues (counts, pending and dead-letter jobs)
+router.get('/jobs', requirePermission('jobs:read'), adminController.listJobs);
+
+// Role management
+router.get('/users/:uid/roles', requirePermission('users:roles'), adminController.getUserRoles);
+router.put('/users/:uid/roles', requirePermission('users:roles'), adminController.setUserRoles);
+
+export default router;
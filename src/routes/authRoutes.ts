@@ -2,8 +2,10 @@ import { Router } from 'express';
 import { authController, searchUsersForShare, sessionCacheStatus } from '../controllers/auth/authController';
 import { redeemCodeController } from '../controllers/redeemCodeController';
 import { publicVisibilityController } from '../controllers/auth/publicVisibilityController';
+import { apiKeyController } from '../controllers/auth/apiKeyController';
+import { accountController } from '../controllers/auth/accountController';
 import { requireAuth, optionalAuth } from '../middlewares/authMiddleware';
-import { validateSession, validateOtpStart, validateOtpVerify, validateUsername, validateUpdateMe, validateLogin, validateGoogleSignIn, validateGoogleUsername, validateCheckUsername, validateForgotPassword, validateCompleteResetPassword } from '../middlewares/validateAuth';
+import { validateSession, validateOtpStart, validateOtpVerify, validateUsername, validateUpdateMe, validateLogin, validateGoogleSignIn, validateGoogleUsername, validateCheckUsername, validateForgotPassword, validateCompleteResetPassword, validateCreateApiKey, validateUpdateApiKey, validateDeleteAccount } from '../middlewares/validateAuth';
 import { env } from '../config/env';
 
 const router = Router();
@@ -30,6 +32,19 @@ router.post('/redeem-code/apply', requireAuth, redeemCodeController.applyRedeemC
 router.get('/can-toggle-public', requireAuth, publicVisibilityController.canTogglePublic);
 // Debug: check if current session cookie is cached in Redis
 router.get('/session-cache', requireAuth, sessionCacheStatus);
+// Personal API keys for programmatic access (Authorization: Bearer wm_...)
+router.get('/api-keys', requireAuth, apiKeyController.listApiKeys);
+router.post('/api-keys', requireAuth, validateCreateApiKey, apiKeyController.createApiKey);
+router.patch('/api-keys/:id', requireAuth, validateUpdateApiKey, apiKeyController.updateApiKey);
+router.post('/api-keys/:id/rotate', requireAuth, apiKeyController.rotateApiKey);
+router.delete('/api-keys/:id', requireAuth, apiKeyController.revokeApiKey);
+// Self-service data export and account deletion (deletion runs after a grace period)
+router.post('/me/export', requireAuth, accountController.requestDataExport);
+router.get('/me/exports', requireAuth, accountController.listDataExports);
+router.get('/me/export/:exportId', requireAuth, accountController.getDataExport);
+router.delete('/me', requireAuth, validateDeleteAccount, accountController.requestAccountDeletion);
+router.get('/me/deletion', requireAuth, accountController.getAccountDeletion);
+router.post('/me/deletion/cancel', requireAuth, accountController.cancelAccountDeletion);
 // Debug endpoints removed - cleaned up per request
 
 
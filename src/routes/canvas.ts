@@ -1,10 +1,14 @@
 import { Router } from 'express';
 import { requireAuth, optionalAuth } from '../middlewares/authMiddleware';
+import { requirePermission } from '../middlewares/permissionMiddleware';
 import { validateCanvasGenerate } from '../middlewares/validators/canvas/validateCanvasGenerate';
 import * as projectsController from '../controllers/canvas/projectsController';
 // Ops API removed: local-only undo/redo with realtime updates
 // import * as opsController from '../controllers/canvas/opsController';
 import * as snapshotController from '../controllers/canvas/snapshotController';
+import * as versionsController from '../controllers/canvas/versionsController';
+import * as inviteLinksController from '../controllers/canvas/inviteLinksController';
+import * as exportsController from '../controllers/canvas/exportsController';
 import * as generateController from '../controllers/canvas/generateController';
 import * as cursorAgentController from '../controllers/canvas/cursorAgentController';
 import * as workersController from '../controllers/canvas/workersController';
@@ -50,12 +54,24 @@ router.patch('/projects/:id', projectsController.updateProject);
 router.delete('/projects/:id', projectsController.deleteProject);
 router.post('/projects/:id/collaborators', projectsController.addCollaborator);
 router.post('/projects/:id/invitations', projectsController.inviteCollaborator);
+router.delete('/projects/:id/collaborators/:uid', projectsController.removeCollaborator);
+router.post('/projects/:id/leave', projectsController.leaveProject);
+router.post('/projects/:id/transfer', projectsController.transferProject);
+router.post('/projects/:id/duplicate', projectsController.duplicateProject);
+router.post('/projects/:id/template', requirePermission('templates:write'), projectsController.publishAsTemplate);
+router.post('/projects/from-template/:templateId', projectsController.createProjectFromTemplate);
 router.get('/invitations', projectsController.listInvitations);
 router.get('/invitations/sent', projectsController.listSentInvitations);
 router.post('/invitations/:invitationId/accept', projectsController.acceptInvitation);
 router.post('/invitations/:invitationId/dismiss', projectsController.dismissInvitation);
 router.post('/invitations/:invitationId/cancel', projectsController.cancelSentInvitation);
 router.patch('/invitations/:invitationId/role', projectsController.updateSentInvitationRole);
+// Shareable join links
+router.post('/projects/:id/invite-links', inviteLinksController.createInviteLink);
+router.get('/projects/:id/invite-links', inviteLinksController.listInviteLinks);
+router.delete('/projects/:id/invite-links/:token', inviteLinksController.revokeInviteLink);
+router.get('/join/:token', inviteLinksController.previewInviteLink);
+router.post('/join/:token', inviteLinksController.joinWithInviteLink);
 
 // Operations
 // Removed ops routes to reduce server-side op churn
@@ -72,6 +88,17 @@ router.post('/projects/:id/collab/heartbeat', snapshotController.heartbeatCollab
 router.delete('/projects/:id/collab/leave', snapshotController.leaveCollab);
 router.get('/projects/:id/collab/status', snapshotController.collabStatusController);
 
+// Version history (named checkpoints, read-only views, diff, restore-as-new-version)
+router.get('/projects/:id/versions', versionsController.listVersions);
+router.post('/projects/:id/versions', versionsController.createVersion);
+router.get('/projects/:id/versions/diff', versionsController.diffVersions);
+router.get('/projects/:id/versions/:versionId', versionsController.getVersion);
+router.post('/projects/:id/versions/:versionId/restore', versionsController.restoreVersion);
+
+// Server-side export (PNG/PDF/SVG), rendered by a background job
+router.post('/projects/:id/export', exportsController.createExport);
+router.get('/projects/:id/exports/:exportId', exportsController.getExport);
+
 import { makeCreditCost } from '../middlewares/creditCostFactory';
 import {
     computeCanvasGenerateCost,
@@ -121,8 +148,8 @@ router.post('/agent/plan', cursorAgentController.planAgentActions);
 router.post('/agent/execute', cursorAgentController.executeAgentPlan);
 
 // Workers (admin/maintenance endpoints)
-router.post('/workers/snapshot', workersController.triggerSnapshot);
-router.post('/workers/media-gc', workersController.triggerMediaGC);
+router.post('/workers/snapshot', requirePermission('canvas:workers'), workersController.triggerSnapshot);
+router.post('/workers/media-gc', requirePermission('canvas:workers'), workersController.triggerMediaGC);
 
 // Presence (real-time collaboration)
 router.post('/projects/:id/presence', presenceController.updatePresence);
@@ -1,12 +1,27 @@
 import express from 'express';
 import { formatApiResponse } from '../utils/formatApiResponse';
-import { generateGpt5NanoResponse, Gpt5NanoChatMessage } from '../services/genai/gpt5NanoService';
+import {
+    generateGpt5NanoResponse,
+    streamGpt5NanoResponse,
+    Gpt5NanoChatMessage,
+    Gpt5NanoOptions,
+} from '../services/genai/gpt5NanoService';
 import { creditsRepository } from '../repository/creditsRepository';
 import { requireAuth } from '../middlewares/authMiddleware';
-import { assistantThreadsRepository } from '../repository/assistantThreadsRepository';
+import { assistantThreadsRepository, AssistantThread } from '../repository/assistantThreadsRepository';
 import { AGENT_DEFAULT_MODEL_ID } from '../config/assistantModels';
+import { ApiError } from '../utils/errorHandler';
+import { openEventStream } from '../utils/eventStream';
+import {
+    assistantAgentService,
+    AgentToolMessage,
+    AgentToolsOutcome,
+    AgentToolEvent,
+} from '../services/genai/assistantAgentService';
 
 const router = express.Router();
+const AGENT_CREDIT_COST = 1;
+const AGENT_HISTORY_MESSAGES = 12;
 const AGENT_ASSISTANT_STYLE_PROMPT = `You are a helpful, natural conversational assistant.
 
 Write like ChatGPT: clear, warm, direct, and human.
@@ -20,153 +35,409 @@ Style rules:
 - Avoid filler like "To get started" and avoid over-produced formatting.
 - Keep creative collaboration natural and practical.
 - Do not use markdown star bullets like "*" for lists.
-- When listing points, prefer numbers, letters, roman numerals, or short labeled lines.`;
+- When listing points, prefer numbers, letters, roman numerals, or short labeled lines.
+- TOOL_CALL and TOOL_RESULT lines are actions you took for the user. Say briefly what was done and share resulting links; if a tool failed, say so plainly. Never write TOOL_ lines yourself.`;
+const AGENT_TOOL_REPLY_PROMPT = 'Reply to the user now, based on the tool results above.';
 
 function serializeContentForContext(content: string): string {
     return String(content || '').trim();
 }
 
+interface AgentTurn {
+    uid: string;
+    /** The user's message; null when the turn continues after a tool call confirmation. */
+    sanitized: string | null;
+    activeThread: AssistantThread;
+    conversationHistory: Gpt5NanoChatMessage[];
+    projectId?: string;
+    /** Message the turn's messages follow; undefined continues the thread's active branch. */
+    parentId?: string | null;
+    /** Tool messages that precede this turn's own tool steps (the confirmed call's result). */
+    leadingMessages: AgentToolMessage[];
+}
+
+async function validateAgentCredits(uid: string): Promise<void> {
+    try {
+        await creditsRepository.validateGeneration(uid, AGENT_CREDIT_COST);
+    } catch (error: any) {
+        if (error.code === 'INSUFFICIENT_CREDITS') {
+            throw new ApiError('Insufficient credits. Please upgrade or top up.', 402, { code: 'INSUFFICIENT_CREDITS' });
+        }
+        throw error;
+    }
+}
+
+async function getAgentThread(uid: string, threadId: string): Promise<AssistantThread> {
+    const thread = await assistantThreadsRepository.getThread(uid, threadId);
+    if (!thread) {
+        throw new ApiError('Assistant thread not found', 404);
+    }
+    if (thread.mode !== 'agent') {
+        throw new ApiError('Agent route can only be used with agent threads', 400);
+    }
+    return thread;
+}
+
+/** Context for the agent: the latest messages of the branch ending at `leafId` (default: the active branch). */
+async function branchContext(uid: string, threadId: string, leafId?: string | null) {
+    const { messages } = await assistantThreadsRepository.listBranchMessages(uid, threadId, {
+        leafId,
+        limit: AGENT_HISTORY_MESSAGES,
+    });
+    return messages;
+}
+
+/**
+ * Editing a past user message starts a sibling branch from that message's parent. Returns the
+ * parent id, or undefined when the turn simply continues the active branch.
+ */
+async function resolveEditParent(uid: string, threadId: string, editMessageId: unknown): Promise<string | null | undefined> {
+    if (editMessageId === undefined || editMessageId === null) return undefined;
+    if (typeof editMessageId !== 'string' || !editMessageId) {
+        throw new ApiError('editMessageId must be a string', 400);
+    }
+    const edited = await assistantThreadsRepository.getMessage(uid, threadId, editMessageId);
+    if (!edited || edited.role !== 'user' || edited.toolCall || edited.toolResult) {
+        throw new ApiError('editMessageId must be a user message of this thread', 400);
+    }
+    return assistantThreadsRepository.resolveParentId(uid, threadId, editMessageId);
+}
+
+/** Validate the request, check credits and load the thread; shared by the JSON and streaming routes. */
+async function prepareAgentTurn(uid: string, body: any): Promise<AgentTurn> {
+    const { message, history = [], threadId, projectId, editMessageId } = (body || {}) as {
+        message: string;
+        history?: Array<{ role: 'user' | 'assistant'; content: string }>;
+        threadId?: string;
+        projectId?: string;
+        editMessageId?: string;
+    };
+
+    if (!message || typeof message !== 'string' || !message.trim()) {
+        throw new ApiError('message (string) is required', 400);
+    }
+
+    // 1. Validate Credits
+    await validateAgentCredits(uid);
+
+    const sanitized = message.trim().slice(0, 2000);
+
+    if (editMessageId != null && !threadId) {
+        throw new ApiError('editMessageId requires threadId', 400);
+    }
+    const activeThread = threadId
+        ? await getAgentThread(uid, threadId)
+        : await assistantThreadsRepository.createThread(uid, {
+            mode: 'agent',
+            modelId: AGENT_DEFAULT_MODEL_ID,
+        });
+    const parentId = await resolveEditParent(uid, activeThread.id, editMessageId);
+
+    const persistedMessages = await branchContext(uid, activeThread.id, parentId);
+    const fallbackHistory = history
+        .slice(-6)
+        .map((m) => ({ role: m.role, content: serializeContentForContext(m.content) }));
+    // An edit at the start of the thread has no history at all, not the client's
+    const conversationHistory: Gpt5NanoChatMessage[] = (
+        persistedMessages.length > 0 || parentId !== undefined
+            ? persistedMessages.map(assistantAgentService.toAgentContextMessage)
+            : fallbackHistory
+    ).slice(-AGENT_HISTORY_MESSAGES);
+
+    console.log('[AssistantRoute] Request', {
+        uid,
+        threadId: activeThread.id,
+        messageLength: sanitized.length,
+        historyTurns: conversationHistory.length,
+        ...(parentId !== undefined ? { editMessageId } : {}),
+    });
+
+    return {
+        uid,
+        sanitized,
+        activeThread,
+        conversationHistory,
+        projectId: typeof projectId === 'string' && projectId.trim() ? projectId.trim() : undefined,
+        parentId,
+        leadingMessages: [],
+    };
+}
+
+/** Let the agent call tools before it replies; `onEvent` relays tool steps to a stream. */
+function runTurnTools(
+    req: express.Request,
+    turn: AgentTurn,
+    options: { signal?: AbortSignal; onEvent?: (event: AgentToolEvent, data: unknown) => void } = {}
+): Promise<AgentToolsOutcome> {
+    const context = turn.sanitized
+        ? [...turn.conversationHistory, { role: 'user' as const, content: turn.sanitized }]
+        : turn.conversationHistory;
+    return assistantAgentService.runAgentTools({
+        req,
+        uid: turn.uid,
+        threadId: turn.activeThread.id,
+        context,
+        projectId: turn.projectId,
+        ...options,
+    });
+}
+
+/** Prompt and options for the reply model; after tool steps the user's message moves into the context. */
+function agentReplyInput(turn: AgentTurn, tools: AgentToolsOutcome): { prompt: string; options: Gpt5NanoOptions } {
+    const options: Gpt5NanoOptions = {
+        systemPrompt: AGENT_ASSISTANT_STYLE_PROMPT,
+        messages: turn.conversationHistory,
+        verbosity: 'low',
+        reasoningEffort: 'minimal',
+        maxCompletionTokens: 180,
+    };
+    if (turn.sanitized && tools.transcript.length === 0) {
+        return { prompt: turn.sanitized, options };
+    }
+    return {
+        prompt: AGENT_TOOL_REPLY_PROMPT,
+        options: {
+            ...options,
+            messages: [
+                ...turn.conversationHistory,
+                ...(turn.sanitized ? [{ role: 'user' as const, content: turn.sanitized }] : []),
+                ...tools.transcript,
+            ],
+            maxCompletionTokens: 400,
+        },
+    };
+}
+
+/**
+ * Debit the turn and persist its messages: the user's message, tool calls/results in order, then
+ * the reply. `cancelled` marks a reply the client stopped early.
+ */
+async function completeAgentTurn(
+    turn: AgentTurn,
+    reply: string,
+    tools: AgentToolsOutcome,
+    cancelled = false
+): Promise<AssistantThread> {
+    const { uid, sanitized, activeThread } = turn;
+    const agentMetadata = { mode: 'agent', modelId: AGENT_DEFAULT_MODEL_ID };
+
+    // 2. Deduct Credits
+    // Use a unique request ID for idempotency
+    const requestId = `chat-agent-${uid}-${Date.now()}`;
+    await creditsRepository.writeDebitIfAbsent(
+        uid,
+        requestId,
+        AGENT_CREDIT_COST,
+        'Assistant Chat',
+        {
+            messageLength: sanitized?.length ?? 0,
+            mode: 'agent',
+            modelId: AGENT_DEFAULT_MODEL_ID,
+            threadId: activeThread.id,
+        },
+        'gpt-5-nano'
+    );
+
+    await assistantThreadsRepository.appendMessages(uid, activeThread.id, {
+        threadMode: 'agent',
+        modelId: AGENT_DEFAULT_MODEL_ID,
+        parentId: turn.parentId,
+        messages: [
+            ...(sanitized
+                ? [{ role: 'user' as const, content: sanitized, metadata: agentMetadata }]
+                : []),
+            ...[...turn.leadingMessages, ...tools.messages].map((message) => ({ ...message, metadata: agentMetadata })),
+            {
+                role: 'assistant',
+                content: reply.trim(),
+                metadata: {
+                    ...agentMetadata,
+                    requestId,
+                    ...(tools.pendingToolCall ? { pendingToolCallId: tools.pendingToolCall.id } : {}),
+                    ...(cancelled ? { cancelled: true } : {}),
+                },
+            },
+        ],
+    });
+
+    console.log('[AssistantRoute] Reply generated & credits deducted', {
+        replyLength: reply.length,
+        toolMessages: tools.messages.length,
+        cancelled,
+    });
+    return await assistantThreadsRepository.getThread(uid, activeThread.id) || activeThread;
+}
+
+/** Run the turn's tools and reply without streaming; shared by POST / and the confirmation route. */
+async function answerAgentTurn(req: express.Request, res: express.Response, turn: AgentTurn, tools?: AgentToolsOutcome) {
+    const outcome = tools || await runTurnTools(req, turn);
+    let reply: string;
+    if (outcome.pendingToolCall) {
+        reply = assistantAgentService.confirmationReply(outcome.pendingToolCall);
+    } else {
+        const { prompt, options } = agentReplyInput(turn, outcome);
+        reply = await generateGpt5NanoResponse(prompt, options);
+    }
+    const thread = await completeAgentTurn(turn, reply, outcome);
+
+    return res.json(
+        formatApiResponse('success', 'OK', {
+            reply: reply.trim(),
+            thread,
+            threadId: thread.id,
+            toolMessages: [...turn.leadingMessages, ...outcome.messages],
+            pendingToolCall: outcome.pendingToolCall,
+        })
+    );
+}
+
+function sendAgentError(res: express.Response, error: any) {
+    if (error instanceof ApiError) {
+        return res.status(error.statusCode).json(formatApiResponse('error', error.message, error.data ?? null));
+    }
+    console.error('[AssistantRoute] Error:', error?.message);
+    return res.status(500).json(
+        formatApiResponse('error', 'Assistant temporarily unavailable. Please try again.', null)
+    );
+}
+
 /**
  * POST /api/chat/assistant
  * WildMind AI home-page assistant — no authentication required
- * Uses GPT-5 Nano via Replicate for fast, conversational responses
+ * Uses GPT-5 Nano via Replicate for fast, conversational responses.
+ * Body { message, threadId?, projectId? }. The agent may call tools (generate image/video/music,
+ * enhance prompt, search library, add to canvas) before replying; a call costing more than
+ * ASSISTANT_AGENT_CONFIRM_CREDITS is returned as `pendingToolCall` and waits for
+ * POST /tool-calls/:toolCallId/confirm. `editMessageId` resubmits an edited version of a past
+ * user message as a new branch of the thread.
  */
 // Secured Route
 router.post('/', requireAuth, async (req, res) => {
     try {
         // Authenticated user from middleware
         const uid = (req as any).uid;
+        const turn = await prepareAgentTurn(uid, req.body);
+        return await answerAgentTurn(req, res, turn);
+    } catch (error: any) {
+        return sendAgentError(res, error);
+    }
+});
 
-        const { message, history = [], threadId } = req.body as {
-            message: string;
-            history?: Array<{ role: 'user' | 'assistant'; content: string }>;
-            threadId?: string;
-        };
+/**
+ * POST /api/chat/assistant/stream
+ * Same request as POST /, answered as server-sent events:
+ *   thread { threadId } → (tool_call | tool_result | confirmation_required)… → delta { text }…
+ *   → done { reply, thread, threadId, pendingToolCall, cancelled } | error { message }
+ * Validation failures are plain JSON errors, before the stream opens. Closing the connection
+ * cancels the model call (and any tool not yet started); tool steps and any partial reply are
+ * still billed and saved.
+ */
+router.post('/stream', requireAuth, async (req, res) => {
+    const uid = (req as any).uid;
+    let turn: AgentTurn;
+    try {
+        turn = await prepareAgentTurn(uid, req.body);
+    } catch (error: any) {
+        return sendAgentError(res, error);
+    }
 
-        if (!message || typeof message !== 'string' || !message.trim()) {
-            return res.status(400).json(
-                formatApiResponse('error', 'message (string) is required', null)
-            );
-        }
+    const stream = openEventStream(req, res);
+    stream.send('thread', { threadId: turn.activeThread.id });
+    try {
+        const tools = await runTurnTools(req, turn, {
+            signal: stream.signal,
+            onEvent: (event, data) => stream.send(event, data),
+        });
 
-        // 1. Validate Credits
-        const COST = 1;
-        try {
-            await creditsRepository.validateGeneration(uid, COST);
-        } catch (error: any) {
-            if (error.code === 'INSUFFICIENT_CREDITS') {
-                return res.status(402).json(
-                    formatApiResponse('error', 'Insufficient credits. Please upgrade or top up.', { code: 'INSUFFICIENT_CREDITS' })
-                );
-            }
-            throw error;
+        let text = '';
+        let cancelled = tools.cancelled;
+        if (tools.pendingToolCall) {
+            text = assistantAgentService.confirmationReply(tools.pendingToolCall);
+            stream.send('delta', { text });
+        } else if (!cancelled) {
+            const { prompt, options } = agentReplyInput(turn, tools);
+            ({ text, cancelled } = await streamGpt5NanoResponse(prompt, options, {
+                signal: stream.signal,
+                onDelta: (delta) => stream.send('delta', { text: delta }),
+            }));
+        }
+        if (cancelled && !text && tools.messages.length === 0) {
+            console.log('[AssistantRoute] Stream cancelled before any output', { uid, threadId: turn.activeThread.id });
+            return;
         }
 
-        const sanitized = message.trim().slice(0, 2000);
+        const thread = await completeAgentTurn(turn, text, tools, cancelled);
+        stream.send('done', {
+            reply: text,
+            thread,
+            threadId: thread.id,
+            pendingToolCall: tools.pendingToolCall,
+            cancelled,
+        });
+    } catch (error: any) {
+        console.error('[AssistantRoute] Stream error:', error?.message);
+        stream.send('error', { message: 'Assistant temporarily unavailable. Please try again.' });
+    } finally {
+        stream.end();
+    }
+});
 
-        let activeThread = threadId
-            ? await assistantThreadsRepository.getThread(uid, threadId)
-            : await assistantThreadsRepository.createThread(uid, {
-                mode: 'agent',
-                modelId: AGENT_DEFAULT_MODEL_ID,
-            });
+/**
+ * POST /api/chat/assistant/tool-calls/:toolCallId/confirm
+ * Body { threadId, approve?: boolean (default true) }. Runs (or declines) a tool call that was
+ * waiting for confirmation, then the agent continues the turn and replies as POST / does.
+ * 409 when the call was already confirmed or declined.
+ */
+router.post('/tool-calls/:toolCallId/confirm', requireAuth, async (req, res) => {
+    try {
+        const uid = (req as any).uid;
+        const { threadId, approve = true } = (req.body || {}) as { threadId?: string; approve?: boolean };
+        if (!threadId || typeof threadId !== 'string') {
+            throw new ApiError('threadId (string) is required', 400);
+        }
 
-        if (!activeThread) {
-            return res.status(404).json(
-                formatApiResponse('error', 'Assistant thread not found', null)
-            );
+        await validateAgentCredits(uid);
+        const activeThread = await getAgentThread(uid, threadId);
+        const message = await assistantThreadsRepository.getToolCallMessage(uid, threadId, req.params.toolCallId);
+        if (!message?.toolCall) {
+            throw new ApiError('Tool call not found', 404);
         }
 
-        if (activeThread.mode !== 'agent') {
-            return res.status(400).json(
-                formatApiResponse('error', 'Agent route can only be used with agent threads', null)
-            );
+        const result = await assistantAgentService.resolvePendingToolCall({ req, uid, threadId }, message, approve !== false);
+        if (!result) {
+            throw new ApiError('Tool call is no longer waiting for confirmation', 409);
         }
 
-        const persistedMessages = await assistantThreadsRepository.listMessages(uid, activeThread.id, 20);
-        const fallbackHistory = history
-            .slice(-6)
-            .map((m) => ({ role: m.role, content: serializeContentForContext(m.content) }));
-        const conversationHistory: Gpt5NanoChatMessage[] = (
-            persistedMessages.length > 0
-                ? persistedMessages.slice(-12).map((m) => ({
-                    role: m.role,
-                    content: serializeContentForContext(m.content),
-                }))
-                : fallbackHistory
-        ).slice(-12);
-
-        console.log('[AssistantRoute] Request', {
+        const resultMessage = assistantAgentService.toolResultMessage(result.toolResult);
+        const persistedMessages = await branchContext(uid, threadId);
+        const conversationHistory = [
+            ...persistedMessages
+                .map((m) => (m.id === message.id ? { ...m, toolCall: result.toolCall } : m))
+                .map(assistantAgentService.toAgentContextMessage),
+            assistantAgentService.toAgentContextMessage(resultMessage),
+        ];
+        console.log('[AssistantRoute] Tool call resolved', {
             uid,
-            threadId: activeThread.id,
-            messageLength: sanitized.length,
-            historyTurns: conversationHistory.length,
-        });
-
-        const reply = await generateGpt5NanoResponse(sanitized, {
-            systemPrompt: AGENT_ASSISTANT_STYLE_PROMPT,
-            messages: conversationHistory,
-            verbosity: 'low',
-            reasoningEffort: 'minimal',
-            maxCompletionTokens: 180,
+            threadId,
+            tool: result.toolCall.name,
+            status: result.toolCall.status,
         });
 
-        // 2. Deduct Credits
-        // Use a unique request ID for idempotency
-        const requestId = `chat-agent-${uid}-${Date.now()}`;
-        await creditsRepository.writeDebitIfAbsent(
+        const turn: AgentTurn = {
             uid,
-            requestId,
-            COST,
-            'Assistant Chat',
-            {
-                messageLength: sanitized.length,
-                mode: 'agent',
-                modelId: AGENT_DEFAULT_MODEL_ID,
-                threadId: activeThread.id,
-            },
-            'gpt-5-nano'
-        );
-
-        await assistantThreadsRepository.appendMessages(uid, activeThread.id, {
-            threadMode: 'agent',
-            modelId: AGENT_DEFAULT_MODEL_ID,
-            messages: [
-                {
-                    role: 'user',
-                    content: sanitized,
-                    metadata: {
-                        mode: 'agent',
-                        modelId: AGENT_DEFAULT_MODEL_ID,
-                    },
-                },
-                {
-                    role: 'assistant',
-                    content: reply.trim(),
-                    metadata: {
-                        mode: 'agent',
-                        modelId: AGENT_DEFAULT_MODEL_ID,
-                        requestId,
-                    },
-                },
-            ],
-        });
-        activeThread = await assistantThreadsRepository.getThread(uid, activeThread.id) || activeThread;
-
-        console.log('[AssistantRoute] Reply generated & credits deducted', { replyLength: reply.length });
-
-        return res.json(
-            formatApiResponse('success', 'OK', {
-                reply: reply.trim(),
-                thread: activeThread,
-                threadId: activeThread.id,
-            })
-        );
+            sanitized: null,
+            activeThread,
+            conversationHistory,
+            projectId: typeof req.body?.projectId === 'string' ? req.body.projectId : undefined,
+            leadingMessages: [resultMessage],
+        };
+        // Only a call that went through lets the agent carry on with further steps
+        const tools: AgentToolsOutcome | undefined = result.toolResult.ok
+            ? undefined
+            : { messages: [], transcript: [], pendingToolCall: null, cancelled: false };
+        return await answerAgentTurn(req, res, turn, tools);
     } catch (error: any) {
-        console.error('[AssistantRoute] Error:', error?.message);
-        return res.status(500).json(
-            formatApiResponse('error', 'Assistant temporarily unavailable. Please try again.', null)
-        );
+        return sendAgentError(res, error);
     }
 });
 
@@ -12,7 +12,9 @@ import {
   Gemini25FlashChatModeInput,
   GPT52ChatModeInput,
   ChatModeModelId,
+  AssistantChatModeParams,
   generateAssistantChatModeResponse,
+  streamAssistantChatModeResponse,
   GeminiChatModeInput,
   getAssistantChatFinalPricingParams,
   getAssistantChatValidationPricingParams,
@@ -20,12 +22,15 @@ import {
 import {
   assistantThreadsRepository,
   AssistantAttachment,
+  AssistantThread,
 } from "../repository/assistantThreadsRepository";
 import {
   CHAT_MODEL_CONFIGS,
   CHAT_MODE_MODEL_IDS,
   isChatModeModelId,
 } from "../config/assistantModels";
+import { ApiError } from "../utils/errorHandler";
+import { openEventStream } from "../utils/eventStream";
 
 const router = express.Router();
 const DEFAULT_ASSISTANT_STYLE_PROMPT = `You are a helpful, natural conversational assistant.
@@ -383,396 +388,623 @@ function validateDeepSeekAttachments(
   return null;
 }
 
-router.post("/", requireAuth, async (req, res) => {
-  try {
-    const uid = (req as any).uid;
-    const {
-      message,
-      history = [],
-      modelId,
-      modelInput,
-      threadId,
-      attachments = [],
-    } = req.body as {
-      message: string;
-      history?: Array<{ role: "user" | "assistant"; content: string }>;
-      modelId?: string;
-      modelInput?:
-        | GeminiChatModeInput
-        | Gemini25FlashChatModeInput
-        | ClaudeChatModeInput
-        | GPT52ChatModeInput
-        | DeepSeekChatModeInput;
-      threadId?: string;
-      attachments?: AssistantAttachment[];
-    };
-
-    if (!message || typeof message !== "string" || !message.trim()) {
-      return res
-        .status(400)
-        .json(formatApiResponse("error", "message (string) is required", null));
-    }
+interface ChatModeTurn {
+  uid: string;
+  activeThread: AssistantThread;
+  selectedModelId: ChatModeModelId;
+  sanitized: string;
+  normalizedAttachments: AssistantAttachment[];
+  effectiveModelInput:
+    | GeminiChatModeInput
+    | Gemini25FlashChatModeInput
+    | ClaudeChatModeInput
+    | GPT52ChatModeInput
+    | DeepSeekChatModeInput
+    | undefined;
+  conversationHistory: AssistantConversationMessage[];
+  validationCost: number;
+  /** Message the turn's messages follow; undefined continues the thread's active branch. */
+  parentId?: string | null;
+  /** Set when regenerating: the existing user message the new reply answers (not persisted again). */
+  userMessageId?: string;
+}
 
-    if (!modelId || !isChatModeModelId(modelId)) {
-      return res
-        .status(400)
-        .json(
-          formatApiResponse("error", "Valid chat modelId is required", null),
-        );
-    }
+type ChatModeModelInput =
+  | GeminiChatModeInput
+  | Gemini25FlashChatModeInput
+  | ClaudeChatModeInput
+  | GPT52ChatModeInput
+  | DeepSeekChatModeInput;
+
+async function getChatThread(
+  uid: string,
+  threadId: string,
+): Promise<AssistantThread> {
+  const thread = await assistantThreadsRepository.getThread(uid, threadId);
+  if (!thread) {
+    throw new ApiError("Assistant thread not found", 404);
+  }
+  if (thread.mode !== "chat") {
+    throw new ApiError("Chat route can only be used with chat threads", 400);
+  }
+  return thread;
+}
 
-    let activeThread = threadId
-      ? await assistantThreadsRepository.getThread(uid, threadId)
-      : await assistantThreadsRepository.createThread(uid, {
-          mode: "chat",
-          modelId,
-        });
+/**
+ * Editing a past user message starts a sibling branch from that message's parent. Returns the
+ * parent id, or undefined when the turn simply continues the active branch.
+ */
+async function resolveEditParent(
+  uid: string,
+  threadId: string,
+  editMessageId: unknown,
+): Promise<string | null | undefined> {
+  if (editMessageId === undefined || editMessageId === null) return undefined;
+  if (typeof editMessageId !== "string" || !editMessageId) {
+    throw new ApiError("editMessageId must be a string", 400);
+  }
+  const edited = await assistantThreadsRepository.getMessage(
+    uid,
+    threadId,
+    editMessageId,
+  );
+  if (!edited || edited.role !== "user") {
+    throw new ApiError("editMessageId must be a user message of this thread", 400);
+  }
+  return assistantThreadsRepository.resolveParentId(uid, threadId, editMessageId);
+}
 
-    if (!activeThread) {
-      return res
-        .status(404)
-        .json(formatApiResponse("error", "Assistant thread not found", null));
-    }
+/**
+ * Validate the request and resolve the thread (and, for an edit, the branch it forks from),
+ * then build the turn. Shared by the JSON and streaming routes.
+ */
+async function prepareChatModeTurn(
+  uid: string,
+  body: any,
+): Promise<ChatModeTurn> {
+  const {
+    message,
+    history = [],
+    modelId,
+    modelInput,
+    threadId,
+    attachments = [],
+    editMessageId,
+  } = (body || {}) as {
+    message: string;
+    history?: Array<{ role: "user" | "assistant"; content: string }>;
+    modelId?: string;
+    modelInput?: ChatModeModelInput;
+    threadId?: string;
+    attachments?: AssistantAttachment[];
+    editMessageId?: string;
+  };
 
-    if (activeThread.mode !== "chat") {
-      return res
-        .status(400)
-        .json(
-          formatApiResponse(
-            "error",
-            "Chat route can only be used with chat threads",
-            null,
-          ),
-        );
-    }
+  if (!message || typeof message !== "string" || !message.trim()) {
+    throw new ApiError("message (string) is required", 400);
+  }
 
-    if (activeThread.modelId !== modelId) {
-      return res.status(400).json(
-        formatApiResponse(
-          "error",
-          "This thread is locked to a different model",
-          {
-            threadModelId: activeThread.modelId,
-          },
-        ),
-      );
-    }
+  if (!modelId || !isChatModeModelId(modelId)) {
+    throw new ApiError("Valid chat modelId is required", 400);
+  }
 
-    const selectedModelId = activeThread.modelId as ChatModeModelId;
-    const sanitized = message.trim().slice(0, 2000);
-    const normalizedAttachments = normalizeAttachments(attachments);
-    if (selectedModelId === "google/gemini-3.1-pro") {
-      const attachmentValidationError = validateGeminiAttachments(
-        normalizedAttachments,
-      );
-      if (attachmentValidationError) {
-        return res
-          .status(400)
-          .json(formatApiResponse("error", attachmentValidationError, null));
-      }
-    }
-    if (selectedModelId === "anthropic/claude-opus-4.6") {
-      const attachmentValidationError = validateClaudeAttachments(
-        normalizedAttachments,
-      );
-      if (attachmentValidationError) {
-        return res
-          .status(400)
-          .json(formatApiResponse("error", attachmentValidationError, null));
-      }
-    }
-    if (selectedModelId === "google/gemini-2.5-flash") {
-      const attachmentValidationError = validateGemini25FlashAttachments(
-        normalizedAttachments,
-      );
-      if (attachmentValidationError) {
-        return res
-          .status(400)
-          .json(formatApiResponse("error", attachmentValidationError, null));
-      }
-    }
-    if (selectedModelId === "openai/gpt-5.2") {
-      const attachmentValidationError = validateGPT52Attachments(
-        normalizedAttachments,
-      );
-      if (attachmentValidationError) {
-        return res
-          .status(400)
-          .json(formatApiResponse("error", attachmentValidationError, null));
-      }
-    }
-    if (selectedModelId === "deepseek-ai/deepseek-v3.1") {
-      const attachmentValidationError = validateDeepSeekAttachments(
-        normalizedAttachments,
-      );
-      if (attachmentValidationError) {
-        return res
-          .status(400)
-          .json(formatApiResponse("error", attachmentValidationError, null));
-      }
-    }
-    const effectiveModelInput =
-      selectedModelId === "google/gemini-3.1-pro"
-        ? mergeGeminiInputWithAttachments(
-            modelInput as GeminiChatModeInput | undefined,
+  if (editMessageId != null && !threadId) {
+    throw new ApiError("editMessageId requires threadId", 400);
+  }
+
+  const activeThread = threadId
+    ? await getChatThread(uid, threadId)
+    : await assistantThreadsRepository.createThread(uid, {
+        mode: "chat",
+        modelId,
+      });
+
+  if (activeThread.modelId !== modelId) {
+    throw new ApiError("This thread is locked to a different model", 400, {
+      threadModelId: activeThread.modelId,
+    });
+  }
+
+  const parentId = await resolveEditParent(uid, activeThread.id, editMessageId);
+  return buildChatModeTurn(uid, activeThread, modelId, {
+    message: message.trim().slice(0, 2000),
+    attachments,
+    modelInput,
+    parentId,
+    fallbackHistory: history,
+  });
+}
+
+/**
+ * Regenerate a reply: answer the user message before `messageId` again, optionally with another
+ * chat model. The new reply becomes a sibling of the old one and the thread switches to its model.
+ */
+async function prepareRegenerateTurn(
+  uid: string,
+  body: any,
+): Promise<ChatModeTurn> {
+  const { threadId, messageId, modelId } = (body || {}) as {
+    threadId?: string;
+    messageId?: string;
+    modelId?: string;
+  };
+
+  if (!threadId || typeof threadId !== "string") {
+    throw new ApiError("threadId (string) is required", 400);
+  }
+  if (!messageId || typeof messageId !== "string") {
+    throw new ApiError("messageId (string) is required", 400);
+  }
+  if (modelId !== undefined && !isChatModeModelId(modelId)) {
+    throw new ApiError("Valid chat modelId is required", 400);
+  }
+
+  const activeThread = await getChatThread(uid, threadId);
+  const reply = await assistantThreadsRepository.getMessage(uid, threadId, messageId);
+  if (!reply || reply.role !== "assistant") {
+    throw new ApiError("messageId must be an assistant message of this thread", 400);
+  }
+  const userMessageId = await assistantThreadsRepository.resolveParentId(uid, threadId, messageId);
+  const userMessage = userMessageId
+    ? await assistantThreadsRepository.getMessage(uid, threadId, userMessageId)
+    : null;
+  if (!userMessage || userMessage.role !== "user") {
+    throw new ApiError("Only a reply to a user message can be regenerated", 400);
+  }
+
+  const selectedModelId = (modelId ?? activeThread.modelId) as ChatModeModelId;
+  // Stored model input belongs to the model that answered; another model starts from defaults
+  const sameModel = userMessage.metadata?.modelId === selectedModelId;
+  const turn = await buildChatModeTurn(uid, activeThread, selectedModelId, {
+    message: userMessage.content,
+    attachments: userMessage.attachments,
+    modelInput: sameModel
+      ? ((userMessage.modelInput ?? undefined) as ChatModeModelInput | undefined)
+      : undefined,
+    parentId: await assistantThreadsRepository.resolveParentId(uid, threadId, userMessage.id),
+    fallbackHistory: [],
+  });
+  return { ...turn, parentId: userMessage.id, userMessageId: userMessage.id };
+}
+
+/**
+ * Validate attachments against the model, merge its input, load the branch history up to
+ * `parentId` and check credits against the worst-case price.
+ */
+async function buildChatModeTurn(
+  uid: string,
+  activeThread: AssistantThread,
+  selectedModelId: ChatModeModelId,
+  input: {
+    message: string;
+    attachments: unknown;
+    modelInput?: ChatModeModelInput;
+    parentId?: string | null;
+    fallbackHistory: Array<{ role: "user" | "assistant"; content: string }>;
+  },
+): Promise<ChatModeTurn> {
+  const { modelInput, parentId } = input;
+  const sanitized = input.message;
+  const normalizedAttachments = normalizeAttachments(input.attachments);
+  const attachmentValidationError =
+    selectedModelId === "google/gemini-3.1-pro"
+      ? validateGeminiAttachments(normalizedAttachments)
+      : selectedModelId === "anthropic/claude-opus-4.6"
+        ? validateClaudeAttachments(normalizedAttachments)
+        : selectedModelId === "google/gemini-2.5-flash"
+          ? validateGemini25FlashAttachments(normalizedAttachments)
+          : selectedModelId === "openai/gpt-5.2"
+            ? validateGPT52Attachments(normalizedAttachments)
+            : selectedModelId === "deepseek-ai/deepseek-v3.1"
+              ? validateDeepSeekAttachments(normalizedAttachments)
+              : null;
+  if (attachmentValidationError) {
+    throw new ApiError(attachmentValidationError, 400);
+  }
+  const effectiveModelInput =
+    selectedModelId === "google/gemini-3.1-pro"
+      ? mergeGeminiInputWithAttachments(
+          modelInput as GeminiChatModeInput | undefined,
+          normalizedAttachments,
+        )
+      : selectedModelId === "anthropic/claude-opus-4.6"
+        ? mergeClaudeInputWithAttachments(
+            modelInput as ClaudeChatModeInput | undefined,
             normalizedAttachments,
           )
-        : selectedModelId === "anthropic/claude-opus-4.6"
-          ? mergeClaudeInputWithAttachments(
-              modelInput as ClaudeChatModeInput | undefined,
+        : selectedModelId === "google/gemini-2.5-flash"
+          ? mergeGemini25FlashInputWithAttachments(
+              modelInput as Gemini25FlashChatModeInput | undefined,
               normalizedAttachments,
             )
-          : selectedModelId === "google/gemini-2.5-flash"
-            ? mergeGemini25FlashInputWithAttachments(
-                modelInput as Gemini25FlashChatModeInput | undefined,
+          : selectedModelId === "openai/gpt-5.2"
+            ? mergeGPT52InputWithAttachments(
+                modelInput as GPT52ChatModeInput | undefined,
                 normalizedAttachments,
               )
-            : selectedModelId === "openai/gpt-5.2"
-              ? mergeGPT52InputWithAttachments(
-                  modelInput as GPT52ChatModeInput | undefined,
-                  normalizedAttachments,
-                )
-              : selectedModelId === "deepseek-ai/deepseek-v3.1"
-                ? (modelInput as DeepSeekChatModeInput | undefined)
-                : undefined;
-    const persistedMessages = await assistantThreadsRepository.listMessages(
-      uid,
-      activeThread.id,
-      20,
-    );
-    const conversationHistory =
-      persistedMessages.length > 0
-        ? buildConversationHistoryFromPersisted(
-            persistedMessages.map((message) => ({
-              role: message.role,
-              content: message.content,
-              attachments: message.attachments,
-            })),
-          )
-        : history.slice(-6).map(({ role, content }) => ({ role, content }));
-    const validationPricingParams = getAssistantChatValidationPricingParams(
-      selectedModelId,
-      sanitized,
-      conversationHistory,
-      selectedModelId === "google/gemini-3.1-pro"
-        ? (effectiveModelInput as GeminiChatModeInput | undefined)
-        : undefined,
-      selectedModelId === "google/gemini-2.5-flash"
-        ? (effectiveModelInput as Gemini25FlashChatModeInput | undefined)
-        : undefined,
-      selectedModelId === "openai/gpt-5.2"
-        ? (effectiveModelInput as GPT52ChatModeInput | undefined)
-        : undefined,
-      selectedModelId === "deepseek-ai/deepseek-v3.1"
-        ? (effectiveModelInput as DeepSeekChatModeInput | undefined)
-        : undefined,
-    );
-    const validationCost = await resolveChatModeCost(
-      selectedModelId,
-      validationPricingParams,
-    );
-    console.log("[AssistantChatModelsRoute] Validation pricing resolved", {
+            : selectedModelId === "deepseek-ai/deepseek-v3.1"
+              ? (modelInput as DeepSeekChatModeInput | undefined)
+              : undefined;
+  const { messages: persistedMessages } =
+    await assistantThreadsRepository.listBranchMessages(uid, activeThread.id, {
+      leafId: parentId,
+      limit: 20,
+    });
+  // An edit at the start of the thread has no history at all, not the client's
+  const conversationHistory =
+    persistedMessages.length > 0 || parentId !== undefined
+      ? buildConversationHistoryFromPersisted(
+          persistedMessages.map((message) => ({
+            role: message.role,
+            content: message.content,
+            attachments: message.attachments,
+          })),
+        )
+      : input.fallbackHistory
+          .slice(-6)
+          .map(({ role, content }) => ({ role, content }));
+  const validationPricingParams = getAssistantChatValidationPricingParams(
+    selectedModelId,
+    sanitized,
+    conversationHistory,
+    selectedModelId === "google/gemini-3.1-pro"
+      ? (effectiveModelInput as GeminiChatModeInput | undefined)
+      : undefined,
+    selectedModelId === "google/gemini-2.5-flash"
+      ? (effectiveModelInput as Gemini25FlashChatModeInput | undefined)
+      : undefined,
+    selectedModelId === "openai/gpt-5.2"
+      ? (effectiveModelInput as GPT52ChatModeInput | undefined)
+      : undefined,
+    selectedModelId === "deepseek-ai/deepseek-v3.1"
+      ? (effectiveModelInput as DeepSeekChatModeInput | undefined)
+      : undefined,
+  );
+  const validationCost = await resolveChatModeCost(
+    selectedModelId,
+    validationPricingParams,
+  );
+  console.log("[AssistantChatModelsRoute] Validation pricing resolved", {
+    uid,
+    threadId: activeThread.id,
+    modelId: selectedModelId,
+    messageLength: sanitized.length,
+    historyCount: conversationHistory.length,
+    validationPricingParams,
+    validationCost,
+  });
+
+  try {
+    await creditsRepository.validateGeneration(uid, validationCost);
+    console.log("[AssistantChatModelsRoute] Credit validation passed", {
       uid,
       threadId: activeThread.id,
       modelId: selectedModelId,
-      messageLength: sanitized.length,
-      historyCount: conversationHistory.length,
-      validationPricingParams,
       validationCost,
     });
-
-    try {
-      await creditsRepository.validateGeneration(uid, validationCost);
-      console.log("[AssistantChatModelsRoute] Credit validation passed", {
+  } catch (error: any) {
+    if (error.code === "INSUFFICIENT_CREDITS") {
+      console.warn("[AssistantChatModelsRoute] Credit validation failed", {
         uid,
         threadId: activeThread.id,
         modelId: selectedModelId,
         validationCost,
+        error: error?.message,
       });
-    } catch (error: any) {
-      if (error.code === "INSUFFICIENT_CREDITS") {
-        console.warn("[AssistantChatModelsRoute] Credit validation failed", {
-          uid,
-          threadId: activeThread.id,
-          modelId: selectedModelId,
-          validationCost,
-          error: error?.message,
-        });
-        return res
-          .status(402)
-          .json(
-            formatApiResponse(
-              "error",
-              "Insufficient credits. Please upgrade or top up.",
-              { code: "INSUFFICIENT_CREDITS" },
-            ),
-          );
-      }
-      throw error;
+      throw new ApiError(
+        "Insufficient credits. Please upgrade or top up.",
+        402,
+        { code: "INSUFFICIENT_CREDITS" },
+      );
     }
+    throw error;
+  }
 
-    const reply = await generateAssistantChatModeResponse({
-      modelId: selectedModelId,
-      message: sanitized,
-      history: conversationHistory,
-      systemPrompt: mergeAssistantStylePrompt(
-        selectedModelId === "google/gemini-3.1-pro" && effectiveModelInput
-          ? ((effectiveModelInput as GeminiChatModeInput).system_instruction ??
+  return {
+    uid,
+    activeThread,
+    selectedModelId,
+    sanitized,
+    normalizedAttachments,
+    effectiveModelInput,
+    conversationHistory,
+    validationCost,
+    parentId,
+  };
+}
+
+function chatModeParams(turn: ChatModeTurn): AssistantChatModeParams {
+  const { selectedModelId, effectiveModelInput } = turn;
+  return {
+    modelId: selectedModelId,
+    message: turn.sanitized,
+    history: turn.conversationHistory,
+    systemPrompt: mergeAssistantStylePrompt(
+      selectedModelId === "google/gemini-3.1-pro" && effectiveModelInput
+        ? ((effectiveModelInput as GeminiChatModeInput).system_instruction ??
+          undefined)
+        : selectedModelId === "google/gemini-2.5-flash" && effectiveModelInput
+          ? ((effectiveModelInput as Gemini25FlashChatModeInput).system_instruction ??
             undefined)
-          : selectedModelId === "google/gemini-2.5-flash" && effectiveModelInput
-            ? ((effectiveModelInput as Gemini25FlashChatModeInput).system_instruction ??
+          : selectedModelId === "anthropic/claude-opus-4.6" && effectiveModelInput
+            ? ((effectiveModelInput as ClaudeChatModeInput).system_prompt ??
               undefined)
-            : selectedModelId === "anthropic/claude-opus-4.6" && effectiveModelInput
-              ? ((effectiveModelInput as ClaudeChatModeInput).system_prompt ??
+            : selectedModelId === "openai/gpt-5.2" && effectiveModelInput
+              ? ((effectiveModelInput as GPT52ChatModeInput).system_prompt ??
                 undefined)
-              : selectedModelId === "openai/gpt-5.2" && effectiveModelInput
-                ? ((effectiveModelInput as GPT52ChatModeInput).system_prompt ??
-                  undefined)
-                : undefined,
-      ),
-      geminiInput:
-        selectedModelId === "google/gemini-3.1-pro"
-          ? (effectiveModelInput as GeminiChatModeInput)
-          : undefined,
-      gemini25FlashInput:
-        selectedModelId === "google/gemini-2.5-flash"
-          ? (effectiveModelInput as Gemini25FlashChatModeInput)
-          : undefined,
-      claudeInput:
-        selectedModelId === "anthropic/claude-opus-4.6"
-          ? (effectiveModelInput as ClaudeChatModeInput)
-          : undefined,
-      gpt52Input:
-        selectedModelId === "openai/gpt-5.2"
-          ? (effectiveModelInput as GPT52ChatModeInput)
-          : undefined,
-      deepseekInput:
-        selectedModelId === "deepseek-ai/deepseek-v3.1"
-          ? (effectiveModelInput as DeepSeekChatModeInput)
-          : undefined,
-    });
-    const finalPricingParams = getAssistantChatFinalPricingParams(
-      selectedModelId,
-      sanitized,
-      conversationHistory,
-      reply,
+              : undefined,
+    ),
+    geminiInput:
       selectedModelId === "google/gemini-3.1-pro"
-        ? (effectiveModelInput as GeminiChatModeInput | undefined)
+        ? (effectiveModelInput as GeminiChatModeInput)
         : undefined,
+    gemini25FlashInput:
       selectedModelId === "google/gemini-2.5-flash"
-        ? (effectiveModelInput as Gemini25FlashChatModeInput | undefined)
+        ? (effectiveModelInput as Gemini25FlashChatModeInput)
+        : undefined,
+    claudeInput:
+      selectedModelId === "anthropic/claude-opus-4.6"
+        ? (effectiveModelInput as ClaudeChatModeInput)
         : undefined,
+    gpt52Input:
       selectedModelId === "openai/gpt-5.2"
-        ? (effectiveModelInput as GPT52ChatModeInput | undefined)
+        ? (effectiveModelInput as GPT52ChatModeInput)
         : undefined,
+    deepseekInput:
       selectedModelId === "deepseek-ai/deepseek-v3.1"
-        ? (effectiveModelInput as DeepSeekChatModeInput | undefined)
+        ? (effectiveModelInput as DeepSeekChatModeInput)
         : undefined,
-    );
-    const finalCost = await resolveChatModeCost(
-      selectedModelId,
-      finalPricingParams,
-    );
-    console.log("[AssistantChatModelsRoute] Final pricing resolved", {
-      uid,
-      threadId: activeThread.id,
-      modelId: selectedModelId,
-      replyLength: reply.length,
-      finalPricingParams,
-      finalCost,
-    });
+  };
+}
 
-    const requestId = `chat-model-${uid}-${Date.now()}`;
-    await creditsRepository.writeDebitIfAbsent(
-      uid,
-      requestId,
-      finalCost,
-      "Assistant Chat Mode",
-      {
-        messageLength: sanitized.length,
-        mode: "chat",
-        modelId: selectedModelId,
-        threadId: activeThread.id,
-        attachmentCount: normalizedAttachments.length,
-        modelInput:
-          selectedModelId === "google/gemini-3.1-pro"
-            ? effectiveModelInput
-            : undefined,
-        pricing: finalPricingParams
-          ? {
-              ...finalPricingParams,
-              validationCost,
-              finalCost,
-            }
-          : {
-              validationCost,
-              finalCost,
-            },
-      },
-      selectedModelId,
-      finalPricingParams,
-    );
-    await assistantThreadsRepository.appendMessages(uid, activeThread.id, {
-      threadMode: "chat",
+/**
+ * Price the turn from the actual reply, debit it and persist both messages. A reply the
+ * client stopped early (`cancelled`) is billed for what was generated and saved as such.
+ */
+async function completeChatModeTurn(
+  turn: ChatModeTurn,
+  reply: string,
+  cancelled = false,
+): Promise<AssistantThread> {
+  const {
+    uid,
+    activeThread,
+    selectedModelId,
+    sanitized,
+    normalizedAttachments,
+    effectiveModelInput,
+    conversationHistory,
+    validationCost,
+  } = turn;
+  const finalPricingParams = getAssistantChatFinalPricingParams(
+    selectedModelId,
+    sanitized,
+    conversationHistory,
+    reply,
+    selectedModelId === "google/gemini-3.1-pro"
+      ? (effectiveModelInput as GeminiChatModeInput | undefined)
+      : undefined,
+    selectedModelId === "google/gemini-2.5-flash"
+      ? (effectiveModelInput as Gemini25FlashChatModeInput | undefined)
+      : undefined,
+    selectedModelId === "openai/gpt-5.2"
+      ? (effectiveModelInput as GPT52ChatModeInput | undefined)
+      : undefined,
+    selectedModelId === "deepseek-ai/deepseek-v3.1"
+      ? (effectiveModelInput as DeepSeekChatModeInput | undefined)
+      : undefined,
+  );
+  const finalCost = await resolveChatModeCost(
+    selectedModelId,
+    finalPricingParams,
+  );
+  console.log("[AssistantChatModelsRoute] Final pricing resolved", {
+    uid,
+    threadId: activeThread.id,
+    modelId: selectedModelId,
+    replyLength: reply.length,
+    finalPricingParams,
+    finalCost,
+    cancelled,
+  });
+
+  const requestId = `chat-model-${uid}-${Date.now()}`;
+  await creditsRepository.writeDebitIfAbsent(
+    uid,
+    requestId,
+    finalCost,
+    "Assistant Chat Mode",
+    {
+      messageLength: sanitized.length,
+      mode: "chat",
       modelId: selectedModelId,
-      messages: [
-        {
-          role: "user",
-          content: sanitized,
-          attachments: normalizedAttachments,
-          modelInput:
-            selectedModelId === "google/gemini-3.1-pro"
-              ? (effectiveModelInput ?? null)
-              : null,
-          metadata: {
-            mode: "chat",
-            modelId: selectedModelId,
-          },
-        },
-        {
-          role: "assistant",
-          content: reply.trim(),
-          metadata: {
-            mode: "chat",
-            modelId: selectedModelId,
-            requestId,
+      threadId: activeThread.id,
+      attachmentCount: normalizedAttachments.length,
+      modelInput:
+        selectedModelId === "google/gemini-3.1-pro"
+          ? effectiveModelInput
+          : undefined,
+      pricing: finalPricingParams
+        ? {
+            ...finalPricingParams,
+            validationCost,
+            finalCost,
+          }
+        : {
             validationCost,
             finalCost,
           },
+    },
+    selectedModelId,
+    finalPricingParams,
+  );
+  await assistantThreadsRepository.appendMessages(uid, activeThread.id, {
+    threadMode: "chat",
+    modelId: selectedModelId,
+    parentId: turn.parentId,
+    messages: [
+      ...(turn.userMessageId
+        ? []
+        : [
+            {
+              role: "user" as const,
+              content: sanitized,
+              attachments: normalizedAttachments,
+              modelInput:
+                selectedModelId === "google/gemini-3.1-pro"
+                  ? (effectiveModelInput ?? null)
+                  : null,
+              metadata: {
+                mode: "chat",
+                modelId: selectedModelId,
+              },
+            },
+          ]),
+      {
+        role: "assistant",
+        content: reply.trim(),
+        metadata: {
+          mode: "chat",
+          modelId: selectedModelId,
+          requestId,
+          validationCost,
+          finalCost,
+          ...(cancelled ? { cancelled: true } : {}),
         },
-      ],
-    });
-    activeThread =
-      (await assistantThreadsRepository.getThread(uid, activeThread.id)) ||
-      activeThread;
-    console.log("[AssistantChatModelsRoute] Debit request completed", {
-      uid,
-      threadId: activeThread.id,
-      modelId: selectedModelId,
-      requestId,
-      validationCost,
-      finalCost,
-    });
+      },
+    ],
+  });
+  const thread =
+    (await assistantThreadsRepository.getThread(uid, activeThread.id)) ||
+    activeThread;
+  console.log("[AssistantChatModelsRoute] Debit request completed", {
+    uid,
+    threadId: thread.id,
+    modelId: selectedModelId,
+    requestId,
+    validationCost,
+    finalCost,
+  });
+  return thread;
+}
 
-    return res.json(
-      formatApiResponse("success", "OK", {
-        reply: reply.trim(),
-        thread: activeThread,
-        threadId: activeThread.id,
-      }),
-    );
-  } catch (error: any) {
-    console.error("[AssistantChatModelsRoute] Error:", error?.message);
+function sendChatModeError(res: express.Response, error: any) {
+  if (error instanceof ApiError) {
     return res
-      .status(500)
-      .json(
-        formatApiResponse(
-          "error",
-          "Assistant chat mode is temporarily unavailable. Please try again.",
-          null,
-        ),
-      );
+      .status(error.statusCode)
+      .json(formatApiResponse("error", error.message, error.data ?? null));
   }
-});
+  console.error("[AssistantChatModelsRoute] Error:", error?.message);
+  return res
+    .status(500)
+    .json(
+      formatApiResponse(
+        "error",
+        "Assistant chat mode is temporarily unavailable. Please try again.",
+        null,
+      ),
+    );
+}
+
+/** Answer a prepared turn as JSON; shared by POST / and POST /regenerate. */
+function chatModeHandler(
+  prepare: (uid: string, body: any) => Promise<ChatModeTurn>,
+): express.RequestHandler {
+  return async (req, res) => {
+    try {
+      const uid = (req as any).uid;
+      const turn = await prepare(uid, req.body);
+
+      const reply = await generateAssistantChatModeResponse(chatModeParams(turn));
+      const thread = await completeChatModeTurn(turn, reply);
+
+      return res.json(
+        formatApiResponse("success", "OK", {
+          reply: reply.trim(),
+          thread,
+          threadId: thread.id,
+        }),
+      );
+    } catch (error: any) {
+      return sendChatModeError(res, error);
+    }
+  };
+}
+
+/** Answer a prepared turn as server-sent events; shared by the two /stream routes. */
+function chatModeStreamHandler(
+  prepare: (uid: string, body: any) => Promise<ChatModeTurn>,
+): express.RequestHandler {
+  return async (req, res) => {
+    const uid = (req as any).uid;
+    let turn: ChatModeTurn;
+    try {
+      turn = await prepare(uid, req.body);
+    } catch (error: any) {
+      return sendChatModeError(res, error);
+    }
+
+    const stream = openEventStream(req, res);
+    stream.send("thread", { threadId: turn.activeThread.id });
+    try {
+      const { text, cancelled } = await streamAssistantChatModeResponse(
+        chatModeParams(turn),
+        {
+          signal: stream.signal,
+          onDelta: (delta) => stream.send("delta", { text: delta }),
+        },
+      );
+      if (cancelled && !text) {
+        console.log("[AssistantChatModelsRoute] Stream cancelled before any output", {
+          uid,
+          threadId: turn.activeThread.id,
+          modelId: turn.selectedModelId,
+        });
+        return;
+      }
+
+      const thread = await completeChatModeTurn(turn, text, cancelled);
+      stream.send("done", { reply: text, thread, threadId: thread.id, cancelled });
+    } catch (error: any) {
+      console.error("[AssistantChatModelsRoute] Stream error:", error?.message);
+      stream.send("error", {
+        message:
+          "Assistant chat mode is temporarily unavailable. Please try again.",
+      });
+    } finally {
+      stream.end();
+    }
+  };
+}
+
+/**
+ * POST /api/chat/assistant/models
+ * Body { message, modelId, threadId?, attachments?, modelInput?, history?, editMessageId? }.
+ * `editMessageId` resubmits an edited version of a past user message as a new branch.
+ */
+router.post("/", requireAuth, chatModeHandler(prepareChatModeTurn));
+
+/**
+ * POST /api/chat/assistant/models/stream
+ * Same request as POST /, answered as server-sent events:
+ *   thread { threadId } → delta { text }… → done { reply, thread, threadId, cancelled } | error { message }
+ * Validation and credit failures are plain JSON errors, before the stream opens. Closing the
+ * connection cancels the prediction; a partial reply is priced on its length and saved.
+ */
+router.post("/stream", requireAuth, chatModeStreamHandler(prepareChatModeTurn));
+
+/**
+ * POST /api/chat/assistant/models/regenerate
+ * Body { threadId, messageId, modelId? }. Answers the user message before assistant message
+ * `messageId` again, with `modelId` (any chat model) or the thread's model, as a sibling reply.
+ */
+router.post("/regenerate", requireAuth, chatModeHandler(prepareRegenerateTurn));
+
+/** POST /api/chat/assistant/models/regenerate/stream — POST /regenerate as server-sent events. */
+router.post(
+  "/regenerate/stream",
+  requireAuth,
+  chatModeStreamHandler(prepareRegenerateTurn),
+);
 
 export default router;
@@ -3,11 +3,14 @@ import { requireAuth } from '../middlewares/authMiddleware';
 import { formatApiResponse } from '../utils/formatApiResponse';
 import {
   assistantThreadsRepository,
+  AssistantThread,
+  AssistantThreadMessage,
   AssistantThreadMode,
 } from '../repository/assistantThreadsRepository';
 import { AGENT_DEFAULT_MODEL_ID, CHAT_MODE_MODEL_IDS, isChatModeModelId } from '../config/assistantModels';
 
 const router = express.Router();
+const MAX_EXPORT_MESSAGES = 2000;
 
 function resolveThreadDefaults(mode: AssistantThreadMode, modelId?: string): { mode: AssistantThreadMode; modelId: string } {
   if (mode === 'chat') {
@@ -23,10 +26,90 @@ function resolveThreadDefaults(mode: AssistantThreadMode, modelId?: string): { m
   };
 }
 
+function parseMode(value: unknown): AssistantThreadMode | undefined {
+  return value === 'chat' ? 'chat' : value === 'agent' ? 'agent' : undefined;
+}
+
+function optionalQueryString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/** Whole active branch, oldest first, following page cursors back to the first message. */
+async function listWholeBranch(uid: string, threadId: string): Promise<AssistantThreadMessage[]> {
+  const pages: AssistantThreadMessage[][] = [];
+  let count = 0;
+  let cursor: string | null = null;
+  do {
+    const page = await assistantThreadsRepository.listBranchMessages(uid, threadId, { cursor, limit: 100 });
+    pages.unshift(page.messages);
+    count += page.messages.length;
+    cursor = page.nextCursor;
+  } while (cursor && count < MAX_EXPORT_MESSAGES);
+  return pages.flat();
+}
+
+function renderThreadMarkdown(thread: AssistantThread, messages: AssistantThreadMessage[]): string {
+  const lines = [
+    `# ${thread.title}`,
+    '',
+    `_${thread.mode === 'chat' ? 'Chat' : 'Agent'} thread · ${thread.modelId} · exported ${new Date().toISOString()}_`,
+    '',
+  ];
+  for (const message of messages) {
+    const when = message.createdAt ? ` · ${message.createdAt}` : '';
+    if (message.toolCall) {
+      const { name, arguments: args, status, credits } = message.toolCall;
+      lines.push(`> **Tool call** \`${name}\` (${status}${credits ? `, ${credits} credits` : ''})${when}`);
+      lines.push('>', '> ```json', ...JSON.stringify(args, null, 2).split('\n').map((line) => `> ${line}`), '> ```', '');
+      continue;
+    }
+    if (message.toolResult) {
+      const { name, ok, output, error } = message.toolResult;
+      lines.push(`> **Tool result** \`${name}\` ${ok ? 'succeeded' : `failed: ${error}`}${when}`);
+      if (ok && output) {
+        lines.push('>', '> ```json', ...JSON.stringify(output, null, 2).split('\n').map((line) => `> ${line}`), '> ```');
+      }
+      lines.push('');
+      continue;
+    }
+    lines.push(`## ${message.role === 'user' ? 'You' : 'Assistant'}${when}`, '', message.content || '');
+    for (const attachment of message.attachments) {
+      lines.push('', `- ${attachment.type}: [${attachment.fileName || attachment.url}](${attachment.url})`);
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * GET /api/chat/assistant/threads/search?q=&mode=&limit=&cursor=
+ * Messages across all of the user's threads containing every word of `q`, newest first.
+ * `indexing: true` means older messages are still being indexed and may be missing.
+ */
+router.get('/search', requireAuth, async (req, res) => {
+  try {
+    const uid = (req as any).uid;
+    const q = optionalQueryString(req.query.q);
+    if (!q) {
+      return res.status(400).json(formatApiResponse('error', 'q is required', null));
+    }
+
+    const result = await assistantThreadsRepository.searchMessages(uid, q, {
+      mode: parseMode(req.query.mode),
+      limit: Number(req.query.limit || 20),
+      cursor: optionalQueryString(req.query.cursor),
+    });
+    return res.json(formatApiResponse('success', 'OK', result));
+  } catch (error: any) {
+    console.error('[AssistantThreadsRoute:search] Error:', error?.message);
+    return res.status(500).json(formatApiResponse('error', 'Failed to search assistant threads', null));
+  }
+});
+
 router.get('/', requireAuth, async (req, res) => {
   try {
     const uid = (req as any).uid;
-    const mode = req.query.mode === 'chat' ? 'chat' : req.query.mode === 'agent' ? 'agent' : undefined;
+    const mode = parseMode(req.query.mode);
     const threads = await assistantThreadsRepository.listThreads(uid, {
       mode,
       limit: Number(req.query.limit || 30),
@@ -57,6 +140,11 @@ router.post('/', requireAuth, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/chat/assistant/threads/:threadId?limit=&cursor=
+ * The latest `limit` (max 100) messages of the active branch, oldest first. `nextCursor` pages
+ * back towards the start of the thread.
+ */
 router.get('/:threadId', requireAuth, async (req, res) => {
   try {
     const uid = (req as any).uid;
@@ -67,14 +155,108 @@ router.get('/:threadId', requireAuth, async (req, res) => {
       return res.status(404).json(formatApiResponse('error', 'Assistant thread not found', null));
     }
 
-    const messages = await assistantThreadsRepository.listMessages(uid, threadId, Number(req.query.limit || 100));
-    return res.json(formatApiResponse('success', 'OK', { thread, messages }));
+    const { messages, nextCursor } = await assistantThreadsRepository.listBranchMessages(uid, threadId, {
+      limit: Number(req.query.limit || 50),
+      cursor: optionalQueryString(req.query.cursor),
+    });
+    return res.json(formatApiResponse('success', 'OK', { thread, messages, nextCursor }));
   } catch (error: any) {
     console.error('[AssistantThreadsRoute:get] Error:', error?.message);
     return res.status(500).json(formatApiResponse('error', 'Failed to load assistant thread', null));
   }
 });
 
+/**
+ * GET /api/chat/assistant/threads/:threadId/messages/:messageId/branches
+ * The versions of a message (edits of a user message, regenerations of a reply), oldest first.
+ */
+router.get('/:threadId/messages/:messageId/branches', requireAuth, async (req, res) => {
+  try {
+    const uid = (req as any).uid;
+    const threadId = String(req.params.threadId || '');
+    const thread = await assistantThreadsRepository.getThread(uid, threadId);
+    if (!thread) {
+      return res.status(404).json(formatApiResponse('error', 'Assistant thread not found', null));
+    }
+
+    const branches = await assistantThreadsRepository.listSiblings(uid, threadId, req.params.messageId);
+    if (branches.length === 0) {
+      return res.status(404).json(formatApiResponse('error', 'Message not found', null));
+    }
+    return res.json(formatApiResponse('success', 'OK', { branches }));
+  } catch (error: any) {
+    console.error('[AssistantThreadsRoute:branches] Error:', error?.message);
+    return res.status(500).json(formatApiResponse('error', 'Failed to load message branches', null));
+  }
+});
+
+/**
+ * PUT /api/chat/assistant/threads/:threadId/active-leaf — body { messageId }
+ * Switch to the branch through `messageId` (continuing to its latest message) and return its first page.
+ */
+router.put('/:threadId/active-leaf', requireAuth, async (req, res) => {
+  try {
+    const uid = (req as any).uid;
+    const threadId = String(req.params.threadId || '');
+    const messageId = typeof req.body?.messageId === 'string' ? req.body.messageId : '';
+    if (!messageId) {
+      return res.status(400).json(formatApiResponse('error', 'messageId (string) is required', null));
+    }
+
+    const existing = await assistantThreadsRepository.getThread(uid, threadId);
+    if (!existing) {
+      return res.status(404).json(formatApiResponse('error', 'Assistant thread not found', null));
+    }
+
+    const activeLeafId = await assistantThreadsRepository.setActiveLeaf(uid, threadId, messageId);
+    if (!activeLeafId) {
+      return res.status(404).json(formatApiResponse('error', 'Message not found', null));
+    }
+
+    const thread = await assistantThreadsRepository.getThread(uid, threadId);
+    const { messages, nextCursor } = await assistantThreadsRepository.listBranchMessages(uid, threadId, {
+      leafId: activeLeafId,
+    });
+    return res.json(formatApiResponse('success', 'OK', { thread, messages, nextCursor }));
+  } catch (error: any) {
+    console.error('[AssistantThreadsRoute:activeLeaf] Error:', error?.message);
+    return res.status(500).json(formatApiResponse('error', 'Failed to switch assistant thread branch', null));
+  }
+});
+
+/**
+ * GET /api/chat/assistant/threads/:threadId/export?format=markdown|json
+ * Download the active branch (up to 2000 messages) as a Markdown transcript or JSON.
+ */
+router.get('/:threadId/export', requireAuth, async (req, res) => {
+  try {
+    const uid = (req as any).uid;
+    const threadId = String(req.params.threadId || '');
+    const format = req.query.format === 'json' ? 'json' : req.query.format === 'markdown' || req.query.format === 'md' || !req.query.format ? 'markdown' : null;
+    if (!format) {
+      return res.status(400).json(formatApiResponse('error', 'format must be markdown or json', null));
+    }
+
+    const thread = await assistantThreadsRepository.getThread(uid, threadId);
+    if (!thread) {
+      return res.status(404).json(formatApiResponse('error', 'Assistant thread not found', null));
+    }
+
+    const messages = await listWholeBranch(uid, threadId);
+    res.setHeader('Cache-Control', 'private, no-store');
+    if (format === 'json') {
+      res.attachment(`assistant-thread-${threadId}.json`);
+      return res.json({ thread, messages, exportedAt: new Date().toISOString() });
+    }
+    res.attachment(`assistant-thread-${threadId}.md`);
+    res.type('text/markdown; charset=utf-8');
+    return res.send(renderThreadMarkdown(thread, messages));
+  } catch (error: any) {
+    console.error('[AssistantThreadsRoute:export] Error:', error?.message);
+    return res.status(500).json(formatApiResponse('error', 'Failed to export assistant thread', null));
+  }
+});
+
 router.delete('/:threadId', requireAuth, async (req, res) => {
   try {
     const uid = (req as any).uid;
@@ -1,9 +1,10 @@
 import express from 'express';
 import { formatApiResponse } from '../utils/formatApiResponse';
-import { generateReplicateTextResponse } from '../services/genai/replicateTextService';
+import { generateReplicateTextResponse, streamReplicateTextResponse } from '../services/genai/replicateTextService';
 import { WILDMIND_COMPANION_SYSTEM_PROMPT } from '../services/prompts/companionSystemPrompt';
 import { creditsRepository } from '../repository/creditsRepository';
 import { ApiError } from '../utils/errorHandler';
+import { openEventStream } from '../utils/eventStream';
 
 const router = express.Router();
 
@@ -17,79 +18,101 @@ interface ChatRequest {
   conversationHistory?: ChatMessage[];
 }
 
-/**
- * POST /api/chat/companion
- * Main endpoint for AI companion chat
- */
-router.post('/companion', async (req, res) => {
+const COMPANION_CREDIT_COST = 1; // 1 credit per message
+
+interface CompanionTurn {
+  uid: string;
+  sanitizedMessage: string;
+  fullPrompt: string;
+}
+
+/** Auth, credit and input checks shared by the JSON and streaming routes. */
+async function prepareCompanionTurn(req: express.Request): Promise<CompanionTurn> {
+  const { message, conversationHistory = [] }: ChatRequest = req.body || {};
+  const uid = (req as any).user?.uid;
+
+  if (!uid) {
+    throw new ApiError('Authentication required', 401);
+  }
+
+  // Check balance
   try {
-    const { message, conversationHistory = [] }: ChatRequest = req.body;
-    const uid = (req as any).user?.uid;
+    await creditsRepository.validateGeneration(uid, COMPANION_CREDIT_COST);
+  } catch (e: any) {
+    throw new ApiError(e.message || 'Insufficient credits', 402);
+  }
 
-    if (!uid) {
-      return res.status(401).json(formatApiResponse('error', 'Authentication required', null));
-    }
+  // Validation
+  if (!message || typeof message !== 'string' || !message.trim()) {
+    throw new ApiError('Message is required and must be a non-empty string', 400);
+  }
 
-    // Cost logic: 1 credit per message
-    const creditCost = 1;
-    
-    // Check balance
-    try {
-      await creditsRepository.validateGeneration(uid, creditCost);
-    } catch (e: any) {
-      return res.status(402).json(formatApiResponse('error', e.message || 'Insufficient credits', null));
-    }
+  // Sanitize message (basic protection)
+  const sanitizedMessage = message.trim().slice(0, 2000); // Limit to 2000 chars
+
+  // Build conversation context for better responses
+  let conversationContext = '';
+  if (conversationHistory.length > 0) {
+    // Include last 5 messages for context (to avoid token limits)
+    const recentHistory = conversationHistory.slice(-5);
+    conversationContext = recentHistory
+      .map((msg) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
+      .join('\n\n');
+    conversationContext += '\n\n';
+  }
 
-    // Validation
-    if (!message || typeof message !== 'string' || !message.trim()) {
-      return res.status(400).json(
-        formatApiResponse('error', 'Message is required and must be a non-empty string', null)
-      );
-    }
+  // Construct the full prompt with conversation history
+  const fullPrompt = conversationContext + `User: ${sanitizedMessage}\n\nAssistant:`;
 
-    // Sanitize message (basic protection)
-    const sanitizedMessage = message.trim().slice(0, 2000); // Limit to 2000 chars
-
-    // Build conversation context for better responses
-    let conversationContext = '';
-    if (conversationHistory.length > 0) {
-      // Include last 5 messages for context (to avoid token limits)
-      const recentHistory = conversationHistory.slice(-5);
-      conversationContext = recentHistory
-        .map((msg) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
-        .join('\n\n');
-      conversationContext += '\n\n';
-    }
+  console.log('[ChatCompanion] Processing message', {
+    messageLength: sanitizedMessage.length,
+    historyLength: conversationHistory.length,
+    userId: uid,
+  });
 
-    // Construct the full prompt with conversation history
-    const fullPrompt = conversationContext + `User: ${sanitizedMessage}\n\nAssistant:`;
+  return { uid, sanitizedMessage, fullPrompt };
+}
 
-    console.log('[ChatCompanion] Processing message', {
-      messageLength: sanitizedMessage.length,
-      historyLength: conversationHistory.length,
-      userId: (req as any).user?.uid || 'anonymous',
-    });
+async function debitCompanionTurn(turn: CompanionTurn): Promise<void> {
+  const requestId = `chat-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+  try {
+    await creditsRepository.writeDebitIfAbsent(
+      turn.uid,
+      requestId,
+      COMPANION_CREDIT_COST,
+      'chat-companion',
+      { messageLength: turn.sanitizedMessage.length }
+    );
+  } catch (err) {
+    console.error('[ChatCompanion] Failed to debit credits:', err);
+    // Non-blocking but logged
+  }
+}
+
+function companionErrorMessage(error: any): string {
+  // User-friendly error messages
+  if (error?.message?.includes('Replicate')) {
+    return 'AI service is temporarily unavailable. Please try again in a moment.';
+  }
+  return 'Failed to generate response. Please try again.';
+}
+
+/**
+ * POST /api/chat/companion
+ * Main endpoint for AI companion chat
+ */
+router.post('/companion', async (req, res) => {
+  try {
+    const turn = await prepareCompanionTurn(req);
 
     // Call GPT-4o via Replicate
-    const response = await generateReplicateTextResponse(fullPrompt, {
+    const response = await generateReplicateTextResponse(turn.fullPrompt, {
       systemInstruction: WILDMIND_COMPANION_SYSTEM_PROMPT,
       maxOutputTokens: 800, // Keep responses concise
     });
 
     // Deduct credits on success
-    const requestId = `chat-${Date.now()}-${Math.random().toString(36).substring(7)}`;
-    try {
-      await creditsRepository.writeDebitIfAbsent(
-        uid,
-        requestId,
-        creditCost,
-        'chat-companion',
-        { messageLength: sanitizedMessage.length }
-      );
-    } catch (err) {
-      console.error('[ChatCompanion] Failed to debit credits:', err);
-      // Non-blocking but logged
-    }
+    await debitCompanionTurn(turn);
 
     console.log('[ChatCompanion] Generated response', {
       responseLength: response.length,
@@ -103,22 +126,64 @@ router.post('/companion', async (req, res) => {
       })
     );
   } catch (error: any) {
-    console.error('[ChatCompanion] Error:', error);
-    
-    // User-friendly error messages
-    let errorMessage = 'Failed to generate response. Please try again.';
-    if (error.message?.includes('Replicate')) {
-      errorMessage = 'AI service is temporarily unavailable. Please try again in a moment.';
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(formatApiResponse('error', error.message, null));
     }
+    console.error('[ChatCompanion] Error:', error);
 
     return res.status(500).json(
-      formatApiResponse('error', errorMessage, {
+      formatApiResponse('error', companionErrorMessage(error), {
         error: process.env.NODE_ENV === 'development' ? error.message : undefined,
       })
     );
   }
 });
 
+/**
+ * POST /api/chat/companion/stream
+ * Same request as POST /companion, answered as server-sent events:
+ *   delta { text }… → done { response, messageId, cancelled } | error { message }
+ * Closing the connection cancels the model call; a reply that already started is charged.
+ */
+router.post('/companion/stream', async (req, res) => {
+  let turn: CompanionTurn;
+  try {
+    turn = await prepareCompanionTurn(req);
+  } catch (error: any) {
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(formatApiResponse('error', error.message, null));
+    }
+    console.error('[ChatCompanion] Error:', error);
+    return res.status(500).json(formatApiResponse('error', companionErrorMessage(error), null));
+  }
+
+  const stream = openEventStream(req, res);
+  try {
+    const { text, cancelled } = await streamReplicateTextResponse(
+      turn.fullPrompt,
+      { systemInstruction: WILDMIND_COMPANION_SYSTEM_PROMPT },
+      {
+        signal: stream.signal,
+        onDelta: (delta) => stream.send('delta', { text: delta }),
+      }
+    );
+    if (cancelled && !text) return;
+
+    await debitCompanionTurn(turn);
+    console.log('[ChatCompanion] Streamed response', { responseLength: text.length, cancelled });
+    stream.send('done', {
+      response: text.trim(),
+      messageId: `msg_${Date.now()}_${Math.random().toString(36).substring(7)}`,
+      cancelled,
+    });
+  } catch (error: any) {
+    console.error('[ChatCompanion] Stream error:', error);
+    stream.send('error', { message: companionErrorMessage(error) });
+  } finally {
+    stream.end();
+  }
+});
+
 /**
  * GET /api/chat/companion/health
  * Health check for chat companion service
@@ -1,12 +1,21 @@
 import { Router } from 'express';
 import { generationHistoryController } from '../controllers/generationHistoryController';
 import { requireAuth } from '../middlewares/authMiddleware';
-import { validateCreateGeneration, validateUpdateGenerationStatus, validateListGenerations, handleValidationErrors } from '../middlewares/validateGenerations';
+import { validateCreateGeneration, validateUpdateGenerationStatus, validateListGenerations, validateExportGenerations, handleValidationErrors } from '../middlewares/validateGenerations';
 
 const router = Router();
 
 // Internal/admin-only endpoints removed to automate flow within provider services
 router.get('/', requireAuth, validateListGenerations as any, handleValidationErrors, generationHistoryController.listMine);
+router.get('/events', requireAuth, generationHistoryController.events);
+// Trash bin: deleted items stay restorable until the retention window passes
+router.get('/trash', requireAuth, generationHistoryController.listTrash);
+router.delete('/trash', requireAuth, generationHistoryController.emptyTrash);
+router.post('/trash/:historyId/restore', requireAuth, generationHistoryController.restoreFromTrash);
+// Bulk ZIP export: built in the background, polled for a signed download URL
+router.post('/export', requireAuth, validateExportGenerations as any, handleValidationErrors, generationHistoryController.requestExport);
+router.get('/exports', requireAuth, generationHistoryController.listExports);
+router.get('/export/:exportId', requireAuth, generationHistoryController.getExport);
 router.get('/:historyId', requireAuth, generationHistoryController.get);
 router.patch('/:historyId', requireAuth, generationHistoryController.update);
 router.delete('/:historyId', requireAuth as any, generationHistoryController.softDelete as any);
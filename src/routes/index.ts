@@ -13,6 +13,8 @@ import creditsRoutes from "./credits";
 import generationsRoutes from "./generations";
 import publicGenerationsRoutes from "./publicGenerations";
 import engagementRoutes from "./engagement";
+import notificationsRoutes from "./notifications";
+import shareRoutes from "./share";
 import redeemCodeRoutes from "./redeemCodes";
 import proxyRoutes from "./proxy";
 import stickerRoutes from "./stickers";
@@ -37,6 +39,10 @@ import billingRoutes from "./billing";
 import plansRoutes from "./plans";
 import fxRoutes from "./fx";
 import paymentsRoutes from "./payments";
+import adminRoutes from "./admin";
+import templateRoutes from "./templateRoutes";
+import pricingRoutes from "./pricing";
+import modelsRoutes from "./models";
 import { contentModerationMiddleware } from "../middlewares/contentModeration";
 import { moderationGuard } from "../middlewares/moderationGuard";
 
@@ -59,6 +65,8 @@ router.use(
     "/credits",
     "/feed",
     "/engagement",
+    "/notifications",
+    "/share",
     "/redeem-codes",
     "/proxy",
     "/stickers",
@@ -76,25 +84,28 @@ router.use(
     "/workflows",
     "/billing",
     "/payments",
+    "/admin",
+    "/templates",
+    "/pricing",
   ],
   moderationGuard,
 );
 
-router.use(
-  [
-    "/bfl",
-    "/fal",
-    "/minimax",
-    "/runway",
-    "/replicate",
-    "/prompt-enhancer",
-    "/replace",
-    "/reimagine",
-    "/wildmind",
-    "/wildmindimage",
-  ],
-  contentModerationMiddleware,
-);
+// Prompt moderation for the generation providers (also applied by pricingQuoteService.invoke)
+export const CONTENT_MODERATED_PREFIXES = [
+  "/bfl",
+  "/fal",
+  "/minimax",
+  "/runway",
+  "/replicate",
+  "/prompt-enhancer",
+  "/replace",
+  "/reimagine",
+  "/wildmind",
+  "/wildmindimage",
+];
+
+router.use(CONTENT_MODERATED_PREFIXES, contentModerationMiddleware);
 router.use("/bfl", bflRoutes);
 router.use("/fal", falRoutes);
 router.use("/minimax", minimaxRoutes);
@@ -105,6 +116,8 @@ router.use("/uploads", uploadsRoutes);
 router.use("/credits", creditsRoutes);
 router.use("/feed", publicGenerationsRoutes);
 router.use("/engagement", engagementRoutes);
+router.use("/notifications", notificationsRoutes);
+router.use("/share", shareRoutes);
 router.use("/redeem-codes", redeemCodeRoutes);
 router.use("/proxy", proxyRoutes);
 router.use("/stickers", stickerRoutes);
@@ -127,5 +140,9 @@ router.use("/workflows", workflowsRoutes);
 router.use("/billing", billingRoutes);
 router.use("/payments", paymentsRoutes);
 router.use("/fx", fxRoutes);
+router.use("/admin", adminRoutes);
+router.use("/templates", templateRoutes);
+router.use("/pricing", pricingRoutes);
+router.use("/models", modelsRoutes);
 
 export default router;
@@ -5,13 +5,28 @@ import { requireAuth } from '../middlewares/authMiddleware';
 import { validateListGenerations, handleValidationErrors } from '../middlewares/validateGenerations';
 import { formatApiResponse } from '../utils/formatApiResponse';
 import { normalizeMode } from '../utils/modeTypeMap';
+import { libraryCollectionService } from '../services/libraryCollectionService';
+import { libraryCollectionsController } from '../controllers/libraryCollectionsController';
 
 const router = Router();
 
+// Collections (folders) of history items, uploads and bookmarks
+router.get('/collections', requireAuth, libraryCollectionsController.listCollections as any);
+router.post('/collections', requireAuth, libraryCollectionsController.createCollection as any);
+router.put('/collections/order', requireAuth, libraryCollectionsController.reorderCollections as any);
+router.get('/collections/:collectionId', requireAuth, libraryCollectionsController.getCollection as any);
+router.patch('/collections/:collectionId', requireAuth, libraryCollectionsController.updateCollection as any);
+router.delete('/collections/:collectionId', requireAuth, libraryCollectionsController.deleteCollection as any);
+router.post('/collections/:collectionId/items', requireAuth, libraryCollectionsController.addItems as any);
+router.delete('/collections/:collectionId/items', requireAuth, libraryCollectionsController.removeItems as any);
+router.post('/collections/:collectionId/share', requireAuth, libraryCollectionsController.shareCollection as any);
+router.get('/collections/:collectionId/export', requireAuth, libraryCollectionsController.exportCollection as any);
+
 /**
  * GET /api/library
  * Returns user's generated media (library items)
  * Transforms generation history items to library item format
+ * With ?collectionId= returns that collection's items in the same format
  */
 router.get('/', requireAuth, validateListGenerations as any, handleValidationErrors, async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -24,8 +39,17 @@ router.get('/', requireAuth, validateListGenerations as any, handleValidationErr
     } catch {}
     
     const uid = (req as any).uid;
-    const { limit = 50, cursor, nextCursor, mode } = req.query as any;
+    const { limit = 50, cursor, nextCursor, mode, collectionId } = req.query as any;
     const normalizedMode = normalizeMode(mode);
+
+    if (typeof collectionId === 'string' && collectionId) {
+      const page = await libraryCollectionService.listCollectionLibrary(uid, collectionId, {
+        limit: Number(limit),
+        cursor: cursor || nextCursor || undefined,
+        mode: normalizedMode,
+      });
+      return res.json(formatApiResponse('success', 'Library retrieved', page));
+    }
     
     // Fetch user's generations
     const result = await generationHistoryService.listUserGenerations(uid, {
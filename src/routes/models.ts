@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { modelsController } from '../controllers/modelsController';
+
+const router = Router();
+
+// Public model catalog (built from data/modelRegistry.ts)
+router.get('/', modelsController.listModels);
+router.get('/:id(*)', modelsController.getModel);
+
+export default router;
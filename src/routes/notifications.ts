@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { requireAuth } from '../middlewares/authMiddleware';
+import { notificationsController } from '../controllers/notificationsController';
+
+const router = Router();
+
+// Paginated list (?limit, ?cursor, ?unread=true, ?type) with the current unread count
+router.get('/', requireAuth as any, notificationsController.listNotifications as any);
+
+router.get('/unread-count', requireAuth as any, notificationsController.getUnreadCount as any);
+
+// Bulk mark read/unread ({ ids, read? }) or everything ({ all: true })
+router.post('/read', requireAuth as any, notificationsController.markRead as any);
+
+// Per-type mute preferences
+router.get('/preferences', requireAuth as any, notificationsController.getPreferences as any);
+router.put('/preferences', requireAuth as any, notificationsController.updatePreferences as any);
+
+// FCM device tokens
+router.get('/devices', requireAuth as any, notificationsController.listDevices as any);
+router.post('/devices', requireAuth as any, notificationsController.registerDevice as any);
+router.delete('/devices', requireAuth as any, notificationsController.removeDevice as any);
+
+// Single item read state
+router.patch('/:id', requireAuth as any, notificationsController.updateNotification as any);
+
+export default router;
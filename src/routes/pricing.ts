@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { pricingController } from '../controllers/pricingController';
+import { requireAuth } from '../middlewares/authMiddleware';
+
+const router = Router();
+
+// Dry-run cost of a generation route: same validators + cost computer, provider is never called
+router.post('/quote', requireAuth, pricingController.quote);
+router.post('/quote/batch', requireAuth, pricingController.quoteBatch);
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { redeemCodeController } from '../controllers/redeemCodeController';
 import { requireAuth } from '../middlewares/authMiddleware';
+import { requirePermission } from '../middlewares/permissionMiddleware';
 
 const router = Router();
 
@@ -12,6 +13,6 @@ router.post('/validate', redeemCodeController.validateRedeemCode);
 
 
 // Create redeem codes (admin function)
-router.post('/create', redeemCodeController.createRedeemCodes);
+router.post('/create', requireAuth, requirePermission('redeem-codes:create'), redeemCodeController.createRedeemCodes);
 
 export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { requireAuth } from '../middlewares/authMiddleware';
+import { shareController } from '../controllers/shareController';
+
+const router = Router();
+
+// Owner: list (?historyId / ?collectionId), mint and revoke share links
+router.get('/', requireAuth as any, shareController.listShareLinks as any);
+router.post('/', requireAuth as any, shareController.createShareLink as any);
+router.delete('/:token', requireAuth as any, shareController.revokeShareLink as any);
+
+// Anyone with the token (no auth)
+router.get('/:token', shareController.viewSharedGeneration as any);
+router.get('/:token/media/:ref', shareController.streamSharedMedia as any);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { requireAuth } from '../middlewares/authMiddleware';
+import { requirePermission } from '../middlewares/permissionMiddleware';
 import * as subscriptionsController from '../controllers/subscriptionsController';
 
 const router = Router();
@@ -26,7 +27,7 @@ router.post('/change-plan', subscriptionsController.changePlan);
 router.post('/verify-payment', subscriptionsController.verifyPayment);
 router.post('/verify-upgrade-order', subscriptionsController.verifyUpgradeOrder);
 
-// Check expiry (Admin/Cron) - Ensure this is protected by appropriate roles in prod
-router.post('/check-expiry', subscriptionsController.checkExpiry);
+// Check expiry (Admin/Cron)
+router.post('/check-expiry', requirePermission('subscriptions:manage'), subscriptionsController.checkExpiry);
 
 export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { templateController } from '../controllers/templateController';
 import { requireAuth } from '../middlewares/authMiddleware';
+import { requirePermission } from '../middlewares/permissionMiddleware';
 
 const router = Router();
 
@@ -10,14 +11,14 @@ router.get('/categories', templateController.getCategories);
 router.get('/themes', templateController.getThemes);
 router.get('/:id', templateController.getTemplateById);
 
-// Protected routes (Admin operations - ideally separate admin middleware)
-// For now, simple requireAuth. Real app should check roles.
-router.post('/', requireAuth, templateController.createTemplate);
-router.put('/:id', requireAuth, templateController.updateTemplate);
-router.delete('/:id', requireAuth, templateController.deleteTemplate);
+// Protected routes (admin / template-editor roles only)
+const canWriteTemplates = [requireAuth, requirePermission('templates:write')];
+router.post('/', canWriteTemplates, templateController.createTemplate);
+router.put('/:id', canWriteTemplates, templateController.updateTemplate);
+router.delete('/:id', canWriteTemplates, templateController.deleteTemplate);
 
 // Admin seeds
-router.post('/categories', requireAuth, templateController.createCategory);
-router.post('/themes', requireAuth, templateController.createTheme);
+router.post('/categories', canWriteTemplates, templateController.createCategory);
+router.post('/themes', canWriteTemplates, templateController.createTheme);
 
 export default router;
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import axios from 'axios';
 import { env } from '../config/env';
 import { normalizeApiError } from '../utils/errorHandler';
+import { providerWebhooksController } from '../controllers/providerWebhooksController';
 
 const router = Router();
 const CREDIT_SERVICE_URL = env.creditServiceUrl;
@@ -38,4 +39,13 @@ router.post('/razorpay', async (req, res) => {
   }
 });
 
+/**
+ * Provider completion webhooks
+ * Called by FAL, Replicate and MiniMax with the signed callback URL
+ * handed out at submit time; finishes the generation server-side.
+ */
+router.post('/fal', providerWebhooksController.fal);
+router.post('/replicate', providerWebhooksController.replicate);
+router.post('/minimax', providerWebhooksController.minimax);
+
 export default router;
@@ -13,6 +13,7 @@ const ffprobePath = require('ffprobe-static')?.path;
 import { logger } from '../utils/logger';
 import { env } from '../config/env';
 import { ImageMedia, VideoMedia } from '../types/generate';
+import { generationHistoryRepository } from '../repository/generationHistoryRepository';
 
 // Base URL for aesthetic scoring. Must be set via SCORE_LOCAL environment variable.
 // Trim trailing slash to ensure consistent request paths.
@@ -304,12 +305,59 @@ function getHighestScore(assets: Array<{ aestheticScore?: number; aesthetic?: an
   return Math.max(...scores);
 }
 
+/**
+ * aesthetic-score job: score the media of a completed history item that have no score yet and
+ * merge the scores (plus the item's highest score) into history and the public mirror.
+ * Throws when some media could not be scored so the queue retries them.
+ */
+async function scoreHistoryItem(uid: string, historyId: string): Promise<void> {
+  if (!AESTHETIC_API_BASE) return;
+  const item = await generationHistoryRepository.get(uid, historyId);
+  if (!item || item.status !== 'completed' || (item as any).isDeleted === true) return;
+
+  const unscored = <T extends { url?: string; aestheticScore?: number }>(media: any[] | undefined): T[] =>
+    (Array.isArray(media) ? media : [])
+      .map((m) => (typeof m === 'string' ? { url: m } : m))
+      .filter((m) => m?.url && typeof m.aestheticScore !== 'number');
+  const images = unscored<ImageMedia>(item.images);
+  const videos = unscored<VideoMedia>(item.videos);
+  if (images.length === 0 && videos.length === 0) return;
+
+  const [scoredImages, scoredVideos] = await Promise.all([scoreImages(images), scoreVideos(videos)]);
+  const toPatches = (media: Array<{ url: string; aestheticScore?: number }>) =>
+    media
+      .filter((m) => typeof m.aestheticScore === 'number')
+      .map((m) => ({ url: m.url, fields: { aestheticScore: m.aestheticScore } }));
+  const imagePatches = toPatches(scoredImages);
+  const videoPatches = toPatches(scoredVideos);
+
+  if (imagePatches.length > 0 || videoPatches.length > 0) {
+    const highest = getHighestScore([
+      ...(Array.isArray(item.images) ? item.images : []),
+      ...(Array.isArray(item.videos) ? item.videos : []),
+      ...scoredImages,
+      ...scoredVideos,
+    ] as any[]);
+    await generationHistoryRepository.patchMedia(uid, historyId, {
+      images: imagePatches,
+      videos: videoPatches,
+      fields: highest !== undefined ? { aestheticScore: highest } : undefined,
+    });
+  }
+
+  const missing = images.length + videos.length - imagePatches.length - videoPatches.length;
+  if (missing > 0) {
+    throw new Error(`${missing} media item(s) could not be scored`);
+  }
+}
+
 export const aestheticScoreService = {
   scoreImage,
   scoreVideo,
   scoreImages,
   scoreVideos,
   getHighestScore,
+  scoreHistoryItem,
 };
 
 // Internal helpers
@@ -0,0 +1,223 @@
+import { admin } from "../../config/firebaseAdmin";
+import { env, getAppBaseUrl } from "../../config/env";
+import { accountRepository } from "../../repository/auth/accountRepository";
+import { authRepository } from "../../repository/auth/authRepository";
+import { projectRepository } from "../../repository/canvas/projectRepository";
+import { engagementRepository } from "../../repository/engagementRepository";
+import type { AccountDeletionRecord } from "../../types/authTypes";
+import { ApiError } from "../../utils/errorHandler";
+import { sendEmail } from "../../utils/mailer";
+import { invalidateAllUserSessions } from "../../utils/sessionStore";
+import { deletePrefix } from "../../utils/storage/zataDelete";
+import {
+  generateAccountDeletedEmailHTML,
+  generateAccountDeletedEmailText,
+  generateAccountDeletionScheduledEmailHTML,
+  generateAccountDeletionScheduledEmailText,
+} from "../../utils/emailTemplates";
+
+/**
+ * Self-service account deletion. DELETE /api/auth/me schedules the wipe
+ * ACCOUNT_DELETION_GRACE_DAYS out and emails a confirmation; until then the user can sign
+ * in and cancel. The account deletion sweeper then runs deleteAccountData, which cascades
+ * through canvas projects, engagement counters, Zata storage, the `generations` mirror,
+ * every per-user Firestore root, cached sessions and finally the Firebase Auth user.
+ *
+ * Ledger entries and invoices live in the credit service, which keeps billing records
+ * under its own retention rules; they are not removed here.
+ */
+
+const ENGAGEMENT_PAGE_SIZE = 200;
+// A run longer than this is presumed dead and its deletion is reclaimed by the next sweep
+const DELETION_LEASE_MS = 60 * 60 * 1000;
+// Failed runs back off exponentially from RETRY_BASE_MS; the deletion is marked failed after the last
+const MAX_DELETION_ATTEMPTS = 8;
+const RETRY_BASE_MS = 5 * 60 * 1000;
+const RETRY_MAX_MS = 24 * 60 * 60 * 1000;
+
+function formatDate(ms: number): string {
+  return new Date(ms).toUTCString().replace(/ \d{2}:\d{2}:\d{2} GMT$/, "");
+}
+
+async function sendDeletionEmail(to: string, subject: string, text: string, html: string): Promise<void> {
+  try {
+    await sendEmail(to, subject, text, html);
+  } catch (e: any) {
+    console.warn("[AccountDeletion] Failed to send email (non-fatal):", e?.message || e);
+  }
+}
+
+export async function getAccountDeletion(uid: string): Promise<AccountDeletionRecord | null> {
+  return accountRepository.getDeletion(uid);
+}
+
+export async function requestAccountDeletion(uid: string): Promise<AccountDeletionRecord> {
+  const existing = await accountRepository.getDeletion(uid);
+  if (existing && (existing.status === "scheduled" || existing.status === "processing")) {
+    return existing;
+  }
+
+  const user = await authRepository.getUserById(uid);
+  if (!user) {
+    throw new ApiError("User not found", 404);
+  }
+
+  const now = Date.now();
+  const record: AccountDeletionRecord = {
+    uid,
+    status: "scheduled",
+    email: user.email || undefined,
+    username: user.username || undefined,
+    requestedAt: new Date(now).toISOString(),
+    scheduledFor: now + env.accountDeletionGraceDays * 24 * 60 * 60 * 1000,
+  };
+  await accountRepository.setDeletion(record);
+  console.log("[AccountDeletion] Scheduled account deletion", { uid, scheduledFor: new Date(record.scheduledFor).toISOString() });
+
+  if (record.email) {
+    const data = {
+      email: record.email,
+      scheduledFor: formatDate(record.scheduledFor),
+      cancelUrl: `${getAppBaseUrl()}/settings/account`,
+    };
+    await sendDeletionEmail(
+      record.email,
+      "Account Deletion Scheduled - WildMind AI",
+      generateAccountDeletionScheduledEmailText(data),
+      generateAccountDeletionScheduledEmailHTML(data)
+    );
+  }
+  return record;
+}
+
+export async function cancelAccountDeletion(uid: string): Promise<AccountDeletionRecord> {
+  const cancelledAt = new Date().toISOString();
+  const { record: existing, cancelled } = await accountRepository.cancelDeletion(uid, cancelledAt);
+  if (!existing || !cancelled) {
+    // A scheduled record with attempts is waiting to retry a partly completed wipe
+    const inProgress = existing?.status === "processing" || (existing?.status === "scheduled" && (existing.attempts || 0) > 0);
+    throw new ApiError(
+      inProgress ? "Account deletion is already in progress" : "No account deletion is scheduled",
+      inProgress ? 409 : 404
+    );
+  }
+  console.log("[AccountDeletion] Cancelled account deletion", { uid });
+  return { ...existing, status: "cancelled", cancelledAt };
+}
+
+/** Undo the user's likes/bookmarks through the engagement repository so counters stay right. */
+async function removeEngagement(uid: string): Promise<void> {
+  for (const type of ["like", "bookmark"] as const) {
+    // Collect first: removing while paging would invalidate the cursor
+    const generationIds: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await engagementRepository.listUserEngagement(type, uid, ENGAGEMENT_PAGE_SIZE, cursor);
+      generationIds.push(...page.items.map((item) => item.generationId));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    for (const generationId of generationIds) {
+      await engagementRepository.toggleEngagement(type, uid, generationId, "remove");
+    }
+  }
+}
+
+async function removeCanvasProjects(uid: string): Promise<void> {
+  const projects = await projectRepository.listAllProjectsForUser(uid);
+  for (const project of projects) {
+    if (project.ownerUid === uid) {
+      await projectRepository.purgeProject(project.id);
+    } else {
+      await projectRepository.removeCollaborator(project.id, uid);
+    }
+  }
+}
+
+async function invalidateCaches(uid: string): Promise<void> {
+  try {
+    const { invalidateUserLists, invalidateLibraryCache, invalidatePublicFeedCache, invalidateCollectionCache } =
+      await import("../../utils/generationCache");
+    await invalidateUserLists(uid);
+    await invalidateLibraryCache(uid);
+    await invalidateCollectionCache(uid);
+    await invalidatePublicFeedCache();
+  } catch (e: any) {
+    console.warn("[AccountDeletion] Cache invalidation failed (non-critical):", e?.message || e);
+  }
+}
+
+/**
+ * Permanently delete the account behind a due deletion. The record is claimed first, so
+ * concurrent sweepers never run the same account; returns false when it was not claimable.
+ * Every step is idempotent, so a failed run is retried from the start after a backoff.
+ */
+export async function deleteAccountData(due: AccountDeletionRecord): Promise<boolean> {
+  const record = await accountRepository.claimDeletion(due.uid, DELETION_LEASE_MS);
+  if (!record) return false;
+  const { uid } = record;
+
+  try {
+    const profile = await authRepository.getUserById(uid).catch(() => null);
+    const username = profile?.username || record.username;
+
+    await removeCanvasProjects(uid);
+    await removeEngagement(uid);
+
+    // Storage keys are rooted at users/<username>/, with a few legacy paths under the uid
+    const prefixes = Array.from(new Set([username, uid].filter(Boolean).map((p) => `users/${p}/`)));
+    for (const prefix of prefixes) {
+      const { failed } = await deletePrefix(prefix);
+      if (failed > 0) throw new Error(`Failed to delete ${failed} objects under ${prefix}`);
+    }
+
+    await accountRepository.wipeUserDocuments(uid);
+    await invalidateCaches(uid);
+
+    // Sessions last: the cached sessions and Firebase tokens keep working until here
+    await invalidateAllUserSessions(uid);
+    try {
+      await admin.auth().revokeRefreshTokens(uid);
+      await admin.auth().deleteUser(uid);
+    } catch (e: any) {
+      if (e?.code !== "auth/user-not-found") throw e;
+    }
+
+    await accountRepository.updateDeletion(uid, {
+      status: "completed",
+      completedAt: new Date().toISOString(),
+      error: undefined,
+    });
+    console.log("[AccountDeletion] ✅ Account deleted", { uid });
+  } catch (e: any) {
+    // Back to scheduled after a backoff so the sweeper retries; the error is kept for operators
+    const attempts = record.attempts || 1;
+    const error = String(e?.message || e).slice(0, 500);
+    const retry =
+      attempts >= MAX_DELETION_ATTEMPTS
+        ? { status: "failed" as const }
+        : { status: "scheduled" as const, scheduledFor: Date.now() + Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS) };
+    await accountRepository.updateDeletion(uid, { ...retry, error }).catch(() => {});
+    if (retry.status === "failed") {
+      console.error("[AccountDeletion] ❌ Giving up on account deletion", { uid, attempts, error });
+    }
+    throw e;
+  }
+
+  if (record.email) {
+    await sendDeletionEmail(
+      record.email,
+      "Account Deleted - WildMind AI",
+      generateAccountDeletedEmailText({ email: record.email }),
+      generateAccountDeletedEmailHTML({ email: record.email })
+    );
+  }
+  return true;
+}
+
+export const accountDeletionService = {
+  getAccountDeletion,
+  requestAccountDeletion,
+  cancelAccountDeletion,
+  deleteAccountData,
+};
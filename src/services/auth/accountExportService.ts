@@ -0,0 +1,181 @@
+import { admin } from "../../config/firebaseAdmin";
+import { JOB_QUEUES, AccountExportJobPayload } from "../../config/jobQueues";
+import { accountRepository } from "../../repository/auth/accountRepository";
+import { authRepository } from "../../repository/auth/authRepository";
+import { creditsRepository } from "../../repository/creditsRepository";
+import { projectRepository } from "../../repository/canvas/projectRepository";
+import type { AccountDataExportRecord } from "../../types/authTypes";
+import { backgroundTaskQueue } from "../../utils/backgroundTaskQueue";
+import { ApiError } from "../../utils/errorHandler";
+import { getZataSignedGetUrl, uploadBufferToZata } from "../../utils/storage/zataUpload";
+
+/**
+ * Self-service data export (POST /api/auth/me/export). An account-export job gathers the
+ * user's records into a ZIP of JSON files (one per section) and uploads it next to the
+ * user's media, so it is wiped together with the account. Media files are referenced by
+ * URL rather than copied; POST /api/generations/export bundles the media itself.
+ */
+
+const DOWNLOAD_URL_TTL_SECONDS = 24 * 60 * 60;
+const LEDGER_EXPORT_LIMIT = 10000;
+// Never exported: credential material kept on the profile
+const PROFILE_SECRET_FIELDS = ["passwordHistory"];
+
+/** Firestore Timestamps to ISO strings, recursively, so the archive is plain JSON. */
+function toPlain(value: any): any {
+  if (value instanceof admin.firestore.Timestamp) return value.toDate().toISOString();
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (value && typeof value === "object" && value.constructor === Object) {
+    const out: Record<string, any> = {};
+    for (const [key, v] of Object.entries(value)) out[key] = toPlain(v);
+    return out;
+  }
+  return value;
+}
+
+async function buildSections(uid: string): Promise<Record<string, any>> {
+  const profile = await authRepository.getUserById(uid);
+  const { generations, assistantThreads, audioFiles, characters, likes, bookmarks } =
+    await accountRepository.gatherUserDocuments(uid);
+
+  // Uploads are the user-provided inputs attached to history items
+  const uploads = generations.flatMap((item) =>
+    [...(item.inputImages || []), ...(item.inputVideos || [])].map((media: any) => ({
+      historyId: item.id,
+      ...media,
+    }))
+  );
+
+  const projects = await projectRepository.listAllProjectsForUser(uid);
+  const canvasProjects = [];
+  for (const project of projects) {
+    const owned = project.ownerUid === uid;
+    const snapshot = owned ? await projectRepository.getCurrentSnapshot(project.id).catch(() => null) : null;
+    canvasProjects.push({ ...project, role: owned ? "owner" : "collaborator", ...(snapshot ? { currentSnapshot: snapshot } : {}) });
+  }
+
+  const [ledger, invoices] = await Promise.all([
+    creditsRepository.listRecentLedgers(uid, LEDGER_EXPORT_LIMIT),
+    creditsRepository.listInvoices(uid),
+  ]);
+
+  const safeProfile: Record<string, any> | null = profile ? { ...profile } : null;
+  if (safeProfile) PROFILE_SECRET_FIELDS.forEach((field) => delete safeProfile[field]);
+
+  return {
+    profile: safeProfile,
+    generations,
+    uploads,
+    canvasProjects,
+    assistantThreads,
+    audioFiles,
+    characters,
+    engagement: { likes, bookmarks },
+    ledger: ledger.map(({ id, entry }) => ({ id, ...entry })),
+    invoices,
+  };
+}
+
+function sectionCount(value: any): number {
+  if (Array.isArray(value)) return value.length;
+  if (value && typeof value === "object" && !("uid" in value)) {
+    return Object.values(value).reduce((n: number, v) => n + sectionCount(v), 0);
+  }
+  return value ? 1 : 0;
+}
+
+export async function requestDataExport(uid: string): Promise<AccountDataExportRecord> {
+  const recent = await accountRepository.listDataExports(uid, 5);
+  if (recent.some((e) => e.status === "queued" || e.status === "processing")) {
+    throw new ApiError("A data export is already in progress", 409);
+  }
+  const record = await accountRepository.createDataExport(uid, {
+    status: "queued",
+    createdAt: new Date().toISOString(),
+  });
+  await backgroundTaskQueue.enqueue<AccountExportJobPayload>(
+    JOB_QUEUES.accountExport,
+    { uid, exportId: record.id },
+    { jobId: record.id }
+  );
+  console.log("[AccountExport] Queued data export", { uid, exportId: record.id });
+  return record;
+}
+
+/** The export record, with a fresh signed download URL once completed. */
+export async function getDataExport(
+  uid: string,
+  exportId: string
+): Promise<AccountDataExportRecord & { downloadUrl?: string; downloadUrlExpiresAt?: string }> {
+  const record = await accountRepository.getDataExport(uid, exportId);
+  if (!record) {
+    throw new ApiError("Export not found", 404);
+  }
+  if (record.status !== "completed" || !record.storagePath) return record;
+  const downloadUrl = await getZataSignedGetUrl(record.storagePath, DOWNLOAD_URL_TTL_SECONDS);
+  return {
+    ...record,
+    downloadUrl,
+    downloadUrlExpiresAt: new Date(Date.now() + DOWNLOAD_URL_TTL_SECONDS * 1000).toISOString(),
+  };
+}
+
+export async function listDataExports(uid: string): Promise<AccountDataExportRecord[]> {
+  return accountRepository.listDataExports(uid);
+}
+
+/** account-export job handler; a completed export is not rebuilt on a repeated run. */
+export async function runAccountExportJob({ uid, exportId }: AccountExportJobPayload): Promise<void> {
+  const record = await accountRepository.getDataExport(uid, exportId);
+  if (!record || record.status === "completed") return;
+
+  await accountRepository.updateDataExport(uid, exportId, {
+    status: "processing",
+    startedAt: new Date().toISOString(),
+  });
+
+  try {
+    const sections = await buildSections(uid);
+    const AdmZip = (await import("adm-zip")).default as any;
+    const zip = new AdmZip();
+    const counts: Record<string, number> = {};
+    for (const [name, value] of Object.entries(sections)) {
+      zip.addFile(`${name}.json`, Buffer.from(JSON.stringify(toPlain(value), null, 2)));
+      counts[name] = sectionCount(value);
+    }
+    zip.addFile(
+      "README.txt",
+      Buffer.from(
+        `Account data export for ${uid}\nCreated ${new Date().toISOString()}\n\n` +
+          "Each JSON file holds one category of data. Media is referenced by URL; links to " +
+          "private files may require signing in.\n"
+      )
+    );
+
+    const username = (sections.profile && sections.profile.username) || uid;
+    const storagePath = `users/${username}/exports/account-data-${exportId}.zip`;
+    const archive: Buffer = zip.toBuffer();
+    await uploadBufferToZata(storagePath, archive, "application/zip");
+
+    await accountRepository.updateDataExport(uid, exportId, {
+      status: "completed",
+      sections: counts,
+      sizeBytes: archive.length,
+      storagePath,
+      completedAt: new Date().toISOString(),
+    });
+    console.log("[AccountExport] ✅ Data export ready", { uid, exportId, sizeBytes: archive.length });
+  } catch (e: any) {
+    await accountRepository
+      .updateDataExport(uid, exportId, { status: "failed", error: String(e?.message || e).slice(0, 500) })
+      .catch(() => {});
+    throw e;
+  }
+}
+
+export const accountExportService = {
+  requestDataExport,
+  getDataExport,
+  listDataExports,
+  runAccountExportJob,
+};
@@ -0,0 +1,179 @@
+import crypto from "crypto";
+import { env } from "../../config/env";
+import { redisDelSafe, redisGetSafe, redisSetSafe } from "../../config/redisClient";
+import {
+  API_KEY_PREFIX,
+  DEFAULT_API_KEY_RATE_LIMIT,
+  MAX_API_KEYS_PER_USER,
+} from "../../config/apiKeyScopes";
+import { apiKeyRepository } from "../../repository/auth/apiKeyRepository";
+import type { ApiKeyRecord, ApiKeyScope, ApiKeySummary } from "../../types/authTypes";
+import { ApiError } from "../../utils/errorHandler";
+
+/**
+ * Personal API keys: `wm_` + 32 random bytes (base64url). The plaintext is shown once on
+ * create/rotate; lookups go through the sha256 hash. Verified keys are cached in Redis for
+ * a minute and the cache entry is dropped on rotate/revoke, so changes apply immediately.
+ */
+
+const CACHE_TTL_SECONDS = 60;
+// lastUsedAt/lastUsedIp are written at most this often per key
+const USAGE_WRITE_INTERVAL_MS = 60 * 1000;
+
+const lastUsageWrite = new Map<string, number>();
+
+export function looksLikeApiKey(token: string | undefined | null): boolean {
+  return typeof token === "string" && token.startsWith(API_KEY_PREFIX);
+}
+
+function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+}
+
+function cacheKey(keyHash: string): string {
+  return `${env.redisPrefix || ""}apikey:${keyHash}`;
+}
+
+function toSummary(record: ApiKeyRecord): ApiKeySummary {
+  const { keyHash: _hash, ...summary } = record;
+  return summary;
+}
+
+async function getOwnedKey(uid: string, id: string): Promise<ApiKeyRecord> {
+  const record = await apiKeyRepository.getKey(id);
+  if (!record || record.uid !== uid) {
+    throw new ApiError("API key not found", 404);
+  }
+  return record;
+}
+
+async function createApiKey(
+  uid: string,
+  input: { name: string; scopes: ApiKeyScope[]; rateLimitPerMinute?: number },
+): Promise<{ key: string; apiKey: ApiKeySummary }> {
+  const existing = await apiKeyRepository.listByUser(uid);
+  if (existing.filter((k) => !k.revokedAt).length >= MAX_API_KEYS_PER_USER) {
+    throw new ApiError(`You can have at most ${MAX_API_KEYS_PER_USER} active API keys`, 400);
+  }
+
+  const key = generateApiKey();
+  const record = await apiKeyRepository.createKey({
+    uid,
+    name: input.name.trim(),
+    scopes: Array.from(new Set(input.scopes)),
+    keyHash: hashApiKey(key),
+    prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+    rateLimitPerMinute: input.rateLimitPerMinute ?? DEFAULT_API_KEY_RATE_LIMIT,
+    createdAt: new Date().toISOString(),
+  });
+  return { key, apiKey: toSummary(record) };
+}
+
+async function listApiKeys(uid: string): Promise<ApiKeySummary[]> {
+  const records = await apiKeyRepository.listByUser(uid);
+  return records.map(toSummary);
+}
+
+async function updateApiKey(
+  uid: string,
+  id: string,
+  updates: { name?: string; scopes?: ApiKeyScope[]; rateLimitPerMinute?: number },
+): Promise<ApiKeySummary> {
+  const record = await getOwnedKey(uid, id);
+  if (record.revokedAt) {
+    throw new ApiError("API key has been revoked", 409);
+  }
+  const changes = {
+    name: updates.name?.trim(),
+    scopes: updates.scopes ? Array.from(new Set(updates.scopes)) : undefined,
+    rateLimitPerMinute: updates.rateLimitPerMinute,
+  };
+  await apiKeyRepository.updateKey(id, changes);
+  await redisDelSafe(cacheKey(record.keyHash));
+  return toSummary({
+    ...record,
+    ...Object.fromEntries(Object.entries(changes).filter(([, v]) => v !== undefined)),
+  } as ApiKeyRecord);
+}
+
+/** Issue a new secret for an existing key; the old secret stops working immediately. */
+async function rotateApiKey(uid: string, id: string): Promise<{ key: string; apiKey: ApiKeySummary }> {
+  const record = await getOwnedKey(uid, id);
+  if (record.revokedAt) {
+    throw new ApiError("API key has been revoked", 409);
+  }
+  const key = generateApiKey();
+  const rotated: ApiKeyRecord = {
+    ...record,
+    keyHash: hashApiKey(key),
+    prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+    rotatedAt: new Date().toISOString(),
+  };
+  await apiKeyRepository.updateKey(id, {
+    keyHash: rotated.keyHash,
+    prefix: rotated.prefix,
+    rotatedAt: rotated.rotatedAt,
+  });
+  await redisDelSafe(cacheKey(record.keyHash));
+  return { key, apiKey: toSummary(rotated) };
+}
+
+async function revokeApiKey(uid: string, id: string): Promise<ApiKeySummary> {
+  const record = await getOwnedKey(uid, id);
+  if (record.revokedAt) return toSummary(record);
+  const revokedAt = new Date().toISOString();
+  await apiKeyRepository.updateKey(id, { revokedAt });
+  await redisDelSafe(cacheKey(record.keyHash));
+  return toSummary({ ...record, revokedAt });
+}
+
+/**
+ * Resolve a presented key to its record, or throw ApiError(401).
+ * Records last use (throttled) as a side effect.
+ */
+async function authenticateApiKey(key: string, ip?: string): Promise<ApiKeyRecord> {
+  const keyHash = hashApiKey(key);
+  let record = await redisGetSafe<ApiKeyRecord>(cacheKey(keyHash));
+  if (!record) {
+    record = await apiKeyRepository.findByHash(keyHash);
+    if (record && !record.revokedAt) {
+      await redisSetSafe(cacheKey(keyHash), record, CACHE_TTL_SECONDS);
+    }
+  }
+  if (!record || record.keyHash !== keyHash || record.revokedAt) {
+    throw new ApiError("Unauthorized - Invalid or revoked API key", 401);
+  }
+
+  const now = Date.now();
+  if (now - (lastUsageWrite.get(record.id) || 0) >= USAGE_WRITE_INTERVAL_MS) {
+    lastUsageWrite.set(record.id, now);
+    apiKeyRepository
+      .recordUsage(record.id, new Date(now).toISOString(), ip)
+      .catch((err) => console.warn("[API_KEYS] Failed to record key usage (non-fatal):", err?.message));
+  }
+  return record;
+}
+
+/**
+ * Owner of a key that authenticated recently (cached record only, no Firestore read and no
+ * usage write). Null when the key is not cached; callers must not treat it as authentication.
+ */
+async function peekApiKeyUid(key: string): Promise<string | null> {
+  const keyHash = hashApiKey(key);
+  const record = await redisGetSafe<ApiKeyRecord>(cacheKey(keyHash));
+  return record && record.keyHash === keyHash && !record.revokedAt ? record.uid : null;
+}
+
+export const apiKeyService = {
+  createApiKey,
+  listApiKeys,
+  updateApiKey,
+  rotateApiKey,
+  revokeApiKey,
+  authenticateApiKey,
+  peekApiKeyUid,
+};
@@ -0,0 +1,117 @@
+import { backgroundTaskQueue } from '../utils/backgroundTaskQueue';
+import { isRedisEnabled } from '../config/redisClient';
+import { env } from '../config/env';
+import {
+  JOB_QUEUES,
+  JOB_QUEUE_OPTIONS,
+  HistoryJobPayload,
+  VideoThumbnailJobPayload,
+  NotificationJobPayload,
+  GenerationExportJobPayload,
+  AccountExportJobPayload,
+  CanvasExportJobPayload,
+  CanvasThumbnailJobPayload,
+  ProviderWebhookJobPayload,
+  RunwayTaskWatchJobPayload,
+  AssistantSearchBackfillJobPayload,
+} from '../config/jobQueues';
+import { aestheticScoreService } from './aestheticScoreService';
+import { imageOptimizationService } from './imageOptimizationService';
+import { attachHistoryThumbnails } from './videoThumbnailService';
+import { runNotificationJob } from './notificationService';
+import { runExportJob } from './generationExportService';
+import { runAccountExportJob } from './auth/accountExportService';
+import { runCanvasExportJob, runCanvasThumbnailJob } from './canvas/canvasExportService';
+import { runProviderWebhookJob } from './providerWebhookService';
+import { runwayService } from './runwayService';
+import { assistantThreadsRepository } from '../repository/assistantThreadsRepository';
+
+/**
+ * Post-processing of completed generations, deferred notification checks, bulk
+ * exports, account data exports, canvas renders, provider webhook completions, Runway task
+ * status checks and the assistant message search backfill, run through the background job queue.
+ * Every handler works from current state (history item, balance, deduplicated notification
+ * ids), so a repeated run is a no-op.
+ */
+
+let registered = false;
+
+export function registerBackgroundJobs(): void {
+  if (registered) return;
+  registered = true;
+  backgroundTaskQueue.registerQueue<HistoryJobPayload>(
+    JOB_QUEUES.aestheticScore,
+    ({ uid, historyId }) => aestheticScoreService.scoreHistoryItem(uid, historyId),
+    JOB_QUEUE_OPTIONS[JOB_QUEUES.aestheticScore]
+  );
+  backgroundTaskQueue.registerQueue<HistoryJobPayload>(
+    JOB_QUEUES.imageOptimization,
+    ({ uid, historyId }) => imageOptimizationService.optimizeHistoryImages(uid, historyId),
+    JOB_QUEUE_OPTIONS[JOB_QUEUES.imageOptimization]
+  );
+  backgroundTaskQueue.registerQueue<VideoThumbnailJobPayload>(
+    JOB_QUEUES.videoThumbnail,
+    ({ uid, historyId, keyPrefix }) => attachHistoryThumbnails(uid, historyId, keyPrefix),
+    JOB_QUEUE_OPTIONS[JOB_QUEUES.videoThumbnail]
+  );
+  backgroundTaskQueue.registerQueue<NotificationJobPayload>(
+    JOB_QUEUES.notifications,
+    runNotificationJob,
+    JOB_QUEUE_OPTIONS[JOB_QUEUES.notifications]
+  );
+  backgroundTaskQueue.registerQueue<GenerationExportJobPayload>(
+    JOB_QUEUES.generationExport,
+    runExportJob,
+    JOB_QUEUE_OPTIONS[JOB_QUEUES.generationExport]
+  );
+  backgroundTaskQueue.registerQueue<AccountExportJobPayload>(
+    JOB_QUEUES.accountExport,
+    runAccountExportJob,
+    JOB_QUEUE_OPTIONS[JOB_QUEUES.accountExport]
+  );
+  backgroundTaskQueue.registerQueue<CanvasExportJobPayload>(
+    JOB_QUEUES.canvasExport,
+    runCanvasExportJob,
+    JOB_QUEUE_OPTIONS[JOB_QUEUES.canvasExport]
+  );
+  backgroundTaskQueue.registerQueue<CanvasThumbnailJobPayload>(
+    JOB_QUEUES.canvasThumbnails,
+    runCanvasThumbnailJob,
+    JOB_QUEUE_OPTIONS[JOB_QUEUES.canvasThumbnails]
+  );
+  backgroundTaskQueue.registerQueue<ProviderWebhookJobPayload>(
+    JOB_QUEUES.providerWebhooks,
+    runProviderWebhookJob,
+    JOB_QUEUE_OPTIONS[JOB_QUEUES.providerWebhooks]
+  );
+  backgroundTaskQueue.registerQueue<RunwayTaskWatchJobPayload>(
+    JOB_QUEUES.runwayTaskWatch,
+    (payload) => runwayService.runTaskWatchJob(payload),
+    JOB_QUEUE_OPTIONS[JOB_QUEUES.runwayTaskWatch]
+  );
+  backgroundTaskQueue.registerQueue<AssistantSearchBackfillJobPayload>(
+    JOB_QUEUES.assistantSearchBackfill,
+    async ({ uid }, _job, signal) => {
+      await assistantThreadsRepository.backfillSearchIndex(uid, signal);
+    },
+    JOB_QUEUE_OPTIONS[JOB_QUEUES.assistantSearchBackfill]
+  );
+}
+
+/**
+ * Consume the queues in this process. Without Redis the queue is in-process, so the API
+ * always runs its own handlers; with Redis this can be left to `npm run jobs:worker`, and the
+ * API then only drains the jobs it kept in memory after a failed Redis write.
+ * Returns whether this process consumes the Redis queues.
+ */
+export function startBackgroundJobs(options: { force?: boolean } = {}): boolean {
+  registerBackgroundJobs();
+  const consumeRedis = Boolean(options.force) || !isRedisEnabled() || env.jobQueueInlineWorkers;
+  backgroundTaskQueue.start({ redis: consumeRedis });
+  return consumeRedis;
+}
+
+export const backgroundJobsService = {
+  registerBackgroundJobs,
+  startBackgroundJobs,
+};
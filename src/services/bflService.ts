@@ -17,7 +17,6 @@ import { uploadFromUrlToZata, uploadDataUriToZata } from "../utils/storage/zataU
 import { env } from "../config/env";
 import sharp from "sharp";
 import { syncToMirror, updateMirror } from "../utils/mirrorHelper";
-import { aestheticScoreService } from "./aestheticScoreService";
 import { publicVisibilityEnforcer } from "../utils/publicVisibilityEnforcer";
 import { markGenerationCompleted } from "./generationHistoryService";
 import { postSuccessDebit } from "../utils/creditDebit";
@@ -340,12 +339,8 @@ async function generate(
       })
     );
 
-    // Score the images for aesthetic quality
-    const scoredImages = await aestheticScoreService.scoreImages(storedImages);
-    const highestScore = aestheticScoreService.getHighestScore(scoredImages);
-
     // Clean images array to remove undefined aestheticScore values
-    const cleanedImages = scoredImages.map(img => {
+    const cleanedImages = storedImages.map(img => {
       const { aestheticScore, ...rest } = img as any;
       return aestheticScore !== undefined ? { ...rest, aestheticScore } : rest;
     });
@@ -355,24 +350,20 @@ async function generate(
       images: cleanedImages as any, // BFL repo uses older GeneratedImage type
       frameSize,
     });
-    // update authoritative history and mirror with aesthetic scores
-    // Only include aestheticScore if it's not undefined
+    // update authoritative history and mirror
     const updateData: any = {
       status: "completed",
       images: cleanedImages,
       // persist optional fields
       ...(frameSize ? { frameSize: frameSize as any } : {}),
     };
-    if (highestScore !== undefined) {
-      updateData.aestheticScore = highestScore;
-    }
     
     await generationHistoryRepository.update(uid, historyId, updateData as Partial<GenerationHistoryItem>);
     
     // Trigger image optimization (thumbnails, AVIF, blur placeholders) in background
     markGenerationCompleted(uid, historyId, {
       status: "completed",
-      images: scoredImages,
+      images: storedImages,
     }).catch(err => console.error('[BFL] Image optimization failed:', err));
     
     // Robust mirror sync with retry logic
@@ -388,9 +379,6 @@ async function generate(
       images: cleanedImages,
       status: "completed",
     };
-    if (highestScore !== undefined) {
-      returnData.aestheticScore = highestScore;
-    }
 
     // STRICT CREDIT DEDUCTION
     if (ctx && ctx.creditCost && ctx.creditCost > 0) {
@@ -519,26 +507,23 @@ async function fill(uid: string, body: any, ctx: any) {
   });
 
   const images = [{ id, url: publicUrl, storagePath: key, originalUrl: imageUrl }];
-  const scoredImages = await aestheticScoreService.scoreImages(images);
-  const highestScore = aestheticScoreService.getHighestScore(scoredImages);
 
   // Clean images array to remove undefined aestheticScore values
-  const cleanedImages = scoredImages.map(img => {
+  const cleanedImages = images.map(img => {
     const { aestheticScore, ...rest } = img as any;
     return aestheticScore !== undefined ? { ...rest, aestheticScore } : rest;
   });
 
   const updateData: any = {
     status: "completed",
-    images: scoredImages,
-    aestheticScore: highestScore,
+    images,
   } as any;
   // Trigger image optimization (thumbnails, AVIF, blur placeholders) in background
   try {
     console.log('[BFL.fill] Triggering markGenerationCompleted for optimization', { uid, historyId });
     markGenerationCompleted(uid, historyId, {
       status: 'completed',
-      images: scoredImages,
+      images,
     }).catch(err => console.error('[BFL.fill] Image optimization failed:', err));
   } catch (optErr) {
     console.warn('[BFL.fill] markGenerationCompleted invocation error:', optErr);
@@ -555,7 +540,6 @@ async function fill(uid: string, body: any, ctx: any) {
     createdBy,
     images: cleanedImages,
     status: "completed",
-    aestheticScore: highestScore,
   };
   
   // STRICT CREDIT DEDUCTION
@@ -622,26 +606,23 @@ async function expand(uid: string, body: any, ctx: any) {
   });
 
   const images = [{ id, url: publicUrl, storagePath: key, originalUrl: imageUrl }];
-  const scoredImages = await aestheticScoreService.scoreImages(images);
-  const highestScore = aestheticScoreService.getHighestScore(scoredImages);
 
   // Clean images array to remove undefined aestheticScore values
-  const cleanedImages = scoredImages.map(img => {
+  const cleanedImages = images.map(img => {
     const { aestheticScore, ...rest } = img as any;
     return aestheticScore !== undefined ? { ...rest, aestheticScore } : rest;
   });
 
   const updateData: any = {
     status: "completed",
-    images: scoredImages,
-    aestheticScore: highestScore,
+    images,
   } as any;
   // Trigger image optimization (thumbnails, AVIF, blur placeholders) in background
   try {
     console.log('[BFL.expand] Triggering markGenerationCompleted for optimization', { uid, historyId });
     markGenerationCompleted(uid, historyId, {
       status: 'completed',
-      images: scoredImages,
+      images,
     }).catch(err => console.error('[BFL.expand] Image optimization failed:', err));
   } catch (optErr) {
     console.warn('[BFL.expand] markGenerationCompleted invocation error:', optErr);
@@ -658,7 +639,6 @@ async function expand(uid: string, body: any, ctx: any) {
     createdBy,
     images: cleanedImages,
     status: "completed",
-    aestheticScore: highestScore,
   };
   
   // STRICT CREDIT DEDUCTION
@@ -725,26 +705,23 @@ async function canny(uid: string, body: any, ctx: any) {
   });
 
   const images = [{ id, url: publicUrl, storagePath: key, originalUrl: imageUrl }];
-  const scoredImages = await aestheticScoreService.scoreImages(images);
-  const highestScore = aestheticScoreService.getHighestScore(scoredImages);
 
   // Clean images array to remove undefined aestheticScore values
-  const cleanedImages = scoredImages.map(img => {
+  const cleanedImages = images.map(img => {
     const { aestheticScore, ...rest } = img as any;
     return aestheticScore !== undefined ? { ...rest, aestheticScore } : rest;
   });
 
   const updateData: any = {
     status: "completed",
-    images: scoredImages,
-    aestheticScore: highestScore,
+    images,
   } as any;
   // Trigger image optimization (thumbnails, AVIF, blur placeholders) in background
   try {
     console.log('[BFL.canny] Triggering markGenerationCompleted for optimization', { uid, historyId });
     markGenerationCompleted(uid, historyId, {
       status: 'completed',
-      images: scoredImages,
+      images,
     }).catch(err => console.error('[BFL.canny] Image optimization failed:', err));
   } catch (optErr) {
     console.warn('[BFL.canny] markGenerationCompleted invocation error:', optErr);
@@ -761,7 +738,6 @@ async function canny(uid: string, body: any, ctx: any) {
     createdBy,
     images: cleanedImages,
     status: "completed",
-    aestheticScore: highestScore,
   };
   
   // STRICT CREDIT DEDUCTION
@@ -828,26 +804,23 @@ async function depth(uid: string, body: any, ctx: any) {
   });
 
   const images = [{ id, url: publicUrl, storagePath: key, originalUrl: imageUrl }];
-  const scoredImages = await aestheticScoreService.scoreImages(images);
-  const highestScore = aestheticScoreService.getHighestScore(scoredImages);
 
   // Clean images array to remove undefined aestheticScore values
-  const cleanedImages = scoredImages.map(img => {
+  const cleanedImages = images.map(img => {
     const { aestheticScore, ...rest } = img as any;
     return aestheticScore !== undefined ? { ...rest, aestheticScore } : rest;
   });
 
   const updateData: any = {
     status: "completed",
-    images: scoredImages,
-    aestheticScore: highestScore,
+    images,
   } as any;
   // Trigger image optimization (thumbnails, AVIF, blur placeholders) in background
   try {
     console.log('[BFL.depth] Triggering markGenerationCompleted for optimization', { uid, historyId });
     markGenerationCompleted(uid, historyId, {
       status: 'completed',
-      images: scoredImages,
+      images,
     }).catch(err => console.error('[BFL.depth] Image optimization failed:', err));
   } catch (optErr) {
     console.warn('[BFL.depth] markGenerationCompleted invocation error:', optErr);
@@ -864,7 +837,6 @@ async function depth(uid: string, body: any, ctx: any) {
     createdBy,
     images: cleanedImages,
     status: "completed",
-    aestheticScore: highestScore,
   };
   
   // STRICT CREDIT DEDUCTION
@@ -1034,26 +1006,23 @@ async function expandWithFill(uid: string, body: any, ctx: any) {
   });
 
   const images = [{ id, url: publicUrl, storagePath: key, originalUrl: imageUrl }];
-  const scoredImages = await aestheticScoreService.scoreImages(images);
-  const highestScore = aestheticScoreService.getHighestScore(scoredImages);
   
   // Clean images array to remove undefined aestheticScore values
-  const cleanedImages = scoredImages.map(img => {
+  const cleanedImages = images.map(img => {
     const { aestheticScore, ...rest } = img as any;
     return aestheticScore !== undefined ? { ...rest, aestheticScore } : rest;
   });
 
   const updateData: any = {
     status: "completed",
-    images: scoredImages,
-    aestheticScore: highestScore,
+    images,
   } as any;
   // Trigger image optimization (thumbnails, AVIF, blur placeholders) in background
   try {
     console.log('[BFL.expandWithFill] Triggering markGenerationCompleted for optimization', { uid, historyId });
     markGenerationCompleted(uid, historyId, {
       status: 'completed',
-      images: scoredImages,
+      images,
     }).catch(err => console.error('[BFL.expandWithFill] Image optimization failed:', err));
   } catch (optErr) {
     console.warn('[BFL.expandWithFill] markGenerationCompleted invocation error:', optErr);
@@ -1072,7 +1041,6 @@ async function expandWithFill(uid: string, body: any, ctx: any) {
     createdBy,
     images: cleanedImages,
     status: "completed",
-    aestheticScore: highestScore,
   };
   
   // STRICT CREDIT DEDUCTION
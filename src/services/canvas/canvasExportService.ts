@@ -0,0 +1,433 @@
+import puppeteer, { type Browser, type Page } from 'puppeteer';
+import { env } from '../../config/env';
+import {
+  JOB_QUEUES,
+  CanvasExportJobPayload,
+  CanvasThumbnailJobPayload,
+  canvasThumbnailJobId,
+} from '../../config/jobQueues';
+import { projectRepository } from '../../repository/canvas/projectRepository';
+import { exportRepository } from '../../repository/canvas/exportRepository';
+import { elementIntersectsRegion } from '../../repository/canvas/elementRepository';
+import { authRepository } from '../../repository/auth/authRepository';
+import {
+  CanvasElement,
+  CanvasExportFormat,
+  CanvasExportRecord,
+  CanvasExportScope,
+  CanvasProject,
+  CanvasRegion,
+} from '../../types/canvas';
+import { backgroundTaskQueue } from '../../utils/backgroundTaskQueue';
+import { ApiError } from '../../utils/errorHandler';
+import { getZataSignedGetUrl, uploadBufferToZata } from '../../utils/storage/zataUpload';
+import { ZATA_ENDPOINT } from '../../utils/storage/zataClient';
+import { getProject } from './projectService';
+import { readProjectState } from './versionService';
+import { computeBoardBounds, drawableElements, renderCanvasSvg } from './canvasSvgRenderer';
+
+/**
+ * Server-side canvas export. POST /api/canvas/projects/:id/export records the request and
+ * queues a canvas-export job; the job reads the current board, builds an SVG of the chosen
+ * scope (board, frame or region) and either uploads it as-is, screenshots it in headless
+ * Chromium (PNG at the requested DPI) or prints it (PDF, one page per frame). With
+ * CANVAS_SERVER_THUMBNAILS on, canvas-thumbnails jobs refresh the project's
+ * thumbnail/previewImages after snapshot saves.
+ *
+ * Board media is user-controlled, so Chromium may only load it from storage (and the CDN
+ * origins in CANVAS_RENDER_MEDIA_ORIGINS): other URLs are drawn as placeholders, and every
+ * other request the page makes is aborted.
+ */
+
+const EXPORT_FORMATS: CanvasExportFormat[] = ['png', 'pdf', 'svg'];
+const CONTENT_TYPES: Record<CanvasExportFormat, string> = {
+  png: 'image/png',
+  pdf: 'application/pdf',
+  svg: 'image/svg+xml',
+};
+const CSS_DPI = 96;
+const MIN_DPI = 72;
+const MAX_DPI = 600;
+const DEFAULT_DPI = 144;
+const MAX_PNG_EDGE_PX = 16000; // Chromium cannot capture a larger surface
+const MAX_REGION_EDGE = 100000;
+const MAX_PDF_PAGES = 100;
+const RENDER_TIMEOUT_MS = 60 * 1000;
+const DOWNLOAD_URL_TTL_SECONDS = 24 * 60 * 60;
+const THUMBNAIL_WIDTH_PX = 1200;
+const THUMBNAIL_MAX_FRAMES = 9;
+const THUMBNAIL_DELAY_MS = 2 * 60 * 1000;
+
+interface ExportPage {
+  elements: CanvasElement[];
+  bounds: CanvasRegion;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function parseScope(input: any): CanvasExportScope {
+  if (input === undefined || input === null || input?.type === 'board') return { type: 'board' };
+  if (input?.type === 'frame') {
+    if (typeof input.frameId !== 'string' || !input.frameId) {
+      throw new ApiError('scope.frameId is required for frame exports', 400);
+    }
+    return { type: 'frame', frameId: input.frameId };
+  }
+  if (input?.type === 'region') {
+    const { x, y, width, height } = input.region || {};
+    if (![x, y, width, height].every(isFiniteNumber) || width <= 0 || height <= 0) {
+      throw new ApiError('scope.region must have numeric x, y and positive width, height', 400);
+    }
+    if (width > MAX_REGION_EDGE || height > MAX_REGION_EDGE) {
+      throw new ApiError(`scope.region can be at most ${MAX_REGION_EDGE} units on each side`, 400);
+    }
+    return { type: 'region', region: { x, y, width, height } };
+  }
+  throw new ApiError("scope.type must be 'board', 'frame' or 'region'", 400);
+}
+
+function frameBounds(frame: CanvasElement): CanvasRegion {
+  return { x: frame.x, y: frame.y, width: frame.width || 0, height: frame.height || 0 };
+}
+
+function elementsIn(elements: CanvasElement[], region: CanvasRegion): CanvasElement[] {
+  return elements.filter((el) => el.type === 'connector' || elementIntersectsRegion(el, region));
+}
+
+function framesOf(elements: CanvasElement[]): CanvasElement[] {
+  return elements
+    .filter((el) => el.type === 'frame' && el.width && el.height)
+    .sort((a, b) => a.y - b.y || a.x - b.x);
+}
+
+/** Pages for a scope: one per frame for board PDFs, otherwise a single page. */
+function buildPages(elements: CanvasElement[], scope: CanvasExportScope, format: CanvasExportFormat): ExportPage[] {
+  if (scope.type === 'frame') {
+    const frame = elements.find((el) => el.id === scope.frameId && el.type === 'frame');
+    if (!frame || !frame.width || !frame.height) {
+      throw new ApiError('Frame not found', 404);
+    }
+    const bounds = frameBounds(frame);
+    return [{ elements: elementsIn(elements, bounds), bounds }];
+  }
+  if (scope.type === 'region') {
+    return [{ elements: elementsIn(elements, scope.region), bounds: scope.region }];
+  }
+
+  const frames = framesOf(elements);
+  if (format === 'pdf' && frames.length > 0) {
+    return frames.slice(0, MAX_PDF_PAGES).map((frame) => {
+      const bounds = frameBounds(frame);
+      return { elements: elementsIn(elements, bounds), bounds };
+    });
+  }
+  const bounds = computeBoardBounds(elements);
+  if (!bounds) {
+    throw new ApiError('The board is empty', 400);
+  }
+  return [{ elements, bounds }];
+}
+
+function mediaOrigins(): Set<string> {
+  const origins = new Set<string>();
+  for (const url of [env.zataPrefix, ZATA_ENDPOINT, ...env.canvasRenderMediaOrigins]) {
+    try {
+      if (url) origins.add(new URL(url).origin);
+    } catch {
+      // not a URL; nothing to allow
+    }
+  }
+  return origins;
+}
+
+/** Whether headless Chromium may load `url`: inline images and our storage/CDN origins only. */
+export function isRenderableMediaUrl(url: string, origins: Set<string> = mediaOrigins()): boolean {
+  if (/^data:image\//i.test(url)) return true;
+  try {
+    const parsed = new URL(url);
+    return (parsed.protocol === 'https:' || parsed.protocol === 'http:') && origins.has(parsed.origin);
+  } catch {
+    return false;
+  }
+}
+
+function pageSvg(page: ExportPage, lookup: Record<string, CanvasElement>): string {
+  const origins = mediaOrigins();
+  return renderCanvasSvg(page.elements, page.bounds, { lookup, isAllowedMedia: (url) => isRenderableMediaUrl(url, origins) });
+}
+
+/** A page that aborts every request except the document itself and allowed media. */
+async function openRenderPage(browser: Browser): Promise<Page> {
+  const page = await browser.newPage();
+  const origins = mediaOrigins();
+  await page.setRequestInterception(true);
+  page.on('request', (request) => {
+    const url = request.url();
+    if (url === 'about:blank' || isRenderableMediaUrl(url, origins)) {
+      void request.continue().catch(() => {});
+    } else {
+      void request.abort('blockedbyclient').catch(() => {});
+    }
+  });
+  return page;
+}
+
+// Closing the browser on abort (job timeout) makes pending page calls reject, so the job stops
+async function withBrowser<T>(fn: (browser: Browser) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  signal?.throwIfAborted();
+  const browser = await puppeteer.launch({
+    args: ['--no-sandbox', '--disable-setuid-sandbox'],
+    headless: true,
+  });
+  const onAbort = () => void browser.close().catch(() => {});
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    return await fn(browser);
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    await browser.close().catch(() => {});
+  }
+}
+
+/** Screenshot one page; `scale` is device pixels per board unit, capped to what Chromium can capture. */
+async function renderPng(browser: Browser, svg: string, bounds: CanvasRegion, scale: number): Promise<Buffer> {
+  const width = Math.ceil(bounds.width);
+  const height = Math.ceil(bounds.height);
+  const deviceScaleFactor = Math.min(scale, MAX_PNG_EDGE_PX / Math.max(width, height));
+
+  const page = await openRenderPage(browser);
+  try {
+    await page.setViewport({ width, height, deviceScaleFactor });
+    await page.setContent(
+      `<!DOCTYPE html><html><body style="margin:0">${svg}</body></html>`,
+      { waitUntil: 'networkidle0', timeout: RENDER_TIMEOUT_MS }
+    );
+    const screenshot = await page.screenshot({ type: 'png', clip: { x: 0, y: 0, width, height } });
+    return Buffer.from(screenshot);
+  } finally {
+    await page.close().catch(() => {});
+  }
+}
+
+/** Print all pages into one PDF; each page gets its own size through a CSS named page. */
+async function renderPdf(browser: Browser, pages: ExportPage[], lookup: Record<string, CanvasElement>): Promise<Buffer> {
+  const styles = pages
+    .map((page, i) => {
+      const width = Math.ceil(page.bounds.width);
+      const height = Math.ceil(page.bounds.height);
+      return `@page p${i} { size: ${width}px ${height}px; margin: 0; } .p${i} { page: p${i}; width: ${width}px; height: ${height}px; }`;
+    })
+    .join('\n');
+  const body = pages
+    .map((page, i) => `<section class="p${i}" style="break-after:page;overflow:hidden">${pageSvg(page, lookup)}</section>`)
+    .join('');
+
+  const page = await openRenderPage(browser);
+  try {
+    await page.setContent(
+      `<!DOCTYPE html><html><head><style>html,body{margin:0}svg{display:block}\n${styles}</style></head><body>${body}</body></html>`,
+      { waitUntil: 'networkidle0', timeout: RENDER_TIMEOUT_MS }
+    );
+    const pdf = await page.pdf({ preferCSSPageSize: true, printBackground: true, timeout: RENDER_TIMEOUT_MS });
+    return Buffer.from(pdf);
+  } finally {
+    await page.close().catch(() => {});
+  }
+}
+
+async function canvasStoragePrefix(project: CanvasProject): Promise<string> {
+  const owner = await authRepository.getUserById(project.ownerUid).catch(() => null);
+  return `users/${owner?.username || project.ownerUid}/canvas/${project.id}`;
+}
+
+export async function requestCanvasExport(
+  projectId: string,
+  userId: string,
+  input: { format?: unknown; scope?: unknown; dpi?: unknown }
+): Promise<CanvasExportRecord> {
+  await getProject(projectId, userId);
+
+  const format = input.format as CanvasExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new ApiError("format must be 'png', 'pdf' or 'svg'", 400);
+  }
+  const scope = parseScope(input.scope);
+  if (input.dpi !== undefined && (!Number.isInteger(input.dpi) || (input.dpi as number) < MIN_DPI || (input.dpi as number) > MAX_DPI)) {
+    throw new ApiError(`dpi must be an integer between ${MIN_DPI} and ${MAX_DPI}`, 400);
+  }
+
+  // Fail fast on scopes that cannot render rather than queueing a job that will
+  const { elements } = await readProjectState(projectId);
+  buildPages(drawableElements(elements), scope, format);
+
+  const recent = await exportRepository.listCanvasExports(projectId, 10);
+  if (recent.some((e) => e.requestedBy === userId && (e.status === 'queued' || e.status === 'processing'))) {
+    throw new ApiError('An export of this project is already in progress', 409);
+  }
+
+  const record = await exportRepository.createCanvasExport(projectId, {
+    requestedBy: userId,
+    format,
+    scope,
+    dpi: (input.dpi as number | undefined) ?? DEFAULT_DPI,
+    status: 'queued',
+    createdAt: new Date().toISOString(),
+  });
+  await backgroundTaskQueue.enqueue<CanvasExportJobPayload>(
+    JOB_QUEUES.canvasExport,
+    { projectId, exportId: record.id },
+    { jobId: record.id }
+  );
+  console.log('[Canvas Export] Queued export', { projectId, exportId: record.id, format, scope: scope.type });
+  return record;
+}
+
+/** The export record, with a fresh signed download URL once completed. */
+export async function getCanvasExport(
+  projectId: string,
+  userId: string,
+  exportId: string
+): Promise<CanvasExportRecord & { downloadUrl?: string; downloadUrlExpiresAt?: string }> {
+  await getProject(projectId, userId);
+  const record = await exportRepository.getCanvasExport(projectId, exportId);
+  if (!record) {
+    throw new ApiError('Export not found', 404);
+  }
+  if (record.status !== 'completed' || !record.storagePath) return record;
+  const downloadUrl = await getZataSignedGetUrl(record.storagePath, DOWNLOAD_URL_TTL_SECONDS);
+  return {
+    ...record,
+    downloadUrl,
+    downloadUrlExpiresAt: new Date(Date.now() + DOWNLOAD_URL_TTL_SECONDS * 1000).toISOString(),
+  };
+}
+
+/**
+ * Queue a thumbnail refresh for a project. Saves arrive in bursts, so the job is delayed and
+ * deduplicated per project: one render covers every save made while it was pending.
+ */
+export async function scheduleThumbnailRefresh(projectId: string): Promise<void> {
+  if (!env.canvasServerThumbnails) return;
+  const payload: CanvasThumbnailJobPayload = { projectId };
+  await backgroundTaskQueue.enqueue<CanvasThumbnailJobPayload>(JOB_QUEUES.canvasThumbnails, payload, {
+    jobId: canvasThumbnailJobId(payload),
+    delayMs: THUMBNAIL_DELAY_MS,
+  });
+}
+
+async function runExport(projectId: string, exportId: string, signal?: AbortSignal): Promise<void> {
+  const record = await exportRepository.getCanvasExport(projectId, exportId);
+  if (!record || record.status === 'completed') return;
+  const project = await projectRepository.getProject(projectId);
+  if (!project) {
+    await exportRepository.updateCanvasExport(projectId, exportId, { status: 'failed', error: 'Project not found' });
+    return;
+  }
+
+  await exportRepository.updateCanvasExport(projectId, exportId, {
+    status: 'processing',
+    startedAt: new Date().toISOString(),
+  });
+
+  try {
+    const { elements } = await readProjectState(projectId);
+    const pages = buildPages(drawableElements(elements), record.scope, record.format);
+
+    let output: Buffer;
+    if (record.format === 'svg') {
+      output = Buffer.from(pageSvg(pages[0], elements), 'utf8');
+    } else if (record.format === 'png') {
+      output = await withBrowser(
+        (browser) => renderPng(browser, pageSvg(pages[0], elements), pages[0].bounds, record.dpi / CSS_DPI),
+        signal
+      );
+    } else {
+      output = await withBrowser((browser) => renderPdf(browser, pages, elements), signal);
+    }
+
+    const storagePath = `${await canvasStoragePrefix(project)}/exports/${exportId}.${record.format}`;
+    await uploadBufferToZata(storagePath, output, CONTENT_TYPES[record.format]);
+
+    await exportRepository.updateCanvasExport(projectId, exportId, {
+      status: 'completed',
+      pages: pages.length,
+      sizeBytes: output.length,
+      storagePath,
+      completedAt: new Date().toISOString(),
+    });
+    console.log('[Canvas Export] ✅ Export ready', { projectId, exportId, format: record.format, pages: pages.length, sizeBytes: output.length });
+  } catch (e: any) {
+    await exportRepository
+      .updateCanvasExport(projectId, exportId, { status: 'failed', error: String(e?.message || e).slice(0, 500) })
+      .catch(() => {});
+    throw e;
+  }
+}
+
+/** Board overview plus one image per frame; an empty board keeps its current thumbnail. */
+async function runThumbnail(projectId: string, signal?: AbortSignal): Promise<void> {
+  const project = await projectRepository.getProject(projectId);
+  if (!project) return;
+
+  const { elements } = await readProjectState(projectId);
+  const drawable = drawableElements(elements);
+  const boardBounds = computeBoardBounds(drawable);
+  if (!boardBounds) return;
+
+  const targets: ExportPage[] = [
+    { elements: drawable, bounds: boardBounds },
+    ...framesOf(drawable).slice(0, THUMBNAIL_MAX_FRAMES).map((frame) => {
+      const bounds = frameBounds(frame);
+      return { elements: elementsIn(drawable, bounds), bounds };
+    }),
+  ];
+
+  const prefix = `${await canvasStoragePrefix(project)}/thumbnails`;
+  const version = Date.now();
+  const urls = await withBrowser(async (browser) => {
+    const uploaded: string[] = [];
+    for (let i = 0; i < targets.length; i++) {
+      const { bounds } = targets[i];
+      const png = await renderPng(browser, pageSvg(targets[i], elements), bounds, Math.min(2, THUMBNAIL_WIDTH_PX / bounds.width));
+      const { publicUrl } = await uploadBufferToZata(`${prefix}/${i === 0 ? 'board' : `frame-${i}`}.png`, png, 'image/png');
+      // Keys are reused between renders, so bust caches on the stored URL
+      uploaded.push(`${publicUrl}?v=${version}`);
+    }
+    return uploaded;
+  }, signal);
+
+  await projectRepository.updateProject(projectId, {
+    thumbnail: urls[0],
+    previewImages: urls,
+  });
+  console.log('[Canvas Export] Thumbnail refreshed', { projectId, images: urls.length });
+}
+
+/** canvas-export job handler. */
+export async function runCanvasExportJob(
+  payload: CanvasExportJobPayload,
+  _job?: unknown,
+  signal?: AbortSignal
+): Promise<void> {
+  await runExport(payload.projectId, payload.exportId, signal);
+}
+
+/** canvas-thumbnails job handler; a no-op once server thumbnails are switched off. */
+export async function runCanvasThumbnailJob(
+  payload: CanvasThumbnailJobPayload,
+  _job?: unknown,
+  signal?: AbortSignal
+): Promise<void> {
+  if (!env.canvasServerThumbnails) return;
+  await runThumbnail(payload.projectId, signal);
+}
+
+export const canvasExportService = {
+  requestCanvasExport,
+  getCanvasExport,
+  scheduleThumbnailRefresh,
+  runCanvasExportJob,
+  runCanvasThumbnailJob,
+};
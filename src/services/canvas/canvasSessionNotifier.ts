@@ -3,10 +3,20 @@ type SessionBroadcastPayload =
   | { type: 'project_takeover_requested'; requesterSessionId: string }
   | { type: 'project_takeover_accepted' }
   | { type: 'project_takeover_rejected' }
-  | { type: 'project_takeover_force_close' };
+  | { type: 'project_takeover_force_close' }
+  | { type: 'project_version_restored'; versionId: string; number: number }
+  | { type: 'project_membership_changed'; change: CanvasMembershipChange; uid: string; ownerUid: string };
+
+export type CanvasMembershipChange = 'joined' | 'removed' | 'left' | 'transferred' | 'role_changed';
 
 let broadcaster: ((projectId: string, payload: SessionBroadcastPayload, targetSessionId?: string | null, exceptSessionId?: string | null) => void) | null = null;
 
+let opPublisher: ((projectId: string, op: any) => void) | null = null;
+
+export function registerCanvasOpPublisher(fn: (projectId: string, op: any) => void): void {
+  opPublisher = fn;
+}
+
 export function registerCanvasSessionBroadcaster(fn: (projectId: string, payload: SessionBroadcastPayload, targetSessionId?: string | null, exceptSessionId?: string | null) => void): void {
   broadcaster = fn;
 }
@@ -36,3 +46,44 @@ export function notifySessionTakeoverRejected(projectId: string, requesterSessio
   if (!broadcaster) return;
   broadcaster(projectId, { type: 'project_takeover_rejected' }, requesterSessionId, null);
 }
+
+/** Tell open sessions the board was replaced by a restored version so they reload snapshot/current. */
+export function notifyProjectVersionRestored(projectId: string, versionId: string, number: number): void {
+  if (!broadcaster) return;
+  try {
+    broadcaster(projectId, { type: 'project_version_restored', versionId, number }, null, null);
+  } catch (e) {
+    console.warn('[canvasSessionNotifier] Broadcast failed:', e);
+  }
+}
+
+/**
+ * Tell open sessions who joined, was removed, left, changed role or became owner. The realtime
+ * server re-reads socket roles on this notice and disconnects users who lost access.
+ */
+export function notifyProjectMembershipChanged(
+  projectId: string,
+  change: CanvasMembershipChange,
+  uid: string,
+  ownerUid: string
+): void {
+  if (!broadcaster) return;
+  try {
+    broadcaster(projectId, { type: 'project_membership_changed', change, uid, ownerUid }, null, null);
+  } catch (e) {
+    console.warn('[canvasSessionNotifier] Broadcast failed:', e);
+  }
+}
+
+/**
+ * Deliver an op persisted outside the realtime socket (e.g. by the assistant agent through the op
+ * service) to open sessions, the way the realtime server delivers socket ops.
+ */
+export function publishPersistedCanvasOp(projectId: string, op: any): void {
+  if (!opPublisher) return;
+  try {
+    opPublisher(projectId, op);
+  } catch (e) {
+    console.warn('[canvasSessionNotifier] Op publish failed:', e);
+  }
+}
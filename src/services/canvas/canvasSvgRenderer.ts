@@ -0,0 +1,206 @@
+import { CanvasElement, CanvasRegion } from '../../types/canvas';
+
+/**
+ * Builds a standalone SVG document from canvas board elements. The frontend draws the board
+ * with its own components, so this is an approximation for exports and thumbnails: media are
+ * placed as <image> tags, text/shapes/frames are drawn natively and connectors are straight
+ * lines between element centres. Generator and plugin nodes show their latest output, or a
+ * labelled placeholder when they have none.
+ */
+
+const DEFAULT_ELEMENT_SIZE = 200;
+const DEFAULT_FONT_SIZE = 16;
+const BOARD_PADDING = 40;
+
+type BoardElement = CanvasElement & Record<string, any>;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function num(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function sizeOf(el: BoardElement): { width: number; height: number } {
+  return {
+    width: num(el.width, DEFAULT_ELEMENT_SIZE) * num(el.scaleX, 1),
+    height: num(el.height, DEFAULT_ELEMENT_SIZE) * num(el.scaleY, 1),
+  };
+}
+
+function mediaUrlOf(el: BoardElement): string | undefined {
+  const candidates = [
+    el.meta?.url,
+    el.generatedImageUrl,
+    ...(Array.isArray(el.generatedImageUrls) ? el.generatedImageUrls : []),
+  ];
+  return candidates.find((url): url is string => typeof url === 'string' && /^(https?:|data:image\/)/.test(url));
+}
+
+/** Elements drawn in an export: visible ones, ordered bottom to top. */
+export function drawableElements(elements: Record<string, CanvasElement> | CanvasElement[]): CanvasElement[] {
+  const list = Array.isArray(elements) ? elements : Object.values(elements);
+  return list
+    .filter((el) => el && el.visible !== false)
+    .sort((a, b) => num(a.zIndex, 0) - num(b.zIndex, 0));
+}
+
+/** Smallest region containing every drawable element, plus padding; null for an empty board. */
+export function computeBoardBounds(
+  elements: CanvasElement[],
+  padding: number = BOARD_PADDING
+): CanvasRegion | null {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  for (const el of elements) {
+    if (el.type === 'connector') continue;
+    const { width, height } = sizeOf(el as BoardElement);
+    const x = num(el.x, 0);
+    const y = num(el.y, 0);
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x + width);
+    maxY = Math.max(maxY, y + height);
+  }
+
+  if (!Number.isFinite(minX)) return null;
+  return {
+    x: minX - padding,
+    y: minY - padding,
+    width: maxX - minX + padding * 2,
+    height: maxY - minY + padding * 2,
+  };
+}
+
+function renderText(el: BoardElement): string {
+  const text = typeof el.meta?.text === 'string' ? el.meta.text : '';
+  if (!text) return '';
+  const fontSize = num(el.meta?.fontSize, DEFAULT_FONT_SIZE);
+  const fontFamily = escapeXml(el.meta?.fontFamily || 'sans-serif');
+  const fill = escapeXml(el.meta?.fill || '#111111');
+  const lines = text.split('\n').map((line, i) =>
+    `<tspan x="0" dy="${i === 0 ? fontSize : fontSize * 1.25}">${escapeXml(line)}</tspan>`
+  );
+  return `<text x="0" y="0" font-size="${fontSize}" font-family="${fontFamily}" fill="${fill}">${lines.join('')}</text>`;
+}
+
+function renderShape(el: BoardElement, width: number, height: number): string {
+  const fill = escapeXml(el.meta?.fill || '#e5e7eb');
+  const stroke = escapeXml(el.meta?.stroke || 'none');
+  switch (el.meta?.shapeType) {
+    case 'circle':
+      return `<ellipse cx="${width / 2}" cy="${height / 2}" rx="${width / 2}" ry="${height / 2}" fill="${fill}" stroke="${stroke}"/>`;
+    case 'line':
+      return `<line x1="0" y1="${height / 2}" x2="${width}" y2="${height / 2}" stroke="${stroke === 'none' ? fill : stroke}" stroke-width="2"/>`;
+    case 'polygon':
+      return `<polygon points="${width / 2},0 ${width},${height} 0,${height}" fill="${fill}" stroke="${stroke}"/>`;
+    default:
+      return `<rect x="0" y="0" width="${width}" height="${height}" fill="${fill}" stroke="${stroke}"/>`;
+  }
+}
+
+function renderPlaceholder(label: string, width: number, height: number): string {
+  return `<rect x="0" y="0" width="${width}" height="${height}" rx="8" fill="#f3f4f6" stroke="#d1d5db"/>`
+    + `<text x="${width / 2}" y="${height / 2}" font-size="14" font-family="sans-serif" fill="#6b7280" text-anchor="middle" dominant-baseline="middle">${escapeXml(label)}</text>`;
+}
+
+function renderFrame(el: BoardElement, width: number, height: number): string {
+  const name = typeof el.meta?.text === 'string' ? el.meta.text : (el as any).name;
+  const fill = escapeXml(el.meta?.fill || '#ffffff');
+  return `<rect x="0" y="0" width="${width}" height="${height}" fill="${fill}" stroke="${escapeXml(el.meta?.stroke || '#d1d5db')}"/>`
+    + (name ? `<text x="0" y="-8" font-size="14" font-family="sans-serif" fill="#6b7280">${escapeXml(String(name))}</text>` : '');
+}
+
+type RenderOptions = {
+  lookup?: Record<string, CanvasElement>;
+  background?: string;
+  // Media URLs failing this are drawn as placeholders (server-side renders only load our own media)
+  isAllowedMedia?: (url: string) => boolean;
+};
+
+function renderElementBody(el: BoardElement, width: number, height: number, options: RenderOptions): string {
+  switch (el.type) {
+    case 'text':
+      return renderText(el);
+    case 'shape':
+      return renderShape(el, width, height);
+    case 'frame':
+      return renderFrame(el, width, height);
+    case 'group':
+      return '';
+    default: {
+      const url = el.type === 'video' || el.type === 'video-generator'
+        ? el.posterUrl || el.thumbnailUrl || el.generatedVideoThumbnail
+        : mediaUrlOf(el);
+      if (typeof url === 'string' && url && (!options.isAllowedMedia || options.isAllowedMedia(url))) {
+        return `<image href="${escapeXml(url)}" x="0" y="0" width="${width}" height="${height}" preserveAspectRatio="xMidYMid slice"/>`;
+      }
+      return renderPlaceholder(el.type, width, height);
+    }
+  }
+}
+
+function renderElement(el: BoardElement, options: RenderOptions): string {
+  const { width, height } = sizeOf(el);
+  const body = renderElementBody(el, width, height, options);
+  if (!body) return '';
+
+  const x = num(el.x, 0);
+  const y = num(el.y, 0);
+  const rotation = num(el.rotation, 0);
+  const opacity = num(el.opacity, 1);
+  const transform = `translate(${x} ${y})${rotation ? ` rotate(${rotation} ${width / 2} ${height / 2})` : ''}`;
+  return `<g transform="${transform}"${opacity < 1 ? ` opacity="${opacity}"` : ''}>${body}</g>`;
+}
+
+function renderConnector(el: BoardElement, lookup: Record<string, CanvasElement>): string {
+  const from = el.meta?.connectorFrom ? lookup[el.meta.connectorFrom] : undefined;
+  const to = el.meta?.connectorTo ? lookup[el.meta.connectorTo] : undefined;
+  if (!from || !to) return '';
+  const centre = (node: CanvasElement) => {
+    const { width, height } = sizeOf(node as BoardElement);
+    return { x: num(node.x, 0) + width / 2, y: num(node.y, 0) + height / 2 };
+  };
+  const a = centre(from);
+  const b = centre(to);
+  const stroke = escapeXml(el.meta?.stroke || '#9ca3af');
+  return `<line x1="${a.x}" y1="${a.y}" x2="${b.x}" y2="${b.y}" stroke="${stroke}" stroke-width="2"/>`;
+}
+
+/**
+ * Render `elements` (already filtered and ordered, see drawableElements) into an SVG whose
+ * viewBox is `bounds`. `lookup` resolves connector endpoints that fall outside the selection;
+ * `isAllowedMedia` limits which media URLs end up in <image> tags.
+ */
+export function renderCanvasSvg(
+  elements: CanvasElement[],
+  bounds: CanvasRegion,
+  options: RenderOptions = {}
+): string {
+  const lookup = options.lookup || Object.fromEntries(elements.map((el) => [el.id, el]));
+  const connectors = elements
+    .filter((el) => el.type === 'connector')
+    .map((el) => renderConnector(el as BoardElement, lookup));
+  const nodes = elements
+    .filter((el) => el.type !== 'connector')
+    .map((el) => renderElement(el as BoardElement, options));
+
+  const { x, y, width, height } = bounds;
+  const background = escapeXml(options.background || '#ffffff');
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}">`,
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${background}"/>`,
+    ...connectors,
+    ...nodes,
+    '</svg>',
+  ].join('\n');
+}
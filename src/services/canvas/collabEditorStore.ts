@@ -1,3 +1,5 @@
+import { mutateSharedState, readSharedState, sharedCanvasKey } from './sharedCanvasState';
+
 type CollaborationMode = 'editor' | 'viewer';
 
 type PresenceEntry = {
@@ -7,95 +9,101 @@ type PresenceEntry = {
   lastSeen: number;
 };
 
+// Shared across gateway instances so MAX_ACTIVE_EDITORS holds for the whole deployment
+type ProjectPresence = Record<string, PresenceEntry>;
+
 const ACTIVE_TTL_MS = 30_000;
 const MAX_ACTIVE_EDITORS = 3;
+// Idle projects drop out of Redis on their own
+const PRESENCE_KEY_TTL_SECONDS = Math.ceil((ACTIVE_TTL_MS * 4) / 1000);
 
-const projectPresence = new Map<string, Map<string, PresenceEntry>>();
+function presenceKey(projectId: string): string {
+  return sharedCanvasKey(projectId, 'collab');
+}
 
-function getProjectMap(projectId: string): Map<string, PresenceEntry> {
-  const existing = projectPresence.get(projectId);
-  if (existing) return existing;
-  const next = new Map<string, PresenceEntry>();
-  projectPresence.set(projectId, next);
-  return next;
+function emptyPresence(): ProjectPresence {
+  return {};
 }
 
-function pruneInactive(projectId: string, now: number): Map<string, PresenceEntry> {
-  const map = getProjectMap(projectId);
-  for (const [sessionId, entry] of map.entries()) {
+function pruneInactive(map: ProjectPresence, now: number): ProjectPresence {
+  for (const [sessionId, entry] of Object.entries(map)) {
     if (now - entry.lastSeen > ACTIVE_TTL_MS) {
-      map.delete(sessionId);
+      delete map[sessionId];
     }
   }
   return map;
 }
 
-function activeEditorsByUid(map: Map<string, PresenceEntry>): Set<string> {
+function activeEditorsByUid(map: ProjectPresence): Set<string> {
   const editors = new Set<string>();
-  for (const entry of map.values()) {
+  for (const entry of Object.values(map)) {
     if (entry.mode === 'editor') editors.add(entry.uid);
   }
   return editors;
 }
 
-export function joinCollabSession(
+export async function joinCollabSession(
   projectId: string,
   sessionId: string,
   uid: string,
   requestedMode: CollaborationMode,
-): { mode: CollaborationMode; canEdit: boolean; activeEditors: number; maxEditors: number } {
-  const now = Date.now();
-  const map = pruneInactive(projectId, now);
-  const current = map.get(sessionId);
-
-  const currentEditors = activeEditorsByUid(map);
-  const userAlreadyEditor = current?.mode === 'editor' || currentEditors.has(uid);
-  const canClaimEditor = requestedMode === 'editor' && (userAlreadyEditor || currentEditors.size < MAX_ACTIVE_EDITORS);
-  const mode: CollaborationMode = canClaimEditor ? 'editor' : 'viewer';
-
-  map.set(sessionId, {
-    sessionId,
-    uid,
-    mode,
-    lastSeen: now,
-  });
+): Promise<{ mode: CollaborationMode; canEdit: boolean; activeEditors: number; maxEditors: number }> {
+  return mutateSharedState(presenceKey(projectId), PRESENCE_KEY_TTL_SECONDS, emptyPresence, (presence) => {
+    const now = Date.now();
+    const map = pruneInactive(presence, now);
+    const current = map[sessionId];
+
+    const currentEditors = activeEditorsByUid(map);
+    const userAlreadyEditor = current?.mode === 'editor' || currentEditors.has(uid);
+    const canClaimEditor = requestedMode === 'editor' && (userAlreadyEditor || currentEditors.size < MAX_ACTIVE_EDITORS);
+    const mode: CollaborationMode = canClaimEditor ? 'editor' : 'viewer';
+
+    map[sessionId] = {
+      sessionId,
+      uid,
+      mode,
+      lastSeen: now,
+    };
 
-  const activeEditors = activeEditorsByUid(map).size;
-  return { mode, canEdit: mode === 'editor', activeEditors, maxEditors: MAX_ACTIVE_EDITORS };
+    const activeEditors = activeEditorsByUid(map).size;
+    return { mode, canEdit: mode === 'editor', activeEditors, maxEditors: MAX_ACTIVE_EDITORS };
+  });
 }
 
-export function heartbeatCollabSession(
+export async function heartbeatCollabSession(
   projectId: string,
   sessionId: string,
-): { mode: CollaborationMode | null; canEdit: boolean; activeEditors: number; maxEditors: number } {
-  const now = Date.now();
-  const map = pruneInactive(projectId, now);
-  const entry = map.get(sessionId);
-  if (!entry) {
-    return { mode: null, canEdit: false, activeEditors: activeEditorsByUid(map).size, maxEditors: MAX_ACTIVE_EDITORS };
-  }
-  entry.lastSeen = now;
-  map.set(sessionId, entry);
-  return {
-    mode: entry.mode,
-    canEdit: entry.mode === 'editor',
-    activeEditors: activeEditorsByUid(map).size,
-    maxEditors: MAX_ACTIVE_EDITORS,
-  };
+): Promise<{ mode: CollaborationMode | null; canEdit: boolean; activeEditors: number; maxEditors: number }> {
+  return mutateSharedState(presenceKey(projectId), PRESENCE_KEY_TTL_SECONDS, emptyPresence, (presence) => {
+    const now = Date.now();
+    const map = pruneInactive(presence, now);
+    const entry = map[sessionId];
+    if (!entry) {
+      return { mode: null, canEdit: false, activeEditors: activeEditorsByUid(map).size, maxEditors: MAX_ACTIVE_EDITORS };
+    }
+    entry.lastSeen = now;
+    return {
+      mode: entry.mode,
+      canEdit: entry.mode === 'editor',
+      activeEditors: activeEditorsByUid(map).size,
+      maxEditors: MAX_ACTIVE_EDITORS,
+    };
+  });
 }
 
-export function leaveCollabSession(projectId: string, sessionId: string): void {
-  const map = getProjectMap(projectId);
-  map.delete(sessionId);
+export async function leaveCollabSession(projectId: string, sessionId: string): Promise<void> {
+  await mutateSharedState(presenceKey(projectId), PRESENCE_KEY_TTL_SECONDS, emptyPresence, (presence) => {
+    delete presence[sessionId];
+  });
 }
 
-export function canSessionEdit(projectId: string, sessionId: string): boolean {
-  const map = pruneInactive(projectId, Date.now());
-  const entry = map.get(sessionId);
+export async function canSessionEdit(projectId: string, sessionId: string): Promise<boolean> {
+  const map = pruneInactive(await readSharedState(presenceKey(projectId), emptyPresence), Date.now());
+  const entry = map[sessionId];
   return entry?.mode === 'editor';
 }
 
-export function collabStatus(projectId: string): { activeEditors: number; maxEditors: number } {
-  const map = pruneInactive(projectId, Date.now());
+export async function collabStatus(projectId: string): Promise<{ activeEditors: number; maxEditors: number }> {
+  const map = pruneInactive(await readSharedState(presenceKey(projectId), emptyPresence), Date.now());
   return { activeEditors: activeEditorsByUid(map).size, maxEditors: MAX_ACTIVE_EDITORS };
 }
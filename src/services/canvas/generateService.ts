@@ -10,6 +10,7 @@ import { ApiError } from '../../utils/errorHandler';
 import { authRepository } from '../../repository/auth/authRepository';
 import { generationHistoryRepository } from '../../repository/generationHistoryRepository';
 import { env } from '../../config/env';
+import { matchModel } from '../../data/modelRegistry';
 import { probeImageMeta } from '../../utils/media/imageProbe';
 import sharp from 'sharp';
 import axios from 'axios';
@@ -123,125 +124,17 @@ export function mapModelToBackend(frontendModel: string): { service: 'bfl' | 're
     }
   }
 
-  // Runway models - check FIRST before other models
-  if (modelLower.includes('runway gen4 image turbo') || modelLower.includes('gen4 image turbo') || modelLower === 'runway gen4 image turbo') {
-    return { service: 'runway', backendModel: 'gen4_image_turbo' };
-  }
-  if (modelLower.includes('runway gen4 image') || modelLower.includes('gen4 image') || modelLower === 'runway gen4 image') {
-    return { service: 'runway', backendModel: 'gen4_image' };
-  }
-
-  // Seedream 4.5 - MUST check BEFORE Seedream 4K check to avoid false matches
-  // Check for "seedream 4.5", "seedream-4.5", "seedream_v45", etc. (with or without resolution suffix)
-  const seedream45Base = modelLower.replace(/\s+(1k|2k|4k)$/, ''); // Remove resolution suffix for matching
-  if (seedream45Base.includes('seedream-4.5') || seedream45Base.includes('seedream_v45') || seedream45Base.includes('seedreamv45') ||
-    (seedream45Base.includes('seedream') && (seedream45Base.includes('4.5') || seedream45Base.includes('v4.5') || seedream45Base.includes('v45')))) {
-    return { service: 'fal', backendModel: 'seedream-4.5', resolution };
-  }
-
-  // Replicate Seedream 4K - MUST check AFTER Seedream 4.5 to avoid false matches
-  // Check for "seedream" + "4k" or "4 k" or "v4 4k" patterns (but NOT "4.5")
-  if (modelLower.includes('seedream') && (
-    modelLower.includes('4k') ||
-    modelLower.includes('4 k') ||
-    (modelLower.includes('v4') && modelLower.includes('4k'))
-  ) && !modelLower.includes('4.5') && !modelLower.includes('v4.5') && !modelLower.includes('v45')) {
-    // Switch to FAL for Seedream v4 to avoid Replicate credit issues
-    return { service: 'fal', backendModel: 'fal-ai/bytedance/seedream/v4/text-to-image', resolution };
-  }
-
-  // Z Image Turbo - Replicate model (prunaai/z-image-turbo)
-  if (modelLower.includes('z-image-turbo') || modelLower === 'z-image-turbo') {
-    return { service: 'replicate', backendModel: 'z-image-turbo' };
-  }
-
-  // P-Image - Replicate model (prunaai/p-image)
-  if (modelLower.includes('p-image') && !modelLower.includes('p-image-edit')) {
-    return { service: 'replicate', backendModel: 'prunaai/p-image' };
-  }
-
-  // Qwen Image Edit - Replicate model (qwen/qwen-image-edit-2511)
-  // Frontend often sends the short alias "qwen-image-edit"
-  if (modelLower === 'qwen-image-edit' || modelLower.includes('qwen image edit') || modelLower.includes('qwen-image-edit')) {
-    // Check if it's the multiple angles variant
-    if (modelLower.includes('multiple-angles') || modelLower.includes('multiple angles') || modelLower.includes('multi-angle')) {
-      return { service: 'fal', backendModel: 'fal-ai/qwen-image-edit-2511-multiple-angles' };
-    }
-    return { service: 'replicate', backendModel: 'qwen/qwen-image-edit-2511' };
-  }
-  
-  // Qwen Multiple Angles - FAL model (explicit check)
-  if (modelLower.includes('qwen-multiple-angles') || modelLower.includes('qwen multiple angles') || modelLower === 'qwen-image-edit-2511-multiple-angles') {
-    return { service: 'fal', backendModel: 'fal-ai/qwen-image-edit-2511-multiple-angles' };
-  }
-
-  // ChatGPT 1.5 - Replicate model (openai/gpt-image-1.5)
-  if (modelLower.includes('chatgpt 1.5') || modelLower.includes('chat-gpt-1.5') || modelLower === 'openai/gpt-image-1.5') {
-    return { service: 'replicate', backendModel: 'openai/gpt-image-1.5' };
-  }
-  if (modelLower.includes('chatgpt 2') || modelLower.includes('chat-gpt-2') || modelLower.includes('gpt image 2') || modelLower === 'openai/gpt-image-2') {
-    return { service: 'fal', backendModel: 'openai/gpt-image-2' };
-  }
-
-  // Explicit mapping for Flux 2 Pro to FAL as requested by user
-  if (modelLower.includes('flux 2 pro') || modelLower.includes('flux-2-pro')) {
-    return { service: 'fal', backendModel: 'fal-ai/flux-2-pro', resolution };
-  }
-  if (modelLower.includes('flux-pro/v1.1-ultra') || (modelLower.includes('pro 1.1') && modelLower.includes('ultra'))) {
-    return { service: 'fal', backendModel: 'fal-ai/flux-pro/v1.1-ultra', resolution };
-  }
-  if (modelLower.includes('flux-pro-1.1') || (modelLower.includes('pro 1.1') && !modelLower.includes('ultra'))) {
-    return { service: 'bfl', backendModel: 'flux-pro-1.1', resolution };
-  }
-  if (modelLower.includes('flux-kontext-max') || modelLower.includes('kontext max')) {
-    return { service: 'bfl', backendModel: 'flux-kontext-max' };
-  }
-  if (modelLower.includes('flux-kontext-pro') || modelLower.includes('kontext pro')) {
-    return { service: 'bfl', backendModel: 'flux-kontext-pro' };
-  }
-  if (modelLower.includes('flux-dev')) {
-    return { service: 'bfl', backendModel: 'flux-dev' };
-  }
-  if (modelLower.includes('flux-pro') && !modelLower.includes('1.1')) {
-    return { service: 'bfl', backendModel: 'flux-pro' };
-  }
-  if (modelLower.includes('flux')) {
-    // Default to flux-pro for generic "flux" mentions
-    return { service: 'bfl', backendModel: 'flux-pro' };
-  }
-
-  // FAL models - check in order of specificity
-  if (modelLower.includes('imagen-4-ultra') || modelLower.includes('imagen 4 ultra')) {
-    return { service: 'fal', backendModel: 'imagen-4-ultra' };
-  }
-  if (modelLower.includes('imagen-4-fast') || modelLower.includes('imagen 4 fast')) {
-    return { service: 'fal', backendModel: 'imagen-4-fast' };
-  }
-  if ((modelLower.includes('imagen-4') || modelLower.includes('imagen 4')) && !modelLower.includes('ultra') && !modelLower.includes('fast')) {
-    return { service: 'fal', backendModel: 'imagen-4' };
-  }
-  // Google Nano Banana Pro - Fal model
-  // Check if model contains nano banana pro (without resolution suffix for matching)
-  const nanoBananaProBase = modelLower.replace(/\s+(1k|2k|4k)$/, ''); // Remove resolution suffix for matching
-  if (nanoBananaProBase.includes('google nano banana pro') || nanoBananaProBase.includes('nano banana pro')) {
-    return { service: 'fal', backendModel: 'google/nano-banana-pro', resolution };
-  }
-
-  if (modelLower.includes('nano banana') || modelLower.includes('gemini')) {
-    return { service: 'fal', backendModel: 'gemini-25-flash-image' };
-  }
-  if (modelLower.includes('flux 2 pro') || modelLower.includes('flux-2-pro')) {
-    return { service: 'fal', backendModel: 'flux-2-pro', resolution };
-  }
-
-  // Seedream v4 (without 4K) - goes to FAL
-  // This check comes after Seedream 4.5 and Seedream 4K checks
-  if (modelLower.includes('seedream') && !modelLower.includes('4.5') && !modelLower.includes('v4.5') && !modelLower.includes('v45') && !modelLower.includes('4k')) {
-    return { service: 'fal', backendModel: 'seedream-v4' };
-  }
-
-  if (modelLower.includes('z image turbo') || modelLower.includes('z-image-turbo')) {
-    return { service: 'replicate', backendModel: 'new-turbo-model' };
+  // Registry ids/aliases, or the registered name contained in a free-form label
+  const registered = matchModel(
+    modelLower.replace(/\s+(1k|2k|4k)$/, ''),
+    (model) => !!model.canvas && model.modality === 'image' && model.provider !== 'minimax'
+  );
+  if (registered?.canvas && registered.provider !== 'minimax') {
+    return {
+      service: registered.provider,
+      backendModel: registered.canvas.backendModel || registered.backendModel,
+      ...(registered.canvas.resolutionFromName ? { resolution } : {}),
+    };
   }
 
   // Default to FAL (Google Nano Banana)
@@ -967,104 +860,20 @@ interface VideoModelConfig {
 function mapVideoModelToBackend(frontendModel: string): VideoModelConfig {
   const modelLower = frontendModel.toLowerCase().trim();
 
-  // FAL Models
-  if (modelLower.includes('sora 2 pro') || modelLower === 'sora 2 pro') {
-    return { service: 'fal', method: 'sora2ProT2vSubmit', backendModel: 'fal-ai/sora-2/text-to-video/pro' };
-  }
-  // Check for Veo 3.1 Fast first (more specific) - handle variations
-  if (
-    modelLower.includes('veo') && 
-    modelLower.includes('3.1') && 
-    (modelLower.includes('fast') || modelLower === 'veo 3.1 fast' || modelLower === 'veo-3.1-fast' || modelLower === 'veo3.1fast')
-  ) {
-    return { service: 'fal', method: 'veo31TtvSubmit', backendModel: 'fal-ai/veo3.1/fast', isFast: true };
-  }
-  // Check for Veo 3.1 (regular) - must check after fast to avoid false positives
-  if (modelLower.includes('veo') && modelLower.includes('3.1') && !modelLower.includes('fast')) {
-    return { service: 'fal', method: 'veo31TtvSubmit', backendModel: 'fal-ai/veo3.1', isFast: false };
-  }
-  if (modelLower.includes('veo 3 fast pro') || modelLower === 'veo 3 fast pro') {
-    return { service: 'fal', method: 'veoTtvSubmit', backendModel: 'fal-ai/veo3/fast', isFast: true };
-  }
-  if (modelLower.includes('veo 3 pro') || modelLower === 'veo 3 pro') {
-    return { service: 'fal', method: 'veoTtvSubmit', backendModel: 'fal-ai/veo3', isFast: false };
-  }
-  if (modelLower.includes('ltx v2 fast') || modelLower === 'ltx v2 fast') {
-    return { service: 'fal', method: 'ltx2FastT2vSubmit', backendModel: 'fal-ai/ltxv-2/text-to-video/fast', isFast: true };
-  }
-  if (modelLower.includes('ltx v2 pro') || modelLower === 'ltx v2 pro') {
-    return { service: 'fal', method: 'ltx2ProT2vSubmit', backendModel: 'fal-ai/ltxv-2/text-to-video', isFast: false };
-  }
-  if (
-    modelLower.includes('seedance 2.0 fast') ||
-    modelLower.includes('seedance 2 fast') ||
-    modelLower.includes('seedance-2.0-fast') ||
-    modelLower.includes('seedance-2-fast')
-  ) {
-    return { service: 'fal', method: 'seedance2FastT2vSubmit', backendModel: 'bytedance/seedance-2.0/fast/text-to-video', isFast: true };
-  }
-  if (
-    modelLower.includes('seedance 2.0') ||
-    modelLower.includes('seedance 2') ||
-    modelLower.includes('seedance-2.0') ||
-    modelLower.includes('seedance-2')
-  ) {
-    return { service: 'fal', method: 'seedance2T2vSubmit', backendModel: 'bytedance/seedance-2.0/text-to-video', isFast: false };
-  }
-
-  // Replicate Models
-  if (modelLower.includes('seedance 1.0 lite') || modelLower === 'seedance 1.0 lite') {
-    return { service: 'replicate', method: 'seedanceT2vSubmit', backendModel: 'bytedance/seedance-1-lite' };
-  }
-  // Seedance 1.5 (audio-capable)
-  if (
-    modelLower.includes('seedance 1.5') ||
-    modelLower.includes('seedance-1.5') ||
-    modelLower.includes('seedance-1.5-pro')
-  ) {
-    return { service: 'replicate', method: 'seedanceT2vSubmit', backendModel: 'bytedance/seedance-1.5-pro' };
-  }
-  if (modelLower.includes('seedance 1.0 pro') || modelLower === 'seedance 1.0 pro' || modelLower.includes('seedance')) {
-    return { service: 'replicate', method: 'seedanceT2vSubmit', backendModel: 'bytedance/seedance-1-pro' };
-  }
-  if (modelLower.includes('pixverse v5') || modelLower === 'pixverse v5' || modelLower.includes('pixverse')) {
-    return { service: 'replicate', method: 'pixverseT2vSubmit', backendModel: 'pixverse/pixverse-v5' };
-  }
-  if (modelLower.includes('wan 2.5 fast') || modelLower === 'wan 2.5 fast') {
-    return { service: 'replicate', method: 'wanT2vSubmit', backendModel: 'wan-video/wan-2.5-t2v-fast', isFast: true };
-  }
-  if (modelLower.includes('wan 2.5') || modelLower === 'wan 2.5' || modelLower.includes('wan')) {
-    return { service: 'replicate', method: 'wanT2vSubmit', backendModel: 'wan-video/wan-2.5-t2v', isFast: false };
-  }
-  if (modelLower.includes('kling 2.5 turbo pro') || modelLower === 'kling 2.5 turbo pro') {
-    return { service: 'replicate', method: 'klingT2vSubmit', backendModel: 'kwaivgi/kling-v2.5-turbo-pro', mode: 'pro' };
-  }
-  // Catch-all for any other Kling models (should not happen after removing 2.1 models)
-  if (modelLower.includes('kling')) {
-    console.warn(`[mapVideoModelToBackend] Unsupported Kling model "${frontendModel}", defaulting to Kling 2.5 Turbo Pro`);
-    return { service: 'replicate', method: 'klingT2vSubmit', backendModel: 'kwaivgi/kling-v2.5-turbo-pro', mode: 'pro' };
-  }
-
-  // MiniMax Models
-  if (modelLower.includes('minimax-hailuo-02') || modelLower === 'minimax-hailuo-02' || modelLower.includes('hailuo')) {
-    return { service: 'minimax', method: 'generateVideo', backendModel: 'MiniMax-Hailuo-02' };
-  }
-  if (modelLower.includes('t2v-01-director') || modelLower === 't2v-01-director') {
-    return { service: 'minimax', method: 'generateVideo', backendModel: 'T2V-01-Director' };
-  }
-  if (modelLower.includes('i2v-01-director') || modelLower === 'i2v-01-director') {
-    return { service: 'minimax', method: 'generateVideo', backendModel: 'I2V-01-Director' };
-  }
-  if (modelLower.includes('s2v-01') || modelLower === 's2v-01') {
-    return { service: 'minimax', method: 'generateVideo', backendModel: 'S2V-01' };
-  }
-
-  // Runway Models
-  if (modelLower.includes('gen-4 turbo') || modelLower === 'gen-4 turbo') {
-    return { service: 'runway', method: 'videoGenerate', backendModel: 'gen4_turbo', mode: 'text_to_video' };
-  }
-  if (modelLower.includes('gen-3a turbo') || modelLower === 'gen-3a turbo') {
-    return { service: 'runway', method: 'videoGenerate', backendModel: 'gen3a_turbo', mode: 'text_to_video' };
+  // Registry ids/aliases, or the registered name contained in a free-form label
+  const registered = matchModel(
+    modelLower,
+    (model) => !!model.canvas?.method && model.modality === 'video' && model.provider !== 'bfl'
+  );
+  if (registered?.canvas?.method && registered.provider !== 'bfl') {
+    const { method, backendModel, isFast, mode } = registered.canvas;
+    return {
+      service: registered.provider,
+      method,
+      backendModel: backendModel || registered.backendModel,
+      ...(isFast !== undefined ? { isFast } : {}),
+      ...(mode ? { mode } : {}),
+    };
   }
 
   // Default to Seedance 2.0 if model not recognized
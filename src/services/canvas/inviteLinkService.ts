@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import { projectRepository } from '../../repository/canvas/projectRepository';
+import { inviteLinkRepository } from '../../repository/canvas/inviteLinkRepository';
+import { authRepository } from '../../repository/auth/authRepository';
+import { CanvasInviteLink, CanvasProject } from '../../types/canvas';
+import { ApiError } from '../../utils/errorHandler';
+import { notifyProjectMembershipChanged } from './canvasSessionNotifier';
+
+/**
+ * Link-based canvas invitations. The owner mints a token carrying a role; any signed-in
+ * user who opens POST /api/canvas/join/:token is added as a collaborator with that role,
+ * so editors joined this way are billed to the owner like invited editors
+ * (resolveCanvasBillingUid). Links can be capped by uses, expiry and email domain, and
+ * revoked at any time; revoking does not remove people who already joined.
+ */
+
+const MAX_ACTIVE_LINKS_PER_PROJECT = 20;
+export const MAX_INVITE_LINK_EXPIRY_HOURS = 24 * 90;
+export const MAX_INVITE_LINK_USES = 1000;
+
+function isActive(link: CanvasInviteLink, now = Date.now()): boolean {
+  return !link.revokedAt && (!link.expiresAt || Date.parse(link.expiresAt) > now);
+}
+
+function generateToken(): string {
+  return crypto.randomBytes(18).toString('base64url');
+}
+
+async function getOwnedProject(projectId: string, userId: string): Promise<CanvasProject> {
+  const project = await projectRepository.getProject(projectId);
+  if (!project) {
+    throw new ApiError('Project not found', 404);
+  }
+  if (project.ownerUid !== userId) {
+    throw new ApiError('Only the project owner can manage invite links', 403);
+  }
+  return project;
+}
+
+export async function createInviteLink(
+  projectId: string,
+  userId: string,
+  input: { role: 'editor' | 'viewer'; maxUses?: number; expiresInHours?: number; allowedDomain?: string }
+): Promise<CanvasInviteLink> {
+  await getOwnedProject(projectId, userId);
+
+  const existing = await inviteLinkRepository.listInviteLinks(projectId);
+  if (existing.filter((link) => isActive(link)).length >= MAX_ACTIVE_LINKS_PER_PROJECT) {
+    throw new ApiError(`At most ${MAX_ACTIVE_LINKS_PER_PROJECT} active invite links per project`, 400);
+  }
+
+  const now = Date.now();
+  return inviteLinkRepository.createInviteLink({
+    token: generateToken(),
+    projectId,
+    createdBy: userId,
+    role: input.role,
+    ...(input.maxUses ? { maxUses: input.maxUses } : {}),
+    useCount: 0,
+    ...(input.allowedDomain ? { allowedDomain: input.allowedDomain.toLowerCase() } : {}),
+    createdAt: new Date(now).toISOString(),
+    ...(input.expiresInHours ? { expiresAt: new Date(now + input.expiresInHours * 3600 * 1000).toISOString() } : {}),
+  });
+}
+
+export async function listInviteLinks(projectId: string, userId: string): Promise<CanvasInviteLink[]> {
+  await getOwnedProject(projectId, userId);
+  return inviteLinkRepository.listInviteLinks(projectId);
+}
+
+export async function revokeInviteLink(projectId: string, userId: string, token: string): Promise<CanvasInviteLink> {
+  await getOwnedProject(projectId, userId);
+  const link = await inviteLinkRepository.getInviteLink(token);
+  if (!link || link.projectId !== projectId) {
+    throw new ApiError('Invite link not found', 404);
+  }
+  if (link.revokedAt) return link;
+
+  const revokedAt = new Date().toISOString();
+  await inviteLinkRepository.revokeInviteLink(token, revokedAt);
+  return { ...link, revokedAt };
+}
+
+/** A link that can still be used. Revoked links and deleted projects look like "not found". */
+async function getUsableLink(token: string): Promise<{ link: CanvasInviteLink; project: CanvasProject }> {
+  const link = await inviteLinkRepository.getInviteLink(token);
+  if (!link || link.revokedAt) {
+    throw new ApiError('Invite link not found', 404);
+  }
+  if (!isActive(link)) {
+    throw new ApiError('This invite link has expired', 410);
+  }
+  const project = await projectRepository.getProject(link.projectId);
+  if (!project) {
+    throw new ApiError('Invite link not found', 404);
+  }
+  return { link, project };
+}
+
+/** What the join page shows before the user accepts. */
+export async function previewInviteLink(
+  token: string
+): Promise<{ projectId: string; projectName: string; role: CanvasInviteLink['role']; expiresAt?: string; allowedDomain?: string }> {
+  const { link, project } = await getUsableLink(token);
+  return {
+    projectId: project.id,
+    projectName: project.name,
+    role: link.role,
+    expiresAt: link.expiresAt,
+    allowedDomain: link.allowedDomain,
+  };
+}
+
+/**
+ * Join the link's project. Existing members keep their current role (a viewer link never
+ * downgrades an editor) and do not spend a use.
+ */
+export async function joinWithInviteLink(
+  token: string,
+  userId: string
+): Promise<{ project: CanvasProject; role: 'owner' | 'editor' | 'viewer'; alreadyMember: boolean }> {
+  const { link, project } = await getUsableLink(token);
+
+  const existingRole = project.ownerUid === userId
+    ? 'owner'
+    : project.collaborators.find((collaborator) => collaborator.uid === userId)?.role;
+  if (existingRole) {
+    return { project, role: existingRole, alreadyMember: true };
+  }
+
+  if (link.allowedDomain) {
+    const user = await authRepository.getUserById(userId);
+    const domain = (user?.email || '').split('@')[1]?.toLowerCase();
+    if (!user?.emailVerified || domain !== link.allowedDomain) {
+      throw new ApiError(`This invite link is limited to verified @${link.allowedDomain} accounts`, 403);
+    }
+  }
+
+  if (!(await inviteLinkRepository.consumeInviteLinkUse(token, userId))) {
+    throw new ApiError('This invite link has reached its maximum number of uses', 410);
+  }
+
+  await projectRepository.addCollaborator(project.id, userId, link.role);
+  notifyProjectMembershipChanged(project.id, 'joined', userId, project.ownerUid);
+  console.log('[Canvas Invite Links] Joined via link', { projectId: project.id, uid: userId, role: link.role });
+
+  const updated = await projectRepository.getProject(project.id);
+  return { project: updated || project, role: link.role, alreadyMember: false };
+}
+
+export const inviteLinkService = {
+  createInviteLink,
+  listInviteLinks,
+  revokeInviteLink,
+  previewInviteLink,
+  joinWithInviteLink,
+};
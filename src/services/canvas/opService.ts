@@ -3,6 +3,7 @@ import { elementRepository } from '../../repository/canvas/elementRepository';
 import { projectRepository } from '../../repository/canvas/projectRepository';
 import { CanvasOp, CanvasElement } from '../../types/canvas';
 import { ApiError } from '../../utils/errorHandler';
+import { versionService } from './versionService';
 
 export async function appendOp(
   projectId: string,
@@ -46,6 +47,8 @@ export async function appendOp(
     actorUid: userId,
   } as CanvasOp);
 
+  versionService.recordChange(projectId, userId);
+
   return result;
 }
 
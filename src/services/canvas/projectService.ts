@@ -4,6 +4,13 @@ import { ApiError } from '../../utils/errorHandler';
 import { sendEmail } from '../../utils/mailer';
 import { generateCanvasInvitationEmailHTML, generateCanvasInvitationEmailText } from '../../utils/emailTemplates';
 import { env } from '../../config/env';
+import { admin } from '../../config/firebaseAdmin';
+import { notifyCanvasInvitation } from '../notificationService';
+import { mediaRepository } from '../../repository/canvas/mediaRepository';
+import { templateService } from '../templateService';
+import { Template } from '../../types/template';
+import { readProjectState, collectMediaIds } from './versionService';
+import { notifyProjectMembershipChanged } from './canvasSessionNotifier';
 
 export async function createProject(
   ownerUid: string,
@@ -78,6 +85,7 @@ export async function addCollaboratorToProject(
   }
 
   await projectRepository.addCollaborator(projectId, collaboratorUid, role);
+  notifyProjectMembershipChanged(projectId, 'joined', collaboratorUid, project.ownerUid);
 }
 
 export async function listUserProjects(userId: string, limit: number = 20): Promise<CanvasProject[]> {
@@ -170,6 +178,16 @@ export async function inviteCollaboratorToProject(
     }
   }
 
+  try {
+    await notifyCanvasInvitation(invitation);
+  } catch (error) {
+    console.error('[Canvas Invitation] Failed to create invite notification', {
+      projectId,
+      invitationId: invitation.id,
+      error,
+    });
+  }
+
   return invitation;
 }
 
@@ -195,8 +213,24 @@ export async function acceptInvitation(invitationId: string, userId: string): Pr
     return invitation;
   }
 
+  if (invitation.kind === 'transfer') {
+    if (invitation.status !== 'pending') {
+      throw new ApiError('This transfer is no longer pending', 409);
+    }
+    try {
+      await projectRepository.transferOwnership(invitation.projectId, invitation.ownerUid, userId);
+    } catch (error: any) {
+      throw new ApiError(error?.message || 'Failed to transfer project', 409);
+    }
+    const accepted = await projectRepository.updateInvitation(invitationId, { status: 'accepted' });
+    notifyProjectMembershipChanged(invitation.projectId, 'transferred', userId, userId);
+    return accepted;
+  }
+
   await projectRepository.addCollaborator(invitation.projectId, userId, invitation.role);
-  return projectRepository.updateInvitation(invitationId, { status: 'accepted' });
+  const accepted = await projectRepository.updateInvitation(invitationId, { status: 'accepted' });
+  notifyProjectMembershipChanged(invitation.projectId, 'joined', userId, invitation.ownerUid);
+  return accepted;
 }
 
 export async function dismissInvitation(invitationId: string, userId: string): Promise<CanvasInvitation> {
@@ -222,8 +256,17 @@ export async function cancelSentInvitation(invitationId: string, userId: string)
     throw new ApiError('Unauthorized', 403);
   }
 
+  if (invitation.kind === 'transfer') {
+    // An accepted transfer made the recipient the owner; it cannot be taken back from here
+    if (invitation.status === 'accepted') {
+      throw new ApiError('This transfer was already accepted', 409);
+    }
+    return projectRepository.updateInvitation(invitationId, { status: 'dismissed' });
+  }
+
   if (invitation.status === 'accepted') {
     await projectRepository.removeCollaborator(invitation.projectId, invitation.recipientUid);
+    notifyProjectMembershipChanged(invitation.projectId, 'removed', invitation.recipientUid, invitation.ownerUid);
   }
 
   return projectRepository.updateInvitation(invitationId, { status: 'dismissed' });
@@ -247,13 +290,227 @@ export async function updateSentInvitationRole(
     throw new ApiError('Invalid role', 400);
   }
 
+  if (invitation.kind === 'transfer') {
+    throw new ApiError('Transfer requests have no role to change', 400);
+  }
+
   if (invitation.status === 'accepted') {
     await projectRepository.addCollaborator(invitation.projectId, invitation.recipientUid, role);
+    notifyProjectMembershipChanged(invitation.projectId, 'role_changed', invitation.recipientUid, invitation.ownerUid);
   }
 
   return projectRepository.updateInvitation(invitationId, { role });
 }
 
+/** Bump the GC refcount of every canvasMedia doc a copied board points at. */
+async function retainMedia(elements: Record<string, any>): Promise<void> {
+  for (const mediaId of collectMediaIds(elements)) {
+    try {
+      await mediaRepository.incrementRef(mediaId);
+    } catch (error: any) {
+      console.warn('[Canvas Projects] Failed to bump media ref:', { mediaId, message: error?.message });
+    }
+  }
+}
+
+/** Create a project for `ownerUid` holding a copy of the given board. */
+async function createProjectWithState(
+  ownerUid: string,
+  data: { name: string; description?: string; settings?: CanvasProject['settings']; thumbnail?: string; previewImages?: string[] },
+  state: { elements: Record<string, any>; metadata?: Record<string, any> }
+): Promise<CanvasProject> {
+  const project = await projectRepository.createProject(ownerUid, {
+    name: data.name,
+    description: data.description,
+    settings: data.settings,
+  });
+
+  await projectRepository.saveCurrentSnapshot(project.id, {
+    projectId: project.id,
+    elements: state.elements,
+    metadata: { ...(state.metadata || {}), version: state.metadata?.version || '1.0', createdAt: admin.firestore.Timestamp.now() },
+  });
+  await retainMedia(state.elements);
+
+  if (data.thumbnail || data.previewImages?.length) {
+    return projectRepository.updateProject(project.id, {
+      ...(data.thumbnail ? { thumbnail: data.thumbnail } : {}),
+      ...(data.previewImages?.length ? { previewImages: data.previewImages } : {}),
+    });
+  }
+  return project;
+}
+
+/**
+ * Copy a project's current board into a new project owned by the caller. Collaborators,
+ * versions and the op log are not copied; media is shared by reference.
+ */
+export async function duplicateProject(projectId: string, userId: string, name?: string): Promise<CanvasProject> {
+  const project = await getProject(projectId, userId);
+  const userRole = project.ownerUid === userId
+    ? 'owner'
+    : project.collaborators.find(c => c.uid === userId)?.role;
+  if (userRole !== 'owner' && userRole !== 'editor') {
+    throw new ApiError('Only owners and editors can duplicate projects', 403);
+  }
+
+  const state = await readProjectState(projectId);
+  return createProjectWithState(
+    userId,
+    {
+      name: name?.trim() || `${project.name} (copy)`,
+      description: project.description,
+      settings: { ...(project.settings || {}), publicSnapshotRead: false },
+      thumbnail: project.thumbnail,
+      previewImages: project.previewImages,
+    },
+    state
+  );
+}
+
+/** Owner-only: publish the project's current board as a canvas template. */
+export async function publishProjectAsTemplate(
+  projectId: string,
+  userId: string,
+  input: { name?: string; categoryId: string; themeId: string; tags?: string[]; isPublic?: boolean }
+): Promise<Template> {
+  const project = await getProject(projectId, userId);
+  if (project.ownerUid !== userId) {
+    throw new ApiError('Only the project owner can publish it as a template', 403);
+  }
+  if (!input.categoryId || !input.themeId) {
+    throw new ApiError('categoryId and themeId are required', 400);
+  }
+
+  const state = await readProjectState(projectId);
+  if (Object.keys(state.elements).length === 0) {
+    throw new ApiError('Cannot publish an empty project as a template', 400);
+  }
+
+  return templateService.createCanvasTemplate({
+    name: input.name?.trim() || project.name,
+    categoryId: input.categoryId,
+    themeId: input.themeId,
+    data: { elements: state.elements, metadata: state.metadata },
+    thumbnailUrl: project.thumbnail,
+    metadata: {
+      width: project.settings?.width || 0,
+      height: project.settings?.height || 0,
+      tags: Array.isArray(input.tags) ? input.tags.filter((tag) => typeof tag === 'string') : [],
+    },
+    isPublic: input.isPublic !== false,
+    creatorId: userId,
+    sourceProjectId: projectId,
+  });
+}
+
+/** Start a new project from a canvas template (public, or the caller's own). */
+export async function createProjectFromTemplate(templateId: string, userId: string, name?: string): Promise<CanvasProject> {
+  const template = await templateService.getTemplateById(templateId);
+  if (!template || template.source !== 'canvas' || (!template.isPublic && template.creatorId !== userId)) {
+    throw new ApiError('Template not found', 404);
+  }
+
+  return createProjectWithState(
+    userId,
+    {
+      name: name?.trim() || template.name,
+      thumbnail: template.thumbnailUrl,
+      settings: template.metadata?.width && template.metadata?.height
+        ? { width: template.metadata.width, height: template.metadata.height }
+        : undefined,
+    },
+    { elements: template.data?.elements || {}, metadata: template.data?.metadata }
+  );
+}
+
+/**
+ * Owner-only: offer the project to an existing collaborator. Ownership moves when the
+ * recipient accepts the invitation; the current owner then stays on as an editor.
+ */
+export async function requestProjectTransfer(
+  projectId: string,
+  ownerUid: string,
+  input: { recipientUid: string; senderEmail?: string; senderUsername?: string }
+): Promise<CanvasInvitation> {
+  const project = await getProject(projectId, ownerUid);
+  if (project.ownerUid !== ownerUid) {
+    throw new ApiError('Only the project owner can transfer it', 403);
+  }
+  if (!input.recipientUid) {
+    throw new ApiError('Recipient uid is required', 400);
+  }
+  if (input.recipientUid === ownerUid) {
+    throw new ApiError('You already own this project', 400);
+  }
+
+  const recipient = project.collaborators.find((collaborator) => collaborator.uid === input.recipientUid);
+  if (!recipient) {
+    throw new ApiError('Projects can only be transferred to an existing collaborator', 400);
+  }
+
+  const pending = await projectRepository.findPendingTransfer(projectId);
+  if (pending) {
+    if (pending.recipientUid === input.recipientUid) return pending;
+    throw new ApiError('A transfer is already pending for this project', 409);
+  }
+
+  const invitation = await projectRepository.createInvitation({
+    projectId,
+    projectName: project.name,
+    ownerUid,
+    senderUid: ownerUid,
+    senderEmail: input.senderEmail,
+    senderUsername: input.senderUsername,
+    recipientUid: input.recipientUid,
+    recipientEmail: '',
+    role: 'owner',
+    kind: 'transfer',
+  });
+
+  try {
+    await notifyCanvasInvitation(invitation);
+  } catch (error) {
+    console.error('[Canvas Transfer] Failed to create transfer notification', {
+      projectId,
+      invitationId: invitation.id,
+      error,
+    });
+  }
+
+  return invitation;
+}
+
+async function removeMember(project: CanvasProject, uid: string, change: 'removed' | 'left'): Promise<void> {
+  await projectRepository.removeCollaborator(project.id, uid);
+  await projectRepository.dismissInvitationsForRecipient(project.id, uid);
+  notifyProjectMembershipChanged(project.id, change, uid, project.ownerUid);
+}
+
+/** Owner-only: remove a collaborator. */
+export async function removeCollaboratorFromProject(projectId: string, ownerUid: string, collaboratorUid: string): Promise<void> {
+  const project = await getProject(projectId, ownerUid);
+  if (project.ownerUid !== ownerUid) {
+    throw new ApiError('Only project owner can remove collaborators', 403);
+  }
+  if (collaboratorUid === ownerUid) {
+    throw new ApiError('The owner cannot be removed; transfer the project first', 400);
+  }
+  if (!project.collaborators.some((collaborator) => collaborator.uid === collaboratorUid)) {
+    throw new ApiError('Collaborator not found', 404);
+  }
+  await removeMember(project, collaboratorUid, 'removed');
+}
+
+/** A collaborator leaves a project. Owners must transfer it first. */
+export async function leaveProject(projectId: string, userId: string): Promise<void> {
+  const project = await getProject(projectId, userId);
+  if (project.ownerUid === userId) {
+    throw new ApiError('The owner cannot leave a project; transfer it first', 400);
+  }
+  await removeMember(project, userId, 'left');
+}
+
 export const projectService = {
   createProject,
   getProject,
@@ -268,4 +525,10 @@ export const projectService = {
   updateSentInvitationRole,
   listUserProjects,
   deleteProject,
+  duplicateProject,
+  publishProjectAsTemplate,
+  createProjectFromTemplate,
+  requestProjectTransfer,
+  removeCollaboratorFromProject,
+  leaveProject,
 };
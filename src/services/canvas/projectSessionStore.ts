@@ -1,88 +1,104 @@
+import { mutateSharedState, readSharedState, sharedCanvasKey } from './sharedCanvasState';
+
 type ProjectSessionState = {
   currentSessionId: string | null;
   pendingRequesterSessionId: string | null;
   lastRejectedSessionId: string | null;
 };
 
-const projectSessions = new Map<string, ProjectSessionState>();
+// Takeover requests and approvals can land on different gateway instances
+const SESSION_KEY_TTL_SECONDS = 24 * 60 * 60;
+
+function sessionKey(projectId: string): string {
+  return sharedCanvasKey(projectId, 'session');
+}
 
-function ensureState(projectId: string): ProjectSessionState {
-  const existing = projectSessions.get(projectId);
-  if (existing) return existing;
-  const next: ProjectSessionState = {
+function emptyState(): ProjectSessionState {
+  return {
     currentSessionId: null,
     pendingRequesterSessionId: null,
     lastRejectedSessionId: null,
   };
-  projectSessions.set(projectId, next);
-  return next;
 }
 
-export function setCurrentSession(projectId: string, sessionId: string | null): void {
-  const state = ensureState(projectId);
-  state.currentSessionId = sessionId;
-  state.pendingRequesterSessionId = null;
-  state.lastRejectedSessionId = null;
+function ensureState(projectId: string): Promise<ProjectSessionState> {
+  return readSharedState(sessionKey(projectId), emptyState);
+}
+
+function mutateState<R>(projectId: string, mutate: (state: ProjectSessionState) => R): Promise<R> {
+  return mutateSharedState(sessionKey(projectId), SESSION_KEY_TTL_SECONDS, emptyState, mutate);
+}
+
+export async function setCurrentSession(projectId: string, sessionId: string | null): Promise<void> {
+  await mutateState(projectId, (state) => {
+    state.currentSessionId = sessionId;
+    state.pendingRequesterSessionId = null;
+    state.lastRejectedSessionId = null;
+  });
 }
 
-export function getCurrentSession(projectId: string): string | null {
-  return ensureState(projectId).currentSessionId;
+export async function getCurrentSession(projectId: string): Promise<string | null> {
+  return (await ensureState(projectId)).currentSessionId;
 }
 
-export function isCurrentSession(projectId: string, sessionId: string | null): boolean {
+export async function isCurrentSession(projectId: string, sessionId: string | null): Promise<boolean> {
   if (sessionId == null) return true;
-  return ensureState(projectId).currentSessionId === sessionId;
+  return (await ensureState(projectId)).currentSessionId === sessionId;
 }
 
-export function requestSessionTakeover(projectId: string, requesterSessionId: string): { status: 'granted' | 'pending'; currentSessionId: string | null } {
-  const state = ensureState(projectId);
+export async function requestSessionTakeover(
+  projectId: string,
+  requesterSessionId: string
+): Promise<{ status: 'granted' | 'pending'; currentSessionId: string | null }> {
+  return mutateState(projectId, (state) => {
+    if (!state.currentSessionId || state.currentSessionId === requesterSessionId) {
+      state.currentSessionId = requesterSessionId;
+      state.pendingRequesterSessionId = null;
+      state.lastRejectedSessionId = null;
+      return { status: 'granted' as const, currentSessionId: requesterSessionId };
+    }
 
-  if (!state.currentSessionId || state.currentSessionId === requesterSessionId) {
-    state.currentSessionId = requesterSessionId;
-    state.pendingRequesterSessionId = null;
+    state.pendingRequesterSessionId = requesterSessionId;
     state.lastRejectedSessionId = null;
-    return { status: 'granted', currentSessionId: requesterSessionId };
-  }
-
-  state.pendingRequesterSessionId = requesterSessionId;
-  state.lastRejectedSessionId = null;
-  return { status: 'pending', currentSessionId: state.currentSessionId };
+    return { status: 'pending' as const, currentSessionId: state.currentSessionId };
+  });
 }
 
-export function resolveSessionTakeover(
+export async function resolveSessionTakeover(
   projectId: string,
   approverSessionId: string,
   action: 'accept' | 'reject'
-): { requesterSessionId: string | null; currentSessionId: string | null } {
-  const state = ensureState(projectId);
-  if (!state.currentSessionId || state.currentSessionId !== approverSessionId) {
-    return { requesterSessionId: null, currentSessionId: state.currentSessionId };
-  }
-
-  const requesterSessionId = state.pendingRequesterSessionId;
-  if (!requesterSessionId) {
-    return { requesterSessionId: null, currentSessionId: state.currentSessionId };
-  }
-
-  if (action === 'accept') {
-    state.currentSessionId = requesterSessionId;
-    state.pendingRequesterSessionId = null;
-    state.lastRejectedSessionId = null;
-    return { requesterSessionId, currentSessionId: requesterSessionId };
-  }
+): Promise<{ requesterSessionId: string | null; currentSessionId: string | null }> {
+  return mutateState(projectId, (state) => {
+    if (!state.currentSessionId || state.currentSessionId !== approverSessionId) {
+      return { requesterSessionId: null, currentSessionId: state.currentSessionId };
+    }
+
+    const requesterSessionId = state.pendingRequesterSessionId;
+    if (!requesterSessionId) {
+      return { requesterSessionId: null, currentSessionId: state.currentSessionId };
+    }
 
-  state.pendingRequesterSessionId = null;
-  state.lastRejectedSessionId = requesterSessionId;
-  return { requesterSessionId, currentSessionId: state.currentSessionId };
+    if (action === 'accept') {
+      state.currentSessionId = requesterSessionId;
+      state.pendingRequesterSessionId = null;
+      state.lastRejectedSessionId = null;
+      return { requesterSessionId, currentSessionId: requesterSessionId };
+    }
+
+    state.pendingRequesterSessionId = null;
+    state.lastRejectedSessionId = requesterSessionId;
+    return { requesterSessionId, currentSessionId: state.currentSessionId };
+  });
 }
 
-export function getSessionState(projectId: string, sessionId: string | null): {
+export async function getSessionState(projectId: string, sessionId: string | null): Promise<{
   sessionIsCurrent: boolean;
   waitingForApproval: boolean;
   rejected: boolean;
   hasActiveSession: boolean;
-} {
-  const state = ensureState(projectId);
+}> {
+  const state = await ensureState(projectId);
   return {
     sessionIsCurrent: sessionId == null ? true : state.currentSessionId === sessionId,
     waitingForApproval: sessionId != null && state.pendingRequesterSessionId === sessionId,
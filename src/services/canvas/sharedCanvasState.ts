@@ -0,0 +1,107 @@
+import { env } from '../../config/env';
+import { getRedisClient, isRedisEnabled } from '../../config/redisClient';
+import { logger } from '../../utils/logger';
+
+/**
+ * Small JSON documents shared by every realtime gateway instance (collab editors, session owner,
+ * project version). With Redis enabled a document lives under one key and is updated with
+ * WATCH/MULTI so concurrent writers on different instances retry instead of overwriting each other.
+ * Without Redis (or when it is unreachable) the same mutation runs against process memory.
+ */
+
+const MAX_WATCH_RETRIES = 5;
+
+const memory = new Map<string, unknown>();
+
+export function sharedCanvasKey(projectId: string, name: string): string {
+  return `${env.redisPrefix || ''}canvas:${projectId}:${name}`;
+}
+
+function mutateInMemory<S, R>(key: string, init: () => S, mutate: (state: S) => R): R {
+  let state = memory.get(key) as S | undefined;
+  if (state === undefined) {
+    state = init();
+    memory.set(key, state);
+  }
+  return mutate(state);
+}
+
+/**
+ * Read-modify-write a shared document. `mutate` changes the state in place and returns the result;
+ * it may run more than once under contention, so it must not have side effects.
+ */
+export async function mutateSharedState<S, R>(
+  key: string,
+  ttlSeconds: number,
+  init: () => S,
+  mutate: (state: S) => R
+): Promise<R> {
+  const client = isRedisEnabled() ? getRedisClient() : null;
+  if (!client) return mutateInMemory(key, init, mutate);
+
+  try {
+    for (let attempt = 0; attempt < MAX_WATCH_RETRIES; attempt++) {
+      const outcome = await client.executeIsolated(async (isolated) => {
+        await isolated.watch(key);
+        const raw = await isolated.get(key);
+        const state: S = raw ? (JSON.parse(raw) as S) : init();
+        const result = mutate(state);
+        try {
+          await isolated.multi().set(key, JSON.stringify(state), { EX: ttlSeconds }).exec();
+          return { ok: true as const, result };
+        } catch (err: any) {
+          if (err?.name === 'WatchError') return { ok: false as const };
+          throw err;
+        }
+      });
+      if (outcome.ok) return outcome.result;
+    }
+    throw new Error(`Shared canvas state contention on ${key}`);
+  } catch (err: any) {
+    logger.warn({ key, err: err?.message }, '[CANVAS_SHARED_STATE] Redis update failed; using local state');
+    return mutateInMemory(key, init, mutate);
+  }
+}
+
+/** Read-only view of a shared document; never writes. */
+export async function readSharedState<S>(key: string, init: () => S): Promise<S> {
+  const client = isRedisEnabled() ? getRedisClient() : null;
+  if (client) {
+    try {
+      const raw = await client.get(key);
+      return raw ? (JSON.parse(raw) as S) : init();
+    } catch (err: any) {
+      logger.warn({ key, err: err?.message }, '[CANVAS_SHARED_STATE] Redis read failed; using local state');
+    }
+  }
+  return (memory.get(key) as S | undefined) ?? init();
+}
+
+/** Monotonic per-project counter (the canonical canvas version). */
+export async function incrementSharedCounter(key: string, ttlSeconds: number, localValue: number): Promise<number> {
+  const client = isRedisEnabled() ? getRedisClient() : null;
+  if (client) {
+    try {
+      const [next] = (await client.multi().incr(key).expire(key, ttlSeconds).exec()) as unknown as [number];
+      // An instance that outlived a Redis flush must not hand out versions below what clients have seen
+      if (next > localValue) return next;
+      await client.set(key, String(localValue + 1), { EX: ttlSeconds });
+      return localValue + 1;
+    } catch (err: any) {
+      logger.warn({ key, err: err?.message }, '[CANVAS_SHARED_STATE] Redis counter failed; using local version');
+    }
+  }
+  return localValue + 1;
+}
+
+export async function readSharedCounter(key: string): Promise<number | null> {
+  const client = isRedisEnabled() ? getRedisClient() : null;
+  if (!client) return null;
+  try {
+    const raw = await client.get(key);
+    const value = raw ? Number(raw) : NaN;
+    return Number.isFinite(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
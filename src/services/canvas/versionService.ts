@@ -0,0 +1,372 @@
+import { projectRepository } from '../../repository/canvas/projectRepository';
+import { versionRepository } from '../../repository/canvas/versionRepository';
+import { elementRepository } from '../../repository/canvas/elementRepository';
+import { mediaRepository } from '../../repository/canvas/mediaRepository';
+import {
+  CanvasElement,
+  CanvasProject,
+  CanvasSnapshot,
+  CanvasVersion,
+  CanvasVersionDiff,
+  CanvasVersionKind,
+  CanvasVersionSummary,
+} from '../../types/canvas';
+import { ApiError } from '../../utils/errorHandler';
+import { env } from '../../config/env';
+import { admin } from '../../config/firebaseAdmin';
+import { notifyProjectVersionRestored } from './canvasSessionNotifier';
+
+/**
+ * Version history for canvas projects. A version is a full copy of the board (elements +
+ * metadata) taken from the "current" snapshot: manually, automatically every
+ * CANVAS_AUTO_CHECKPOINT_OPS changes, or when an older version is restored. Restoring
+ * never rewrites history; it writes the old board as the current snapshot and records
+ * that as a new version. Each version holds a GC ref on the canvasMedia it points at;
+ * automatic checkpoints beyond CANVAS_MAX_AUTO_VERSIONS are pruned and release theirs.
+ */
+
+export const MAX_VERSION_NAME_LENGTH = 100;
+export const CURRENT_VERSION = 'current';
+
+// Changes are counted in memory and written once per project per window, so a busy board
+// does not contend on its counter doc with one transaction per op
+const CHANGE_FLUSH_MS = 5000;
+const MAX_CHANGE_FLUSH_ATTEMPTS = 5;
+
+type ProjectRole = 'owner' | 'editor' | 'viewer';
+
+async function getProjectAccess(projectId: string, userId: string): Promise<{ project: CanvasProject; role: ProjectRole }> {
+  const project = await projectRepository.getProject(projectId);
+  if (!project) {
+    throw new ApiError('Project not found', 404);
+  }
+  const role = project.ownerUid === userId
+    ? 'owner'
+    : project.collaborators.find(c => c.uid === userId)?.role;
+  if (!role) {
+    throw new ApiError('Access denied', 403);
+  }
+  return { project, role };
+}
+
+async function requireEditor(projectId: string, userId: string, action: string): Promise<CanvasProject> {
+  const { project, role } = await getProjectAccess(projectId, userId);
+  if (role !== 'owner' && role !== 'editor') {
+    throw new ApiError(`Only owners and editors can ${action}`, 403);
+  }
+  return project;
+}
+
+/** The board as it is now: the current snapshot, or the element docs for op-based projects. */
+export async function readProjectState(projectId: string): Promise<Pick<CanvasSnapshot, 'elements' | 'metadata'>> {
+  const snapshot = await projectRepository.getCurrentSnapshot(projectId);
+  if (snapshot) {
+    return { elements: snapshot.elements || {}, metadata: snapshot.metadata };
+  }
+  const elements: Record<string, CanvasElement> = {};
+  for (const element of await elementRepository.listAllElements(projectId)) {
+    elements[element.id] = element;
+  }
+  return {
+    elements,
+    metadata: { version: '1.0', createdAt: admin.firestore.Timestamp.now() },
+  };
+}
+
+export function collectMediaIds(elements: Record<string, CanvasElement>): string[] {
+  const ids = new Set<string>();
+  for (const element of Object.values(elements)) {
+    const mediaId = element?.meta?.mediaId;
+    if (typeof mediaId === 'string' && mediaId) ids.add(mediaId);
+  }
+  return Array.from(ids);
+}
+
+/** Take a GC ref on each media doc; returns the ids that were actually retained. */
+async function retainMedia(projectId: string, mediaIds: string[]): Promise<string[]> {
+  const retained: string[] = [];
+  for (const mediaId of mediaIds) {
+    try {
+      await mediaRepository.incrementRef(mediaId);
+      retained.push(mediaId);
+    } catch (error: any) {
+      // The media doc may already be gone (GC'd or never registered)
+      console.warn('[Canvas Versions] Failed to bump media ref:', { projectId, mediaId, message: error?.message });
+    }
+  }
+  return retained;
+}
+
+async function releaseMedia(projectId: string, mediaIds: string[]): Promise<void> {
+  for (const mediaId of mediaIds) {
+    try {
+      await mediaRepository.decrementRef(mediaId);
+    } catch (error: any) {
+      console.warn('[Canvas Versions] Failed to release media ref:', { projectId, mediaId, message: error?.message });
+    }
+  }
+}
+
+async function saveVersion(
+  projectId: string,
+  userId: string,
+  state: Pick<CanvasSnapshot, 'elements' | 'metadata'>,
+  kind: CanvasVersionKind,
+  name: string,
+  restoredFromVersionId?: string
+): Promise<CanvasVersion> {
+  const mediaIds = collectMediaIds(state.elements);
+  // Refs first: a version must never point at media the GC may already have collected
+  const retainedMediaIds = await retainMedia(projectId, mediaIds);
+  let version: CanvasVersion;
+  try {
+    version = await versionRepository.createVersion(projectId, {
+      name,
+      kind,
+      elements: state.elements,
+      metadata: state.metadata,
+      elementCount: Object.keys(state.elements).length,
+      mediaIds,
+      retainedMediaIds,
+      restoredFromVersionId,
+      createdBy: userId,
+    });
+  } catch (error) {
+    await releaseMedia(projectId, retainedMediaIds);
+    throw error;
+  }
+  if (kind === 'auto') {
+    await pruneAutoVersions(projectId).catch((error: any) => {
+      console.warn('[Canvas Versions] Pruning automatic checkpoints failed:', { projectId, message: error?.message });
+    });
+  }
+  return version;
+}
+
+/** Drop automatic checkpoints beyond CANVAS_MAX_AUTO_VERSIONS and release their media refs. */
+async function pruneAutoVersions(projectId: string): Promise<void> {
+  const keep = env.canvasMaxAutoVersions;
+  if (!keep || keep <= 0) return;
+  for (const version of await versionRepository.listVersionsBeyond(projectId, 'auto', keep)) {
+    await versionRepository.deleteVersion(projectId, version.id);
+    // Versions saved before refs were tracked never took any
+    await releaseMedia(projectId, version.retainedMediaIds || []);
+  }
+}
+
+function toSummary(version: CanvasVersion): CanvasVersionSummary {
+  const { elements, metadata, ...summary } = version;
+  return summary;
+}
+
+export async function createCheckpoint(
+  projectId: string,
+  userId: string,
+  name?: string
+): Promise<CanvasVersionSummary> {
+  await requireEditor(projectId, userId, 'create versions');
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (trimmed.length > MAX_VERSION_NAME_LENGTH) {
+    throw new ApiError(`Version name must be at most ${MAX_VERSION_NAME_LENGTH} characters`, 400);
+  }
+
+  const state = await readProjectState(projectId);
+  const version = await saveVersion(projectId, userId, state, 'manual', trimmed || `Checkpoint ${new Date().toISOString()}`);
+  return toSummary(version);
+}
+
+const pendingChanges = new Map<string, { count: number; userId: string; attempts: number }>();
+
+/**
+ * Count a change (op or snapshot save) towards the next automatic checkpoint, taken once
+ * CANVAS_AUTO_CHECKPOINT_OPS have accumulated. Counts are batched per project and flushed
+ * after CHANGE_FLUSH_MS; a failed flush keeps its count for the next one. Callers do not wait.
+ */
+export function recordChange(projectId: string, userId: string): void {
+  const threshold = env.canvasAutoCheckpointOps;
+  if (!threshold || threshold <= 0) return;
+  const pending = pendingChanges.get(projectId);
+  if (pending) {
+    pending.count += 1;
+    pending.userId = userId;
+    return;
+  }
+  pendingChanges.set(projectId, { count: 1, userId, attempts: 0 });
+  scheduleFlush(projectId);
+}
+
+function scheduleFlush(projectId: string): void {
+  setTimeout(() => void flushChanges(projectId), CHANGE_FLUSH_MS).unref();
+}
+
+async function flushChanges(projectId: string): Promise<void> {
+  const pending = pendingChanges.get(projectId);
+  if (!pending) return;
+  pendingChanges.delete(projectId);
+
+  let due: boolean;
+  try {
+    due = await versionRepository.recordVersionChanges(projectId, pending.count, env.canvasAutoCheckpointOps);
+  } catch (error: any) {
+    const attempts = pending.attempts + 1;
+    if (attempts >= MAX_CHANGE_FLUSH_ATTEMPTS) {
+      console.error('[Canvas Versions] Dropping uncounted changes; the next automatic checkpoint comes later:', {
+        projectId,
+        changes: pending.count,
+        message: error?.message,
+      });
+      return;
+    }
+    console.warn('[Canvas Versions] Change count flush failed; retrying:', { projectId, attempts, message: error?.message });
+    // Carry the count into the next flush, together with whatever arrived meanwhile
+    const current = pendingChanges.get(projectId);
+    if (current) {
+      current.count += pending.count;
+      current.attempts = attempts;
+    } else {
+      pendingChanges.set(projectId, { ...pending, attempts });
+      scheduleFlush(projectId);
+    }
+    return;
+  }
+  if (!due) return;
+
+  try {
+    const state = await readProjectState(projectId);
+    await saveVersion(projectId, pending.userId, state, 'auto', 'Auto-save');
+  } catch (error: any) {
+    // The count is only reset by a saved version, so the next flush tries again
+    console.warn('[Canvas Versions] Automatic checkpoint failed:', { projectId, message: error?.message });
+  }
+}
+
+export async function listVersions(
+  projectId: string,
+  userId: string,
+  options: { limit?: number; before?: number } = {}
+): Promise<{ versions: CanvasVersionSummary[]; nextBefore?: number }> {
+  await getProjectAccess(projectId, userId);
+  const limit = Math.min(Math.max(options.limit || 50, 1), 100);
+  const versions = await versionRepository.listVersions(projectId, limit, options.before);
+  return {
+    versions,
+    nextBefore: versions.length === limit ? versions[versions.length - 1].number : undefined,
+  };
+}
+
+/** Read-only view of a version, elements included. */
+export async function getVersion(projectId: string, userId: string, versionId: string): Promise<CanvasVersion> {
+  await getProjectAccess(projectId, userId);
+  const version = await versionRepository.getVersion(projectId, versionId);
+  if (!version) {
+    throw new ApiError('Version not found', 404);
+  }
+  return version;
+}
+
+/** Key-order independent serialization, so equal elements compare equal. */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    if (typeof value.toMillis === 'function') return String(value.toMillis());
+    return `{${Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/** Element-level diff between two versions; either side may be CURRENT_VERSION. */
+export async function diffVersions(
+  projectId: string,
+  userId: string,
+  fromId: string,
+  toId: string
+): Promise<CanvasVersionDiff> {
+  await getProjectAccess(projectId, userId);
+
+  const load = async (id: string) => {
+    if (id === CURRENT_VERSION) {
+      const state = await readProjectState(projectId);
+      return { ref: { versionId: null, number: null }, elements: state.elements };
+    }
+    const version = await versionRepository.getVersion(projectId, id);
+    if (!version) {
+      throw new ApiError(`Version ${id} not found`, 404);
+    }
+    return { ref: { versionId: version.id, number: version.number }, elements: version.elements || {} };
+  };
+  const [from, to] = await Promise.all([load(fromId), load(toId)]);
+
+  const diff: CanvasVersionDiff = { from: from.ref, to: to.ref, added: [], removed: [], modified: [], unchanged: 0 };
+  for (const id of Object.keys(to.elements)) {
+    if (!(id in from.elements)) diff.added.push(id);
+  }
+  for (const [id, before] of Object.entries(from.elements)) {
+    const after = to.elements[id];
+    if (!after) {
+      diff.removed.push(id);
+      continue;
+    }
+    const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter(
+      key => stableStringify((before as any)[key]) !== stableStringify((after as any)[key])
+    );
+    if (fields.length > 0) {
+      diff.modified.push({ id, fields: fields.sort() });
+    } else {
+      diff.unchanged += 1;
+    }
+  }
+  return diff;
+}
+
+/**
+ * Make an older version the current board. The state being replaced is checkpointed
+ * first so the restore itself can be undone, and the restored media gets its refcount
+ * bumped so mediaGCWorker keeps the assets it points at.
+ */
+export async function restoreVersion(
+  projectId: string,
+  userId: string,
+  versionId: string
+): Promise<CanvasVersionSummary> {
+  await requireEditor(projectId, userId, 'restore versions');
+  const version = await versionRepository.getVersion(projectId, versionId);
+  if (!version) {
+    throw new ApiError('Version not found', 404);
+  }
+
+  const current = await readProjectState(projectId);
+  if (Object.keys(current.elements).length > 0) {
+    await saveVersion(projectId, userId, current, 'auto', `Before restoring version ${version.number}`);
+  }
+
+  const elements = version.elements || {};
+  await projectRepository.saveCurrentSnapshot(projectId, {
+    projectId,
+    elements,
+    metadata: version.metadata,
+  });
+
+  // A missing media doc (GC'd or never registered) is skipped; the URL still restores
+  await retainMedia(projectId, collectMediaIds(elements));
+
+  const restored = await saveVersion(
+    projectId,
+    userId,
+    { elements, metadata: version.metadata },
+    'restore',
+    `Restored version ${version.number}${version.name ? ` (${version.name})` : ''}`,
+    version.id
+  );
+  notifyProjectVersionRestored(projectId, restored.id, restored.number);
+  console.log('[Canvas Versions] Restored version', { projectId, from: version.number, as: restored.number });
+  return toSummary(restored);
+}
+
+export const versionService = {
+  createCheckpoint,
+  recordChange,
+  listVersions,
+  getVersion,
+  diffVersions,
+  restoreVersion,
+};
@@ -2,6 +2,10 @@ import { creditsRepository } from '../repository/creditsRepository';
 import { env } from '../config/env';
 
 const FREE_PLAN_CODE = 'FREE';
+// Plan codes for rate limiting are read on every mutating request; keep them briefly in memory
+const PLAN_CODE_CACHE_TTL_MS = 60 * 1000;
+const PLAN_CODE_CACHE_MAX_ENTRIES = 10000;
+const planCodeCache = new Map<string, { planCode: string; expiry: number }>();
 
 /**
  * Refactored Credits Service
@@ -106,9 +110,25 @@ export const creditsService = {
     }
   },
 
+  /**
+   * Plan code for quota decisions, cached for a minute. A failed lookup keeps the last known
+   * plan (or FREE) so a credit service outage does not lock users out.
+   */
+  async getCachedPlanCode(uid: string): Promise<string> {
+    const cached = planCodeCache.get(uid);
+    if (cached && cached.expiry > Date.now()) return cached.planCode;
+
+    const user = await creditsRepository.readUserInfo(uid).catch(() => null);
+    const planCode = user?.planCode || cached?.planCode || FREE_PLAN_CODE;
+    if (planCodeCache.size >= PLAN_CODE_CACHE_MAX_ENTRIES) planCodeCache.clear();
+    planCodeCache.set(uid, { planCode, expiry: Date.now() + PLAN_CODE_CACHE_TTL_MS });
+    return planCode;
+  },
+
   async switchPlan(uid: string, newPlanCode: string) {
      // Just call repo
      await creditsRepository.writeGrantAndSetPlanIfAbsent(uid, `SWITCH_${Date.now()}`, 0, newPlanCode, 'plan.switch');
+     planCodeCache.delete(uid);
      const user = await creditsRepository.readUserInfo(uid);
      return { planCode: newPlanCode, creditBalance: user?.creditBalance || 0 };
   }
@@ -29,8 +29,10 @@ import {
   updateMirror,
   ensureMirrorSync,
 } from "../utils/mirrorHelper";
-import { aestheticScoreService } from "./aestheticScoreService";
-import { markGenerationCompleted } from "./generationHistoryService";
+import {
+  markGenerationCompleted,
+  reportProviderProgress,
+} from "./generationHistoryService";
 import { buildFalApiError } from "../utils/falErrorMapper";
 import fetch from "node-fetch";
 import sharp from "sharp";
@@ -40,6 +42,10 @@ import {
   estimateFileSize,
 } from "../utils/validationHelpers";
 import { probeVideoMeta } from "../utils/media/probe";
+import { buildProviderWebhookCallback } from "../utils/providerWebhooks";
+import { providerWebhookCallbacksRepository } from "../repository/providerWebhookCallbacksRepository";
+import { backgroundTaskQueue } from "../utils/backgroundTaskQueue";
+import { JOB_QUEUES, historyJobId } from "../config/jobQueues";
 
 const buildGenerationImageFileName = (
   historyId?: string,
@@ -51,6 +57,17 @@ const buildGenerationImageFileName = (
   return `image-${Date.now()}-${index + 1}-${Math.random().toString(36).slice(2, 6)}`;
 };
 
+// Queue submits carry a signed completion webhook (when enabled) so jobs finish without client polling
+async function submitToFalQueue(uid: string, model: string, options: any) {
+  const callback = buildProviderWebhookCallback("fal", uid);
+  const submitted = await fal.queue.submit(
+    model as any,
+    callback ? { ...options, webhookUrl: callback.url } : options,
+  );
+  if (callback) await providerWebhookCallbacksRepository.bindCallback(callback, submitted?.request_id);
+  return submitted;
+}
+
 function isPublicHttpUrl(url: unknown): url is string {
   return typeof url === "string" && /^https?:\/\//i.test(url);
 }
@@ -3030,7 +3047,7 @@ async function generate(
           console.log(
             "[falService] Using queue mode for Seedream 4.5 image-to-image to avoid timeout",
           );
-          const { request_id } = await fal.queue.submit(
+          const { request_id } = await submitToFalQueue(uid, 
             modelEndpoint as any,
             { input } as any,
           );
@@ -3638,22 +3655,16 @@ async function generate(
         }),
       );
 
-      // Score images (character path)
-      const scoredImages =
-        await aestheticScoreService.scoreImages(storedImages);
-      const highestScore = aestheticScoreService.getHighestScore(scoredImages);
-
-      // Mark history completed with scored images & Zata URLs
+      // Mark history completed with Zata URLs
       await generationHistoryRepository.update(uid, historyId, {
         status: "completed",
-        images: scoredImages,
+        images: storedImages,
         frameSize: resolvedAspect,
-        aestheticScore: highestScore,
       } as Partial<GenerationHistoryItem>);
 
       await falRepository.updateGenerationRecord(legacyId, {
         status: "completed",
-        images: scoredImages,
+        images: storedImages,
       });
       await syncToMirror(uid, historyId);
 
@@ -3661,7 +3672,7 @@ async function generate(
       try {
         markGenerationCompleted(uid, historyId, {
           status: "completed",
-          images: scoredImages,
+          images: storedImages,
           isPublic: (payload as any).isPublic === true,
         }).catch((err) =>
           console.error(
@@ -3677,11 +3688,11 @@ async function generate(
       }
 
       // Save character to characters collection
-      if (characterName && scoredImages.length > 0) {
+      if (characterName && storedImages.length > 0) {
         try {
           const { characterRepository } =
             await import("../repository/characterRepository");
-          const generatedImage = scoredImages[0];
+          const generatedImage = storedImages[0];
           const historyEntry = await generationHistoryRepository.get(
             uid,
             historyId,
@@ -3708,7 +3719,7 @@ async function generate(
       }
 
       return {
-        images: scoredImages as any,
+        images: storedImages as any,
         historyId,
         model,
         status: "completed",
@@ -3781,22 +3792,17 @@ async function generate(
           }) as any,
       );
 
-      // Score quick images immediately using provider URLs
-      const scoredQuick = await aestheticScoreService.scoreImages(quickImages);
-      const quickHighest = aestheticScoreService.getHighestScore(scoredQuick);
-
-      // Mark history completed with provider URLs and aesthetic score for instant UX
+      // Mark history completed with provider URLs for instant UX
       await generationHistoryRepository.update(uid, historyId, {
         status: "completed",
-        images: scoredQuick,
+        images: quickImages,
         frameSize: resolvedAspect,
-        aestheticScore: quickHighest,
       } as Partial<GenerationHistoryItem>);
 
       // Sync to mirror immediately with provider URLs
       await syncToMirror(uid, historyId);
 
-      // Best-effort: background upload to Zata, then replace URLs in history/mirror and re-score
+      // Best-effort: background upload to Zata, then replace URLs in history/mirror
       setImmediate(async () => {
         try {
           const storedImages = await Promise.all(
@@ -3823,18 +3829,12 @@ async function generate(
             }),
           );
 
-          // Re-score with final storage URLs for consistency
-          const rescored =
-            await aestheticScoreService.scoreImages(storedImages);
-          const finalHighest = aestheticScoreService.getHighestScore(rescored);
-
           await falRepository.updateGenerationRecord(legacyId, {
             status: "completed",
-            images: rescored,
+            images: storedImages,
           });
           await generationHistoryRepository.update(uid, historyId, {
-            images: rescored,
-            aestheticScore: finalHighest,
+            images: storedImages,
           } as any);
 
           // Ensure mirror sync after Zata upload with retries
@@ -3844,7 +3844,7 @@ async function generate(
           try {
             markGenerationCompleted(uid, historyId, {
               status: "completed",
-              images: rescored,
+              images: storedImages,
               isPublic: (payload as any).isPublic === true,
             }).catch((err) =>
               console.error(
@@ -3871,9 +3871,9 @@ async function generate(
         }
       });
 
-      // Respond quickly with provider URLs & initial aesthetic score
+      // Respond quickly with provider URLs
       return {
-        images: scoredQuick as any,
+        images: quickImages as any,
         historyId,
         model,
         status: "completed",
@@ -3980,14 +3980,9 @@ async function veoTextToVideo(
       },
     ];
 
-    // Score the video for aesthetic quality
-    const scoredVideos = await aestheticScoreService.scoreVideos(videos);
-    const highestScore = aestheticScoreService.getHighestScore(scoredVideos);
-
     await generationHistoryRepository.update(uid, historyId, {
       status: "completed",
-      videos: scoredVideos,
-      aestheticScore: highestScore,
+      videos,
       duration: payload.duration ?? "8s",
       resolution: payload.resolution ?? "720p",
       aspect_ratio: payload.aspect_ratio ?? "16:9",
@@ -4022,7 +4017,7 @@ async function veoTextToVideo(
     }
 
     return {
-      videos: scoredVideos,
+      videos,
       historyId,
       model: "fal-ai/veo3",
       status: "completed",
@@ -4106,14 +4101,9 @@ async function veoTextToVideoFast(
       },
     ];
 
-    // Score the video for aesthetic quality
-    const scoredVideos = await aestheticScoreService.scoreVideos(videos);
-    const highestScore = aestheticScoreService.getHighestScore(scoredVideos);
-
     await generationHistoryRepository.update(uid, historyId, {
       status: "completed",
-      videos: scoredVideos,
-      aestheticScore: highestScore,
+      videos,
       duration: payload.duration ?? "8s",
       resolution: payload.resolution ?? "720p",
       aspect_ratio: payload.aspect_ratio ?? "16:9",
@@ -4148,7 +4138,7 @@ async function veoTextToVideoFast(
     }
 
     return {
-      videos: scoredVideos,
+      videos,
       historyId,
       model: "fal-ai/veo3/fast",
       status: "completed",
@@ -4243,14 +4233,9 @@ async function veoImageToVideo(
       },
     ];
 
-    // Score the video for aesthetic quality
-    const scoredVideos = await aestheticScoreService.scoreVideos(videos);
-    const highestScore = aestheticScoreService.getHighestScore(scoredVideos);
-
     await generationHistoryRepository.update(uid, historyId, {
       status: "completed",
-      videos: scoredVideos,
-      aestheticScore: highestScore,
+      videos,
       duration: payload.duration ?? "8s",
       resolution: payload.resolution ?? "720p",
       aspect_ratio: payload.aspect_ratio ?? "auto",
@@ -4285,7 +4270,7 @@ async function veoImageToVideo(
     }
 
     return {
-      videos: scoredVideos,
+      videos,
       historyId,
       model: "fal-ai/veo3/image-to-video",
       status: "completed",
@@ -4367,14 +4352,9 @@ async function veoImageToVideoFast(
       },
     ];
 
-    // Score the video for aesthetic quality
-    const scoredVideos = await aestheticScoreService.scoreVideos(videos);
-    const highestScore = aestheticScoreService.getHighestScore(scoredVideos);
-
     await generationHistoryRepository.update(uid, historyId, {
       status: "completed",
-      videos: scoredVideos,
-      aestheticScore: highestScore,
+      videos,
       duration: payload.duration ?? "8s",
       resolution: payload.resolution ?? "720p",
       aspect_ratio: payload.aspect_ratio ?? "auto",
@@ -4409,7 +4389,7 @@ async function veoImageToVideoFast(
     }
 
     return {
-      videos: scoredVideos,
+      videos,
       historyId,
       model: "fal-ai/veo3/fast/image-to-video",
       status: "completed",
@@ -4745,12 +4725,6 @@ export const falService = {
         } as any,
       ];
 
-      // Score images
-      const scoredImages = await aestheticScoreService.scoreImages(
-        images as any,
-      );
-      const highestScore = aestheticScoreService.getHighestScore(scoredImages);
-
       // Deep clean function to ensure Firestore compatibility
       // Only processes arrays and objects - primitives pass through as-is
       const deepCleanForFirestore = (obj: any): any => {
@@ -4787,7 +4761,7 @@ export const falService = {
       // Clean images array to remove the aesthetic object with nested structures
       // Extract aestheticScore from aesthetic object but don't include the aesthetic object itself
       // This matches the pattern used in bflService.expand and outpaintImage
-      const cleanedImages = scoredImages.map((img: any) => {
+      const cleanedImages = images.map((img: any) => {
         // Handle originalUrl - don't store base64 data URLs (they're too long and can cause Firestore errors)
         // Use the Zata URL as originalUrl if the original is a data URL
         let originalUrl = img.originalUrl || img.url;
@@ -4913,13 +4887,11 @@ export const falService = {
       const updatePayload = {
         status: "completed" as const,
         images: cleanedImages,
-        aestheticScore: highestScore,
       };
 
       console.log("[falService.briaExpandImage] Update payload to Firestore:", {
         status: updatePayload.status,
         imagesCount: updatePayload.images.length,
-        aestheticScore: updatePayload.aestheticScore,
         imagesStructure: updatePayload.images.map((img, i) => ({
           index: i,
           keys: Object.keys(img),
@@ -5255,23 +5227,16 @@ export const falService = {
         }),
       );
 
-      // Score images
-      const scoredImages = await aestheticScoreService.scoreImages(
-        storedImages as any,
-      );
-      const highestScore = aestheticScoreService.getHighestScore(scoredImages);
-
       await generationHistoryRepository.update(uid, historyId, {
         status: "completed",
-        images: scoredImages,
-        aestheticScore: highestScore,
+        images: storedImages,
         frameSize: body?.aspect_ratio,
       } as any);
 
       // Trigger image optimization (thumbnails, AVIF, blur placeholders) in background
       markGenerationCompleted(uid, historyId, {
         status: "completed",
-        images: scoredImages as any,
+        images: storedImages as any,
       }).catch((err) => console.error("[FAL] Image optimization failed:", err));
 
       // Sync to mirror with retries
@@ -5303,7 +5268,7 @@ export const falService = {
       }
 
       return {
-        images: scoredImages as any,
+        images: storedImages as any,
         historyId,
         model,
         status: "completed",
@@ -5437,22 +5402,16 @@ export const falService = {
           originalUrl: imgUrl,
         } as any,
       ];
-      // Score images
-      const scoredImages = await aestheticScoreService.scoreImages(
-        images as any,
-      );
-      const highestScore = aestheticScoreService.getHighestScore(scoredImages);
       await generationHistoryRepository.update(uid, historyId, {
         status: "completed",
-        images: scoredImages,
-        aestheticScore: highestScore,
+        images,
         updatedAt: new Date().toISOString(), // Set completion time for proper sorting
       } as any);
 
       // Trigger image optimization (thumbnails, AVIF, blur placeholders) in background
       markGenerationCompleted(uid, historyId, {
         status: "completed",
-        images: scoredImages as any,
+        images: images as any,
       }).catch((err) => console.error("[FAL] Image optimization failed:", err));
 
       // Sync to mirror with retries
@@ -5483,7 +5442,7 @@ export const falService = {
         }
       }
       return {
-        images: scoredImages as any,
+        images: images as any,
         historyId,
         model,
         status: "completed",
@@ -5619,23 +5578,16 @@ export const falService = {
         } as any,
       ];
 
-      // Score images
-      const scoredImages = await aestheticScoreService.scoreImages(
-        images as any,
-      );
-      const highestScore = aestheticScoreService.getHighestScore(scoredImages);
-
       await generationHistoryRepository.update(uid, historyId, {
         status: "completed",
-        images: scoredImages,
-        aestheticScore: highestScore,
+        images,
         updatedAt: new Date().toISOString(),
       } as any);
 
       // Trigger image optimization (thumbnails, AVIF, blur placeholders) in background
       markGenerationCompleted(uid, historyId, {
         status: "completed",
-        images: scoredImages as any,
+        images: images as any,
       }).catch((err) => console.error("[FAL] Image optimization failed:", err));
 
       // Sync to mirror with retries
@@ -5667,7 +5619,7 @@ export const falService = {
       }
 
       return {
-        images: scoredImages as any,
+        images: images as any,
         historyId,
         model,
         status: "completed",
@@ -5853,15 +5805,9 @@ export const falService = {
           originalUrl: videoUrl,
         } as any,
       ];
-      // Score video
-      const scoredVideos = await aestheticScoreService.scoreVideos(
-        videos as any,
-      );
-      const highestScore = aestheticScoreService.getHighestScore(scoredVideos);
       await generationHistoryRepository.update(uid, historyId, {
         status: "completed",
-        videos: scoredVideos,
-        aestheticScore: highestScore,
+        videos,
       } as any);
       // Sync to mirror with retries
       await syncToMirror(uid, historyId);
@@ -5891,7 +5837,7 @@ export const falService = {
         }
       }
       return {
-        videos: scoredVideos as any,
+        videos: videos as any,
         historyId,
         model,
         status: "completed",
@@ -6496,22 +6442,16 @@ export const falService = {
         }),
       );
 
-      // Score images
-      const scoredImages = await aestheticScoreService.scoreImages(
-        storedImages as any,
-      );
-      const highestScore = aestheticScoreService.getHighestScore(scoredImages);
       await generationHistoryRepository.update(uid, historyId, {
         status: "completed",
-        images: scoredImages,
-        aestheticScore: highestScore,
+        images: storedImages,
         updatedAt: new Date().toISOString(), // Set completion time for proper sorting
       } as any);
 
       // Trigger image optimization (thumbnails, AVIF, blur placeholders) in background
       markGenerationCompleted(uid, historyId, {
         status: "completed",
-        images: scoredImages as any,
+        images: storedImages as any,
       }).catch((err) => console.error("[FAL] Image optimization failed:", err));
 
       // Sync to mirror with retries
@@ -6543,7 +6483,7 @@ export const falService = {
       }
 
       return {
-        images: scoredImages as any,
+        images: storedImages as any,
         historyId,
         model,
         status: "completed",
@@ -6656,15 +6596,9 @@ export const falService = {
           originalUrl: videoUrl,
         } as any,
       ];
-      // Score video
-      const scoredVideos = await aestheticScoreService.scoreVideos(
-        videos as any,
-      );
-      const highestScore = aestheticScoreService.getHighestScore(scoredVideos);
       await generationHistoryRepository.update(uid, historyId, {
         status: "completed",
-        videos: scoredVideos,
-        aestheticScore: highestScore,
+        videos,
       } as any);
       await syncToMirror(uid, historyId);
 
@@ -6693,7 +6627,7 @@ export const falService = {
         }
       }
       return {
-        videos: scoredVideos as any,
+        videos: videos as any,
         historyId,
         model,
         status: "completed",
@@ -6927,22 +6861,16 @@ export const falService = {
         }),
       );
 
-      // Score images
-      const scoredImages = await aestheticScoreService.scoreImages(
-        storedImages as any,
-      );
-      const highestScore = aestheticScoreService.getHighestScore(scoredImages);
       await generationHistoryRepository.update(uid, historyId, {
         status: "completed",
-        images: scoredImages,
-        aestheticScore: highestScore,
+        images: storedImages,
         updatedAt: new Date().toISOString(),
       } as any);
 
       // Trigger image optimization (thumbnails, AVIF, blur placeholders) in background
       markGenerationCompleted(uid, historyId, {
         status: "completed",
-        images: scoredImages as any,
+        images: storedImages as any,
       }).catch((err) => console.error("[FAL] Image optimization failed:", err));
 
       // Sync to mirror with retries
@@ -6974,7 +6902,7 @@ export const falService = {
       }
 
       return {
-        images: scoredImages as any,
+        images: storedImages as any,
         historyId,
         model,
         status: "completed",
@@ -7098,7 +7026,7 @@ async function veoTtvSubmit(
     model,
     isPublic: body.isPublic,
   });
-  const { request_id } = await fal.queue.submit(model, {
+  const { request_id } = await submitToFalQueue(uid, model, {
     input: {
       prompt: body.prompt,
       aspect_ratio: body.aspect_ratio ?? "16:9",
@@ -7142,7 +7070,7 @@ async function veoI2vSubmit(
   });
   // Persist input image to history
   await persistInputImagesFromUrls(uid, historyId, [body.image_url]);
-  const { request_id } = await fal.queue.submit(model, {
+  const { request_id } = await submitToFalQueue(uid, model, {
     input: {
       prompt: body.prompt,
       image_url: body.image_url,
@@ -7229,7 +7157,7 @@ async function klingO1FirstLastSubmit(
   // Persist images to history
   await persistInputImagesFromUrls(uid, historyId, [first, last]);
 
-  const { request_id } = await fal.queue.submit(model, {
+  const { request_id } = await submitToFalQueue(uid, model, {
     input: {
       prompt: body.prompt,
       start_image_url: first,
@@ -7341,7 +7269,7 @@ async function klingO1ReferenceSubmit(
     input.elements = body.elements;
   }
 
-  const { request_id } = await fal.queue.submit(model, { input } as any);
+  const { request_id } = await submitToFalQueue(uid, model, { input } as any);
 
   await generationHistoryRepository.update(uid, historyId, {
     provider: "fal",
@@ -7562,6 +7490,15 @@ async function queueStatus(
     }
   }
 
+  if (statusValue === "in_queue" || statusValue === "in_progress") {
+    void reportProviderProgress(uid, "fal", requestId, {
+      state: statusValue,
+      ...(typeof (status as any)?.queue_position === "number"
+        ? { queuePosition: (status as any).queue_position }
+        : {}),
+    });
+  }
+
   return status;
 }
 
@@ -7916,29 +7853,19 @@ async function queueResult(
         originalUrl: providerUrl,
       };
       if (providerVideoId) videoObj.soraVideoId = providerVideoId;
-
-      // Generate and attach thumbnail
-      try {
-        const { generateAndAttachThumbnail } =
-          await import("./videoThumbnailService");
-        const videoWithThumbnail = await generateAndAttachThumbnail(
-          videoObj,
-          keyPrefix,
-        );
-        videos = [videoWithThumbnail as any];
-      } catch (thumbErr) {
-        console.warn(
-          "[falService.queueResult] Failed to generate thumbnail, continuing without it:",
-          thumbErr,
-        );
-        videos = [videoObj as any];
-      }
+      videos = [videoObj as any];
 
       await generationHistoryRepository.update(uid, located.id, {
         status: "completed",
         videos,
         ...(providerVideoId ? { soraVideoId: providerVideoId } : {}),
       } as any);
+      // Thumbnail is attached by the video-thumbnail queue
+      void backgroundTaskQueue.enqueue(
+        JOB_QUEUES.videoThumbnail,
+        { uid, historyId: located.id, keyPrefix },
+        { jobId: historyJobId({ uid, historyId: located.id }) },
+      );
     } catch (e) {
       // Fallback to provider URL if Zata upload fails
       const videoObj: any = {
@@ -7960,6 +7887,10 @@ async function queueResult(
       // Sync to mirror with retries
       await syncToMirror(uid, located.id);
     }
+    markGenerationCompleted(uid, located.id, {
+      status: "completed",
+      videos,
+    }).catch((err) => console.error("[FAL] Video completion failed:", err));
     // Build enriched response with Zata and original URLs
     const enrichedVideos = (
       fresh?.videos && Array.isArray(fresh.videos) ? fresh.videos : videos
@@ -8122,7 +8053,7 @@ async function kling26ProT2vSubmit(
       : body.duration
         ? `${body.duration}`
         : "5";
-  const { request_id } = await fal.queue.submit(model, {
+  const { request_id } = await submitToFalQueue(uid, model, {
     input: {
       prompt: body.prompt,
       duration: duration,
@@ -8189,7 +8120,7 @@ async function kling26ProI2vSubmit(
     // Continue with original URL if upload fails
   }
 
-  const { request_id } = await fal.queue.submit(model, {
+  const { request_id } = await submitToFalQueue(uid, model, {
     input: {
       prompt: body.prompt,
       image_url: imageUrl,
@@ -8298,7 +8229,7 @@ async function klingV3Submit(
       input.elements = body.elements;
   }
 
-  const { request_id } = await fal.queue.submit(model, { input } as any);
+  const { request_id } = await submitToFalQueue(uid, model, { input } as any);
   await generationHistoryRepository.update(uid, historyId, {
     provider: "fal",
     providerTaskId: request_id,
@@ -8587,7 +8518,7 @@ async function submitSeedance2T2vVariant(
       input.seed = seed;
     }
 
-    const { request_id } = await fal.queue.submit(model, { input } as any);
+    const { request_id } = await submitToFalQueue(uid, model, { input } as any);
     await generationHistoryRepository.update(uid, historyId, {
       provider: "fal",
       providerTaskId: request_id,
@@ -8677,7 +8608,7 @@ async function submitSeedance2I2vVariant(
       input.seed = seed;
     }
 
-    const { request_id } = await fal.queue.submit(model, { input } as any);
+    const { request_id } = await submitToFalQueue(uid, model, { input } as any);
     await generationHistoryRepository.update(uid, historyId, {
       provider: "fal",
       providerTaskId: request_id,
@@ -8801,7 +8732,7 @@ async function submitSeedance2ReferenceVariant(
       input.seed = seed;
     }
 
-    const { request_id } = await fal.queue.submit(model, { input } as any);
+    const { request_id } = await submitToFalQueue(uid, model, { input } as any);
     await generationHistoryRepository.update(uid, historyId, {
       provider: "fal",
       providerTaskId: request_id,
@@ -8916,7 +8847,7 @@ export const falQueueService: {
       model,
       isPublic: body.isPublic,
     });
-    const { request_id } = await fal.queue.submit(model, {
+    const { request_id } = await submitToFalQueue(uid, model, {
       input: {
         prompt: body.prompt,
         aspect_ratio: resolvedAspectRatio,
@@ -8998,7 +8929,7 @@ export const falQueueService: {
 
     // Persist input image
     await persistInputImagesFromUrls(uid, historyId, [imageUrl]);
-    const { request_id } = await fal.queue.submit(model, {
+    const { request_id } = await submitToFalQueue(uid, model, {
       input: {
         prompt: body.prompt,
         image_url: imageUrl,
@@ -9041,7 +8972,7 @@ export const falQueueService: {
       aspect_ratio: aspectRatio,
       generate_audio: true,
     } as any);
-    const { request_id } = await fal.queue.submit(model, {
+    const { request_id } = await submitToFalQueue(uid, model, {
       input: {
         prompt: body.prompt,
         aspect_ratio: aspectRatio,
@@ -9114,7 +9045,7 @@ export const falQueueService: {
     }
 
     await persistInputImagesFromUrls(uid, historyId, [imageUrl]);
-    const { request_id } = await fal.queue.submit(model, {
+    const { request_id } = await submitToFalQueue(uid, model, {
       input: {
         prompt: body.prompt,
         image_url: imageUrl,
@@ -9226,7 +9157,7 @@ export const falQueueService: {
 
     await persistInputImagesFromUrls(uid, historyId, [firstUrl, lastUrl]);
 
-    const { request_id } = await fal.queue.submit(model, {
+    const { request_id } = await submitToFalQueue(uid, model, {
       input: {
         prompt: body.prompt,
         aspect_ratio: aspectRatio,
@@ -9300,7 +9231,7 @@ export const falQueueService: {
 
     // Persist reference images
     await persistInputImagesFromUrls(uid, historyId, imageUrls);
-    const { request_id } = await fal.queue.submit(model, {
+    const { request_id } = await submitToFalQueue(uid, model, {
       input: {
         prompt: body.prompt,
         image_urls: imageUrls,
@@ -9392,7 +9323,7 @@ export const falQueueService: {
 
     // Persist first and last frame images
     await persistInputImagesFromUrls(uid, historyId, [firstUrl, lastUrl]);
-    const { request_id } = await fal.queue.submit(model, {
+    const { request_id } = await submitToFalQueue(uid, model, {
       input: {
         prompt: body.prompt,
         first_frame_url: firstUrl,
@@ -9484,7 +9415,7 @@ export const falQueueService: {
 
     // Persist first and last frame images
     await persistInputImagesFromUrls(uid, historyId, [firstUrl, lastUrl]);
-    const { request_id } = await fal.queue.submit(model, {
+    const { request_id } = await submitToFalQueue(uid, model, {
       input: {
         prompt: body.prompt,
         first_frame_url: firstUrl,
@@ -9566,7 +9497,7 @@ export const falQueueService: {
       },
     });
 
-    const { request_id } = await fal.queue.submit(model, { input } as any);
+    const { request_id } = await submitToFalQueue(uid, model, { input } as any);
     await generationHistoryRepository.update(uid, historyId, {
       provider: "fal",
       providerTaskId: request_id,
@@ -9638,7 +9569,7 @@ export const falQueueService: {
       },
     });
 
-    const { request_id } = await fal.queue.submit(model, { input } as any);
+    const { request_id } = await submitToFalQueue(uid, model, { input } as any);
     await generationHistoryRepository.update(uid, historyId, {
       provider: "fal",
       providerTaskId: request_id,
@@ -9703,7 +9634,7 @@ export const falQueueService: {
         }
       } catch {}
     }
-    const { request_id } = await fal.queue.submit(model, {
+    const { request_id } = await submitToFalQueue(uid, model, {
       input: {
         api_key: body.api_key,
         video_id: videoId,
@@ -9767,7 +9698,7 @@ export const falQueueService: {
 
     console.log("[sora2T2vSubmit] Submitting to FAL:", { model, input });
 
-    const { request_id } = await fal.queue.submit(model, { input } as any);
+    const { request_id } = await submitToFalQueue(uid, model, { input } as any);
     await generationHistoryRepository.update(uid, historyId, {
       provider: "fal",
       providerTaskId: request_id,
@@ -9829,7 +9760,7 @@ export const falQueueService: {
 
     console.log("[sora2ProT2vSubmit] Submitting to FAL:", { model, input });
 
-    const { request_id } = await fal.queue.submit(model, { input } as any);
+    const { request_id } = await submitToFalQueue(uid, model, { input } as any);
     await generationHistoryRepository.update(uid, historyId, {
       provider: "fal",
       providerTaskId: request_id,
@@ -9861,7 +9792,7 @@ export const falQueueService: {
     });
     // Persist input image
     await persistInputImagesFromUrls(uid, historyId, [body.image_url]);
-    const { request_id } = await fal.queue.submit(model, {
+    const { request_id } = await submitToFalQueue(uid, model, {
       input: {
         prompt: body.prompt,
         image_url: body.image_url,
@@ -9898,7 +9829,7 @@ export const falQueueService: {
     });
     // Persist input image
     await persistInputImagesFromUrls(uid, historyId, [body.image_url]);
-    const { request_id } = await fal.queue.submit(model, {
+    const { request_id } = await submitToFalQueue(uid, model, {
       input: {
         prompt: body.prompt,
         image_url: body.image_url,
@@ -9934,7 +9865,7 @@ export const falQueueService: {
     });
     // Persist input image
     await persistInputImagesFromUrls(uid, historyId, [body.image_url]);
-    const { request_id } = await fal.queue.submit(model, {
+    const { request_id } = await submitToFalQueue(uid, model, {
       input: {
         prompt: body.prompt,
         image_url: body.image_url,
@@ -9974,7 +9905,7 @@ export const falQueueService: {
       model,
       isPublic: body.isPublic,
     });
-    const { request_id } = await fal.queue.submit(model, {
+    const { request_id } = await submitToFalQueue(uid, model, {
       input: {
         prompt: body.prompt,
         duration: body.duration ?? 8,
@@ -10007,7 +9938,7 @@ export const falQueueService: {
       model,
       isPublic: body.isPublic,
     });
-    const { request_id } = await fal.queue.submit(model, {
+    const { request_id } = await submitToFalQueue(uid, model, {
       input: {
         prompt: body.prompt,
         duration: body.duration ?? 8,
@@ -10039,7 +9970,7 @@ export const falQueueService: {
       model,
       isPublic: body.isPublic,
     });
-    const { request_id } = await fal.queue.submit(model, {
+    const { request_id } = await submitToFalQueue(uid, model, {
       input: {
         prompt: body.prompt,
         duration: body.duration ?? 8,
@@ -10128,7 +10059,7 @@ export const falQueueService: {
       if (Number.isFinite(s)) input.seed = s;
     }
     if (body.api_key) input.api_key = body.api_key;
-    const { request_id } = await fal.queue.submit(model, { input } as any);
+    const { request_id } = await submitToFalQueue(uid, model, { input } as any);
     await generationHistoryRepository.update(uid, historyId, {
       provider: "fal",
       providerTaskId: request_id,
@@ -10196,7 +10127,7 @@ export const falQueueService: {
       if (Number.isFinite(s)) input.seed = s;
     }
     if (body.api_key) input.api_key = body.api_key;
-    const { request_id } = await fal.queue.submit(model, { input } as any);
+    const { request_id } = await submitToFalQueue(uid, model, { input } as any);
     await generationHistoryRepository.update(uid, historyId, {
       provider: "fal",
       providerTaskId: request_id,
@@ -10243,7 +10174,7 @@ export const falQueueService: {
       const seed = parseInt(String(body.seed), 10);
       if (Number.isFinite(seed)) input.seed = seed;
     }
-    const { request_id } = await fal.queue.submit(model, { input } as any);
+    const { request_id } = await submitToFalQueue(uid, model, { input } as any);
     await generationHistoryRepository.update(uid, historyId, {
       provider: "fal",
       providerTaskId: request_id,
@@ -10292,7 +10223,7 @@ export const falQueueService: {
       const seed = parseInt(String(body.seed), 10);
       if (Number.isFinite(seed)) input.seed = seed;
     }
-    const { request_id } = await fal.queue.submit(model, { input } as any);
+    const { request_id } = await submitToFalQueue(uid, model, { input } as any);
     await generationHistoryRepository.update(uid, historyId, {
       provider: "fal",
       providerTaskId: request_id,
@@ -10355,7 +10286,7 @@ export const falQueueService: {
       const seed = parseInt(String(body.seed), 10);
       if (Number.isFinite(seed)) input.seed = seed;
     }
-    const { request_id } = await fal.queue.submit(model, { input } as any);
+    const { request_id } = await submitToFalQueue(uid, model, { input } as any);
     await generationHistoryRepository.update(uid, historyId, {
       provider: "fal",
       providerTaskId: request_id,
@@ -10412,7 +10343,7 @@ export const falQueueService: {
       const seed = parseInt(String(body.seed), 10);
       if (Number.isFinite(seed)) input.seed = seed;
     }
-    const { request_id } = await fal.queue.submit(model, { input } as any);
+    const { request_id } = await submitToFalQueue(uid, model, { input } as any);
     await generationHistoryRepository.update(uid, historyId, {
       provider: "fal",
       providerTaskId: request_id,
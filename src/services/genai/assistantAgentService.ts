@@ -0,0 +1,338 @@
+import type { Request } from 'express';
+import { randomUUID } from 'crypto';
+import { env } from '../../config/env';
+import { generateGpt5NanoResponse, Gpt5NanoChatMessage } from './gpt5NanoService';
+import { AGENT_TOOLS, AgentTool, AgentToolContext, getAgentTool } from './assistantAgentTools';
+import { pricingQuoteService } from '../pricingQuoteService';
+import {
+  assistantThreadsRepository,
+  AssistantThreadMessage,
+  AssistantToolCall,
+  AssistantToolResult,
+} from '../../repository/assistantThreadsRepository';
+
+/**
+ * Tool loop for assistant "agent" threads.
+ *
+ * GPT-5 Nano on Replicate has no native function calling, so a planner prompt asks it for one JSON
+ * decision per step: a tool call, or none once the assistant should answer. Each call and result is
+ * kept as a structured thread message (toolCall / toolResult) and fed back to the planner and to the
+ * reply model as TOOL_CALL / TOOL_RESULT lines. Priced tools are quoted first: calls above
+ * ASSISTANT_AGENT_CONFIRM_CREDITS stop the loop until the user confirms them, and every thread has a
+ * spending cap (ASSISTANT_AGENT_THREAD_CREDIT_CAP).
+ */
+
+const AGENT_MAX_TOOL_STEPS = 4;
+const TOOL_RESULT_CONTEXT_CHARS = 1500;
+
+export type AgentToolEvent = 'tool_call' | 'tool_result' | 'confirmation_required';
+
+/** A tool call or result message, in the shape appendMessages takes. */
+export interface AgentToolMessage {
+  role: 'assistant';
+  content: string;
+  toolCall?: AssistantToolCall;
+  toolResult?: AssistantToolResult;
+}
+
+export interface AgentToolsParams {
+  req: Request;
+  uid: string;
+  threadId: string;
+  /** Conversation so far, ending with the user's message or the latest tool result. */
+  context: Gpt5NanoChatMessage[];
+  /** Canvas project the user is working in, if any (used by add_to_canvas). */
+  projectId?: string;
+  signal?: AbortSignal;
+  onEvent?: (event: AgentToolEvent, data: unknown) => void;
+}
+
+export interface AgentToolsOutcome {
+  /** Tool call/result messages to persist, in order. */
+  messages: AgentToolMessage[];
+  /** The same steps as context lines for the reply model. */
+  transcript: Gpt5NanoChatMessage[];
+  /** Set when the loop stopped for a call that needs the user's confirmation. */
+  pendingToolCall: AssistantToolCall | null;
+  cancelled: boolean;
+}
+
+function buildPlannerPrompt(projectId?: string): string {
+  const tools = Object.values(AGENT_TOOLS)
+    .map((tool) => `- ${tool.name}: ${tool.description} Arguments: ${tool.parameters}`)
+    .join('\n');
+  return [
+    'You decide whether a creative assistant should call a tool before it answers the user.',
+    '',
+    'Tools:',
+    tools,
+    '',
+    'Answer with one JSON object and nothing else:',
+    '{"tool": "<name>", "arguments": {...}} to call a tool, or {"tool": null} when the assistant should reply now.',
+    '',
+    'Rules:',
+    '- Only call a tool when the user asks for something it does. Small talk and questions need no tool.',
+    '- One tool per answer. Results come back as TOOL_RESULT lines; use them (e.g. image URLs) in later calls.',
+    '- Never repeat a call that already has a TOOL_RESULT, and stop after a failed call.',
+    '- Write full, descriptive prompts for generation tools.',
+    projectId
+      ? `- The user is working in canvas project "${projectId}"; use it for add_to_canvas unless they name another.`
+      : '- add_to_canvas needs a project id from the user.',
+  ].join('\n');
+}
+
+/** Context line for a persisted message; tool calls and results become TOOL_CALL / TOOL_RESULT lines. */
+export function toAgentContextMessage(message: Pick<AssistantThreadMessage, 'role' | 'content' | 'toolCall' | 'toolResult'>): Gpt5NanoChatMessage {
+  if (message.toolCall) {
+    const { name, arguments: args, status, credits } = message.toolCall;
+    const cost = credits ? ` (${credits} credits)` : '';
+    return { role: 'assistant', content: `TOOL_CALL ${name} ${JSON.stringify(args)} [${status}]${cost}` };
+  }
+  if (message.toolResult) {
+    const { name, ok, output, error } = message.toolResult;
+    const body = ok ? JSON.stringify(output ?? {}) : JSON.stringify({ error });
+    return { role: 'user', content: `TOOL_RESULT ${name} ${ok ? 'ok' : 'failed'}: ${body.slice(0, TOOL_RESULT_CONTEXT_CHARS)}` };
+  }
+  return { role: message.role, content: String(message.content || '').trim() };
+}
+
+function parsePlannerDecision(raw: string): { name: string; args: Record<string, any> } | null {
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+  try {
+    const parsed = JSON.parse(raw.slice(start, end + 1));
+    if (!parsed || typeof parsed.tool !== 'string' || !parsed.tool) return null;
+    const args = parsed.arguments && typeof parsed.arguments === 'object' && !Array.isArray(parsed.arguments)
+      ? parsed.arguments
+      : {};
+    return { name: parsed.tool, args };
+  } catch {
+    return null;
+  }
+}
+
+function toolLabel(name: string): string {
+  return name.replace(/_/g, ' ');
+}
+
+export function toolCallMessage(toolCall: AssistantToolCall): AgentToolMessage {
+  const content = toolCall.status === 'pending_confirmation'
+    ? `Waiting for confirmation: ${toolLabel(toolCall.name)} (${toolCall.credits} credits)`
+    : `Called ${toolLabel(toolCall.name)}`;
+  return { role: 'assistant', content, toolCall };
+}
+
+export function toolResultMessage(toolResult: AssistantToolResult): AgentToolMessage {
+  const content = toolResult.ok
+    ? `${toolLabel(toolResult.name)} finished`
+    : `${toolLabel(toolResult.name)} failed: ${toolResult.error}`;
+  return { role: 'assistant', content, toolResult };
+}
+
+/** Reply shown instead of a model answer when the loop stops for a confirmation. */
+export function confirmationReply(toolCall: AssistantToolCall): string {
+  return `Running ${toolLabel(toolCall.name)} will use ${toolCall.credits} credits. Confirm to go ahead, or decline to skip it.`;
+}
+
+function failedResult(toolCall: AssistantToolCall, error: string): { toolCall: AssistantToolCall; toolResult: AssistantToolResult } {
+  return {
+    toolCall: { ...toolCall, status: 'failed', error },
+    toolResult: { toolCallId: toolCall.id, name: toolCall.name, ok: false, output: null, error },
+  };
+}
+
+/**
+ * Run one tool call. Priced calls count their quoted credits against the thread cap first; the
+ * reservation is corrected to the credits actually charged, or given back when the call fails.
+ */
+export async function executeToolCall(
+  ctx: AgentToolContext,
+  tool: AgentTool,
+  toolCall: AssistantToolCall
+): Promise<{ toolCall: AssistantToolCall; toolResult: AssistantToolResult }> {
+  const credits = Number(toolCall.credits) || 0;
+  const cap = env.assistantAgentThreadCreditCap;
+  if (credits > 0) {
+    const { reserved, spent } = await assistantThreadsRepository.reserveAgentSpend(ctx.uid, ctx.threadId, credits, cap);
+    if (!reserved) {
+      return failedResult(toolCall, `This thread has reached its spending cap (${spent} of ${cap} credits used)`);
+    }
+  }
+
+  const release = (amount: number) =>
+    assistantThreadsRepository.releaseAgentSpend(ctx.uid, ctx.threadId, amount).catch((err: any) => {
+      console.warn('[AssistantAgent] Failed to release thread spend', { threadId: ctx.threadId, error: err?.message });
+    });
+
+  try {
+    const output = await tool.run(ctx, toolCall.arguments);
+    const charged = typeof output.creditsSpent === 'number' ? output.creditsSpent : credits;
+    if (credits > 0 && charged !== credits) {
+      await release(credits - charged);
+    }
+    console.log('[AssistantAgent] Tool completed', { uid: ctx.uid, threadId: ctx.threadId, tool: tool.name, credits: charged });
+    return {
+      toolCall: { ...toolCall, status: 'completed', credits: charged || null },
+      toolResult: { toolCallId: toolCall.id, name: tool.name, ok: true, output },
+    };
+  } catch (error: any) {
+    if (credits > 0) {
+      await release(credits);
+    }
+    console.warn('[AssistantAgent] Tool failed', { uid: ctx.uid, threadId: ctx.threadId, tool: tool.name, error: error?.message });
+    return failedResult(toolCall, error?.message || `${tool.name} failed`);
+  }
+}
+
+/**
+ * Quote a priced call. Returns an error message instead when it cannot run at all (invalid
+ * arguments, not enough credits, or more than the thread has left under its cap).
+ */
+async function quoteToolCall(
+  params: AgentToolsParams,
+  tool: AgentTool,
+  args: Record<string, any>
+): Promise<{ credits: number } | { error: string }> {
+  if (!tool.pricedRoute) return { credits: 0 };
+  try {
+    const quote = await pricingQuoteService.quote(params.req, tool.pricedRoute(args));
+    if (!quote.covered) {
+      return { error: `Not enough credits: this needs ${quote.cost} and ${Math.max(0, quote.availableCredits)} are available` };
+    }
+    const cap = env.assistantAgentThreadCreditCap;
+    const thread = await assistantThreadsRepository.getThread(params.uid, params.threadId);
+    const spent = Number(thread?.agentCreditsSpent || 0);
+    if (cap > 0 && spent + quote.cost > cap) {
+      return { error: `This would pass the thread's spending cap (${spent} of ${cap} credits used, this needs ${quote.cost})` };
+    }
+    return { credits: quote.cost };
+  } catch (error: any) {
+    return { error: error?.message || 'Invalid tool arguments' };
+  }
+}
+
+/**
+ * Let the planner call tools until it is ready to reply, a call needs confirmation, or
+ * AGENT_MAX_TOOL_STEPS calls have run. Failed calls are reported back to the planner rather than thrown.
+ */
+export async function runAgentTools(params: AgentToolsParams): Promise<AgentToolsOutcome> {
+  const { uid, threadId, signal, onEvent } = params;
+  const outcome: AgentToolsOutcome = { messages: [], transcript: [], pendingToolCall: null, cancelled: false };
+  const plannerPrompt = buildPlannerPrompt(params.projectId);
+
+  const record = (message: AgentToolMessage, event?: AgentToolEvent, data?: unknown) => {
+    outcome.messages.push(message);
+    outcome.transcript.push(toAgentContextMessage(message));
+    if (event) onEvent?.(event, data);
+  };
+
+  for (let step = 0; step < AGENT_MAX_TOOL_STEPS; step++) {
+    if (signal?.aborted) {
+      outcome.cancelled = true;
+      return outcome;
+    }
+
+    const raw = await generateGpt5NanoResponse('Decide the next step. Answer with the JSON object only.', {
+      systemPrompt: plannerPrompt,
+      messages: [...params.context, ...outcome.transcript],
+      verbosity: 'low',
+      reasoningEffort: 'low',
+      maxCompletionTokens: 1200,
+    });
+    const decision = parsePlannerDecision(raw);
+    if (!decision) return outcome;
+
+    const toolCall: AssistantToolCall = {
+      id: randomUUID(),
+      name: decision.name,
+      arguments: decision.args,
+      status: 'running',
+      credits: null,
+    };
+    const tool = getAgentTool(decision.name);
+    if (!tool) {
+      const failed = failedResult(toolCall, `Unknown tool: ${decision.name}`);
+      record(toolCallMessage(failed.toolCall), 'tool_call', failed.toolCall);
+      record(toolResultMessage(failed.toolResult), 'tool_result', failed.toolResult);
+      continue;
+    }
+
+    const quoted = await quoteToolCall(params, tool, decision.args);
+    if ('error' in quoted) {
+      const failed = failedResult(toolCall, quoted.error);
+      record(toolCallMessage(failed.toolCall), 'tool_call', failed.toolCall);
+      record(toolResultMessage(failed.toolResult), 'tool_result', failed.toolResult);
+      continue;
+    }
+    toolCall.credits = quoted.credits || null;
+
+    if (quoted.credits > env.assistantAgentConfirmCredits) {
+      const pending: AssistantToolCall = { ...toolCall, status: 'pending_confirmation' };
+      record(toolCallMessage(pending), 'confirmation_required', pending);
+      outcome.pendingToolCall = pending;
+      return outcome;
+    }
+
+    if (signal?.aborted) {
+      outcome.cancelled = true;
+      return outcome;
+    }
+    onEvent?.('tool_call', toolCall);
+    const result = await executeToolCall(
+      { req: params.req, uid, threadId, toolCallId: toolCall.id },
+      tool,
+      toolCall
+    );
+    record(toolCallMessage(result.toolCall));
+    record(toolResultMessage(result.toolResult), 'tool_result', result.toolResult);
+  }
+  return outcome;
+}
+
+/**
+ * Run (approve) or decline a call that was waiting for confirmation. The status change is claimed
+ * with a transaction, so confirming twice cannot run it twice; returns null if it is no longer pending.
+ */
+export async function resolvePendingToolCall(
+  ctx: Omit<AgentToolContext, 'toolCallId'>,
+  message: AssistantThreadMessage,
+  approve: boolean
+): Promise<{ toolCall: AssistantToolCall; toolResult: AssistantToolResult } | null> {
+  const pending = message.toolCall!;
+  const claimed = await assistantThreadsRepository.updateToolCall(
+    ctx.uid,
+    ctx.threadId,
+    message.id,
+    { status: approve ? 'running' : 'declined' },
+    'pending_confirmation'
+  );
+  if (!claimed) return null;
+
+  const tool = getAgentTool(pending.name);
+  let result: { toolCall: AssistantToolCall; toolResult: AssistantToolResult };
+  if (!approve) {
+    result = {
+      toolCall: { ...pending, status: 'declined' },
+      toolResult: { toolCallId: pending.id, name: pending.name, ok: false, output: null, error: 'Declined by the user' },
+    };
+  } else if (!tool) {
+    result = failedResult(pending, `Unknown tool: ${pending.name}`);
+  } else {
+    result = await executeToolCall({ ...ctx, toolCallId: pending.id }, tool, { ...pending, status: 'running' });
+  }
+
+  const { id: _id, ...updates } = result.toolCall;
+  await assistantThreadsRepository.updateToolCall(ctx.uid, ctx.threadId, message.id, updates);
+  return result;
+}
+
+export const assistantAgentService = {
+  confirmationReply,
+  executeToolCall,
+  resolvePendingToolCall,
+  runAgentTools,
+  toAgentContextMessage,
+  toolCallMessage,
+  toolResultMessage,
+};
@@ -0,0 +1,248 @@
+import type { Request } from 'express';
+import { ApiError } from '../../utils/errorHandler';
+import { pricingQuoteService, PricingQuoteItem } from '../pricingQuoteService';
+import { enhancePrompt, MediaType } from '../promptEnhancerService';
+import { generationHistoryService } from '../generationHistoryService';
+import { opService } from '../canvas/opService';
+import { elementRepository } from '../../repository/canvas/elementRepository';
+import { projectRepository } from '../../repository/canvas/projectRepository';
+import { authRepository } from '../../repository/auth/authRepository';
+import { publishPersistedCanvasOp } from '../canvas/canvasSessionNotifier';
+import { extractKeyFromUrl } from '../../utils/storage/zataDelete';
+import { computeBoardBounds, drawableElements } from '../canvas/canvasSvgRenderer';
+import { CanvasElement } from '../../types/canvas';
+
+/**
+ * Tools the assistant agent can call. Generation tools run the public generation routes
+ * in-process (pricingQuoteService.invoke), so validation, makeCreditCost pricing, credit holds,
+ * debits and history items are exactly those of a request from the client.
+ */
+
+export interface AgentToolContext {
+  /** The authenticated agent request; priced tools run their route as `req.uid`. */
+  req: Request;
+  uid: string;
+  threadId: string;
+  toolCallId: string;
+}
+
+export interface AgentTool {
+  name: string;
+  /** One-line description and argument shape, shown to the planner model. */
+  description: string;
+  parameters: string;
+  /** Public route a priced tool runs; quoted before the call for confirmation and the thread cap. */
+  pricedRoute?: (args: Record<string, any>) => PricingQuoteItem;
+  run(ctx: AgentToolContext, args: Record<string, any>): Promise<Record<string, any>>;
+}
+
+const AGENT_IMAGE_MODELS = ['google/nano-banana-2', 'imagen-4', 'flux-2-pro', 'seedream-4.5', 'openai/gpt-image-2'];
+const CANVAS_MEDIA_GAP = 80;
+const CANVAS_MEDIA_SIZE = 512;
+
+function requireString(args: Record<string, any>, key: string): string {
+  const value = args[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new ApiError(`${key} (string) is required`, 400);
+  }
+  return value.trim();
+}
+
+function optionalString(args: Record<string, any>, key: string): string | undefined {
+  const value = args[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/** Whether `url` is media in the user's own storage (keys are `users/<username or uid>/...`). */
+async function isOwnMediaUrl(uid: string, url: string): Promise<boolean> {
+  const key = extractKeyFromUrl(url);
+  if (!key || key.split('/').some((segment) => segment === '..' || segment === '.')) return false;
+  const user = await authRepository.getUserById(uid);
+  return [uid, user?.username].some((owner) => !!owner && key.startsWith(`users/${owner}/`));
+}
+
+/** Run a tool's public route and unwrap the formatApiResponse body; error statuses become ApiErrors. */
+async function runPricedTool(tool: AgentTool, ctx: AgentToolContext, args: Record<string, any>) {
+  const response = await pricingQuoteService.invoke(ctx.req, tool.pricedRoute!(args));
+  if (response.statusCode >= 400) {
+    const body = response.body || {};
+    throw new ApiError(body.message || `${tool.name} failed`, response.statusCode, body.data);
+  }
+  return { data: response.body?.data || {}, creditCost: response.creditCost };
+}
+
+const generateImage: AgentTool = {
+  name: 'generate_image',
+  description: 'Generate an image from a text prompt.',
+  parameters: `{ "prompt": string, "model"?: ${AGENT_IMAGE_MODELS.map((m) => `"${m}"`).join(' | ')}, "aspect_ratio"?: "1:1" | "16:9" | "9:16" | "4:3" | "3:4" }`,
+  pricedRoute: (args) => {
+    const model = optionalString(args, 'model');
+    return {
+      route: 'fal/generate',
+      body: {
+        prompt: requireString(args, 'prompt'),
+        model: model && AGENT_IMAGE_MODELS.includes(model) ? model : AGENT_IMAGE_MODELS[0],
+        generationType: 'text-to-image',
+        ...(optionalString(args, 'aspect_ratio') ? { aspect_ratio: optionalString(args, 'aspect_ratio') } : {}),
+      },
+    };
+  },
+  async run(ctx, args) {
+    const { data, creditCost } = await runPricedTool(this, ctx, args);
+    const images = Array.isArray(data.images) ? data.images : [];
+    return {
+      historyId: data.historyId || null,
+      model: data.model || null,
+      images: images.map((img: any) => img?.url || img?.originalUrl).filter(Boolean),
+      creditsSpent: creditCost,
+    };
+  },
+};
+
+const generateVideo: AgentTool = {
+  name: 'generate_video',
+  description: 'Start generating a short video from a text prompt. The video appears in the library when it is ready.',
+  parameters: '{ "prompt": string, "aspect_ratio"?: "16:9" | "9:16", "duration"?: "4s" | "6s" | "8s" }',
+  pricedRoute: (args) => ({
+    route: 'fal/veo3_1/lite/text-to-video/submit',
+    body: {
+      prompt: requireString(args, 'prompt'),
+      aspect_ratio: optionalString(args, 'aspect_ratio') || '16:9',
+      duration: optionalString(args, 'duration') || '8s',
+      resolution: '720p',
+    },
+  }),
+  async run(ctx, args) {
+    const { data, creditCost } = await runPricedTool(this, ctx, args);
+    return {
+      historyId: data.historyId || null,
+      model: data.model || null,
+      status: data.status || 'submitted',
+      creditsSpent: creditCost,
+    };
+  },
+};
+
+const generateMusic: AgentTool = {
+  name: 'generate_music',
+  description: 'Generate a song from a style prompt and lyrics.',
+  parameters: '{ "prompt": string (10-1000 chars, style and mood), "lyrics": string (10-5000 chars) }',
+  pricedRoute: (args) => ({
+    route: 'minimax/music',
+    body: {
+      model: 'music-2.0',
+      prompt: requireString(args, 'prompt'),
+      lyrics: requireString(args, 'lyrics'),
+    },
+  }),
+  async run(ctx, args) {
+    const { data, creditCost } = await runPricedTool(this, ctx, args);
+    return {
+      historyId: data.historyId || null,
+      audioUrl: data.audio?.url || data.audios?.[0]?.url || null,
+      creditsSpent: creditCost,
+    };
+  },
+};
+
+const enhancePromptTool: AgentTool = {
+  name: 'enhance_prompt',
+  description: 'Rewrite a short idea into a detailed generation prompt.',
+  parameters: '{ "prompt": string, "mediaType"?: "image" | "video" | "music" }',
+  async run(_ctx, args) {
+    const mediaType = ['image', 'video', 'music'].includes(args.mediaType) ? (args.mediaType as MediaType) : 'image';
+    const result = await enhancePrompt(requireString(args, 'prompt'), { mediaType });
+    return { enhancedPrompt: result.enhancedPrompt, mediaType: result.mediaType };
+  },
+};
+
+const searchLibrary: AgentTool = {
+  name: 'search_library',
+  description: "Search the user's own generations by prompt text.",
+  parameters: '{ "query"?: string, "mode"?: "image" | "video" | "music", "limit"?: number (max 10) }',
+  async run(ctx, args) {
+    const limit = Math.min(Math.max(Number(args.limit) || 5, 1), 10);
+    const mode = ['image', 'video', 'music'].includes(args.mode) ? args.mode : undefined;
+    const result = await generationHistoryService.listUserGenerations(ctx.uid, {
+      limit,
+      search: optionalString(args, 'query'),
+      mode,
+    });
+    return {
+      items: (result.items || []).slice(0, limit).map((item: any) => ({
+        historyId: item.id,
+        prompt: String(item.prompt || '').slice(0, 200),
+        model: item.model || null,
+        generationType: item.generationType || null,
+        images: (item.images || []).map((img: any) => img?.url).filter(Boolean).slice(0, 4),
+        videos: (item.videos || []).map((vid: any) => vid?.url).filter(Boolean).slice(0, 2),
+        audios: (item.audios || []).map((aud: any) => aud?.url).filter(Boolean).slice(0, 2),
+      })),
+    };
+  },
+};
+
+const addToCanvas: AgentTool = {
+  name: 'add_to_canvas',
+  description: 'Place an image or video from the user\'s generations (a url returned by another tool) on one of their canvas projects, to the right of the existing content.',
+  parameters: '{ "projectId": string, "url": string, "type": "image" | "video", "width"?: number, "height"?: number }',
+  async run(ctx, args) {
+    const projectId = requireString(args, 'projectId');
+    const url = requireString(args, 'url');
+    // Only the user's own media; the canvas renders and exports whatever URL an element points at
+    if (!(await isOwnMediaUrl(ctx.uid, url))) {
+      throw new ApiError('url must be a generated media URL from the user\'s library', 400);
+    }
+    const type = args.type === 'video' ? 'video' : 'image';
+    const width = Math.min(Math.max(Number(args.width) || CANVAS_MEDIA_SIZE, 16), 4096);
+    const height = Math.min(Math.max(Number(args.height) || CANVAS_MEDIA_SIZE, 16), 4096);
+
+    // Check edit access before reading the project's elements
+    const project = await projectRepository.getProject(projectId);
+    if (!project) {
+      throw new ApiError('Project not found', 404);
+    }
+    const role = project.ownerUid === ctx.uid
+      ? 'owner'
+      : project.collaborators.find((collaborator) => collaborator.uid === ctx.uid)?.role;
+    if (role !== 'owner' && role !== 'editor') {
+      throw new ApiError('Only owners and editors can modify projects', 403);
+    }
+
+    const bounds = computeBoardBounds(drawableElements(await elementRepository.listAllElements(projectId)), 0);
+    const elementId = `agent-${ctx.toolCallId}`;
+    const element: Omit<CanvasElement, 'projectId' | 'createdAt' | 'updatedAt'> = {
+      id: elementId,
+      type,
+      x: bounds ? bounds.x + bounds.width + CANVAS_MEDIA_GAP : 0,
+      y: bounds ? bounds.y : 0,
+      width,
+      height,
+      meta: { url },
+    };
+    // The request id makes a retried call a no-op
+    const { opIndex } = await opService.appendOp(projectId, ctx.uid, {
+      type: 'create',
+      elementId,
+      data: { element },
+      requestId: `assistant-agent-${ctx.toolCallId}`,
+    });
+    // Open sessions receive it as a media op, like one sent over the socket
+    publishPersistedCanvasOp(projectId, {
+      id: elementId,
+      type: 'media.create',
+      elementId,
+      data: { media: element },
+      authorId: ctx.uid,
+    });
+    return { projectId, elementId, opIndex };
+  },
+};
+
+export const AGENT_TOOLS: Record<string, AgentTool> = Object.fromEntries(
+  [generateImage, generateVideo, generateMusic, enhancePromptTool, searchLibrary, addToCanvas].map((tool) => [tool.name, tool])
+);
+
+export function getAgentTool(name: string): AgentTool | undefined {
+  return Object.prototype.hasOwnProperty.call(AGENT_TOOLS, name) ? AGENT_TOOLS[name] : undefined;
+}
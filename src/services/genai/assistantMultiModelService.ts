@@ -1,5 +1,6 @@
 import Replicate from "replicate";
 import { env } from "../../config/env";
+import { streamReplicateText, ReplicateStreamOptions, ReplicateStreamResult } from "./replicateStream";
 
 export type ChatModeModelId =
   | "google/gemini-3.1-pro"
@@ -440,7 +441,7 @@ function buildDeepSeekInput(
   };
 }
 
-export async function generateAssistantChatModeResponse(params: {
+export interface AssistantChatModeParams {
   modelId: ChatModeModelId;
   message: string;
   history: AssistantConversationMessage[];
@@ -450,7 +451,9 @@ export async function generateAssistantChatModeResponse(params: {
   claudeInput?: ClaudeChatModeInput;
   gpt52Input?: GPT52ChatModeInput;
   deepseekInput?: DeepSeekChatModeInput;
-}): Promise<string> {
+}
+
+function buildChatModeInput(params: AssistantChatModeParams): Record<string, unknown> {
   const {
     modelId,
     message,
@@ -462,35 +465,48 @@ export async function generateAssistantChatModeResponse(params: {
     gpt52Input,
     deepseekInput,
   } = params;
-  const replicate = getReplicateClient();
   const promptWithHistory = buildPromptWithHistory(message, history);
 
-  let input: Record<string, unknown>;
-
   switch (modelId) {
     case "google/gemini-3.1-pro":
-      input = buildGeminiInput(promptWithHistory, geminiInput, systemPrompt);
-      break;
+      return buildGeminiInput(promptWithHistory, geminiInput, systemPrompt);
     case "google/gemini-2.5-flash":
-      input = buildGemini25FlashInput(
+      return buildGemini25FlashInput(
         promptWithHistory,
         gemini25FlashInput,
         systemPrompt,
       );
-      break;
     case "anthropic/claude-opus-4.6":
-      input = buildClaudeInput(promptWithHistory, claudeInput, systemPrompt);
-      break;
+      return buildClaudeInput(promptWithHistory, claudeInput, systemPrompt);
     case "openai/gpt-5.2":
-      input = buildGPT52Input(message, history, gpt52Input, systemPrompt);
-      break;
+      return buildGPT52Input(message, history, gpt52Input, systemPrompt);
     case "deepseek-ai/deepseek-v3.1":
-      input = buildDeepSeekInput(promptWithHistory, deepseekInput);
-      break;
+      return buildDeepSeekInput(promptWithHistory, deepseekInput);
     default:
       throw new Error(`Unsupported modelId: ${modelId}`);
   }
+}
 
-  const output = await replicate.run(modelId, { input });
+export async function generateAssistantChatModeResponse(
+  params: AssistantChatModeParams,
+): Promise<string> {
+  const replicate = getReplicateClient();
+  const input = buildChatModeInput(params);
+  const output = await replicate.run(params.modelId, { input });
   return normalizeReplicateOutput(output);
 }
+
+/**
+ * Streaming variant of generateAssistantChatModeResponse: deltas go to `onDelta`, and
+ * aborting `signal` cancels the prediction. The resolved text is trimmed like the
+ * non-streaming reply so pricing and persistence see the same content.
+ */
+export async function streamAssistantChatModeResponse(
+  params: AssistantChatModeParams,
+  options: ReplicateStreamOptions = {},
+): Promise<ReplicateStreamResult> {
+  const replicate = getReplicateClient();
+  const input = buildChatModeInput(params);
+  const result = await streamReplicateText(replicate, params.modelId, input, options);
+  return { ...result, text: result.text.trim() };
+}
@@ -1,5 +1,6 @@
 import Replicate from 'replicate';
 import { env } from '../../config/env';
+import { streamReplicateText, ReplicateStreamOptions, ReplicateStreamResult } from './replicateStream';
 
 const GPT5_NANO_MODEL = 'openai/gpt-5-nano';
 
@@ -26,25 +27,7 @@ export interface Gpt5NanoOptions {
     maxCompletionTokens?: number;
 }
 
-/**
- * Calls GPT-5 Nano via Replicate using the messages array format for
- * proper multi-turn conversation support.
- *
- * Input schema reference:
- *   - messages: [{role, content}] — preferred for conversation
- *   - verbosity: "low" | "medium" | "high"  (default "medium")
- *   - reasoning_effort: "minimal" | "low" | "medium" | "high"  (default "minimal")
- *   - max_completion_tokens: integer (optional)
- * Output: array of strings (concatenated = full response)
- */
-export async function generateGpt5NanoResponse(
-    userMessage: string,
-    options: Gpt5NanoOptions = {}
-): Promise<string> {
-    if (!userMessage?.trim()) throw new Error('userMessage must be a non-empty string');
-
-    const replicate = getReplicateClient();
-
+function buildGpt5NanoInput(userMessage: string, options: Gpt5NanoOptions): Record<string, any> {
     // Build the messages array
     const messages: Gpt5NanoChatMessage[] = [];
 
@@ -70,9 +53,32 @@ export async function generateGpt5NanoResponse(
         input.max_completion_tokens = options.maxCompletionTokens;
     }
 
+    return input;
+}
+
+/**
+ * Calls GPT-5 Nano via Replicate using the messages array format for
+ * proper multi-turn conversation support.
+ *
+ * Input schema reference:
+ *   - messages: [{role, content}] — preferred for conversation
+ *   - verbosity: "low" | "medium" | "high"  (default "medium")
+ *   - reasoning_effort: "minimal" | "low" | "medium" | "high"  (default "minimal")
+ *   - max_completion_tokens: integer (optional)
+ * Output: array of strings (concatenated = full response)
+ */
+export async function generateGpt5NanoResponse(
+    userMessage: string,
+    options: Gpt5NanoOptions = {}
+): Promise<string> {
+    if (!userMessage?.trim()) throw new Error('userMessage must be a non-empty string');
+
+    const replicate = getReplicateClient();
+    const input = buildGpt5NanoInput(userMessage, options);
+
     console.log('[Gpt5NanoService] Calling GPT-5 Nano via Replicate', {
         model: GPT5_NANO_MODEL,
-        messageCount: messages.length,
+        messageCount: input.messages.length,
         verbosity: input.verbosity,
         reasoningEffort: input.reasoning_effort,
     });
@@ -88,3 +94,24 @@ export async function generateGpt5NanoResponse(
         throw new Error(`GPT-5 Nano generation failed: ${error?.message || 'Unknown error'}`);
     }
 }
+
+/** Streaming variant of generateGpt5NanoResponse; aborting `streamOptions.signal` cancels the prediction. */
+export async function streamGpt5NanoResponse(
+    userMessage: string,
+    options: Gpt5NanoOptions = {},
+    streamOptions: ReplicateStreamOptions = {}
+): Promise<ReplicateStreamResult> {
+    if (!userMessage?.trim()) throw new Error('userMessage must be a non-empty string');
+
+    const replicate = getReplicateClient();
+    const input = buildGpt5NanoInput(userMessage, options);
+
+    try {
+        const result = await streamReplicateText(replicate, GPT5_NANO_MODEL, input, streamOptions);
+        console.log('[Gpt5NanoService] ✅ Stream finished', { length: result.text.length, cancelled: result.cancelled });
+        return { ...result, text: result.text.trim() };
+    } catch (error: any) {
+        console.error('[Gpt5NanoService] ❌ Stream failed:', error?.message);
+        throw new Error(`GPT-5 Nano generation failed: ${error?.message || 'Unknown error'}`);
+    }
+}
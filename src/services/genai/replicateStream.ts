@@ -0,0 +1,96 @@
+import type Replicate from 'replicate';
+
+export interface ReplicateStreamOptions {
+    /** Aborting (e.g. the client disconnected) cancels the prediction on Replicate. */
+    signal?: AbortSignal;
+    onDelta?: (text: string) => void;
+}
+
+export interface ReplicateStreamResult {
+    text: string;
+    cancelled: boolean;
+}
+
+/**
+ * Runs a Replicate language model with token streaming.
+ *
+ * `replicate.stream()` hides the prediction id, so a disconnected client could only drop
+ * the HTTP stream while the model kept generating (and billing). This creates the
+ * prediction itself, reads its SSE stream and cancels the prediction when `signal` aborts.
+ * A cancelled run resolves with the text received so far instead of throwing.
+ */
+export async function streamReplicateText(
+    replicate: Replicate,
+    model: `${string}/${string}`,
+    input: Record<string, unknown>,
+    options: ReplicateStreamOptions = {}
+): Promise<ReplicateStreamResult> {
+    const { signal, onDelta } = options;
+    if (signal?.aborted) return { text: '', cancelled: true };
+
+    const prediction = await replicate.predictions.create({ model, input, stream: true });
+    const cancelUpstream = () => {
+        replicate.predictions.cancel(prediction.id).catch((err: any) => {
+            console.warn('[ReplicateStream] Failed to cancel prediction', { id: prediction.id, error: err?.message });
+        });
+    };
+    if (signal?.aborted) {
+        cancelUpstream();
+        return { text: '', cancelled: true };
+    }
+    if (!prediction.urls?.stream) {
+        cancelUpstream();
+        throw new Error(`${model} does not support streaming`);
+    }
+
+    signal?.addEventListener('abort', cancelUpstream, { once: true });
+    let text = '';
+    try {
+        const response = await fetch(prediction.urls.stream, {
+            headers: { Accept: 'text/event-stream', 'Cache-Control': 'no-store' },
+            signal,
+        });
+        if (!response.ok || !response.body) {
+            throw new Error(`Stream request failed with status ${response.status}`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        for (;;) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+            let boundary: number;
+            while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+                const block = buffer.slice(0, boundary);
+                buffer = buffer.slice(boundary + 2);
+
+                let event = 'message';
+                const data: string[] = [];
+                for (const line of block.split('\n')) {
+                    if (line.startsWith('event:')) event = line.slice(6).trim();
+                    else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+                }
+                const payload = data.join('\n');
+
+                if (event === 'output') {
+                    text += payload;
+                    if (payload) onDelta?.(payload);
+                } else if (event === 'error') {
+                    throw new Error(payload || 'Prediction failed');
+                } else if (event === 'done') {
+                    await reader.cancel().catch(() => {});
+                    return { text, cancelled: /"reason"\s*:\s*"canceled"/.test(payload) };
+                }
+            }
+        }
+        return { text, cancelled: false };
+    } catch (err: any) {
+        if (signal?.aborted) return { text, cancelled: true };
+        throw err;
+    } finally {
+        signal?.removeEventListener('abort', cancelUpstream);
+    }
+}
@@ -1,6 +1,7 @@
 import Replicate from 'replicate';
 import { env } from '../../config/env';
 import { PROMPT_ENHANCEMENT_SYSTEM_INSTRUCTION, STORYBOARD_SYSTEM_INSTRUCTION } from './geminiTextService';
+import { streamReplicateText, ReplicateStreamOptions, ReplicateStreamResult } from './replicateStream';
 
 // Replicate model identifier for GPT-5
 // According to Replicate docs: https://replicate.com/openai/gpt-5
@@ -203,6 +204,38 @@ To fix:
         throw new Error(`Replicate text generation failed: ${errorMessage}${specificError ? ` (${specificError})` : ''}`);
     }
 }
+
+/**
+ * Streaming variant of generateReplicateTextResponse (same model and input), used by the
+ * companion chat. Aborting `streamOptions.signal` cancels the prediction.
+ */
+export async function streamReplicateTextResponse(
+    prompt: string,
+    options: { systemInstruction?: string } = {},
+    streamOptions: ReplicateStreamOptions = {}
+): Promise<ReplicateStreamResult> {
+    if (!prompt || !prompt.trim()) {
+        throw new Error('Prompt must be a non-empty string');
+    }
+
+    const replicate = getReplicateClient();
+    const input = {
+        prompt: prompt.trim(),
+        system_prompt: options.systemInstruction || STORYBOARD_SYSTEM_INSTRUCTION,
+    };
+
+    console.log('[ReplicateTextService] Starting streamed text generation', {
+        model: REPLICATE_MODEL,
+        promptLength: input.prompt.length,
+    });
+
+    try {
+        return await streamReplicateText(replicate, REPLICATE_MODEL, input, streamOptions);
+    } catch (error: any) {
+        console.error('[ReplicateTextService] ❌ Streamed GPT-5 failed:', error?.message);
+        throw new Error(`Replicate text generation failed: ${error?.message || 'Unknown error'}`);
+    }
+}
 const SCENE_GENERATION_SYSTEM_INSTRUCTION = `You are a professional storyboard artist and story world director.
 
 Input: A full story or script.
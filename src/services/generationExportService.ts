@@ -0,0 +1,427 @@
+import axios from 'axios';
+import archiver from 'archiver';
+import { Readable, Transform } from 'stream';
+import { env } from '../config/env';
+import { JOB_QUEUES, GenerationExportJobPayload } from '../config/jobQueues';
+import { generationExportsRepository } from '../repository/generationExportsRepository';
+import { generationHistoryRepository } from '../repository/generationHistoryRepository';
+import { authRepository } from '../repository/auth/authRepository';
+import { creditsRepository } from '../repository/creditsRepository';
+import type { GenerationExportFilter, GenerationExportRecord } from '../types/generationExport';
+import type { GenerationHistoryItem } from '../types/generate';
+import { backgroundTaskQueue } from '../utils/backgroundTaskQueue';
+import { ApiError } from '../utils/errorHandler';
+import { createZataUploadStream, getZataSignedGetUrl } from '../utils/storage/zataUpload';
+import { deleteFile } from '../utils/storage/zataDelete';
+import { listUserGenerations } from './generationHistoryService';
+import { notify } from './notificationService';
+
+/**
+ * Bulk ZIP export. POST /api/generations/export records the request and queues a
+ * generation-export job; the job collects the selected history items and streams their
+ * original media, then manifest.json + manifest.csv, through the ZIP writer straight into a
+ * Zata multipart upload, so neither the files nor the archive are held in memory.
+ * The owner polls GET /api/generations/export/:exportId for a signed download URL and is
+ * notified once it is ready. The export sweeper deletes archives after the retention period.
+ */
+
+const DOWNLOAD_URL_TTL_SECONDS = 24 * 60 * 60;
+const FILE_DOWNLOAD_TIMEOUT_MS = 2 * 60 * 1000;
+const LIST_PAGE_SIZE = 100;
+const COST_LEDGER_LOOKBACK = 1000;
+
+interface ManifestFile {
+  path: string | null; // null when the download failed
+  type: 'image' | 'video' | 'audio';
+  sourceUrl: string;
+  width?: number;
+  height?: number;
+}
+
+interface ManifestEntry {
+  historyId: string;
+  createdAt: string | null;
+  generationType: string;
+  model: string;
+  prompt: string;
+  seed?: number | string;
+  aspectRatio?: string;
+  resolution?: string;
+  cost?: number;
+  files: ManifestFile[];
+}
+
+function toIso(value: any): string | null {
+  if (!value) return null;
+  if (typeof value === 'string') return value;
+  if (typeof value.toDate === 'function') return value.toDate().toISOString();
+  if (typeof value._seconds === 'number') return new Date(value._seconds * 1000).toISOString();
+  const ms = new Date(value).getTime();
+  return Number.isNaN(ms) ? null : new Date(ms).toISOString();
+}
+
+function extensionOf(source: string, contentType?: string): string {
+  const path = source.split('?')[0];
+  const dot = path.lastIndexOf('.');
+  const ext = dot >= 0 ? path.substring(dot + 1).toLowerCase() : '';
+  if (/^[a-z0-9]{2,5}$/.test(ext)) return ext;
+  const fromType = (contentType || '').split(';')[0].split('/')[1];
+  return fromType && /^[a-z0-9.+-]{2,10}$/.test(fromType) ? fromType.replace('+xml', '') : 'bin';
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const s = String(value);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function buildCsv(entries: ManifestEntry[]): string {
+  const header = ['historyId', 'file', 'type', 'prompt', 'model', 'seed', 'width', 'height', 'aspectRatio', 'cost', 'createdAt'];
+  const rows = entries.flatMap((e) =>
+    e.files.map((f) =>
+      [e.historyId, f.path, f.type, e.prompt, e.model, e.seed, f.width, f.height, e.aspectRatio, e.cost, e.createdAt]
+        .map(csvCell)
+        .join(',')
+    )
+  );
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+/** Credits debited per history item, from the recent ledger (best effort). */
+async function loadCosts(uid: string): Promise<Map<string, number>> {
+  const costs = new Map<string, number>();
+  try {
+    const ledgers = await creditsRepository.listRecentLedgers(uid, COST_LEDGER_LOOKBACK);
+    for (const { id, entry } of ledgers) {
+      if (entry.type !== 'DEBIT' || entry.status === 'REVERSED') continue;
+      const historyId = (entry.meta && entry.meta.historyId) || id;
+      costs.set(String(historyId), (costs.get(String(historyId)) || 0) + Math.abs(Number(entry.amount) || 0));
+    }
+  } catch (e: any) {
+    console.warn('[GenerationExport] Could not load credit ledger for costs (non-fatal):', e?.message || e);
+  }
+  return costs;
+}
+
+/** Resolve the export's selection to at most `maxItems` live history items. */
+async function collectItems(
+  record: GenerationExportRecord,
+  maxItems: number
+): Promise<{ items: GenerationHistoryItem[]; truncated: boolean }> {
+  if (record.historyIds && record.historyIds.length > 0) {
+    const items: GenerationHistoryItem[] = [];
+    for (const historyId of record.historyIds.slice(0, maxItems)) {
+      const item = await generationHistoryRepository.get(record.uid, historyId);
+      if (item && item.isDeleted !== true) items.push(item);
+    }
+    return { items, truncated: record.historyIds.length > maxItems };
+  }
+
+  const items: GenerationHistoryItem[] = [];
+  let nextCursor: string | undefined;
+  for (;;) {
+    const page = await listUserGenerations(record.uid, {
+      ...(record.filter || {}),
+      limit: LIST_PAGE_SIZE,
+      nextCursor,
+    });
+    for (const item of page.items || []) {
+      if (item.isDeleted === true) continue;
+      if (items.length >= maxItems) return { items, truncated: true };
+      items.push(item);
+    }
+    const cursor = page.nextCursor === null || page.nextCursor === undefined ? undefined : String(page.nextCursor);
+    if (!page.hasMore || !cursor || cursor === nextCursor) break;
+    nextCursor = cursor;
+  }
+  return { items, truncated: false };
+}
+
+async function openMedia(source: { url?: string; storagePath?: string }, signal: AbortSignal) {
+  const url = source.storagePath ? await getZataSignedGetUrl(source.storagePath, 600) : source.url!;
+  const res = await axios.get<Readable>(url, {
+    responseType: 'stream',
+    timeout: FILE_DOWNLOAD_TIMEOUT_MS,
+    signal,
+  });
+  const contentLength = Number(res.headers['content-length']);
+  return {
+    stream: res.data,
+    contentType: String(res.headers['content-type'] || ''),
+    contentLength: Number.isFinite(contentLength) && contentLength > 0 ? contentLength : undefined,
+  };
+}
+
+/** Pass-through that counts the bytes flowing into the archive. */
+function byteCounter(): Transform & { bytes: number } {
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      counter.bytes += chunk.length;
+      callback(null, chunk);
+    },
+  }) as Transform & { bytes: number };
+  counter.bytes = 0;
+  return counter;
+}
+
+/**
+ * Append an entry and wait until the archive has consumed it. Rejects when the archive or the
+ * source fails (archiver does not watch its sources for errors).
+ */
+function appendEntry(zip: archiver.Archiver, source: Readable | Buffer, name: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      zip.off('entry', onEntry);
+      zip.off('error', onError);
+      if (source instanceof Readable) source.off('error', onError);
+    };
+    const onEntry = (entry: archiver.EntryData) => {
+      if (entry.name !== name) return;
+      cleanup();
+      resolve();
+    };
+    const onError = (err: Error) => {
+      cleanup();
+      reject(err);
+    };
+    zip.on('entry', onEntry);
+    zip.on('error', onError);
+    if (source instanceof Readable) source.on('error', onError);
+    zip.append(source, { name });
+  });
+}
+
+export async function requestExport(
+  uid: string,
+  input: { historyIds?: string[]; filter?: GenerationExportFilter }
+): Promise<GenerationExportRecord> {
+  const historyIds = input.historyIds ? Array.from(new Set(input.historyIds)) : undefined;
+  if (historyIds && historyIds.length > env.generationExportMaxItems) {
+    throw new ApiError(`At most ${env.generationExportMaxItems} generations can be exported at once`, 400);
+  }
+
+  const recent = await generationExportsRepository.listExports(uid, 5);
+  if (recent.some((e) => e.status === 'queued' || e.status === 'processing')) {
+    throw new ApiError('An export is already in progress', 409);
+  }
+
+  const record = await generationExportsRepository.createExport(uid, {
+    status: 'queued',
+    ...(historyIds && historyIds.length ? { historyIds } : { filter: input.filter || {} }),
+    createdAt: new Date().toISOString(),
+  });
+  await backgroundTaskQueue.enqueue<GenerationExportJobPayload>(
+    JOB_QUEUES.generationExport,
+    { uid, exportId: record.id },
+    { jobId: record.id }
+  );
+  console.log('[GenerationExport] Queued export', { uid, exportId: record.id, historyIds: historyIds?.length });
+  return record;
+}
+
+/** The export record, with a fresh signed download URL once completed. */
+export async function getExport(
+  uid: string,
+  exportId: string
+): Promise<GenerationExportRecord & { downloadUrl?: string; downloadUrlExpiresAt?: string }> {
+  const record = await generationExportsRepository.getExport(uid, exportId);
+  if (!record) {
+    throw new ApiError('Export not found', 404);
+  }
+  if (record.status !== 'completed' || !record.storagePath) return record;
+  // Never outlive the archive itself
+  const ttlSeconds = record.purgeAfter
+    ? Math.max(60, Math.min(DOWNLOAD_URL_TTL_SECONDS, Math.floor((record.purgeAfter - Date.now()) / 1000)))
+    : DOWNLOAD_URL_TTL_SECONDS;
+  const downloadUrl = await getZataSignedGetUrl(record.storagePath, ttlSeconds);
+  return {
+    ...record,
+    downloadUrl,
+    downloadUrlExpiresAt: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+  };
+}
+
+export async function listExports(uid: string): Promise<GenerationExportRecord[]> {
+  return generationExportsRepository.listExports(uid);
+}
+
+/**
+ * generation-export job handler; a completed export is not rebuilt on a repeated run.
+ * The size cap is checked against each file's Content-Length before it is added; files without
+ * one are counted as they stream, so the last file may overshoot the cap.
+ */
+export async function runExportJob(
+  { uid, exportId }: GenerationExportJobPayload,
+  _job?: unknown,
+  signal?: AbortSignal
+): Promise<void> {
+  const record = await generationExportsRepository.getExport(uid, exportId);
+  if (!record || record.status === 'completed' || record.status === 'expired') return;
+
+  await generationExportsRepository.updateExport(uid, exportId, {
+    status: 'processing',
+    startedAt: new Date().toISOString(),
+  });
+
+  let upload: ReturnType<typeof createZataUploadStream> | undefined;
+  let zip: archiver.Archiver | undefined;
+  try {
+    const { items, truncated: itemsTruncated } = await collectItems(record, env.generationExportMaxItems);
+    const costs = await loadCosts(uid);
+
+    const owner = await authRepository.getUserById(uid).catch(() => null);
+    const storagePath = `users/${owner?.username || uid}/exports/${exportId}.zip`;
+    upload = createZataUploadStream(storagePath, 'application/zip');
+    zip = archiver('zip');
+    zip.on('warning', (e) => console.warn('[GenerationExport] Archive warning', { exportId, error: e?.message }));
+    zip.pipe(upload.stream);
+    // A failed upload stops draining the archive; fail the pending entry instead of stalling
+    upload.done.catch((err) => zip?.destroy(err));
+
+    const entries: ManifestEntry[] = [];
+    let sizeBytes = 0;
+    let fileCount = 0;
+    let skippedFiles = 0;
+    let sizeTruncated = false;
+
+    for (const item of items) {
+      if (sizeTruncated) break;
+      const createdAt = toIso(item.createdAt);
+      const folder = `${(createdAt || '').slice(0, 10) || 'undated'}_${item.id}`;
+      const media: Array<{ type: ManifestFile['type']; url: string; storagePath?: string; width?: number; height?: number }> = [
+        ...(item.images || []).map((m) => ({ type: 'image' as const, url: m.originalUrl || m.url, storagePath: m.storagePath, width: m.width, height: m.height })),
+        ...(item.videos || []).map((m) => ({ type: 'video' as const, url: m.url, storagePath: m.storagePath })),
+        ...(item.audios || []).map((m) => ({ type: 'audio' as const, url: m.url, storagePath: m.storagePath })),
+      ].filter((m) => (m.url && !m.url.startsWith('data:')) || m.storagePath);
+
+      const files: ManifestFile[] = [];
+      for (let i = 0; i < media.length; i++) {
+        const m = media[i];
+        const remaining = env.generationExportMaxBytes - sizeBytes;
+        if (remaining <= 0) {
+          sizeTruncated = true;
+          break;
+        }
+        // Per-file deadline on top of the job's own abort
+        const download = new AbortController();
+        const onAbort = () => download.abort(signal?.reason);
+        signal?.addEventListener('abort', onAbort);
+        const timer = setTimeout(() => download.abort(new Error('File download timed out')), FILE_DOWNLOAD_TIMEOUT_MS);
+        let opened: Awaited<ReturnType<typeof openMedia>>;
+        try {
+          opened = await openMedia(m, download.signal);
+        } catch (e: any) {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+          if (signal?.aborted) throw e;
+          skippedFiles += 1;
+          files.push({ path: null, type: m.type, sourceUrl: m.url, width: m.width, height: m.height });
+          console.warn('[GenerationExport] Skipping file that failed to download', { exportId, historyId: item.id, error: e?.message });
+          continue;
+        }
+        try {
+          if (opened.contentLength !== undefined && opened.contentLength > remaining) {
+            opened.stream.destroy();
+            sizeTruncated = true;
+            break;
+          }
+          const path = `${folder}/${m.type}-${i + 1}.${extensionOf(m.storagePath || m.url, opened.contentType)}`;
+          const counter = byteCounter();
+          // A download that fails mid-stream leaves a broken entry behind, so it fails the export
+          // (and the job is retried) instead of being skipped
+          opened.stream.on('error', (e) => counter.destroy(e));
+          await appendEntry(zip, opened.stream.pipe(counter), path);
+          sizeBytes += counter.bytes;
+          fileCount += 1;
+          files.push({ path, type: m.type, sourceUrl: m.url, width: m.width, height: m.height });
+        } finally {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        }
+      }
+
+      const seed = (item as any).seed ?? (item as any).params?.seed;
+      entries.push({
+        historyId: item.id,
+        createdAt,
+        generationType: String(item.generationType),
+        model: item.model,
+        prompt: item.userPrompt || item.prompt,
+        ...(seed !== undefined && seed !== null ? { seed } : {}),
+        aspectRatio: item.aspectRatio || item.aspect_ratio || item.frameSize,
+        resolution: item.resolution,
+        ...(costs.has(item.id) ? { cost: costs.get(item.id) } : {}),
+        files,
+      });
+    }
+
+    const truncated = itemsTruncated || sizeTruncated;
+    const manifest = {
+      exportId,
+      exportedAt: new Date().toISOString(),
+      truncated,
+      itemCount: entries.length,
+      fileCount,
+      items: entries,
+    };
+    await appendEntry(zip, Buffer.from(JSON.stringify(manifest, null, 2)), 'manifest.json');
+    await appendEntry(zip, Buffer.from(buildCsv(entries)), 'manifest.csv');
+    await zip.finalize();
+    await upload.done;
+    const archiveBytes = zip.pointer();
+
+    const completedAt = Date.now();
+    const purgeAfter = completedAt + env.generationExportRetentionDays * 24 * 60 * 60 * 1000;
+    await generationExportsRepository.updateExport(uid, exportId, {
+      status: 'completed',
+      itemCount: entries.length,
+      fileCount,
+      skippedFiles,
+      sizeBytes: archiveBytes,
+      truncated,
+      storagePath,
+      completedAt: new Date(completedAt).toISOString(),
+      expiresAt: new Date(purgeAfter).toISOString(),
+      purgeAfter,
+    });
+    console.log('[GenerationExport] ✅ Export ready', { uid, exportId, items: entries.length, fileCount, sizeBytes: archiveBytes });
+
+    try {
+      await notify(
+        uid,
+        {
+          type: 'export_ready',
+          title: 'Your export is ready',
+          body: `${fileCount} file${fileCount === 1 ? '' : 's'} from ${entries.length} generation${entries.length === 1 ? '' : 's'}`,
+          data: { exportId },
+        },
+        `export_ready-${exportId}`
+      );
+    } catch (e: any) {
+      console.warn('[GenerationExport] Failed to send ready notification (non-fatal):', e?.message || e);
+    }
+  } catch (e: any) {
+    zip?.abort();
+    await upload?.abort();
+    await generationExportsRepository
+      .updateExport(uid, exportId, { status: 'failed', error: String(e?.message || e).slice(0, 500) })
+      .catch(() => {});
+    throw e;
+  }
+}
+
+/** Delete an export archive past its retention; the record stays, marked expired. */
+export async function purgeExpiredExport(record: GenerationExportRecord): Promise<void> {
+  if (record.storagePath && !(await deleteFile(record.storagePath))) {
+    throw new Error(`Failed to delete export archive ${record.storagePath}`);
+  }
+  await generationExportsRepository.markExpired(record.uid, record.id, new Date().toISOString());
+}
+
+export const generationExportService = {
+  requestExport,
+  getExport,
+  listExports,
+  runExportJob,
+  purgeExpiredExport,
+};
@@ -6,7 +6,6 @@ import { creditsRepository } from "../repository/creditsRepository";
 import { imageOptimizationService } from "./imageOptimizationService";
 // CACHING REMOVED: Redis generationCache disabled due to stale list items not reflecting newly started generations promptly.
 // If reintroducing, ensure immediate inclusion of generating items and robust invalidation on create/complete/fail/update.
-import { deleteGenerationFiles, deleteFiles, extractKeyFromUrl } from "../utils/storage/zataDelete";
 import { getCachedItem, setCachedItem, getCachedList, setCachedList, invalidateLibraryCache } from "../utils/generationCache";
 import {
   GenerationStatus,
@@ -21,6 +20,12 @@ import { syncToMirror } from "../utils/mirrorHelper";
 import { ApiError } from "../utils/errorHandler";
 import { normalizeGenerationType } from "../utils/normalizeGenerationType";
 import { mapModeToGenerationTypes, normalizeMode } from "../utils/modeTypeMap";
+import { publishGenerationEvent } from "../utils/generationEvents";
+import { backgroundTaskQueue } from "../utils/backgroundTaskQueue";
+import { JOB_QUEUES, historyJobId } from "../config/jobQueues";
+import { generationTrashRepository } from "../repository/generationTrashRepository";
+import { signupImageCache } from "../repository/signupImageCache";
+import { env } from "../config/env";
 
 export async function startGeneration(
   uid: string,
@@ -52,6 +57,11 @@ export async function startGeneration(
   return { historyId, item };
 }
 
+/**
+ * Shared completion step for every provider path (sync responses, status polls, webhooks):
+ * optimization, stats, storage usage, mirror upsert and the SSE `completed` event.
+ * Safe to call more than once for the same item.
+ */
 export async function markGenerationCompleted(
   uid: string,
   historyId: string,
@@ -71,6 +81,14 @@ export async function markGenerationCompleted(
 
   // Allow idempotent calls: if already completed just reuse existing flags/images
   const wasGenerating = existing.status === GenerationStatus.Generating;
+  // Webhook finalization and a client poll can both complete the same item; only the first
+  // call records stats/storage usage and publishes the completed event
+  let firstCompletion = wasGenerating;
+  try {
+    firstCompletion = await generationHistoryRepository.claimCompletion(uid, historyId);
+  } catch (e) {
+    console.warn('[markGenerationCompleted] Failed to claim completion:', e);
+  }
   const finalIsPublic = updates.isPublic === true ? true : (updates.isPublic === false ? false : (existing.isPublic === true));
 
   // Merge / hydrate fields before optimization
@@ -118,7 +136,7 @@ export async function markGenerationCompleted(
     nsfw: updates.nsfw ?? existing.nsfw,
   };
   // Only adjust stats if transitioning from generating -> completed
-  if (wasGenerating) {
+  if (wasGenerating && firstCompletion) {
     try {
       await generationStatsRepository.updateOnStatusChange(uid, 'generating', 'completed');
     } catch (e) {
@@ -239,6 +257,13 @@ export async function markGenerationCompleted(
         console.warn('[markGenerationCompleted] Failed to invalidate library cache:', e);
       }
     } catch {}
+    // Images the inline pass could not optimize are retried by the image-optimization queue
+    if ((optimizedImages as any[]).some((img: any) => img?.url && !img.avifUrl)) {
+      void backgroundTaskQueue.enqueue(JOB_QUEUES.imageOptimization, { uid, historyId }, {
+        jobId: historyJobId({ uid, historyId }),
+        delayMs: 30 * 1000,
+      });
+    }
   }
 
   // Calculate total storage usage change
@@ -286,7 +311,7 @@ export async function markGenerationCompleted(
       }
     }
 
-    if (totalStorageDelta > 0) {
+    if (totalStorageDelta > 0 && firstCompletion) {
       console.log('[markGenerationCompleted] Updating storage usage', { uid, delta: totalStorageDelta });
       // Fire and forget - don't block completion on this
       creditsRepository.updateStorageUsage(uid, totalStorageDelta).catch(e => {
@@ -317,6 +342,19 @@ export async function markGenerationCompleted(
         // Fallback: enqueue for async processing
         try { await mirrorQueueRepository.enqueueUpsert({ uid, historyId, itemSnapshot: fresh }); } catch (ee) { console.warn('[markGenerationCompleted] enqueueUpsert fallback failed:', ee); }
       }
+      if (firstCompletion) {
+        publishGenerationEvent(uid, {
+          type: 'completed',
+          historyId,
+          status: GenerationStatus.Completed,
+          model: fresh.model,
+          generationType: fresh.generationType,
+          provider: fresh.provider,
+          images: fresh.images,
+          videos: fresh.videos,
+          audios: fresh.audios,
+        });
+      }
     }
   } catch (e) {
     console.warn('[markGenerationCompleted] Failed to enqueue mirror upsert:', e);
@@ -382,6 +420,51 @@ export async function markGenerationFailed(
   }
 }
 
+const PROGRESS_TASK_CACHE_LIMIT = 5000;
+// `${uid}:${provider}:${taskId}` -> history item and last reported state (avoids a lookup per poll)
+const progressTasks = new Map<string, { historyId: string | null; last?: string }>();
+
+/**
+ * Report provider-side progress of a queued job (called from status polls and webhooks).
+ * Only changes are published; unknown tasks are ignored.
+ */
+export async function reportProviderProgress(
+  uid: string,
+  provider: string,
+  taskId: string,
+  progress: { state: string; percent?: number; queuePosition?: number }
+): Promise<void> {
+  if (!uid || !taskId) return;
+  const key = `${uid}:${provider}:${taskId}`;
+  try {
+    let entry = progressTasks.get(key);
+    if (!entry) {
+      const located = await generationHistoryRepository.findByProviderTaskId(uid, provider, taskId);
+      // Not linked yet (providerTaskId is written right after submit): look again on the next report
+      if (!located) return;
+      entry = { historyId: located.item.status === GenerationStatus.Generating ? located.id : null };
+      if (progressTasks.size >= PROGRESS_TASK_CACHE_LIMIT) {
+        progressTasks.delete(progressTasks.keys().next().value as string);
+      }
+      progressTasks.set(key, entry);
+    }
+    if (!entry.historyId) return;
+    const snapshot = JSON.stringify(progress);
+    if (entry.last === snapshot) return;
+    entry.last = snapshot;
+    publishGenerationEvent(uid, {
+      type: 'progress',
+      historyId: entry.historyId,
+      status: GenerationStatus.Generating,
+      provider,
+      providerTaskId: taskId,
+      progress,
+    });
+  } catch (e) {
+    console.warn('[reportProviderProgress] Failed to publish progress:', e);
+  }
+}
+
 export async function getUserGeneration(
   uid: string,
   historyId: string
@@ -675,6 +758,24 @@ export async function listUserGenerations(
   return response;
 }
 
+function trashRetentionMs(): number {
+  return Math.max(0, env.trashRetentionDays) * 24 * 60 * 60 * 1000;
+}
+
+// The signup page serves cached public images without re-reading the generation
+async function dropFromSignupImageCache(historyId: string): Promise<void> {
+  try {
+    await signupImageCache.removeGeneration(historyId);
+  } catch (e: any) {
+    console.warn('[softDelete] Failed to drop signup image cache entries (non-critical):', e?.message || e);
+  }
+}
+
+/**
+ * Move a generation (or a single image of a multi-image generation) to the trash.
+ * Media stays in storage until the trash sweeper purges it after the retention window;
+ * see generationTrashService for restore and purge.
+ */
 export async function softDelete(uid: string, historyId: string, imageId?: string): Promise<{ item: GenerationHistoryItem }> {
   console.log('[softDelete] ========== STARTING DELETION ==========');
   console.log('[softDelete] Request:', { uid, historyId, imageId, timestamp: new Date().toISOString() });
@@ -686,6 +787,11 @@ export async function softDelete(uid: string, historyId: string, imageId?: strin
     throw new ApiError('History item not found', 404);
   }
 
+  if (existing.isDeleted === true) {
+    console.log('[softDelete] Item is already in the trash, nothing to do:', historyId);
+    return { item: existing };
+  }
+
   // === SINGLE IMAGE DELETION LOGIC ===
   if (imageId) {
     const images = Array.isArray(existing.images) ? existing.images : [];
@@ -706,19 +812,20 @@ export async function softDelete(uid: string, historyId: string, imageId?: strin
         // Update generation with removed image
         console.log('[softDelete] Removing single image:', imageId);
 
-        // a. Delete files for this specific image (background)
-        const keysToDelete: string[] = [];
-        if (imageToDelete.url) { const k = extractKeyFromUrl(imageToDelete.url); if (k) keysToDelete.push(k); }
-        if (imageToDelete.avifUrl) { const k = extractKeyFromUrl(imageToDelete.avifUrl); if (k) keysToDelete.push(k); }
-        if ((imageToDelete as any).webpUrl) { const k = extractKeyFromUrl((imageToDelete as any).webpUrl); if (k) keysToDelete.push(k); }
-        if (imageToDelete.thumbnailUrl) { const k = extractKeyFromUrl(imageToDelete.thumbnailUrl); if (k) keysToDelete.push(k); }
-        if (imageToDelete.storagePath) { keysToDelete.push(imageToDelete.storagePath); }
-        
-        if (keysToDelete.length > 0) {
-          console.log('[softDelete] Deleting files for single image:', keysToDelete.length);
-          // Fire and forget deletion
-          deleteFiles(keysToDelete).catch(err => console.error('[softDelete] Failed to delete single image files:', err));
-        }
+        // a. Move the image to the trash; its files are purged by the trash sweeper once
+        // the restore window has passed
+        const deletedAt = Date.now();
+        await generationTrashRepository.addEntry(uid, {
+          historyId,
+          kind: 'image',
+          imageId,
+          image: imageToDelete,
+          imageIndex,
+          deletedAt,
+          purgeAfter: deletedAt + trashRetentionMs(),
+        });
+
+        await dropFromSignupImageCache(historyId);
 
         // b. Update in DB (using update service to handle cache/mirror/normalization)
         // Pass images: newImages. The update service will handle isPublic logic.
@@ -733,136 +840,75 @@ export async function softDelete(uid: string, historyId: string, imageId?: strin
     }
   }
 
-  // === FULL GENERATION DELETION LOGIC (Existing) ===
-  
+  // === FULL GENERATION DELETION LOGIC ===
+
   const generationType = existing.generationType || 'unknown';
-  const hasImages = Array.isArray(existing.images) && existing.images.length > 0;
-  // ... (rest of function)
-  const hasVideos = Array.isArray(existing.videos) && existing.videos.length > 0;
-  const hasAudios = Array.isArray(existing.audios) && existing.audios.length > 0;
-  const imageCount = hasImages ? existing.images!.length : 0;
-  const videoCount = hasVideos ? existing.videos!.length : 0;
-  const audioCount = hasAudios ? existing.audios!.length : 0;
-  
+  const imageCount = Array.isArray(existing.images) ? existing.images.length : 0;
+  const videoCount = Array.isArray(existing.videos) ? existing.videos.length : 0;
+  const audioCount = Array.isArray(existing.audios) ? existing.audios.length : 0;
+
   console.log('[softDelete] Item details:', {
     historyId,
     uid,
     generationType,
     isPublic: existing.isPublic,
-    isDeleted: existing.isDeleted,
-    hasImages,
     imageCount,
-    hasVideos,
     videoCount,
-    hasAudios,
     audioCount,
     status: existing.status,
   });
-  
-  // CRITICAL: Delete from public mirror FIRST and IMMEDIATELY (synchronous)
-  // This ensures the item disappears from ArtStation instantly, before Zata deletion
-  // We use Firebase Admin DB directly for instant deletion
-  console.log('[softDelete] Step 1: INSTANTLY deleting from public mirror repository (Firebase Admin DB)...');
-  let mirrorDeleteSuccess = false;
+
+  // 1. Record the trash entry first, so the sweeper always knows about a trashed item
+  const deletedAtMs = Date.now();
+  const entry = await generationTrashRepository.addEntry(uid, {
+    historyId,
+    kind: 'generation',
+    deletedAt: deletedAtMs,
+    purgeAfter: deletedAtMs + trashRetentionMs(),
+  });
+  const deletedAt = new Date(entry.deletedAt).toISOString();
+  const purgeAfter = new Date(entry.purgeAfter).toISOString();
+
+  // 2. Hide from the public feed right away. The mirror doc itself is kept until the
+  // item is purged so a restore can bring it straight back.
   try {
-    // Delete directly from mirror using Firebase Admin DB - this is INSTANT and SYNCHRONOUS
-    await generationsMirrorRepository.remove(historyId);
-    mirrorDeleteSuccess = true;
-    console.log('[softDelete] ✅ Step 1: Successfully deleted from public mirror repository (INSTANT)');
+    await generationsMirrorRepository.hide(historyId);
+    console.log('[softDelete] ✅ Step 2: Hidden from public mirror repository');
   } catch (e: any) {
-    console.error('[softDelete] ❌ Step 1: Failed to delete from mirror:', {
-      error: e?.message || e,
-      stack: e?.stack,
-    });
-    // Continue even if mirror deletion fails - we'll try again below
+    console.error('[softDelete] ❌ Step 2: Failed to hide from mirror:', e?.message || e);
   }
-  
-  // Also enqueue a remove task as backup to ensure it's removed even if there are pending updates
+  await dropFromSignupImageCache(historyId);
+
+  // 3. Mark as deleted in generationHistory (soft delete, media untouched)
   try {
-    const { mirrorQueueRepository } = await import('../repository/mirrorQueueRepository');
-    await mirrorQueueRepository.enqueueRemove({ historyId });
-    console.log('[softDelete] ✅ Step 1a: Enqueued remove task to mirror queue (backup)');
-  } catch (queueErr: any) {
-    console.warn('[softDelete] ⚠️ Step 1a: Failed to enqueue remove task (non-critical):', queueErr?.message || queueErr);
+    await generationHistoryRepository.update(uid, historyId, { isDeleted: true, deletedAt, purgeAfter } as any);
+    console.log('[softDelete] ✅ Step 3: Moved to trash in generationHistory', { purgeAfter });
+  } catch (e: any) {
+    console.error('[softDelete] ❌ Step 3: Failed to mark as deleted in generationHistory:', e?.message || e);
+    throw new ApiError('Failed to mark item as deleted', 500);
   }
-  
-  // 2. Invalidate cache immediately after mirror deletion
-  console.log('[softDelete] Step 2: Invalidating cache...');
+
+  // 4. Invalidate caches (including the public feed so ArtStation reflects the delete)
   try {
     const { invalidateItem, invalidateUserLists, invalidatePublicFeedCache, invalidateLibraryCache } = await import('../utils/generationCache');
     await invalidateItem(uid, historyId);
     await invalidateUserLists(uid);
     await invalidateLibraryCache(uid);
-    // CRITICAL: Invalidate public feed cache so ArtStation reflects deletion immediately
     await invalidatePublicFeedCache();
-    console.log('[softDelete] ✅ Step 2: Cache invalidated (including public feed)');
+    console.log('[softDelete] ✅ Step 4: Cache invalidated (including public feed)');
   } catch (e: any) {
-    console.warn('[softDelete] ⚠️ Step 2: Cache invalidation failed (non-critical):', e?.message || e);
+    console.warn('[softDelete] ⚠️ Step 4: Cache invalidation failed (non-critical):', e?.message || e);
   }
-  
-  // 3. Mark as deleted in generationHistory (soft delete)
-  // This happens AFTER mirror deletion to ensure ArtStation updates first
-  console.log('[softDelete] Step 3: Marking as deleted in generationHistory...');
-  try {
-    await generationHistoryRepository.update(uid, historyId, { isDeleted: true, isPublic: false } as any);
-    console.log('[softDelete] ✅ Step 3: Successfully marked as deleted in generationHistory');
-  } catch (e: any) {
-    console.error('[softDelete] ❌ Step 3: Failed to mark as deleted in generationHistory:', e?.message || e);
-    throw new ApiError('Failed to mark item as deleted', 500);
-  }
-  
-  // 5. Delete files from Zata storage (in background, non-blocking)
-  console.log('[softDelete] Step 4: Queuing Zata file deletion (background)...');
-  const fileDeletionPromise = (async () => {
-    try {
-      console.log('[softDelete][Zata] Starting file deletion...');
-      const fileCounts = {
-        images: imageCount,
-        videos: videoCount,
-        audios: audioCount,
-        total: imageCount + videoCount + audioCount,
-      };
-      console.log('[softDelete][Zata] Files to delete:', fileCounts);
-      
-      await deleteGenerationFiles(existing);
-      console.log('[softDelete][Zata] ✅ Successfully deleted all files from Zata storage');
-      return { success: true, fileCounts };
-    } catch (e: any) {
-      console.error('[softDelete][Zata] ❌ Failed to delete files from Zata:', {
-        error: e?.message || e,
-        stack: e?.stack,
-      });
-      return { success: false, error: e?.message || 'Unknown error' };
-    }
-  })();
-  
-  // Start file deletion in background (don't await)
-  setImmediate(() => {
-    fileDeletionPromise.catch(err => {
-      console.error('[softDelete][Zata] Unhandled error in background deletion:', err);
-    });
-  });
-  
-  console.log('[softDelete] ========== DELETION COMPLETED ==========');
-  console.log('[softDelete] Summary:', {
-    historyId,
-    uid,
-    generationType,
-    mirrorDeleted: mirrorDeleteSuccess,
-    filesQueuedForDeletion: imageCount + videoCount + audioCount,
-    response: {
+
+  console.log('[softDelete] ========== MOVED TO TRASH ==========', { historyId, uid, purgeAfter });
+
+  return {
+    item: {
+      ...existing,
       isDeleted: true,
-      isPublic: false,
-    },
-  });
-  
-  // Return the item with isDeleted flag
-  return { 
-    item: { 
-      ...existing, 
-      isDeleted: true, 
-      isPublic: false 
-    } 
+      deletedAt,
+      purgeAfter,
+    }
   };
 }
 
@@ -1009,6 +1055,7 @@ export const generationHistoryService = {
   startGeneration,
   markGenerationCompleted,
   markGenerationFailed,
+  reportProviderProgress,
   getUserGeneration,
   listUserGenerations,
   softDelete,
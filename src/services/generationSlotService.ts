@@ -0,0 +1,90 @@
+import { env } from '../config/env';
+import { getRedisClient, isRedisEnabled } from '../config/redisClient';
+
+/**
+ * Per-user cap on generations running at the same time.
+ *
+ * Each running generation holds a slot: a member of a sorted set keyed by uid and scored by its
+ * expiry. Taking a slot drops expired members, counts the rest and adds one atomically (Lua), so
+ * concurrent submits on different instances cannot overshoot the cap. Slots are released when the
+ * generation completes or fails; the expiry (GENERATION_SLOT_TTL_MINUTES) only covers generations
+ * that never report back. Without Redis the same bookkeeping runs in process memory, and a Redis
+ * error fails open so an outage does not block generation.
+ */
+
+export interface SlotAcquireResult {
+  acquired: boolean;
+  /** Slots in use, including the new one when acquired. */
+  inFlight: number;
+}
+
+const ACQUIRE_SCRIPT = `
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+local count = redis.call('ZCARD', KEYS[1])
+if count >= tonumber(ARGV[2]) then return {0, count} end
+redis.call('ZADD', KEYS[1], ARGV[3], ARGV[4])
+redis.call('PEXPIRE', KEYS[1], ARGV[5])
+return {1, count + 1}`;
+
+const memory = new Map<string, Map<string, number>>();
+
+function slotsKey(uid: string): string {
+  return `${env.redisPrefix || ''}gen:inflight:${uid}`;
+}
+
+function ttlMs(): number {
+  return Math.max(1, env.generationSlotTtlMinutes) * 60 * 1000;
+}
+
+function acquireInMemory(uid: string, slotId: string, max: number): SlotAcquireResult {
+  const now = Date.now();
+  const slots = memory.get(uid) || new Map<string, number>();
+  for (const [id, expiresAt] of slots) {
+    if (expiresAt <= now) slots.delete(id);
+  }
+  if (slots.size >= max) {
+    memory.set(uid, slots);
+    return { acquired: false, inFlight: slots.size };
+  }
+  slots.set(slotId, now + ttlMs());
+  memory.set(uid, slots);
+  return { acquired: true, inFlight: slots.size };
+}
+
+async function acquireSlot(uid: string, slotId: string, max: number): Promise<SlotAcquireResult> {
+  const client = isRedisEnabled() ? getRedisClient() : null;
+  if (!client) return acquireInMemory(uid, slotId, max);
+
+  try {
+    const now = Date.now();
+    const [acquired, inFlight] = (await client.eval(ACQUIRE_SCRIPT, {
+      keys: [slotsKey(uid)],
+      arguments: [String(now), String(max), String(now + ttlMs()), slotId, String(ttlMs())],
+    })) as [number, number];
+    return { acquired: Number(acquired) === 1, inFlight: Number(inFlight) };
+  } catch (e: any) {
+    console.error('[GENERATION_SLOTS] Failed to take slot, continuing without one:', e?.message || e);
+    return { acquired: true, inFlight: 0 };
+  }
+}
+
+/** Free a slot; releasing one that is already gone (or expired) is a no-op. */
+async function releaseSlot(uid: string, slotId: string): Promise<void> {
+  const client = isRedisEnabled() ? getRedisClient() : null;
+  if (!client) {
+    const slots = memory.get(uid);
+    slots?.delete(slotId);
+    if (slots && slots.size === 0) memory.delete(uid);
+    return;
+  }
+  try {
+    await client.zRem(slotsKey(uid), slotId);
+  } catch (e: any) {
+    console.warn('[GENERATION_SLOTS] Failed to release slot (expires on its own):', e?.message || e);
+  }
+}
+
+export const generationSlotService = {
+  acquireSlot,
+  releaseSlot,
+};
@@ -0,0 +1,168 @@
+import { generationHistoryRepository } from '../repository/generationHistoryRepository';
+import { generationsMirrorRepository } from '../repository/generationsMirrorRepository';
+import { generationTrashRepository, trashEntryId } from '../repository/generationTrashRepository';
+import { GenerationHistoryItem, ImageMedia, TrashEntry, TrashEntryKind } from '../types/generate';
+import { deleteGenerationFiles } from '../utils/storage/zataDelete';
+import { syncToMirror } from '../utils/mirrorHelper';
+import { ApiError } from '../utils/errorHandler';
+import { update as updateHistory } from './generationHistoryService';
+
+/**
+ * Trash bin for deleted generations. softDelete (generationHistoryService) moves items
+ * here; this module lists, restores and purges them. Purging deletes the Zata objects
+ * and the public mirror doc, and is done by the trash sweeper after the retention window
+ * or immediately on "empty trash".
+ */
+
+export interface TrashListItem {
+  id: string;
+  kind: TrashEntryKind;
+  historyId: string;
+  imageId?: string;
+  deletedAt: string;
+  purgeAfter: string;
+  image?: ImageMedia;
+  item: GenerationHistoryItem | null;
+}
+
+async function invalidateCaches(uid: string, historyId: string): Promise<void> {
+  try {
+    const { invalidateItem, invalidateUserLists, invalidatePublicFeedCache, invalidateLibraryCache } = await import('../utils/generationCache');
+    await invalidateItem(uid, historyId);
+    await invalidateUserLists(uid);
+    await invalidateLibraryCache(uid);
+    await invalidatePublicFeedCache();
+  } catch (e: any) {
+    console.warn('[Trash] Cache invalidation failed (non-critical):', e?.message || e);
+  }
+}
+
+export async function listTrash(
+  uid: string,
+  params: { limit?: number; cursor?: string }
+): Promise<{ items: TrashListItem[]; nextCursor: string | null }> {
+  const { entries, nextCursor } = await generationTrashRepository.listEntries(uid, params);
+  const historyIds = Array.from(new Set(entries.map((e) => e.historyId)));
+  const histories = await Promise.all(historyIds.map((id) => generationHistoryRepository.get(uid, id)));
+  const byId = new Map(historyIds.map((id, i) => [id, histories[i]]));
+
+  const items = entries.map((entry) => ({
+    id: entry.id,
+    kind: entry.kind,
+    historyId: entry.historyId,
+    ...(entry.imageId ? { imageId: entry.imageId } : {}),
+    deletedAt: new Date(entry.deletedAt).toISOString(),
+    purgeAfter: new Date(entry.purgeAfter).toISOString(),
+    ...(entry.image ? { image: entry.image } : {}),
+    item: byId.get(entry.historyId) || null,
+  }));
+  return { items, nextCursor };
+}
+
+/**
+ * Restore a trashed generation, or with `imageId` a single trashed image (re-inserted at
+ * its original position).
+ */
+export async function restore(uid: string, historyId: string, imageId?: string): Promise<{ item: GenerationHistoryItem }> {
+  const entry = await generationTrashRepository.getEntry(uid, trashEntryId(historyId, imageId));
+  if (!entry) {
+    throw new ApiError(imageId ? 'Image is not in the trash' : 'Generation is not in the trash', 404);
+  }
+  if (entry.purgeAfter <= Date.now()) {
+    throw new ApiError('The restore window for this item has expired', 410);
+  }
+
+  const existing = await generationHistoryRepository.get(uid, historyId);
+  if (!existing || existing.purgedAt) {
+    await generationTrashRepository.removeEntry(uid, entry.id);
+    throw new ApiError('History item not found', 404);
+  }
+
+  if (entry.kind === 'image') {
+    const images = Array.isArray(existing.images) ? [...existing.images] : [];
+    const image = entry.image;
+    if (image && !images.some((img) => img.id === image.id || img.url === image.url)) {
+      images.splice(Math.min(entry.imageIndex ?? images.length, images.length), 0, image);
+    }
+    if (existing.isDeleted === true) {
+      // The whole generation is in the trash too: put the image back without the
+      // service update, which would drop the (hidden) mirror doc for a deleted item
+      await generationHistoryRepository.update(uid, historyId, { images });
+      await generationTrashRepository.removeEntry(uid, entry.id);
+      await invalidateCaches(uid, historyId);
+      return { item: { ...existing, images } };
+    }
+    const result = await updateHistory(uid, historyId, { images });
+    await generationTrashRepository.removeEntry(uid, entry.id);
+    console.log('[Trash] ✅ Restored image', { uid, historyId, imageId });
+    return result;
+  }
+
+  await generationHistoryRepository.update(uid, historyId, { isDeleted: false, deletedAt: null, purgeAfter: null } as any);
+  await generationTrashRepository.removeEntry(uid, entry.id);
+  // Re-publishes the mirror doc for public items (removes it otherwise)
+  await syncToMirror(uid, historyId);
+  await invalidateCaches(uid, historyId);
+  console.log('[Trash] ✅ Restored generation', { uid, historyId });
+
+  const { deletedAt: _deletedAt, purgeAfter: _purgeAfter, ...rest } = existing;
+  return { item: { ...rest, isDeleted: false } };
+}
+
+/**
+ * Permanently delete the media behind a trash entry and drop the entry. Entries whose
+ * item was restored in the meantime are dropped without touching storage.
+ */
+export async function purgeEntry(entry: TrashEntry): Promise<void> {
+  const existing = await generationHistoryRepository.get(entry.uid, entry.historyId);
+
+  if (entry.kind === 'image') {
+    const restored = !!existing && (existing.images || []).some((img) => img.id === entry.image?.id || img.url === entry.image?.url);
+    if (entry.image && !restored) {
+      await deleteGenerationFiles({ id: entry.historyId, images: [entry.image] });
+    }
+  } else if (existing && existing.isDeleted === true && !existing.purgedAt) {
+    await deleteGenerationFiles(existing);
+    await generationsMirrorRepository.remove(entry.historyId);
+    await generationHistoryRepository.update(entry.uid, entry.historyId, {
+      purgedAt: new Date().toISOString(),
+      purgeAfter: null,
+    } as any);
+  }
+
+  await generationTrashRepository.removeEntry(entry.uid, entry.id);
+  console.log('[Trash] Purged trash entry', { uid: entry.uid, historyId: entry.historyId, kind: entry.kind, imageId: entry.imageId });
+}
+
+const EMPTY_BATCH_LIMIT = 100;
+
+/** Purge everything in the user's trash now, regardless of the retention window. */
+export async function emptyTrash(uid: string): Promise<{ purged: number; failed: number }> {
+  let purged = 0;
+  const failed = new Set<string>();
+  for (;;) {
+    const { entries } = await generationTrashRepository.listEntries(uid, { limit: EMPTY_BATCH_LIMIT });
+    let batchPurged = 0;
+    for (const entry of entries) {
+      if (failed.has(entry.id)) continue;
+      try {
+        await purgeEntry(entry);
+        batchPurged += 1;
+      } catch (e: any) {
+        failed.add(entry.id);
+        console.error('[Trash] Failed to purge entry (left for the sweeper):', { uid, entryId: entry.id, error: e?.message || e });
+      }
+    }
+    purged += batchPurged;
+    // Purged entries drop out of the next page; stop once a page makes no progress
+    if (batchPurged === 0 || entries.length < EMPTY_BATCH_LIMIT) break;
+  }
+  return { purged, failed: failed.size };
+}
+
+export const generationTrashService = {
+  listTrash,
+  restore,
+  purgeEntry,
+  emptyTrash,
+};
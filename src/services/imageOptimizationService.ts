@@ -9,6 +9,7 @@ import { uploadBufferToZata, getZataSignedGetUrl } from '../utils/storage/zataUp
 import { adminDb } from '../config/firebaseAdmin';
 import { logger } from '../utils/logger';
 import { generationsMirrorRepository } from '../repository/generationsMirrorRepository';
+import { generationHistoryRepository } from '../repository/generationHistoryRepository';
 import { env } from '../config/env';
 
 export interface OptimizedImageResult {
@@ -430,8 +431,61 @@ export async function optimizeExistingImage(
   }
 }
 
+/**
+ * image-optimization job: optimize the images of a history item that have no AVIF variant yet
+ * (e.g. the inline pass in markGenerationCompleted failed) and merge the variants into history.
+ * Throws when some images are still unoptimized so the queue retries them.
+ */
+export async function optimizeHistoryImages(uid: string, historyId: string): Promise<void> {
+  const item = await generationHistoryRepository.get(uid, historyId);
+  if (!item || (item as any).isDeleted === true || !Array.isArray(item.images)) return;
+
+  // optimizeImages takes one base path per batch; images of an item normally share it
+  const batches = new Map<string, Array<{ url: string; id: string }>>();
+  for (const raw of item.images as any[]) {
+    const image = typeof raw === 'string' ? { url: raw } : raw;
+    if (!image?.url || image.avifUrl) continue;
+    const { basePath, filename } =
+      typeof image.storagePath === 'string' && image.storagePath.includes('/')
+        ? {
+          basePath: image.storagePath.substring(0, image.storagePath.lastIndexOf('/')),
+          filename: image.storagePath.substring(image.storagePath.lastIndexOf('/') + 1).replace(/\.[^.]+$/, ''),
+        }
+        : extractStoragePathFromUrl(image.url);
+    if (!basePath || !filename) continue;
+    batches.set(basePath, [...(batches.get(basePath) || []), { url: image.url, id: filename }]);
+  }
+  if (batches.size === 0) return;
+
+  let requested = 0;
+  const patches: Array<{ url: string; fields: Record<string, any> }> = [];
+  for (const [basePath, images] of batches) {
+    requested += images.length;
+    const results = await optimizeImages(images, basePath);
+    for (const result of results) {
+      patches.push({
+        url: result.originalUrl,
+        fields: {
+          avifUrl: result.avifUrl,
+          thumbnailUrl: result.thumbnailUrl,
+          blurDataUrl: result.blurDataUrl,
+          optimized: true,
+          optimizedAt: Date.now(),
+        },
+      });
+    }
+  }
+  if (patches.length > 0) {
+    await generationHistoryRepository.patchMedia(uid, historyId, { images: patches });
+  }
+  if (patches.length < requested) {
+    throw new Error(`${requested - patches.length} image(s) could not be optimized`);
+  }
+}
+
 export const imageOptimizationService = {
   optimizeImage,
   optimizeImages,
   optimizeExistingImage,
+  optimizeHistoryImages,
 };
\ No newline at end of file
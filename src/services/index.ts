@@ -5,6 +5,9 @@
 
 // Auth Services
 export * from './auth/authService';
+export * from './auth/apiKeyService';
+export * from './auth/accountExportService';
+export * from './auth/accountDeletionService';
 
 // Generation Services
 export * from './replicateService';
@@ -13,17 +16,25 @@ export * from './falService';
 export * from './minimaxService';
 export * from './runwayService';
 export * from './generationHistoryService';
+export * from './generationTrashService';
+export * from './generationExportService';
 export * from './generationFilterService';
+export * from './providerWebhookService';
 
 // Canvas Services
 export * from './canvas/generateService';
 export * from './canvas/cursorAgentService';
 export * from './canvas/opService';
 export * from './canvas/projectService';
+export * from './canvas/versionService';
+export * from './canvas/inviteLinkService';
+export * from './canvas/canvasExportService';
 
 // Credit & User Services
 export * from './creditsService';
 export * from './redeemCodeService';
+export * from './pricingQuoteService';
+export * from './modelCatalogService';
 
 // AI Services
 export * from './promptEnhancerService';
@@ -39,4 +50,8 @@ export { generateReplicateTextResponse } from './genai/replicateTextService';
 export * from './aestheticScoreService';
 export * from './imageOptimizationService';
 export * from './videoThumbnailService';
+export * from './backgroundJobsService';
+export * from './notificationService';
+export * from './shareLinkService';
+export * from './libraryCollectionService';
 export * from './stickerExportService';
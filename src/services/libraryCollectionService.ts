@@ -0,0 +1,345 @@
+import { libraryCollectionsRepository } from '../repository/libraryCollectionsRepository';
+import { generationHistoryRepository } from '../repository/generationHistoryRepository';
+import { publicGenerationsRepository } from '../repository/publicGenerationsRepository';
+import { engagementRepository } from '../repository/engagementRepository';
+import type { CollectionItem, CollectionItemRef, LibraryCollection } from '../types/collections';
+import type { GenerationHistoryItem } from '../types/generate';
+import { ApiError } from '../utils/errorHandler';
+import {
+  getCachedCollections,
+  setCachedCollections,
+  getCachedLibrary,
+  setCachedLibrary,
+  invalidateCollectionCache,
+} from '../utils/generationCache';
+
+/**
+ * Library collections. Items are references: history items (generations, uploads) are
+ * resolved against the owner's generationHistory and bookmarks against the public mirror
+ * at read time, so trashed or unpublished items simply drop out of a collection.
+ */
+
+export const MAX_COLLECTIONS_PER_USER = 200;
+export const MAX_COLLECTION_ITEMS_PER_REQUEST = 200;
+const MAX_COLLECTION_ITEMS = 5000;
+const RESOLVE_CONCURRENCY = 10;
+
+export interface CollectionLibraryItem {
+  id: string;
+  collectionItemId: string;
+  source: CollectionItemRef['kind'];
+  historyId: string;
+  url: string;
+  type: 'image' | 'video' | 'audio';
+  thumbnail?: string;
+  prompt?: string;
+  model?: string;
+  createdAt?: string;
+  storagePath?: string;
+  mediaId?: string;
+  aspectRatio?: string;
+  aestheticScore?: number;
+}
+
+async function getOwnedCollection(uid: string, collectionId: string): Promise<LibraryCollection> {
+  const collection = await libraryCollectionsRepository.getCollection(uid, collectionId);
+  if (!collection) {
+    throw new ApiError('Collection not found', 404);
+  }
+  return collection;
+}
+
+async function mapWithConcurrency<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(RESOLVE_CONCURRENCY, items.length) }, async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+/** Resolve a collection item to its generation, or null when it is gone/not visible. */
+async function resolveItem(uid: string, item: CollectionItemRef): Promise<GenerationHistoryItem | null> {
+  if (item.kind === 'bookmark') {
+    // Trashed generations are not served as public
+    return publicGenerationsRepository.getPublicById(item.refId);
+  }
+  const generation = await generationHistoryRepository.get(uid, item.refId);
+  return generation && generation.isDeleted !== true ? generation : null;
+}
+
+function flattenMedia(item: CollectionItem, generation: GenerationHistoryItem): CollectionLibraryItem[] {
+  const base = {
+    collectionItemId: item.id,
+    source: item.kind,
+    historyId: generation.id,
+    prompt: generation.prompt,
+    model: generation.model,
+    createdAt: generation.createdAt ? String(generation.createdAt) : undefined,
+    aspectRatio: generation.aspect_ratio || generation.aspectRatio,
+  };
+  const out: CollectionLibraryItem[] = [];
+  const images = [
+    ...(generation.images || []),
+    // Uploads keep their files in inputImages/inputVideos
+    ...(item.kind === 'upload' ? generation.inputImages || [] : []),
+  ];
+  images.forEach((img, i) => {
+    const url = img.url || img.originalUrl;
+    if (!url) return;
+    out.push({
+      ...base,
+      id: `${generation.id}-${img.id || `image-${i}`}`,
+      url,
+      type: 'image',
+      thumbnail: img.thumbnailUrl || img.avifUrl || img.url,
+      storagePath: img.storagePath,
+      mediaId: img.id,
+      aestheticScore: img.aestheticScore || generation.aestheticScore,
+    });
+  });
+  const videos = [...(generation.videos || []), ...(item.kind === 'upload' ? generation.inputVideos || [] : [])];
+  videos.forEach((vid, i) => {
+    const url = vid.url || vid.originalUrl;
+    if (!url) return;
+    out.push({
+      ...base,
+      id: `${generation.id}-${vid.id || `video-${i}`}`,
+      url,
+      type: 'video',
+      thumbnail: vid.thumbnailUrl || vid.thumbUrl || vid.posterUrl,
+      storagePath: vid.storagePath,
+      mediaId: vid.id,
+      aestheticScore: vid.aestheticScore || generation.aestheticScore,
+    });
+  });
+  (generation.audios || []).forEach((aud, i) => {
+    if (!aud.url) return;
+    out.push({
+      ...base,
+      id: `${generation.id}-${aud.id || `audio-${i}`}`,
+      url: aud.url,
+      type: 'audio',
+      storagePath: aud.storagePath,
+      mediaId: aud.id,
+    });
+  });
+  return out;
+}
+
+export async function listCollections(uid: string): Promise<LibraryCollection[]> {
+  const cached = await getCachedCollections(uid);
+  if (cached) return cached as LibraryCollection[];
+  const collections = await libraryCollectionsRepository.listCollections(uid);
+  await setCachedCollections(uid, collections);
+  return collections;
+}
+
+export async function getCollection(uid: string, collectionId: string): Promise<LibraryCollection> {
+  return getOwnedCollection(uid, collectionId);
+}
+
+export async function createCollection(
+  uid: string,
+  input: { name: string; description?: string; coverUrl?: string }
+): Promise<LibraryCollection> {
+  const existing = await libraryCollectionsRepository.listCollections(uid);
+  if (existing.length >= MAX_COLLECTIONS_PER_USER) {
+    throw new ApiError(`You can have at most ${MAX_COLLECTIONS_PER_USER} collections`, 400);
+  }
+  const position = existing.reduce((max, c) => Math.max(max, c.position), -1) + 1;
+  const collection = await libraryCollectionsRepository.createCollection(uid, {
+    name: input.name.trim(),
+    description: input.description?.trim() || undefined,
+    coverUrl: input.coverUrl,
+    position,
+  });
+  await invalidateCollectionCache(uid);
+  return collection;
+}
+
+export async function updateCollection(
+  uid: string,
+  collectionId: string,
+  updates: { name?: string; description?: string | null; coverUrl?: string | null }
+): Promise<LibraryCollection> {
+  const collection = await getOwnedCollection(uid, collectionId);
+  const changes = {
+    name: updates.name?.trim(),
+    description: updates.description === null ? null : updates.description?.trim(),
+    coverUrl: updates.coverUrl,
+  };
+  await libraryCollectionsRepository.updateCollection(uid, collectionId, changes);
+  await invalidateCollectionCache(uid, collectionId);
+
+  const next: any = { ...collection, updatedAt: new Date().toISOString() };
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) delete next[key];
+    else if (value !== undefined) next[key] = value;
+  }
+  return next as LibraryCollection;
+}
+
+export async function deleteCollection(uid: string, collectionId: string): Promise<void> {
+  await getOwnedCollection(uid, collectionId);
+  await libraryCollectionsRepository.deleteCollection(uid, collectionId);
+  await invalidateCollectionCache(uid, collectionId);
+}
+
+/** `orderedIds` must list every collection of the user exactly once. */
+export async function reorderCollections(uid: string, orderedIds: string[]): Promise<LibraryCollection[]> {
+  const collections = await libraryCollectionsRepository.listCollections(uid);
+  const known = new Set(collections.map((c) => c.id));
+  if (new Set(orderedIds).size !== orderedIds.length || orderedIds.length !== known.size || !orderedIds.every((id) => known.has(id))) {
+    throw new ApiError('ids must list each of your collections exactly once', 400);
+  }
+  await libraryCollectionsRepository.setPositions(uid, orderedIds);
+  await invalidateCollectionCache(uid);
+  const byId = new Map(collections.map((c) => [c.id, c]));
+  return orderedIds.map((id, position) => ({ ...byId.get(id)!, position }));
+}
+
+export async function addItems(
+  uid: string,
+  collectionId: string,
+  refs: CollectionItemRef[]
+): Promise<{ added: number; rejected: CollectionItemRef[]; collection: LibraryCollection }> {
+  const collection = await getOwnedCollection(uid, collectionId);
+  const unique = Array.from(new Map(refs.map((r) => [libraryCollectionsRepository.collectionItemId(r), r])).values());
+  if (collection.itemCount + unique.length > MAX_COLLECTION_ITEMS) {
+    throw new ApiError(`A collection can hold at most ${MAX_COLLECTION_ITEMS} items`, 400);
+  }
+
+  // Bookmarks must be bookmarked by this user; history refs must be the user's own items
+  const bookmarkIds = unique.filter((r) => r.kind === 'bookmark').map((r) => r.refId);
+  const bookmarked = new Set(
+    bookmarkIds.length
+      ? (await engagementRepository.getBulkStatus(uid, bookmarkIds)).filter((s) => s.bookmarkedByCurrentUser).map((s) => s.id)
+      : []
+  );
+  const resolved = await mapWithConcurrency(unique, async (ref) => {
+    if (ref.kind === 'bookmark' && !bookmarked.has(ref.refId)) return null;
+    return resolveItem(uid, ref);
+  });
+  const accepted = unique.filter((_, i) => resolved[i]);
+  const rejected = unique.filter((_, i) => !resolved[i]);
+
+  const added = accepted.length ? await libraryCollectionsRepository.addItems(uid, collectionId, accepted) : 0;
+
+  let coverUrl = collection.coverUrl;
+  if (!coverUrl && added > 0) {
+    const first = resolved.find(Boolean)!;
+    const media = flattenMedia({ id: '', addedAt: '', ...accepted[0] }, first).find((m) => m.type !== 'audio');
+    if (media) {
+      coverUrl = media.thumbnail || media.url;
+      await libraryCollectionsRepository.updateCollection(uid, collectionId, { coverUrl });
+    }
+  }
+
+  await invalidateCollectionCache(uid, collectionId);
+  return {
+    added,
+    rejected,
+    collection: { ...collection, itemCount: collection.itemCount + added, ...(coverUrl ? { coverUrl } : {}) },
+  };
+}
+
+export async function removeItems(
+  uid: string,
+  collectionId: string,
+  refs: CollectionItemRef[]
+): Promise<{ removed: number }> {
+  await getOwnedCollection(uid, collectionId);
+  const removed = await libraryCollectionsRepository.removeItems(uid, collectionId, refs);
+  await invalidateCollectionCache(uid, collectionId);
+  return { removed };
+}
+
+/** One page of a collection in the GET /api/library item format. */
+export async function listCollectionLibrary(
+  uid: string,
+  collectionId: string,
+  params: { limit?: number; cursor?: string; mode?: string }
+): Promise<{ collection: LibraryCollection; items: CollectionLibraryItem[]; nextCursor: string | null; hasMore: boolean }> {
+  const limit = Math.max(1, Math.min(Number(params.limit) || 50, 200));
+  const cacheParams = { collectionId, limit, cursor: params.cursor, mode: params.mode || 'all' };
+  const cached = await getCachedLibrary(uid, cacheParams);
+  if (cached) return cached;
+
+  const collection = await getOwnedCollection(uid, collectionId);
+  const page = await libraryCollectionsRepository.listItems(uid, collectionId, { limit, cursor: params.cursor });
+  const generations = await mapWithConcurrency(page.items, (item) => resolveItem(uid, item));
+
+  let items = page.items.flatMap((item, i) => (generations[i] ? flattenMedia(item, generations[i]!) : []));
+  if (params.mode === 'image' || params.mode === 'video') {
+    items = items.filter((m) => m.type === params.mode);
+  } else if (params.mode === 'music') {
+    items = items.filter((m) => m.type === 'audio');
+  }
+
+  const result = { collection, items, nextCursor: page.nextCursor, hasMore: Boolean(page.nextCursor) };
+  await setCachedLibrary(uid, cacheParams, result);
+  return result;
+}
+
+/** Resolve the first `limit` items of a collection (newest first). */
+export async function resolveCollectionItems(
+  uid: string,
+  collectionId: string,
+  limit = MAX_COLLECTION_ITEMS
+): Promise<Array<{ item: CollectionItem; generation: GenerationHistoryItem; media: CollectionLibraryItem[] }>> {
+  const out: Array<{ item: CollectionItem; generation: GenerationHistoryItem; media: CollectionLibraryItem[] }> = [];
+  let cursor: string | undefined;
+  while (out.length < limit) {
+    const page = await libraryCollectionsRepository.listItems(uid, collectionId, {
+      limit: Math.min(500, limit - out.length),
+      cursor,
+    });
+    const generations = await mapWithConcurrency(page.items, (item) => resolveItem(uid, item));
+    page.items.forEach((item, i) => {
+      const generation = generations[i];
+      if (generation) out.push({ item, generation, media: flattenMedia(item, generation) });
+    });
+    if (!page.nextCursor) break;
+    cursor = page.nextCursor;
+  }
+  return out;
+}
+
+/** JSON manifest of every resolvable item and its media URLs. */
+export async function exportCollection(uid: string, collectionId: string) {
+  const collection = await getOwnedCollection(uid, collectionId);
+  const resolved = await resolveCollectionItems(uid, collectionId);
+  return {
+    collection,
+    exportedAt: new Date().toISOString(),
+    items: resolved.map(({ item, generation, media }) => ({
+      kind: item.kind,
+      refId: item.refId,
+      addedAt: item.addedAt,
+      prompt: generation.prompt,
+      model: generation.model,
+      generationType: generation.generationType,
+      createdAt: generation.createdAt,
+      media: media.map((m) => ({ type: m.type, url: m.url, storagePath: m.storagePath, mediaId: m.mediaId })),
+    })),
+  };
+}
+
+export const libraryCollectionService = {
+  listCollections,
+  getCollection,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  reorderCollections,
+  addItems,
+  removeItems,
+  listCollectionLibrary,
+  resolveCollectionItems,
+  exportCollection,
+};
@@ -20,9 +20,10 @@ import { uploadFromUrlToZata, uploadBufferToZata } from "../utils/storage/zataUp
 import { creditsRepository } from "../repository/creditsRepository";
 import { computeMinimaxVideoCostFromParams } from "../utils/pricing/minimaxPricing";
 import { syncToMirror, updateMirror } from "../utils/mirrorHelper";
-import { aestheticScoreService } from "./aestheticScoreService";
-import { markGenerationCompleted } from "./generationHistoryService";
+import { markGenerationCompleted, reportProviderProgress } from "./generationHistoryService";
 import { validateGenerationRequest, estimateFileSize } from "../utils/validationHelpers";
+import { buildProviderWebhookCallback } from "../utils/providerWebhooks";
+import { providerWebhookCallbacksRepository } from "../repository/providerWebhookCallbacksRepository";
 
 
 const MINIMAX_API_BASE = env.minimaxApiBase;
@@ -223,27 +224,22 @@ async function generate(
     // Log what was stored (useful to ensure storagePath/publicUrl exist and will be optimized)
     try { console.log('[MiniMax] storedImages:', storedImages.map(s => ({ id: s.id, url: s.url, storagePath: (s as any).storagePath }))); } catch {}
 
-    // Score the images for aesthetic quality
-    const scoredImages = await aestheticScoreService.scoreImages(storedImages);
-    const highestScore = aestheticScoreService.getHighestScore(scoredImages);
-
     await minimaxRepository.updateGenerationRecord(legacyId, {
       status: "completed",
-      images: scoredImages as any,
+      images: storedImages as any,
     });
     await generationHistoryRepository.update(uid, historyId, {
       status: 'completed',
-      images: scoredImages,
-      aestheticScore: highestScore,
+      images: storedImages,
       provider: 'minimax',
     } as Partial<GenerationHistoryItem>);
-    try { console.log('[MiniMax] History updated with scores', { historyId, imageCount: scoredImages.length, highestScore }); } catch {}
+    try { console.log('[MiniMax] History updated', { historyId, imageCount: storedImages.length }); } catch {}
     
     // Trigger image optimization (thumbnails, AVIF, blur placeholders) in background
     console.log('[MiniMax] Triggering markGenerationCompleted for optimization and mirror sync', { uid, historyId, isPublic: (payload as any).isPublic });
     markGenerationCompleted(uid, historyId, {
       status: "completed",
-      images: scoredImages,
+      images: storedImages,
       isPublic: (payload as any).isPublic === true,
     }).catch(err => console.error('[MiniMax] Image optimization failed:', err));
 
@@ -270,7 +266,7 @@ async function generate(
     
     // Robust mirror sync with retry logic
     await syncToMirror(uid, historyId);
-    return { images: scoredImages, aestheticScore: highestScore, historyId, id: data.id } as any;
+    return { images: storedImages, historyId, id: data.id } as any;
   } catch (err: any) {
     // Use centralized mapper
     const mapped = mapMinimaxError(err);
@@ -323,11 +319,15 @@ async function persistInputImages(uid: string, historyId: string, subject_refere
 async function generateVideo(
   apiKey: string,
   _groupId: string,
-  body: any
+  body: any,
+  uid?: string
 ): Promise<{ taskId: string }> {
   if (!apiKey) throw new ApiError("MiniMax API not configured", 500);
+  // MiniMax pushes status changes to callback_url so the job finishes without client polling
+  const callback = uid ? buildProviderWebhookCallback('minimax', uid) : undefined;
+  const payload = callback ? { ...body, callback_url: callback.url } : body;
   // The video_generation POST does not require GroupId; only file retrieval does
-  const res = await axios.post(`${MINIMAX_API_BASE}/video_generation`, body, {
+  const res = await axios.post(`${MINIMAX_API_BASE}/video_generation`, payload, {
     headers: {
       Authorization: `Bearer ${apiKey}`,
       "Content-Type": "application/json",
@@ -343,6 +343,7 @@ async function generateVideo(
   const taskId = data?.result?.task_id || data?.task_id || data?.id;
   if (!taskId)
     throw new ApiError("MiniMax service returned undefined taskId", 502, data);
+  if (callback) await providerWebhookCallbacksRepository.bindCallback(callback, String(taskId));
   return { taskId };
 }
 
@@ -365,6 +366,11 @@ async function getVideoStatus(apiKey: string, taskId: string, uid?: string): Pro
   // Some responses embed base_resp at root
   assertMiniMaxOk(data.base_resp || (data.result && data.result.base_resp));
 
+  const taskStatus = String(data?.status || data?.result?.status || '');
+  if (uid && ['Queueing', 'Preparing', 'Processing'].includes(taskStatus)) {
+    void reportProviderProgress(uid, 'minimax', taskId, { state: taskStatus.toLowerCase() });
+  }
+
   // STRICT CREDIT DEDUCTION: If status is Success, we must finalize (debit) immediately
   if ((data?.status === 'Success' || data?.result?.status === 'Success') && uid) {
     const fileId = data?.file_id || data?.result?.file_id;
@@ -568,19 +574,17 @@ async function processVideoFile(
     });
     const videoItem: any = { id: fileId, url: publicUrl, storagePath: key, originalUrl: providerUrl };
     
-    // Score the video for aesthetic quality
     const videos = [videoItem];
-    const scoredVideos = await aestheticScoreService.scoreVideos(videos);
-    const highestScore = aestheticScoreService.getHighestScore(scoredVideos);
     
     // Update existing history entry
     await generationHistoryRepository.update(uid, historyId, {
       status: 'completed',
-      videos: scoredVideos,
-      aestheticScore: highestScore,
+      videos,
       provider: 'minimax',
     } as any);
-    try { console.log('[MiniMax] Video history updated with scores', { historyId, videoCount: scoredVideos.length, highestScore }); } catch {}
+    try { console.log('[MiniMax] Video history updated', { historyId, videoCount: videos.length }); } catch {}
+    markGenerationCompleted(uid, historyId, { status: 'completed', videos })
+      .catch(err => console.error('[MiniMax] Video completion failed:', err));
     // Attempt debit using stored params on history (model/duration/resolution)
     try {
       const freshForCost = await generationHistoryRepository.get(uid, historyId);
@@ -592,26 +596,24 @@ async function processVideoFile(
     } catch {}
     // Robust mirror sync with retry logic
     await syncToMirror(uid, historyId);
-    return { videos: scoredVideos, aestheticScore: highestScore, historyId, status: 'completed' };
+    return { videos, historyId, status: 'completed' };
   } catch (e) {
     // eslint-disable-next-line no-console
     console.warn('[MiniMax] Video Zata upload failed; using provider URL');
     const creator = await authRepository.getUserById(uid);
     const videoItem: any = { id: fileId, url: providerUrl, originalUrl: providerUrl };
     
-    // Score the video even with provider URL
     const videos = [videoItem];
-    const scoredVideos = await aestheticScoreService.scoreVideos(videos);
-    const highestScore = aestheticScoreService.getHighestScore(scoredVideos);
     
     // Update existing history entry
     await generationHistoryRepository.update(uid, historyId, {
       status: 'completed',
-      videos: scoredVideos,
-      aestheticScore: highestScore,
+      videos,
       provider: 'minimax',
     } as any);
-    try { console.log('[MiniMax] Video history updated (provider URL) with scores', { historyId, videoCount: scoredVideos.length, highestScore }); } catch {}
+    try { console.log('[MiniMax] Video history updated (provider URL)', { historyId, videoCount: videos.length }); } catch {}
+    markGenerationCompleted(uid, historyId, { status: 'completed', videos })
+      .catch(err => console.error('[MiniMax] Video completion failed:', err));
     // Attempt debit even if we used provider URL
     try {
       const freshForCost = await generationHistoryRepository.get(uid, historyId);
@@ -621,7 +623,7 @@ async function processVideoFile(
     } catch {}
     // Robust mirror sync with retry logic
     await syncToMirror(uid, historyId);
-    return { videos: scoredVideos, aestheticScore: highestScore, historyId, status: 'completed' };
+    return { videos, historyId, status: 'completed' };
   }
 }
 
@@ -0,0 +1,97 @@
+import {
+  MODEL_REGISTRY,
+  ModelDefinition,
+  ModelModality,
+  ModelProvider,
+  ModelAvailability,
+  findModel,
+  getPricingRows,
+} from '../data/modelRegistry';
+import { CreditDistributionPlan, PLAN_CREDITS } from '../data/creditDistribution';
+
+export interface ModelPricingVariant {
+  name: string;
+  creditsPerGeneration: number;
+  /** Generations each plan's monthly credits buy */
+  generationsPerPlan: CreditDistributionPlan;
+}
+
+export interface ModelCatalogEntry {
+  id: string;
+  label: string;
+  provider: ModelProvider;
+  modality: ModelModality;
+  aliases: string[];
+  aspectRatios: string[];
+  resolutions: string[];
+  durations: string[];
+  inputs: ModelDefinition['inputs'];
+  availability: ModelAvailability;
+  /** null when the cost is computed per request (tokens, seconds, megapixels) */
+  pricing: {
+    minCredits: number;
+    maxCredits: number;
+    variants: ModelPricingVariant[];
+  } | null;
+}
+
+export interface ModelCatalogFilters {
+  modality?: string;
+  provider?: string;
+  availability?: string;
+}
+
+function toEntry(model: ModelDefinition): ModelCatalogEntry {
+  const variants: ModelPricingVariant[] = getPricingRows(model).map((row) => ({
+    name: row.modelName,
+    creditsPerGeneration: row.creditsPerGeneration,
+    generationsPerPlan: row.plans,
+  }));
+  const credits = variants.map((v) => v.creditsPerGeneration);
+
+  return {
+    id: model.id,
+    label: model.label,
+    provider: model.provider,
+    modality: model.modality,
+    aliases: model.aliases || [],
+    aspectRatios: model.aspectRatios || [],
+    resolutions: model.resolutions || [],
+    durations: model.durations || [],
+    inputs: model.inputs,
+    availability: model.availability,
+    pricing: variants.length > 0
+      ? { minCredits: Math.min(...credits), maxCredits: Math.max(...credits), variants }
+      : null,
+  };
+}
+
+// The registry is static, so the catalog is built once per process
+let catalog: ModelCatalogEntry[] | null = null;
+
+function getCatalog(): ModelCatalogEntry[] {
+  if (!catalog) {
+    catalog = MODEL_REGISTRY.map(toEntry);
+  }
+  return catalog;
+}
+
+export function listModels(filters: ModelCatalogFilters = {}) {
+  const models = getCatalog().filter((m) =>
+    (!filters.modality || m.modality === filters.modality) &&
+    (!filters.provider || m.provider === filters.provider) &&
+    (!filters.availability || m.availability === filters.availability)
+  );
+  return { models, total: models.length, planCredits: PLAN_CREDITS };
+}
+
+export function getModelEntry(idOrAlias: string): ModelCatalogEntry | null {
+  const model = findModel(idOrAlias);
+  if (!model) return null;
+  return getCatalog().find((m) => m.id === model.id) || null;
+}
+
+export const modelCatalogService = {
+  listModels,
+  getModelEntry,
+};
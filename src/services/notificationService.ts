@@ -0,0 +1,161 @@
+import { admin } from '../config/firebaseAdmin';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import type { NotificationJobPayload } from '../config/jobQueues';
+import { notificationsRepository } from '../repository/notificationsRepository';
+import { generationHistoryRepository } from '../repository/generationHistoryRepository';
+import { creditsRepository } from '../repository/creditsRepository';
+import { GenerationStatus } from '../types/generate';
+import type { CanvasInvitation } from '../types/canvas';
+import type { NewNotification } from '../types/notifications';
+
+/**
+ * Producers call notify() directly, or enqueue a notifications job when the trigger needs a
+ * lookup first (see runNotificationJob).
+ * A notification is skipped when its type is muted; otherwise it is stored under
+ * notifications/{uid}/items and pushed to the user's FCM tokens (best-effort).
+ */
+
+// FCM errors meaning the token will never work again
+const STALE_TOKEN_CODES = new Set([
+  'messaging/registration-token-not-registered',
+  'messaging/invalid-registration-token',
+]);
+
+function toPushData(input: NewNotification, id: string): Record<string, string> {
+  const data: Record<string, string> = { notificationId: id, type: input.type };
+  const fields: Array<keyof NewNotification> = [
+    'actorUid', 'actorDisplayName', 'actorUsername', 'generationId', 'historyId', 'projectId', 'invitationId',
+  ];
+  for (const field of fields) {
+    const value = input[field];
+    if (typeof value === 'string' && value) data[field] = value;
+  }
+  for (const [key, value] of Object.entries(input.data || {})) {
+    data[key] = String(value);
+  }
+  return data;
+}
+
+async function sendPush(uid: string, id: string, input: NewNotification): Promise<void> {
+  const devices = await notificationsRepository.listDeviceTokens(uid);
+  if (!devices.length || !input.title) return;
+  const tokens = devices.map((d) => d.token.trim());
+
+  const response = await admin.messaging().sendEachForMulticast({
+    tokens,
+    notification: { title: input.title, body: input.body || '' },
+    data: toPushData(input, id),
+  });
+
+  const stale = response.responses
+    .map((r, i) => (!r.success && STALE_TOKEN_CODES.has(r.error?.code || '') ? tokens[i] : null))
+    .filter((t): t is string => !!t);
+  if (stale.length) {
+    await notificationsRepository.removeDeviceTokens(uid, stale);
+  }
+
+  logger.info(
+    { uid, type: input.type, tokens: tokens.length, successCount: response.successCount, staleRemoved: stale.length },
+    '[NOTIFICATIONS] Push sent'
+  );
+}
+
+/**
+ * Store and push a notification unless the type is muted. Returns the item id, or null when
+ * muted or already sent for `dedupeKey`.
+ */
+export async function notify(uid: string, input: NewNotification, dedupeKey?: string): Promise<string | null> {
+  const prefs = await notificationsRepository.getPreferences(uid);
+  if (prefs.muted.includes(input.type)) return null;
+
+  const id = await notificationsRepository.createNotification(uid, input, dedupeKey);
+  if (!id) return null;
+
+  try {
+    await sendPush(uid, id, input);
+  } catch (err: any) {
+    // The in-app item is the record; a failed push is not retried
+    logger.warn({ uid, type: input.type, err: err?.message }, '[NOTIFICATIONS] Push failed');
+  }
+  return id;
+}
+
+export async function notifyCanvasInvitation(invitation: CanvasInvitation): Promise<void> {
+  const inviter = invitation.senderUsername || invitation.senderEmail || 'A teammate';
+  const isTransfer = invitation.kind === 'transfer';
+  await notify(
+    invitation.recipientUid,
+    {
+      type: 'canvas_invite',
+      title: isTransfer
+        ? `${inviter} wants to transfer "${invitation.projectName}" to you`
+        : `${inviter} invited you to "${invitation.projectName}"`,
+      body: isTransfer
+        ? 'Accept to become the owner of this project.'
+        : `You were invited as ${invitation.role === 'viewer' ? 'a viewer' : `an ${invitation.role}`}.`,
+      actorUid: invitation.senderUid,
+      actorUsername: invitation.senderUsername,
+      projectId: invitation.projectId,
+      invitationId: invitation.id,
+      data: { role: invitation.role, kind: invitation.kind || 'collaborator' },
+    },
+    `canvas_invite-${invitation.id}`
+  );
+}
+
+function isVideoItem(item: { generationType?: string; videos?: unknown[] }): boolean {
+  return String(item.generationType || '').includes('video') || (Array.isArray(item.videos) && item.videos.length > 0);
+}
+
+/** Users rarely wait on long video renders; tell them when one finishes. */
+async function checkVideoCompleted(uid: string, historyId: string): Promise<void> {
+  const item = await generationHistoryRepository.get(uid, historyId);
+  if (!item || item.status !== GenerationStatus.Completed || !isVideoItem(item as any)) return;
+
+  const startedAt = Date.parse(String((item as any).createdAt || ''));
+  const finishedAt = Date.parse(String((item as any).updatedAt || '')) || Date.now();
+  if (!Number.isFinite(startedAt) || finishedAt - startedAt < env.videoNotifyMinDurationMs) return;
+
+  const prompt = String((item as any).prompt || '').trim();
+  await notify(
+    uid,
+    {
+      type: 'video_completed',
+      title: 'Your video is ready',
+      body: prompt ? (prompt.length > 80 ? `${prompt.slice(0, 77)}...` : prompt) : `${item.model || 'Video'} generation finished.`,
+      historyId,
+      data: { model: String(item.model || '') },
+    },
+    `video_completed-${historyId}`
+  );
+}
+
+/** At most one warning per UTC day while the balance stays under the threshold. */
+async function checkLowCredit(uid: string): Promise<void> {
+  const balance = await creditsRepository.readUserCredits(uid);
+  if (!Number.isFinite(balance) || balance >= env.lowCreditThreshold) return;
+
+  const day = new Date().toISOString().slice(0, 10);
+  await notify(
+    uid,
+    {
+      type: 'low_credit',
+      title: 'You are running low on credits',
+      body: `${balance} credits left. Top up or upgrade your plan to keep generating.`,
+      data: { balance, threshold: env.lowCreditThreshold },
+    },
+    `low_credit-${day}`
+  );
+}
+
+export async function runNotificationJob(payload: NotificationJobPayload): Promise<void> {
+  if (payload.kind === 'video-completed') return checkVideoCompleted(payload.uid, payload.historyId);
+  if (payload.kind === 'low-credit') return checkLowCredit(payload.uid);
+}
+
+export const notificationService = {
+  notify,
+  notifyCanvasInvitation,
+  runNotificationJob,
+};
@@ -0,0 +1,386 @@
+import { Request } from 'express';
+import { ApiError, normalizeApiError } from '../utils/errorHandler';
+import { requireAuth } from '../middlewares/authMiddleware';
+import { generationLimiter } from '../middlewares/rateLimiter';
+import { moderationGuard } from '../middlewares/moderationGuard';
+import { contentModerationMiddleware } from '../middlewares/contentModeration';
+import { getCreditCostSpec, computeCreditCharge, CreditCostSpec } from '../middlewares/creditCostFactory';
+import { creditsService } from './creditsService';
+import { creditHoldsRepository } from '../repository/creditHoldsRepository';
+import { creditDistributionData, ModelCreditInfo } from '../data/creditDistribution';
+import { findModel, getPricingRows } from '../data/modelRegistry';
+import { createInProcessResponse } from '../utils/inProcessResponse';
+
+/**
+ * Dry-run pricing.
+ *
+ * A quote resolves a route key (e.g. "fal/veo3/text-to-video/submit", relative to /api) to the
+ * generation route mounted in routes/index.ts, runs that route's validators in order and stops at
+ * its makeCreditCost middleware, pricing the request with the same computeCreditCharge. The
+ * controller (and the provider) is never reached and no credit hold is placed. Handlers always get
+ * a real Express response (createInProcessResponse), so they behave exactly as they do in a request.
+ *
+ * invoke() runs the whole route in-process instead (validators, credit hold, controller) for
+ * server-side callers such as the assistant agent, so they are priced and debited like the client.
+ * Resolving the route skips the app- and router-level layers in front of it, so invoke() runs the
+ * generation rate limit and the moderation middlewares itself.
+ */
+
+const MIDDLEWARE_TIMEOUT_MS = 30_000;
+/** A whole batch answers within this; items still unpriced by then fail with 504. */
+const BATCH_DEADLINE_MS = 45_000;
+const BATCH_CONCURRENCY = 4;
+
+export interface PricingQuoteItem {
+  route: string;
+  body?: Record<string, any>;
+  query?: Record<string, any>;
+}
+
+export interface PricingQuote {
+  route: string;
+  provider: string;
+  operation: string;
+  cost: number;
+  pricingVersion: string;
+  meta: Record<string, any>;
+  billingUid: string;
+  planCode?: string;
+  balance: number;
+  heldCredits: number;
+  availableCredits: number;
+  covered: boolean;
+  breakdown: {
+    modelName: string;
+    creditsPerGeneration: number;
+    generationsPerPlan: ModelCreditInfo['plans'];
+  } | null;
+}
+
+export type PricingQuoteResult =
+  | ({ ok: true } & PricingQuote)
+  | { ok: false; route: string; statusCode: number; message: string; data?: any };
+
+export interface PricedRouteResponse {
+  route: string;
+  statusCode: number;
+  body: any;
+  /** Credits held by makeCreditCost for this call (0 when the route failed before pricing). */
+  creditCost: number;
+}
+
+interface ResolvedRoute {
+  handlers: Function[];
+  /** makeCreditCost and every handler after it (storage checks, the controller). */
+  chargedHandlers: Function[];
+  spec: CreditCostSpec;
+  params: Record<string, string>;
+  path: string;
+}
+
+// Loaded lazily: routes/index.ts mounts the pricing router, which depends on this service
+function getApiRouter(): any {
+  return require('../routes').default;
+}
+
+function isContentModerated(path: string): boolean {
+  const prefixes: string[] = require('../routes').CONTENT_MODERATED_PREFIXES;
+  return prefixes.some((prefix) => path === prefix || path.startsWith(`${prefix}/`));
+}
+
+function normalizeRouteKey(route: string): string {
+  const trimmed = String(route || '').trim().replace(/^\/?api(?=\/)/, '');
+  const path = trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+  return path.split('?')[0].replace(/\/+$/, '') || '/';
+}
+
+/**
+ * Walk the Express router stack the same way Router#handle does and return the POST route for `path`.
+ */
+function findRoute(stack: any[], path: string, params: Record<string, string> = {}): { route: any; params: Record<string, string> } | null {
+  for (const layer of stack) {
+    if (!layer.match(path)) continue;
+    const merged = { ...params, ...(layer.params || {}) };
+    if (layer.route) {
+      if (layer.route._handles_method('post')) {
+        return { route: layer.route, params: merged };
+      }
+      continue;
+    }
+    if (Array.isArray(layer.handle?.stack)) {
+      const rest = path.slice(String(layer.path || '').length) || '/';
+      const found = findRoute(layer.handle.stack, rest.startsWith('/') ? rest : `/${rest}`, merged);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+export function resolvePricedRoute(route: string): ResolvedRoute {
+  const path = normalizeRouteKey(route);
+  const found = findRoute(getApiRouter().stack, path);
+  if (!found) {
+    throw new ApiError(`Unknown route: ${route}`, 404, { route }, 'UNKNOWN_ROUTE');
+  }
+
+  // The quote request is already authenticated
+  const routeHandlers: Function[] = found.route.stack
+    .filter((layer: any) => !layer.method || layer.method === 'post')
+    .map((layer: any) => layer.handle)
+    .filter((handle: Function) => handle !== requireAuth);
+  for (let i = 0; i < routeHandlers.length; i++) {
+    const spec = getCreditCostSpec(routeHandlers[i]);
+    if (spec) {
+      return {
+        handlers: routeHandlers.slice(0, i),
+        chargedHandlers: routeHandlers.slice(i),
+        spec,
+        params: found.params,
+        path,
+      };
+    }
+  }
+  throw new ApiError(`Route is not priced: ${route}`, 400, { route }, 'ROUTE_NOT_PRICED');
+}
+
+/**
+ * Run one validator against the quote request. Resolves when it calls next(); rejects with an
+ * ApiError when it calls next(err) or answers the request itself (validation failures).
+ */
+function runValidator(handler: Function, req: Request, timeoutMs: number = MIDDLEWARE_TIMEOUT_MS): Promise<void> {
+  const { res, finished } = createInProcessResponse(req);
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const settle = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      fn();
+    };
+    const timer = setTimeout(
+      () => settle(() => reject(new ApiError('Validation timed out', 504))),
+      timeoutMs
+    );
+    finished.then(({ statusCode, body }) => settle(() => reject(new ApiError(
+      body?.message || 'Request rejected by route validators',
+      statusCode >= 400 ? statusCode : 400,
+      body?.data ?? body
+    ))));
+    const next = (err?: any) => settle(() => {
+      if (err && err !== 'route' && err !== 'router') {
+        reject(err instanceof ApiError ? err : new ApiError(err?.message || 'Validation failed', err?.statusCode || 400));
+      } else {
+        resolve();
+      }
+    });
+    try {
+      const out = handler(req, res, next);
+      if (out && typeof out.then === 'function') {
+        out.catch((err: any) => next(err || new Error('Validation failed')));
+      }
+    } catch (err) {
+      next(err);
+    }
+  });
+}
+
+function findBreakdown(modelName: unknown, cost: number): PricingQuote['breakdown'] {
+  if (!modelName || typeof modelName !== 'string') return null;
+  let row = creditDistributionData.find((m) => m.modelName.toLowerCase() === modelName.toLowerCase());
+  if (!row) {
+    // Registry models are priced per variant (duration/resolution): pick the one this request costs
+    const model = findModel(modelName);
+    const rows = model ? getPricingRows(model) : [];
+    row = rows.find((r) => r.creditsPerGeneration === cost) || (rows.length === 1 ? rows[0] : undefined);
+  }
+  if (!row) return null;
+  return {
+    modelName: row.modelName,
+    creditsPerGeneration: row.creditsPerGeneration,
+    generationsPerPlan: row.plans,
+  };
+}
+
+type BalanceCache = Map<string, Promise<{ planCode?: string; balance: number; heldCredits: number }>>;
+
+function loadBalance(billingUid: string, cache: BalanceCache) {
+  let entry = cache.get(billingUid);
+  if (!entry) {
+    entry = (async () => {
+      const [{ planCode, creditBalance }, heldCredits] = await Promise.all([
+        creditsService.ensureLaunchDailyReset(billingUid),
+        creditHoldsRepository.getHeldTotal(billingUid).catch(() => 0),
+      ]);
+      return { planCode, balance: Number(creditBalance) || 0, heldCredits };
+    })();
+    cache.set(billingUid, entry);
+  }
+  return entry;
+}
+
+/** Isolated request per call: validators sanitize req.body in place and store results on req. */
+function buildRouteRequest(req: Request, item: PricingQuoteItem, resolved: ResolvedRoute): any {
+  const routeReq: any = Object.create(req);
+  routeReq.body = JSON.parse(JSON.stringify(item.body || {}));
+  routeReq.query = { ...(item.query || {}) };
+  routeReq.params = resolved.params;
+  routeReq.url = resolved.path;
+  routeReq.originalUrl = `/api${resolved.path}`;
+  routeReq.method = 'POST';
+  routeReq.context = undefined;
+  return routeReq;
+}
+
+function deadlineExceeded(): ApiError {
+  return new ApiError('Quote timed out', 504, undefined, 'QUOTE_TIMEOUT');
+}
+
+/** Time left before `deadline`, capped at MIDDLEWARE_TIMEOUT_MS; throws once it has passed. */
+function remainingMs(deadline?: number): number {
+  if (deadline === undefined) return MIDDLEWARE_TIMEOUT_MS;
+  const left = deadline - Date.now();
+  if (left <= 0) throw deadlineExceeded();
+  return Math.min(left, MIDDLEWARE_TIMEOUT_MS);
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(deadlineExceeded()), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function quoteOne(req: Request, item: PricingQuoteItem, cache: BalanceCache, deadline?: number): Promise<PricingQuote> {
+  const resolved = resolvePricedRoute(item.route);
+  const quoteReq = buildRouteRequest(req, item, resolved);
+
+  for (const handler of resolved.handlers) {
+    await runValidator(handler, quoteReq, remainingMs(deadline));
+  }
+
+  const { provider, operation } = resolved.spec;
+  const { billingUid, cost, pricingVersion, meta } = await withTimeout(
+    computeCreditCharge(resolved.spec, quoteReq, req.uid),
+    remainingMs(deadline)
+  );
+  const { planCode, balance, heldCredits } = await loadBalance(billingUid, cache);
+  const availableCredits = balance - heldCredits;
+
+  return {
+    route: resolved.path.slice(1),
+    provider,
+    operation,
+    cost,
+    pricingVersion,
+    meta: meta || {},
+    billingUid,
+    planCode,
+    balance,
+    heldCredits,
+    availableCredits,
+    covered: availableCredits >= cost,
+    breakdown: findBreakdown(meta?.model || quoteReq.body?.model, cost),
+  };
+}
+
+export async function quote(req: Request, item: PricingQuoteItem): Promise<PricingQuote> {
+  return quoteOne(req, item, new Map());
+}
+
+/**
+ * Quote several configurations; failures are reported per item instead of failing the batch.
+ * At most BATCH_CONCURRENCY items run at a time because some cost computers probe remote media,
+ * and the batch answers within BATCH_DEADLINE_MS: items not priced by then fail with 504.
+ */
+export async function quoteBatch(req: Request, items: PricingQuoteItem[]): Promise<PricingQuoteResult[]> {
+  const cache: BalanceCache = new Map();
+  const deadline = Date.now() + BATCH_DEADLINE_MS;
+  const results: PricingQuoteResult[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      const item = items[index];
+      try {
+        results[index] = { ok: true, ...(await quoteOne(req, item, cache, deadline)) };
+      } catch (err: any) {
+        results[index] = {
+          ok: false,
+          route: String(item?.route || ''),
+          statusCode: err instanceof ApiError ? err.statusCode : 500,
+          message: err?.message || 'Failed to compute quote',
+          ...(err instanceof ApiError && err.data !== undefined ? { data: err.data } : {}),
+        };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Run `handlers` like Router#handle does for a single route, on a real in-process response: 'finish'
+ * fires as usual, which makeCreditCost relies on to release its hold after an error status. Errors
+ * passed to next() are answered like the global errorHandler.
+ */
+function runRoute(handlers: Function[], req: any): Promise<{ statusCode: number; body: any }> {
+  const { res, finished } = createInProcessResponse(req);
+  let index = 0;
+  const next = (err?: any) => {
+    if (res.writableEnded) return;
+    if (err && err !== 'route' && err !== 'router') {
+      // A streamed response that fails midway can only be ended
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      const { status, payload } = normalizeApiError(err);
+      res.status(status).json(payload);
+      return;
+    }
+    const handler = handlers[index++];
+    if (!handler) {
+      res.status(404).json({ message: 'Route did not answer the request', status: 404 });
+      return;
+    }
+    try {
+      const out = handler(req, res, next);
+      if (out && typeof out.then === 'function') {
+        out.catch((e: any) => next(e || new Error('Request failed')));
+      }
+    } catch (e) {
+      next(e);
+    }
+  };
+  next();
+  return finished;
+}
+
+/**
+ * Run the priced route for `item` in-process as `req.uid`, exactly as a POST from the client would
+ * (minus requireAuth: the caller is already authenticated). Every call counts against the caller's
+ * generation rate limit and passes moderationGuard, plus contentModerationMiddleware for the
+ * provider routes. Error statuses are returned, not thrown, except for unknown or unpriced routes.
+ */
+export async function invoke(req: Request, item: PricingQuoteItem): Promise<PricedRouteResponse> {
+  const resolved = resolvePricedRoute(item.route);
+  const routeReq = buildRouteRequest(req, item, resolved);
+  const gates: Function[] = [generationLimiter, moderationGuard];
+  if (isContentModerated(resolved.path)) gates.push(contentModerationMiddleware);
+  const { statusCode, body } = await runRoute([...gates, ...resolved.handlers, ...resolved.chargedHandlers], routeReq);
+  return {
+    route: resolved.path.slice(1),
+    statusCode,
+    body,
+    creditCost: Number(routeReq.context?.creditCost) || 0,
+  };
+}
+
+export const pricingQuoteService = {
+  resolvePricedRoute,
+  quote,
+  quoteBatch,
+  invoke,
+};
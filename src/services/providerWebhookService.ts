@@ -0,0 +1,155 @@
+import { ApiError } from '../utils/errorHandler';
+import { logger } from '../utils/logger';
+import { env } from '../config/env';
+import { WebhookProvider } from '../utils/providerWebhooks';
+import { backgroundTaskQueue } from '../utils/backgroundTaskQueue';
+import { JOB_QUEUES, ProviderWebhookJobPayload, providerWebhookJobId } from '../config/jobQueues';
+import { generationHistoryRepository } from '../repository/generationHistoryRepository';
+import { providerWebhookCallbacksRepository } from '../repository/providerWebhookCallbacksRepository';
+import { markGenerationFailed, reportProviderProgress } from './generationHistoryService';
+import { falQueueService } from './falService';
+import { replicateQueueResult } from './replicateService';
+import { minimaxService } from './minimaxService';
+
+/**
+ * Server-side completion for provider webhooks.
+ *
+ * A delivery is checked against the task its callback was issued for, then enqueued on the
+ * provider-webhooks job queue; it is acknowledged only once the job is queued, so a crash after the
+ * ack does not lose the completion (with Redis the queue outlives the process). The job finalizes
+ * through the same provider functions the polling endpoints use (fetch result from the provider,
+ * upload to storage, update history, debit, markGenerationCompleted).
+ * Deliveries for items that are already completed/failed are acknowledged and ignored.
+ */
+
+export interface WebhookReceipt {
+  provider: WebhookProvider;
+  taskId: string;
+  historyId?: string;
+  accepted: boolean;
+}
+
+/** Identity carried by a verified callback URL. */
+export interface WebhookCallbackRef {
+  uid: string;
+  nonce: string;
+}
+
+interface Delivery {
+  taskId: string;
+  terminal: boolean;
+  failure?: string;
+}
+
+async function assertBoundToTask(callback: WebhookCallbackRef, provider: WebhookProvider, taskId: string): Promise<void> {
+  // The nonce is bound to the provider task after submit
+  const binding = await providerWebhookCallbacksRepository.getBinding(callback.nonce);
+  // The callback can race the binding write at submit time; a 404 makes the provider retry
+  if (!binding) throw new ApiError('Unknown webhook callback', 404, { provider, taskId });
+  if (binding.provider !== provider || binding.uid !== callback.uid || binding.taskId !== taskId) {
+    throw new ApiError('Webhook callback was not issued for this task', 403, { provider, taskId });
+  }
+}
+
+async function locate(uid: string, provider: WebhookProvider, taskId: string) {
+  const located = await generationHistoryRepository.findByProviderTaskId(uid, provider, taskId);
+  // The callback can race the providerTaskId write at submit time; a 404 makes the provider retry
+  if (!located) throw new ApiError('Generation not found for task', 404, { provider, taskId });
+  return located;
+}
+
+function isFinal(status: unknown): boolean {
+  return status === 'completed' || status === 'failed';
+}
+
+async function accept(callback: WebhookCallbackRef, provider: WebhookProvider, delivery: Delivery): Promise<WebhookReceipt> {
+  const { uid } = callback;
+  const { taskId } = delivery;
+  if (!taskId) throw new ApiError('Missing task id in webhook payload', 400, { provider });
+  await assertBoundToTask(callback, provider, taskId);
+  const located = await locate(uid, provider, taskId);
+  if (!delivery.terminal || isFinal(located.item?.status)) {
+    return { provider, taskId, historyId: located.id, accepted: false };
+  }
+  const payload: ProviderWebhookJobPayload = {
+    provider,
+    uid,
+    taskId,
+    historyId: located.id,
+    ...(delivery.failure ? { failure: delivery.failure } : {}),
+  };
+  // durable: a failed Redis write fails the delivery (5xx) so the provider retries it
+  await backgroundTaskQueue.enqueue(JOB_QUEUES.providerWebhooks, payload, {
+    jobId: providerWebhookJobId(payload),
+    durable: true,
+  });
+  return { provider, taskId, historyId: located.id, accepted: true };
+}
+
+/** FAL: `{ request_id, status: 'OK' | 'ERROR', payload, error }` */
+export async function handleFalWebhook(callback: WebhookCallbackRef, body: any): Promise<WebhookReceipt> {
+  return accept(callback, 'fal', {
+    taskId: String(body?.request_id || ''),
+    terminal: true,
+    failure: body?.status === 'ERROR' ? String(body?.error || 'FAL queue generation failed') : undefined,
+  });
+}
+
+/** Replicate: the prediction object; only the "completed" event is subscribed at submit time. */
+export async function handleReplicateWebhook(callback: WebhookCallbackRef, body: any): Promise<WebhookReceipt> {
+  // replicateQueueResult persists outputs on success and the provider error on failure
+  return accept(callback, 'replicate', {
+    taskId: String(body?.id || ''),
+    terminal: ['succeeded', 'failed', 'canceled'].includes(String(body?.status || '')),
+  });
+}
+
+/** MiniMax: `{ task_id, status: 'processing' | 'success' | 'failed', file_id, base_resp }` */
+export async function handleMinimaxWebhook(callback: WebhookCallbackRef, body: any): Promise<WebhookReceipt> {
+  const taskId = String(body?.task_id || '');
+  const status = String(body?.status || '').toLowerCase();
+  if (status === 'processing' && taskId) {
+    await assertBoundToTask(callback, 'minimax', taskId);
+    void reportProviderProgress(callback.uid, 'minimax', taskId, { state: status });
+  }
+  return accept(callback, 'minimax', {
+    taskId,
+    terminal: status === 'success' || status === 'failed',
+    failure: status === 'failed' ? String(body?.base_resp?.status_msg || 'MiniMax video generation failed') : undefined,
+  });
+}
+
+async function finalize({ provider, uid, taskId }: ProviderWebhookJobPayload): Promise<void> {
+  switch (provider) {
+    case 'fal':
+      await falQueueService.queueResult(uid, undefined, taskId);
+      return;
+    case 'replicate':
+      await replicateQueueResult(uid, taskId);
+      return;
+    case 'minimax':
+      // getVideoStatus re-reads the task and runs processVideoFile (storage, history, debit) on success
+      await minimaxService.getVideoStatus(env.minimaxApiKey as string, taskId, uid);
+      return;
+  }
+}
+
+/** provider-webhooks job: finishes the generation unless a poll or an earlier delivery already did. */
+export async function runProviderWebhookJob(payload: ProviderWebhookJobPayload): Promise<void> {
+  const { uid, provider, taskId, historyId } = payload;
+  const item = await generationHistoryRepository.get(uid, historyId);
+  if (!item || isFinal(item.status)) return;
+  if (payload.failure) {
+    await markGenerationFailed(uid, historyId, { status: 'failed', error: payload.failure });
+  } else {
+    await finalize(payload);
+  }
+  logger.info({ uid, provider, taskId, historyId }, '[PROVIDER_WEBHOOK] Generation finalized');
+}
+
+export const providerWebhookService = {
+  handleFalWebhook,
+  handleReplicateWebhook,
+  handleMinimaxWebhook,
+  runProviderWebhookJob,
+};
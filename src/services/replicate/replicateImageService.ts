@@ -20,7 +20,6 @@ import {
 } from "../../utils/storage/zataUpload";
 import { replicateRepository } from "../../repository/replicateRepository";
 import { syncToMirror } from "../../utils/mirrorHelper";
-import { aestheticScoreService } from "../aestheticScoreService";
 import { markGenerationCompleted } from "../generationHistoryService";
 import {
   DEFAULT_BG_MODEL_A,
@@ -228,20 +227,17 @@ export async function removeBackground(
       originalUrl: outputUrl,
     } as any,
   ];
-  const scoredImages = await aestheticScoreService.scoreImages(images);
-  const highestScore = aestheticScoreService.getHighestScore(scoredImages);
 
   await generationHistoryRepository.update(uid, historyId, {
     status: "completed",
-    images: scoredImages,
-    aestheticScore: highestScore,
+    images,
     updatedAt: new Date().toISOString(), // Set completion time for proper sorting
   } as any);
-  try { console.log('[Replicate.removeBackground] History updated with scores', { historyId, imageCount: scoredImages.length, highestScore }); } catch { }
+  try { console.log('[Replicate.removeBackground] History updated', { historyId, imageCount: images.length }); } catch { }
   try {
     await replicateRepository.updateGenerationRecord(legacyId, {
       status: "completed",
-      images: scoredImages as any,
+      images: images as any,
     });
   } catch { }
 
@@ -253,7 +249,7 @@ export async function removeBackground(
     );
     markGenerationCompleted(uid, historyId, {
       status: "completed",
-      images: scoredImages as any,
+      images: images as any,
       isPublic: body?.isPublic === true,
     }).catch((e: any) =>
       console.error(
@@ -293,8 +289,7 @@ export async function removeBackground(
   }
 
   return {
-    images: scoredImages,
-    aestheticScore: highestScore,
+    images,
     historyId,
     model: modelBase,
     status: "completed",
@@ -788,16 +783,11 @@ export async function upscale(uid: string, body: any, ctx: any = {}) {
     );
   }
 
-  // Score the images for aesthetic quality (upscale function)
-  const scoredImages = await aestheticScoreService.scoreImages(uploadedImages);
-  const highestScore = aestheticScoreService.getHighestScore(scoredImages);
-
   // Preserve inputImages if they were already saved (don't overwrite them)
   const existing = await generationHistoryRepository.get(uid, historyId);
   const updateData: any = {
     status: "completed",
-    images: scoredImages as any,
-    aestheticScore: highestScore,
+    images: uploadedImages as any,
     updatedAt: new Date().toISOString(), // Set completion time for proper sorting
   };
   // Preserve inputImages if they exist
@@ -806,11 +796,11 @@ export async function upscale(uid: string, body: any, ctx: any = {}) {
   }
 
   await generationHistoryRepository.update(uid, historyId, updateData);
-  try { console.log('[Replicate.upscale] History updated with scores', { historyId, imageCount: scoredImages.length, highestScore }); } catch { }
+  try { console.log('[Replicate.upscale] History updated', { historyId, imageCount: uploadedImages.length }); } catch { }
   try {
     await replicateRepository.updateGenerationRecord(legacyId, {
       status: "completed",
-      images: scoredImages as any,
+      images: uploadedImages as any,
     });
   } catch { }
   // Trigger optimization and re-enqueue mirror update (non-blocking)
@@ -821,7 +811,7 @@ export async function upscale(uid: string, body: any, ctx: any = {}) {
     );
     markGenerationCompleted(uid, historyId, {
       status: "completed",
-      images: scoredImages as any,
+      images: uploadedImages as any,
       isPublic: body?.isPublic === true,
     }).catch((e: any) =>
       console.error(
@@ -860,8 +850,7 @@ export async function upscale(uid: string, body: any, ctx: any = {}) {
   }
 
   return {
-    images: scoredImages,
-    aestheticScore: highestScore,
+    images: uploadedImages,
     historyId,
     model: modelBase,
     status: "completed",
@@ -1954,26 +1943,22 @@ export async function generateImage(uid: string, body: any, ctx: any = {}) {
     );
   }
 
-  // Score the images for aesthetic quality (generateImage function)
-  const scoredImages = await aestheticScoreService.scoreImages(uploadedImages);
-  const highestScore = aestheticScoreService.getHighestScore(scoredImages);
   // Preserve inputImages if they were already saved (don't overwrite them)
   const existing = await generationHistoryRepository.get(uid, historyId);
   const updateData: any = {
     status: "completed",
-    images: scoredImages as any,
-    aestheticScore: highestScore,
+    images: uploadedImages as any,
   };
   // Preserve inputImages if they exist
   if (existing && Array.isArray((existing as any).inputImages) && (existing as any).inputImages.length > 0) {
     updateData.inputImages = (existing as any).inputImages;
   }
   await generationHistoryRepository.update(uid, historyId, updateData);
-  try { console.log('[Replicate.generateImage] History updated with scores', { historyId, imageCount: scoredImages.length, highestScore }); } catch { }
+  try { console.log('[Replicate.generateImage] History updated', { historyId, imageCount: uploadedImages.length }); } catch { }
   try {
     await replicateRepository.updateGenerationRecord(legacyId, {
       status: "completed",
-      images: scoredImages as any,
+      images: uploadedImages as any,
     });
   } catch { }
   // Trigger optimization and re-enqueue mirror update (non-blocking)
@@ -1984,7 +1969,7 @@ export async function generateImage(uid: string, body: any, ctx: any = {}) {
     );
     markGenerationCompleted(uid, historyId, {
       status: "completed",
-      images: scoredImages as any,
+      images: uploadedImages as any,
       isPublic: body?.isPublic === true,
     }).catch((e: any) =>
       console.error(
@@ -2023,8 +2008,7 @@ export async function generateImage(uid: string, body: any, ctx: any = {}) {
   }
 
   return {
-    images: scoredImages,
-    aestheticScore: highestScore,
+    images: uploadedImages,
     historyId,
     model: modelBase,
     status: "completed",
@@ -2251,22 +2235,18 @@ export async function multiangle(uid: string, body: any, ctx: any = {}) {
     uploadedImages.push(...outputUrls.map((out, i) => ({ id: `replicate-${Date.now()}-${i + 1}`, url: out, originalUrl: out })));
   }
 
-  const scoredImages = await aestheticScoreService.scoreImages(uploadedImages);
-  const highestScore = aestheticScoreService.getHighestScore(scoredImages);
-
   const updateData: any = {
     status: "completed",
-    images: scoredImages as any,
-    aestheticScore: highestScore,
+    images: uploadedImages as any,
     updatedAt: new Date().toISOString(),
   };
 
   await generationHistoryRepository.update(uid, historyId, updateData);
-  try { await replicateRepository.updateGenerationRecord(legacyId, { status: "completed", images: scoredImages as any }); } catch { }
+  try { await replicateRepository.updateGenerationRecord(legacyId, { status: "completed", images: uploadedImages as any }); } catch { }
 
   markGenerationCompleted(uid, historyId, {
     status: "completed",
-    images: scoredImages as any,
+    images: uploadedImages as any,
     isPublic: body?.isPublic === true,
   }).catch(console.error);
 
@@ -2293,8 +2273,7 @@ export async function multiangle(uid: string, body: any, ctx: any = {}) {
   }
 
   return {
-    images: scoredImages,
-    aestheticScore: highestScore,
+    images: uploadedImages,
     historyId,
     model: modelBase,
     status: "completed",
@@ -2521,22 +2500,18 @@ export async function nextScene(uid: string, body: any, ctx: any = {}) {
     uploadedImages.push(...outputUrls.map((out, i) => ({ id: `replicate-${Date.now()}-${i + 1}`, url: out, originalUrl: out })));
   }
 
-  const scoredImages = await aestheticScoreService.scoreImages(uploadedImages);
-  const highestScore = aestheticScoreService.getHighestScore(scoredImages);
-
   const updateData: any = {
     status: "completed",
-    images: scoredImages as any,
-    aestheticScore: highestScore,
+    images: uploadedImages as any,
     updatedAt: new Date().toISOString(),
   };
 
   await generationHistoryRepository.update(uid, historyId, updateData);
-  try { await replicateRepository.updateGenerationRecord(legacyId, { status: "completed", images: scoredImages as any }); } catch { }
+  try { await replicateRepository.updateGenerationRecord(legacyId, { status: "completed", images: uploadedImages as any }); } catch { }
 
   markGenerationCompleted(uid, historyId, {
     status: "completed",
-    images: scoredImages as any,
+    images: uploadedImages as any,
     isPublic: body?.isPublic === true,
   }).catch(console.error);
 
@@ -2563,8 +2538,7 @@ export async function nextScene(uid: string, body: any, ctx: any = {}) {
   }
 
   return {
-    images: scoredImages,
-    aestheticScore: highestScore,
+    images: uploadedImages,
     historyId,
     model: modelBase,
     status: "completed",
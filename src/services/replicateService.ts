@@ -19,12 +19,16 @@ import { creditsRepository } from "../repository/creditsRepository";
 import { creditsService } from "./creditsService";
 import { computeWanVideoCost } from "../utils/pricing/wanPricing";
 import { syncToMirror, updateMirror } from "../utils/mirrorHelper";
-import { aestheticScoreService } from "./aestheticScoreService";
-import { markGenerationCompleted } from "./generationHistoryService";
+import {
+  markGenerationCompleted,
+  reportProviderProgress,
+} from "./generationHistoryService";
 import {
   validateGenerationRequest,
   estimateFileSize,
 } from "../utils/validationHelpers";
+import { buildProviderWebhookCallback } from "../utils/providerWebhooks";
+import { providerWebhookCallbacksRepository } from "../repository/providerWebhookCallbacksRepository";
 
 const DEFAULT_BG_MODEL_A =
   "851-labs/background-remover:a029dff38972b5fda4ec5d75d7d1cd25aeff621d2cf4946a41055d7db66b80bc";
@@ -55,6 +59,22 @@ function composeModelSpec(modelBase: string, maybeVersion?: string): string {
   return version ? `${modelBase}:${version}` : modelBase;
 }
 
+// Queue submits subscribe to the terminal event (when enabled) so predictions finish without client polling
+async function createPredictionWithWebhook(
+  replicate: any,
+  uid: string,
+  params: Record<string, any>,
+) {
+  const callback = buildProviderWebhookCallback("replicate", uid);
+  const pred = await replicate.predictions.create(
+    callback
+      ? { ...params, webhook: callback.url, webhook_events_filter: ["completed"] }
+      : params,
+  );
+  if (callback) await providerWebhookCallbacksRepository.bindCallback(callback, (pred as any)?.id);
+  return pred;
+}
+
 function clamp(n: any, min: number, max: number): number {
   const x = Number(n);
   if (Number.isNaN(x)) return min;
@@ -380,26 +400,22 @@ export async function removeBackground(
       originalUrl: outputUrl,
     } as any,
   ];
-  const scoredImages = await aestheticScoreService.scoreImages(images);
-  const highestScore = aestheticScoreService.getHighestScore(scoredImages);
 
   await generationHistoryRepository.update(uid, historyId, {
     status: "completed",
-    images: scoredImages,
-    aestheticScore: highestScore,
+    images,
     updatedAt: new Date().toISOString(), // Set completion time for proper sorting
   } as any);
   try {
-    console.log("[Replicate.removeBackground] History updated with scores", {
+    console.log("[Replicate.removeBackground] History updated", {
       historyId,
-      imageCount: scoredImages.length,
-      highestScore,
+      imageCount: images.length,
     });
   } catch {}
   try {
     await replicateRepository.updateGenerationRecord(legacyId, {
       status: "completed",
-      images: scoredImages as any,
+      images: images as any,
     });
   } catch {}
 
@@ -411,7 +427,7 @@ export async function removeBackground(
     );
     markGenerationCompleted(uid, historyId, {
       status: "completed",
-      images: scoredImages as any,
+      images: images as any,
       isPublic: body?.isPublic === true,
     }).catch((e: any) =>
       console.error(
@@ -456,8 +472,7 @@ export async function removeBackground(
   }
 
   return {
-    images: scoredImages,
-    aestheticScore: highestScore,
+    images,
     historyId,
     model: modelBase,
     status: "completed",
@@ -958,16 +973,11 @@ export async function upscale(uid: string, body: any, ctx: any = {}) {
     );
   }
 
-  // Score the images for aesthetic quality (upscale function)
-  const scoredImages = await aestheticScoreService.scoreImages(uploadedImages);
-  const highestScore = aestheticScoreService.getHighestScore(scoredImages);
-
   // Preserve inputImages if they were already saved (don't overwrite them)
   const existing = await generationHistoryRepository.get(uid, historyId);
   const updateData: any = {
     status: "completed",
-    images: scoredImages as any,
-    aestheticScore: highestScore,
+    images: uploadedImages as any,
     updatedAt: new Date().toISOString(), // Set completion time for proper sorting
   };
   // Preserve inputImages if they exist
@@ -981,16 +991,15 @@ export async function upscale(uid: string, body: any, ctx: any = {}) {
 
   await generationHistoryRepository.update(uid, historyId, updateData);
   try {
-    console.log("[Replicate.upscale] History updated with scores", {
+    console.log("[Replicate.upscale] History updated", {
       historyId,
-      imageCount: scoredImages.length,
-      highestScore,
+      imageCount: uploadedImages.length,
     });
   } catch {}
   try {
     await replicateRepository.updateGenerationRecord(legacyId, {
       status: "completed",
-      images: scoredImages as any,
+      images: uploadedImages as any,
     });
   } catch {}
   // Trigger optimization and re-enqueue mirror update (non-blocking)
@@ -1001,7 +1010,7 @@ export async function upscale(uid: string, body: any, ctx: any = {}) {
     );
     markGenerationCompleted(uid, historyId, {
       status: "completed",
-      images: scoredImages as any,
+      images: uploadedImages as any,
       isPublic: body?.isPublic === true,
     }).catch((e: any) =>
       console.error(
@@ -1044,8 +1053,7 @@ export async function upscale(uid: string, body: any, ctx: any = {}) {
   }
 
   return {
-    images: scoredImages,
-    aestheticScore: highestScore,
+    images: uploadedImages,
     historyId,
     model: modelBase,
     status: "completed",
@@ -1341,13 +1349,9 @@ export async function multiangle(uid: string, body: any, ctx: any = {}) {
     );
   }
 
-  const scoredImages = await aestheticScoreService.scoreImages(uploadedImages);
-  const highestScore = aestheticScoreService.getHighestScore(scoredImages);
-
   const updateData: any = {
     status: "completed",
-    images: scoredImages as any,
-    aestheticScore: highestScore,
+    images: uploadedImages as any,
     updatedAt: new Date().toISOString(),
   };
 
@@ -1355,13 +1359,13 @@ export async function multiangle(uid: string, body: any, ctx: any = {}) {
   try {
     await replicateRepository.updateGenerationRecord(legacyId, {
       status: "completed",
-      images: scoredImages as any,
+      images: uploadedImages as any,
     });
   } catch {}
 
   markGenerationCompleted(uid, historyId, {
     status: "completed",
-    images: scoredImages as any,
+    images: uploadedImages as any,
     isPublic: body?.isPublic === true,
   }).catch(console.error);
 
@@ -1393,8 +1397,7 @@ export async function multiangle(uid: string, body: any, ctx: any = {}) {
   }
 
   return {
-    images: scoredImages,
-    aestheticScore: highestScore,
+    images: uploadedImages,
     historyId,
     model: modelBase,
     status: "completed",
@@ -1702,13 +1705,9 @@ export async function nextScene(uid: string, body: any, ctx: any = {}) {
     );
   }
 
-  const scoredImages = await aestheticScoreService.scoreImages(uploadedImages);
-  const highestScore = aestheticScoreService.getHighestScore(scoredImages);
-
   const updateData: any = {
     status: "completed",
-    images: scoredImages as any,
-    aestheticScore: highestScore,
+    images: uploadedImages as any,
     updatedAt: new Date().toISOString(),
   };
 
@@ -1716,13 +1715,13 @@ export async function nextScene(uid: string, body: any, ctx: any = {}) {
   try {
     await replicateRepository.updateGenerationRecord(legacyId, {
       status: "completed",
-      images: scoredImages as any,
+      images: uploadedImages as any,
     });
   } catch {}
 
   markGenerationCompleted(uid, historyId, {
     status: "completed",
-    images: scoredImages as any,
+    images: uploadedImages as any,
     isPublic: body?.isPublic === true,
   }).catch(console.error);
 
@@ -1754,8 +1753,7 @@ export async function nextScene(uid: string, body: any, ctx: any = {}) {
   }
 
   return {
-    images: scoredImages,
-    aestheticScore: highestScore,
+    images: uploadedImages,
     historyId,
     model: modelBase,
     status: "completed",
@@ -3818,15 +3816,11 @@ export async function generateImage(uid: string, body: any, ctx: any = {}) {
     );
   }
 
-  // Score the images for aesthetic quality (generateImage function)
-  const scoredImages = await aestheticScoreService.scoreImages(uploadedImages);
-  const highestScore = aestheticScoreService.getHighestScore(scoredImages);
   // Preserve inputImages if they were already saved (don't overwrite them)
   const existing = await generationHistoryRepository.get(uid, historyId);
   const updateData: any = {
     status: "completed",
-    images: scoredImages as any,
-    aestheticScore: highestScore,
+    images: uploadedImages as any,
   };
   // Preserve inputImages if they exist
   if (
@@ -3838,16 +3832,15 @@ export async function generateImage(uid: string, body: any, ctx: any = {}) {
   }
   await generationHistoryRepository.update(uid, historyId, updateData);
   try {
-    console.log("[Replicate.generateImage] History updated with scores", {
+    console.log("[Replicate.generateImage] History updated", {
       historyId,
-      imageCount: scoredImages.length,
-      highestScore,
+      imageCount: uploadedImages.length,
     });
   } catch {}
   try {
     await replicateRepository.updateGenerationRecord(legacyId, {
       status: "completed",
-      images: scoredImages as any,
+      images: uploadedImages as any,
     });
   } catch {}
   // Trigger optimization and re-enqueue mirror update (non-blocking)
@@ -3858,7 +3851,7 @@ export async function generateImage(uid: string, body: any, ctx: any = {}) {
     );
     markGenerationCompleted(uid, historyId, {
       status: "completed",
-      images: scoredImages as any,
+      images: uploadedImages as any,
       isPublic: body?.isPublic === true,
     }).catch((e: any) =>
       console.error(
@@ -3907,8 +3900,7 @@ export async function generateImage(uid: string, body: any, ctx: any = {}) {
   }
 
   return {
-    images: scoredImages,
-    aestheticScore: highestScore,
+    images: uploadedImages,
     historyId,
     model: modelBase,
     status: "completed",
@@ -4093,7 +4085,9 @@ export async function qwenImageEditSubmit(
         } catch (vErr) {
           /* ignore */
         }
-        const pred = await replicate.predictions.create(
+        const pred = await createPredictionWithWebhook(
+          replicate,
+          uid,
           version ? { version, input } : { model: candidate, input },
         );
         predictionId = (pred as any)?.id || "";
@@ -4339,7 +4333,9 @@ export async function wanT2vSubmit(
       modelBase,
       hasVersion: !!version,
     });
-    const pred = await replicate.predictions.create(
+    const pred = await createPredictionWithWebhook(
+      replicate,
+      uid,
       version ? { version, input } : { model: modelBase, input },
     );
     predictionId = (pred as any)?.id || "";
@@ -4502,7 +4498,9 @@ export async function wanI2vSubmit(
       modelBase,
       hasVersion: !!version,
     });
-    const pred = await replicate.predictions.create(
+    const pred = await createPredictionWithWebhook(
+      replicate,
+      uid,
       version ? { version, input } : { model: modelBase, input },
     );
     predictionId = (pred as any)?.id || "";
@@ -4540,6 +4538,11 @@ export async function replicateQueueStatus(
       requestId,
       status: status.status,
     });
+    if (status.status === "starting" || status.status === "processing") {
+      void reportProviderProgress(uid, "replicate", requestId, {
+        state: status.status,
+      });
+    }
 
     // STRICT CREDIT DEDUCTION: If status is succeeded, we must finalize (debit) immediately
     if (status.status === "succeeded") {
@@ -4715,9 +4718,7 @@ export async function replicateQueueResult(
       storagePath,
       originalUrl: outputUrl,
     };
-    // Score queued video result
-    const scoredVideos = await aestheticScoreService.scoreVideos([videoItem]);
-    const highestScore = aestheticScoreService.getHighestScore(scoredVideos);
+    const videos = [videoItem];
     // Get current history to preserve duration/resolution/quality/inputImages if they exist
     const currentHistory = await generationHistoryRepository
       .get(uid, historyId)
@@ -4735,8 +4736,7 @@ export async function replicateQueueResult(
         : undefined;
     await generationHistoryRepository.update(uid, historyId, {
       status: "completed",
-      videos: scoredVideos,
-      aestheticScore: highestScore,
+      videos,
       // Preserve duration and resolution from original history if they exist
       ...(currentHistory && (currentHistory as any)?.duration
         ? { duration: (currentHistory as any).duration }
@@ -4790,6 +4790,12 @@ export async function replicateQueueResult(
     }
     // Robust mirror sync with retry logic
     await syncToMirror(uid, historyId);
+    markGenerationCompleted(uid, historyId, {
+      status: "completed",
+      videos,
+    }).catch((err) =>
+      console.error("[replicateQueueResult] Video completion failed:", err),
+    );
     // Compute and write debit (use stored history fields)
     let debitedCredits: number | null = null;
     let debitStatus: "WRITTEN" | "SKIPPED" | "ERROR" | null = null;
@@ -5175,7 +5181,7 @@ export async function replicateQueueResult(
       debitStatus = "ERROR";
     }
     return {
-      videos: scoredVideos,
+      videos,
       historyId,
       model: (located.item as any)?.model,
       requestId,
@@ -5279,7 +5285,9 @@ export async function klingT2vSubmit(
       version: version || "latest",
       input,
     });
-    const pred = await replicate.predictions.create(
+    const pred = await createPredictionWithWebhook(
+      replicate,
+      uid,
       version ? { version, input } : { model: modelBase, input },
     );
     predictionId = (pred as any)?.id || "";
@@ -5495,7 +5503,9 @@ export async function klingI2vSubmit(
   let predictionId = "";
   try {
     const version = await getLatestModelVersion(replicate, modelBase);
-    const pred = await replicate.predictions.create(
+    const pred = await createPredictionWithWebhook(
+      replicate,
+      uid,
       version ? { version, input } : { model: modelBase, input },
     );
     predictionId = (pred as any)?.id || "";
@@ -5616,7 +5626,9 @@ export async function klingLipsyncSubmit(
   let predictionId = "";
   try {
     const version = await getLatestModelVersion(replicate, modelBase);
-    const pred = await replicate.predictions.create(
+    const pred = await createPredictionWithWebhook(
+      replicate,
+      uid,
       version ? { version, input } : { model: modelBase, input },
     );
     predictionId = (pred as any)?.id || "";
@@ -5792,7 +5804,9 @@ export async function wanAnimateReplaceSubmit(
     } catch {}
 
     const version = await getLatestModelVersion(replicate, modelBase);
-    const pred = await replicate.predictions.create(
+    const pred = await createPredictionWithWebhook(
+      replicate,
+      uid,
       version ? { version, input } : { model: modelBase, input },
     );
     predictionId = (pred as any)?.id || "";
@@ -5974,7 +5988,9 @@ export async function wanAnimateAnimationSubmit(
     } catch {}
 
     const version = await getLatestModelVersion(replicate, modelBase);
-    const pred = await replicate.predictions.create(
+    const pred = await createPredictionWithWebhook(
+      replicate,
+      uid,
       version ? { version, input } : { model: modelBase, input },
     );
     predictionId = (pred as any)?.id || "";
@@ -6214,7 +6230,9 @@ export async function seedanceT2vSubmit(
       version: version || "latest",
       input,
     });
-    const pred = await replicate.predictions.create(
+    const pred = await createPredictionWithWebhook(
+      replicate,
+      uid,
       version ? { version, input } : { model: modelBase, input },
     );
     predictionId = (pred as any)?.id || "";
@@ -6522,7 +6540,9 @@ export async function seedanceI2vSubmit(
       version: version || "latest",
       inputKeys: Object.keys(input),
     });
-    const pred = await replicate.predictions.create(
+    const pred = await createPredictionWithWebhook(
+      replicate,
+      uid,
       version ? { version, input } : { model: modelBase, input },
     );
     predictionId = (pred as any)?.id || "";
@@ -6765,7 +6785,9 @@ export async function seedanceProFastT2vSubmit(
       version: version || "latest",
       input,
     });
-    const pred = await replicate.predictions.create(
+    const pred = await createPredictionWithWebhook(
+      replicate,
+      uid,
       version ? { version, input } : { model: modelBase, input },
     );
     predictionId = (pred as any)?.id || "";
@@ -6991,7 +7013,9 @@ export async function seedanceProFastI2vSubmit(
       version: version || "latest",
       input,
     });
-    const pred = await replicate.predictions.create(
+    const pred = await createPredictionWithWebhook(
+      replicate,
+      uid,
       version ? { version, input } : { model: modelBase, input },
     );
     predictionId = (pred as any)?.id || "";
@@ -7194,7 +7218,9 @@ export async function pixverseT2vSubmit(
       inputKeys: Object.keys(cleanInput),
     });
 
-    const pred = await replicate.predictions.create(
+    const pred = await createPredictionWithWebhook(
+      replicate,
+      uid,
       version
         ? { version, input: cleanInput }
         : { model: modelBase, input: cleanInput },
@@ -7396,7 +7422,9 @@ export async function pixverseI2vSubmit(
   let predictionId = "";
   try {
     const version = await getLatestModelVersion(replicate, modelBase);
-    const pred = await replicate.predictions.create(
+    const pred = await createPredictionWithWebhook(
+      replicate,
+      uid,
       version ? { version, input } : { model: modelBase, input },
     );
     predictionId = (pred as any)?.id || "";
@@ -7502,7 +7530,9 @@ export async function ltx23FastT2vSubmit(
       version: version || "latest",
       input,
     });
-    const pred = await replicate.predictions.create(
+    const pred = await createPredictionWithWebhook(
+      replicate,
+      uid,
       version ? { version, input } : { model: modelBase, input },
     );
     predictionId = (pred as any)?.id || "";
@@ -7688,7 +7718,9 @@ export async function ltx23FastI2vSubmit(
       version: version || "latest",
       input,
     });
-    const pred = await replicate.predictions.create(
+    const pred = await createPredictionWithWebhook(
+      replicate,
+      uid,
       version ? { version, input } : { model: modelBase, input },
     );
     predictionId = (pred as any)?.id || "";
@@ -7824,7 +7856,9 @@ export async function ltx23ProT2vSubmit(
   let predictionId = "";
   try {
     const version = await getLatestModelVersion(replicate, modelBase);
-    const pred = await replicate.predictions.create(
+    const pred = await createPredictionWithWebhook(
+      replicate,
+      uid,
       version ? { version, input } : { model: modelBase, input },
     );
     predictionId = (pred as any)?.id || "";
@@ -7933,7 +7967,9 @@ export async function ltx23ProI2vSubmit(
   let predictionId = "";
   try {
     const version = await getLatestModelVersion(replicate, modelBase);
-    const pred = await replicate.predictions.create(
+    const pred = await createPredictionWithWebhook(
+      replicate,
+      uid,
       version ? { version, input } : { model: modelBase, input },
     );
     predictionId = (pred as any)?.id || "";
@@ -13,9 +13,11 @@ import { uploadFromUrlToZata, uploadDataUriToZata } from "../utils/storage/zataU
 import { creditsRepository } from "../repository/creditsRepository";
 import { computeRunwayCostFromHistoryModel } from "../utils/pricing/runwayPricing";
 import { syncToMirror } from "../utils/mirrorHelper";
-import { aestheticScoreService } from "./aestheticScoreService";
-import { markGenerationCompleted } from "./generationHistoryService";
+import { markGenerationCompleted, markGenerationFailed, reportProviderProgress } from "./generationHistoryService";
 import { validateGenerationRequest, estimateFileSize } from "../utils/validationHelpers";
+import { isProviderWebhookEnabled } from "../utils/providerWebhooks";
+import { backgroundTaskQueue } from "../utils/backgroundTaskQueue";
+import { JOB_QUEUES, RunwayTaskWatchJobPayload, runwayTaskWatchJobId } from "../config/jobQueues";
 //
 
 // (SDK handles base/version internally)
@@ -157,6 +159,7 @@ async function textToImage(
   } catch { }
   // Store provider identifiers on history
   await generationHistoryRepository.update(uid, historyId, { provider: 'runway', providerTaskId: created.id } as any);
+  watchTask(uid, created.id);
 
   // Persist user uploaded input images (if any)
   if (uploadedImages && uploadedImages.length > 0) {
@@ -200,11 +203,18 @@ async function getStatus(uid: string, id: string): Promise<any> {
           : undefined,
       });
     } catch { }
+    if (task.status === 'PENDING' || task.status === 'THROTTLED' || task.status === 'RUNNING') {
+      void reportProviderProgress(uid, 'runway', id, {
+        state: String(task.status).toLowerCase(),
+        ...(typeof (task as any).progress === 'number' ? { percent: Math.round((task as any).progress * 100) } : {}),
+      });
+    }
     // When completed, attach outputs into history and mirror
     if (task.status === 'SUCCEEDED') {
       // Find history by providerTaskId (requires uid-scoped search)
       const found = await generationHistoryRepository.findByProviderTaskId(uid, 'runway', id);
-      if (found) {
+      // Skip if already finalized (task watcher, webhook or an earlier poll)
+      if (found && found.item?.status !== 'completed') {
         const outputs = (task as any).output || [];
         const creator = await authRepository.getUserById(uid);
         const username = creator?.username || uid;
@@ -224,17 +234,13 @@ async function getStatus(uid: string, id: string): Promise<any> {
             }
           }));
 
-          // Score the images
-          const scoredImages = await aestheticScoreService.scoreImages(storedImages);
-          const highestScore = aestheticScoreService.getHighestScore(scoredImages);
-
-          await generationHistoryRepository.update(uid, found.id, { status: 'completed', images: scoredImages, aestheticScore: highestScore } as any);
-          try { console.log('[Runway] History updated with scores', { historyId: found.id, imageCount: scoredImages.length, highestScore }); } catch { }
+          await generationHistoryRepository.update(uid, found.id, { status: 'completed', images: storedImages } as any);
+          try { console.log('[Runway] History updated', { historyId: found.id, imageCount: storedImages.length }); } catch { }
 
           // Trigger image optimization (thumbnails, AVIF, blur placeholders) in background
           markGenerationCompleted(uid, found.id, {
             status: "completed",
-            images: scoredImages,
+            images: storedImages,
           }).catch(err => console.error('[Runway] Image optimization failed:', err));
 
           try {
@@ -255,12 +261,14 @@ async function getStatus(uid: string, id: string): Promise<any> {
             }
           }));
 
-          // Score the videos
-          const scoredVideos = await aestheticScoreService.scoreVideos(storedVideos);
-          const highestScore = aestheticScoreService.getHighestScore(scoredVideos);
+          await generationHistoryRepository.update(uid, found.id, { status: 'completed', videos: storedVideos } as any);
+          try { console.log('[Runway] Video history updated', { historyId: found.id, videoCount: storedVideos.length }); } catch { }
+
+          markGenerationCompleted(uid, found.id, {
+            status: "completed",
+            videos: storedVideos,
+          }).catch(err => console.error('[Runway] Video completion failed:', err));
 
-          await generationHistoryRepository.update(uid, found.id, { status: 'completed', videos: scoredVideos, aestheticScore: highestScore } as any);
-          try { console.log('[Runway] Video history updated with scores', { historyId: found.id, videoCount: scoredVideos.length, highestScore }); } catch { }
           try {
             const { cost, pricingVersion, meta } = computeRunwayCostFromHistoryModel(found.item.model);
             await creditsRepository.writeDebitIfAbsent(uid, found.id, cost, 'runway.video', { ...meta, historyId: found.id, provider: 'runway', pricingVersion });
@@ -287,6 +295,59 @@ async function getStatus(uid: string, id: string): Promise<any> {
   }
 }
 
+const WATCH_INTERVAL_MS = 10_000;
+const WATCH_TIMEOUT_MS = 30 * 60 * 1000;
+
+async function scheduleTaskCheck(payload: RunwayTaskWatchJobPayload): Promise<void> {
+  await backgroundTaskQueue.enqueue(JOB_QUEUES.runwayTaskWatch, payload, {
+    jobId: runwayTaskWatchJobId(payload),
+    delayMs: WATCH_INTERVAL_MS,
+    durable: true,
+  });
+}
+
+/**
+ * Runway has no completion callbacks. With provider webhooks enabled the gateway follows each task
+ * with delayed status checks on the runway-task-watch queue and finalizes it through getStatus, so
+ * the job completes even if the user closed the tab or the API restarted.
+ */
+function watchTask(uid: string, id: string): void {
+  if (!isProviderWebhookEnabled()) return;
+  scheduleTaskCheck({ uid, taskId: id, startedAt: Date.now(), check: 1 }).catch((e: any) =>
+    console.warn('[Runway] Failed to schedule task watch', { id, message: e?.message })
+  );
+}
+
+/** runway-task-watch job: one status check, then the next one unless the task is done. */
+async function runTaskWatchJob(payload: RunwayTaskWatchJobPayload): Promise<void> {
+  const { uid, taskId: id, startedAt } = payload;
+  try {
+    const task = await getStatus(uid, id);
+    const status = String(task?.status || '');
+    if (status === 'SUCCEEDED') return;
+    if (status === 'FAILED' || status === 'CANCELLED') {
+      await failTaskHistory(uid, id, (task as any)?.failure || `Runway task ${status.toLowerCase()}`);
+      return;
+    }
+  } catch (e: any) {
+    if (e instanceof ApiError && e.statusCode === 404) return;
+    console.warn('[Runway] Task watch poll failed', { id, message: e?.message });
+  }
+  if (Date.now() - startedAt >= WATCH_TIMEOUT_MS) {
+    console.warn('[Runway] Stopped watching task after timeout', { id });
+    return;
+  }
+  await scheduleTaskCheck({ ...payload, check: payload.check + 1 });
+}
+
+async function failTaskHistory(uid: string, id: string, error: string): Promise<void> {
+  const found = await generationHistoryRepository.findByProviderTaskId(uid, 'runway', id);
+  if (!found || found.item?.status !== 'generating') return;
+  await markGenerationFailed(uid, found.id, { status: 'failed', error }).catch((err) =>
+    console.warn('[Runway] Failed to mark history as failed', { id, message: err?.message })
+  );
+}
+
 async function videoGenerate(
   uid: string,
   body: any
@@ -342,6 +403,7 @@ async function videoGenerate(
       ...(imageToVideo?.ratio !== undefined ? { ratio: imageToVideo.ratio } : {}),
     } as any);
     await generationHistoryRepository.update(uid, historyId, { provider: 'runway', providerTaskId: created.id } as any);
+    watchTask(uid, created.id);
 
     // Persist input images
     try {
@@ -396,6 +458,7 @@ async function videoGenerate(
       ...(textToVideo?.ratio !== undefined ? { ratio: textToVideo.ratio } : {}),
     } as any);
     await generationHistoryRepository.update(uid, historyId, { provider: 'runway', providerTaskId: created.id } as any);
+    watchTask(uid, created.id);
     return {
       success: true,
       taskId: created.id,
@@ -421,6 +484,7 @@ async function videoGenerate(
       ...(videoToVideo?.ratio !== undefined ? { ratio: videoToVideo.ratio } : {}),
     } as any);
     await generationHistoryRepository.update(uid, historyId, { provider: 'runway', providerTaskId: created.id } as any);
+    watchTask(uid, created.id);
 
     // Persist input video and references
     try {
@@ -482,6 +546,7 @@ async function videoGenerate(
       ...(videoUpscale?.ratio !== undefined ? { ratio: videoUpscale.ratio } : {}),
     } as any);
     await generationHistoryRepository.update(uid, historyId, { provider: 'runway', providerTaskId: created.id } as any);
+    watchTask(uid, created.id);
 
     // Persist input video used for upscale so preview shows uploads
     try {
@@ -642,6 +707,7 @@ async function characterPerformance(
   } as any);
 
   await generationHistoryRepository.update(uid, historyId, { provider: 'runway', providerTaskId: created.id } as any);
+  watchTask(uid, created.id);
 
   // Persist input character and reference
   try {
@@ -694,6 +760,8 @@ async function characterPerformance(
 export const runwayService = {
   textToImage,
   getStatus,
+  failTaskHistory,
+  runTaskWatchJob,
   videoGenerate,
   characterPerformance,
 };
@@ -0,0 +1,354 @@
+import crypto from 'crypto';
+import { env } from '../config/env';
+import { generationHistoryRepository } from '../repository/generationHistoryRepository';
+import { shareLinkRepository } from '../repository/shareLinkRepository';
+import { authRepository } from '../repository/auth/authRepository';
+import { libraryCollectionService } from './libraryCollectionService';
+import { GenerationHistoryItem, GenerationStatus, Visibility } from '../types/generate';
+import type { ShareLinkRecord, SharedCollectionView, SharedGenerationView, SharedMediaKind } from '../types/share';
+import { ApiError } from '../utils/errorHandler';
+import { extractKeyFromUrl } from '../utils/storage/zataDelete';
+
+/**
+ * Unlisted sharing. A private item with at least one live link is marked
+ * Visibility.Unlisted; revoking the last link flips it back to Private. Public items keep
+ * their visibility. Collection links leave item visibility alone and resolve the
+ * collection's contents at view time. Viewers never see storage keys or URLs: media is served
+ * through sealed, expiring URLs scoped to the link (see sealMediaRef).
+ */
+
+const MAX_ACTIVE_LINKS_PER_ITEM = 20;
+const MAX_SHARED_COLLECTION_ITEMS = 500;
+export const MAX_SHARE_EXPIRY_HOURS = 24 * 365;
+// Lifetime of a shared media URL; viewers get fresh ones with every (uncached) view
+const MEDIA_URL_TTL_MS = 60 * 60 * 1000;
+export const MAX_SHARE_LINKS_PAGE_SIZE = 100;
+
+function isActive(link: ShareLinkRecord, now = Date.now()): boolean {
+  return !link.revokedAt && (!link.expiresAt || Date.parse(link.expiresAt) > now);
+}
+
+function generateToken(): string {
+  return crypto.randomBytes(18).toString('base64url');
+}
+
+function mediaKey(): Buffer | null {
+  const secret = env.shareMediaSecret || env.zataSecretAccessKey;
+  if (!secret) return null;
+  return crypto.createHash('sha256').update(`share-media:${secret}`).digest();
+}
+
+/**
+ * Seal a media location into an opaque ref for GET /api/share/:token/media/:ref. The ref is
+ * AES-GCM encrypted, so it neither reveals the storage key nor can be forged, and it only opens
+ * for the link it was issued under and until it expires.
+ */
+function sealMediaRef(token: string, location: string, now: number): string | undefined {
+  const key = mediaKey();
+  if (!key) return undefined;
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const body = Buffer.concat([cipher.update(JSON.stringify({ t: token, l: location, e: now + MEDIA_URL_TTL_MS }), 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), body]).toString('base64url');
+}
+
+function openMediaRef(token: string, ref: string): string | null {
+  const key = mediaKey();
+  const raw = Buffer.from(ref || '', 'base64url');
+  if (!key || raw.length <= 28) return null;
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, raw.subarray(0, 12));
+    decipher.setAuthTag(raw.subarray(12, 28));
+    const payload = JSON.parse(Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]).toString('utf8'));
+    if (payload?.t !== token || typeof payload.l !== 'string' || !(payload.e > Date.now())) return null;
+    return payload.l;
+  } catch {
+    return null;
+  }
+}
+
+/** Link-scoped URL for one media item; the storage key when it is ours, the stored URL otherwise. */
+function toSharedMediaUrl(link: ShareLinkRecord, now: number, url?: string, storagePath?: string): string | undefined {
+  const location = (url && extractKeyFromUrl(url)) || storagePath || url;
+  if (!location || location.startsWith('data:')) return undefined;
+  const ref = sealMediaRef(link.token, location, now);
+  if (!ref) return undefined;
+  const base = (env.apiGatewayUrl || '').replace(/\/$/, '');
+  return `${base}/api/share/${encodeURIComponent(link.token)}/media/${ref}`;
+}
+
+function findMedia(item: GenerationHistoryItem, mediaId: string): ShareLinkRecord['media'] | null {
+  const lists: Array<[SharedMediaKind, Array<{ id?: string; url: string; storagePath?: string }>]> = [
+    ['image', item.images || []],
+    ['video', item.videos || []],
+    ['audio', item.audios || []],
+  ];
+  for (const [kind, media] of lists) {
+    const match = media.find((m) => m.id === mediaId || m.url === mediaId || m.storagePath === mediaId);
+    if (match) return { kind, ...(match.id ? { id: match.id } : {}), url: match.url };
+  }
+  return null;
+}
+
+async function getShareableItem(uid: string, historyId: string): Promise<GenerationHistoryItem> {
+  const item = await generationHistoryRepository.get(uid, historyId);
+  if (!item || item.isDeleted === true) {
+    throw new ApiError('History item not found', 404);
+  }
+  if (item.status !== GenerationStatus.Completed) {
+    throw new ApiError('Only completed generations can be shared', 400);
+  }
+  return item;
+}
+
+async function getSharerProfile(uid: string, createdBy?: GenerationHistoryItem['createdBy']) {
+  try {
+    const owner = createdBy?.uid ? createdBy : await authRepository.getUserById(uid);
+    if (owner) {
+      return {
+        username: owner.username,
+        displayName: (owner as any).displayName,
+        photoURL: owner.photoURL,
+      };
+    }
+  } catch {
+    // Creator details are decorative; serve the share without them
+  }
+  return undefined;
+}
+
+/** Share one history item (optionally one media item in it), or with `collectionId` a collection. */
+export async function createShareLink(
+  uid: string,
+  input: {
+    historyId?: string;
+    collectionId?: string;
+    mediaId?: string;
+    expiresInHours?: number;
+    includePrompt?: boolean;
+  }
+): Promise<ShareLinkRecord> {
+  let item: GenerationHistoryItem | undefined;
+  let media: ShareLinkRecord['media'];
+  if (input.collectionId) {
+    await libraryCollectionService.getCollection(uid, input.collectionId);
+  } else if (input.historyId) {
+    item = await getShareableItem(uid, input.historyId);
+    if (input.mediaId) {
+      media = findMedia(item, input.mediaId) || undefined;
+      if (!media) throw new ApiError('Media item not found in this generation', 404);
+    }
+  } else {
+    throw new ApiError('historyId or collectionId is required', 400);
+  }
+
+  const existing = await shareLinkRepository.listByUser(
+    uid,
+    input.collectionId ? { collectionId: input.collectionId } : { historyId: input.historyId }
+  );
+  if (existing.filter((l) => isActive(l)).length >= MAX_ACTIVE_LINKS_PER_ITEM) {
+    throw new ApiError(
+      `At most ${MAX_ACTIVE_LINKS_PER_ITEM} active share links per ${input.collectionId ? 'collection' : 'generation'}`,
+      400
+    );
+  }
+
+  const now = Date.now();
+  const link = await shareLinkRepository.createLink({
+    token: generateToken(),
+    uid,
+    ...(input.collectionId ? { collectionId: input.collectionId } : { historyId: input.historyId }),
+    ...(media ? { media } : {}),
+    includePrompt: input.includePrompt === true,
+    createdAt: new Date(now).toISOString(),
+    ...(input.expiresInHours ? { expiresAt: new Date(now + input.expiresInHours * 3600 * 1000).toISOString() } : {}),
+    viewCount: 0,
+  });
+
+  if (item && item.isPublic !== true && item.visibility !== Visibility.Unlisted) {
+    await generationHistoryRepository.setVisibility(uid, item.id, Visibility.Unlisted);
+  }
+  return link;
+}
+
+/** The owner's links, newest first; `cursor` is the `nextCursor` of the previous page. */
+export async function listShareLinks(
+  uid: string,
+  filter: { historyId?: string; collectionId?: string } = {},
+  page: { limit?: number; cursor?: string } = {}
+): Promise<{ links: Array<ShareLinkRecord & { active: boolean }>; nextCursor: string | null }> {
+  const limit = Math.min(Math.max(Number(page.limit || 50), 1), MAX_SHARE_LINKS_PAGE_SIZE);
+  const { links, nextCursor } = await shareLinkRepository.listPageByUser(uid, filter, { limit, cursor: page.cursor });
+  const now = Date.now();
+  return { links: links.map((l) => ({ ...l, active: isActive(l, now) })), nextCursor };
+}
+
+export async function revokeShareLink(uid: string, token: string): Promise<ShareLinkRecord> {
+  const link = await shareLinkRepository.getLink(token);
+  if (!link || link.uid !== uid) {
+    throw new ApiError('Share link not found', 404);
+  }
+  if (link.revokedAt) return link;
+
+  const revokedAt = new Date().toISOString();
+  await shareLinkRepository.revokeLink(token, revokedAt);
+  if (!link.historyId) return { ...link, revokedAt };
+
+  const remaining = (await shareLinkRepository.listByUser(uid, { historyId: link.historyId })).filter(
+    (l) => l.token !== token && isActive(l)
+  );
+  if (remaining.length === 0) {
+    const item = await generationHistoryRepository.get(uid, link.historyId);
+    if (item && item.visibility === Visibility.Unlisted && item.isPublic !== true) {
+      await generationHistoryRepository.setVisibility(uid, link.historyId, Visibility.Private);
+    }
+  }
+  return { ...link, revokedAt };
+}
+
+async function getViewableLink(token: string): Promise<ShareLinkRecord> {
+  const link = await shareLinkRepository.getLink(token);
+  if (!link || link.revokedAt) {
+    throw new ApiError('Share link not found', 404);
+  }
+  if (!isActive(link)) {
+    throw new ApiError('Share link has expired', 410);
+  }
+  return link;
+}
+
+/**
+ * Where a shared media URL points, checked against the link on every request so revoking or
+ * expiring the link cuts off its media immediately. Returns a storage key or, for media that
+ * never made it to storage, the URL recorded on the generation.
+ */
+export async function resolveSharedMedia(token: string, ref: string): Promise<string> {
+  const link = await getViewableLink(token);
+  const location = openMediaRef(link.token, ref);
+  if (!location) {
+    throw new ApiError('Media link is invalid or has expired', 403);
+  }
+  return location;
+}
+
+function recordView(token: string): void {
+  shareLinkRepository
+    .recordView(token, new Date().toISOString())
+    .catch((err) => console.warn('[Share] Failed to record view (non-fatal):', err?.message));
+}
+
+/** Resolve a token for an anonymous viewer and count the view. */
+export async function viewSharedLink(
+  token: string
+): Promise<{ item: SharedGenerationView } | { collection: SharedCollectionView }> {
+  const link = await getViewableLink(token);
+  if (link.collectionId) {
+    return { collection: await viewSharedCollection(link) };
+  }
+  return { item: await viewSharedGeneration(link) };
+}
+
+async function viewSharedGeneration(link: ShareLinkRecord): Promise<SharedGenerationView> {
+  const item = await generationHistoryRepository.get(link.uid, link.historyId!);
+  if (!item || item.isDeleted === true) {
+    throw new ApiError('Shared generation is no longer available', 404);
+  }
+
+  const now = Date.now();
+  const mediaUrl = (url?: string, storagePath?: string) => toSharedMediaUrl(link, now, url, storagePath);
+  const only = (kind: SharedMediaKind) => <T extends { url: string }>(media: T[] = []): T[] =>
+    link.media ? (link.media.kind === kind ? media.filter((m) => m.url === link.media!.url) : []) : media;
+
+  const images: SharedGenerationView['images'] = only('image')(item.images).flatMap((img) => {
+    const url = mediaUrl(img.avifUrl || img.url, img.storagePath);
+    return url ? [{ url, thumbnailUrl: mediaUrl(img.thumbnailUrl), width: img.width, height: img.height }] : [];
+  });
+  const videos: SharedGenerationView['videos'] = only('video')(item.videos).flatMap((vid) => {
+    const url = mediaUrl(vid.url, vid.storagePath);
+    return url ? [{ url, thumbnailUrl: mediaUrl(vid.thumbnailUrl || vid.posterUrl || vid.thumbUrl) }] : [];
+  });
+  const audios: SharedGenerationView['audios'] = only('audio')(item.audios).flatMap((aud) => {
+    const url = mediaUrl(aud.url, aud.storagePath);
+    return url ? [{ url }] : [];
+  });
+
+  if (link.media && images.length + videos.length + audios.length === 0) {
+    throw new ApiError('Shared media is no longer available', 404);
+  }
+
+  const creator = await getSharerProfile(link.uid, item.createdBy);
+  recordView(link.token);
+
+  return {
+    token: link.token,
+    historyId: item.id,
+    generationType: String(item.generationType),
+    model: item.model,
+    ...(link.includePrompt ? { prompt: item.userPrompt || item.prompt } : {}),
+    aspectRatio: item.aspectRatio || item.frameSize,
+    createdAt: item.createdAt,
+    ...(link.expiresAt ? { expiresAt: link.expiresAt } : {}),
+    viewCount: (link.viewCount || 0) + 1,
+    ...(creator ? { creator } : {}),
+    images,
+    videos,
+    audios,
+  };
+}
+
+async function viewSharedCollection(link: ShareLinkRecord): Promise<SharedCollectionView> {
+  let collection;
+  try {
+    collection = await libraryCollectionService.getCollection(link.uid, link.collectionId!);
+  } catch {
+    throw new ApiError('Shared collection is no longer available', 404);
+  }
+
+  const now = Date.now();
+  const mediaUrl = (url?: string, storagePath?: string) => toSharedMediaUrl(link, now, url, storagePath);
+  const resolved = await libraryCollectionService.resolveCollectionItems(link.uid, collection.id, MAX_SHARED_COLLECTION_ITEMS);
+  // Anonymous viewers only see finished work: no in-flight or failed generations, and nothing
+  // deleted since it was added (resolveCollectionItems already drops deleted generations)
+  const viewable = resolved.filter(
+    ({ generation }) => generation.status === GenerationStatus.Completed && generation.isDeleted !== true
+  );
+  const items: SharedCollectionView['items'] = viewable.flatMap(({ generation, media }) =>
+    media.flatMap((m) => {
+      const url = mediaUrl(m.url, m.storagePath);
+      if (!url) return [];
+      return [
+        {
+          type: m.type,
+          url,
+          thumbnailUrl: m.thumbnail && m.thumbnail !== m.url ? mediaUrl(m.thumbnail) : undefined,
+          model: generation.model,
+          ...(link.includePrompt ? { prompt: generation.userPrompt || generation.prompt } : {}),
+          createdAt: m.createdAt,
+        },
+      ];
+    })
+  );
+
+  const creator = await getSharerProfile(link.uid);
+  recordView(link.token);
+
+  return {
+    token: link.token,
+    collectionId: collection.id,
+    name: collection.name,
+    ...(collection.description ? { description: collection.description } : {}),
+    ...(collection.coverUrl ? { coverUrl: mediaUrl(collection.coverUrl) } : {}),
+    ...(link.expiresAt ? { expiresAt: link.expiresAt } : {}),
+    viewCount: (link.viewCount || 0) + 1,
+    ...(creator ? { creator } : {}),
+    items,
+  };
+}
+
+export const shareLinkService = {
+  createShareLink,
+  listShareLinks,
+  revokeShareLink,
+  viewSharedLink,
+  resolveSharedMedia,
+};
@@ -39,9 +39,14 @@ export class TemplateService {
         limit?: number;
         startAfter?: any;
         search?: string;
+        source?: 'designer' | 'canvas';
     }): Promise<{ templates: Template[]; lastDoc: any }> {
         let query = adminDb.collection(COLLECTION_TEMPLATES).orderBy('createdAt', 'desc');
 
+        if (params.source === 'canvas') {
+            query = query.where('source', '==', 'canvas');
+        }
+
         if (params.category) {
             query = query.where('categoryId', '==', params.category);
         }
@@ -59,7 +64,11 @@ export class TemplateService {
         }
 
         const snapshot = await query.get();
-        const templates = snapshot.docs.map(doc => doc.data() as Template);
+        let templates = snapshot.docs.map(doc => doc.data() as Template);
+        if (params.source !== 'canvas') {
+            // Designer templates predate the source field; canvas boards are not Fabric JSON
+            templates = templates.filter(template => template.source !== 'canvas');
+        }
 
         return {
             templates,
@@ -101,6 +110,26 @@ export class TemplateService {
         return template;
     }
 
+    /**
+     * Publish a canvas board as a template. The Fabric preview renderer cannot draw canvas
+     * elements, so the project's own thumbnail is used instead of generating one.
+     */
+    async createCanvasTemplate(data: Omit<Template, 'id' | 'createdAt' | 'updatedAt' | 'source'>): Promise<Template> {
+        const id = randomUUID();
+        const now = new Date();
+
+        const template: Template = {
+            ...data,
+            id,
+            source: 'canvas',
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        await adminDb.collection(COLLECTION_TEMPLATES).doc(id).set(template);
+        return template;
+    }
+
     /**
      * Update an existing template
      */
@@ -118,7 +147,7 @@ export class TemplateService {
         const updatedTemplate = updatedDoc.data() as Template;
 
         // Trigger preview generation if visual data changed
-        if (data.data || data.metadata) {
+        if ((data.data || data.metadata) && updatedTemplate.source !== 'canvas') {
             this.triggerPreviewGeneration(updatedTemplate);
         }
 
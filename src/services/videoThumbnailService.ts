@@ -8,6 +8,7 @@ import ffmpegPath from 'ffmpeg-static';
 const ffprobePath = require('ffprobe-static')?.path;
 import { uploadBufferToZata } from '../utils/storage/zataUpload';
 import sharp from 'sharp';
+import { generationHistoryRepository } from '../repository/generationHistoryRepository';
 
 /**
  * Generate a thumbnail from a video URL by extracting a frame from the middle of the video
@@ -212,3 +213,37 @@ export async function generateAndAttachThumbnail(
   }
 }
 
+/**
+ * video-thumbnail job: attach thumbnails to the videos of a history item that have none and
+ * merge them into history. Throws when some thumbnails are still missing so the queue retries.
+ * @param keyPrefix - Storage key prefix; defaults to the directory of each video's storagePath
+ */
+export async function attachHistoryThumbnails(uid: string, historyId: string, keyPrefix?: string): Promise<void> {
+  const item = await generationHistoryRepository.get(uid, historyId);
+  if (!item || (item as any).isDeleted === true || !Array.isArray(item.videos)) return;
+
+  const pending = (item.videos as any[]).filter((video) => video?.url && !video.thumbnailUrl);
+  if (pending.length === 0) return;
+
+  const patches: Array<{ url: string; fields: Record<string, any> }> = [];
+  let skipped = 0;
+  for (const video of pending) {
+    const prefix = keyPrefix || (video.storagePath ? path.posix.dirname(video.storagePath) : '');
+    if (!prefix || prefix === '.') {
+      // Provider-hosted video (storage upload failed): nowhere to put the thumbnail
+      skipped += 1;
+      continue;
+    }
+    const withThumbnail = await generateAndAttachThumbnail(video, prefix);
+    if (withThumbnail.thumbnailUrl) {
+      patches.push({ url: video.url, fields: { thumbnailUrl: withThumbnail.thumbnailUrl } });
+    }
+  }
+  if (patches.length > 0) {
+    await generationHistoryRepository.patchMedia(uid, historyId, { videos: patches });
+  }
+  const missing = pending.length - skipped - patches.length;
+  if (missing > 0) {
+    throw new Error(`${missing} video thumbnail(s) could not be generated`);
+  }
+}
@@ -8,7 +8,6 @@ import {
   uploadDataUriToZata,
   uploadFromUrlToZata,
 } from "../../../utils/storage/zataUpload";
-import { aestheticScoreService } from "../../aestheticScoreService";
 import { syncToMirror } from "../../../utils/mirrorHelper";
 
 // Replicate helper for output resolution
@@ -385,26 +384,22 @@ export const cadTo3d = async (
       },
     ];
 
-    const scoredImages = await aestheticScoreService.scoreImages(images);
-    const highestScore = aestheticScoreService.getHighestScore(scoredImages);
-
     // 6. Update History
     await generationHistoryRepository.update(uid, historyId, {
       status: "completed",
-      images: scoredImages,
-      aestheticScore: highestScore,
+      images,
       updatedAt: new Date().toISOString(),
     } as any);
 
     await replicateRepository.updateGenerationRecord(legacyId, {
       status: "completed",
-      images: scoredImages as any,
+      images: images as any,
     });
 
     await syncToMirror(uid, historyId);
 
     return {
-      images: scoredImages,
+      images,
       historyId,
       model: modelBase,
       status: "completed",
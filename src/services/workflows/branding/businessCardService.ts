@@ -5,7 +5,6 @@ import { authRepository } from "../../../repository/auth/authRepository";
 import { generationHistoryRepository } from "../../../repository/generationHistoryRepository";
 import { replicateRepository } from "../../../repository/replicateRepository";
 import { uploadDataUriToZata, uploadFromUrlToZata } from "../../../utils/storage/zataUpload";
-import { aestheticScoreService } from "../../aestheticScoreService";
 import { syncToMirror } from "../../../utils/mirrorHelper";
 
 export interface BusinessCardRequest {
@@ -215,25 +214,21 @@ export const generateBusinessCard = async (uid: string, req: BusinessCardRequest
             });
         }
 
-        const scoredImages = await aestheticScoreService.scoreImages(generatedImages);
-        const highestScore = aestheticScoreService.getHighestScore(scoredImages);
-
         await generationHistoryRepository.update(uid, historyId, {
             status: "completed",
-            images: scoredImages,
-            aestheticScore: highestScore,
+            images: generatedImages,
             updatedAt: new Date().toISOString()
         } as any);
 
         await replicateRepository.updateGenerationRecord(legacyId, {
             status: "completed",
-            images: scoredImages as any
+            images: generatedImages as any
         });
 
         await syncToMirror(uid, historyId);
 
         return {
-            images: scoredImages,
+            images: generatedImages,
             historyId,
             model: modelBase,
             status: "completed"
@@ -5,7 +5,6 @@ import { authRepository } from '../../../repository/auth/authRepository';
 import { generationHistoryRepository } from '../../../repository/generationHistoryRepository';
 import { replicateRepository } from '../../../repository/replicateRepository';
 import { uploadDataUriToZata, uploadFromUrlToZata } from '../../../utils/storage/zataUpload';
-import { aestheticScoreService } from '../../aestheticScoreService';
 import { syncToMirror } from '../../../utils/mirrorHelper';
 
 const resolveOutputUrls = async (output: any) => {
@@ -183,27 +182,23 @@ The output must look like it was designed by a professional brand designer, read
             originalUrl: outputUrl
         }];
 
-        const scoredImages = await aestheticScoreService.scoreImages(images);
-        const highestScore = aestheticScoreService.getHighestScore(scoredImages);
-
         // 6. Update History
         await generationHistoryRepository.update(uid, historyId, {
             status: "completed",
-            images: scoredImages,
-            aestheticScore: highestScore,
+            images,
             updatedAt: new Date().toISOString()
         } as any);
 
         await replicateRepository.updateGenerationRecord(legacyId, {
             status: "completed",
-            images: scoredImages as any
+            images: images as any
         });
 
         // 7. Sync Mirror
         await syncToMirror(uid, historyId);
 
         return {
-            images: scoredImages,
+            images,
             historyId,
             model: modelBase,
             status: "completed"
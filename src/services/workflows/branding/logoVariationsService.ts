@@ -5,7 +5,6 @@ import { authRepository } from '../../../repository/auth/authRepository';
 import { generationHistoryRepository } from '../../../repository/generationHistoryRepository';
 import { replicateRepository } from '../../../repository/replicateRepository';
 import { uploadDataUriToZata, uploadFromUrlToZata } from '../../../utils/storage/zataUpload';
-import { aestheticScoreService } from '../../aestheticScoreService';
 import { syncToMirror } from '../../../utils/mirrorHelper';
 
 const resolveOutputUrls = async (output: any) => {
@@ -160,27 +159,23 @@ Instructions:
             throw new Error("All variation attempts failed");
         }
 
-        const scoredImages = await aestheticScoreService.scoreImages(successfulImages);
-        const highestScore = aestheticScoreService.getHighestScore(scoredImages);
-
         // 6. Update History
         await generationHistoryRepository.update(uid, historyId, {
             status: "completed",
-            images: scoredImages,
-            aestheticScore: highestScore,
+            images: successfulImages,
             updatedAt: new Date().toISOString()
         } as any);
 
         await replicateRepository.updateGenerationRecord(legacyId, {
             status: "completed",
-            images: scoredImages as any
+            images: successfulImages as any
         });
 
         // 7. Sync Mirror
         await syncToMirror(uid, historyId);
 
         return {
-            images: scoredImages,
+            images: successfulImages,
             historyId,
             model: modelBase,
             status: "completed"
@@ -5,7 +5,6 @@ import { authRepository } from '../../../repository/auth/authRepository';
 import { generationHistoryRepository } from '../../../repository/generationHistoryRepository';
 import { replicateRepository } from '../../../repository/replicateRepository';
 import { uploadDataUriToZata, uploadFromUrlToZata } from '../../../utils/storage/zataUpload';
-import { aestheticScoreService } from '../../aestheticScoreService';
 import { syncToMirror } from '../../../utils/mirrorHelper';
 
 const FAL_MODEL_EDIT = 'fal-ai/nano-banana-pro/edit';
@@ -254,25 +253,21 @@ export const relighting = async (uid: string, req: RelightingRequest) => {
             },
         ];
 
-        const scoredImages = await aestheticScoreService.scoreImages(images);
-        const highestScore = aestheticScoreService.getHighestScore(scoredImages);
-
         await generationHistoryRepository.update(uid, historyId, {
             status: 'completed',
-            images: scoredImages,
-            aestheticScore: highestScore,
+            images,
             updatedAt: new Date().toISOString(),
         } as any);
 
         await replicateRepository.updateGenerationRecord(legacyId, {
             status: 'completed',
-            images: scoredImages as any,
+            images: images as any,
         });
 
         await syncToMirror(uid, historyId);
 
         return {
-            images: scoredImages,
+            images,
             historyId,
             model: MODEL_DISPLAY,
             status: 'completed' as const,
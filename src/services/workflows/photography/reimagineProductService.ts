@@ -5,7 +5,6 @@ import { authRepository } from '../../../repository/auth/authRepository';
 import { generationHistoryRepository } from '../../../repository/generationHistoryRepository';
 import { replicateRepository } from '../../../repository/replicateRepository';
 import { uploadDataUriToZata } from '../../../utils/storage/zataUpload';
-import { aestheticScoreService } from '../../aestheticScoreService';
 import { syncToMirror } from '../../../utils/mirrorHelper';
 
 const resolveOutputUrls = async (output: any) => {
@@ -116,34 +115,30 @@ Instructions:
             throw new Error("No output generated");
         }
 
-        // 6. Aesthetic Scoring & Formatting
-        const scoredImages = await aestheticScoreService.scoreImages(
-            urls.map((url, index) => ({
-                id: `replicate-${Date.now()}-${index}`,
-                url,
-                originalUrl: url
-            }))
-        );
-        const highestScore = aestheticScoreService.getHighestScore(scoredImages);
+        // 6. Formatting (aesthetic scores are added by the aesthetic-score queue)
+        const images = urls.map((url, index) => ({
+            id: `replicate-${Date.now()}-${index}`,
+            url,
+            originalUrl: url
+        }));
 
         // 7. Update History
         await generationHistoryRepository.update(uid, historyId, {
             status: "completed",
-            images: scoredImages,
-            aestheticScore: highestScore,
+            images,
             updatedAt: new Date().toISOString()
         } as any);
 
         await replicateRepository.updateGenerationRecord(legacyId, {
             status: "completed",
-            images: scoredImages as any
+            images: images as any
         });
 
         // 8. Sync Mirror
         await syncToMirror(uid, historyId);
 
         return {
-            images: scoredImages,
+            images,
             historyId,
             model: modelBase,
             status: "completed"
@@ -6,6 +6,9 @@ export type ProviderId =
   | "username"
   | "unknown";
 
+/** Gateway roles stored on users/{uid}.metadata.roles (see config/rolePermissions). */
+export type UserRole = "admin" | "support" | "template-editor" | "user";
+
 export interface PasswordHistoryEntry {
   hash: string;
   salt: string;
@@ -43,9 +46,75 @@ export interface AppUser {
   metadata?: {
     lastPasswordChange?: string;
     accountStatus: "active" | "suspended" | "pending" | "banned";
-    roles?: string[];
+    roles?: UserRole[];
   };
   isUsernameTemporary?: boolean; // For Google users who haven't set username yet
   updatedAt?: string; // ISO string
   passwordHistory?: PasswordHistoryEntry[];
 }
+
+/** Scopes a personal API key can carry (see config/apiKeyScopes). */
+export type ApiKeyScope =
+  | "generate:image"
+  | "generate:video"
+  | "generate:audio"
+  | "library:read"
+  | "library:write"
+  | "library:delete"
+  | "library:admin"
+  | "canvas:read"
+  | "canvas:write"
+  | "canvas:delete"
+  | "canvas:admin";
+
+/** Stored in apiKeys/{id}; the plaintext key is only returned at creation/rotation. */
+export interface ApiKeyRecord {
+  id: string;
+  uid: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  keyHash: string; // sha256 of the full key
+  prefix: string; // first characters of the key, shown in listings
+  rateLimitPerMinute: number;
+  createdAt: string; // ISO string
+  rotatedAt?: string;
+  revokedAt?: string;
+  lastUsedAt?: string;
+  lastUsedIp?: string;
+}
+
+/** ApiKeyRecord without the hash, as returned by /api/auth/api-keys. */
+export type ApiKeySummary = Omit<ApiKeyRecord, "keyHash">;
+
+export type AccountDataExportStatus = "queued" | "processing" | "completed" | "failed";
+
+/** Self-service data export, stored in accountExports/{uid}/exports/{id}. */
+export interface AccountDataExportRecord {
+  id: string;
+  uid: string;
+  status: AccountDataExportStatus;
+  sections?: Record<string, number>; // record count per archive section
+  sizeBytes?: number;
+  storagePath?: string;
+  error?: string;
+  createdAt: string; // ISO string
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export type AccountDeletionStatus = "scheduled" | "cancelled" | "processing" | "completed" | "failed";
+
+/** Self-service account deletion request, stored in accountDeletions/{uid}. */
+export interface AccountDeletionRecord {
+  uid: string;
+  status: AccountDeletionStatus;
+  email?: string; // kept so the completion email can still be sent once the profile is gone
+  username?: string;
+  requestedAt: string; // ISO string
+  scheduledFor: number; // epoch ms; the deletion sweeper wipes the account after this (pushed back after a failed attempt)
+  attempts?: number; // sweeper runs claimed so far; "failed" once they run out
+  leaseExpiresAt?: number; // epoch ms; a "processing" record past this is reclaimed by the next sweep
+  cancelledAt?: string;
+  completedAt?: string;
+  error?: string;
+}
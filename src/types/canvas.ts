@@ -41,10 +41,29 @@ export interface CanvasInvitation {
   recipientUsername?: string;
   role: 'owner' | 'editor' | 'viewer';
   status: 'pending' | 'accepted' | 'dismissed';
+  kind?: 'collaborator' | 'transfer'; // 'transfer' hands project ownership to the recipient on accept (default: collaborator)
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
+/**
+ * Shareable join link (POST /api/canvas/join/:token). Anyone signed in who opens it becomes
+ * a collaborator with `role`, within the link's use/expiry/domain limits.
+ */
+export interface CanvasInviteLink {
+  token: string; // doc id; the token is the capability, revoke to invalidate
+  projectId: string;
+  createdBy: string;
+  role: 'editor' | 'viewer';
+  maxUses?: number; // unset = unlimited
+  useCount: number;
+  allowedDomain?: string; // lower-case email domain the joiner's verified email must match
+  createdAt: string; // ISO string
+  expiresAt?: string;
+  revokedAt?: string;
+  lastUsedAt?: string;
+}
+
 // Canvas Operation Types
 export type OpType =
   | 'create'
@@ -80,7 +99,7 @@ export interface CanvasOp {
 export interface CanvasElement {
   id: string;
   projectId: string;
-  type: 'image' | 'video' | 'text' | 'shape' | 'group' | 'connector' | '3d' | 'image-generator' | 'video-generator' | 'music-generator' | 'text-generator' | 'upscale-plugin';
+  type: 'image' | 'video' | 'text' | 'shape' | 'group' | 'connector' | '3d' | 'image-generator' | 'video-generator' | 'music-generator' | 'text-generator' | 'upscale-plugin' | 'frame';
   x: number;
   y: number;
   width?: number;
@@ -255,3 +274,69 @@ export interface CanvasGenerationRequest {
     elementId?: string;
   };
 }
+
+// Canvas Version Types
+export type CanvasVersionKind = 'manual' | 'auto' | 'restore';
+
+export interface CanvasVersion {
+  id: string;
+  projectId: string;
+  number: number; // Sequential per project, starting at 1
+  name: string;
+  kind: CanvasVersionKind;
+  elements: Record<string, CanvasElement>;
+  metadata: CanvasSnapshot['metadata'];
+  elementCount: number;
+  mediaIds: string[]; // canvasMedia ids referenced by the elements
+  retainedMediaIds?: string[]; // mediaIds this version holds a GC ref on; released when it is pruned
+  restoredFromVersionId?: string; // Set on 'restore' versions
+  createdBy: string;
+  createdAt: Timestamp;
+}
+
+/** Version list entry: the version without its elements/metadata payload. */
+export type CanvasVersionSummary = Omit<CanvasVersion, 'elements' | 'metadata'>;
+
+export interface CanvasVersionDiff {
+  from: { versionId: string | null; number: number | null }; // null = current state
+  to: { versionId: string | null; number: number | null };
+  added: string[]; // Element ids only in `to`
+  removed: string[]; // Element ids only in `from`
+  modified: Array<{ id: string; fields: string[] }>; // Top-level element fields that changed
+  unchanged: number;
+}
+
+// Canvas Export Types
+export type CanvasExportFormat = 'png' | 'pdf' | 'svg';
+
+export interface CanvasRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** What to render: the whole board, one frame element, or an arbitrary board region. */
+export type CanvasExportScope =
+  | { type: 'board' }
+  | { type: 'frame'; frameId: string }
+  | { type: 'region'; region: CanvasRegion };
+
+export type CanvasExportStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export interface CanvasExportRecord {
+  id: string;
+  projectId: string;
+  requestedBy: string;
+  format: CanvasExportFormat;
+  scope: CanvasExportScope;
+  dpi: number; // PNG only; PDF/SVG are vector
+  status: CanvasExportStatus;
+  pages?: number;
+  sizeBytes?: number;
+  storagePath?: string;
+  error?: string;
+  createdAt: string; // ISO string
+  startedAt?: string;
+  completedAt?: string;
+}
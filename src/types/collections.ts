@@ -0,0 +1,31 @@
+/**
+ * Library collections: user-named folders that group history items, uploads and
+ * bookmarked public generations. An item can be in any number of collections.
+ */
+
+export type CollectionItemKind = 'generation' | 'upload' | 'bookmark';
+
+export const COLLECTION_ITEM_KINDS: CollectionItemKind[] = ['generation', 'upload', 'bookmark'];
+
+export interface LibraryCollection {
+  id: string;
+  uid: string;
+  name: string;
+  description?: string;
+  coverUrl?: string; // set explicitly, or taken from the first item added
+  position: number; // ascending sort order in the user's collection list
+  itemCount: number;
+  createdAt: string; // ISO string
+  updatedAt: string;
+}
+
+/** Points at a generationHistory item (generation/upload) or a public generation (bookmark). */
+export interface CollectionItemRef {
+  kind: CollectionItemKind;
+  refId: string;
+}
+
+export interface CollectionItem extends CollectionItemRef {
+  id: string;
+  addedAt: string; // ISO string
+}
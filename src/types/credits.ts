@@ -40,3 +40,23 @@ export interface CreditCostResult {
 }
 
 
+
+export type CreditHoldStatus = 'HELD' | 'CAPTURED' | 'RELEASED' | 'EXPIRED';
+
+/**
+ * Gateway-side credit reservation placed by makeCreditCost before calling a provider.
+ * Stored at creditHolds/{billingUid}/holds/{idempotencyKey}.
+ */
+export interface CreditHold {
+  key: string; // idempotencyKey from the pricing middleware
+  uid: string; // billing uid
+  amount: number;
+  reason: string;
+  status: CreditHoldStatus;
+  historyId?: string; // linked once the generation history item is created
+  historyUid?: string; // owner of the history item (differs from uid for canvas editors)
+  meta?: Record<string, any>;
+  expiresAt: number; // epoch ms
+  createdAt?: any;
+  settledAt?: any;
+}
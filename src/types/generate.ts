@@ -119,7 +119,20 @@ export interface GenerationHistoryItem {
   isPublic?: boolean;
   // soft delete flag; when true item should be hidden everywhere
   isDeleted?: boolean;
+  // Trash bin: set on delete and cleared on restore; media is purged once purgeAfter passes
+  deletedAt?: string;
+  purgeAfter?: string;
+  purgedAt?: string;
   error?: string;
+  // Provider job identifiers for async (queue) generations
+  provider?: string;
+  providerTaskId?: string;
+  // Credit reservation placed for this generation (released automatically if it fails)
+  creditHold?: { key: string; billingUid: string };
+  // In-flight generation slot counted against the creator's concurrency cap until it finishes
+  generationSlot?: { uid: string; id: string };
+  // Set once by the first markGenerationCompleted; webhook and polling finalizations can race
+  completionRecordedAt?: number;
   // Character name for text-to-character generation type
   characterName?: string;
   createdAt: any;
@@ -153,3 +166,51 @@ export interface FailGenerationPayload {
 }
 
 
+
+export type GenerationEventType =
+  | 'created'
+  | 'provider-queued'
+  | 'progress'
+  | 'completed'
+  | 'failed'
+  | 'refunded';
+
+/** Lifecycle event streamed to the owner over GET /api/generations/events. */
+export interface GenerationEvent {
+  type: GenerationEventType;
+  historyId: string;
+  at: number;
+  status?: GenerationStatus;
+  model?: string;
+  generationType?: GenerationType | string;
+  provider?: string;
+  providerTaskId?: string;
+  // progress: provider-reported state while queued/running
+  progress?: { state: string; percent?: number; queuePosition?: number };
+  // completed: final (optimized) media
+  images?: ImageMedia[];
+  videos?: VideoMedia[];
+  audios?: AudioMedia[];
+  // failed: provider error mapped to a user-facing message
+  error?: { code: string; title: string; message: string };
+  // refunded: credits returned for the failed generation
+  refund?: { amount: number; reason: string };
+}
+
+export type TrashEntryKind = 'generation' | 'image';
+
+/**
+ * A deleted generation, or a single image removed from a multi-image generation,
+ * kept restorable until purgeAfter (ms epoch).
+ */
+export interface TrashEntry {
+  id: string;
+  uid: string;
+  historyId: string;
+  kind: TrashEntryKind;
+  imageId?: string;
+  image?: ImageMedia; // kind 'image': the removed image, re-inserted on restore
+  imageIndex?: number; // kind 'image': original position in images[]
+  deletedAt: number;
+  purgeAfter: number;
+}
@@ -0,0 +1,40 @@
+/**
+ * Bulk ZIP exports of a user's generations (POST /api/generations/export). The archive
+ * holds the original media plus manifest.json / manifest.csv and is uploaded to Zata;
+ * clients poll the export and receive a short-lived signed download URL once completed.
+ * Archives are kept for GENERATION_EXPORT_RETENTION_DAYS, then deleted by the export sweeper.
+ */
+
+export type GenerationExportStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'expired';
+
+/** Same filters as listUserGenerations (GET /api/generations). */
+export interface GenerationExportFilter {
+  status?: 'generating' | 'completed' | 'failed';
+  generationType?: string | string[];
+  mode?: 'video' | 'image' | 'music' | 'branding' | 'all';
+  search?: string;
+  dateStart?: string;
+  dateEnd?: string;
+}
+
+export interface GenerationExportRecord {
+  id: string;
+  uid: string;
+  status: GenerationExportStatus;
+  // Exactly one of historyIds / filter drives the selection
+  historyIds?: string[];
+  filter?: GenerationExportFilter;
+  itemCount?: number; // history items written to the manifest
+  fileCount?: number; // media files in the archive
+  skippedFiles?: number; // media that could not be downloaded (listed in the manifest)
+  sizeBytes?: number;
+  truncated?: boolean; // selection hit the item or size cap
+  storagePath?: string;
+  error?: string;
+  createdAt: string; // ISO string
+  startedAt?: string;
+  completedAt?: string;
+  expiresAt?: string; // when the archive is deleted (completed exports)
+  purgeAfter?: number; // ms epoch mirror of expiresAt for the sweeper; removed once purged
+  expiredAt?: string;
+}
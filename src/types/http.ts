@@ -1,19 +1,32 @@
 import 'express';
+import type { ApiKeyScope, UserRole } from './authTypes';
 
 declare global {
   namespace Express {
     interface Request {
       authenticatedReq?: true;
+      /** Correlation id from X-Request-Id or generated per request; set by the requestId middleware. */
+      requestId?: string;
       /** Raw JWT the gateway actually validated (session cookie or ID token). Use when proxying to services that must verify the same credential. */
       verifiedAuthToken?: string;
+      /** Unparsed JSON body, captured only for /api/webhooks/* so provider signatures can be verified. */
+      rawBody?: Buffer;
       uid: string;
-      authMethod?: "cached" | "session" | "idToken";
+      authMethod?: "cached" | "session" | "idToken" | "apiKey";
+      /** Set when the caller authenticated with a personal API key (Bearer wm_...). */
+      apiKey?: { id: string; scopes: ApiKeyScope[]; rateLimitPerMinute: number };
       email?: string;
       username?: string;
+      /** Who the per-user rate limiters count this request for; set by resolveRateLimitSubject. */
+      rateLimitSubject?: { key: string; uid?: string; planCode?: string };
+      /** Roles resolved for the caller (from the cached session or users/{uid}); set by requirePermission. */
+      roles?: UserRole[];
       context?: {
         creditCost?: number;
         reason?: string;
         idempotencyKey?: string;
+        /** Key of the credit hold placed by makeCreditCost (same as idempotencyKey). */
+        holdKey?: string;
         pricingVersion?: string;
         meta?: Record<string, any>;
       };
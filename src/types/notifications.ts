@@ -0,0 +1,57 @@
+/**
+ * In-app notifications stored at notifications/{uid}/items, with FCM pushes to
+ * the device tokens in userDevices/{uid}/tokens.
+ */
+
+export type NotificationType =
+  | 'like'
+  | 'bookmark'
+  | 'canvas_invite'
+  | 'video_completed'
+  | 'low_credit'
+  | 'export_ready';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'like',
+  'bookmark',
+  'canvas_invite',
+  'video_completed',
+  'low_credit',
+  'export_ready',
+];
+
+export interface NotificationItem {
+  id: string;
+  type: NotificationType;
+  read: boolean;
+  createdAt: string; // ISO string
+  readAt?: string;
+  title?: string;
+  body?: string;
+  actorUid?: string;
+  actorDisplayName?: string;
+  actorUsername?: string;
+  generationId?: string; // public generation (like/bookmark)
+  historyId?: string; // user's own generation (video_completed)
+  projectId?: string; // canvas project (canvas_invite)
+  invitationId?: string;
+  data?: Record<string, string | number | boolean>;
+}
+
+/** Fields a producer supplies; id, read and createdAt are set on write. */
+export type NewNotification = Omit<NotificationItem, 'id' | 'read' | 'createdAt' | 'readAt'>;
+
+export interface NotificationPreferences {
+  muted: NotificationType[]; // muted types are neither stored nor pushed
+  updatedAt?: string;
+}
+
+export type DevicePlatform = 'web' | 'ios' | 'android';
+
+export interface DeviceToken {
+  token: string;
+  platform?: DevicePlatform;
+  userAgent?: string;
+  createdAt?: string;
+  lastSeenAt?: string;
+}
@@ -30,7 +30,6 @@ export interface CreateRedeemCodeRequest {
   count: number;
   expiresIn?: number; // Hours from now - if not provided, defaults to 48 hours
   maxUsesPerCode?: number;
-  adminKey?: string; // For basic admin validation
 }
 
 export interface RedeemCodeValidationResult {
@@ -0,0 +1,60 @@
+/**
+ * Unlisted share links: revocable, optionally expiring tokens that expose one history
+ * item (or a single media item inside it), or a whole library collection, at
+ * GET /api/share/:token without auth.
+ */
+
+export type SharedMediaKind = 'image' | 'video' | 'audio';
+
+export interface ShareLinkRecord {
+  token: string; // doc id; the token is the capability, revoke to invalidate
+  uid: string;
+  // Exactly one of historyId / collectionId is set
+  historyId?: string;
+  collectionId?: string;
+  // Set when a single media item is shared; matched by url (media ids are not stable)
+  media?: { kind: SharedMediaKind; id?: string; url: string };
+  includePrompt: boolean;
+  createdAt: string; // ISO string
+  expiresAt?: string;
+  revokedAt?: string;
+  viewCount: number;
+  lastViewedAt?: string;
+}
+
+/** What an anonymous viewer receives; media URLs are sealed, expiring /api/share/:token/media URLs. */
+export interface SharedGenerationView {
+  token: string;
+  historyId: string;
+  generationType: string;
+  model: string;
+  prompt?: string;
+  aspectRatio?: string;
+  createdAt?: string;
+  expiresAt?: string;
+  viewCount: number;
+  creator?: { username?: string; displayName?: string; photoURL?: string };
+  images: Array<{ url: string; thumbnailUrl?: string; width?: number; height?: number }>;
+  videos: Array<{ url: string; thumbnailUrl?: string }>;
+  audios: Array<{ url: string }>;
+}
+
+/** Anonymous view of a shared collection; items carry the same sealed media URLs as above. */
+export interface SharedCollectionView {
+  token: string;
+  collectionId: string;
+  name: string;
+  description?: string;
+  coverUrl?: string;
+  expiresAt?: string;
+  viewCount: number;
+  creator?: { username?: string; displayName?: string; photoURL?: string };
+  items: Array<{
+    type: SharedMediaKind;
+    url: string;
+    thumbnailUrl?: string;
+    model?: string;
+    prompt?: string;
+    createdAt?: string;
+  }>;
+}
@@ -29,4 +29,6 @@ export interface Template {
     updatedAt: FirebaseFirestore.Timestamp | Date;
     isPublic: boolean;
     creatorId?: string;
+    source?: 'designer' | 'canvas'; // 'canvas' templates hold { elements, metadata } of a canvas board, not Fabric JSON
+    sourceProjectId?: string;
 }
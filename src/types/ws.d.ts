@@ -28,7 +28,12 @@ declare module 'ws' {
     port?: number;
     backlog?: number;
     server?: HttpServer;
-    verifyClient?: (info: { origin: string; secure: boolean; req: IncomingMessage }) => boolean;
+    verifyClient?:
+      | ((info: { origin: string; secure: boolean; req: IncomingMessage }) => boolean)
+      | ((
+        info: { origin: string; secure: boolean; req: IncomingMessage },
+        callback: (res: boolean, code?: number, message?: string, headers?: Record<string, string>) => void
+      ) => void);
     handleProtocols?: (protocols: string[], request: IncomingMessage) => string | false;
     path?: string;
     noServer?: boolean;
@@ -1,24 +1,612 @@
-// Background task queue was removed per request.
-// Export a shim that executes tasks immediately (fire-and-forget) and logs a deprecation warning.
-export const backgroundTaskQueue = {
-  enqueue: (id: string, fn: () => Promise<void>, _priority?: number) => {
-    console.warn('[BackgroundTaskQueue][shim] enqueue called - queue removed; executing immediately for', id);
+import { env } from '../config/env';
+import { getRedisClient, isRedisEnabled } from '../config/redisClient';
+import { logger } from './logger';
+
+/**
+ * Background job queue.
+ *
+ * Named queues with registered handlers, per-queue concurrency, retries with exponential backoff
+ * and a dead-letter list for jobs that exhaust their attempts.
+ *
+ * With Redis enabled jobs live under `{REDIS_PREFIX}jobs:{queue}:*` and survive restarts: a job
+ * claimed by a process that dies is handed out again once its lease expires. Without Redis (or when
+ * a Redis write fails) the same API runs on an in-process store, which is not durable and is only
+ * drained by the process that enqueued the job. Callers that must not lose a job pass `durable`,
+ * which makes enqueue throw instead of falling back when Redis is enabled but the write fails.
+ *
+ * Any process that registers a handler and calls start() consumes that queue (the API process when
+ * JOB_QUEUE_INLINE_WORKERS is on, and/or `npm run jobs:worker`); start({ redis: false }) drains only
+ * the in-process store. Concurrency is per process.
+ * Handlers must be idempotent: lease expiry and retries can run a job more than once.
+ *
+ * A handler that exceeds timeoutMs has its AbortSignal aborted. It is retried only once it has
+ * stopped; one that keeps running past the grace period goes to the dead-letter list instead,
+ * and keeps its concurrency slot until it returns.
+ */
+
+export type JobState = 'waiting' | 'delayed' | 'active' | 'dead';
+
+export const JOB_STATES: JobState[] = ['waiting', 'delayed', 'active', 'dead'];
+
+export interface Job<T = any> {
+  id: string;
+  queue: string;
+  payload: T;
+  attempts: number; // runs started so far
+  maxAttempts: number;
+  createdAt: number;
+  runAt: number;
+  lastError?: string;
+  failedAt?: number;
+}
+
+export interface QueueOptions {
+  concurrency?: number;
+  attempts?: number;
+  backoffMs?: number; // first retry delay, doubled on each further retry
+  timeoutMs?: number;
+}
+
+export interface EnqueueOptions {
+  jobId?: string; // dedupe key: enqueue is a no-op while a job with this id is pending
+  delayMs?: number;
+  attempts?: number;
+  durable?: boolean; // with Redis enabled: throw when the Redis write fails instead of keeping the job in process
+}
+
+export interface QueueStatus {
+  queue: string;
+  registered: boolean; // handler registered in this process
+  concurrency?: number;
+  running: number; // handlers running in this process
+  waiting: number;
+  delayed: number;
+  active: number;
+  dead: number;
+  completed: number;
+  failed: number;
+  retried: number;
+}
+
+/** `signal` is aborted when the job times out; long-running handlers should stop on it. */
+export type JobHandler<T = any> = (payload: T, job: Job<T>, signal: AbortSignal) => Promise<void>;
+
+type QueueCounts = Omit<QueueStatus, 'queue' | 'registered' | 'concurrency' | 'running'>;
+
+interface JobStore {
+  add(job: Job): Promise<boolean>;
+  claim(queue: string, limit: number, leaseMs: number): Promise<Job[]>;
+  complete(job: Job): Promise<void>;
+  retry(job: Job): Promise<void>;
+  bury(job: Job): Promise<void>;
+  counts(queue: string): Promise<QueueCounts>;
+  list(queue: string, state: JobState, limit: number): Promise<Job[]>;
+  queues(): Promise<string[]>;
+}
+
+const DEFAULT_OPTIONS: Required<QueueOptions> = {
+  concurrency: 2,
+  attempts: 5,
+  backoffMs: 5000,
+  timeoutMs: 5 * 60 * 1000,
+};
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+const LEASE_MARGIN_MS = 30 * 1000;
+// How long a timed-out handler gets to stop after its signal is aborted; stays below LEASE_MARGIN_MS
+// so a Redis job is buried or re-queued before its lease lets another worker claim it
+const TIMEOUT_GRACE_MS = 20 * 1000;
+const DEAD_LETTER_LIMIT = 500;
+const ERROR_LOG_THROTTLE_MS = 30000;
+
+function emptyCounts(): QueueCounts {
+  return { waiting: 0, delayed: 0, active: 0, dead: 0, completed: 0, failed: 0, retried: 0 };
+}
+
+function parseJob(raw: string | null | undefined): Job | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as Job;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// In-process store
+// ---------------------------------------------------------------------------
+
+interface MemoryQueue {
+  jobs: Map<string, Job>;
+  waiting: string[];
+  delayed: Set<string>;
+  active: Map<string, number>; // id -> lease expiry
+  dead: Job[];
+  stats: { completed: number; failed: number; retried: number };
+}
+
+function createMemoryStore(): JobStore {
+  const queues = new Map<string, MemoryQueue>();
+
+  const queueOf = (name: string): MemoryQueue => {
+    let q = queues.get(name);
+    if (!q) {
+      q = { jobs: new Map(), waiting: [], delayed: new Set(), active: new Map(), dead: [], stats: { completed: 0, failed: 0, retried: 0 } };
+      queues.set(name, q);
+    }
+    return q;
+  };
+
+  return {
+    async add(job) {
+      const q = queueOf(job.queue);
+      if (q.jobs.has(job.id)) return false;
+      q.jobs.set(job.id, job);
+      if (job.runAt > Date.now()) q.delayed.add(job.id);
+      else q.waiting.push(job.id);
+      return true;
+    },
+    async claim(queue, limit, leaseMs) {
+      const q = queueOf(queue);
+      const now = Date.now();
+      for (const id of q.delayed) {
+        const job = q.jobs.get(id);
+        if (!job || job.runAt <= now) {
+          q.delayed.delete(id);
+          if (job) q.waiting.push(id);
+        }
+      }
+      const claimed: Job[] = [];
+      while (claimed.length < limit && q.waiting.length > 0) {
+        const job = q.jobs.get(q.waiting.shift() as string);
+        if (!job) continue;
+        job.attempts += 1;
+        q.active.set(job.id, now + leaseMs);
+        claimed.push(job);
+      }
+      return claimed;
+    },
+    async complete(job) {
+      const q = queueOf(job.queue);
+      q.active.delete(job.id);
+      q.jobs.delete(job.id);
+      q.stats.completed += 1;
+    },
+    async retry(job) {
+      const q = queueOf(job.queue);
+      q.active.delete(job.id);
+      q.jobs.set(job.id, job);
+      q.delayed.add(job.id);
+      q.stats.retried += 1;
+    },
+    async bury(job) {
+      const q = queueOf(job.queue);
+      q.active.delete(job.id);
+      q.jobs.delete(job.id);
+      q.dead.unshift(job);
+      q.dead.length = Math.min(q.dead.length, DEAD_LETTER_LIMIT);
+      q.stats.failed += 1;
+    },
+    async counts(queue) {
+      const q = queues.get(queue);
+      if (!q) return emptyCounts();
+      return {
+        waiting: q.waiting.length,
+        delayed: q.delayed.size,
+        active: q.active.size,
+        dead: q.dead.length,
+        ...q.stats,
+      };
+    },
+    async list(queue, state, limit) {
+      const q = queues.get(queue);
+      if (!q) return [];
+      if (state === 'dead') return q.dead.slice(0, limit);
+      const ids = state === 'waiting' ? q.waiting : state === 'delayed' ? Array.from(q.delayed) : Array.from(q.active.keys());
+      return ids
+        .slice(0, limit)
+        .map((id) => q.jobs.get(id))
+        .filter((job): job is Job => Boolean(job));
+    },
+    async queues() {
+      return Array.from(queues.keys());
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Redis store
+//   jobs:{queue}:job:{id}  job JSON (exists while pending; doubles as the dedupe key)
+//   jobs:{queue}:waiting   list of ids (LPUSH / RPOP)
+//   jobs:{queue}:delayed   zset id -> runAt
+//   jobs:{queue}:active    zset id -> lease expiry
+//   jobs:{queue}:dead      list of job JSON, newest first, capped
+//   jobs:{queue}:stats     hash completed / failed / retried
+//   jobs:queues            set of queue names seen
+// ---------------------------------------------------------------------------
+
+const ADD_SCRIPT = `
+if not redis.call('SET', KEYS[1], ARGV[1], 'NX') then return 0 end
+if tonumber(ARGV[3]) > tonumber(ARGV[4]) then
+  redis.call('ZADD', KEYS[3], ARGV[3], ARGV[2])
+else
+  redis.call('LPUSH', KEYS[2], ARGV[2])
+end
+redis.call('SADD', KEYS[4], ARGV[5])
+return 1`;
+
+// Moves ids scored <= now from a zset onto the waiting list (due delayed jobs, expired leases)
+const PROMOTE_SCRIPT = `
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, tonumber(ARGV[2]))
+for _, id in ipairs(ids) do
+  redis.call('ZREM', KEYS[1], id)
+  redis.call('LPUSH', KEYS[2], id)
+end
+return #ids`;
+
+const CLAIM_SCRIPT = `
+local id = redis.call('RPOP', KEYS[1])
+if id then redis.call('ZADD', KEYS[2], ARGV[1], id) end
+return id`;
+
+function redisKey(queue: string, part: string): string {
+  return `${env.redisPrefix || ''}jobs:${queue}:${part}`;
+}
+
+function redisQueuesKey(): string {
+  return `${env.redisPrefix || ''}jobs:queues`;
+}
+
+function requireRedis() {
+  const client = getRedisClient();
+  if (!client) throw new Error('Redis client unavailable');
+  return client;
+}
+
+function createRedisStore(): JobStore {
+  return {
+    async add(job) {
+      const added = await requireRedis().eval(ADD_SCRIPT, {
+        keys: [redisKey(job.queue, `job:${job.id}`), redisKey(job.queue, 'waiting'), redisKey(job.queue, 'delayed'), redisQueuesKey()],
+        arguments: [JSON.stringify(job), job.id, String(job.runAt), String(Date.now()), job.queue],
+      });
+      return Number(added) === 1;
+    },
+    async claim(queue, limit, leaseMs) {
+      const client = requireRedis();
+      const now = Date.now();
+      const waitingKey = redisKey(queue, 'waiting');
+      const activeKey = redisKey(queue, 'active');
+      await client.eval(PROMOTE_SCRIPT, { keys: [redisKey(queue, 'delayed'), waitingKey], arguments: [String(now), '100'] });
+      const recovered = Number(
+        await client.eval(PROMOTE_SCRIPT, { keys: [activeKey, waitingKey], arguments: [String(now), '100'] })
+      );
+      if (recovered > 0) {
+        logger.warn({ queue, recovered }, '[JobQueue] Re-queued jobs whose lease expired');
+      }
+
+      const claimed: Job[] = [];
+      for (let i = 0; i < limit; i++) {
+        const id = (await client.eval(CLAIM_SCRIPT, {
+          keys: [waitingKey, activeKey],
+          arguments: [String(now + leaseMs)],
+        })) as string | null;
+        if (!id) break;
+        const jobKey = redisKey(queue, `job:${id}`);
+        const job = parseJob(await client.get(jobKey));
+        if (!job) {
+          await client.zRem(activeKey, id);
+          continue;
+        }
+        job.attempts += 1;
+        await client.set(jobKey, JSON.stringify(job));
+        claimed.push(job);
+      }
+      return claimed;
+    },
+    async complete(job) {
+      await requireRedis()
+        .multi()
+        .del(redisKey(job.queue, `job:${job.id}`))
+        .zRem(redisKey(job.queue, 'active'), job.id)
+        .hIncrBy(redisKey(job.queue, 'stats'), 'completed', 1)
+        .exec();
+    },
+    async retry(job) {
+      await requireRedis()
+        .multi()
+        .set(redisKey(job.queue, `job:${job.id}`), JSON.stringify(job))
+        .zRem(redisKey(job.queue, 'active'), job.id)
+        .zAdd(redisKey(job.queue, 'delayed'), { score: job.runAt, value: job.id })
+        .hIncrBy(redisKey(job.queue, 'stats'), 'retried', 1)
+        .exec();
+    },
+    async bury(job) {
+      await requireRedis()
+        .multi()
+        .del(redisKey(job.queue, `job:${job.id}`))
+        .zRem(redisKey(job.queue, 'active'), job.id)
+        .lPush(redisKey(job.queue, 'dead'), JSON.stringify(job))
+        .lTrim(redisKey(job.queue, 'dead'), 0, DEAD_LETTER_LIMIT - 1)
+        .hIncrBy(redisKey(job.queue, 'stats'), 'failed', 1)
+        .exec();
+    },
+    async counts(queue) {
+      const client = requireRedis();
+      const [waiting, delayed, active, dead, stats] = await Promise.all([
+        client.lLen(redisKey(queue, 'waiting')),
+        client.zCard(redisKey(queue, 'delayed')),
+        client.zCard(redisKey(queue, 'active')),
+        client.lLen(redisKey(queue, 'dead')),
+        client.hGetAll(redisKey(queue, 'stats')),
+      ]);
+      return {
+        waiting,
+        delayed,
+        active,
+        dead,
+        completed: Number(stats?.completed || 0),
+        failed: Number(stats?.failed || 0),
+        retried: Number(stats?.retried || 0),
+      };
+    },
+    async list(queue, state, limit) {
+      const client = requireRedis();
+      if (state === 'dead') {
+        const raw = await client.lRange(redisKey(queue, 'dead'), 0, limit - 1);
+        return raw.map(parseJob).filter((job): job is Job => Boolean(job));
+      }
+      // waiting is consumed from the tail, so the tail is "next up"
+      const ids =
+        state === 'waiting'
+          ? (await client.lRange(redisKey(queue, 'waiting'), -limit, -1)).reverse()
+          : await client.zRange(redisKey(queue, state), 0, limit - 1);
+      if (ids.length === 0) return [];
+      const raw = await client.mGet(ids.map((id) => redisKey(queue, `job:${id}`)));
+      return raw.map(parseJob).filter((job): job is Job => Boolean(job));
+    },
+    async queues() {
+      return requireRedis().sMembers(redisQueuesKey());
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Runtime
+// ---------------------------------------------------------------------------
+
+interface RegisteredQueue {
+  handler: JobHandler;
+  options: Required<QueueOptions>;
+  running: number;
+}
+
+const memoryStore = createMemoryStore();
+const redisStore = createRedisStore();
+const registry = new Map<string, RegisteredQueue>();
+
+let pollTimer: NodeJS.Timeout | null = null;
+let consumeRedis = true;
+let ticking = false;
+let lastErrorLog = 0;
+
+function activeStores(): JobStore[] {
+  // The memory store holds every job when Redis is off and the fallback jobs from
+  // failed Redis writes when it is on
+  return isRedisEnabled() ? [redisStore, memoryStore] : [memoryStore];
+}
+
+function consumedStores(): JobStore[] {
+  return consumeRedis ? activeStores() : [memoryStore];
+}
+
+function logThrottled(msg: string, err: any) {
+  const now = Date.now();
+  if (now - lastErrorLog < ERROR_LOG_THROTTLE_MS) return;
+  lastErrorLog = now;
+  logger.error({ err: err?.message || String(err) }, msg);
+}
+
+/** JOB_QUEUE_CONCURRENCY="aesthetic-score=4,video-thumbnail=1" */
+function concurrencyOverride(queue: string): number | undefined {
+  for (const entry of String(env.jobQueueConcurrency || '').split(',')) {
+    const [name, value] = entry.split('=').map((s) => s.trim());
+    const parsed = parseInt(value, 10);
+    if (name === queue && Number.isFinite(parsed) && parsed > 0) return parsed;
+  }
+  return undefined;
+}
+
+function retryDelay(options: Required<QueueOptions>, attempts: number): number {
+  const base = Math.min(options.backoffMs * Math.pow(2, Math.max(0, attempts - 1)), MAX_BACKOFF_MS);
+  // Jitter so a burst of failures does not retry in lockstep
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+}
+
+function withTimeout(work: Promise<void>, timeoutMs: number, controller: AbortController): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const err = new Error(`Job timed out after ${timeoutMs}ms`);
+      controller.abort(err);
+      reject(err);
+    }, timeoutMs);
+  });
+  return Promise.race([work, timeout]).finally(() => clearTimeout(timer));
+}
+
+function settlesWithin(work: Promise<void>, ms: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const settled = work.then(() => true, () => true);
+  const expired = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), ms);
+  });
+  return Promise.race([settled, expired]).finally(() => clearTimeout(timer));
+}
+
+async function runJob(store: JobStore, queue: RegisteredQueue, job: Job): Promise<void> {
+  queue.running += 1;
+  const controller = new AbortController();
+  const work = Promise.resolve().then(() => queue.handler(job.payload, job, controller.signal));
+  // The slot stays taken until the handler really returns, even past its timeout
+  void work
+    .catch(() => undefined)
+    .finally(() => {
+      queue.running -= 1;
+      scheduleTick();
+    });
+  try {
+    await withTimeout(work, queue.options.timeoutMs, controller);
+    await store.complete(job);
+  } catch (err: any) {
+    job.lastError = String(err?.message || err).slice(0, 1000);
+    job.failedAt = Date.now();
+    // Retrying a timed-out handler that is still running would run the job twice
+    const stillRunning =
+      controller.signal.aborted && !(await settlesWithin(work, Math.min(TIMEOUT_GRACE_MS, queue.options.timeoutMs)));
     try {
-      setImmediate(() => {
-        (async () => {
-          try {
-            await fn();
-            console.log('[BackgroundTaskQueue][shim] Task completed', id);
-          } catch (err) {
-            console.error('[BackgroundTaskQueue][shim] Task failed', id, err);
-          }
-        })();
+      if (stillRunning || job.attempts >= job.maxAttempts) {
+        if (stillRunning) job.lastError = `${job.lastError}; handler did not stop after abort`;
+        await store.bury(job);
+        logger.error({ queue: job.queue, jobId: job.id, attempts: job.attempts, err: job.lastError }, '[JobQueue] Job moved to dead-letter');
+      } else {
+        job.runAt = Date.now() + retryDelay(queue.options, job.attempts);
+        await store.retry(job);
+        logger.warn({ queue: job.queue, jobId: job.id, attempts: job.attempts, retryAt: job.runAt, err: job.lastError }, '[JobQueue] Job failed, retry scheduled');
+      }
+    } catch (storeErr) {
+      // Redis jobs stay in the active set and are re-queued when their lease expires
+      logThrottled('[JobQueue] Failed to record job failure', storeErr);
+    }
+  }
+}
+
+async function tick(): Promise<void> {
+  if (ticking || !pollTimer) return;
+  ticking = true;
+  try {
+    for (const [name, queue] of registry) {
+      for (const store of consumedStores()) {
+        const free = queue.options.concurrency - queue.running;
+        if (free <= 0) break;
+        try {
+          const jobs = await store.claim(name, free, queue.options.timeoutMs + LEASE_MARGIN_MS);
+          for (const job of jobs) void runJob(store, queue, job);
+        } catch (err) {
+          logThrottled(`[JobQueue] Failed to claim jobs for ${name}`, err);
+        }
+      }
+    }
+  } finally {
+    ticking = false;
+  }
+}
+
+function scheduleTick() {
+  if (pollTimer) setImmediate(() => void tick());
+}
+
+/** Register the handler for a queue. Jobs are only consumed once start() has been called. */
+function registerQueue<T>(name: string, handler: JobHandler<T>, options: QueueOptions = {}): void {
+  const resolved: Required<QueueOptions> = { ...DEFAULT_OPTIONS, ...options };
+  resolved.concurrency = concurrencyOverride(name) ?? resolved.concurrency;
+  registry.set(name, { handler: handler as JobHandler, options: resolved, running: registry.get(name)?.running || 0 });
+}
+
+/**
+ * Enqueue a job. Resolves to the job id, or null when a job with the same `jobId` is still pending.
+ * When the Redis write fails the job falls back to the in-process store, unless `durable` is set:
+ * then the Redis error is thrown so the caller can fail the request instead of losing the job.
+ */
+async function enqueue<T>(queue: string, payload: T, options: EnqueueOptions = {}): Promise<string | null> {
+  const now = Date.now();
+  const job: Job<T> = {
+    id: options.jobId || `${now.toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+    queue,
+    payload,
+    attempts: 0,
+    maxAttempts: options.attempts ?? registry.get(queue)?.options.attempts ?? DEFAULT_OPTIONS.attempts,
+    createdAt: now,
+    runAt: now + Math.max(0, options.delayMs || 0),
+  };
+  let added = false;
+  if (isRedisEnabled()) {
+    try {
+      added = await redisStore.add(job);
+      if (added) scheduleTick();
+      return added ? job.id : null;
+    } catch (err) {
+      if (options.durable) throw err;
+      logThrottled('[JobQueue] Redis enqueue failed, keeping job in process', err);
+    }
+  }
+  added = await memoryStore.add(job);
+  if (added) scheduleTick();
+  return added ? job.id : null;
+}
+
+/**
+ * Start polling every registered queue in this process. `redis: false` leaves Redis jobs to other
+ * consumers and drains only the jobs this process kept in memory.
+ */
+function start(options: { redis?: boolean } = {}): void {
+  if (pollTimer) return;
+  consumeRedis = options.redis ?? true;
+  pollTimer = setInterval(() => void tick(), env.jobQueuePollIntervalMs || 1000);
+  pollTimer.unref?.();
+  logger.info({ queues: Array.from(registry.keys()), redis: isRedisEnabled() && consumeRedis }, '[JobQueue] Started');
+  scheduleTick();
+}
+
+/** Stop claiming new jobs and wait (up to timeoutMs) for running handlers to finish. */
+async function stop(timeoutMs = 30000): Promise<void> {
+  if (pollTimer) clearInterval(pollTimer);
+  pollTimer = null;
+  const deadline = Date.now() + timeoutMs;
+  while (Array.from(registry.values()).some((q) => q.running > 0) && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+}
+
+async function getStatus(): Promise<QueueStatus[]> {
+  const names = new Set<string>(registry.keys());
+  for (const store of activeStores()) {
+    for (const name of await store.queues()) names.add(name);
+  }
+  const statuses: QueueStatus[] = [];
+  for (const name of Array.from(names).sort()) {
+    const totals = emptyCounts();
+    for (const store of activeStores()) {
+      const counts = await store.counts(name);
+      (Object.keys(totals) as Array<keyof QueueCounts>).forEach((k) => {
+        totals[k] += counts[k];
       });
-    } catch (e) {
-      // Fallback: run directly
-      fn().catch(err => console.error('[BackgroundTaskQueue][shim] direct execution failed', id, err));
     }
-  },
-  getStatus: () => ({ queued: 0, running: 0, runningIds: [] as string[] })
-};
+    const registered = registry.get(name);
+    statuses.push({
+      queue: name,
+      registered: Boolean(registered),
+      concurrency: registered?.options.concurrency,
+      running: registered?.running || 0,
+      ...totals,
+    });
+  }
+  return statuses;
+}
 
+async function listJobs(queue: string, state: JobState, limit = 50): Promise<Job[]> {
+  const jobs: Job[] = [];
+  for (const store of activeStores()) {
+    jobs.push(...(await store.list(queue, state, limit - jobs.length)));
+    if (jobs.length >= limit) break;
+  }
+  return jobs;
+}
+
+export const backgroundTaskQueue = {
+  registerQueue,
+  enqueue,
+  start,
+  stop,
+  getStatus,
+  listJobs,
+};
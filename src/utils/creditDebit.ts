@@ -1,5 +1,6 @@
 import { creditsRepository } from '../repository/creditsRepository';
 import { logger } from './logger';
+import { publishGenerationEvent } from './generationEvents';
 
 /**
  * Unified post-success debit helper.
@@ -104,6 +105,9 @@ export async function issueRefund(
     if (!amount || amount <= 0) return 'SKIPPED';
     const outcome = await creditsRepository.writeRefund(uid, requestId, amount, reason, meta);
     logger.info({ uid, requestId, amount, reason, outcome }, '[CREDITS] issueRefund');
+    if (outcome === 'WRITTEN' && meta?.historyId) {
+      publishGenerationEvent(uid, { type: 'refunded', historyId: String(meta.historyId), refund: { amount, reason } });
+    }
     return outcome;
   } catch (e) {
     logger.error({ uid, err: e }, '[CREDITS] issueRefund error');
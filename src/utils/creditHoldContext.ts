@@ -0,0 +1,23 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Request-scoped pointer to the credit hold placed by makeCreditCost.
+ *
+ * Provider services create history items via generationHistoryRepository.create without
+ * access to req.context, so the hold key is carried through the async call chain instead.
+ * create() reads it to link the new historyId to the hold.
+ */
+export interface ActiveCreditHold {
+  key: string;
+  billingUid: string;
+}
+
+const storage = new AsyncLocalStorage<ActiveCreditHold>();
+
+export function runWithCreditHold<T>(hold: ActiveCreditHold, fn: () => T): T {
+  return storage.run(hold, fn);
+}
+
+export function getActiveCreditHold(): ActiveCreditHold | undefined {
+  return storage.getStore();
+}
@@ -595,3 +595,172 @@ Need help? ${supportEmail}
 
 © ${new Date().getFullYear()} ${companyName}. All rights reserved.`.trim();
 }
+
+// ---------------------------------------------------------------------------
+// Account Deletion Emails
+// ---------------------------------------------------------------------------
+
+export interface AccountDeletionScheduledEmailData {
+  email: string;
+  scheduledFor: string; // human-readable date
+  cancelUrl: string;
+  companyName?: string;
+  supportEmail?: string;
+}
+
+export interface AccountDeletedEmailData {
+  email: string;
+  companyName?: string;
+  supportEmail?: string;
+}
+
+export function generateAccountDeletionScheduledEmailHTML(
+  data: AccountDeletionScheduledEmailData,
+): string {
+  const {
+    email,
+    scheduledFor,
+    cancelUrl,
+    companyName = "Wild Mind AI",
+    supportEmail = "support@wildmindai.com",
+  } = data;
+
+  const body = `
+        <tr>
+          <td style="padding:36px 40px 10px;text-align:center;">
+            <h1 style="margin:0 0 10px;font-size:26px;font-weight:700;color:#e8e8f0;font-family:${FONT_STACK};line-height:1.3;">
+              Account Deletion Scheduled
+            </h1>
+            <p style="margin:0;font-size:15px;color:#8888aa;font-family:${FONT_STACK};line-height:1.6;">
+              We received a request to delete your ${companyName} account and all of its data.
+            </p>
+          </td>
+        </tr>
+
+        <tr>
+          <td style="padding:24px 40px 20px;text-align:center;">
+            <div style="display:inline-block;background-color:#16162a;border:1px solid #2a2a50;border-radius:12px;padding:18px 28px;text-align:left;">
+              <p style="margin:0 0 8px;font-size:14px;color:#cfd6ff;font-family:${FONT_STACK};line-height:1.7;">
+                Account: <strong style="color:#ffffff;">${email}</strong>
+              </p>
+              <p style="margin:0;font-size:14px;color:#cfd6ff;font-family:${FONT_STACK};line-height:1.7;">
+                Deletion date: <strong style="color:#ffffff;">${scheduledFor}</strong>
+              </p>
+            </div>
+          </td>
+        </tr>
+
+        <tr>
+          <td style="padding:0 40px 20px;text-align:center;">
+            <p style="margin:0;font-size:14px;color:#aaaacc;font-family:${FONT_STACK};line-height:1.7;">
+              Until then you can sign in and cancel the deletion. After that date your generations, uploads,
+              canvas projects and profile are permanently removed and cannot be recovered.
+            </p>
+          </td>
+        </tr>
+
+        <tr>
+          <td align="center" style="padding:0 40px 28px;">
+            <a href="${cancelUrl}"
+               style="display:inline-block;background-color:#3b4fd4;color:#ffffff;text-decoration:none;
+                      padding:15px 40px;border-radius:8px;font-size:15px;font-weight:600;
+                      font-family:${FONT_STACK};letter-spacing:0.3px;">
+              Keep My Account
+            </a>
+          </td>
+        </tr>
+
+        <tr>
+          <td style="padding:8px 40px 32px;">
+            <div style="background-color:#16162a;border-left:3px solid #3a3a6a;border-radius:6px;padding:14px 18px;">
+              <p style="margin:0 0 6px;font-size:13px;color:#8888cc;font-family:${FONT_STACK};">
+                Security notice
+              </p>
+              <p style="margin:0;font-size:13px;color:#6666aa;font-family:${FONT_STACK};line-height:1.7;">
+                If you did not request this, sign in and cancel the deletion, then contact <a href="mailto:${supportEmail}" style="color:#7b8cde;text-decoration:none;">${supportEmail}</a>.
+              </p>
+            </div>
+          </td>
+        </tr>`;
+
+  return wrapEmail(body, `Account Deletion Scheduled - ${companyName}`, {
+    previewText: `Your account will be deleted on ${scheduledFor}.`,
+  });
+}
+
+export function generateAccountDeletionScheduledEmailText(
+  data: AccountDeletionScheduledEmailData,
+): string {
+  const {
+    email,
+    scheduledFor,
+    cancelUrl,
+    companyName = "Wild Mind AI",
+    supportEmail = "support@wildmindai.com",
+  } = data;
+
+  return `${companyName} - Account Deletion Scheduled
+
+We received a request to delete the account ${email} and all of its data.
+
+Deletion date: ${scheduledFor}
+
+Until then you can sign in and cancel the deletion:
+${cancelUrl}
+
+After that date your generations, uploads, canvas projects and profile are permanently removed and cannot be recovered.
+
+If you did not request this, cancel the deletion and contact ${supportEmail}.
+
+© ${new Date().getFullYear()} ${companyName}. All rights reserved.`.trim();
+}
+
+export function generateAccountDeletedEmailHTML(
+  data: AccountDeletedEmailData,
+): string {
+  const {
+    email,
+    companyName = "Wild Mind AI",
+    supportEmail = "support@wildmindai.com",
+  } = data;
+
+  const body = `
+        <tr>
+          <td style="padding:36px 40px 10px;text-align:center;">
+            <h1 style="margin:0 0 10px;font-size:26px;font-weight:700;color:#e8e8f0;font-family:${FONT_STACK};line-height:1.3;">
+              Your Account Was Deleted
+            </h1>
+            <p style="margin:0;font-size:15px;color:#8888aa;font-family:${FONT_STACK};line-height:1.6;">
+              The ${companyName} account ${email} and its data have been permanently deleted.
+            </p>
+          </td>
+        </tr>
+
+        <tr>
+          <td style="padding:0 40px 32px;text-align:center;">
+            <p style="margin:0;font-size:13px;color:#6666aa;font-family:${FONT_STACK};line-height:1.7;">
+              Questions? Contact <a href="mailto:${supportEmail}" style="color:#7b8cde;text-decoration:none;">${supportEmail}</a>.
+            </p>
+          </td>
+        </tr>`;
+
+  return wrapEmail(body, `Account Deleted - ${companyName}`);
+}
+
+export function generateAccountDeletedEmailText(
+  data: AccountDeletedEmailData,
+): string {
+  const {
+    email,
+    companyName = "Wild Mind AI",
+    supportEmail = "support@wildmindai.com",
+  } = data;
+
+  return `${companyName} - Your Account Was Deleted
+
+The account ${email} and its data have been permanently deleted.
+
+Questions? Contact ${supportEmail}.
+
+© ${new Date().getFullYear()} ${companyName}. All rights reserved.`.trim();
+}
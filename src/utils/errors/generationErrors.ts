@@ -0,0 +1,34 @@
+/**
+ * Map a stored generation failure to the user-facing shape of the provider's error mapper.
+ * History items only keep the error message, so mappers see `{ message }`.
+ */
+
+import { mapBflError } from './bflErrors';
+import { mapFalError } from './falErrors';
+import { mapMinimaxError } from './minimaxErrors';
+import { mapReplicateError } from './replicateErrors';
+import { mapRunwayError } from './runwayErrors';
+
+export interface GenerationErrorInfo {
+  code: string;
+  title: string;
+  message: string;
+}
+
+const MAPPERS: Record<string, (error: any) => GenerationErrorInfo> = {
+  bfl: mapBflError,
+  fal: mapFalError,
+  minimax: mapMinimaxError,
+  replicate: mapReplicateError,
+  runway: mapRunwayError,
+};
+
+export function mapGenerationError(provider: string | undefined, error: string | undefined): GenerationErrorInfo {
+  const message = error || 'Generation failed';
+  const mapper = provider ? MAPPERS[provider] : undefined;
+  if (!mapper) {
+    return { code: 'GENERATION_FAILED', title: 'Generation Failed', message };
+  }
+  const { code, title, message: mapped } = mapper({ message });
+  return { code, title, message: mapped || message };
+}
@@ -0,0 +1,52 @@
+import type { Request, Response } from 'express';
+
+const HEARTBEAT_MS = 15_000;
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  end(): void;
+  /** Aborted when the client goes away before end(); pass it to upstream calls. */
+  signal: AbortSignal;
+}
+
+export interface EventStreamOptions {
+  /** Reconnect delay sent to EventSource clients as the stream's first line. */
+  retryMs?: number;
+}
+
+/**
+ * Switch a response to server-sent events. Comment-line heartbeats keep proxies from
+ * closing the stream while a model is still thinking. Disconnects are detected on the
+ * response: for POST requests the request's own 'close' fires as soon as the body is read.
+ */
+export function openEventStream(_req: Request, res: Response, options: EventStreamOptions = {}): EventStream {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  // no-transform keeps compression from buffering the stream
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const controller = new AbortController();
+  const write = (chunk: string) => {
+    if (!res.writableEnded) res.write(chunk);
+  };
+  if (options.retryMs !== undefined) write(`retry: ${options.retryMs}\n\n`);
+  const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_MS);
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    if (!res.writableFinished) controller.abort();
+  });
+
+  return {
+    send(event, data) {
+      write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    end() {
+      clearInterval(heartbeat);
+      if (!res.writableEnded) res.end();
+    },
+    signal: controller.signal,
+  };
+}
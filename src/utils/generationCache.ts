@@ -1,5 +1,6 @@
 import { getRedisClient } from '../config/redisClient';
 import { GenerationHistoryItem } from '../types/generate';
+import { recordCacheLookup } from './metrics';
 
 const CACHE_TTL = 60 * 120; // 2 hours cache for generation items
 const LIST_CACHE_TTL = 60 * 60; // 1 hour for list results
@@ -59,6 +60,7 @@ export async function getCachedItem(uid: string, historyId: string): Promise<Gen
     }
     const key = getItemCacheKey(uid, historyId);
     const cached = await client.get(key);
+    recordCacheLookup('item', cached ? 1 : 0, cached ? 0 : 1);
     if (!cached) {
       console.log(`[generationCache] ⚠️  CACHE MISS: ${key}`);
       return null;
@@ -117,6 +119,7 @@ export async function getCachedList(uid: string, params: any): Promise<any | nul
     }
     const key = getListCacheKey(uid, params);
     const cached = await client.get(key);
+    recordCacheLookup('list', cached ? 1 : 0, cached ? 0 : 1);
     if (!cached) {
       console.log(`[generationCache] ⚠️  LIST CACHE MISS: ${key}`);
       return null;
@@ -193,6 +196,7 @@ export async function getCachedItemsBatch(uid: string, historyIds: string[]): Pr
         } catch {}
       }
     });
+    recordCacheLookup('item', result.size, historyIds.length - result.size);
   } catch (error) {
     console.warn('[generationCache] getCachedItemsBatch error:', error);
   }
@@ -244,6 +248,7 @@ export async function getCachedPublicFeed(params: any): Promise<any | null> {
     }
     const key = getPublicFeedCacheKey(params);
     const cached = await client.get(key);
+    recordCacheLookup('public_feed', cached ? 1 : 0, cached ? 0 : 1);
     if (!cached) {
       return null;
     }
@@ -299,10 +304,12 @@ export async function invalidatePublicFeedCache(): Promise<void> {
  * Library and Uploads cache functions
  */
 function getLibraryCacheKey(uid: string, params: any): string {
-  const { limit = 50, cursor, nextCursor, mode } = params;
+  const { limit = 50, cursor, nextCursor, mode, collectionId } = params;
   const modeKey = mode || 'all';
   const cursorKey = nextCursor || cursor || 'start';
-  return `library:${uid}:${limit}:${cursorKey}:${modeKey}`;
+  // Collection pages get their own prefix so one collection can be invalidated alone
+  const collectionKey = collectionId ? `c:${collectionId}:` : '';
+  return `library:${uid}:${collectionKey}${limit}:${cursorKey}:${modeKey}`;
 }
 
 function getUploadsCacheKey(uid: string, params: any): string {
@@ -322,6 +329,7 @@ export async function getCachedLibrary(uid: string, params: any): Promise<any |
     }
     const key = getLibraryCacheKey(uid, params);
     const cached = await client.get(key);
+    recordCacheLookup('library', cached ? 1 : 0, cached ? 0 : 1);
     if (!cached) {
       return null;
     }
@@ -355,6 +363,7 @@ export async function getCachedUploads(uid: string, params: any): Promise<any |
     }
     const key = getUploadsCacheKey(uid, params);
     const cached = await client.get(key);
+    recordCacheLookup('uploads', cached ? 1 : 0, cached ? 0 : 1);
     if (!cached) {
       return null;
     }
@@ -399,4 +408,60 @@ export async function invalidateLibraryCache(uid: string): Promise<void> {
   } catch (error) {
     console.warn('[generationCache] invalidateLibraryCache error:', error);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Library collections cache: the user's collection list, plus collection pages stored
+ * through get/setCachedLibrary with a collectionId param. Collection pages are also
+ * dropped by invalidateLibraryCache, so deleting or editing a generation clears them.
+ */
+function getCollectionsCacheKey(uid: string): string {
+  return `collections:${uid}`;
+}
+
+export async function getCachedCollections(uid: string): Promise<any | null> {
+  try {
+    const client = getClient();
+    if (!client) {
+      return null;
+    }
+    const cached = await client.get(getCollectionsCacheKey(uid));
+    recordCacheLookup('collections', cached ? 1 : 0, cached ? 0 : 1);
+    return cached ? JSON.parse(cached) : null;
+  } catch (error) {
+    console.warn('[generationCache] getCachedCollections error:', error);
+    return null;
+  }
+}
+
+export async function setCachedCollections(uid: string, result: any): Promise<void> {
+  try {
+    const client = getClient();
+    if (!client) {
+      return;
+    }
+    await client.setEx(getCollectionsCacheKey(uid), LIBRARY_CACHE_TTL, JSON.stringify(result));
+  } catch (error) {
+    console.warn('[generationCache] setCachedCollections error:', error);
+  }
+}
+
+/**
+ * Invalidate the collection list and the pages of one collection (or of all
+ * collections when collectionId is omitted).
+ */
+export async function invalidateCollectionCache(uid: string, collectionId?: string): Promise<void> {
+  try {
+    const client = getClient();
+    if (!client) return;
+    await client.del(getCollectionsCacheKey(uid));
+    const pattern = `library:${uid}:c:${collectionId ? `${collectionId}:` : ''}*`;
+    const keys = await client.keys(pattern);
+    if (keys && keys.length > 0) {
+      await client.del(keys);
+      console.log(`[generationCache] 🗑️  Invalidated ${keys.length} ${pattern} cache entries`);
+    }
+  } catch (error) {
+    console.warn('[generationCache] invalidateCollectionCache error:', error);
+  }
+}
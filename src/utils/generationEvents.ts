@@ -0,0 +1,72 @@
+import { EventEmitter } from 'events';
+import { env } from '../config/env';
+import { isRedisEnabled, redisPublishSafe, createRedisSubscriber } from '../config/redisClient';
+import { logger } from './logger';
+import { GenerationEvent } from '../types/generate';
+
+/**
+ * Per-user generation lifecycle events.
+ *
+ * Publishers (history repository/service, provider status paths, refunds) never block on delivery.
+ * With Redis enabled every event goes through one pub/sub channel so an SSE connection on any
+ * instance receives events produced on another; each instance subscribes once and dispatches
+ * locally by uid. Without Redis, events are delivered in-process only.
+ *
+ * Events are state notifications, not a log: the same item may be reported more than once
+ * (e.g. `completed` again after media optimization).
+ */
+
+interface Envelope {
+  uid: string;
+  event: GenerationEvent;
+}
+
+const CHANNEL = `${env.redisPrefix || ''}generation-events`;
+
+const local = new EventEmitter();
+local.setMaxListeners(0);
+
+let subscription: Promise<void> | null = null;
+
+function deliver(envelope: Envelope): void {
+  local.emit(envelope.uid, envelope.event);
+}
+
+function ensureSubscribed(): void {
+  if (subscription || !isRedisEnabled()) return;
+  subscription = (async () => {
+    const subscriber = await createRedisSubscriber();
+    if (!subscriber) return;
+    await subscriber.subscribe(CHANNEL, (message: string) => {
+      try {
+        deliver(JSON.parse(message) as Envelope);
+      } catch {
+        // ignore malformed messages
+      }
+    });
+  })().catch((err) => {
+    logger.warn({ err: err?.message }, '[GENERATION_EVENTS] Redis subscribe failed; retrying on next listener');
+    subscription = null;
+  });
+}
+
+export function publishGenerationEvent(uid: string, event: Omit<GenerationEvent, 'at'>): void {
+  if (!uid || !event?.historyId) return;
+  const envelope: Envelope = { uid, event: { ...event, at: Date.now() } };
+  if (!isRedisEnabled()) {
+    deliver(envelope);
+    return;
+  }
+  redisPublishSafe(CHANNEL, JSON.stringify(envelope)).then((published) => {
+    // Redis unavailable: at least reach listeners on this instance
+    if (!published) deliver(envelope);
+  });
+}
+
+export function subscribeGenerationEvents(uid: string, listener: (event: GenerationEvent) => void): () => void {
+  ensureSubscribed();
+  local.on(uid, listener);
+  return () => {
+    local.off(uid, listener);
+  };
+}
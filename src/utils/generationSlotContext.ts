@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Request-scoped pointer to the in-flight generation slot taken by makeCreditCost.
+ *
+ * Like the credit hold, the slot reaches generationHistoryRepository.create through the async
+ * call chain. create() records the history ids on it, so the slot stays taken after the response
+ * while a queued generation is still running, and is freed when that item completes or fails.
+ */
+export interface ActiveGenerationSlot {
+  uid: string;
+  id: string;
+  /** History items created under the slot, as { uid, historyId }. */
+  histories: Array<{ uid: string; historyId: string }>;
+}
+
+const storage = new AsyncLocalStorage<ActiveGenerationSlot>();
+
+export function runWithGenerationSlot<T>(slot: ActiveGenerationSlot, fn: () => T): T {
+  return storage.run(slot, fn);
+}
+
+export function getActiveGenerationSlot(): ActiveGenerationSlot | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,63 @@
+import { Duplex } from 'stream';
+import { IncomingMessage, ServerResponse } from 'http';
+import type { Request, Response } from 'express';
+
+export interface InProcessResponse {
+  res: Response;
+  /** Resolves with the status and parsed body once the handlers finish the response. */
+  finished: Promise<{ statusCode: number; body: any }>;
+}
+
+/**
+ * A real Express response for running route handlers in-process (pricing quotes, agent tool
+ * calls). It is a regular ServerResponse on a socket that discards its output, so every Response
+ * method behaves as in production and 'finish'/'close' fire as usual; the body is captured from
+ * write()/end() and parsed as JSON when possible.
+ */
+export function createInProcessResponse(req: Request): InProcessResponse {
+  const socket = new Duplex({
+    read() {},
+    write(_chunk, _encoding, callback) {
+      callback();
+    },
+  });
+  const res = new ServerResponse(new IncomingMessage(socket as any)) as any;
+  // The app's response prototype: Express's methods on top of ServerResponse
+  Object.setPrototypeOf(res, (req.app as any).response);
+  res.req = req;
+  res.locals = {};
+  (req as any).res = res;
+  res.assignSocket(socket);
+
+  const chunks: Buffer[] = [];
+  const capture = (chunk: any, encoding?: any) => {
+    if (chunk == null || typeof chunk === 'function') return;
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8'));
+  };
+  const write = res.write;
+  const end = res.end;
+  res.write = function (chunk: any, encoding?: any, cb?: any) {
+    capture(chunk, encoding);
+    return write.call(this, chunk, encoding, cb);
+  };
+  res.end = function (chunk?: any, encoding?: any, cb?: any) {
+    capture(chunk, encoding);
+    return end.call(this, chunk, encoding, cb);
+  };
+
+  const finished = new Promise<{ statusCode: number; body: any }>((resolve) => {
+    res.once('finish', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      let body: any = text || undefined;
+      try {
+        body = text ? JSON.parse(text) : undefined;
+      } catch {
+        // not JSON: keep the raw text
+      }
+      resolve({ statusCode: res.statusCode, body });
+      socket.destroy();
+    });
+  });
+
+  return { res: res as Response, finished };
+}
@@ -14,6 +14,7 @@ export * from './emailTemplates';
 export * from './creditDebit';
 export * from './generationCache';
 export * from './backgroundTaskQueue';
+export * from './eventStream';
 export * from './cursorUtils';
 export * from './modeTypeMap';
 export * from './normalizeGenerationType';
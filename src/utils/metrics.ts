@@ -0,0 +1,87 @@
+import client from 'prom-client';
+import { mirrorQueueRepository } from '../repository/mirrorQueueRepository';
+
+/**
+ * Prometheus metrics for the gateway, served by GET /metrics.
+ *
+ * Label values must stay low-cardinality: routes are Express route templates, provider models
+ * come from outboundTelemetry's URL parsing, and ids never become labels.
+ */
+
+export const metricsRegistry = new client.Registry();
+client.collectDefaultMetrics({ register: metricsRegistry });
+
+// Mirror queue depth is a Firestore aggregation; scrapes in between reuse the last count
+const MIRROR_QUEUE_DEPTH_TTL_MS = 30 * 1000;
+let mirrorQueueDepthCache: { value: number; expiry: number } | null = null;
+
+export const httpRequestDuration = new client.Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request latency by route template',
+  labelNames: ['method', 'route', 'status_code'] as const,
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300],
+  registers: [metricsRegistry],
+});
+
+export const providerRequestDuration = new client.Histogram({
+  name: 'provider_request_duration_seconds',
+  help: 'Outbound provider and credit service call latency (fetch calls: until response headers)',
+  labelNames: ['provider', 'model', 'status_class'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 420],
+  registers: [metricsRegistry],
+});
+
+export const providerRequestErrors = new client.Counter({
+  name: 'provider_request_errors_total',
+  help: 'Outbound provider and credit service calls that failed (HTTP 4xx/5xx, timeout or network error)',
+  labelNames: ['provider', 'model', 'reason'] as const,
+  registers: [metricsRegistry],
+});
+
+export const creditOperations = new client.Counter({
+  name: 'credit_operations_total',
+  help: 'Credit debits and refunds sent to the credit service, by outcome',
+  labelNames: ['operation', 'outcome'] as const,
+  registers: [metricsRegistry],
+});
+
+export const cacheLookups = new client.Counter({
+  name: 'cache_lookups_total',
+  help: 'generationCache lookups by cache and result; hit ratio = hit / (hit + miss)',
+  labelNames: ['cache', 'result'] as const,
+  registers: [metricsRegistry],
+});
+
+export const websocketConnections = new client.Gauge({
+  name: 'websocket_connections',
+  help: 'Open WebSocket connections on this instance',
+  labelNames: ['server'] as const,
+  registers: [metricsRegistry],
+});
+
+new client.Gauge({
+  name: 'mirror_queue_depth',
+  help: 'Public mirror queue tasks pending or being processed',
+  registers: [metricsRegistry],
+  async collect() {
+    if (!mirrorQueueDepthCache || mirrorQueueDepthCache.expiry <= Date.now()) {
+      try {
+        const value = await mirrorQueueRepository.countOpenTasks();
+        mirrorQueueDepthCache = { value, expiry: Date.now() + MIRROR_QUEUE_DEPTH_TTL_MS };
+      } catch (e: any) {
+        console.warn('[Metrics] Failed to count mirror queue tasks:', e?.message || e);
+        if (!mirrorQueueDepthCache) return;
+      }
+    }
+    this.set(mirrorQueueDepthCache.value);
+  },
+});
+
+export function recordCacheLookup(cache: string, hits: number, misses = 0): void {
+  if (hits > 0) cacheLookups.inc({ cache, result: 'hit' }, hits);
+  if (misses > 0) cacheLookups.inc({ cache, result: 'miss' }, misses);
+}
+
+export async function renderMetrics(): Promise<{ contentType: string; body: string }> {
+  return { contentType: metricsRegistry.contentType, body: await metricsRegistry.metrics() };
+}
@@ -0,0 +1,265 @@
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import diagnosticsChannel from 'diagnostics_channel';
+import { context, propagation, trace, Span, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { env } from '../config/env';
+import { providerRequestDuration, providerRequestErrors } from './metrics';
+import { tracer } from './tracing';
+import { getCurrentRequestId } from './requestContext';
+
+/**
+ * Latency/error metrics and CLIENT spans for calls to generation providers and the credit
+ * service. Axios calls are instrumented with interceptors (instrumentAxios); the FAL,
+ * Replicate and Gemini SDKs use global fetch, which is observed through undici's
+ * diagnostics channels. Calls to other hosts (storage downloads, webhooks) are left alone.
+ */
+
+export type OutboundProvider = 'fal' | 'replicate' | 'bfl' | 'runway' | 'minimax' | 'gemini' | 'credit-service';
+
+export interface OutboundTarget {
+  provider: OutboundProvider;
+  /** Model path (or endpoint, for providers without model URLs) used as a metric label. */
+  model: string;
+}
+
+interface OutboundCall extends OutboundTarget {
+  span: Span;
+  startedAt: bigint;
+}
+
+const MAX_MODEL_SEGMENTS = 3;
+
+function hostOf(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+const configuredHosts = {
+  bfl: hostOf(env.bflApiBase),
+  minimax: hostOf(env.minimaxApiBase),
+  creditService: hostOf(env.creditServiceUrl),
+  falQueue: hostOf(env.falQueueBase),
+};
+
+// Request ids, UUIDs and numeric ids would blow up label cardinality
+function sanitizeSegment(segment: string): string {
+  let value = segment.toLowerCase();
+  try {
+    value = decodeURIComponent(value);
+  } catch {
+    // keep the raw segment
+  }
+  if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/.test(value)) return ':id';
+  if (/^\d+$/.test(value) || /^[0-9a-f]{16,}$/.test(value) || value.length > 64) return ':id';
+  return value.replace(/[^a-z0-9._@:-]/g, '_');
+}
+
+function pathSegments(pathname: string): string[] {
+  return pathname.split('/').filter(Boolean).map(sanitizeSegment);
+}
+
+function modelLabel(segments: string[]): string {
+  const model = segments.slice(0, MAX_MODEL_SEGMENTS).join('/');
+  return model || 'unknown';
+}
+
+/** Map an outbound URL to its provider and model; null for hosts that are not tracked. */
+export function classifyOutbound(rawUrl: string): OutboundTarget | null {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return null;
+  }
+  const host = url.host.toLowerCase();
+  const segments = pathSegments(url.pathname);
+
+  if (host === configuredHosts.creditService) {
+    return { provider: 'credit-service', model: segments[0] || 'unknown' };
+  }
+  if (host === 'queue.fal.run' || host === 'fal.run' || host.endsWith('.fal.run') || host.endsWith('.fal.ai') || host === configuredHosts.falQueue) {
+    // queue.fal.run/fal-ai/flux-pro/v1.1/requests/{id}/status -> fal-ai/flux-pro/v1.1
+    const requestsIndex = segments.indexOf('requests');
+    return { provider: 'fal', model: modelLabel(requestsIndex >= 0 ? segments.slice(0, requestsIndex) : segments) };
+  }
+  if (host === 'api.replicate.com') {
+    // /v1/models/{owner}/{name}/predictions -> owner/name; /v1/predictions/{id} -> predictions
+    const rest = segments.slice(1);
+    if (rest[0] === 'models' && rest.length >= 3) return { provider: 'replicate', model: `${rest[1]}/${rest[2]}` };
+    return { provider: 'replicate', model: rest[0] || 'unknown' };
+  }
+  if (host === configuredHosts.bfl || host === 'api.bfl.ai' || host.endsWith('.bfl.ai')) {
+    // /v1/flux-pro-1.1 -> flux-pro-1.1; /v1/get_result -> get_result
+    return { provider: 'bfl', model: segments[1] || 'unknown' };
+  }
+  if (host === 'api.dev.runwayml.com' || host.endsWith('.runwayml.com')) {
+    return { provider: 'runway', model: segments[1] || 'unknown' };
+  }
+  if (host === configuredHosts.minimax || host.endsWith('.minimax.io') || host.endsWith('.minimaxi.com')) {
+    return { provider: 'minimax', model: segments[1] || 'unknown' };
+  }
+  if (host === 'generativelanguage.googleapis.com') {
+    // /v1beta/models/gemini-2.5-flash:generateContent -> gemini-2.5-flash
+    const modelsIndex = segments.indexOf('models');
+    const model = modelsIndex >= 0 ? segments[modelsIndex + 1] : segments[1];
+    return { provider: 'gemini', model: (model || 'unknown').split(':')[0] };
+  }
+  return null;
+}
+
+function startCall(target: OutboundTarget, method: string, url: string): OutboundCall {
+  const span = tracer.startSpan(
+    `${method} ${target.provider}`,
+    {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        'http.request.method': method,
+        'url.full': url.split('?')[0],
+        'provider.name': target.provider,
+        'provider.model': target.model,
+        'request.id': getCurrentRequestId() || '',
+      },
+    },
+    context.active()
+  );
+  return { ...target, span, startedAt: process.hrtime.bigint() };
+}
+
+/** Headers to add to the outbound request: W3C traceparent, plus X-Request-Id for the credit service. */
+function outboundHeaders(call: OutboundCall): Record<string, string> {
+  const headers: Record<string, string> = {};
+  propagation.inject(trace.setSpan(context.active(), call.span), headers);
+  const requestId = getCurrentRequestId();
+  if (requestId && call.provider === 'credit-service') headers['x-request-id'] = requestId;
+  return headers;
+}
+
+function statusClass(statusCode: number): string {
+  return `${Math.floor(statusCode / 100)}xx`;
+}
+
+function finishCall(call: OutboundCall, outcome: { statusCode?: number; error?: string }): void {
+  const seconds = Number(process.hrtime.bigint() - call.startedAt) / 1e9;
+  const labels = { provider: call.provider, model: call.model };
+  const status = outcome.statusCode ? statusClass(outcome.statusCode) : 'error';
+  providerRequestDuration.observe({ ...labels, status_class: status }, seconds);
+
+  const reason = outcome.error || (outcome.statusCode && outcome.statusCode >= 400 ? `http_${status}` : null);
+  if (reason) {
+    providerRequestErrors.inc({ ...labels, reason });
+    call.span.setStatus({ code: SpanStatusCode.ERROR, message: reason });
+  }
+  if (outcome.statusCode) call.span.setAttribute('http.response.status_code', outcome.statusCode);
+  call.span.end();
+}
+
+function errorReason(error: any): string {
+  const code = String(error?.code || error?.cause?.code || '');
+  if (code === 'ECONNABORTED' || code === 'ETIMEDOUT' || /timeout/i.test(code) || /timed? ?out/i.test(String(error?.message || ''))) {
+    return 'timeout';
+  }
+  if (code === 'ERR_CANCELED' || error?.name === 'AbortError') return 'aborted';
+  return 'network';
+}
+
+// ---------------------------------------------------------------------------
+// axios
+// ---------------------------------------------------------------------------
+
+const instrumentedInstances = new WeakSet<AxiosInstance>();
+const callByConfig = new WeakMap<InternalAxiosRequestConfig, OutboundCall>();
+
+function axiosUrl(config: InternalAxiosRequestConfig): string {
+  const url = config.url || '';
+  if (/^https?:\/\//i.test(url) || !config.baseURL) return url;
+  return `${config.baseURL.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+}
+
+function settleAxiosCall(config: InternalAxiosRequestConfig | undefined, outcome: { statusCode?: number; error?: string }) {
+  const call = config ? callByConfig.get(config) : undefined;
+  if (!call) return;
+  callByConfig.delete(config!);
+  finishCall(call, outcome);
+}
+
+/** Add provider metrics and trace propagation to an axios instance (idempotent). */
+export function instrumentAxios(instance: AxiosInstance): AxiosInstance {
+  if (instrumentedInstances.has(instance)) return instance;
+  instrumentedInstances.add(instance);
+
+  instance.interceptors.request.use((config) => {
+    const url = axiosUrl(config);
+    const target = classifyOutbound(url);
+    if (!target) return config;
+    const call = startCall(target, String(config.method || 'get').toUpperCase(), url);
+    callByConfig.set(config, call);
+    for (const [name, value] of Object.entries(outboundHeaders(call))) {
+      config.headers.set(name, value);
+    }
+    return config;
+  });
+  instance.interceptors.response.use(
+    (response: AxiosResponse) => {
+      settleAxiosCall(response.config, { statusCode: response.status });
+      return response;
+    },
+    (error: AxiosError) => {
+      const statusCode = error.response?.status;
+      settleAxiosCall(error.config, statusCode ? { statusCode } : { error: errorReason(error) });
+      return Promise.reject(error);
+    }
+  );
+  return instance;
+}
+
+// ---------------------------------------------------------------------------
+// fetch (undici)
+// ---------------------------------------------------------------------------
+
+const callByUndiciRequest = new WeakMap<object, OutboundCall>();
+let fetchInstrumented = false;
+
+// Spans end when response headers arrive; streamed bodies (Gemini SSE) are not waited for
+function instrumentFetch(): void {
+  if (fetchInstrumented) return;
+  fetchInstrumented = true;
+
+  diagnosticsChannel.subscribe('undici:request:create', (message: any) => {
+    const request = message?.request;
+    if (!request?.origin) return;
+    const url = `${request.origin}${request.path || ''}`;
+    const target = classifyOutbound(url);
+    if (!target) return;
+    const call = startCall(target, String(request.method || 'GET').toUpperCase(), url);
+    callByUndiciRequest.set(request, call);
+    if (typeof request.addHeader === 'function') {
+      for (const [name, value] of Object.entries(outboundHeaders(call))) {
+        request.addHeader(name, value);
+      }
+    }
+  });
+  diagnosticsChannel.subscribe('undici:request:headers', (message: any) => {
+    const call = callByUndiciRequest.get(message?.request);
+    if (!call) return;
+    callByUndiciRequest.delete(message.request);
+    finishCall(call, { statusCode: message.response?.statusCode });
+  });
+  diagnosticsChannel.subscribe('undici:request:error', (message: any) => {
+    const call = callByUndiciRequest.get(message?.request);
+    if (!call) return;
+    callByUndiciRequest.delete(message.request);
+    finishCall(call, { error: errorReason(message.error) });
+  });
+}
+
+/**
+ * Instrument the shared axios instance and global fetch. Called once at startup; clients built
+ * with axios.create (httpClient, creditServiceClient) call instrumentAxios themselves.
+ */
+export function startOutboundTelemetry(): void {
+  instrumentAxios(axios);
+  instrumentFetch();
+}
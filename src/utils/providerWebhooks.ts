@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import type { IncomingHttpHeaders } from 'http';
+import { env } from '../config/env';
+
+/**
+ * Provider completion webhooks.
+ *
+ * Submit calls hand each provider a callback URL of the form
+ *   {API_GATEWAY_URL}/api/webhooks/{provider}?uid={uid}&cb={nonce}&token={hmac(provider:uid:nonce)}
+ * The nonce is fresh per submit and is bound to the provider task id once the submit returns
+ * (providerWebhookCallbacksRepository), so a token is only good for the one task it was issued
+ * for. Runway has no callbacks; its tasks are followed with scheduled status checks instead
+ * (runwayService).
+ * Handlers never trust the payload for results: they re-fetch the task from the provider.
+ *
+ * FAL and Replicate additionally sign their deliveries; those signatures are verified here.
+ */
+
+export type WebhookProvider = 'fal' | 'replicate' | 'minimax';
+
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+const FAL_JWKS_URL = 'https://rest.alpha.fal.ai/.well-known/jwks.json';
+const FAL_JWKS_TTL_MS = 24 * 60 * 60 * 1000;
+
+let falKeysCache: { keys: crypto.KeyObject[]; fetchedAt: number } | null = null;
+
+function gatewayBaseUrl(): string {
+  return env.apiGatewayUrl ? String(env.apiGatewayUrl).replace(/\/$/, '') : '';
+}
+
+function header(headers: IncomingHttpHeaders, name: string): string {
+  const value = headers[name];
+  return Array.isArray(value) ? String(value[0] || '') : String(value || '');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function isFreshTimestamp(seconds: string): boolean {
+  const ts = Number(seconds);
+  return Number.isFinite(ts) && Math.abs(Date.now() / 1000 - ts) <= SIGNATURE_TOLERANCE_SECONDS;
+}
+
+function signCallback(provider: WebhookProvider, uid: string, nonce: string): string {
+  return crypto
+    .createHmac('sha256', env.providerWebhookSecret as string)
+    .update(`${provider}:${uid}:${nonce}`)
+    .digest('hex');
+}
+
+export interface ProviderWebhookCallback {
+  provider: WebhookProvider;
+  uid: string;
+  /** Per-submit id; bind it to the provider task id once the submit returns. */
+  nonce: string;
+  url: string;
+}
+
+/** Webhooks are opt-in: they need a shared secret and a public gateway URL providers can reach. */
+export function isProviderWebhookEnabled(): boolean {
+  return Boolean(env.providerWebhookSecret && gatewayBaseUrl());
+}
+
+/** Callback to pass at submit time, or undefined when webhooks are disabled (client polling only). */
+export function buildProviderWebhookCallback(provider: WebhookProvider, uid: string): ProviderWebhookCallback | undefined {
+  if (!uid || !isProviderWebhookEnabled()) return undefined;
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const params = new URLSearchParams({ uid, cb: nonce, token: signCallback(provider, uid, nonce) });
+  return { provider, uid, nonce, url: `${gatewayBaseUrl()}/api/webhooks/${provider}?${params.toString()}` };
+}
+
+export function verifyProviderWebhookToken(provider: WebhookProvider, uid: string, nonce: string, token: string): boolean {
+  if (!env.providerWebhookSecret || !uid || !nonce || !token) return false;
+  return safeEqual(String(token), signCallback(provider, uid, nonce));
+}
+
+/**
+ * Replicate signs deliveries Standard Webhooks style:
+ * base64(hmac_sha256(secret, `${webhook-id}.${webhook-timestamp}.${body}`)) listed as "v1,<sig>" entries.
+ * Skipped (callback token only) when REPLICATE_WEBHOOK_SECRET is not configured.
+ */
+export function verifyReplicateSignature(headers: IncomingHttpHeaders, rawBody?: Buffer): boolean {
+  const secret = env.replicateWebhookSecret;
+  if (!secret) return true;
+  const id = header(headers, 'webhook-id');
+  const timestamp = header(headers, 'webhook-timestamp');
+  const signatures = header(headers, 'webhook-signature');
+  if (!id || !timestamp || !signatures || !rawBody) return false;
+  if (!isFreshTimestamp(timestamp)) return false;
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+  const expected = crypto
+    .createHmac('sha256', key)
+    .update(`${id}.${timestamp}.${rawBody.toString('utf8')}`)
+    .digest('base64');
+  return signatures.split(' ').some((entry) => {
+    const [, signature] = entry.split(',');
+    return Boolean(signature) && safeEqual(signature, expected);
+  });
+}
+
+async function getFalPublicKeys(): Promise<crypto.KeyObject[]> {
+  if (falKeysCache && Date.now() - falKeysCache.fetchedAt < FAL_JWKS_TTL_MS) {
+    return falKeysCache.keys;
+  }
+  const res = await axios.get(FAL_JWKS_URL, { timeout: 10_000 });
+  const keys = (Array.isArray(res.data?.keys) ? res.data.keys : [])
+    .filter((k: any) => k?.kty === 'OKP' && k?.crv === 'Ed25519' && typeof k?.x === 'string')
+    .map((k: any) => crypto.createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x: k.x }, format: 'jwk' }));
+  falKeysCache = { keys, fetchedAt: Date.now() };
+  return keys;
+}
+
+/**
+ * FAL signs `${request-id}\n${user-id}\n${timestamp}\n${sha256_hex(body)}` with ED25519;
+ * the public keys are published as a JWKS.
+ */
+export async function verifyFalSignature(headers: IncomingHttpHeaders, rawBody?: Buffer): Promise<boolean> {
+  const requestId = header(headers, 'x-fal-webhook-request-id');
+  const userId = header(headers, 'x-fal-webhook-user-id');
+  const timestamp = header(headers, 'x-fal-webhook-timestamp');
+  const signature = header(headers, 'x-fal-webhook-signature');
+  if (!requestId || !userId || !timestamp || !signature || !rawBody) return false;
+  if (!isFreshTimestamp(timestamp)) return false;
+
+  const bodyHash = crypto.createHash('sha256').update(rawBody).digest('hex');
+  const message = Buffer.from([requestId, userId, timestamp, bodyHash].join('\n'));
+  const signatureBytes = Buffer.from(signature, 'hex');
+  const keys = await getFalPublicKeys();
+  return keys.some((key) => {
+    try {
+      return crypto.verify(null, message, key, signatureBytes);
+    } catch {
+      return false;
+    }
+  });
+}
@@ -0,0 +1,17 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Request-scoped id of the incoming request (the requestId middleware's X-Request-Id).
+ *
+ * Outbound instrumentation reads it to tag provider spans and to forward X-Request-Id to the
+ * credit service, so a debit can be matched to the gateway request that caused it.
+ */
+const storage = new AsyncLocalStorage<string>();
+
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+  return storage.run(requestId, fn);
+}
+
+export function getCurrentRequestId(): string | undefined {
+  return storage.getStore();
+}
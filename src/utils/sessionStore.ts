@@ -1,6 +1,7 @@
 import crypto from 'crypto';
 import { redisDelSafe, redisGetSafe, redisSetSafe } from '../config/redisClient';
 import { env } from '../config/env';
+import type { UserRole } from '../types/authTypes';
 
 export interface CachedSession {
   uid: string;
@@ -8,6 +9,8 @@ export interface CachedSession {
   exp?: number; // seconds since epoch
   userAgent?: string;
   ip?: string;
+  roles?: UserRole[];
+  rolesCheckedAt?: number; // epoch ms when roles were last read from users/{uid}
 }
 
 // BUG FIX #13: Maximum concurrent sessions per user
@@ -47,11 +50,66 @@ export async function getCachedSession(token: string): Promise<CachedSession | n
   return await redisGetSafe<CachedSession>(key);
 }
 
+/**
+ * Uid of an already-verified, unexpired session token, from the cache only (no Firebase call).
+ * Null when the token was never verified here or its cache entry does not match the token's uid.
+ */
+export async function peekCachedSessionUid(token: string): Promise<string | null> {
+  const cached = await getCachedSession(token);
+  if (!cached?.uid) return null;
+  if (cached.exp && cached.exp < Math.floor(Date.now() / 1000)) return null;
+  const payload = decodeJwtPayload(token);
+  const tokenUid = payload?.uid || payload?.sub || payload?.user_id;
+  return tokenUid && tokenUid !== cached.uid ? null : cached.uid;
+}
+
 export async function deleteCachedSession(token: string): Promise<void> {
   const key = keyForToken(token);
   await redisDelSafe(key);
 }
 
+/**
+ * Store freshly-read roles on an existing cached session, keeping its remaining TTL.
+ * No-op when the session is not cached (requirePermission falls back to Firestore).
+ */
+export async function updateCachedSessionRoles(token: string, roles: UserRole[]): Promise<void> {
+  const cached = await getCachedSession(token);
+  if (!cached) return;
+
+  let ttlSec: number | undefined;
+  try {
+    const { getRedisClient } = await import('../config/redisClient');
+    const client = getRedisClient();
+    const remaining = client ? await client.ttl(keyForToken(token)) : -1;
+    if (remaining > 0) ttlSec = remaining;
+  } catch {
+    // fall back to exp-based TTL in cacheSession
+  }
+
+  await cacheSession(token, { ...cached, roles, rolesCheckedAt: Date.now() }, ttlSec);
+}
+
+/**
+ * Drop cached roles from every session of a user so the next privileged call re-reads them.
+ * Used after an admin changes a user's roles.
+ */
+export async function invalidateCachedSessionRoles(uid: string): Promise<void> {
+  try {
+    const { getRedisClient } = await import('../config/redisClient');
+    const client = getRedisClient();
+    if (!client) return;
+
+    const userSessions = await getUserSessions(uid);
+    for (const { key, session } of userSessions) {
+      const { roles: _roles, rolesCheckedAt: _checkedAt, ...rest } = session;
+      const remaining = await client.ttl(key);
+      await redisSetSafe(key, rest, remaining > 0 ? remaining : undefined);
+    }
+  } catch (error) {
+    console.warn('[AUTH] Failed to invalidate cached session roles (non-fatal):', error);
+  }
+}
+
 /**
  * Get all active sessions for a user
  */
@@ -1,5 +1,5 @@
 // utils/storage/zataDelete.ts
-import { DeleteObjectCommand, DeleteObjectsCommand } from "@aws-sdk/client-s3";
+import { DeleteObjectCommand, DeleteObjectsCommand, ListObjectsV2Command } from "@aws-sdk/client-s3";
 import { s3, ZATA_BUCKET } from "./zataClient";
 import { env } from "../../config/env";
 
@@ -57,6 +57,40 @@ export async function deleteFiles(keys: string[]): Promise<{ deleted: string[];
   }
 }
 
+/**
+ * Delete every object under a key prefix (e.g. `users/<username>/`).
+ * Throws if a listing fails so callers can retry; returns the number of deleted and
+ * failed keys otherwise.
+ */
+export async function deletePrefix(prefix: string): Promise<{ deleted: number; failed: number }> {
+  if (!prefix || prefix === '/') {
+    throw new Error('Refusing to delete an empty Zata prefix');
+  }
+  let deleted = 0;
+  let failed = 0;
+  let continuationToken: string | undefined;
+  do {
+    const listResponse: any = await s3.send(new ListObjectsV2Command({
+      Bucket: ZATA_BUCKET,
+      Prefix: prefix,
+      ContinuationToken: continuationToken,
+    }));
+    const keys = ((listResponse.Contents || []) as any[])
+      .map((item: any) => item.Key as string | undefined)
+      .filter((key): key is string => !!key);
+    // DeleteObjects accepts at most 1000 keys per request (same as a list page)
+    if (keys.length > 0) {
+      const result = await deleteFiles(keys);
+      deleted += result.deleted.length;
+      failed += result.failed.length;
+    }
+    continuationToken = listResponse.IsTruncated ? listResponse.NextContinuationToken : undefined;
+  } while (continuationToken);
+
+  console.log('[Zata][Delete] Prefix delete completed:', { prefix, deleted, failed });
+  return { deleted, failed };
+}
+
 /**
  * Extract storage key from Zata URL
  */
@@ -1,7 +1,9 @@
 
 // zataUpload.ts
 import axios from 'axios';
+import { PassThrough } from 'stream';
 import { PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
 import { s3, ZATA_BUCKET, makeZataPublicUrl } from './zataClient';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { env } from '../../config/env';
@@ -88,6 +90,42 @@ export async function uploadStreamToZata(
   return { key, publicUrl, etag: (out as any)?.ETag };
 }
 
+/**
+ * Writable stream into a Zata object of unknown size (multipart upload). Only a couple of
+ * parts are buffered at a time, so large archives never sit in memory. `done` settles when
+ * the object is stored; `abort` cancels the upload and discards the uploaded parts.
+ */
+export function createZataUploadStream(
+  key: string,
+  contentType: string
+): { stream: PassThrough; done: Promise<{ key: string; publicUrl: string; etag?: string }>; abort: () => Promise<void> } {
+  const stream = new PassThrough();
+  const upload = new Upload({
+    client: s3 as any,
+    params: {
+      Bucket: ZATA_BUCKET,
+      Key: key,
+      ContentType: contentType || 'application/octet-stream',
+      Body: stream,
+      Metadata: {
+        'cross-origin-resource-policy': 'cross-origin',
+      },
+    },
+    partSize: 8 * 1024 * 1024,
+    queueSize: 2,
+  });
+  const done = upload.done().then((out: any) => ({ key, publicUrl: makeZataPublicUrl(key), etag: out?.ETag }));
+  return {
+    stream,
+    done,
+    abort: async () => {
+      done.catch(() => {});
+      stream.destroy();
+      await upload.abort().catch(() => {});
+    },
+  };
+}
+
 /**
  * Extract storage key from Zata URL
  */
@@ -0,0 +1,41 @@
+import { trace } from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { BatchSpanProcessor, NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
+import { env } from '../config/env';
+
+/**
+ * OpenTelemetry tracing. Disabled by default; with OTEL_TRACING_ENABLED the provider is
+ * registered globally (AsyncLocalStorage context manager + W3C traceparent propagation) and
+ * spans are batched to OTEL_EXPORTER_OTLP_ENDPOINT. While disabled, `tracer` is the API's
+ * no-op tracer, so instrumentation costs next to nothing.
+ */
+
+let provider: NodeTracerProvider | null = null;
+
+export const tracer = trace.getTracer('api-gateway');
+
+export function startTracing(): void {
+  if (provider || !env.otelTracingEnabled) return;
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: env.otelServiceName,
+      [ATTR_SERVICE_VERSION]: process.env.npm_package_version || 'unknown',
+    }),
+    // The exporter reads OTEL_EXPORTER_OTLP_ENDPOINT / OTEL_EXPORTER_OTLP_HEADERS itself
+    spanProcessors: [new BatchSpanProcessor(new OTLPTraceExporter())],
+  });
+  provider.register();
+  console.log(`[Tracing] OpenTelemetry tracing enabled (service: ${env.otelServiceName})`);
+}
+
+/** Flush buffered spans; called during graceful shutdown. */
+export async function shutdownTracing(): Promise<void> {
+  if (!provider) return;
+  try {
+    await provider.shutdown();
+  } catch (e: any) {
+    console.warn('[Tracing] Failed to flush spans on shutdown:', e?.message || e);
+  }
+}
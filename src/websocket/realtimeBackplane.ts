@@ -0,0 +1,71 @@
+import { randomUUID } from 'crypto';
+import { env } from '../config/env';
+import { isRedisEnabled, redisPublishSafe, createRedisSubscriber } from '../config/redisClient';
+import { logger } from '../utils/logger';
+
+/**
+ * Redis pub/sub backplane for the canvas realtime server.
+ *
+ * Every gateway instance publishes what it sends to its own sockets (ops, cursors, snapshot.sync,
+ * collab and session notices) on one channel and relays messages from other instances to the
+ * sockets it holds for that project. Messages carry the publishing instance id so an instance
+ * never re-delivers its own traffic. Without Redis this is a no-op and delivery stays local.
+ */
+
+export type BackplaneMessage =
+  | {
+    kind: 'broadcast';
+    projectId: string;
+    payload: any;
+    targetSessionId?: string | null; // deliver only to this canvas session
+    exceptSessionId?: string | null; // deliver to everyone but this canvas session
+  }
+  | {
+    kind: 'op';
+    projectId: string;
+    op: any; // the op applied to project state (the inverse for undo)
+    version: number;
+    // Undo/redo availability after the op; the stacks themselves are shared state
+    canUndo: boolean;
+    canRedo: boolean;
+  };
+
+type Envelope = BackplaneMessage & { origin: string };
+
+const CHANNEL = `${env.redisPrefix || ''}canvas-realtime`;
+
+export const REALTIME_INSTANCE_ID = randomUUID();
+
+let subscription: Promise<void> | null = null;
+
+export function startRealtimeBackplane(onMessage: (message: BackplaneMessage) => void): void {
+  if (subscription || !isRedisEnabled()) return;
+  subscription = (async () => {
+    const subscriber = await createRedisSubscriber();
+    if (!subscriber) return;
+    await subscriber.subscribe(CHANNEL, (raw: string) => {
+      let envelope: Envelope;
+      try {
+        envelope = JSON.parse(raw) as Envelope;
+      } catch {
+        return; // ignore malformed messages
+      }
+      if (!envelope?.projectId || envelope.origin === REALTIME_INSTANCE_ID) return;
+      try {
+        onMessage(envelope);
+      } catch (err: any) {
+        logger.warn({ err: err?.message, projectId: envelope.projectId }, '[REALTIME_BACKPLANE] Relay failed');
+      }
+    });
+    logger.info({ channel: CHANNEL, instanceId: REALTIME_INSTANCE_ID }, '[REALTIME_BACKPLANE] Subscribed');
+  })().catch((err) => {
+    logger.warn({ err: err?.message }, '[REALTIME_BACKPLANE] Redis subscribe failed; realtime stays instance-local');
+    subscription = null;
+  });
+}
+
+export function publishRealtime(message: BackplaneMessage): void {
+  if (!isRedisEnabled()) return;
+  const envelope: Envelope = { ...message, origin: REALTIME_INSTANCE_ID };
+  void redisPublishSafe(CHANNEL, JSON.stringify(envelope));
+}
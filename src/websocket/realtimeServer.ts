@@ -2,10 +2,18 @@ import { WebSocket, WebSocketServer, RawData } from 'ws';
 import { IncomingMessage } from 'http';
 import { Server as HttpServer } from 'http';
 import { logger } from '../utils/logger';
+import { websocketConnections } from '../utils/metrics';
 import { URL } from 'url';
 import { opRepository } from '../repository/canvas/opRepository';
 import { elementRepository } from '../repository/canvas/elementRepository';
-import { registerCanvasSessionBroadcaster } from '../services/canvas/canvasSessionNotifier';
+import { projectRepository } from '../repository/canvas/projectRepository';
+import { authenticateUpgradeRequest } from '../middlewares/authMiddleware';
+import { ApiError } from '../utils/errorHandler';
+import { isAllowedOrigin } from '../config/corsOrigins';
+import { CanvasProject } from '../types/canvas';
+import { registerCanvasOpPublisher, registerCanvasSessionBroadcaster } from '../services/canvas/canvasSessionNotifier';
+import { incrementSharedCounter, mutateSharedState, readSharedCounter, readSharedState, sharedCanvasKey } from '../services/canvas/sharedCanvasState';
+import { BackplaneMessage, publishRealtime, startRealtimeBackplane } from './realtimeBackplane';
 
 // --- TYPES ---
 export type GeneratorOverlay = {
@@ -72,26 +80,62 @@ export type WSMessage = {
 export type ProjectState = {
   overlays: Map<string, GeneratorOverlay>;
   media: Map<string, MediaElement>;
-  history: {
-    undoStack: CanvasOp[];
-    redoStack: CanvasOp[];
-  };
   version: number; // Canonical project version
 };
 
-// In-memory state per project
+// Undo/redo stacks, shared by every instance (see sharedCanvasState)
+export type ProjectHistory = {
+  undoStack: CanvasOp[];
+  redoStack: CanvasOp[];
+};
+
+type HistoryAction = 'push' | 'undo' | 'redo';
+
+// Element state per project, loaded from the persisted elements the first time this instance serves
+// the project and then kept current by local ops and ops relayed over the Redis backplane. The
+// version counter and the undo/redo history are shared across instances (see sharedCanvasState).
 const projects = new Map<string, ProjectState>();
+const loadingProjects = new Map<string, Promise<ProjectState>>();
 
-function getProjectState(projectId: string): ProjectState {
-  if (!projects.has(projectId)) {
-    projects.set(projectId, {
-      overlays: new Map(),
-      media: new Map(),
-      history: { undoStack: [], redoStack: [] },
-      version: 0,
-    });
+const SHARED_STATE_TTL_SECONDS = 7 * 24 * 60 * 60;
+const UNDO_STACK_LIMIT = 50;
+
+function versionKey(projectId: string): string {
+  return sharedCanvasKey(projectId, 'version');
+}
+
+function historyKey(projectId: string): string {
+  return sharedCanvasKey(projectId, 'history');
+}
+
+function isMediaElement(el: any): boolean {
+  return el?.type === 'image' || el?.type === 'video' || el?.type === 'text';
+}
+
+// Ops are relayed only after they are persisted, so the elements read here include every op
+// published before this instance started following the project.
+function loadProjectState(projectId: string): Promise<ProjectState> {
+  const loaded = projects.get(projectId);
+  if (loaded) return Promise.resolve(loaded);
+  let loading = loadingProjects.get(projectId);
+  if (!loading) {
+    loading = (async () => {
+      const [elements, sharedVersion] = await Promise.all([
+        elementRepository.listAllElements(projectId),
+        readSharedCounter(versionKey(projectId)),
+      ]);
+      const state: ProjectState = { overlays: new Map(), media: new Map(), version: sharedVersion ?? 0 };
+      for (const el of elements) {
+        if (isMediaElement(el)) state.media.set(el.id, el as any);
+        else state.overlays.set(el.id, el as any);
+      }
+      projects.set(projectId, state);
+      logger.info({ projectId, elements: elements.length, version: state.version }, 'Realtime project state loaded');
+      return state;
+    })().finally(() => loadingProjects.delete(projectId));
+    loadingProjects.set(projectId, loading);
   }
-  return projects.get(projectId)!;
+  return loading;
 }
 
 function getProjectId(reqUrl: string | undefined): string | null {
@@ -118,13 +162,78 @@ function getSessionId(reqUrl: string | undefined): string | null {
   }
 }
 
+// ID token for clients that cannot send the session cookie with the upgrade (cross-site frontends)
+function getAuthToken(reqUrl: string | undefined): string | null {
+  if (!reqUrl) return null;
+  try {
+    const { env } = require('../config/env');
+    const defaultBase = env.devFrontendUrl;
+    const u = new URL(reqUrl, defaultBase);
+    return u.searchParams.get('token');
+  } catch {
+    return null;
+  }
+}
+
+// Identity resolved during the upgrade handshake; authorship is never taken from client messages.
+// The role is re-read whenever the project's membership changes (see reauthorizeRoom).
+type RealtimeClient = {
+  uid: string;
+  role: CanvasProject['collaborators'][number]['role'];
+};
+
+// Close code for sockets whose user lost access to the project (4000-4999 are application codes)
+const ACCESS_REVOKED_CLOSE_CODE = 4403;
+
+function roleIn(project: CanvasProject, uid: string): RealtimeClient['role'] | undefined {
+  return project.ownerUid === uid
+    ? 'owner'
+    : project.collaborators.find(c => c.uid === uid)?.role;
+}
+
+async function authorizeUpgrade(req: IncomingMessage): Promise<RealtimeClient> {
+  // Upgrades are not subject to CORS and the session cookie is SameSite=None, so a foreign page
+  // could otherwise open a socket with the user's cookie
+  const origin = req.headers.origin;
+  if (origin && !isAllowedOrigin(origin)) {
+    throw new ApiError('Origin not allowed', 403);
+  }
+  const projectId = getProjectId(req.url);
+  if (!projectId) {
+    throw new ApiError('projectId is required', 400);
+  }
+  const uid = await authenticateUpgradeRequest(req, getAuthToken(req.url));
+  const project = await projectRepository.getProject(projectId);
+  if (!project) {
+    throw new ApiError('Project not found', 404);
+  }
+  const role = roleIn(project, uid);
+  if (!role) {
+    throw new ApiError('Access denied', 403);
+  }
+  return { uid, role };
+}
+
 export function startRealtimeServer(server: HttpServer) {
   const WS_OPEN = 1; // ws readyState OPEN
-  const wss = new WebSocketServer({ server, path: '/realtime' });
+  // Same credentials as requireAuth, plus project access; rejected before the socket opens
+  const verifyClient = (info: { req: IncomingMessage }, done: (result: boolean, code?: number, message?: string) => void) => {
+    authorizeUpgrade(info.req)
+      .then((client) => {
+        (info.req as any).realtimeClient = client;
+        done(true);
+      })
+      .catch((err: any) => {
+        const status = err instanceof ApiError ? err.statusCode : 401;
+        logger.warn({ status, err: err?.message }, 'Realtime WS handshake rejected');
+        done(false, status, status === 401 ? 'Unauthorized' : err?.message);
+      });
+  };
+  const wss = new WebSocketServer({ server, path: '/realtime', verifyClient });
   const rooms = new Map<string, Set<WebSocket>>(); // projectId -> clients
 
-  // Register "project opened elsewhere" broadcaster: notify all tabs except the one that just opened
-  registerCanvasSessionBroadcaster((projectId: string, payload: any, targetSessionId: string | null = null, exceptSessionId: string | null = null) => {
+  // Deliver to this instance's sockets, optionally addressed to (or excluding) one canvas session
+  function deliverToSessions(projectId: string, payload: any, targetSessionId: string | null = null, exceptSessionId: string | null = null) {
     const room = rooms.get(projectId);
     if (!room) return;
     const data = JSON.stringify(payload);
@@ -138,6 +247,51 @@ export function startRealtimeServer(server: HttpServer) {
         } catch (_e) { /* ignore */ }
       }
     }
+  }
+
+  // Re-read every local socket's role after a membership change: removed users are disconnected,
+  // changed roles (viewer <-> editor, transferred ownership) apply to the next message
+  async function reauthorizeRoom(projectId: string) {
+    const room = rooms.get(projectId);
+    if (!room || room.size === 0) return;
+    let project: CanvasProject | null;
+    try {
+      project = await projectRepository.getProject(projectId);
+    } catch (err) {
+      logger.warn({ projectId, err: String(err) }, 'Realtime re-authorization failed; keeping current roles');
+      return;
+    }
+    for (const ws of room) {
+      const client = (ws as any).realtimeClient as RealtimeClient;
+      const role = project ? roleIn(project, client.uid) : undefined;
+      if (role) {
+        client.role = role;
+        continue;
+      }
+      room.delete(ws);
+      logger.info({ projectId, uid: client.uid }, 'Realtime access revoked, closing socket');
+      try {
+        ws.send(JSON.stringify({ kind: 'error', code: 'ACCESS_REVOKED', message: 'You no longer have access to this canvas' }));
+      } catch {/* ignore */ }
+      ws.close(ACCESS_REVOKED_CLOSE_CODE, 'Access revoked');
+    }
+  }
+
+  // Session notices from this instance or relayed from another one
+  function handleSessionNotice(projectId: string, payload: any, targetSessionId: string | null, exceptSessionId: string | null) {
+    if (payload?.type === 'project_membership_changed') {
+      // Membership notices go to everyone; revoked sockets are dropped before the next message
+      reauthorizeRoom(projectId).finally(() => deliverToSessions(projectId, payload, targetSessionId, exceptSessionId));
+      return;
+    }
+    deliverToSessions(projectId, payload, targetSessionId, exceptSessionId);
+  }
+
+  // Register "project opened elsewhere" broadcaster: notify all tabs except the one that just opened.
+  // The addressed session may be connected to another instance, so notices go over the backplane too.
+  registerCanvasSessionBroadcaster((projectId: string, payload: any, targetSessionId: string | null = null, exceptSessionId: string | null = null) => {
+    handleSessionNotice(projectId, payload, targetSessionId, exceptSessionId);
+    publishRealtime({ kind: 'broadcast', projectId, payload, targetSessionId, exceptSessionId });
   });
 
   // Helper to broadcast messages to clients
@@ -155,6 +309,42 @@ export function startRealtimeServer(server: HttpServer) {
     logger.info({ projectId, type: payload?.type || payload?.kind, recipients: sent }, 'Realtime broadcast');
   }
 
+  // Broadcast locally and relay to sockets on the other instances
+  function broadcastAll(projectId: string, payload: any, except?: WebSocket) {
+    broadcast(projectId, payload, except);
+    publishRealtime({ kind: 'broadcast', projectId, payload });
+  }
+
+  // History ops for a project run one at a time: version allocation awaits Redis, and remote ops
+  // must not interleave with local undo/redo stack changes.
+  const projectTasks = new Map<string, Promise<void>>();
+
+  function runInOrder(projectId: string, task: () => Promise<void>) {
+    const next = (projectTasks.get(projectId) || Promise.resolve())
+      .then(task)
+      .catch((err) => logger.error({ projectId, err: String(err) }, 'Realtime history task failed'));
+    projectTasks.set(projectId, next);
+    next.finally(() => {
+      if (projectTasks.get(projectId) === next) projectTasks.delete(projectId);
+    });
+  }
+
+  async function nextVersion(projectId: string, state: ProjectState): Promise<number> {
+    state.version = await incrementSharedCounter(versionKey(projectId), SHARED_STATE_TTL_SECONDS, state.version);
+    return state.version;
+  }
+
+  type HistoryFlags = { canUndo: boolean; canRedo: boolean };
+
+  function broadcastOp(projectId: string, state: ProjectState, op: CanvasOp, flags: HistoryFlags) {
+    broadcast(projectId, {
+      kind: 'op',
+      op: op,
+      version: state.version,
+      ...flags,
+    });
+  }
+
   // Helper to apply operations to server-side memory (Persistence)
   function applyOpToProject(state: ProjectState, op: CanvasOp) {
     if (!op || !op.type) return;
@@ -282,7 +472,7 @@ export function startRealtimeServer(server: HttpServer) {
   }
 
   // Helper to persist operations to Firestore (Ops + Element State)
-  async function persistOp(projectId: string, op: CanvasOp, state: ProjectState) {
+  async function persistOp(projectId: string, op: CanvasOp, state: ProjectState, actorUid: string) {
     try {
       // 1. Append Op to History (Ops Collection & Increment Counter)
       await opRepository.appendOp(projectId, {
@@ -292,7 +482,7 @@ export function startRealtimeServer(server: HttpServer) {
         inverse: op.inverse as any,
         elementIds: op.elementIds,
         elementId: op.elementId, // Deprecated but kept for compat
-        actorUid: op.authorId,
+        actorUid,
       });
 
       // 2. Update Element State (Elements Collection) - Snapshot Source
@@ -370,29 +560,118 @@ export function startRealtimeServer(server: HttpServer) {
     return true;
   }
 
+  /**
+   * Undo/redo stack change on the shared history document. Returns the entry that was undone or
+   * redone (nothing when the stack is empty, or the top undo entry has no inverse) and the flags
+   * clients show; the stacks themselves stay in shared state so every instance sees the same ones.
+   */
+  async function recordHistory(
+    projectId: string,
+    action: HistoryAction,
+    entry?: CanvasOp
+  ): Promise<{ item?: CanvasOp } & HistoryFlags> {
+    return mutateSharedState<ProjectHistory, { item?: CanvasOp } & HistoryFlags>(
+      historyKey(projectId),
+      SHARED_STATE_TTL_SECONDS,
+      () => ({ undoStack: [], redoStack: [] }),
+      (history) => {
+        let item: CanvasOp | undefined;
+        if (action === 'push' && entry) {
+          history.redoStack = [];
+          history.undoStack.push(entry);
+          if (history.undoStack.length > UNDO_STACK_LIMIT) history.undoStack.shift();
+        } else if (action === 'undo') {
+          const top = history.undoStack[history.undoStack.length - 1];
+          if (top?.inverse) item = history.undoStack.pop();
+          if (item) history.redoStack.push(item);
+        } else if (action === 'redo') {
+          item = history.redoStack.pop();
+          if (item) history.undoStack.push(item);
+        }
+        return { item, canUndo: history.undoStack.length > 0, canRedo: history.redoStack.length > 0 };
+      }
+    );
+  }
+
+  // Persist, then relay: an instance that loads the project later reads the op from Firestore
+  // instead of depending on a relay it was not following yet.
+  async function persistAndPublish(projectId: string, op: CanvasOp, state: ProjectState, actorUid: string, message: BackplaneMessage) {
+    await persistOp(projectId, op, state, actorUid);
+    publishRealtime(message);
+  }
+
+  // Messages published by other gateway instances. The originating instance has already persisted
+  // the op and updated the shared history; here we mirror it into local state and deliver it.
+  function handleBackplaneMessage(message: BackplaneMessage) {
+    const { projectId } = message;
+    if (message.kind === 'broadcast') {
+      handleSessionNotice(projectId, message.payload, message.targetSessionId ?? null, message.exceptSessionId ?? null);
+      return;
+    }
+    // Projects this instance does not hold are loaded from Firestore when first joined
+    if (!projects.has(projectId) && !loadingProjects.has(projectId)) return;
+    runInOrder(projectId, async () => {
+      const state = await loadProjectState(projectId);
+      applyOpToProject(state, message.op);
+      state.version = Math.max(state.version, message.version);
+      broadcastOp(projectId, state, message.op, { canUndo: message.canUndo, canRedo: message.canRedo });
+    });
+  }
+
+  startRealtimeBackplane(handleBackplaneMessage);
+
+  // Ops already persisted by the op service (assistant agent) get a version and reach every
+  // instance like socket ops; they are not pushed to the undo history.
+  registerCanvasOpPublisher((projectId: string, op: CanvasOp) => {
+    runInOrder(projectId, async () => {
+      const state = await loadProjectState(projectId);
+      await nextVersion(projectId, state);
+      applyOpToProject(state, op);
+      const history = await readSharedState<ProjectHistory>(historyKey(projectId), () => ({ undoStack: [], redoStack: [] }));
+      const flags = { canUndo: history.undoStack.length > 0, canRedo: history.redoStack.length > 0 };
+      broadcastOp(projectId, state, op, flags);
+      publishRealtime({ kind: 'op', projectId, op, version: state.version, ...flags });
+    });
+  });
+
   wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
-    const projectId = getProjectId(req.url) || 'default';
+    const projectId = getProjectId(req.url)!; // required by verifyClient
     const sessionId = getSessionId(req.url);
+    const client = (req as any).realtimeClient as RealtimeClient;
     (ws as any).canvasSessionId = sessionId ?? undefined;
+    (ws as any).realtimeClient = client;
 
     if (!rooms.has(projectId)) rooms.set(projectId, new Set());
     rooms.get(projectId)!.add(ws);
+    websocketConnections.inc({ server: 'realtime' });
 
-    logger.info({ projectId, hasSessionId: !!sessionId }, 'Realtime WS connected');
+    logger.info({ projectId, uid: client.uid, role: client.role, hasSessionId: !!sessionId }, 'Realtime WS connected');
 
-    // Send init state
-    const state = getProjectState(projectId);
-    const overlays = Array.from(state.overlays.values());
-    const media = Array.from(state.media.values());
-    try {
-      ws.send(JSON.stringify({
-        type: 'init',
-        overlays,
-        media,
-        version: state.version
-      }));
-      logger.info({ projectId, overlays: overlays.length, media: media.length, version: state.version }, 'Realtime init sent');
-    } catch {/* ignore */ }
+    // Send init state (version may have advanced on another instance)
+    function sendInit() {
+      Promise.all([loadProjectState(projectId), readSharedCounter(versionKey(projectId))])
+        .then(([state, sharedVersion]) => {
+          if (sharedVersion != null && sharedVersion > state.version) state.version = sharedVersion;
+          const overlays = Array.from(state.overlays.values());
+          const media = Array.from(state.media.values());
+          try {
+            ws.send(JSON.stringify({
+              type: 'init',
+              overlays,
+              media,
+              version: state.version
+            }));
+            logger.info({ projectId, overlays: overlays.length, media: media.length, version: state.version }, 'Realtime init sent');
+          } catch {/* ignore */ }
+        })
+        .catch((err) => {
+          logger.error({ projectId, err: String(err) }, 'Realtime project state load failed');
+          try {
+            ws.send(JSON.stringify({ kind: 'error', code: 'STATE_UNAVAILABLE', message: 'Canvas state could not be loaded' }));
+          } catch {/* ignore */ }
+        });
+    }
+    sendInit();
 
     ws.on('message', (raw: RawData) => {
       let msg: any = null;
@@ -404,24 +683,26 @@ export function startRealtimeServer(server: HttpServer) {
 
       // Normalize 'kind' vs 'type'
       const kind = msg.kind || msg.type;
-      const state = getProjectState(projectId);
 
       // --- INIT ---
       if (kind === 'init') {
-        const overlays = Array.from(state.overlays.values());
-        const media = Array.from(state.media.values());
-        ws.send(JSON.stringify({
-          type: 'init',
-          overlays,
-          media,
-          version: state.version
-        }));
+        sendInit();
+        return;
+      }
+
+      // Viewers receive ops but cannot change the canvas (role is kept current by reauthorizeRoom)
+      if (client.role === 'viewer' && (kind === 'history.push' || kind === 'history.undo' || kind === 'history.redo' || kind === 'snapshot.sync')) {
+        logger.warn({ projectId, uid: client.uid, kind }, 'Realtime mutation from viewer rejected');
+        try {
+          ws.send(JSON.stringify({ kind: 'error', code: 'FORBIDDEN', message: 'Viewers cannot edit this canvas', rejected: kind }));
+        } catch {/* ignore */ }
         return;
       }
 
       // --- HISTORY PUSH ---
       if (kind === 'history.push') {
-        const { op, inverse } = msg;
+        const { inverse } = msg;
+        const op = msg.op && typeof msg.op === 'object' ? { ...msg.op, authorId: client.uid } : msg.op;
 
         // Validation
         if (!validateOp(op)) {
@@ -433,118 +714,88 @@ export function startRealtimeServer(server: HttpServer) {
           return;
         }
 
-        // 1. Clear Redo
-        state.history.redoStack = [];
-
-        // 2. Increment Version
-        state.version++;
-
-        // 3. Push to Undo Stack
-        state.history.undoStack.push({
-          id: `op-${Date.now()}-${Math.random()}`, // Deterministic server-sided ID assignment if missing
-          type: op.type,
-          data: op.data,
-          inverse,
-          authorId: 'user',
-          elementIds: op.elementIds, // Capture these for bulk operations
-          elementId: op.elementId,
-          ...op // Spread rest to catch loose props
-        });
-
-        // Limit Stack
-        if (state.history.undoStack.length > 50) {
-          state.history.undoStack.shift();
-        }
-
-        // 4. APPLY TO SERVER STATE (Persistence)
-        applyOpToProject(state, op);
-
-        // Fire-and-forget persistence to DB (don't block broadcast)
-        persistOp(projectId, op, state).catch(e => console.error('Persistence failed', e));
-
-        logger.info({ projectId, version: state.version, type: op.type }, 'History push (Strict)');
-
-        // 5. Broadcast OP to ALL (including sender)
-        broadcast(projectId, {
-          kind: 'op',
-          op: op,
-          version: state.version,
-          canUndo: state.history.undoStack.length > 0,
-          canRedo: state.history.redoStack.length > 0
+        runInOrder(projectId, async () => {
+          const state = await loadProjectState(projectId);
+
+          // 1. Increment Version
+          await nextVersion(projectId, state);
+
+          // 2. Clear Redo + Push to Undo Stack
+          const entry: CanvasOp = {
+            id: `op-${Date.now()}-${Math.random()}`, // Deterministic server-sided ID assignment if missing
+            type: op.type,
+            data: op.data,
+            inverse,
+            elementIds: op.elementIds, // Capture these for bulk operations
+            elementId: op.elementId,
+            ...op, // Spread rest to catch loose props
+            authorId: client.uid,
+          };
+          const flags = await recordHistory(projectId, 'push', entry);
+
+          // 3. APPLY TO SERVER STATE (Persistence)
+          applyOpToProject(state, op);
+
+          logger.info({ projectId, version: state.version, type: op.type }, 'History push (Strict)');
+
+          // 4. Broadcast OP to ALL (including sender) here, then persist and relay to the other instances
+          broadcastOp(projectId, state, op, flags);
+          await persistAndPublish(projectId, op, state, client.uid, { kind: 'op', projectId, op, version: state.version, ...flags });
         });
         return;
       }
 
       // --- UNDO ---
       if (kind === 'history.undo') {
-        if (state.history.undoStack.length === 0) return;
+        runInOrder(projectId, async () => {
+          const state = await loadProjectState(projectId);
+          const { item, ...flags } = await recordHistory(projectId, 'undo');
+          if (!item || !item.inverse) return;
 
-        const item = state.history.undoStack.pop()!;
-        if (!item.inverse) {
-          state.history.undoStack.push(item);
-          return;
-        }
-
-        state.version++;
-        state.history.redoStack.push(item);
+          await nextVersion(projectId, state);
 
-        // APPLY INVERSE TO STATE
-        applyOpToProject(state, item.inverse);
+          // APPLY INVERSE TO STATE
+          applyOpToProject(state, item.inverse);
 
-        // Fire-and-forget persistence of the INVERSE op (effectively a new op)
-        // Note: 'undo' pushes the INVERSE as a new op in `opRepository` usually via `appendOp`?
-        // Actually, strictly speaking, we should record the UNDO event itself or the inverse op.
-        // Our `appendOp` in repo adds a new doc.
-        // Let's persist the INVERSE as a new op so the sequence is linear in DB.
-        persistOp(projectId, item.inverse, state).catch(e => console.error('Undo Persistence failed', e));
+          logger.info({ projectId, version: state.version, undoing: item.type }, 'History undo (Strict)');
 
-        logger.info({ projectId, version: state.version, undoing: item.type }, 'History undo (Strict)');
-
-        broadcast(projectId, {
-          kind: 'op',
-          op: item.inverse,
-          version: state.version,
-          canUndo: state.history.undoStack.length > 0,
-          canRedo: state.history.redoStack.length > 0
+          // The INVERSE is persisted as a new op so the sequence is linear in DB
+          const undoOp = { ...item.inverse, authorId: client.uid };
+          broadcastOp(projectId, state, undoOp, flags);
+          await persistAndPublish(projectId, item.inverse, state, client.uid, { kind: 'op', projectId, op: undoOp, version: state.version, ...flags });
         });
         return;
       }
 
       // --- REDO ---
       if (kind === 'history.redo') {
-        if (state.history.redoStack.length === 0) return;
-
-        const item = state.history.redoStack.pop()!;
-
-        state.version++;
-        state.history.undoStack.push(item);
+        runInOrder(projectId, async () => {
+          const state = await loadProjectState(projectId);
+          const { item, ...flags } = await recordHistory(projectId, 'redo');
+          if (!item) return;
 
-        // APPLY ORIGINAL OP TO STATE
-        // Ensure we pass elementIds if they were missing in the item (fallback to item which hopefully has them now)
-        applyOpToProject(state, item);
+          await nextVersion(projectId, state);
 
-        // Fire-and-forget persistence
-        persistOp(projectId, item, state).catch(e => console.error('Redo Persistence failed', e));
+          // APPLY ORIGINAL OP TO STATE
+          // Ensure we pass elementIds if they were missing in the item (fallback to item which hopefully has them now)
+          applyOpToProject(state, item);
 
-        logger.info({ projectId, version: state.version, redoing: item.type }, 'History redo (Strict)');
+          logger.info({ projectId, version: state.version, redoing: item.type }, 'History redo (Strict)');
 
-        broadcast(projectId, {
-          kind: 'op',
-          op: item,
-          version: state.version,
-          canUndo: state.history.undoStack.length > 0,
-          canRedo: state.history.redoStack.length > 0
+          const redoOp = { ...item, authorId: client.uid };
+          broadcastOp(projectId, state, redoOp, flags);
+          await persistAndPublish(projectId, item, state, client.uid, { kind: 'op', projectId, op: redoOp, version: state.version, ...flags });
         });
         return;
       }
 
       // --- CURSOR ---
       if (kind === 'cursor') {
-        broadcast(projectId, {
+        broadcastAll(projectId, {
           kind: 'cursor',
           x: msg.x,
           y: msg.y,
-          authorId: typeof msg.authorId === 'string' ? msg.authorId : 'unknown',
+          authorId: client.uid,
           label: typeof msg.label === 'string' ? msg.label : undefined,
           color: typeof msg.color === 'string' ? msg.color : undefined,
         }, ws); // Exclude sender
@@ -552,18 +803,18 @@ export function startRealtimeServer(server: HttpServer) {
       }
 
       if (kind === 'snapshot.sync' && msg.snapshot && typeof msg.snapshot === 'object') {
-        broadcast(projectId, {
+        broadcastAll(projectId, {
           kind: 'snapshot.sync',
           snapshot: msg.snapshot,
-          authorId: typeof msg.authorId === 'string' ? msg.authorId : undefined,
+          authorId: client.uid,
         }, ws);
         return;
       }
 
       if (kind === 'collab.joined') {
-        broadcast(projectId, {
+        broadcastAll(projectId, {
           kind: 'collab.joined',
-          authorId: typeof msg.authorId === 'string' ? msg.authorId : 'unknown',
+          authorId: client.uid,
           username: typeof msg.username === 'string' ? msg.username : undefined,
           label: typeof msg.label === 'string' ? msg.label : undefined,
         }, ws);
@@ -571,9 +822,9 @@ export function startRealtimeServer(server: HttpServer) {
       }
 
       if (kind === 'collab.left') {
-        broadcast(projectId, {
+        broadcastAll(projectId, {
           kind: 'collab.left',
-          authorId: typeof msg.authorId === 'string' ? msg.authorId : 'unknown',
+          authorId: client.uid,
         }, ws);
         return;
       }
@@ -581,6 +832,7 @@ export function startRealtimeServer(server: HttpServer) {
 
     ws.on('close', () => {
       rooms.get(projectId)?.delete(ws);
+      websocketConnections.dec({ server: 'realtime' });
       logger.info({ projectId }, 'Realtime WS disconnected');
     });
 
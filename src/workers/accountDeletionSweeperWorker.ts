@@ -0,0 +1,75 @@
+/**
+ * Account Deletion Sweeper Worker
+ *
+ * Carries out self-service account deletions whose grace period
+ * (ACCOUNT_DELETION_GRACE_DAYS) has passed: canvas projects, engagement,
+ * Zata storage, Firestore data, sessions and the Firebase Auth user. Each
+ * deletion is claimed under a lease, so several sweepers can run side by side
+ * and a run that dies mid-way is picked up again once its lease lapses.
+ *
+ * Run this as a separate process (npm run account-deletion:sweeper).
+ */
+
+import 'dotenv/config';
+import { accountRepository } from '../repository/auth/accountRepository';
+import { accountDeletionService } from '../services/auth/accountDeletionService';
+import { env } from '../config/env';
+
+const SWEEP_INTERVAL_MS = env.accountDeletionSweepIntervalMs || 15 * 60 * 1000;
+const BATCH_LIMIT = 10;
+let running = true;
+
+process.on('SIGINT', () => { console.log('[AccountDeletionSweeper] SIGINT received, shutting down...'); running = false; });
+process.on('SIGTERM', () => { console.log('[AccountDeletionSweeper] SIGTERM received, shutting down...'); running = false; });
+
+async function sweep() {
+  try {
+    let deleted = 0;
+    let failed = 0;
+    // Each record is tried at most once per sweep; failed ones are rescheduled with a backoff
+    const seen = new Set<string>();
+    while (running) {
+      const records = (await accountRepository.pollDueDeletions(BATCH_LIMIT)).filter((r) => !seen.has(r.uid));
+      if (records.length === 0) break;
+      for (const record of records) {
+        if (!running) break;
+        seen.add(record.uid);
+        try {
+          // false: claimed by another sweeper or cancelled since the poll
+          if (await accountDeletionService.deleteAccountData(record)) deleted += 1;
+        } catch (error: any) {
+          failed += 1;
+          console.error('[AccountDeletionSweeper] ❌ Failed to delete account:', { uid: record.uid, message: error?.message });
+        }
+      }
+    }
+    if (deleted > 0 || failed > 0) {
+      console.log(`[AccountDeletionSweeper] ✅ Deleted ${deleted} account${deleted === 1 ? '' : 's'}${failed ? `, ${failed} failed` : ''}`);
+    }
+  } catch (error: any) {
+    console.error('[AccountDeletionSweeper] ❌ Sweep failed:', {
+      message: error?.message,
+      stack: error?.stack?.substring(0, 500),
+    });
+  }
+}
+
+async function loop() {
+  console.log('[AccountDeletionSweeper] Starting worker', {
+    sweepInterval: `${SWEEP_INTERVAL_MS / 1000}s`,
+    gracePeriod: `${env.accountDeletionGraceDays} days`,
+  });
+
+  while (running) {
+    await sweep();
+    if (!running) break;
+    await new Promise(resolve => setTimeout(resolve, SWEEP_INTERVAL_MS));
+  }
+
+  console.log('[AccountDeletionSweeper] Exiting worker');
+}
+
+loop().catch((error) => {
+  console.error('[AccountDeletionSweeper] Fatal error:', error);
+  process.exit(1);
+});
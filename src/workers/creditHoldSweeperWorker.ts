@@ -0,0 +1,65 @@
+/**
+ * Credit Hold Sweeper Worker
+ *
+ * Expires credit holds that were never captured (debit) or released (failure),
+ * e.g. when the gateway restarted mid-generation or a provider never called back.
+ * Expiring a hold only returns the reserved amount to the user's available balance;
+ * nothing is written to the credit-service ledger.
+ *
+ * Run this as a separate process (npm run holds:sweeper).
+ */
+
+import 'dotenv/config';
+import { creditHoldsRepository } from '../repository/creditHoldsRepository';
+import { env } from '../config/env';
+
+const SWEEP_INTERVAL_MS = env.creditHoldSweepIntervalMs || 5 * 60 * 1000;
+const BATCH_LIMIT = 100;
+let running = true;
+
+process.on('SIGINT', () => { console.log('[CreditHoldSweeper] SIGINT received, shutting down...'); running = false; });
+process.on('SIGTERM', () => { console.log('[CreditHoldSweeper] SIGTERM received, shutting down...'); running = false; });
+
+async function sweep() {
+  try {
+    let expired = 0;
+    // Drain in batches so a backlog after downtime is cleared in one cycle
+    while (running) {
+      const holds = await creditHoldsRepository.pollExpiredHolds(BATCH_LIMIT);
+      if (holds.length === 0) break;
+      for (const hold of holds) {
+        const outcome = await creditHoldsRepository.settleHold(hold.uid, hold.key, 'EXPIRED');
+        if (outcome === 'SETTLED') expired += 1;
+      }
+      if (holds.length < BATCH_LIMIT) break;
+    }
+    if (expired > 0) {
+      console.log(`[CreditHoldSweeper] ✅ Expired ${expired} stale hold(s)`);
+    }
+  } catch (error: any) {
+    console.error('[CreditHoldSweeper] ❌ Sweep failed:', {
+      message: error?.message,
+      stack: error?.stack?.substring(0, 500),
+    });
+  }
+}
+
+async function loop() {
+  console.log('[CreditHoldSweeper] Starting worker', {
+    sweepInterval: `${SWEEP_INTERVAL_MS / 1000}s`,
+    holdTtl: `${env.creditHoldTtlMinutes} minutes`,
+  });
+
+  while (running) {
+    await sweep();
+    if (!running) break;
+    await new Promise(resolve => setTimeout(resolve, SWEEP_INTERVAL_MS));
+  }
+
+  console.log('[CreditHoldSweeper] Exiting worker');
+}
+
+loop().catch((error) => {
+  console.error('[CreditHoldSweeper] Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,74 @@
+/**
+ * Generation Export Sweeper Worker
+ *
+ * Deletes bulk export archives (POST /api/generations/export) once their retention
+ * (GENERATION_EXPORT_RETENTION_DAYS) has passed. The export record stays, marked expired,
+ * so the owner still sees what was exported.
+ *
+ * Run this as a separate process (npm run exports:sweeper).
+ */
+
+import 'dotenv/config';
+import { generationExportsRepository } from '../repository/generationExportsRepository';
+import { generationExportService } from '../services/generationExportService';
+import { env } from '../config/env';
+
+const SWEEP_INTERVAL_MS = env.generationExportSweepIntervalMs || 30 * 60 * 1000;
+const BATCH_LIMIT = 100;
+let running = true;
+
+process.on('SIGINT', () => { console.log('[ExportSweeper] SIGINT received, shutting down...'); running = false; });
+process.on('SIGTERM', () => { console.log('[ExportSweeper] SIGTERM received, shutting down...'); running = false; });
+
+async function sweep() {
+  try {
+    let purged = 0;
+    let failed = 0;
+    // Drain in batches so a backlog after downtime is cleared in one cycle
+    while (running) {
+      const records = await generationExportsRepository.pollExpiredExports(BATCH_LIMIT);
+      if (records.length === 0) break;
+      let batchPurged = 0;
+      for (const record of records) {
+        try {
+          await generationExportService.purgeExpiredExport(record);
+          batchPurged += 1;
+        } catch (error: any) {
+          failed += 1;
+          console.error('[ExportSweeper] ❌ Failed to purge export:', { uid: record.uid, exportId: record.id, message: error?.message });
+        }
+      }
+      purged += batchPurged;
+      // Failed exports come back in the next poll; retry them next cycle
+      if (batchPurged === 0 || records.length < BATCH_LIMIT) break;
+    }
+    if (purged > 0 || failed > 0) {
+      console.log(`[ExportSweeper] ✅ Purged ${purged} export archive${purged === 1 ? '' : 's'}${failed ? `, ${failed} failed` : ''}`);
+    }
+  } catch (error: any) {
+    console.error('[ExportSweeper] ❌ Sweep failed:', {
+      message: error?.message,
+      stack: error?.stack?.substring(0, 500),
+    });
+  }
+}
+
+async function loop() {
+  console.log('[ExportSweeper] Starting worker', {
+    sweepInterval: `${SWEEP_INTERVAL_MS / 1000}s`,
+    retention: `${env.generationExportRetentionDays} days`,
+  });
+
+  while (running) {
+    await sweep();
+    if (!running) break;
+    await new Promise(resolve => setTimeout(resolve, SWEEP_INTERVAL_MS));
+  }
+
+  console.log('[ExportSweeper] Exiting worker');
+}
+
+loop().catch((error) => {
+  console.error('[ExportSweeper] Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+/**
+ * Background Job Worker
+ *
+ * Consumes the Redis-backed background job queues (aesthetic scoring, image optimization,
+ * video thumbnails) outside the API process. Pair with JOB_QUEUE_INLINE_WORKERS=false on the
+ * API to keep heavy media work off the request-serving instances.
+ *
+ * Without REDIS_URL the queue is in-process only, so this worker has nothing to consume.
+ *
+ * Run this as a separate process (npm run jobs:worker).
+ */
+
+import 'dotenv/config';
+import { backgroundTaskQueue } from '../utils/backgroundTaskQueue';
+import { startBackgroundJobs } from '../services/backgroundJobsService';
+import { isRedisEnabled } from '../config/redisClient';
+
+const STATUS_INTERVAL_MS = 60 * 1000;
+let running = true;
+
+async function shutdown(signal: string) {
+  if (!running) return;
+  running = false;
+  console.log(`[JobWorker] ${signal} received, draining running jobs...`);
+  // Unfinished jobs are handed out again once their lease expires
+  await backgroundTaskQueue.stop(30000);
+  console.log('[JobWorker] Exiting worker');
+  process.exit(0);
+}
+
+process.on('SIGINT', () => { void shutdown('SIGINT'); });
+process.on('SIGTERM', () => { void shutdown('SIGTERM'); });
+
+async function loop() {
+  if (!isRedisEnabled()) {
+    console.warn('[JobWorker] Redis is not enabled; jobs are consumed by the API process');
+    return;
+  }
+  startBackgroundJobs({ force: true });
+  console.log('[JobWorker] Starting worker');
+
+  while (running) {
+    await new Promise(resolve => setTimeout(resolve, STATUS_INTERVAL_MS));
+    if (!running) break;
+    try {
+      const statuses = await backgroundTaskQueue.getStatus();
+      for (const status of statuses) {
+        if (status.waiting || status.delayed || status.active || status.running) {
+          console.log('[JobWorker] Queue status', status);
+        }
+      }
+    } catch (error: any) {
+      console.error('[JobWorker] Failed to read queue status:', error?.message);
+    }
+  }
+}
+
+loop().catch((error) => {
+  console.error('[JobWorker] Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,74 @@
+/**
+ * Trash Sweeper Worker
+ *
+ * Purges trash entries whose restore window (TRASH_RETENTION_DAYS) has passed:
+ * deletes the generation's (or single image's) Zata objects and removes the
+ * public mirror doc. The generationHistory doc stays, marked purgedAt.
+ *
+ * Run this as a separate process (npm run trash:sweeper).
+ */
+
+import 'dotenv/config';
+import { generationTrashRepository } from '../repository/generationTrashRepository';
+import { generationTrashService } from '../services/generationTrashService';
+import { env } from '../config/env';
+
+const SWEEP_INTERVAL_MS = env.trashSweepIntervalMs || 10 * 60 * 1000;
+const BATCH_LIMIT = 100;
+let running = true;
+
+process.on('SIGINT', () => { console.log('[TrashSweeper] SIGINT received, shutting down...'); running = false; });
+process.on('SIGTERM', () => { console.log('[TrashSweeper] SIGTERM received, shutting down...'); running = false; });
+
+async function sweep() {
+  try {
+    let purged = 0;
+    let failed = 0;
+    // Drain in batches so a backlog after downtime is cleared in one cycle
+    while (running) {
+      const entries = await generationTrashRepository.pollExpiredEntries(BATCH_LIMIT);
+      if (entries.length === 0) break;
+      let batchPurged = 0;
+      for (const entry of entries) {
+        try {
+          await generationTrashService.purgeEntry(entry);
+          batchPurged += 1;
+        } catch (error: any) {
+          failed += 1;
+          console.error('[TrashSweeper] ❌ Failed to purge entry:', { uid: entry.uid, entryId: entry.id, message: error?.message });
+        }
+      }
+      purged += batchPurged;
+      // Failed entries come back in the next poll; retry them next cycle
+      if (batchPurged === 0 || entries.length < BATCH_LIMIT) break;
+    }
+    if (purged > 0 || failed > 0) {
+      console.log(`[TrashSweeper] ✅ Purged ${purged} trash entr${purged === 1 ? 'y' : 'ies'}${failed ? `, ${failed} failed` : ''}`);
+    }
+  } catch (error: any) {
+    console.error('[TrashSweeper] ❌ Sweep failed:', {
+      message: error?.message,
+      stack: error?.stack?.substring(0, 500),
+    });
+  }
+}
+
+async function loop() {
+  console.log('[TrashSweeper] Starting worker', {
+    sweepInterval: `${SWEEP_INTERVAL_MS / 1000}s`,
+    retention: `${env.trashRetentionDays} days`,
+  });
+
+  while (running) {
+    await sweep();
+    if (!running) break;
+    await new Promise(resolve => setTimeout(resolve, SWEEP_INTERVAL_MS));
+  }
+
+  console.log('[TrashSweeper] Exiting worker');
+}
+
+loop().catch((error) => {
+  console.error('[TrashSweeper] Fatal error:', error);
+  process.exit(1);
+});